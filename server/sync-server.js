@@ -0,0 +1,264 @@
+/**
+ * TACTMS Reference Sync Server
+ *
+ * A small, dependency-free Node server that receives the offline action queue
+ * from SyncManager (HttpSyncTransport). Intended for local development and
+ * testing - it has no authentication.
+ *
+ * Usage:
+ *   npm run sync-server
+ *   VITE_SYNC_SERVER_URL=http://localhost:8787 npm run dev
+ *
+ * Environment:
+ *   SYNC_SERVER_PORT       Port to listen on (default 8787)
+ *   SYNC_SERVER_DATA_FILE  JSON file used for persistence (default ./sync-server-data.json)
+ *
+ * Endpoints:
+ *   GET  /health                  Liveness check
+ *   POST /sync/actions            Deliver a batch: { clientId, actions: [{ id, type, payload, timestamp }] }
+ *                                 Each result is "ok", "rejected" or "conflict" (with the current member)
+ *   GET  /sync/actions?since=<ms> Journal of accepted actions received after `since`
+ *   GET  /sync/members?assembly=  Current member state for an assembly
+ */
+
+import http from "node:http";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ACTION_TYPES = ["ADD_MEMBER", "UPDATE_MEMBER", "DELETE_MEMBER", "UPDATE_TITHE"];
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Empty server state
+ */
+export const createEmptyState = () => ({
+    processed: {}, // `${clientId}:${actionId}` -> receivedAt
+    journal: [],
+    members: {}, // assemblyName -> memberKey -> member
+    tithes: {}, // assemblyName -> entryKey -> tithe payload
+});
+
+const memberKeyOf = (member) =>
+    String(member?.["Membership Number"] || member?.["Old Membership Number"] || "").trim();
+
+/**
+ * Validate an action. Returns an error message, or null when valid.
+ */
+export const validateAction = (action) => {
+    if (!action || typeof action !== "object") return "Action must be an object";
+    if (typeof action.id !== "number") return "Action id must be a number";
+    if (!ACTION_TYPES.includes(action.type)) return `Unknown action type: ${action.type}`;
+
+    const payload = action.payload;
+    if (!payload || typeof payload !== "object") return "Payload must be an object";
+
+    switch (action.type) {
+        case "ADD_MEMBER":
+        case "UPDATE_MEMBER":
+            if (!payload.assemblyName) return "Payload is missing assemblyName";
+            if (!memberKeyOf(payload.member)) return "Member has no membership number";
+            return null;
+        case "DELETE_MEMBER":
+            if (!payload.assemblyName) return "Payload is missing assemblyName";
+            if (!payload.memberId) return "Payload is missing memberId";
+            return null;
+        case "UPDATE_TITHE":
+            if (!payload.memberId) return "Payload is missing memberId";
+            if (payload.amount !== undefined && Number.isNaN(Number(payload.amount))) {
+                return "Tithe amount is not a number";
+            }
+            return null;
+        default:
+            return null;
+    }
+};
+
+/**
+ * UPDATE_MEMBER carries the revision the edit started from. If the stored
+ * member has moved on since, another device got there first.
+ * Devices number revisions independently, so a revision only matches when
+ * both its number and the device that made it (`revisedBy`) do.
+ * Returns the stored member on conflict, otherwise null.
+ */
+export const findConflict = (state, action) => {
+    if (action.type !== "UPDATE_MEMBER") return null;
+    const { assemblyName, member, baseRevision, baseRevisedBy } = action.payload;
+    if (typeof baseRevision !== "number") return null;
+
+    const current = state.members[assemblyName]?.[memberKeyOf(member)];
+    if (!current) return null;
+    const sameRevision =
+        (current.revision || 0) === baseRevision && (current.revisedBy || null) === (baseRevisedBy || null);
+    return sameRevision ? null : current;
+};
+
+/**
+ * Apply a validated action to the state (mutates state)
+ */
+export const applyAction = (state, action) => {
+    const { type, payload } = action;
+
+    switch (type) {
+        case "ADD_MEMBER":
+        case "UPDATE_MEMBER": {
+            const assembly = (state.members[payload.assemblyName] ||= {});
+            const key = memberKeyOf(payload.member);
+            assembly[key] = { ...(assembly[key] || {}), ...payload.member };
+            break;
+        }
+        case "DELETE_MEMBER": {
+            const assembly = state.members[payload.assemblyName];
+            if (assembly) delete assembly[String(payload.memberId)];
+            break;
+        }
+        case "UPDATE_TITHE": {
+            const assemblyName = payload.assemblyName || "__UNASSIGNED__";
+            const assembly = (state.tithes[assemblyName] ||= {});
+            assembly[`${payload.memberId}:${payload.date || ""}`] = payload;
+            break;
+        }
+    }
+};
+
+/**
+ * Process a delivered batch. Already-processed actions are acknowledged
+ * again without being re-applied, so client retries are safe.
+ */
+export const processBatch = (state, clientId, actions, now = Date.now()) => {
+    return actions.map((action) => {
+        const id = action?.id;
+        const error = validateAction(action);
+        if (error) return { id, status: "rejected", error };
+
+        const key = `${clientId}:${id}`;
+        if (state.processed[key]) return { id, status: "ok" };
+
+        const current = findConflict(state, action);
+        if (current) {
+            return { id, status: "conflict", error: "Member was changed on another device", current };
+        }
+
+        applyAction(state, action);
+        state.processed[key] = now;
+        state.journal.push({
+            clientId,
+            actionId: id,
+            type: action.type,
+            payload: action.payload,
+            timestamp: action.timestamp,
+            receivedAt: now,
+        });
+        return { id, status: "ok" };
+    });
+};
+
+const loadState = (dataFile) => {
+    try {
+        if (fs.existsSync(dataFile)) {
+            return { ...createEmptyState(), ...JSON.parse(fs.readFileSync(dataFile, "utf8")) };
+        }
+    } catch (e) {
+        console.error(`[sync-server] Could not read ${dataFile}, starting empty:`, e.message);
+    }
+    return createEmptyState();
+};
+
+const saveState = (dataFile, state) => {
+    fs.writeFileSync(dataFile, JSON.stringify(state, null, 2));
+};
+
+const sendJson = (res, status, body) => {
+    res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type",
+    });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+    new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks = [];
+        req.on("data", (chunk) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(Object.assign(new Error("Payload too large"), { status: 413 }));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+        req.on("error", reject);
+    });
+
+/**
+ * Create the HTTP server (not yet listening)
+ */
+export const createSyncServer = ({ dataFile = null } = {}) => {
+    const state = dataFile ? loadState(dataFile) : createEmptyState();
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || "/", "http://localhost");
+
+        if (req.method === "OPTIONS") return sendJson(res, 204, {});
+
+        try {
+            if (req.method === "GET" && url.pathname === "/health") {
+                return sendJson(res, 200, { status: "ok", journalSize: state.journal.length });
+            }
+
+            if (req.method === "POST" && url.pathname === "/sync/actions") {
+                let body;
+                try {
+                    body = JSON.parse(await readBody(req));
+                } catch (e) {
+                    return sendJson(res, e.status || 400, { error: e.status ? e.message : "Invalid JSON" });
+                }
+                if (!body.clientId || !Array.isArray(body.actions)) {
+                    return sendJson(res, 400, { error: "Expected { clientId, actions[] }" });
+                }
+
+                const results = processBatch(state, String(body.clientId), body.actions);
+                if (dataFile) saveState(dataFile, state);
+                console.log(
+                    `[sync-server] ${body.clientId}: ${results.filter((r) => r.status === "ok").length}/${results.length} accepted`
+                );
+                return sendJson(res, 200, { results });
+            }
+
+            if (req.method === "GET" && url.pathname === "/sync/actions") {
+                const since = Number(url.searchParams.get("since") || 0);
+                return sendJson(res, 200, {
+                    actions: state.journal.filter((entry) => entry.receivedAt > since),
+                });
+            }
+
+            if (req.method === "GET" && url.pathname === "/sync/members") {
+                const assembly = url.searchParams.get("assembly");
+                if (!assembly) return sendJson(res, 400, { error: "Missing assembly parameter" });
+                return sendJson(res, 200, { members: Object.values(state.members[assembly] || {}) });
+            }
+
+            return sendJson(res, 404, { error: "Not found" });
+        } catch (e) {
+            console.error("[sync-server] Request failed:", e);
+            return sendJson(res, 500, { error: "Internal server error" });
+        }
+    });
+
+    return { server, state };
+};
+
+// Run directly: node server/sync-server.js
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    const port = Number(process.env.SYNC_SERVER_PORT || 8787);
+    const dataFile = path.resolve(process.env.SYNC_SERVER_DATA_FILE || "sync-server-data.json");
+    const { server } = createSyncServer({ dataFile });
+    server.listen(port, () => {
+        console.log(`[sync-server] Listening on http://localhost:${port} (data: ${dataFile})`);
+    });
+}
@@ -0,0 +1,126 @@
+/// <reference types="vitest/globals" />
+/**
+ * sync-server.test.js
+ * Tests validation and batch processing in the reference sync server
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEmptyState, findConflict, processBatch, validateAction } from './sync-server.js';
+
+const member = (id, extra = {}) => ({ "Membership Number": id, "First Name": 'Kwame', Surname: 'Mensah', ...extra });
+
+describe('validateAction', () => {
+    it('accepts well-formed actions', () => {
+        expect(validateAction({ id: 1, type: 'ADD_MEMBER', payload: { assemblyName: 'Central', member: member('TAC001') } })).toBeNull();
+        expect(validateAction({ id: 2, type: 'UPDATE_TITHE', payload: { memberId: 'TAC001', amount: '50' } })).toBeNull();
+    });
+
+    it('explains what is wrong with a malformed action', () => {
+        expect(validateAction(null)).toBe('Action must be an object');
+        expect(validateAction({ id: '1', type: 'ADD_MEMBER', payload: {} })).toBe('Action id must be a number');
+        expect(validateAction({ id: 1, type: 'RENAME', payload: {} })).toBe('Unknown action type: RENAME');
+        expect(validateAction({ id: 1, type: 'UPDATE_MEMBER', payload: { assemblyName: 'Central', member: {} } }))
+            .toBe('Member has no membership number');
+        expect(validateAction({ id: 1, type: 'DELETE_MEMBER', payload: { assemblyName: 'Central' } }))
+            .toBe('Payload is missing memberId');
+        expect(validateAction({ id: 1, type: 'UPDATE_TITHE', payload: { memberId: 'TAC001', amount: 'abc' } }))
+            .toBe('Tithe amount is not a number');
+    });
+});
+
+describe('processBatch', () => {
+    it('applies valid actions and rejects invalid ones without stopping the batch', () => {
+        const state = createEmptyState();
+        const results = processBatch(state, 'device-a', [
+            { id: 1, type: 'ADD_MEMBER', payload: { assemblyName: 'Central', member: member('TAC001') }, timestamp: 10 },
+            { id: 2, type: 'UPDATE_TITHE', payload: {}, timestamp: 11 },
+            { id: 3, type: 'UPDATE_TITHE', payload: { assemblyName: 'Central', memberId: 'TAC001', amount: 50, date: '2024-01-07' }, timestamp: 12 },
+        ], 1000);
+
+        expect(results).toEqual([
+            { id: 1, status: 'ok' },
+            { id: 2, status: 'rejected', error: 'Payload is missing memberId' },
+            { id: 3, status: 'ok' },
+        ]);
+        expect(state.members.Central.TAC001['First Name']).toBe('Kwame');
+        expect(state.tithes.Central['TAC001:2024-01-07'].amount).toBe(50);
+        expect(state.journal.map((e) => e.actionId)).toEqual([1, 3]);
+        expect(state.journal[0]).toMatchObject({ clientId: 'device-a', type: 'ADD_MEMBER', timestamp: 10, receivedAt: 1000 });
+    });
+
+    it('acknowledges a redelivered action without applying it twice', () => {
+        const state = createEmptyState();
+        const add = { id: 1, type: 'ADD_MEMBER', payload: { assemblyName: 'Central', member: member('TAC001') }, timestamp: 10 };
+        processBatch(state, 'device-a', [add]);
+        state.members.Central.TAC001.Surname = 'Changed since';
+
+        expect(processBatch(state, 'device-a', [add])).toEqual([{ id: 1, status: 'ok' }]);
+        expect(state.members.Central.TAC001.Surname).toBe('Changed since');
+        expect(state.journal).toHaveLength(1);
+
+        // The same action ID from another device is a different action
+        expect(processBatch(state, 'device-b', [add])).toEqual([{ id: 1, status: 'ok' }]);
+        expect(state.journal).toHaveLength(2);
+    });
+
+    it('deletes members by membership number', () => {
+        const state = createEmptyState();
+        processBatch(state, 'device-a', [
+            { id: 1, type: 'ADD_MEMBER', payload: { assemblyName: 'Central', member: member('TAC001') } },
+            { id: 2, type: 'DELETE_MEMBER', payload: { assemblyName: 'Central', memberId: 'TAC001' } },
+        ]);
+        expect(state.members.Central).toEqual({});
+    });
+});
+
+describe('findConflict', () => {
+    const update = (id, memberFields, baseRevision, baseRevisedBy) => ({
+        id,
+        type: 'UPDATE_MEMBER',
+        payload: { assemblyName: 'Central', member: member('TAC001', memberFields), baseRevision, baseRevisedBy },
+    });
+
+    const stateWithMember = () => {
+        const state = createEmptyState();
+        processBatch(state, 'device-a', [
+            { id: 1, type: 'ADD_MEMBER', payload: { assemblyName: 'Central', member: member('TAC001', { revision: 1, revisedBy: 'device-a' }) } },
+        ]);
+        return state;
+    };
+
+    it('accepts a chain of edits from the device that made the stored revision', () => {
+        const state = stateWithMember();
+        const results = processBatch(state, 'device-a', [
+            update(2, { Surname: 'Mensa', revision: 2, revisedBy: 'device-a' }, 1, 'device-a'),
+            update(3, { Surname: 'Mensa', Email: 'k@example.com', revision: 3, revisedBy: 'device-a' }, 2, 'device-a'),
+        ]);
+
+        expect(results.map((r) => r.status)).toEqual(['ok', 'ok']);
+        expect(state.members.Central.TAC001).toMatchObject({ Surname: 'Mensa', Email: 'k@example.com', revision: 3 });
+    });
+
+    it('flags an edit whose base revision has the same number but came from another device', () => {
+        const state = stateWithMember();
+        const action = update(1, { Surname: 'Mensa', revision: 2, revisedBy: 'device-b' }, 1, 'device-b');
+
+        expect(findConflict(state, action)).toBe(state.members.Central.TAC001);
+        const [result] = processBatch(state, 'device-b', [action]);
+        expect(result).toMatchObject({ status: 'conflict', current: { Surname: 'Mensah', revisedBy: 'device-a' } });
+        expect(state.members.Central.TAC001.Surname).toBe('Mensah');
+    });
+
+    it('flags an edit made on a stale revision', () => {
+        const state = stateWithMember();
+        processBatch(state, 'device-a', [update(2, { Surname: 'Mensa', revision: 2, revisedBy: 'device-a' }, 1, 'device-a')]);
+
+        expect(processBatch(state, 'device-c', [update(1, { Email: 'x@example.com' }, 1, 'device-a')])[0].status)
+            .toBe('conflict');
+    });
+
+    it('does not check adds, unknown members or edits without a base revision', () => {
+        const state = stateWithMember();
+        expect(findConflict(state, update(9, {}, undefined))).toBeNull();
+        expect(findConflict(state, { ...update(9, {}, 5, 'device-z'), type: 'ADD_MEMBER' })).toBeNull();
+        expect(findConflict(createEmptyState(), update(9, {}, 5, 'device-z'))).toBeNull();
+    });
+});
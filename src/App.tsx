@@ -10,6 +10,7 @@ import {
   TitheRecordB,
   FavoriteConfig,
   MembershipReconciliationReport,
+  ScribeDetection,
 } from "./types";
 import Button from "@/components/Button";
 import { Toaster } from "@/components/ui/sonner";
@@ -57,8 +58,20 @@ import {
   reconcileMembers,
   filterMembersByAge,
 } from "@/services/excelProcessor";
+import { buildTransactionLogEntry, upsertTransactionLogEntries } from "@/services/titheList";
 
 import { formatDateDDMMMYYYY, calculateSundayDate, getMostRecentSunday } from "@/lib/dataTransforms";
+import { getAmountInGHS } from "@/lib/currency";
+import { applyTransactionSettings } from "@/lib/transactionTypes";
+import type { ImagePreprocessingPreview, WeekExtraction } from "@/services/imageProcessor";
+import type { DiscrepancyReport } from "@/services/pageSequencer";
+import { detectScribe, getScribesForAssembly } from "@/services/scribeProfiles";
+import {
+  getMemberListChanges,
+  recordMemberChanges,
+  setMemberHistoryActor,
+  MemberChangeInput,
+} from "@/services/memberHistory";
 
 import {
   initializeOrder,
@@ -237,6 +250,7 @@ const App: React.FC = () => {
     setConcatenationConfig: _setConcatenationConfig,
     amountMappingColumn,
     setAmountMappingColumn,
+    transactionSettings,
     clearWorkspace,
     clearAutoSaveDraft,
   } = useWorkspaceContext();
@@ -268,13 +282,27 @@ const App: React.FC = () => {
   // Notebook format detection state
   const [isNotebookFormat, setIsNotebookFormat] = useState(false);
   const [notebookMetadata, setNotebookMetadata] = useState<{ detectedDate?: string; attendance?: number } | undefined>(undefined);
+  // Before/after photo from the pre-processing stage
+  const [imagePreprocessing, setImagePreprocessing] = useState<ImagePreprocessingPreview | undefined>(undefined);
+  const [imageTotalDiscrepancies, setImageTotalDiscrepancies] = useState<DiscrepancyReport[] | undefined>(undefined);
+  const [imageScribeDetection, setImageScribeDetection] = useState<ScribeDetection | null>(null);
+  // Month scan: each Sunday read from the page is reviewed before it is logged
+  const [monthScanReview, setMonthScanReview] = useState<{
+    assemblyName: string;
+    weeks: WeekExtraction[];
+    index: number;
+    masterData: MemberRecordA[];
+    preprocessing?: ImagePreprocessingPreview;
+    // Rows whose weeks do not add up to the TOTAL; shown on every Sunday they span
+    totalDiscrepancies?: DiscrepancyReport[];
+  } | null>(null);
 
   // Favorites hook - provides saveFavorite, deleteFavorite, updateFavoriteName, etc.
   const favoritesHook = useFavorites(addToast);
 
 
 
-  const { analyzeImage } = useGemini(
+  const { analyzeImage, analyzeImageAllWeeks } = useGemini(
     import.meta.env.VITE_GEMINI_API_KEY,
   );
 
@@ -356,6 +384,11 @@ const App: React.FC = () => {
     isConfigured: isDriveConfigured,
   } = useGoogleDriveSync(addToast);
 
+  // Attribute member history events to the signed-in account
+  useEffect(() => {
+    setMemberHistoryActor(driveUserProfile);
+  }, [driveUserProfile]);
+
   // App Actions hook - centralized handlers extracted from App.tsx
   const appActions = useAppActions({
     setInputErrors,
@@ -399,6 +432,9 @@ const App: React.FC = () => {
     newData: MemberRecordA[],
     newFileName: string,
   ) => {
+    recordMemberChanges(
+      getMemberListChanges(assemblyName, memberDatabase[assemblyName]?.data || [], newData, "excel-upload"),
+    ).catch((err) => console.error("Failed to record member history:", err));
     setMemberDatabase((prev) => ({
       ...prev,
       [assemblyName]: {
@@ -515,24 +551,6 @@ const App: React.FC = () => {
     ],
   );
 
-  useEffect(() => {
-    if ("launchQueue" in window && window["launchQueue"]) {
-      window["launchQueue"].setConsumer(
-        async (launchParams: { files: FileSystemFileHandle[] }) => {
-          if (!launchParams.files || launchParams.files.length === 0) {
-            return;
-          }
-          for (const fileHandle of launchParams.files) {
-            const file = await fileHandle.getFile();
-            handleFileAccepted(file, false);
-          }
-        },
-      );
-    }
-  }, [handleFileAccepted]);
-
-
-
   // handleDeleteAssembly moved to useAppActions hook
 
   const navigate = useNavigate();
@@ -560,6 +578,24 @@ const App: React.FC = () => {
 
       // Consolidate updates: Apply changes AND add new members
       if (enrichedNewMembers.length > 0 || report.changedMembers.length > 0) {
+        const history: MemberChangeInput[] = [
+          ...report.changedMembers.map((c) => ({
+            assemblyName: assembly,
+            before: c.oldRecord,
+            after: { ...c.oldRecord, ...c.newRecord, firstSeenDate: c.oldRecord.firstSeenDate, firstSeenSource: c.oldRecord.firstSeenSource },
+            source: "excel-upload" as const,
+          })),
+          ...enrichedNewMembers.map((member) => ({
+            assemblyName: assembly,
+            before: null,
+            after: member,
+            source: "excel-upload" as const,
+          })),
+        ];
+        recordMemberChanges(history).catch((err) =>
+          console.error("Failed to record member history:", err),
+        );
+
         setMemberDatabase((prev) => {
           const prevAssemblyData = prev[assembly]?.data || [];
           let updatedData = [...prevAssemblyData];
@@ -652,6 +688,9 @@ const App: React.FC = () => {
         firstSeenDate: now,
         firstSeenSource: sourceFileName,
       }));
+      recordMemberChanges(
+        enrichedData.map((member) => ({ assemblyName: assembly, before: null, after: member, source: "excel-upload" })),
+      ).catch((err) => console.error("Failed to record member history:", err));
       setMemberDatabase((prev) => ({
         ...prev,
         [assembly]: {
@@ -788,7 +827,7 @@ const App: React.FC = () => {
       const amount = Number(record["Transaction Amount"]);
       if (!isNaN(amount) && amount > 0) {
         tithers++;
-        return sum + amount;
+        return sum + getAmountInGHS(record);
       }
       return sum;
     }, 0);
@@ -977,6 +1016,9 @@ const App: React.FC = () => {
         firstSeenDate: new Date().toISOString(),
         firstSeenSource: "manual_add",
       };
+      recordMemberChanges([{ assemblyName: currentAssembly, before: null, after: enrichedMember, source: "manual" }]).catch(
+        (err) => console.error("Failed to record member history:", err),
+      );
 
       setMemberDatabase((prev) => {
         const assemblyData = prev[currentAssembly]?.data || [];
@@ -1010,6 +1052,7 @@ const App: React.FC = () => {
         sundayDate, // Use sundayDate here
         defaultDescription, // Use defaultDescription here
         null,
+        transactionSettings,
       )[0];
       setTitheListData((prev) => [...prev, newTitheRecord]);
       setSoulsWonCount((prev) => (prev || 0) + 1);
@@ -1031,6 +1074,7 @@ const App: React.FC = () => {
       selectedDate,
       descriptionText || `Tithe for ${formattedDate}`,
       null,
+      transactionSettings,
     )[0];
     setTitheListData((prev) => [...prev, newTitheRecord]);
     addToast(
@@ -1099,6 +1143,14 @@ const App: React.FC = () => {
     setMemberToEdit(null);
   };
 
+  const handleRevertMemberField = (member: MemberRecordA) => {
+    if (!memberToEdit) return;
+    const { assemblyName } = memberToEdit;
+    updateMember(member, assemblyName, "revert");
+    setMemberToEdit({ member, assemblyName });
+    editMember.setPayload({ target: { member, assemblyName } });
+  };
+
   const openAddMemberToListModal = (crossAssembly: boolean = false) => {
     if (!currentAssembly) {
       addToast("An assembly must be active to add a member.", "warning");
@@ -1121,6 +1173,7 @@ const App: React.FC = () => {
 
     const prevAssemblyData = memberDatabase[assembly]?.data || [];
     let updatedData = [...prevAssemblyData];
+    const history: MemberChangeInput[] = [];
 
     // 1. Apply Changes (Non-conflicting)
     if (changedMembers.length > 0) {
@@ -1130,13 +1183,15 @@ const App: React.FC = () => {
       updatedData = updatedData.map((member) => {
         const change = changesMap.get(member);
         if (change) {
-          return {
+          const changed = {
             ...member,
             ...change.newRecord,
             firstSeenDate: member.firstSeenDate,
             firstSeenSource: member.firstSeenSource,
             customOrder: member.customOrder,
           };
+          history.push({ assemblyName: assembly, before: member, after: changed, source: "reconciliation" });
+          return changed;
         }
         return member;
       });
@@ -1152,13 +1207,15 @@ const App: React.FC = () => {
         const conflict = conflictsMap.get(member);
         if (conflict) {
           if (resolution === "use_new") {
-            return {
+            const resolved = {
               ...member,
               ...conflict.newRecord,
               firstSeenDate: member.firstSeenDate,
               firstSeenSource: member.firstSeenSource,
               customOrder: member.customOrder,
             };
+            history.push({ assemblyName: assembly, before: member, after: resolved, source: "reconciliation" });
+            return resolved;
           } else {
             // Keep existing, do nothing
             return member;
@@ -1171,8 +1228,15 @@ const App: React.FC = () => {
     // 3. Append New Members
     if (newMembers.length > 0) {
       updatedData = [...updatedData, ...newMembers];
+      newMembers.forEach((member) =>
+        history.push({ assemblyName: assembly, before: null, after: member, source: "reconciliation" }),
+      );
     }
 
+    recordMemberChanges(history).catch((err) =>
+      console.error("Failed to record member history:", err),
+    );
+
     setMemberDatabase((prev) => ({
       ...prev,
       [assembly]: {
@@ -1201,7 +1265,7 @@ const App: React.FC = () => {
   };
 
   const handleImageVerificationConfirm = (verifiedData: TitheRecordB[]) => {
-    setTitheListData((prev) => [...prev, ...verifiedData]);
+    setTitheListData((prev) => [...prev, ...applyTransactionSettings(verifiedData, transactionSettings)]);
     setSoulsWonCount((prev) => (prev || 0) + verifiedData.length);
     addToast(`Added ${verifiedData.length} records from image.`, "success");
     setIsImageVerificationModalOpen(false);
@@ -1209,6 +1273,35 @@ const App: React.FC = () => {
     setHasUnsavedChanges(true);
   };
 
+  const handleMonthReviewConfirm = (verifiedData: TitheRecordB[]) => {
+    if (!monthScanReview) return;
+    const { assemblyName, weeks, index } = monthScanReview;
+    const { date, dateString } = weeks[index];
+    const entry = buildTransactionLogEntry({
+      assemblyName,
+      date,
+      titheListData: applyTransactionSettings(verifiedData, transactionSettings),
+      concatenationConfig,
+      descriptionText: `Tithe for ${dateString}`,
+      amountMappingColumn,
+      transactionSettings,
+    });
+    setTransactionLog((prev) => upsertTransactionLogEntries(prev, [entry]));
+    addToast(`Logged ${verifiedData.length} records for ${dateString} (${assemblyName}).`, "success");
+  };
+
+  // Confirm and Discard both close the modal: move on to the next Sunday
+  const handleMonthReviewClose = () => {
+    setMonthScanReview((prev) =>
+      prev && prev.index + 1 < prev.weeks.length ? { ...prev, index: prev.index + 1 } : null,
+    );
+  };
+
+  const monthReviewWeek = monthScanReview?.weeks[monthScanReview.index];
+  const isMonthReviewWeekLogged = !!monthReviewWeek && transactionLog.some(
+    (log) => log.assemblyName === monthScanReview?.assemblyName && log.selectedDate === monthReviewWeek.dateString,
+  );
+
 
   return (
     <div className={`app-container ${isSidebarCollapsed ? "sidebar-collapsed" : ""}${isMobileSidebarOpen ? " sidebar-open" : ""}`}>
@@ -1248,10 +1341,13 @@ const App: React.FC = () => {
                 transactionLog,
                 memberDatabase,
                 favorites,
+                // Backup restore
+                setFavorites,
+                setTransactionLog,
                 onStartNewWeek: appActions.members.startNewWeek,
                 userProfile: driveUserProfile,
                 onUploadFile: handleFileAccepted,
-                onScanImage: async (file: File, assemblyName?: string, month?: string, week?: string) => {
+                onScanImage: async (file: File, assemblyName?: string, month?: string, week?: string, scribeId?: string) => {
                   // Use provided assembly name or fall back to current context
                   const targetAssembly = assemblyName || currentAssembly;
 
@@ -1292,12 +1388,20 @@ const App: React.FC = () => {
                   }
 
                   try {
-                    const result = await analyzeImage(file, month, week, dateString, masterList.data);
+                    const result = await analyzeImage(file, month, week, dateString, masterList.data, transactionLog, scribeId, targetAssembly);
                     if (result) {
+                      // Without a chosen scribe, work out who wrote the page from the amount cells
+                      setImageScribeDetection(
+                        scribeId
+                          ? { scribeId, confidence: 1, method: "selected" }
+                          : await detectScribe(result.entries, getScribesForAssembly(targetAssembly)),
+                      );
                       setExtractedTitheData(result.entries);
                       // Store notebook format info
                       setIsNotebookFormat(result.isNotebookFormat ?? false);
                       setNotebookMetadata(result.notebookMetadata);
+                      setImagePreprocessing(result.preprocessing);
+                      setImageTotalDiscrepancies(result.totalDiscrepancies);
                       // Ensure we use the master data for the TARGET assembly
                       setImageVerificationMasterData(masterList.data);
                       setIsImageVerificationModalOpen(true);
@@ -1306,6 +1410,47 @@ const App: React.FC = () => {
                     setIsImageScanning(false);
                   }
                 },
+                onScanMonth: async (file: File, assemblyName: string, month: string, year: number, scribeId?: string) => {
+                  const masterList = memberDatabase[assemblyName];
+                  if (!masterList || !masterList.data) {
+                    addToast(`No member data found for ${assemblyName} Assembly.`, "warning");
+                    return;
+                  }
+
+                  setIsImageScanning(true);
+                  try {
+                    const result = await analyzeImageAllWeeks(file, month, year, masterList.data, transactionLog, scribeId, assemblyName);
+                    if (!result) return;
+
+                    if (result.detectedYear && Number(result.detectedYear) !== year) {
+                      addToast(`The page reads ${result.detectedYear} but was scanned as ${year}. Check the dates before confirming.`, "warning");
+                    }
+                    const loggedDates = result.weeks
+                      .filter((w) => transactionLog.some((log) => log.assemblyName === assemblyName && log.selectedDate === w.dateString))
+                      .map((w) => w.dateString);
+                    if (loggedDates.length > 0) {
+                      addToast(`Already logged for ${assemblyName}: ${loggedDates.join(", ")}. Confirming a Sunday replaces its logged list; discard it to keep the log.`, "warning");
+                    }
+
+                    if (assemblyName !== currentAssembly) setCurrentAssembly(assemblyName);
+                    setImageScribeDetection(
+                      scribeId
+                        ? { scribeId, confidence: 1, method: "selected" }
+                        : await detectScribe(result.weeks[0].result.entries, getScribesForAssembly(assemblyName)),
+                    );
+                    // One review per Sunday read from the page, each logged on confirm
+                    setMonthScanReview({
+                      assemblyName,
+                      weeks: result.weeks,
+                      index: 0,
+                      masterData: masterList.data,
+                      preprocessing: result.preprocessing,
+                      totalDiscrepancies: result.totalDiscrepancies,
+                    });
+                  } finally {
+                    setIsImageScanning(false);
+                  }
+                },
                 // Processor Props
                 uploadedFile,
                 originalData,
@@ -1336,9 +1481,10 @@ const App: React.FC = () => {
                 },
                 onEditMember: (member: MemberRecordA, assemblyName: string) => {
                   setMemberToEdit({ member, assemblyName });
-                  editMember.open({ target: memberToEdit! });
+                  editMember.open({ target: { member, assemblyName } });
                 },
                 onDeleteAssembly: appActions.members.handleDeleteAssembly,
+                onMergeMembers: appActions.members.handleMergeMembers,
                 onAddAssembly: (assemblyName: string) => {
                   if (memberDatabase[assemblyName]) {
                     addToast(`Assembly "${assemblyName}" already exists.`, "warning");
@@ -1393,6 +1539,8 @@ const App: React.FC = () => {
                 handleConcatenationConfigChange: appActions.titheProcessing.handleConcatenationConfigChange,
                 descriptionText,
                 handleDescriptionChange: appActions.titheProcessing.handleDescriptionChange,
+                transactionSettings,
+                handleTransactionSettingsChange: appActions.titheProcessing.handleTransactionSettingsChange,
                 amountMappingColumn,
                 setAmountMappingColumn,
                 theme,
@@ -1635,6 +1783,7 @@ const App: React.FC = () => {
             isOpen={editMember.isOpen}
             onClose={() => editMember.close()}
             onSave={handleEditMemberInDB}
+            onRevert={handleRevertMemberField}
             memberData={(editMember.payload as any).target.member}
             assemblyName={(editMember.payload as any).target.assemblyName}
           />
@@ -1651,6 +1800,26 @@ const App: React.FC = () => {
             memberDatabase={memberDatabase}
             isNotebookFormat={isNotebookFormat}
             notebookMetadata={notebookMetadata}
+            preprocessing={imagePreprocessing}
+            totalDiscrepancies={imageTotalDiscrepancies}
+            scribeDetection={imageScribeDetection}
+          />
+        )
+      }
+      {
+        monthScanReview && monthReviewWeek && (
+          <ImageVerificationModal
+            key={monthReviewWeek.dateString}
+            isOpen
+            onClose={handleMonthReviewClose}
+            extractedData={monthReviewWeek.result.entries}
+            masterData={monthScanReview.masterData}
+            onConfirm={handleMonthReviewConfirm}
+            memberDatabase={memberDatabase}
+            preprocessing={monthScanReview.preprocessing}
+            totalDiscrepancies={monthScanReview.totalDiscrepancies}
+            scribeDetection={imageScribeDetection}
+            title={`${monthReviewWeek.dateString}: Sunday ${monthScanReview.index + 1} of ${monthScanReview.weeks.length}${isMonthReviewWeekLogged ? " (replaces the logged list)" : ""}`}
           />
         )
       }
@@ -27,6 +27,9 @@ const ConfigurationSection = React.lazy(
 const SettingsSection = React.lazy(
   () => import("./sections/SettingsSection"),
 );
+const LaunchHandlerSection = React.lazy(
+  () => import("./sections/LaunchHandlerSection"),
+);
 
 const ContextualDashboard = () => <DashboardSection {...useOutletContext()} />;
 const ContextualFavorites = () => <FavoritesView {...useOutletContext()} />;
@@ -61,6 +64,10 @@ export const createRouter = (props: any) =>
           { path: "analytics", element: <ContextualAnalytics /> },
           { path: "configuration", element: <ContextualConfiguration /> },
           { path: "settings", element: <ContextualSettings /> },
+          // PWA launch targets declared in the manifest (vite.config.ts)
+          { path: "share-target", element: <LaunchHandlerSection mode="share" /> },
+          { path: "handle-file", element: <LaunchHandlerSection mode="file" /> },
+          { path: "protocol", element: <LaunchHandlerSection mode="protocol" /> },
           { path: "*", element: <NotFound /> },
         ],
       },
@@ -8,17 +8,69 @@ import React, {
 import { TitheRecordB } from "../types";
 import Modal from "./Modal";
 import Button from "./Button";
+import CellCropImage from "./CellCropImage";
 import { SortDesc, Filter, Search, Check, UserPlus } from "lucide-react";
 import { hapticSelect, hapticSuccess } from "../lib/haptics";
 import confetti from "canvas-confetti";
 import { useWorkspaceContext } from "@/context";
 import { saveAmountCorrection, promoteToGlobalIfQualifies } from "@/services/handwritingLearning";
+import { PAYMENT_METHODS } from "@/constants";
+import { getRecordPaymentMethod, hasPaymentReference, setRecordPaymentMethod } from "@/lib/paymentMethods";
+
+interface PaymentMethodFieldsProps {
+  record: TitheRecordB;
+  onPaymentChange: (recordNo: number | string, method: string, reference?: string) => void;
+  className?: string;
+}
+
+// Payment method picker, plus a reference box for mobile money / bank payments
+const PaymentMethodFields: React.FC<PaymentMethodFieldsProps> = ({
+  record,
+  onPaymentChange,
+  className = "",
+}) => {
+  const method = getRecordPaymentMethod(record);
+  const [reference, setReference] = useState(record["Payment Reference"] || "");
+
+  useEffect(() => {
+    setReference(record["Payment Reference"] || "");
+  }, [record]);
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <select
+        value={method}
+        onChange={(e) => onPaymentChange(record["No."], e.target.value)}
+        className="form-input-light text-sm py-1"
+        aria-label={`Payment method for ${record["Membership Number"]}`}
+      >
+        {PAYMENT_METHODS.map((m) => (
+          <option key={m} value={m}>
+            {m}
+          </option>
+        ))}
+      </select>
+      {hasPaymentReference(method) && (
+        <input
+          type="text"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          onBlur={() => onPaymentChange(record["No."], method, reference)}
+          placeholder="Reference (optional)"
+          className="form-input-light text-sm py-1 min-w-0 flex-1"
+          aria-label={`Payment reference for ${record["Membership Number"]}`}
+        />
+      )}
+    </div>
+  );
+};
 
 interface DataEntryRowProps {
   record: TitheRecordB;
   visualIndex: number;
   isActive: boolean;
   onAmountChange: (recordNo: number | string, amount: string) => void;
+  onPaymentChange: (recordNo: number | string, method: string, reference?: string) => void;
   onNavigate: (direction: "up" | "down") => void;
   setActiveRow: () => void;
   originalValue?: string; // Original AI-extracted value for suggestion lookup
@@ -31,6 +83,7 @@ const DataEntryRow = React.memo<DataEntryRowProps>(
     visualIndex,
     isActive,
     onAmountChange,
+    onPaymentChange,
     onNavigate,
     setActiveRow,
     originalValue,
@@ -133,13 +186,14 @@ const DataEntryRow = React.memo<DataEntryRowProps>(
           {visualIndex}
         </td>
         <td
-          className="p-2 align-middle text-sm text-[var(--text-primary)] w-2/3 truncate"
+          className="p-2 align-middle text-sm text-[var(--text-primary)] w-1/2 truncate"
           title={record["Membership Number"]}
         >
           {record["Membership Number"]}
         </td>
-        <td className="p-2 align-middle text-sm w-1/3">
+        <td className="p-2 align-middle text-sm w-1/4">
           <div className="flex items-center gap-2">
+            <CellCropImage src={record.cellCrops?.amount} label="amount" />
             <input
               ref={inputRef}
               type="number"
@@ -174,6 +228,9 @@ const DataEntryRow = React.memo<DataEntryRowProps>(
             )}
           </div>
         </td>
+        <td className="p-2 align-middle text-sm w-1/4">
+          <PaymentMethodFields record={record} onPaymentChange={onPaymentChange} />
+        </td>
       </tr>
     );
   },
@@ -308,6 +365,19 @@ const AmountEntryModal: React.FC<AmountEntryModalProps> = ({
     [currentAssembly],
   );
 
+  const handlePaymentChange = useCallback(
+    (recordNo: number | string, method: string, reference?: string) => {
+      setLocalData((prevData) =>
+        prevData.map((record) =>
+          record["No."] === recordNo
+            ? setRecordPaymentMethod(record, method, reference)
+            : record,
+        ),
+      );
+    },
+    [],
+  );
+
   const handleNavigation = useCallback(
     (direction: "up" | "down") => {
       const currentIndex = filteredAndSortedData.findIndex(
@@ -503,16 +573,22 @@ const AmountEntryModal: React.FC<AmountEntryModalProps> = ({
                   </th>
                   <th
                     scope="col"
-                    className="p-2.5 text-left text-xs font-semibold uppercase tracking-wider w-2/3"
+                    className="p-2.5 text-left text-xs font-semibold uppercase tracking-wider w-1/2"
                   >
                     Member Details
                   </th>
                   <th
                     scope="col"
-                    className="p-2.5 text-left text-xs font-semibold uppercase tracking-wider w-1/3"
+                    className="p-2.5 text-left text-xs font-semibold uppercase tracking-wider w-1/4"
                   >
                     Amount (GH₵)
                   </th>
+                  <th
+                    scope="col"
+                    className="p-2.5 text-left text-xs font-semibold uppercase tracking-wider w-1/4"
+                  >
+                    Payment Method
+                  </th>
                 </tr>
               </thead>
               <tbody ref={tableBodyRef}>
@@ -525,6 +601,7 @@ const AmountEntryModal: React.FC<AmountEntryModalProps> = ({
                     } // Show original index
                     isActive={activeRecordId === record["No."]}
                     onAmountChange={handleAmountChange}
+                    onPaymentChange={handlePaymentChange}
                     onNavigate={handleNavigation}
                     setActiveRow={() => setActiveRecordId(record["No."])}
                     originalValue={originalValuesRef.current.get(record["No."])}
@@ -630,6 +707,11 @@ const AmountEntryModal: React.FC<AmountEntryModalProps> = ({
                           placeholder="0.00"
                         />
                       </div>
+                      <PaymentMethodFields
+                        record={currentRecord}
+                        onPaymentChange={handlePaymentChange}
+                        className="max-w-[280px] mx-auto justify-center"
+                      />
                     </div>
 
                     {/* Navigation Controls */}
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import Modal from "./Modal";
+import Button from "./Button";
+import { ArchiveRestore, KeyRound, AlertTriangle } from "lucide-react";
+import {
+  BackupAppState,
+  BackupArchiveError,
+  BackupPayload,
+  BackupStateSetters,
+  RestorePreview,
+  buildRestorePreview,
+  collectBackupPayload,
+  decryptBackup,
+  restoreBackupPayload,
+} from "@/services/backupArchive";
+
+interface BackupRestoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  archiveText: string | null;
+  sourceLabel: string;
+  currentState: BackupAppState;
+  setters: BackupStateSetters;
+  onRestored: () => void;
+}
+
+const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({
+  isOpen,
+  onClose,
+  archiveText,
+  sourceLabel,
+  currentState,
+  setters,
+  onRestored,
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [payload, setPayload] = useState<BackupPayload | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Start over whenever a new archive is opened
+  useEffect(() => {
+    if (isOpen) {
+      setPassphrase("");
+      setPayload(null);
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen, archiveText]);
+
+  const handleUnlock = async () => {
+    if (!archiveText) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const incoming = await decryptBackup(archiveText, passphrase);
+      const current = await collectBackupPayload(currentState);
+      setPayload(incoming);
+      setPreview(buildRestorePreview(incoming, current));
+    } catch (e) {
+      setError(
+        e instanceof BackupArchiveError ? e.message : "Could not open this backup.",
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!payload) return;
+    setIsWorking(true);
+    try {
+      await restoreBackupPayload(payload, setters);
+      onRestored();
+      onClose();
+    } catch (e) {
+      console.error("Restore failed:", e);
+      setError("Restore failed. Your existing data may be partially replaced.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Restore Backup"
+      size="lg"
+      closeOnOutsideClick={false}
+      footerContent={
+        <>
+          <Button onClick={onClose} variant="ghost" size="md" disabled={isWorking}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              onClick={handleRestore}
+              variant="danger"
+              size="md"
+              isLoading={isWorking}
+              leftIcon={<ArchiveRestore size={16} />}
+            >
+              Replace My Data
+            </Button>
+          ) : (
+            <Button
+              onClick={handleUnlock}
+              variant="primary"
+              size="md"
+              isLoading={isWorking}
+              disabled={!passphrase || !archiveText}
+              leftIcon={<KeyRound size={16} />}
+            >
+              Unlock
+            </Button>
+          )}
+        </>
+      }
+    >
+      {!preview ? (
+        <div className="space-y-4">
+          <p className="text-sm text-[var(--text-secondary)]">
+            Enter the passphrase used when the backup from{" "}
+            <strong className="text-[var(--text-primary)]">{sourceLabel}</strong> was
+            created.
+          </p>
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && passphrase && handleUnlock()}
+            placeholder="Backup passphrase"
+            className="w-full px-3 py-2 bg-[var(--bg-elevated)] border border-[var(--border-color)] rounded-lg text-[var(--text-primary)]"
+          />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-[var(--text-secondary)]">
+            Backup created {new Date(preview.createdAt).toLocaleString()}. Restoring
+            replaces everything below on this device.
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs uppercase text-[var(--text-muted)] text-left">
+                <th className="py-1">Data</th>
+                <th className="py-1 text-right">On this device</th>
+                <th className="py-1 text-right">In backup</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--border-color)]">
+              {preview.rows.map((row) => (
+                <tr key={row.label} className="text-[var(--text-primary)]">
+                  <td className="py-2">{row.label}</td>
+                  <td className="py-2 text-right">{row.current.toLocaleString()}</td>
+                  <td
+                    className={`py-2 text-right ${row.incoming < row.current ? "text-[var(--warning-text)] font-semibold" : ""}`}
+                  >
+                    {row.incoming.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-sm space-y-1 text-[var(--text-secondary)]">
+            {preview.assembliesReplaced.length > 0 && (
+              <p>Overwritten: {preview.assembliesReplaced.join(", ")}</p>
+            )}
+            {preview.assembliesAdded.length > 0 && (
+              <p>Added: {preview.assembliesAdded.join(", ")}</p>
+            )}
+          </div>
+          {preview.assembliesRemoved.length > 0 && (
+            <div className="flex gap-2 p-3 rounded-lg border border-[var(--danger-border)] bg-red-500/10 text-sm text-[var(--danger-text)]">
+              <AlertTriangle size={18} className="flex-shrink-0" />
+              <span>
+                Not in this backup and will be removed: {preview.assembliesRemoved.join(", ")}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+      {error && <p className="mt-3 text-sm text-[var(--danger-text)]">{error}</p>}
+    </Modal>
+  );
+};
+
+export default BackupRestoreModal;
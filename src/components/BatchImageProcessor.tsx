@@ -5,10 +5,9 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { TitheRecordB } from '@/types';
 import Modal from './Modal';
 import Button from './Button';
-import { Upload, X, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { Upload, X, CheckCircle, AlertCircle, AlertTriangle, Loader2, RotateCcw, Play, Trash2, PauseCircle } from 'lucide-react';
 import {
     Select,
     SelectContent,
@@ -17,15 +16,30 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import ParsingIndicator from './ParsingIndicator';
+import {
+    BatchJob,
+    BatchPage,
+    BatchRunResult,
+    deleteBatchJob,
+    getBatchPages,
+    listBatchJobs,
+    retryBatchPage,
+    subscribeToBatchQueue,
+} from '@/services/batchQueue';
 
 interface BatchImageProcessorProps {
     isOpen: boolean;
     onClose: () => void;
-    onProcess: (files: File[], assembly: string, month: string, week: string, onProgress?: (completed: number, total: number) => void) => Promise<TitheRecordB[]>;
+    onProcess: (files: File[], assembly: string, month: string, week: string, onProgress?: (completed: number, total: number) => void) => Promise<BatchRunResult>;
+    /** Optional: Resumes a saved job; enables the saved batch jobs list */
+    onResume?: (jobId: string, onProgress?: (completed: number, total: number) => void) => Promise<BatchRunResult>;
+    /** Optional: Stops a running batch when the modal is closed */
+    onCancel?: () => void;
     assemblies: string[];
     isProcessing: boolean;
     defaultAssembly?: string;
     lockedAssembly?: boolean;
+    initialFiles?: File[];
 }
 
 interface UploadedImage {
@@ -43,38 +57,85 @@ const MONTHS = [
 
 const WEEKS = ['Week 1', 'Week 2', 'Week 3', 'Week 4', 'Week 5'];
 
+interface SavedJob {
+    job: BatchJob;
+    pages: BatchPage[];
+}
+
+const PAGE_STATUS_STYLES: Record<BatchPage['status'], string> = {
+    pending: 'bg-[var(--bg-secondary)] text-[var(--text-muted)]',
+    extracting: 'bg-blue-500/15 text-blue-400',
+    extracted: 'bg-green-500/15 text-green-400',
+    failed: 'bg-red-500/15 text-red-400',
+};
+
 const BatchImageProcessor: React.FC<BatchImageProcessorProps> = ({
     isOpen,
     onClose,
     onProcess,
+    onResume,
+    onCancel,
     assemblies,
     isProcessing,
     defaultAssembly,
-    lockedAssembly = false
+    lockedAssembly = false,
+    initialFiles
 }) => {
     const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
     const [selectedAssembly, setSelectedAssembly] = useState(defaultAssembly || '');
     const [selectedMonth, setSelectedMonth] = useState(new Date().toLocaleString('default', { month: 'long' }));
     const [selectedWeek, setSelectedWeek] = useState('Week 1');
     const [processingProgress, setProcessingProgress] = useState(0);
-    const [results, setResults] = useState<TitheRecordB[]>([]);
+    const [results, setResults] = useState<BatchRunResult>({ entries: [], discrepancies: [] });
     const [error, setError] = useState<string | null>(null);
+    const [savedJobs, setSavedJobs] = useState<SavedJob[]>([]);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // Load saved jobs and follow queue changes while the modal is open
+    const assemblyKey = assemblies.join('\n');
+    useEffect(() => {
+        if (!isOpen || !onResume) return;
+        let cancelled = false;
+
+        const loadJobs = async () => {
+            try {
+                const allowed = assemblyKey.split('\n');
+                const jobs = (await listBatchJobs()).filter(job => allowed.includes(job.assembly));
+                const withPages = await Promise.all(jobs.map(async job => ({ job, pages: await getBatchPages(job.id) })));
+                if (!cancelled) setSavedJobs(withPages);
+            } catch (err) {
+                console.error("Failed to load saved batch jobs:", err);
+            }
+        };
+
+        loadJobs();
+        const unsubscribe = subscribeToBatchQueue(loadJobs);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [isOpen, onResume, assemblyKey]);
+
     // Reset state when modal opens
     useEffect(() => {
         if (isOpen) {
             // Revoke existing preview URLs before resetting (Bug 15 fix)
             uploadedImages.forEach(img => URL.revokeObjectURL(img.preview));
-            setUploadedImages([]);
-            setResults([]);
+            // Pre-load images handed over by a share/file launch
+            setUploadedImages(
+                (initialFiles || [])
+                    .filter(file => file.type.startsWith('image/'))
+                    .slice(0, 4)
+                    .map(file => ({ file, preview: URL.createObjectURL(file), status: 'pending' as const }))
+            );
+            setResults({ entries: [], discrepancies: [] });
             setError(null);
             setProcessingProgress(0);
             setSelectedAssembly(defaultAssembly || '');
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [isOpen, defaultAssembly]);  // Bug 13 fix: added defaultAssembly
+    }, [isOpen, defaultAssembly, initialFiles]);  // Bug 13 fix: added defaultAssembly
 
     const handleFileSelect = useCallback((files: FileList | null) => {
         if (!files) return;
@@ -149,7 +210,7 @@ const BatchImageProcessor: React.FC<BatchImageProcessorProps> = ({
             setUploadedImages(prev => prev.map((img) => ({
                 ...img,
                 status: 'done' as const,
-                entriesCount: Math.ceil(result.length / Math.max(prev.length, 1))
+                entriesCount: Math.ceil(result.entries.length / Math.max(prev.length, 1))
             })));
 
             setProcessingProgress(100);
@@ -159,7 +220,40 @@ const BatchImageProcessor: React.FC<BatchImageProcessorProps> = ({
         }
     };
 
+    const handleResume = async (jobId: string) => {
+        if (!onResume) return;
+        setError(null);
+        setProcessingProgress(0);
+        try {
+            const result = await onResume(jobId, (completed, total) => {
+                setProcessingProgress(Math.max(0, Math.min(100, Math.round((completed / Math.max(total, 1)) * 100))));
+            });
+            setResults(result);
+            setProcessingProgress(100);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to resume the batch');
+        }
+    };
+
+    const handleRetryPage = async (jobId: string, index: number) => {
+        await retryBatchPage(jobId, index);
+        await handleResume(jobId);
+    };
+
+    const describeJob = (job: BatchJob, pages: BatchPage[]) => {
+        if (job.status === 'paused' && job.pausedUntil && job.pausedUntil > Date.now()) {
+            return `Paused for rate limit until ${new Date(job.pausedUntil).toLocaleTimeString()}`;
+        }
+        if (job.status === 'completed') {
+            const failed = pages.filter(p => p.status === 'failed').length;
+            return failed > 0 ? `${failed} page(s) need a retry` : 'Finished';
+        }
+        return isProcessing ? 'Running' : 'Interrupted, ready to resume';
+    };
+
     const handleClose = () => {
+        // Stop after the current page; the saved job can be resumed later
+        if (isProcessing) onCancel?.();
         // Cleanup preview URLs
         uploadedImages.forEach(img => URL.revokeObjectURL(img.preview));
         onClose();
@@ -347,7 +441,7 @@ const BatchImageProcessor: React.FC<BatchImageProcessorProps> = ({
                     )}
 
                     {/* Results Preview */}
-                    {results.length > 0 && (
+                    {results.entries.length > 0 && (
                         <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4 border border-green-100 dark:border-green-800">
                             <div className="flex items-center gap-3">
                                 <div className="p-2 bg-green-100 dark:bg-green-800 rounded-full">
@@ -358,13 +452,96 @@ const BatchImageProcessor: React.FC<BatchImageProcessorProps> = ({
                                         Processing Complete
                                     </h3>
                                     <p className="text-sm text-green-700 dark:text-green-300">
-                                        Successfully extracted <strong>{results.length}</strong> tithe records from {uploadedImages.length} page(s).
+                                        Successfully extracted <strong>{results.entries.length}</strong> tithe records from {uploadedImages.length} page(s).
                                     </p>
                                 </div>
                             </div>
                         </div>
                     )}
 
+                    {/* Amounts to Check */}
+                    {results.discrepancies.length > 0 && (
+                        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30">
+                            <h4 className="text-sm font-semibold text-red-300 flex items-center gap-2">
+                                <AlertTriangle size={16} />
+                                {results.discrepancies.length} amount{results.discrepancies.length === 1 ? '' : 's'} to check before saving
+                            </h4>
+                            <ul className="mt-2 space-y-1 text-xs text-red-200/80">
+                                {results.discrepancies.map((d, i) => (
+                                    <li key={`${d.source}-${d.memberNo}-${i}`}>
+                                        {d.source === 'month_total' ? 'Month TOTAL' : 'Duplicate shots'}: {d.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Saved Batch Jobs */}
+                    {onResume && savedJobs.length > 0 && (
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-semibold text-[var(--text-primary)]">Saved Batch Jobs</h4>
+                            {savedJobs.map(({ job, pages }) => {
+                                const extracted = pages.filter(p => p.status === 'extracted').length;
+                                const canResume = !isProcessing && pages.some(p => p.status === 'pending' || p.status === 'extracting');
+                                return (
+                                    <div key={job.id} className="rounded-lg border border-[var(--border-color)] bg-[var(--bg-elevated)] p-3 space-y-2">
+                                        <div className="flex items-center justify-between gap-3">
+                                            <div>
+                                                <p className="text-sm font-medium text-[var(--text-primary)]">
+                                                    {job.assembly} • {job.month} {job.week}
+                                                </p>
+                                                <p className="text-xs text-[var(--text-secondary)] flex items-center gap-1">
+                                                    {job.status === 'paused' && <PauseCircle size={12} />}
+                                                    {extracted}/{job.pageCount} pages read • {describeJob(job, pages)}
+                                                </p>
+                                            </div>
+                                            <div className="flex gap-2">
+                                                {canResume && (
+                                                    <Button variant="secondary" size="sm" leftIcon={<Play size={14} />} onClick={() => handleResume(job.id)}>
+                                                        Resume
+                                                    </Button>
+                                                )}
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    leftIcon={<Trash2 size={14} />}
+                                                    onClick={() => deleteBatchJob(job.id)}
+                                                    disabled={isProcessing}
+                                                >
+                                                    Discard
+                                                </Button>
+                                            </div>
+                                        </div>
+                                        <ul className="space-y-1">
+                                            {pages.map(page => (
+                                                <li key={page.id} className="flex items-center justify-between gap-3 text-xs">
+                                                    <span className="truncate text-[var(--text-secondary)]">
+                                                        Page {page.index + 1} • {page.fileName}
+                                                        {page.error && <span className="text-red-400"> • {page.error}</span>}
+                                                    </span>
+                                                    <span className="flex items-center gap-2 flex-shrink-0">
+                                                        <span className={`px-2 py-0.5 rounded-full ${PAGE_STATUS_STYLES[page.status]}`}>
+                                                            {page.status}
+                                                        </span>
+                                                        {page.status === 'failed' && (
+                                                            <button
+                                                                onClick={() => handleRetryPage(job.id, page.index)}
+                                                                disabled={isProcessing}
+                                                                className="flex items-center gap-1 text-[var(--primary-accent-start)] hover:underline disabled:opacity-50"
+                                                            >
+                                                                <RotateCcw size={12} /> Retry
+                                                            </button>
+                                                        )}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
                     {/* Error Message */}
                     {error && (
                         <div className="bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg flex items-center gap-3">
@@ -0,0 +1,28 @@
+import React from "react";
+
+interface CellCropImageProps {
+  /** Data URL of the cropped cell; nothing is rendered without one */
+  src?: string;
+  /** What the cell holds, for the alt text (e.g. "amount") */
+  label: string;
+  className?: string;
+}
+
+/**
+ * The handwritten tithe book cell a value was read from, shown beside the
+ * value so it can be checked without going back to the photo
+ */
+const CellCropImage: React.FC<CellCropImageProps> = ({ src, label, className = "h-7" }) => {
+  if (!src) return null;
+  return (
+    <img
+      src={src}
+      alt={`Handwritten ${label} from the tithe book`}
+      title={`Handwritten ${label} from the tithe book`}
+      className={`${className} w-auto max-w-[160px] shrink-0 object-contain rounded border border-[var(--border-color)] bg-white`}
+      draggable={false}
+    />
+  );
+};
+
+export default CellCropImage;
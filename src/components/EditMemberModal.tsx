@@ -1,29 +1,72 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
+import { RotateCcw } from "lucide-react";
 import { MemberRecordA } from "../types";
 import Modal from "./Modal";
 import Button from "./Button";
+import {
+  canRevertChange,
+  getMemberHistory,
+  getRevertedMember,
+  subscribeMemberHistory,
+  MemberChangeEvent,
+  MemberFieldChange,
+  MEMBER_CHANGE_SOURCE_LABELS,
+} from "../services/memberHistory";
 
 interface EditMemberModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (member: MemberRecordA) => void;
+  /** Saves the member straight away with one field put back */
+  onRevert?: (member: MemberRecordA) => void;
   memberData: MemberRecordA;
   assemblyName: string;
 }
 
+/** Bookkeeping fields that are not edited by hand */
+const HIDDEN_FIELDS = new Set(["customOrder", "No.", "transferHistory", "revision", "revisedBy"]);
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
 const EditMemberModal: React.FC<EditMemberModalProps> = ({
   isOpen,
   onClose,
   onSave,
+  onRevert,
   memberData,
   assemblyName,
 }) => {
+  const [activeTab, setActiveTab] = useState<"details" | "history">("details");
   const [formData, setFormData] = useState<MemberRecordA>(memberData);
+  const [history, setHistory] = useState<MemberChangeEvent[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   useEffect(() => {
     setFormData(memberData);
   }, [memberData]);
 
+  useEffect(() => {
+    if (isOpen) setActiveTab("details");
+  }, [isOpen]);
+
+  const loadHistory = useCallback(() => {
+    getMemberHistory(memberData, assemblyName)
+      .then(setHistory)
+      .catch((err) => console.error("Failed to load member history:", err))
+      .finally(() => setIsLoadingHistory(false));
+  }, [memberData, assemblyName]);
+
+  // Reload whenever a change for this member is recorded (e.g. after a revert)
+  useEffect(() => {
+    if (!isOpen || activeTab !== "history") return;
+    setIsLoadingHistory(true);
+    loadHistory();
+    return subscribeMemberHistory(loadHistory);
+  }, [isOpen, activeTab, loadHistory]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
@@ -33,23 +76,94 @@ const EditMemberModal: React.FC<EditMemberModalProps> = ({
     onSave(formData);
   };
 
+  const handleRevert = (change: MemberFieldChange) => {
+    if (!onRevert) return;
+    onRevert(getRevertedMember(memberData, change));
+  };
+
+  const tabClassName = (tab: "details" | "history") =>
+    `px-4 py-2 text-sm font-medium transition-colors ${activeTab === tab ? "border-b-2 border-[var(--primary-accent-start)] text-[var(--primary-accent-start)]" : "text-[var(--text-secondary)] hover:text-[var(--text-primary)]"}`;
+
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={`Edit Member in ${assemblyName}`} closeOnOutsideClick={false}>
-      <div className="space-y-4">
-        {Object.keys(formData).filter(key => key !== 'customOrder' && key !== 'No.').map((key) => (
-          <div key={key}>
-            <label htmlFor={key} className="form-label">{key}</label>
-            <input
-              id={key}
-              name={key}
-              type="text"
-              value={formData[key]}
-              onChange={handleChange}
-              className="form-input-light w-full"
-            />
-          </div>
-        ))}
+      <div className="flex border-b border-[var(--border-color)] mb-4">
+        <button onClick={() => setActiveTab("details")} className={tabClassName("details")}>
+          Details
+        </button>
+        <button onClick={() => setActiveTab("history")} className={tabClassName("history")}>
+          History
+        </button>
       </div>
+
+      {activeTab === "details" && (
+        <div className="space-y-4">
+          {Object.keys(formData).filter(key => !HIDDEN_FIELDS.has(key)).map((key) => (
+            <div key={key}>
+              <label htmlFor={key} className="form-label">{key}</label>
+              <input
+                id={key}
+                name={key}
+                type="text"
+                value={formData[key]}
+                onChange={handleChange}
+                className="form-input-light w-full"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {activeTab === "history" && (
+        <div className="space-y-4 min-h-[200px]">
+          {isLoadingHistory && history.length === 0 ? (
+            <p className="text-sm text-[var(--text-muted)]">Loading history...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-[var(--text-muted)]">No changes have been recorded for this member yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {history.map((event) => (
+                <li
+                  key={event.id}
+                  className="p-3 rounded-lg bg-[var(--bg-elevated)] border border-[var(--border-color)]"
+                >
+                  <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                    <span className="text-sm font-medium text-[var(--text-primary)]">
+                      {MEMBER_CHANGE_SOURCE_LABELS[event.source]}
+                      {event.source !== "transfer" && event.assemblyName !== assemblyName && ` (${event.assemblyName})`}
+                    </span>
+                    <span className="text-xs text-[var(--text-muted)]">
+                      {new Date(event.timestamp).toLocaleString()} · {event.actor?.name || "Not signed in"}
+                    </span>
+                  </div>
+                  <ul className="space-y-1">
+                    {event.changes.map((change) => (
+                      <li key={change.field} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="min-w-0 text-[var(--text-secondary)]">
+                          <span className="font-medium">{change.field}:</span>{" "}
+                          <span className="line-through text-[var(--text-muted)]">{formatValue(change.oldValue)}</span>{" "}
+                          → {formatValue(change.newValue)}
+                        </span>
+                        {onRevert && canRevertChange(change) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            leftIcon={<RotateCcw size={14} />}
+                            onClick={() => handleRevert(change)}
+                            disabled={formatValue(memberData[change.field]) === formatValue(change.oldValue)}
+                          >
+                            Revert
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
       <div className="mt-6 flex justify-end gap-3">
         <Button variant="outline" onClick={onClose}>
           Cancel
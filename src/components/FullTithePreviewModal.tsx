@@ -35,6 +35,14 @@ import {
 
 import type { ToastType as ToastMessage, ToastAction } from "@/lib/toast.types";
 import { COLUMN_VISIBILITY_STORAGE_KEY } from "../constants";
+import { useAppConfigContext } from "@/context";
+import {
+  applyCurrencyToRecord,
+  isSupportedCurrency,
+  reapplyExchangeRates,
+  setExchangeRateInTable,
+} from "../lib/currency";
+import { setRecordPaymentMethod } from "../lib/paymentMethods";
 
 
 
@@ -79,6 +87,7 @@ const FullTithePreviewModal: React.FC<FullTithePreviewModalProps> = (props) => {
     assemblyName,
   } = props;
 
+  const { exchangeRates, setExchangeRate } = useAppConfigContext();
   const [internalList, setInternalList] = useState<TitheRecordB[]>([]);
   const [madeChanges, setMadeChanges] = useState(false);
   const [editingCell, setEditingCell] = useState<{
@@ -121,8 +130,9 @@ const FullTithePreviewModal: React.FC<FullTithePreviewModalProps> = (props) => {
 
   const ALL_TABLE_COLUMNS = useMemo(() => {
     if (!internalList[0]) return [];
+    // Cell crops are shown inside the name and amount cells, not as a column
     return (Object.keys(internalList[0]) as Array<keyof TitheRecordB>).filter(
-      (key) => key !== "No.",
+      (key) => key !== "No." && key !== "cellCrops",
     );
   }, [internalList]);
 
@@ -390,6 +400,37 @@ const FullTithePreviewModal: React.FC<FullTithePreviewModalProps> = (props) => {
       }
       const valueToSave = editedValue.trim() === "" ? "" : numVal;
       handleTitheValueChangeInternal(recordId, field, valueToSave);
+    } else if (field === "Currency") {
+      setInternalList((list) =>
+        list.map((r) =>
+          r["No."] === recordId ? applyCurrencyToRecord(r, editedValue, exchangeRates) : r,
+        ),
+      );
+      setMadeChanges(true);
+    } else if (field === "Payment Method") {
+      setInternalList((list) =>
+        list.map((r) =>
+          r["No."] === recordId ? setRecordPaymentMethod(r, editedValue) : r,
+        ),
+      );
+      setMadeChanges(true);
+    } else if (field === "Exchange Rate") {
+      const rate = parseFloat(editedValue);
+      if (isNaN(rate) || rate <= 0) {
+        addToast(`Invalid exchange rate. Must be greater than 0.`, "error");
+        return; // Keep editing
+      }
+      const currency = recordToUpdate.Currency;
+      if (!isSupportedCurrency(currency)) {
+        handleTitheValueChangeInternal(recordId, field, rate);
+      } else {
+        // Saved per date so every record in this currency on that date shares the rate
+        const dateKey = recordToUpdate["Transaction Date ('DD-MMM-YYYY')"];
+        setExchangeRate(dateKey, currency, rate);
+        const nextRates = setExchangeRateInTable(exchangeRates, dateKey, currency, rate);
+        setInternalList((list) => reapplyExchangeRates(list, nextRates));
+        setMadeChanges(true);
+      }
     } else if (field === "Transaction Date ('DD-MMM-YYYY')") {
       try {
         const parsedDate = new Date(editedValue); // YYYY-MM-DD from input
@@ -412,11 +453,16 @@ const FullTithePreviewModal: React.FC<FullTithePreviewModalProps> = (props) => {
         setInternalList((list) =>
           list.map((r) =>
             r["No."] === recordId
-              ? {
-                ...r,
-                "Transaction Date ('DD-MMM-YYYY')": newFormattedDate,
-                "Narration/Description": newDescription,
-              }
+              // A new date may carry a different exchange rate
+              ? applyCurrencyToRecord(
+                {
+                  ...r,
+                  "Transaction Date ('DD-MMM-YYYY')": newFormattedDate,
+                  "Narration/Description": newDescription,
+                },
+                r.Currency,
+                exchangeRates,
+              )
               : r,
           ),
         );
@@ -439,6 +485,8 @@ const FullTithePreviewModal: React.FC<FullTithePreviewModalProps> = (props) => {
     handleTitheValueChangeInternal,
     addToast,
     internalList,
+    exchangeRates,
+    setExchangeRate,
   ]);
 
   const cancelEditInternal = useCallback(() => setEditingCell(null), []);
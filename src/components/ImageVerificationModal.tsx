@@ -1,16 +1,20 @@
 import React, { useState, useEffect, useCallback } from "react";
 import Modal from "./Modal";
-import { TitheRecordB, MemberRecordA, MemberDatabase } from "@/types";
+import { TitheRecordB, MemberRecordA, MemberDatabase, ScribeDetection } from "@/types";
+import type { ImagePreprocessingPreview } from "@/services/imageProcessor";
+import type { DiscrepancyReport } from "@/services/pageSequencer";
 import { findMemberByName } from "@/services/reconciliation";
 import { validateAmountWithLearning } from "@/services/amountValidator";
 import type { AmountValidation } from "@/types";
 import Button from "./Button";
-import { Check, AlertTriangle, AlertCircle, Wand2, ArrowRight, Save, Sparkles, MapPin, BookOpen } from "lucide-react";
+import { Check, AlertTriangle, AlertCircle, Wand2, ArrowRight, Save, Sparkles, MapPin, BookOpen, ScanLine } from "lucide-react";
 import MemberSelect from "./MemberSelect";
+import CellCropImage from "./CellCropImage";
 import ParsingIndicator from "./ParsingIndicator";
 import { useWorkspaceContext, useAppConfigContext } from "@/context";
 import { trainEnsemble } from "@/services/ensembleOCR";
 import { saveAmountCorrection } from "@/services/handwritingLearning";
+import { getScribesForAssembly } from "@/services/scribeProfiles";
 import { trainFromVerifiedBatch } from "@/services/imageProcessor";
 import { detectAssemblyFromExtraction, getConfidenceBadgeColor, type DetectionSummary } from "@/services/assemblyDetector";
 import { useModalShortcuts } from "@/hooks/useKeyboardShortcuts";
@@ -30,8 +34,23 @@ interface ImageVerificationModalProps {
         detectedDate?: string;
         attendance?: number;
     };
+    /** Optional: Original and cleaned-up photo from the pre-processing stage */
+    preprocessing?: ImagePreprocessingPreview;
+    /** Optional: Rows whose red-ink month TOTAL does not match their weeks */
+    totalDiscrepancies?: DiscrepancyReport[];
+    /** Optional: Who wrote the page, chosen at scan time or detected */
+    scribeDetection?: ScribeDetection | null;
+    /** Optional: Modal title, e.g. the Sunday under review in a month scan */
+    title?: string;
 }
 
+const SCRIBE_DETECTION_LABELS: Record<ScribeDetection['method'], string> = {
+    selected: 'Chosen when scanning',
+    handwriting: 'Recognised from the handwriting',
+    only_scribe: 'Only scribe of this assembly',
+    last_used: 'Most recent scribe, please check',
+};
+
 interface VerificationRow {
     id: number;
     extractedRecord: TitheRecordB;
@@ -56,6 +75,10 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
     memberDatabase,
     isNotebookFormat = false,
     notebookMetadata,
+    preprocessing,
+    totalDiscrepancies,
+    scribeDetection,
+    title = "Verify Extraction Results",
 }) => {
     const { currentAssembly } = useWorkspaceContext();
     const { enableAmountSnapping } = useAppConfigContext();
@@ -65,6 +88,34 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
     const [editingAmount, setEditingAmount] = useState<string>("");
     const [savedCorrections, setSavedCorrections] = useState<Set<number>>(new Set());
     const [detectedAssembly, setDetectedAssembly] = useState<DetectionSummary | null>(null);
+    const [showPreprocessing, setShowPreprocessing] = useState(false);
+    const [previewUrls, setPreviewUrls] = useState<{ before: string; after: string } | null>(null);
+    const [scribeId, setScribeId] = useState<string>("");
+    const scribes = React.useMemo(
+        () => (isOpen && currentAssembly ? getScribesForAssembly(currentAssembly) : []),
+        [isOpen, currentAssembly]
+    );
+
+    useEffect(() => {
+        if (isOpen) setScribeId(scribeDetection?.scribeId ?? "");
+    }, [isOpen, scribeDetection]);
+
+    // Object URLs for the before/after preview, released when the photo changes
+    useEffect(() => {
+        if (!isOpen || !preprocessing) {
+            setPreviewUrls(null);
+            return;
+        }
+        const urls = {
+            before: URL.createObjectURL(preprocessing.original),
+            after: URL.createObjectURL(preprocessing.processed),
+        };
+        setPreviewUrls(urls);
+        return () => {
+            URL.revokeObjectURL(urls.before);
+            URL.revokeObjectURL(urls.after);
+        };
+    }, [isOpen, preprocessing]);
 
     useEffect(() => {
         const processMatches = async () => {
@@ -87,7 +138,8 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
                                 record["Transaction Amount"],
                                 currentAssembly || 'default',
                                 undefined,
-                                enableAmountSnapping
+                                enableAmountSnapping,
+                                scribeDetection?.scribeId
                             ),
                             matchSource: 'ai_semantic' as const, // It counts as AI semantic match
                             originalAmount: record["Transaction Amount"]
@@ -96,7 +148,7 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
 
                     const rawName = record["Membership Number"];
                     // Use async version with AI fallback
-                    const match = await findMemberByName(rawName, masterData, undefined, apiKey);
+                    const match = await findMemberByName(rawName, masterData, undefined, apiKey, currentAssembly || undefined);
 
                     return {
                         id: index,
@@ -110,7 +162,8 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
                             record["Transaction Amount"],
                             currentAssembly || 'default',
                             undefined, // memberHistory
-                            enableAmountSnapping // Pass the setting from context
+                            enableAmountSnapping, // Pass the setting from context
+                            scribeDetection?.scribeId
                         ),
                         matchSource: match?.matchSource,
                         originalAmount: record["Transaction Amount"]
@@ -129,7 +182,7 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
         };
 
         processMatches();
-    }, [isOpen, extractedData, masterData, currentAssembly, enableAmountSnapping, memberDatabase]);
+    }, [isOpen, extractedData, masterData, currentAssembly, enableAmountSnapping, memberDatabase, scribeDetection]);
 
     const handleConfirm = async () => {
         const verifiedData = rows.map((row) => {
@@ -148,7 +201,7 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
         // Train ensemble from any corrections made during verification
         // This helps the OCR model learn from user feedback
         try {
-            await trainFromVerifiedBatch(extractedData, verifiedData);
+            await trainFromVerifiedBatch(extractedData, verifiedData, scribeId || undefined);
         } catch (e) {
             console.warn('[ImageVerificationModal] Training from verified batch failed:', e);
         }
@@ -180,13 +233,11 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
         // Learn name alias if user manually selected a member
         if (member && row && currentAssembly) {
             const extractedName = row.extractedRecord["Membership Number"];
-            const correctMemberId = member["Membership Number"] || member["Old Membership Number"] || "";
-            const correctMemberName = `${member.Surname} ${member["First Name"]} ${member["Other Names"] || ""}`.trim();
 
             // Import and save alias asynchronously
             try {
-                const { saveNameAlias } = await import("@/services/handwritingLearning");
-                await saveNameAlias(currentAssembly, extractedName, correctMemberId, correctMemberName, 'verification');
+                const { learnNameAlias } = await import("@/services/nameAliases");
+                await learnNameAlias(currentAssembly, extractedName, member, 'verification');
             } catch (error) {
                 console.error("[FeedbackLoop] Failed to save name alias:", error);
             }
@@ -238,7 +289,7 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
 
             try {
                 // Train the ensemble OCR (char substitution + neural network)
-                await trainEnsemble(originalStr, newAmount);
+                await trainEnsemble(originalStr, newAmount, scribeId || undefined);
 
                 // Save to handwriting learning database
                 await saveAmountCorrection(
@@ -246,7 +297,8 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
                     originalStr,
                     newAmount,
                     row.matchedMember?.["Membership Number"],
-                    'verification'
+                    'verification',
+                    scribeId || undefined
                 );
 
                 // Mark as saved
@@ -258,7 +310,7 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
 
         setEditingRowId(null);
         setEditingAmount("");
-    }, [editingAmount, rows, currentAssembly]);
+    }, [editingAmount, rows, currentAssembly, scribeId]);
 
     const handleAmountKeyDown = (e: React.KeyboardEvent, rowId: number) => {
         if (e.key === "Enter") {
@@ -294,13 +346,14 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
 
         // Train the systems
         try {
-            await trainEnsemble(originalStr, suggestedAmount);
+            await trainEnsemble(originalStr, suggestedAmount, scribeId || undefined);
             await saveAmountCorrection(
                 currentAssembly || 'default',
                 originalStr,
                 suggestedAmount,
                 row.matchedMember?.["Membership Number"],
-                'verification'
+                'verification',
+                scribeId || undefined
             );
             setSavedCorrections(prev => new Set(prev).add(rowId));
         } catch (error) {
@@ -312,7 +365,7 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
         <Modal
             isOpen={isOpen}
             onClose={onClose}
-            title="Verify Extraction Results"
+            title={title}
             size="xl"
             footerContent={
                 <div className="flex justify-between items-center w-full">
@@ -410,6 +463,93 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
                     </div>
                 )}
 
+                {/* Scribe of the page */}
+                {scribes.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-3 p-3 rounded-xl bg-[var(--bg-elevated)] border border-[var(--border-color)]">
+                        <label htmlFor="verification-scribe" className="text-sm font-medium text-[var(--text-primary)]">
+                            Written by
+                        </label>
+                        <select
+                            id="verification-scribe"
+                            value={scribeId}
+                            onChange={(e) => setScribeId(e.target.value)}
+                            className="form-input-light"
+                        >
+                            <option value="">Unknown</option>
+                            {scribes.map((s) => (
+                                <option key={s.id} value={s.id}>
+                                    {s.name}
+                                </option>
+                            ))}
+                        </select>
+                        {scribeDetection && scribeId === scribeDetection.scribeId && (
+                            <span className="text-xs text-[var(--text-secondary)]">
+                                {SCRIBE_DETECTION_LABELS[scribeDetection.method]}
+                                {scribeDetection.method === 'handwriting' && ` (${Math.round(scribeDetection.confidence * 100)}% match)`}
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {/* Month TOTAL Reconciliation */}
+                {totalDiscrepancies && totalDiscrepancies.length > 0 && (
+                    <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30">
+                        <h4 className="text-sm font-semibold text-red-300 flex items-center gap-2">
+                            <AlertTriangle size={16} />
+                            {totalDiscrepancies.length} row{totalDiscrepancies.length === 1 ? '' : 's'} do not add up to the month TOTAL
+                        </h4>
+                        <ul className="mt-2 space-y-1 text-xs text-red-200/80">
+                            {totalDiscrepancies.map((d) => (
+                                <li key={d.memberNo}>{d.message}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {/* Photo Clean-up Before/After */}
+                {preprocessing && previewUrls && (
+                    <div className="rounded-xl bg-[var(--bg-elevated)] border border-[var(--border-color)]">
+                        <button
+                            type="button"
+                            onClick={() => setShowPreprocessing(prev => !prev)}
+                            className="w-full flex items-center justify-between gap-3 p-4 text-left"
+                        >
+                            <span className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+                                <ScanLine size={16} className="text-[var(--primary-accent-start)]" />
+                                Photo cleaned up before reading
+                            </span>
+                            <span className="text-xs text-[var(--text-muted)]">
+                                {preprocessing.report.pageDetected ? 'Page flattened' : 'Page edges not found'}
+                                {' · '}skew {preprocessing.report.skewAngle}°
+                                {' · '}contrast {preprocessing.report.contrastBefore}→{preprocessing.report.contrastAfter}
+                                {' · '}{showPreprocessing ? 'Hide' : 'Compare'}
+                            </span>
+                        </button>
+                        {showPreprocessing && (
+                            <div className="grid grid-cols-2 gap-3 px-4 pb-4">
+                                <figure className="space-y-1">
+                                    <img
+                                        src={previewUrls.before}
+                                        alt="Original photo"
+                                        className="w-full max-h-[40vh] object-contain rounded-lg border border-[var(--border-color)] bg-black/20"
+                                    />
+                                    <figcaption className="text-xs text-[var(--text-muted)] text-center">Before</figcaption>
+                                </figure>
+                                <figure className="space-y-1">
+                                    <img
+                                        src={previewUrls.after}
+                                        alt="Cleaned-up photo"
+                                        className="w-full max-h-[40vh] object-contain rounded-lg border border-[var(--border-color)] bg-black/20"
+                                    />
+                                    <figcaption className="text-xs text-[var(--text-muted)] text-center">
+                                        After ({preprocessing.report.width}×{preprocessing.report.height}, {preprocessing.report.durationMs}ms)
+                                    </figcaption>
+                                </figure>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
                     {rows.map((row, idx) => (
                         <div
@@ -442,13 +582,17 @@ const ImageVerificationModal: React.FC<ImageVerificationModalProps> = ({
                                             </span>
                                         )}
                                     </div>
-                                    <h4 className="font-handwriting text-lg text-[var(--text-primary)] truncate" title={row.extractedRecord["Membership Number"]}>
-                                        {row.extractedRecord["Membership Number"]}
-                                    </h4>
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <CellCropImage src={row.extractedRecord.cellCrops?.name} label="name" />
+                                        <h4 className="font-handwriting text-lg text-[var(--text-primary)] truncate" title={row.extractedRecord["Membership Number"]}>
+                                            {row.extractedRecord["Membership Number"]}
+                                        </h4>
+                                    </div>
 
                                     {/* Editable Amount Badge */}
                                     <div className="mt-2 inline-flex items-center gap-2 bg-[var(--bg-card)] px-3 py-1.5 rounded-lg border border-[var(--border-color)] shadow-sm">
                                         <span className="text-xs text-[var(--text-muted)] uppercase tracking-wider">Amount</span>
+                                        <CellCropImage src={row.extractedRecord.cellCrops?.amount} label="amount" />
 
                                         {editingRowId === row.id ? (
                                             <input
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import Modal from "./Modal";
+import Button from "./Button";
+import { MemberSyncConflict } from "../types";
+import { GitMerge, Inbox } from "lucide-react";
+import { ScrollArea } from "./ui/scroll-area";
+import { syncManager } from "@/services/SyncManager";
+import { applyConflictChoices } from "@/services/memberMerge";
+
+interface MemberConflictModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type FieldChoice = "local" | "remote";
+
+const displayValue = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value).trim();
+  return text || "(empty)";
+};
+
+const ConflictCard: React.FC<{
+  conflict: MemberSyncConflict;
+  onResolved: () => void;
+}> = ({ conflict, onResolved }) => {
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const name =
+    `${conflict.local.Title || ""} ${conflict.local["First Name"] || ""} ${conflict.local.Surname || ""} ${conflict.local["Other Names"] || ""}`
+      .replace(/\s+/g, " ")
+      .trim() || "Unnamed Member";
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      const resolved = applyConflictChoices(conflict.local, conflict.conflicts, choices);
+      await syncManager.resolveMemberConflict(conflict.id, resolved);
+      onResolved();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeepRemote = async () => {
+    setIsSaving(true);
+    try {
+      await syncManager.discardMemberConflict(conflict.id);
+      onResolved();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className="text-[var(--text-secondary)] p-4 rounded-md bg-[var(--bg-card)] border border-[var(--border-color)]">
+      <div className="mb-3">
+        <h4 className="font-bold text-[var(--text-primary)]">{name}</h4>
+        <p className="text-xs text-[var(--text-muted)]">
+          ID: {conflict.memberId} · {conflict.assemblyName} · detected{" "}
+          {new Date(conflict.detectedAt).toLocaleString()}
+        </p>
+        {conflict.mergedFields.length > 0 && (
+          <p className="text-xs text-[var(--text-muted)] mt-1">
+            Already merged from other device: {conflict.mergedFields.join(", ")}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2 text-xs font-semibold text-[var(--text-muted)] uppercase">
+          <span>Field (original)</span>
+          <span>This Device</span>
+          <span>Other Device</span>
+        </div>
+        {conflict.conflicts.map((fieldConflict) => {
+          const choice = choices[fieldConflict.field] || "local";
+          return (
+            <div
+              key={fieldConflict.field}
+              className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2 text-sm items-start"
+            >
+              <div className="p-2">
+                <p className="font-semibold text-[var(--text-primary)]">{fieldConflict.field}</p>
+                <p className="text-xs line-through opacity-70">
+                  {displayValue(fieldConflict.baseValue)}
+                </p>
+              </div>
+              {(["local", "remote"] as FieldChoice[]).map((side) => (
+                <label
+                  key={side}
+                  className={`p-2 rounded cursor-pointer bg-[var(--bg-elevated)] border ${choice === side
+                    ? "border-[var(--primary-accent-start)]"
+                    : "border-transparent"
+                    }`}
+                >
+                  <input
+                    type="radio"
+                    className="mr-2"
+                    name={`${conflict.id}-${fieldConflict.field}`}
+                    checked={choice === side}
+                    onChange={() =>
+                      setChoices((prev) => ({ ...prev, [fieldConflict.field]: side }))
+                    }
+                  />
+                  {displayValue(
+                    side === "local" ? fieldConflict.localValue : fieldConflict.remoteValue
+                  )}
+                </label>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3 justify-end">
+        <Button size="sm" variant="outline" onClick={handleKeepRemote} disabled={isSaving}>
+          Keep Other Device&apos;s Version
+        </Button>
+        <Button size="sm" variant="primary" onClick={handleApply} disabled={isSaving}>
+          Apply Merge
+        </Button>
+      </div>
+    </li>
+  );
+};
+
+const MemberConflictModal: React.FC<MemberConflictModalProps> = ({ isOpen, onClose }) => {
+  const [conflicts, setConflicts] = useState<MemberSyncConflict[]>([]);
+
+  const loadConflicts = () => {
+    syncManager.getMemberConflicts().then(setConflicts);
+  };
+
+  useEffect(() => {
+    if (isOpen) loadConflicts();
+  }, [isOpen]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Resolve Sync Conflicts"
+      size="xxl"
+      closeOnOutsideClick={false}
+      footerContent={
+        <Button onClick={onClose} variant="primary" size="md">
+          Done
+        </Button>
+      }
+    >
+      <div className="space-y-4">
+        <div className="text-center">
+          <GitMerge size={40} className="mx-auto text-[var(--primary-accent-start)]" />
+          <p className="mt-2 text-md text-[var(--text-secondary)]">
+            These members were edited on this device and on another device while offline.
+            Choose which value to keep for each field.
+          </p>
+        </div>
+        {conflicts.length > 0 ? (
+          <ScrollArea className="h-[28rem]">
+            <ul className="space-y-4 pr-2">
+              {conflicts.map((conflict) => (
+                <ConflictCard key={conflict.id} conflict={conflict} onResolved={loadConflicts} />
+              ))}
+            </ul>
+          </ScrollArea>
+        ) : (
+          <div className="text-center py-4 flex flex-col items-center justify-center text-[var(--text-muted)]">
+            <Inbox size={24} className="mb-2 opacity-50" />
+            <p className="text-sm">No conflicts to resolve.</p>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default MemberConflictModal;
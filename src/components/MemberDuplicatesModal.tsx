@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useState } from "react";
+import Modal from "./Modal";
+import Button from "./Button";
+import { ArrowLeft, Merge, UserX } from "lucide-react";
+import { MemberDatabase } from "@/types";
+import { DISMISSED_DUPLICATES_STORAGE_KEY } from "@/constants";
+import {
+    findDuplicateMembers,
+    getDuplicateMemberKey,
+    getDuplicatePairKey,
+    getMergeFieldOptions,
+    DuplicateCluster,
+    DuplicateMemberRef,
+    DuplicateReason,
+    MemberMergePlan,
+} from "@/services/memberDuplicates";
+
+interface MemberDuplicatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    memberDatabase: MemberDatabase;
+    /** Rejects with the reason when the merge is not possible */
+    onMerge: (plan: MemberMergePlan) => Promise<void>;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+    "same-number": "Same membership number",
+    "similar-name": "Similar name",
+    "day-name": "Day name spelling",
+    phone: "Same phone",
+    date: "Same date",
+};
+
+const loadDismissedPairs = (): Set<string> => {
+    try {
+        const stored = localStorage.getItem(DISMISSED_DUPLICATES_STORAGE_KEY);
+        return new Set(stored ? (JSON.parse(stored) as string[]) : []);
+    } catch (e) {
+        console.error("Failed to parse dismissed duplicates:", e);
+        return new Set();
+    }
+};
+
+const getDisplayName = ({ member }: DuplicateMemberRef) =>
+    [member.Title, member["First Name"], member.Surname, member["Other Names"]].filter(Boolean).join(" ");
+
+const getDisplayId = ({ member }: DuplicateMemberRef) =>
+    member["Membership Number"] || member["Old Membership Number"] || "No ID";
+
+const formatValue = (value: unknown) => (value === undefined || value === null ? "" : String(value));
+
+const MemberDuplicatesModal: React.FC<MemberDuplicatesModalProps> = ({
+    isOpen,
+    onClose,
+    memberDatabase,
+    onMerge,
+}) => {
+    const [dismissedPairs, setDismissedPairs] = useState<Set<string>>(loadDismissedPairs);
+    const [activeClusterId, setActiveClusterId] = useState<string | null>(null);
+    const [survivorKey, setSurvivorKey] = useState<string | null>(null);
+    const [choices, setChoices] = useState<Record<string, unknown>>({});
+    const [error, setError] = useState<string | null>(null);
+    const [isMerging, setIsMerging] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setActiveClusterId(null);
+            setError(null);
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        localStorage.setItem(DISMISSED_DUPLICATES_STORAGE_KEY, JSON.stringify([...dismissedPairs]));
+    }, [dismissedPairs]);
+
+    const clusters = useMemo(
+        () => (isOpen ? findDuplicateMembers(memberDatabase, { dismissedPairs }) : []),
+        [isOpen, memberDatabase, dismissedPairs]
+    );
+
+    const activeCluster = clusters.find((c) => c.id === activeClusterId) || null;
+    const survivor = activeCluster?.members.find((m) => getDuplicateMemberKey(m) === survivorKey) || null;
+    const duplicates = useMemo(
+        () => (activeCluster && survivor ? activeCluster.members.filter((m) => m !== survivor) : []),
+        [activeCluster, survivor]
+    );
+    const fieldOptions = useMemo(
+        () => (survivor ? getMergeFieldOptions(survivor, duplicates) : []),
+        [survivor, duplicates]
+    );
+
+    const openCluster = (cluster: DuplicateCluster) => {
+        setActiveClusterId(cluster.id);
+        setSurvivorKey(getDuplicateMemberKey(cluster.members[0]));
+        setChoices({});
+        setError(null);
+    };
+
+    const handleSurvivorChange = (key: string) => {
+        setSurvivorKey(key);
+        setChoices({});
+    };
+
+    const handleDismiss = (cluster: DuplicateCluster) => {
+        setDismissedPairs((prev) => {
+            const next = new Set(prev);
+            cluster.members.forEach((a, i) =>
+                cluster.members.slice(i + 1).forEach((b) => next.add(getDuplicatePairKey(a, b)))
+            );
+            return next;
+        });
+        setActiveClusterId(null);
+    };
+
+    const handleMerge = async () => {
+        if (!survivor) return;
+        setIsMerging(true);
+        setError(null);
+        try {
+            await onMerge({ survivor, duplicates, choices });
+            setActiveClusterId(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Merge failed");
+        } finally {
+            setIsMerging(false);
+        }
+    };
+
+    const footerContent = activeCluster ? (
+        <>
+            <Button
+                variant="ghost"
+                leftIcon={<ArrowLeft size={16} />}
+                onClick={() => setActiveClusterId(null)}
+                disabled={isMerging}
+            >
+                Back
+            </Button>
+            <Button
+                variant="outline"
+                leftIcon={<UserX size={16} />}
+                onClick={() => handleDismiss(activeCluster)}
+                disabled={isMerging}
+            >
+                Not duplicates
+            </Button>
+            <Button
+                variant="primary"
+                leftIcon={<Merge size={16} />}
+                onClick={handleMerge}
+                disabled={!survivor || isMerging}
+            >
+                {isMerging ? "Merging..." : `Merge ${activeCluster.members.length} records`}
+            </Button>
+        </>
+    ) : (
+        <Button variant="ghost" onClick={onClose}>
+            Close
+        </Button>
+    );
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={activeCluster ? "Merge Duplicate Members" : "Possible Duplicate Members"}
+            size="lg"
+            footerContent={footerContent}
+        >
+            {!activeCluster && (
+                <div className="space-y-3">
+                    <p className="text-sm text-[var(--text-muted)]">
+                        Records across all assemblies that look like the same person. Review each group and
+                        merge it, or mark it as different people so it is not suggested again.
+                    </p>
+                    {clusters.length === 0 ? (
+                        <p className="text-sm text-[var(--text-secondary)] py-6 text-center">
+                            No likely duplicates found.
+                        </p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {clusters.map((cluster) => (
+                                <li
+                                    key={cluster.id}
+                                    className="p-3 rounded-lg bg-[var(--bg-elevated)] border border-[var(--border-color)]"
+                                >
+                                    <div className="flex items-start justify-between gap-3">
+                                        <div className="min-w-0 space-y-1">
+                                            {cluster.members.map((ref) => (
+                                                <p key={getDuplicateMemberKey(ref)} className="text-sm">
+                                                    <span className="font-medium text-[var(--text-primary)]">
+                                                        {getDisplayName(ref)}
+                                                    </span>
+                                                    <span className="text-[var(--text-muted)]">
+                                                        {" "}· {getDisplayId(ref)} · {ref.assemblyName}
+                                                    </span>
+                                                </p>
+                                            ))}
+                                            <p className="text-xs text-[var(--text-muted)]">
+                                                {Math.round(cluster.score * 100)}% match ·{" "}
+                                                {cluster.reasons.map((r) => REASON_LABELS[r]).join(", ")}
+                                            </p>
+                                        </div>
+                                        <Button size="sm" variant="secondary" onClick={() => openCluster(cluster)}>
+                                            Review
+                                        </Button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {activeCluster && (
+                <div className="space-y-4">
+                    <div>
+                        <p className="form-label">Keep this record</p>
+                        <div className="space-y-2">
+                            {activeCluster.members.map((ref) => {
+                                const key = getDuplicateMemberKey(ref);
+                                return (
+                                    <label
+                                        key={key}
+                                        className="flex items-center gap-3 p-3 rounded-lg bg-[var(--bg-elevated)] border border-[var(--border-color)] cursor-pointer"
+                                    >
+                                        <input
+                                            type="radio"
+                                            name="duplicate-survivor"
+                                            checked={key === survivorKey}
+                                            onChange={() => handleSurvivorChange(key)}
+                                        />
+                                        <span className="text-sm">
+                                            <span className="font-medium text-[var(--text-primary)]">
+                                                {getDisplayName(ref)}
+                                            </span>
+                                            <span className="text-[var(--text-muted)]">
+                                                {" "}· {getDisplayId(ref)} · {ref.assemblyName} #{ref.member["No."]}
+                                            </span>
+                                        </span>
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {fieldOptions.length > 0 && (
+                        <div className="space-y-3">
+                            <p className="form-label">Values to keep</p>
+                            {fieldOptions.map(({ field, values }) => {
+                                const selected = field in choices ? choices[field] : values[0];
+                                return (
+                                    <div key={field}>
+                                        <label htmlFor={`merge-${field}`} className="text-sm text-[var(--text-secondary)]">
+                                            {field}
+                                        </label>
+                                        <select
+                                            id={`merge-${field}`}
+                                            value={values.indexOf(selected)}
+                                            onChange={(e) =>
+                                                setChoices((prev) => ({ ...prev, [field]: values[Number(e.target.value)] }))
+                                            }
+                                            className="form-input-light w-full"
+                                        >
+                                            {values.map((value, i) => (
+                                                <option key={i} value={i}>
+                                                    {formatValue(value)}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    <p className="text-xs text-[var(--text-muted)]">
+                        Empty fields are filled from the other records. Logged tithes, pledges, tithe book
+                        positions and learned name aliases are moved to the record you keep.
+                    </p>
+
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+export default MemberDuplicatesModal;
@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Modal from "./Modal";
+import Button from "./Button";
+import { AlertTriangle, Check, Edit, Link2, Search, Trash2, X } from "lucide-react";
+import { MemberRecordA } from "@/types";
+import {
+    deleteAlias,
+    getAliasesForAssembly,
+    reassignAlias,
+    renameAlias,
+    resolveAlias,
+    NameAlias,
+} from "@/services/nameAliases";
+
+interface NameAliasesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    assemblyName: string;
+    masterList: MemberRecordA[];
+    addToast?: (message: string, type: "success" | "error" | "info" | "warning") => void;
+}
+
+const getMemberId = (member: MemberRecordA) =>
+    String(member["Membership Number"] || member["Old Membership Number"] || "");
+
+const formatDate = (timestamp?: number) =>
+    timestamp
+        ? new Date(timestamp).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" })
+        : "Never";
+
+const NameAliasesModal: React.FC<NameAliasesModalProps> = ({
+    isOpen,
+    onClose,
+    assemblyName,
+    masterList,
+    addToast,
+}) => {
+    const [aliases, setAliases] = useState<NameAlias[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [filter, setFilter] = useState("");
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editName, setEditName] = useState("");
+    const [reassigningId, setReassigningId] = useState<string | null>(null);
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+    const loadAliases = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setAliases(await getAliasesForAssembly(assemblyName));
+        } catch (error) {
+            console.error("Failed to load aliases:", error);
+            addToast?.("Failed to load name aliases", "error");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [assemblyName, addToast]);
+
+    useEffect(() => {
+        if (isOpen && assemblyName) {
+            setFilter("");
+            setEditingId(null);
+            setReassigningId(null);
+            setConfirmDeleteId(null);
+            loadAliases();
+        }
+    }, [isOpen, assemblyName, loadAliases]);
+
+    const sortedMembers = useMemo(
+        () =>
+            masterList
+                .filter((m) => getMemberId(m))
+                .map((m) => ({ id: getMemberId(m), name: `${m["First Name"] || ""} ${m.Surname || ""}`.trim() }))
+                .sort((a, b) => a.name.localeCompare(b.name)),
+        [masterList]
+    );
+
+    const visibleAliases = useMemo(() => {
+        const term = filter.trim().toLowerCase();
+        if (!term) return aliases;
+        return aliases.filter(
+            (a) =>
+                a.extractedName.toLowerCase().includes(term) ||
+                a.targets.some((t) => t.memberName.toLowerCase().includes(term) || t.memberId.toLowerCase().includes(term))
+        );
+    }, [aliases, filter]);
+
+    const conflictCount = useMemo(() => aliases.filter((a) => resolveAlias(a)?.conflict).length, [aliases]);
+
+    const runAction = async (action: () => Promise<unknown>, success: string) => {
+        try {
+            await action();
+            addToast?.(success, "success");
+            await loadAliases();
+        } catch (error) {
+            addToast?.(error instanceof Error ? error.message : "Failed to update alias", "error");
+        }
+    };
+
+    const handleRename = (alias: NameAlias) =>
+        runAction(() => renameAlias(alias.id, editName), "Alias updated").then(() => setEditingId(null));
+
+    const handleReassign = (alias: NameAlias, memberId: string) => {
+        const member = masterList.find((m) => getMemberId(m).toLowerCase() === memberId.toLowerCase());
+        if (!member) {
+            addToast?.("That member is no longer in the master list", "warning");
+            return;
+        }
+        runAction(() => reassignAlias(alias.id, member), `"${alias.extractedName}" now points to ${member["First Name"]} ${member.Surname}`)
+            .then(() => setReassigningId(null));
+    };
+
+    const handleDelete = (alias: NameAlias) =>
+        runAction(() => deleteAlias(alias.id), "Alias deleted").then(() => setConfirmDeleteId(null));
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={`Name Aliases - ${assemblyName}`}
+            size="lg"
+            footerContent={
+                <Button variant="ghost" onClick={onClose}>
+                    Close
+                </Button>
+            }
+        >
+            <div className="space-y-4">
+                <p className="text-sm text-[var(--text-secondary)]">
+                    Names as they are written in the tithe book, learned when you link them to a member.
+                    An alias is applied automatically once it has been confirmed twice.
+                </p>
+
+                {aliases.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-3">
+                        <div className="relative flex-1 min-w-[12rem]">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" size={16} />
+                            <input
+                                type="text"
+                                placeholder="Search aliases or members..."
+                                value={filter}
+                                onChange={(e) => setFilter(e.target.value)}
+                                className="form-input-light w-full pl-9"
+                            />
+                        </div>
+                        {conflictCount > 0 && (
+                            <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-amber-500/10 text-amber-500">
+                                <AlertTriangle size={12} />
+                                {conflictCount} in conflict
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {isLoading ? (
+                    <div className="text-center py-8 text-[var(--text-muted)]">Loading aliases...</div>
+                ) : aliases.length === 0 ? (
+                    <div className="text-center py-8">
+                        <Link2 size={48} className="mx-auto text-[var(--text-muted)] mb-3 opacity-50" />
+                        <p className="text-[var(--text-muted)]">No aliases learned for this assembly yet</p>
+                        <p className="text-sm text-[var(--text-muted)] mt-1">
+                            They are added when you pick the right member for a scanned name.
+                        </p>
+                    </div>
+                ) : (
+                    <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                        {visibleAliases.map((alias) => {
+                            const resolution = resolveAlias(alias);
+                            const isEditing = editingId === alias.id;
+                            const isReassigning = reassigningId === alias.id;
+                            const isConfirmingDelete = confirmDeleteId === alias.id;
+
+                            return (
+                                <div
+                                    key={alias.id}
+                                    className={`p-3 rounded-lg border ${resolution?.conflict
+                                        ? "bg-amber-500/5 border-amber-500/30"
+                                        : "bg-[var(--bg-elevated)] border-[var(--border-color)]"
+                                        }`}
+                                >
+                                    <div className="flex items-start gap-3">
+                                        <div className="flex-1 min-w-0">
+                                            {isEditing ? (
+                                                <div className="flex items-center gap-2">
+                                                    <input
+                                                        type="text"
+                                                        value={editName}
+                                                        onChange={(e) => setEditName(e.target.value)}
+                                                        onKeyDown={(e) => e.key === "Enter" && handleRename(alias)}
+                                                        className="form-input-light flex-1"
+                                                        aria-label="Written name"
+                                                        autoFocus
+                                                    />
+                                                    <Button size="sm" variant="primary" onClick={() => handleRename(alias)} title="Save">
+                                                        <Check size={14} />
+                                                    </Button>
+                                                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} title="Cancel">
+                                                        <X size={14} />
+                                                    </Button>
+                                                </div>
+                                            ) : (
+                                                <p className="font-handwriting text-lg text-[var(--text-primary)] truncate">
+                                                    {alias.extractedName}
+                                                </p>
+                                            )}
+
+                                            {resolution?.conflict ? (
+                                                <div className="mt-1 space-y-1">
+                                                    <p className="text-sm text-amber-500 flex items-center gap-1">
+                                                        <AlertTriangle size={14} />
+                                                        Linked to more than one member - not applied until you pick one
+                                                    </p>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {alias.targets.map((t) => (
+                                                            <Button
+                                                                key={t.memberId}
+                                                                size="sm"
+                                                                variant="secondary"
+                                                                onClick={() => handleReassign(alias, t.memberId)}
+                                                            >
+                                                                {t.memberName} ({t.confirmations}×)
+                                                            </Button>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            ) : (
+                                                resolution && (
+                                                    <p className="text-sm text-[var(--text-secondary)] mt-0.5">
+                                                        → {resolution.memberName}{" "}
+                                                        <span className="text-[var(--text-muted)]">({resolution.memberId})</span>
+                                                    </p>
+                                                )
+                                            )}
+
+                                            <p className="text-xs text-[var(--text-muted)] mt-1">
+                                                Confidence {Math.round((resolution?.confidence ?? 0) * 100)}% ·{" "}
+                                                {alias.targets.reduce((sum, t) => sum + t.confirmations, 0)} confirmations ·{" "}
+                                                applied {alias.usageCount} times · last used {formatDate(alias.lastUsed)}
+                                            </p>
+
+                                            {isReassigning && (
+                                                <select
+                                                    value=""
+                                                    onChange={(e) => e.target.value && handleReassign(alias, e.target.value)}
+                                                    className="form-input-light mt-2 w-full"
+                                                    aria-label="Member"
+                                                >
+                                                    <option value="">Choose the member this name means...</option>
+                                                    {sortedMembers.map((m) => (
+                                                        <option key={m.id} value={m.id}>
+                                                            {m.name} ({m.id})
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            )}
+                                        </div>
+
+                                        {!isEditing && (
+                                            <div className="flex-shrink-0 flex items-center gap-1">
+                                                {isConfirmingDelete ? (
+                                                    <>
+                                                        <Button size="sm" variant="danger" onClick={() => handleDelete(alias)}>
+                                                            Delete
+                                                        </Button>
+                                                        <Button size="sm" variant="ghost" onClick={() => setConfirmDeleteId(null)}>
+                                                            Cancel
+                                                        </Button>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            title="Edit written name"
+                                                            onClick={() => {
+                                                                setEditName(alias.extractedName);
+                                                                setEditingId(alias.id);
+                                                            }}
+                                                        >
+                                                            <Edit size={14} />
+                                                        </Button>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            title="Reassign to another member"
+                                                            onClick={() => setReassigningId(isReassigning ? null : alias.id)}
+                                                        >
+                                                            <Link2 size={14} />
+                                                        </Button>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            title="Delete alias"
+                                                            onClick={() => setConfirmDeleteId(alias.id)}
+                                                            className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                                        >
+                                                            <Trash2 size={14} />
+                                                        </Button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        {visibleAliases.length === 0 && (
+                            <p className="text-center py-4 text-sm text-[var(--text-muted)]">No aliases match your search.</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
+
+export default NameAliasesModal;
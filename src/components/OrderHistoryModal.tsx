@@ -1,7 +1,7 @@
 import React, { useEffect, useState, useCallback } from "react";
 import Modal from "./Modal";
 import Button from "./Button";
-import { History, Download, RotateCcw, Wand2, GripVertical, Undo2 } from "lucide-react";
+import { History, Download, RotateCcw, Wand2, GripVertical, Undo2, ArrowRightLeft, Merge } from "lucide-react";
 import {
     getOrderHistory,
     OrderHistoryEntry,
@@ -24,6 +24,8 @@ const ACTION_ICONS: Record<OrderHistoryEntry["action"], React.ReactNode> = {
     reset: <RotateCcw size={16} className="text-red-400" />,
     ai_reorder: <Wand2 size={16} className="text-amber-400" />,
     manual: <GripVertical size={16} className="text-green-400" />,
+    transfer: <ArrowRightLeft size={16} className="text-cyan-400" />,
+    merge: <Merge size={16} className="text-pink-400" />,
 };
 
 const ACTION_LABELS: Record<OrderHistoryEntry["action"], string> = {
@@ -32,6 +34,8 @@ const ACTION_LABELS: Record<OrderHistoryEntry["action"], string> = {
     reset: "Order Reset",
     ai_reorder: "AI Reorder",
     manual: "Manual Change",
+    transfer: "Member Transfer",
+    merge: "Duplicates Merged",
 };
 
 const OrderHistoryModal: React.FC<OrderHistoryModalProps> = ({
@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from "react";
+import Modal from "./Modal";
+import Button from "./Button";
+import MemberSelect from "./MemberSelect";
+import { FileText, Plus, Trash2 } from "lucide-react";
+import { MemberRecordA, TransactionLogEntry } from "@/types";
+import { PLEDGE_TRANSACTION_TYPES } from "@/constants";
+import { useDatabaseContext } from "@/context";
+import { formatTransactionType } from "@/lib/transactionTypes";
+import { downloadPDF, generatePledgeStatementPDF } from "@/lib/pdfGenerator";
+import {
+  allocatePledgePayments,
+  createPledge,
+  getMemberPledgeProgress,
+  PledgeProgress,
+} from "@/services/pledgeLedger";
+
+interface PledgeLedgerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactionLog: TransactionLogEntry[];
+}
+
+const STATUS_CLASSES: Record<PledgeProgress["status"], string> = {
+  fulfilled: "text-[var(--success-text)]",
+  overdue: "text-[var(--danger-text)]",
+  open: "text-[var(--text-secondary)]",
+};
+
+const getMemberId = (m: MemberRecordA): string =>
+  m["Membership Number"] || m["Old Membership Number"] || "";
+
+const getMemberName = (m: MemberRecordA): string =>
+  [m.Title, m["First Name"], m.Surname, m["Other Names"]].filter(Boolean).join(" ");
+
+const PledgeLedgerModal: React.FC<PledgeLedgerModalProps> = ({
+  isOpen,
+  onClose,
+  transactionLog,
+}) => {
+  const { memberDatabase, assembliesWithData, pledges, addPledge, removePledge } =
+    useDatabaseContext();
+
+  const [assemblyName, setAssemblyName] = useState("");
+  const [member, setMember] = useState<MemberRecordA | null>(null);
+  const [campaign, setCampaign] = useState("");
+  const [transactionType, setTransactionType] = useState(PLEDGE_TRANSACTION_TYPES[0]);
+  const [amount, setAmount] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [startDate, setStartDate] = useState("");
+
+  const progress = useMemo(
+    () => allocatePledgePayments(pledges, transactionLog),
+    [pledges, transactionLog],
+  );
+
+  const canAdd =
+    !!assemblyName && !!member && !!getMemberId(member) && !!campaign.trim() &&
+    Number(amount) > 0 && !!deadline && (!startDate || startDate <= deadline);
+
+  const handleAdd = () => {
+    if (!canAdd || !member) return;
+    addPledge(
+      createPledge({
+        assemblyName,
+        memberId: getMemberId(member),
+        memberName: getMemberName(member),
+        campaign,
+        transactionType,
+        amount: Number(amount),
+        deadline,
+        ...(startDate ? { startDate } : {}),
+      }),
+    );
+    setMember(null);
+    setAmount("");
+  };
+
+  const handleStatement = (item: PledgeProgress) => {
+    const { memberId, memberName } = item.pledge;
+    const doc = generatePledgeStatementPDF(
+      memberName,
+      memberId,
+      getMemberPledgeProgress(progress, memberId),
+    );
+    downloadPDF(doc, `TACTMS-pledges-${memberId}`);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Pledge Ledger" size="xl">
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <select
+            value={assemblyName}
+            onChange={(e) => {
+              setAssemblyName(e.target.value);
+              setMember(null);
+            }}
+            className="form-input-light"
+          >
+            <option value="">Select Assembly</option>
+            {assembliesWithData.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <MemberSelect
+            currentMember={member}
+            onSelect={setMember}
+            masterData={memberDatabase[assemblyName]?.data || []}
+          />
+          <input
+            value={campaign}
+            onChange={(e) => setCampaign(e.target.value)}
+            placeholder="Campaign (e.g. Harvest 2025)"
+            className="form-input-light"
+          />
+          <select
+            value={transactionType}
+            onChange={(e) => setTransactionType(e.target.value)}
+            className="form-input-light"
+          >
+            {PLEDGE_TRANSACTION_TYPES.map((type) => (
+              <option key={type} value={type}>
+                Paid as {formatTransactionType(type)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount (GHS)"
+            className="form-input-light"
+          />
+          <input
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="form-input-light"
+            aria-label="Deadline"
+          />
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="form-input-light"
+            aria-label="Count payments from"
+          />
+        </div>
+        <Button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          variant="primary"
+          size="md"
+          leftIcon={<Plus size={16} />}
+        >
+          Add Pledge
+        </Button>
+
+        {progress.length === 0 ? (
+          <p className="text-sm text-[var(--text-secondary)]">
+            No pledges yet. Payments logged with a matching transaction type are applied
+            automatically.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs uppercase text-[var(--text-muted)] text-left">
+                <th className="py-1">Member</th>
+                <th className="py-1">Campaign</th>
+                <th className="py-1">Deadline</th>
+                <th className="py-1 text-right">Paid / Pledged</th>
+                <th className="py-1 text-right">Status</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--border-color)]">
+              {progress.map((item) => (
+                <tr key={item.pledge.id} className="text-[var(--text-primary)]">
+                  <td className="py-2">
+                    {item.pledge.memberName}
+                    <span className="block text-xs text-[var(--text-muted)]">
+                      {item.pledge.assemblyName} · {item.pledge.memberId}
+                    </span>
+                  </td>
+                  <td className="py-2">{item.pledge.campaign}</td>
+                  <td className="py-2">{item.pledge.deadline}</td>
+                  <td className="py-2 text-right">
+                    GHS {item.paid.toLocaleString()} / {item.pledge.amount.toLocaleString()}
+                  </td>
+                  <td className={`py-2 text-right capitalize ${STATUS_CLASSES[item.status]}`}>
+                    {item.status} ({item.percent}%)
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Button
+                      onClick={() => handleStatement(item)}
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Download pledge statement"
+                    >
+                      <FileText size={16} />
+                    </Button>
+                    <Button
+                      onClick={() => removePledge(item.pledge.id)}
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Delete pledge"
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default PledgeLedgerModal;
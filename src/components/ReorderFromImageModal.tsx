@@ -3,8 +3,10 @@ import Modal from "./Modal";
 import Button from "./Button";
 import { Upload, Wand2, Check, X, AlertTriangle, RefreshCw, ArrowRight, Eye, RotateCcw, Zap, Download, FileUp, GitCompare } from "lucide-react";
 import { MemberRecordA } from "@/types";
-import { applyRangeAwareOrder, createSnapshot, saveLearnedAlias, getAliasMap, logOrderChange, restoreSnapshot, getLatestSnapshot, exportOrderForAssembly, importOrderForAssembly, OrderExport } from "@/services/memberOrderService";
+import { applyRangeAwareOrder, createSnapshot, logOrderChange, restoreSnapshot, getLatestSnapshot, exportOrderForAssembly, importOrderForAssembly, OrderExport } from "@/services/memberOrderService";
+import { getAliasMap, learnNameAlias } from "@/services/nameAliases";
 import { extractNamesFromTitheBook } from "@/services/imageProcessor";
+import { useVisionProvider } from "@/hooks/useVisionProvider";
 
 interface ReorderFromImageModalProps {
     isOpen: boolean;
@@ -59,6 +61,7 @@ const ReorderFromImageModal: React.FC<ReorderFromImageModalProps> = ({
     const [originalExtractionRange, setOriginalExtractionRange] = useState<{ minPos: number; maxPos: number } | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const visionProvider = useVisionProvider();
 
     // Compute order changes for diff view
     const computeOrderChanges = useCallback(() => {
@@ -186,9 +189,8 @@ const ReorderFromImageModal: React.FC<ReorderFromImageModalProps> = ({
         setIsProcessing(true);
 
         try {
-            const apiKey = import.meta.env.VITE_GEMINI_API_KEY as string;
-            if (!apiKey) {
-                throw new Error("Gemini API key not configured");
+            if (!visionProvider) {
+                throw new Error("No vision provider configured");
             }
 
             const allRows: ExtractedNameRow[] = [];
@@ -205,7 +207,7 @@ const ReorderFromImageModal: React.FC<ReorderFromImageModalProps> = ({
                 setProcessingProgress({ current: i + 1, total: uploadedImages.length });
                 try {
                     // Pass memberOrderMap for positional hints and aliasMap for learned names
-                    const result = await extractNamesFromTitheBook(uploadedImages[i], apiKey, memberDatabase, memberOrderMap, aliasMap);
+                    const result = await extractNamesFromTitheBook(uploadedImages[i], visionProvider, memberDatabase, memberOrderMap, aliasMap);
 
                     const pageRows: ExtractedNameRow[] = result.matches.map((match) => ({
                         position: match.position,
@@ -303,7 +305,7 @@ const ReorderFromImageModal: React.FC<ReorderFromImageModalProps> = ({
         // Save the learned alias for future use
         if (row && row.extractedName) {
             try {
-                await saveLearnedAlias(assemblyName, row.extractedName, member);
+                await learnNameAlias(assemblyName, row.extractedName, member, 'reorder');
                 console.log(`Learned alias: "${row.extractedName}" → "${member["First Name"]} ${member.Surname}"`);
             } catch (error) {
                 console.warn("Failed to save alias:", error);
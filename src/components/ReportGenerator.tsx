@@ -10,12 +10,15 @@ import {
     generateMonthlySummaryPDF,
     generateMemberStatementPDF,
     generateAnnualReportPDF,
+    generatePledgeStatementPDF,
     downloadPDF,
     previewPDF
 } from '@/lib/pdfGenerator';
+import { allocatePledgePayments, getMemberPledgeProgress } from '@/services/pledgeLedger';
+import { useDatabaseContext } from '@/context';
 import Modal from './Modal';
 import Button from './Button';
-import { FileText, Download, Eye, AlertCircle, Calendar, User, BarChart } from 'lucide-react';
+import { FileText, Download, Eye, AlertCircle, Calendar, User, BarChart, HandCoins } from 'lucide-react';
 import {
     Select,
     SelectContent,
@@ -32,7 +35,7 @@ interface ReportGeneratorProps {
     currentAssembly?: string;
 }
 
-type ReportType = 'weekly' | 'monthly' | 'member' | 'annual';
+type ReportType = 'weekly' | 'monthly' | 'member' | 'pledge' | 'annual';
 
 const MONTHS = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -54,6 +57,7 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
     const [selectedMember, setSelectedMember] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const { pledges } = useDatabaseContext();
 
     const assemblies = Object.keys(memberDatabase);
     const years = Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i);
@@ -137,6 +141,25 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                     break;
                 }
 
+                case 'pledge': {
+                    if (!selectedMember) {
+                        throw new Error('Please select a member');
+                    }
+                    const member = members.find(m => m.id === selectedMember);
+                    if (!member) {
+                        throw new Error('Member not found');
+                    }
+                    const memberPledges = getMemberPledgeProgress(
+                        allocatePledgePayments(pledges, transactionLog),
+                        member.id
+                    );
+                    if (memberPledges.length === 0) {
+                        throw new Error('This member has no pledges');
+                    }
+                    doc = generatePledgeStatementPDF(member.name, member.id, memberPledges);
+                    break;
+                }
+
                 case 'annual':
                     doc = generateAnnualReportPDF(
                         transactionLog,
@@ -212,6 +235,7 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                             { type: 'weekly' as const, label: 'Weekly', desc: 'Single week summary', icon: Calendar },
                             { type: 'monthly' as const, label: 'Monthly', desc: 'Month overview', icon: BarChart },
                             { type: 'member' as const, label: 'Member', desc: 'Individual statement', icon: User },
+                            { type: 'pledge' as const, label: 'Pledges', desc: 'Member pledge statement', icon: HandCoins },
                             { type: 'annual' as const, label: 'Annual', desc: 'Year report', icon: FileText },
                         ].map(({ type, label, desc, icon: Icon }) => (
                             <button
@@ -331,8 +355,8 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                     </div>
                 )}
 
-                {/* Member Selection (for member statement) */}
-                {reportType === 'member' && (
+                {/* Member Selection (for member and pledge statements) */}
+                {(reportType === 'member' || reportType === 'pledge') && (
                     <div>
                         <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">
                             Member *
@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from "react";
+import Modal from "./Modal";
+import Button from "./Button";
+import MemberSelect from "./MemberSelect";
+import { FileUp, Wallet } from "lucide-react";
+import { MemberRecordA } from "@/types";
+import { PAYMENT_METHODS } from "@/constants";
+import {
+  matchStatementTransactions,
+  parseStatementFile,
+  StatementAllocation,
+  StatementMatch,
+} from "@/services/statementImport";
+
+interface StatementImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  members: MemberRecordA[];
+  onApply: (allocations: StatementAllocation[], paymentMethod: string) => void;
+}
+
+interface ReviewRow extends StatementMatch {
+  selected: MemberRecordA | null;
+  include: boolean;
+}
+
+const STATUS_CLASSES: Record<StatementMatch["status"], string> = {
+  matched: "text-[var(--success-text)]",
+  ambiguous: "text-[var(--warning-text)]",
+  unmatched: "text-[var(--danger-text)]",
+};
+
+const getMemberName = (m: MemberRecordA): string =>
+  [m["First Name"], m.Surname, m["Other Names"]].filter(Boolean).join(" ");
+
+const StatementImportModal: React.FC<StatementImportModalProps> = ({
+  isOpen,
+  onClose,
+  members,
+  onApply,
+}) => {
+  const [paymentMethod, setPaymentMethod] = useState(PAYMENT_METHODS[1]);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [error, setError] = useState("");
+
+  const handleFile = async (file: File) => {
+    setError("");
+    setFileName(file.name);
+    try {
+      const transactions = await parseStatementFile(file);
+      if (transactions.length === 0) {
+        setRows([]);
+        setError("No incoming transfers found. Check that the file has amount and sender columns.");
+        return;
+      }
+      setRows(
+        matchStatementTransactions(transactions, members).map((match) => ({
+          ...match,
+          selected: match.member,
+          include: match.status === "matched",
+        })),
+      );
+    } catch (e) {
+      setRows([]);
+      setError(e instanceof Error ? e.message : "Could not read the statement.");
+    }
+  };
+
+  const updateRow = (id: string, changes: Partial<ReviewRow>) =>
+    setRows((prev) =>
+      prev.map((row) => (row.transaction.id === id ? { ...row, ...changes } : row)),
+    );
+
+  const counts = useMemo(
+    () => ({
+      matched: rows.filter((r) => r.status === "matched").length,
+      review: rows.filter((r) => r.status !== "matched").length,
+      ready: rows.filter((r) => r.include && r.selected).length,
+    }),
+    [rows],
+  );
+
+  const handleClose = () => {
+    setRows([]);
+    setFileName("");
+    setError("");
+    onClose();
+  };
+
+  const handleApply = () => {
+    const allocations = rows
+      .filter((r) => r.include && r.selected)
+      .map((r) => ({ transaction: r.transaction, member: r.selected! }));
+    if (allocations.length === 0) return;
+    onApply(allocations, paymentMethod);
+    handleClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import MoMo / Bank Statement"
+      size="xxl"
+      footerContent={
+        <>
+          <Button onClick={handleClose} variant="ghost">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={counts.ready === 0}
+            variant="primary"
+            leftIcon={<Wallet size={16} />}
+          >
+            Prefill {counts.ready} Transfer{counts.ready === 1 ? "" : "s"}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="form-input-light flex items-center gap-2 cursor-pointer">
+            <FileUp size={16} />
+            <span className="truncate">{fileName || "Choose a CSV or XLSX statement"}</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) {
+                  handleFile(e.target.files[0]);
+                  e.target.value = "";
+                }
+              }}
+            />
+          </label>
+          <select
+            value={paymentMethod}
+            onChange={(e) => setPaymentMethod(e.target.value)}
+            className="form-input-light"
+            aria-label="Statement payment method"
+          >
+            {PAYMENT_METHODS.filter((m) => m !== PAYMENT_METHODS[0]).map((method) => (
+              <option key={method} value={method}>
+                {method} statement
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && <p className="text-sm text-[var(--danger-text)]">{error}</p>}
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-[var(--text-secondary)]">
+              {counts.matched} matched automatically · {counts.review} need review.
+              Pick a member for ambiguous or unmatched transfers and tick them to include.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs uppercase text-[var(--text-muted)] text-left">
+                  <th className="py-1" />
+                  <th className="py-1">Sender</th>
+                  <th className="py-1 text-right">Amount (GHS)</th>
+                  <th className="py-1">Status</th>
+                  <th className="py-1">Member</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--border-color)]">
+                {rows.map((row) => (
+                  <tr key={row.transaction.id} className="text-[var(--text-primary)] align-top">
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={row.include}
+                        disabled={!row.selected}
+                        onChange={(e) => updateRow(row.transaction.id, { include: e.target.checked })}
+                        aria-label="Include transfer"
+                      />
+                    </td>
+                    <td className="py-2">
+                      {row.transaction.senderName || "—"}
+                      <span className="block text-xs text-[var(--text-muted)]">
+                        {[row.transaction.phone && `0${row.transaction.phone}`, row.transaction.date, row.transaction.reference]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">{row.transaction.amount.toLocaleString()}</td>
+                    <td className={`py-2 capitalize ${STATUS_CLASSES[row.status]}`}>
+                      {row.status}
+                      {row.source && (
+                        <span className="block text-xs normal-case text-[var(--text-muted)]">
+                          by {row.source}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 min-w-[220px]">
+                      <MemberSelect
+                        currentMember={row.selected}
+                        onSelect={(member) =>
+                          updateRow(row.transaction.id, { selected: member, include: !!member })
+                        }
+                        masterData={members}
+                      />
+                      {row.status !== "matched" && row.candidates.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {row.candidates.map((c) => (
+                            <button
+                              key={`${c.member["Membership Number"]}-${getMemberName(c.member)}`}
+                              onClick={() =>
+                                updateRow(row.transaction.id, { selected: c.member, include: true })
+                              }
+                              className="text-xs px-2 py-0.5 rounded-full border border-[var(--border-color)] hover:bg-[var(--bg-elevated)]"
+                            >
+                              {getMemberName(c.member)} ({Math.round(c.score * 100)}%)
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default StatementImportModal;
@@ -7,9 +7,11 @@ import {
   AlertCircle,
   CheckCircle,
   RefreshCw,
+  GitMerge,
 } from "lucide-react";
 import { syncManager, SyncState } from "@/services/SyncManager";
 import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import MemberConflictModal from "./MemberConflictModal";
 
 type SyncStatus = "idle" | "syncing" | "synced" | "error";
 
@@ -26,6 +28,7 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
 }) => {
   const [syncState, setSyncState] = useState<SyncState>(syncManager.getState());
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isConflictModalOpen, setIsConflictModalOpen] = useState(false);
 
   // Subscribe to SyncManager state
   useEffect(() => {
@@ -48,6 +51,15 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
           syncState.pendingCount === 0 ? "synced" : "idle");
 
   const getStatusContent = () => {
+    if (syncState.conflictCount > 0) {
+      return {
+        Icon: GitMerge,
+        color: "text-orange-500",
+        tooltip: `${syncState.conflictCount} conflict(s) need review`,
+        animate: false,
+      };
+    }
+
     if (!finalIsOnline) {
       return {
         Icon: WifiOff,
@@ -93,6 +105,10 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
   };
 
   const handleClick = () => {
+    if (syncState.conflictCount > 0) {
+      setIsConflictModalOpen(true);
+      return;
+    }
     if (finalIsOnline && (finalStatus === "error" || syncState.pendingCount > 0)) {
       syncManager.syncWithRetry();
     }
@@ -104,7 +120,7 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
     <>
       <motion.button
         onClick={handleClick}
-        disabled={!finalIsOnline || finalStatus === "syncing"}
+        disabled={syncState.conflictCount === 0 && (!finalIsOnline || finalStatus === "syncing")}
         data-tooltip-id="sync-status-tooltip"
         data-tooltip-content={tooltip}
         className={`flex items-center justify-center w-8 h-8 rounded-full ${color} disabled:cursor-not-allowed hover:opacity-80 transition-opacity`}
@@ -117,6 +133,10 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
         )}
       </motion.button>
       <Tooltip id="sync-status-tooltip" place="top" />
+      <MemberConflictModal
+        isOpen={isConflictModalOpen}
+        onClose={() => setIsConflictModalOpen(false)}
+      />
     </>
   );
 };
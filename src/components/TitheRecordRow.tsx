@@ -5,6 +5,10 @@ import { GripVertical, Trash2, Move, AlertTriangle, UserX } from "lucide-react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { HighlightMatches } from "./HighlightMatches";
+import CellCropImage from "./CellCropImage";
+import { SUPPORTED_CURRENCIES, isForeignCurrency } from "../lib/currency";
+import { hasPaymentReference } from "../lib/paymentMethods";
+import { PAYMENT_METHODS } from "../constants";
 
 export interface TitheRecordRowProps {
   record: TitheRecordB;
@@ -85,9 +89,31 @@ export const TitheRecordRow: React.FC<TitheRecordRowProps> = ({
           />
         );
       }
+      if (field === "Currency" || field === "Payment Method") {
+        const options: readonly string[] = field === "Currency" ? SUPPORTED_CURRENCIES : PAYMENT_METHODS;
+        return (
+          <select
+            value={editedValue}
+            onChange={(e) => setEditedValue(e.target.value)}
+            onBlur={saveEdit}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveEdit();
+              if (e.key === "Escape") cancelEdit();
+            }}
+            autoFocus
+            className="form-input-light editable-cell-input text-xs p-1"
+          >
+            {options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      }
       return (
         <input
-          type={field === "Transaction Amount" ? "number" : "text"}
+          type={field === "Transaction Amount" || field === "Exchange Rate" ? "number" : "text"}
           value={editedValue}
           onChange={(e) => setEditedValue(e.target.value)}
           onBlur={saveEdit}
@@ -112,20 +138,43 @@ export const TitheRecordRow: React.FC<TitheRecordRowProps> = ({
       );
     }
 
-    const textValue = String(value);
-    return (
+    // Foreign amounts show their currency so they are not mistaken for cedis
+    const textValue =
+      field === "Transaction Amount" && value !== "" && isForeignCurrency(record.Currency)
+        ? `${record.Currency} ${value}`
+        : String(value);
+    const text = (
       <span className="truncate block max-w-[180px]" title={textValue}>
         <HighlightMatches text={textValue} highlight={searchTerm} />
       </span>
     );
+    // Records read from a photo show the handwriting beside the value
+    const crop =
+      field === "Membership Number" ? record.cellCrops?.name
+        : field === "Transaction Amount" ? record.cellCrops?.amount
+          : undefined;
+    if (!crop) return text;
+    return (
+      <div className="flex items-center gap-2">
+        <CellCropImage src={crop} label={field === "Transaction Amount" ? "amount" : "name"} className="h-6" />
+        {text}
+      </div>
+    );
   };
 
   const editableFields: (keyof TitheRecordB)[] = [
     "Membership Number",
     "Transaction Date ('DD-MMM-YYYY')",
+    "Currency",
+    "Exchange Rate",
+    "Payment Method",
     "Transaction Amount",
     "Narration/Description",
   ];
+  // References only apply to mobile money and bank payments
+  if (hasPaymentReference(record["Payment Method"])) {
+    editableFields.push("Payment Reference");
+  }
 
   // Detect row status from record data
   const membershipNumber = String(record["Membership Number"] || "");
@@ -218,7 +267,7 @@ export const TitheRecordRow: React.FC<TitheRecordRowProps> = ({
             editableFields.includes(key) && startEditing(record["No."], key)
           }
         >
-          {renderCellContent(key, record[key])}
+          {renderCellContent(key, record[key] ?? "")}
         </td>
       ))}
       <td className="p-2 align-middle text-xs">
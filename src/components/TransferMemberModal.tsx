@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from "react";
+import Modal from "./Modal";
+import Button from "./Button";
+import { ArrowRightLeft } from "lucide-react";
+import { MemberRecordA } from "@/types";
+import { TransferDetails } from "@/services/memberTransfer";
+
+interface TransferMemberModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    member: MemberRecordA | null;
+    assemblyName: string;
+    assemblies: string[];
+    /** Rejects with the reason when the transfer is not possible */
+    onTransfer: (toAssembly: string, details: TransferDetails) => Promise<void>;
+}
+
+const COMMON_REASONS = ["Relocation", "Marriage", "Work or school", "Closer to home", "Returning member"];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const TransferMemberModal: React.FC<TransferMemberModalProps> = ({
+    isOpen,
+    onClose,
+    member,
+    assemblyName,
+    assemblies,
+    onTransfer,
+}) => {
+    const [toAssembly, setToAssembly] = useState("");
+    const [transferDate, setTransferDate] = useState(today);
+    const [reason, setReason] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setToAssembly("");
+            setTransferDate(today());
+            setReason("");
+            setError(null);
+        }
+    }, [isOpen, member]);
+
+    const targets = assemblies.filter((a) => a !== assemblyName);
+    const history = member?.transferHistory || [];
+
+    const handleTransfer = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onTransfer(toAssembly, { transferDate, reason });
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Transfer failed");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Transfer Member"
+            size="md"
+            footerContent={
+                <>
+                    <Button variant="ghost" onClick={onClose} disabled={isSaving}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="primary"
+                        leftIcon={<ArrowRightLeft size={16} />}
+                        onClick={handleTransfer}
+                        disabled={!toAssembly || !transferDate || isSaving}
+                    >
+                        {isSaving ? "Transferring..." : "Transfer"}
+                    </Button>
+                </>
+            }
+        >
+            {member && (
+                <div className="space-y-4">
+                    <div className="p-3 rounded-lg bg-[var(--bg-elevated)] border border-[var(--border-color)]">
+                        <p className="font-medium text-[var(--text-primary)]">
+                            {member["First Name"]} {member.Surname}
+                        </p>
+                        <p className="text-sm text-[var(--text-muted)]">
+                            {member["Membership Number"] || member["Old Membership Number"]} · currently in {assemblyName}
+                        </p>
+                    </div>
+
+                    <div>
+                        <label htmlFor="transfer-assembly" className="form-label">Transfer to</label>
+                        <select
+                            id="transfer-assembly"
+                            value={toAssembly}
+                            onChange={(e) => setToAssembly(e.target.value)}
+                            className="form-input-light w-full"
+                        >
+                            <option value="">Choose an assembly...</option>
+                            {targets.map((a) => (
+                                <option key={a} value={a}>
+                                    {a}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label htmlFor="transfer-date" className="form-label">Transfer date</label>
+                        <input
+                            id="transfer-date"
+                            type="date"
+                            value={transferDate}
+                            onChange={(e) => setTransferDate(e.target.value)}
+                            className="form-input-light w-full"
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="transfer-reason" className="form-label">Reason</label>
+                        <input
+                            id="transfer-reason"
+                            type="text"
+                            list="transfer-reasons"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            placeholder="e.g. Relocation"
+                            className="form-input-light w-full"
+                        />
+                        <datalist id="transfer-reasons">
+                            {COMMON_REASONS.map((r) => (
+                                <option key={r} value={r} />
+                            ))}
+                        </datalist>
+                    </div>
+
+                    <p className="text-xs text-[var(--text-muted)]">
+                        Their tithe book position and first-seen date are kept. Tithes before the
+                        transfer date still count towards {assemblyName} in analytics.
+                    </p>
+
+                    {history.length > 0 && (
+                        <div>
+                            <p className="text-sm font-medium text-[var(--text-secondary)] mb-1">Previous transfers</p>
+                            <ul className="text-sm text-[var(--text-muted)] space-y-1">
+                                {history.map((t) => (
+                                    <li key={`${t.transferDate}-${t.recordedAt}`}>
+                                        {t.transferDate}: {t.fromAssembly} → {t.toAssembly}
+                                        {t.reason ? ` (${t.reason})` : ""}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+export default TransferMemberModal;
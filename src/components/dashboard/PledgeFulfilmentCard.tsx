@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from "react";
+import { HandCoins } from "lucide-react";
+import { TransactionLogEntry } from "../../types";
+import { useDatabaseContext } from "../../context";
+import { allocatePledgePayments, summarizeCampaigns } from "../../services/pledgeLedger";
+import PledgeLedgerModal from "../PledgeLedgerModal";
+
+interface PledgeFulfilmentCardProps {
+    transactionLog: TransactionLogEntry[];
+}
+
+const PledgeFulfilmentCard: React.FC<PledgeFulfilmentCardProps> = ({ transactionLog }) => {
+    const { pledges } = useDatabaseContext();
+    const [isLedgerOpen, setIsLedgerOpen] = useState(false);
+
+    const campaigns = useMemo(
+        () => summarizeCampaigns(allocatePledgePayments(pledges, transactionLog)),
+        [pledges, transactionLog]
+    );
+
+    return (
+        <section className="content-card">
+            <div className="flex items-center justify-between">
+                <h2 className="section-heading">
+                    <HandCoins size={22} className="mr-3 icon-primary" />
+                    Pledge Fulfilment
+                </h2>
+                <button
+                    onClick={() => setIsLedgerOpen(true)}
+                    className="text-sm font-medium text-[var(--primary-accent-start)] hover:underline"
+                >
+                    Manage pledges
+                </button>
+            </div>
+
+            {campaigns.length > 0 ? (
+                <ul className="space-y-4">
+                    {campaigns.map((c) => {
+                        const percent = c.pledged > 0 ? Math.round((c.paid / c.pledged) * 100) : 0;
+                        return (
+                            <li key={c.campaign}>
+                                <div className="flex justify-between text-sm mb-1">
+                                    <span className="font-semibold text-[var(--text-primary)]">{c.campaign}</span>
+                                    <span className="text-[var(--text-secondary)]">
+                                        GHS {c.paid.toLocaleString()} of {c.pledged.toLocaleString()} ({percent}%)
+                                    </span>
+                                </div>
+                                <div className="h-2 rounded-full bg-[var(--bg-elevated)] overflow-hidden">
+                                    <div
+                                        className="h-full bg-gradient-to-r from-[var(--primary-accent-start)] to-[var(--primary-accent-end)]"
+                                        style={{ width: `${percent}%` }}
+                                    />
+                                </div>
+                                <p className="text-xs text-[var(--text-muted)] mt-1">
+                                    {c.fulfilledCount}/{c.pledgeCount} fulfilled
+                                    {c.overdueCount > 0 && ` · ${c.overdueCount} overdue`}
+                                </p>
+                            </li>
+                        );
+                    })}
+                </ul>
+            ) : (
+                <p className="text-sm text-[var(--text-secondary)]">
+                    No pledges recorded yet.
+                </p>
+            )}
+
+            <PledgeLedgerModal
+                isOpen={isLedgerOpen}
+                onClose={() => setIsLedgerOpen(false)}
+                transactionLog={transactionLog}
+            />
+        </section>
+    );
+};
+
+export default PledgeFulfilmentCard;
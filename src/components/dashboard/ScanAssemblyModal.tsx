@@ -10,6 +10,7 @@ import {
 import Modal from "@/components/Modal";
 import Button from "@/components/Button";
 import { useAppConfigContext } from "@/context";
+import { getScribesForAssembly } from "@/services/scribeProfiles";
 
 interface ScanAssemblyModalProps {
     isOpen: boolean;
@@ -20,6 +21,10 @@ interface ScanAssemblyModalProps {
     setScanMonth: (month: string) => void;
     scanWeek: string;
     setScanWeek: (week: string) => void;
+    scanYear: number;
+    setScanYear: (year: number) => void;
+    scanScribe: string;
+    setScanScribe: (scribeId: string) => void;
     assembliesWithData: Set<string>;
     onConfirm: () => void;
 }
@@ -39,7 +44,19 @@ const MONTHS = [
     "December",
 ];
 
-const WEEKS = ["Week 1", "Week 2", "Week 3", "Week 4", "Week 5"];
+/** Reads every week column of the month in one pass */
+export const ALL_WEEKS = "All weeks";
+
+const WEEKS = ["Week 1", "Week 2", "Week 3", "Week 4", "Week 5", ALL_WEEKS];
+
+/** This year, the two before it and the chosen year, newest first */
+const getScanYears = (selected: number): number[] => {
+    const year = new Date().getFullYear();
+    return [...new Set([year, year - 1, year - 2, selected])].sort((a, b) => b - a);
+};
+
+/** Works out who wrote the page from their handwriting after the scan */
+export const AUTO_DETECT_SCRIBE = "auto";
 
 const ScanAssemblyModal: React.FC<ScanAssemblyModalProps> = ({
     isOpen,
@@ -50,10 +67,18 @@ const ScanAssemblyModal: React.FC<ScanAssemblyModalProps> = ({
     setScanMonth,
     scanWeek,
     setScanWeek,
+    scanYear,
+    setScanYear,
+    scanScribe,
+    setScanScribe,
     assembliesWithData,
     onConfirm,
 }) => {
     const { assemblies } = useAppConfigContext();
+    const scribes = React.useMemo(
+        () => (isOpen && scanAssembly ? getScribesForAssembly(scanAssembly) : []),
+        [isOpen, scanAssembly]
+    );
     return (
         <Modal
             isOpen={isOpen}
@@ -139,6 +164,47 @@ const ScanAssemblyModal: React.FC<ScanAssemblyModalProps> = ({
                         </Select>
                     </div>
                 </div>
+
+                {scanWeek === ALL_WEEKS && (
+                    <div className="space-y-2">
+                        <label className="text-xs text-[var(--text-secondary)]">
+                            Year
+                        </label>
+                        <Select value={String(scanYear)} onValueChange={(value) => setScanYear(Number(value))}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Year" />
+                            </SelectTrigger>
+                            <SelectContent className="glassmorphism-bg border border-[var(--border-color)]">
+                                {getScanYears(scanYear).map((y) => (
+                                    <SelectItem key={y} value={String(y)}>
+                                        {y}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {scribes.length > 0 && (
+                    <div className="space-y-2">
+                        <label className="text-xs text-[var(--text-secondary)]">
+                            Written by
+                        </label>
+                        <Select value={scanScribe} onValueChange={setScanScribe}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Scribe" />
+                            </SelectTrigger>
+                            <SelectContent className="glassmorphism-bg border border-[var(--border-color)]">
+                                <SelectItem value={AUTO_DETECT_SCRIBE}>Detect from handwriting</SelectItem>
+                                {scribes.map((s) => (
+                                    <SelectItem key={s.id} value={s.id}>
+                                        {s.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
             </div>
         </Modal>
     );
@@ -13,6 +13,7 @@ import {
     MemberTithingPattern,
     AssemblyAnalytics
 } from '@/services/analyticsCalculator';
+import { formatTransactionType } from '@/lib/transactionTypes';
 
 interface TrendDashboardProps {
     transactionLog: TransactionLogEntry[];
@@ -227,6 +228,31 @@ const TrendDashboard: React.FC<TrendDashboardProps> = ({
                     </div>
                 </motion.div>
             )}
+
+            {/* Giving by Transaction Type (only when more than tithes are recorded) */}
+            {analytics && Object.keys(analytics.totalsByType).length > 1 && (
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-[var(--card-bg)] rounded-xl p-6 border border-[var(--border-color)]"
+                >
+                    <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-4">
+                        🧾 Giving by Type
+                    </h3>
+                    <div className="space-y-2">
+                        {Object.entries(analytics.totalsByType)
+                            .sort(([, a], [, b]) => b - a)
+                            .map(([type, total]) => (
+                                <div key={type} className="flex justify-between text-sm">
+                                    <span className="text-[var(--text-secondary)]">{formatTransactionType(type)}</span>
+                                    <span className="font-medium text-[var(--text-primary)]">
+                                        GHS {total.toLocaleString()}
+                                    </span>
+                                </div>
+                            ))}
+                    </div>
+                </motion.div>
+            )}
         </div>
     );
 };
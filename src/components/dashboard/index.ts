@@ -3,4 +3,5 @@ export { default as RecentActivityList } from "./RecentActivityList";
 export { default as WeeklyTrendChart } from "./WeeklyTrendChart";
 export { default as DashboardStatsGrid } from "./DashboardStatsGrid";
 export { default as QuickActionsGrid } from "./QuickActionsGrid";
-export { default as ScanAssemblyModal } from "./ScanAssemblyModal";
+export { default as ScanAssemblyModal, ALL_WEEKS, AUTO_DETECT_SCRIBE } from "./ScanAssemblyModal";
+export { default as PledgeFulfilmentCard } from "./PledgeFulfilmentCard";
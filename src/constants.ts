@@ -1,4 +1,4 @@
-import { ConcatenationConfig } from "./types";
+import { ConcatenationConfig, TransactionSettings, VisionProviderSettings } from "./types";
 
 export const DEFAULT_CONCAT_CONFIG: ConcatenationConfig = {
   Title: true,
@@ -8,6 +8,42 @@ export const DEFAULT_CONCAT_CONFIG: ConcatenationConfig = {
   "Membership Number": true,
 };
 
+// Transaction types and payment sources accepted by TACMS imports
+export const TRANSACTION_TYPES = [
+  "Individual Tithe-[Income]",
+  "Sunday Offering-[Income]",
+  "Welfare Dues-[Income]",
+  "Harvest Pledge-[Income]",
+  "Building Fund Pledge-[Income]",
+  "Thanksgiving Offering-[Income]",
+];
+
+// Transaction types that pay off pledges
+export const PLEDGE_TRANSACTION_TYPES = [
+  "Harvest Pledge-[Income]",
+  "Building Fund Pledge-[Income]",
+];
+
+export const PAYMENT_SOURCE_TYPES = ["Registered Member", "Non-Member", "Visitor"];
+
+// How a payment reached the church. Mobile money and bank transfers carry a reference.
+export const PAYMENT_METHODS = [
+  "Cash",
+  "MTN MoMo",
+  "Vodafone Cash",
+  "AirtelTigo Money",
+  "Bank Transfer",
+];
+
+export const MOBILE_MONEY_METHODS = ["MTN MoMo", "Vodafone Cash", "AirtelTigo Money"];
+
+export const DEFAULT_PAYMENT_METHOD = PAYMENT_METHODS[0];
+
+export const DEFAULT_TRANSACTION_SETTINGS: TransactionSettings = {
+  transactionType: TRANSACTION_TYPES[0],
+  paymentSourceType: PAYMENT_SOURCE_TYPES[0],
+};
+
 export const ASSEMBLIES = [
   "Maranatha",
   "Central",
@@ -31,6 +67,9 @@ export const FAVORITES_STORAGE_KEY = "tactmsFavorites";
 export const TRANSACTION_LOG_STORAGE_KEY = "tactmsTransactionLog";
 export const COLUMN_VISIBILITY_STORAGE_KEY = "tactmsColumnVisibility";
 export const MEMBER_DATABASE_STORAGE_KEY = "tactmsMemberDatabase";
+export const EXCHANGE_RATES_STORAGE_KEY = "tactmsExchangeRates";
+export const PLEDGES_STORAGE_KEY = "tactmsPledges";
+export const DISMISSED_DUPLICATES_STORAGE_KEY = "tactmsDismissedDuplicates";
 
 export const ACCEPTED_FILE_TYPES = ".xlsx,.xls";
 export const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
@@ -45,6 +84,12 @@ export const DRIVE_SCOPES = [
 ].join(" ");
 export const FAVORITES_DRIVE_FILENAME = "tactms.app.favorites.json";
 export const TRANSACTION_LOG_DRIVE_FILENAME = "tactms.app.transactions.json";
+export const SYNC_JOURNAL_DRIVE_FILENAME = "tactms.app.sync-journal.json";
+export const BACKUP_DRIVE_FILENAME = "tactms.app.backup.tactms";
+
+// Sync backend (SyncManager transports)
+export const SYNC_SERVER_URL = import.meta.env.VITE_SYNC_SERVER_URL;
+export const SYNC_CLIENT_ID_STORAGE_KEY = "tactmsSyncClientId";
 
 export const THEME_OPTIONS = [
   { name: "Default Purple", key: "purple", values: { h: 262, s: 83, l: 58 } },
@@ -61,6 +106,16 @@ export const THEME_OPTIONS = [
 /** Primary Gemini model for all AI operations (consistent across codebase) */
 export const GEMINI_MODEL_NAME = "gemini-2.5-flash";
 
+export const VISION_PROVIDER_STORAGE_KEY = "tactmsVisionProvider";
+
+/** Gemini by default; the OpenAI-compatible fields point at a local Ollama server */
+export const DEFAULT_VISION_PROVIDER_SETTINGS: VisionProviderSettings = {
+  provider: "gemini",
+  baseUrl: "http://localhost:11434/v1",
+  model: "llava",
+  apiKey: "",
+};
+
 /** Semantic cache expiry in milliseconds (default: 30 days) */
 export const SEMANTIC_CACHE_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
 
@@ -1,4 +1,11 @@
 import React, { createContext, useCallback, useContext, useState, useMemo, useEffect } from "react";
+import {
+    DEFAULT_VISION_PROVIDER_SETTINGS,
+    EXCHANGE_RATES_STORAGE_KEY,
+    VISION_PROVIDER_STORAGE_KEY,
+} from "@/constants";
+import { VisionProviderSettings } from "@/types";
+import { CurrencyCode, ExchangeRateTable, setExchangeRateInTable } from "@/lib/currency";
 
 // Storage key for persisting custom assemblies
 const CUSTOM_ASSEMBLIES_STORAGE_KEY = "tactmsCustomAssemblies";
@@ -31,6 +38,19 @@ export interface AppConfigContextValue {
     // Amount snapping - snaps extracted amounts to nearby common values (e.g., 59→60)
     enableAmountSnapping: boolean;
     setEnableAmountSnapping: (enabled: boolean) => void;
+
+    // Exchange rates per transaction date, used to convert foreign tithes to GHS
+    exchangeRates: ExchangeRateTable;
+    setExchangeRate: (dateKey: string, currency: CurrencyCode, rate: number) => void;
+    replaceExchangeRates: (table: ExchangeRateTable) => void;
+
+    // Vision model used for tithe book OCR
+    visionProvider: VisionProviderSettings;
+    setVisionProvider: (settings: VisionProviderSettings) => void;
+
+    // Clean up photos (perspective, deskew, shadows) before they are read
+    enableImagePreprocessing: boolean;
+    setEnableImagePreprocessing: (enabled: boolean) => void;
 }
 
 const AppConfigContext = createContext<AppConfigContextValue | null>(null);
@@ -60,6 +80,33 @@ export const AppConfigProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         return saved === "true";
     });
 
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(() => {
+        const saved = localStorage.getItem(EXCHANGE_RATES_STORAGE_KEY);
+        if (!saved) return {};
+        try {
+            return JSON.parse(saved);
+        } catch (e) {
+            console.error("Failed to parse exchange rates:", e);
+            return {};
+        }
+    });
+
+    const [visionProvider, setVisionProvider] = useState<VisionProviderSettings>(() => {
+        const saved = localStorage.getItem(VISION_PROVIDER_STORAGE_KEY);
+        if (!saved) return DEFAULT_VISION_PROVIDER_SETTINGS;
+        try {
+            return { ...DEFAULT_VISION_PROVIDER_SETTINGS, ...JSON.parse(saved) };
+        } catch (e) {
+            console.error("Failed to parse vision provider settings:", e);
+            return DEFAULT_VISION_PROVIDER_SETTINGS;
+        }
+    });
+
+    // Photo clean-up before OCR (defaults on)
+    const [enableImagePreprocessing, setEnableImagePreprocessing] = useState<boolean>(() => {
+        return localStorage.getItem("tactmsEnableImagePreprocessing") !== "false";
+    });
+
     // Persist custom assemblies to localStorage
     useEffect(() => {
         localStorage.setItem(CUSTOM_ASSEMBLIES_STORAGE_KEY, JSON.stringify(customAssemblies));
@@ -75,6 +122,21 @@ export const AppConfigProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         localStorage.setItem("tactmsEnableAmountSnapping", String(enableAmountSnapping));
     }, [enableAmountSnapping]);
 
+    // Persist exchange rate table
+    useEffect(() => {
+        localStorage.setItem(EXCHANGE_RATES_STORAGE_KEY, JSON.stringify(exchangeRates));
+    }, [exchangeRates]);
+
+    // Persist vision provider choice
+    useEffect(() => {
+        localStorage.setItem(VISION_PROVIDER_STORAGE_KEY, JSON.stringify(visionProvider));
+    }, [visionProvider]);
+
+    // Persist photo clean-up setting
+    useEffect(() => {
+        localStorage.setItem("tactmsEnableImagePreprocessing", String(enableImagePreprocessing));
+    }, [enableImagePreprocessing]);
+
     // Combine default + custom assemblies (unique, sorted)
     const assemblies = useMemo(() => {
         const combined = [...new Set([...DEFAULT_ASSEMBLIES, ...customAssemblies])];
@@ -111,6 +173,10 @@ export const AppConfigProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         [customAssemblies]
     );
 
+    const setExchangeRate = useCallback((dateKey: string, currency: CurrencyCode, rate: number) => {
+        setExchangeRates((prev) => setExchangeRateInTable(prev, dateKey, currency, rate));
+    }, []);
+
     const value = useMemo<AppConfigContextValue>(
         () => ({
             assemblies,
@@ -122,6 +188,13 @@ export const AppConfigProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             setFuzzyMatchThreshold,
             enableAmountSnapping,
             setEnableAmountSnapping,
+            exchangeRates,
+            setExchangeRate,
+            replaceExchangeRates: setExchangeRates,
+            visionProvider,
+            setVisionProvider,
+            enableImagePreprocessing,
+            setEnableImagePreprocessing,
         }),
         [
             assemblies,
@@ -131,6 +204,10 @@ export const AppConfigProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             isCustomAssembly,
             fuzzyMatchThreshold,
             enableAmountSnapping,
+            exchangeRates,
+            setExchangeRate,
+            visionProvider,
+            enableImagePreprocessing,
         ]
     );
 
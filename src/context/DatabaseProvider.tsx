@@ -1,13 +1,37 @@
-import React, { createContext, useCallback, useContext, useState, useMemo, useEffect } from "react";
-import { MemberDatabase, MemberRecordA, MembershipReconciliationReport } from "../types";
-import { MEMBER_DATABASE_STORAGE_KEY } from "../constants";
+import React, { createContext, useCallback, useContext, useState, useMemo, useEffect, useRef } from "react";
+import { MemberDatabase, MemberRecordA, MembershipReconciliationReport, Pledge } from "../types";
+import { PLEDGES_STORAGE_KEY } from "../constants";
 import { useNotificationContext } from "./NotificationProvider";
+import { syncManager } from "../services/SyncManager";
+import { createMemberUpdatePayload, MemberDeleteSyncPayload, MemberSyncPayload } from "../services/syncTransport";
+import { getMemberSyncId } from "../services/memberMerge";
+import {
+    importFromLocalStorage,
+    loadMemberDatabase,
+    persistMemberDatabaseChanges,
+} from "../services/memberDatabaseStore";
+import { transferMemberRecord, TransferDetails } from "../services/memberTransfer";
+import { transferMemberOrder } from "../services/memberOrderService";
+import {
+    getMemberListChanges,
+    recordMemberChanges,
+    ASSEMBLY_FIELD,
+    MemberChangeInput,
+    MemberChangeSource,
+} from "../services/memberHistory";
 
 export interface DatabaseContextValue {
     memberDatabase: MemberDatabase;
     setMemberDatabase: React.Dispatch<React.SetStateAction<MemberDatabase>>;
-    updateMember: (member: MemberRecordA, assemblyName: string) => void;
+    updateMember: (member: MemberRecordA, assemblyName: string, source?: MemberChangeSource) => void;
     deleteMember: (memberId: string | number, assemblyName: string) => void;
+    /** Rejects with the reason when the transfer is not possible */
+    transferMember: (
+        member: MemberRecordA,
+        fromAssembly: string,
+        toAssembly: string,
+        details: TransferDetails
+    ) => Promise<void>;
     deleteAssembly: (assemblyName: string) => void;
     resetAllData: () => void;
     resolveConflicts: (
@@ -17,6 +41,13 @@ export interface DatabaseContextValue {
     ) => void;
     getAssemblyMembers: (assemblyName: string) => MemberRecordA[];
     assembliesWithData: string[];
+    isLoaded: boolean; // True once the initial IndexedDB load has finished
+
+    // Pledge ledger (payments are derived from the transaction log)
+    pledges: Pledge[];
+    setPledges: React.Dispatch<React.SetStateAction<Pledge[]>>;
+    addPledge: (pledge: Pledge) => void;
+    removePledge: (pledgeId: string) => void;
 }
 
 const DatabaseContext = createContext<DatabaseContextValue | null>(null);
@@ -24,45 +55,110 @@ const DatabaseContext = createContext<DatabaseContextValue | null>(null);
 export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const { addToast } = useNotificationContext();
 
-    const [memberDatabase, setMemberDatabase] = useState<MemberDatabase>(() => {
-        const saved = localStorage.getItem(MEMBER_DATABASE_STORAGE_KEY);
-        if (!saved) return {};
+    const [memberDatabase, setMemberDatabase] = useState<MemberDatabase>({});
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    const [pledges, setPledges] = useState<Pledge[]>(() => {
+        const saved = localStorage.getItem(PLEDGES_STORAGE_KEY);
+        if (!saved) return [];
         try {
-            const parsed = JSON.parse(saved);
-            // Migration logic for old structure to new structure with metadata
-            Object.keys(parsed).forEach((key) => {
-                if (Array.isArray(parsed[key])) {
-                    // This detects the old format: MemberRecordA[]
-                    parsed[key] = {
-                        data: parsed[key],
-                        lastUpdated: new Date(0).getTime(),
-                        fileName: "Unknown (migrated data)",
-                    };
-                }
-            });
-            return parsed;
+            return JSON.parse(saved);
         } catch (e) {
-            console.error("Failed to parse member database from storage:", e);
-            return {};
+            console.error("Failed to parse pledges:", e);
+            return [];
         }
     });
 
-    // Persist to localStorage on change
+    // Last state written to IndexedDB; null until the initial load completes
+    const persistedRef = useRef<MemberDatabase | null>(null);
+    const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+    // Load from IndexedDB, importing any legacy localStorage data first
     useEffect(() => {
-        try {
-            localStorage.setItem(MEMBER_DATABASE_STORAGE_KEY, JSON.stringify(memberDatabase));
-        } catch (e) {
-            console.error("Failed to save member database:", e);
-            addToast("Storage quota exceeded. Some data may not be persisted locally.", "warning", 5000);
-        }
+        let cancelled = false;
+        (async () => {
+            try {
+                await importFromLocalStorage();
+                const loaded = await loadMemberDatabase();
+                if (cancelled) return;
+                persistedRef.current = loaded;
+                // Keep anything set while loading (persisted by the effect below)
+                setMemberDatabase((prev) => ({ ...loaded, ...prev }));
+            } catch (e) {
+                console.error("Failed to load member database:", e);
+                persistedRef.current = {};
+                addToast("Could not load the member database from local storage.", "error", 5000);
+            }
+            if (!cancelled) setIsLoaded(true);
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [addToast]);
+
+    // Persist changed assemblies/members to IndexedDB, one write at a time
+    useEffect(() => {
+        const prev = persistedRef.current;
+        if (!prev || prev === memberDatabase) return;
+        persistedRef.current = memberDatabase;
+
+        persistQueueRef.current = persistQueueRef.current
+            .then(() => persistMemberDatabaseChanges(prev, memberDatabase))
+            .catch((e) => {
+                console.error("Failed to save member database:", e);
+                addToast("Storage quota exceeded. Some data may not be persisted locally.", "warning", 5000);
+            });
     }, [memberDatabase, addToast]);
 
+    // Persist pledge ledger
+    useEffect(() => {
+        localStorage.setItem(PLEDGES_STORAGE_KEY, JSON.stringify(pledges));
+    }, [pledges]);
+
+    // Latest database for callbacks that need the pre-edit record
+    const memberDatabaseRef = useRef(memberDatabase);
+    memberDatabaseRef.current = memberDatabase;
+
+    // Apply members merged by SyncManager (auto-merge or resolved conflict)
+    useEffect(() => {
+        return syncManager.subscribeMemberMerges((assemblyName, merged) => {
+            const mergedId = getMemberSyncId(merged);
+            if (!mergedId) return;
+            const before = memberDatabaseRef.current[assemblyName]?.data.find((m) => getMemberSyncId(m) === mergedId);
+            if (before) {
+                recordMemberChanges([{ assemblyName, before, after: { ...before, ...merged }, source: "sync" }]).catch(
+                    (err) => console.error("Failed to record member history:", err)
+                );
+            }
+            setMemberDatabase((prev) => {
+                const assemblyData = prev[assemblyName]?.data;
+                if (!assemblyData) return prev;
+                return {
+                    ...prev,
+                    [assemblyName]: {
+                        ...prev[assemblyName],
+                        data: assemblyData.map((m) =>
+                            getMemberSyncId(m) === mergedId ? { ...m, ...merged, "No.": m["No."] } : m
+                        ),
+                        lastUpdated: Date.now(),
+                    },
+                };
+            });
+        });
+    }, []);
+
     const updateMember = useCallback(
-        (member: MemberRecordA, assemblyName: string) => {
+        (member: MemberRecordA, assemblyName: string, source: MemberChangeSource = "manual") => {
+            const base = memberDatabaseRef.current[assemblyName]?.data.find(
+                (m) => m["No."] === member["No."]
+            );
+            const payload = createMemberUpdatePayload(assemblyName, member, base);
+            const revised = payload.member;
+
             setMemberDatabase((prev) => {
                 const assemblyData = prev[assemblyName]?.data || [];
                 const updatedData = assemblyData.map((m) =>
-                    m["No."] === member["No."] ? member : m
+                    m["No."] === member["No."] ? revised : m
                 );
 
                 return {
@@ -77,6 +173,16 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
                     },
                 };
             });
+            // Queue for other devices even while offline or signed out:
+            // syncWithRetry holds the queue until a transport is set
+            if (base) {
+                syncManager.queueAction("UPDATE_MEMBER", payload).catch((err) =>
+                    console.error("Failed to queue member update:", err)
+                );
+            }
+            recordMemberChanges([{ assemblyName, before: base || null, after: revised, source }]).catch((err) =>
+                console.error("Failed to record member history:", err)
+            );
             addToast("Member updated successfully.", "success");
         },
         [addToast]
@@ -84,6 +190,19 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
 
     const deleteMember = useCallback(
         (memberId: string | number, assemblyName: string) => {
+            const member = memberDatabaseRef.current[assemblyName]?.data.find((m) => m["No."] === memberId);
+            if (member) {
+                const syncId = getMemberSyncId(member);
+                if (syncId) {
+                    const payload: MemberDeleteSyncPayload = { assemblyName, memberId: syncId };
+                    syncManager.queueAction("DELETE_MEMBER", payload).catch((err) =>
+                        console.error("Failed to queue member delete:", err)
+                    );
+                }
+                recordMemberChanges([{ assemblyName, before: member, after: null, source: "delete" }]).catch((err) =>
+                    console.error("Failed to record member history:", err)
+                );
+            }
             setMemberDatabase((prev) => {
                 const assemblyData = prev[assemblyName]?.data || [];
                 const updatedData = assemblyData.filter((m) => m["No."] !== memberId);
@@ -105,8 +224,59 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         [addToast]
     );
 
+    const transferMember = useCallback(
+        async (member: MemberRecordA, fromAssembly: string, toAssembly: string, details: TransferDetails) => {
+            const now = Date.now();
+            // Validate against the latest database first so the caller gets the error
+            const transferred = transferMemberRecord(memberDatabaseRef.current, member, fromAssembly, toAssembly, details, now);
+            setMemberDatabase((prev) =>
+                transferMemberRecord(prev, member, fromAssembly, toAssembly, details, now)
+            );
+
+            // Other devices drop the member from the old assembly and add the
+            // moved record to the new one. Queued one by one to keep the delete first.
+            const targetData = transferred[toAssembly.trim()]?.data || [];
+            const moved = targetData[targetData.length - 1];
+            const syncId = moved ? getMemberSyncId(moved) : "";
+            if (syncId) {
+                const deletePayload: MemberDeleteSyncPayload = { assemblyName: fromAssembly, memberId: syncId };
+                const addPayload: MemberSyncPayload = { assemblyName: toAssembly.trim(), member: moved };
+                await syncManager.queueAction("DELETE_MEMBER", deletePayload).catch((err) =>
+                    console.error("Failed to queue member transfer:", err)
+                );
+                await syncManager.queueAction("ADD_MEMBER", addPayload).catch((err) =>
+                    console.error("Failed to queue member transfer:", err)
+                );
+            }
+
+            // Keep the tithe book position and first-seen date in the order store
+            const memberId = member["Membership Number"] || member["Old Membership Number"];
+            const displayName = [member.Title, member["First Name"], member.Surname, member["Other Names"]]
+                .filter(Boolean)
+                .join(" ");
+            if (memberId) {
+                await transferMemberOrder(String(memberId), fromAssembly, toAssembly, displayName).catch((err) =>
+                    console.error("Failed to transfer member order:", err)
+                );
+            }
+            await recordMemberChanges([{
+                assemblyName: toAssembly,
+                before: member,
+                after: member,
+                source: "transfer",
+                changes: [{ field: ASSEMBLY_FIELD, oldValue: fromAssembly, newValue: toAssembly }],
+            }]).catch((err) => console.error("Failed to record member history:", err));
+            addToast(`${member["First Name"] || ""} ${member.Surname || ""} transferred to ${toAssembly}.`.trim(), "success");
+        },
+        [addToast]
+    );
+
     const deleteAssembly = useCallback(
         (assemblyName: string) => {
+            const members = memberDatabaseRef.current[assemblyName]?.data || [];
+            recordMemberChanges(getMemberListChanges(assemblyName, members, [], "delete")).catch((err) =>
+                console.error("Failed to record member history:", err)
+            );
             setMemberDatabase((prev) => {
                 const { [assemblyName]: _, ...rest } = prev;
                 return rest;
@@ -117,6 +287,10 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     );
 
     const resetAllData = useCallback(() => {
+        const history = Object.entries(memberDatabaseRef.current).flatMap(([assemblyName, list]) =>
+            getMemberListChanges(assemblyName, list.data, [], "delete")
+        );
+        recordMemberChanges(history).catch((err) => console.error("Failed to record member history:", err));
         setMemberDatabase({});
         addToast("All member data has been reset.", "success");
     }, [addToast]);
@@ -129,6 +303,33 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         ) => {
             const { conflicts, newMembers, changedMembers } = report;
 
+            const applied = [
+                ...changedMembers.map((c) => ({ before: c.oldRecord, newRecord: c.newRecord })),
+                ...(resolution === "use_new"
+                    ? conflicts.map((c) => ({ before: c.existingMember, newRecord: c.newRecord }))
+                    : []),
+            ];
+            const history: MemberChangeInput[] = [
+                ...applied.map(({ before, newRecord }) => ({
+                    assemblyName: assembly,
+                    before,
+                    after: {
+                        ...before,
+                        ...newRecord,
+                        firstSeenDate: before.firstSeenDate,
+                        firstSeenSource: before.firstSeenSource,
+                    },
+                    source: "reconciliation" as const,
+                })),
+                ...newMembers.map((member) => ({
+                    assemblyName: assembly,
+                    before: null,
+                    after: member,
+                    source: "reconciliation" as const,
+                })),
+            ];
+            recordMemberChanges(history).catch((err) => console.error("Failed to record member history:", err));
+
             setMemberDatabase((prev) => {
                 const prevAssemblyData = prev[assembly]?.data || [];
                 let updatedData = [...prevAssemblyData];
@@ -210,6 +411,14 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         [memberDatabase]
     );
 
+    const addPledge = useCallback((pledge: Pledge) => {
+        setPledges((prev) => [...prev, pledge]);
+    }, []);
+
+    const removePledge = useCallback((pledgeId: string) => {
+        setPledges((prev) => prev.filter((p) => p.id !== pledgeId));
+    }, []);
+
     const assembliesWithData = useMemo(
         () =>
             Object.keys(memberDatabase).filter(
@@ -224,21 +433,32 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
             setMemberDatabase,
             updateMember,
             deleteMember,
+            transferMember,
             deleteAssembly,
             resetAllData,
             resolveConflicts,
             getAssemblyMembers,
             assembliesWithData,
+            isLoaded,
+            pledges,
+            setPledges,
+            addPledge,
+            removePledge,
         }),
         [
             memberDatabase,
             updateMember,
             deleteMember,
+            transferMember,
             deleteAssembly,
             resetAllData,
             resolveConflicts,
             getAssemblyMembers,
             assembliesWithData,
+            isLoaded,
+            pledges,
+            addPledge,
+            removePledge,
         ]
     );
 
@@ -1,4 +1,5 @@
 import React, { createContext, useCallback, useContext, useMemo, useState } from "react";
+import type { MemberRecordA } from "../types";
 
 // Define modal keys and their payload shapes (loosely typed initially to avoid regressions)
 export type ModalKey =
@@ -19,7 +20,11 @@ export type ModalKey =
   | "addAssembly"
   | "memberReorder"
   | "reorderFromImage"
-  | "orderHistory";
+  | "orderHistory"
+  | "nameAliases"
+  | "transferMember"
+  | "memberDuplicates"
+  | "statementImport";
 
 export type ModalPayloads = {
   fullPreview?: undefined;
@@ -40,6 +45,10 @@ export type ModalPayloads = {
   memberReorder?: undefined;
   reorderFromImage?: undefined;
   orderHistory?: undefined;
+  nameAliases?: undefined;
+  transferMember?: { member: MemberRecordA } | undefined;
+  memberDuplicates?: undefined;
+  statementImport?: undefined;
 };
 
 export type ModalState = {
@@ -76,6 +85,10 @@ export const ModalProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     memberReorder: { isOpen: false },
     reorderFromImage: { isOpen: false },
     orderHistory: { isOpen: false },
+    nameAliases: { isOpen: false },
+    transferMember: { isOpen: false },
+    memberDuplicates: { isOpen: false },
+    statementImport: { isOpen: false },
   });
 
   const openModal = useCallback<ModalContextValue["openModal"]>((key, payload) => {
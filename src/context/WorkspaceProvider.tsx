@@ -4,14 +4,17 @@ import {
     TitheRecordB,
     ConcatenationConfig,
     AutoSaveDraft,
+    TransactionSettings,
 } from "../types";
 import {
     DEFAULT_CONCAT_CONFIG,
     AUTO_SAVE_KEY,
     AUTO_SAVE_DEBOUNCE_TIME,
     DEFAULT_CONCAT_CONFIG_STORAGE_KEY,
+    DEFAULT_TRANSACTION_SETTINGS,
 } from "../constants";
 import { useNotificationContext } from "./NotificationProvider";
+import { stripCellCrops } from "@/services/imageProcessor/cellCrops";
 
 export interface WorkspaceState {
     uploadedFile: File | null;
@@ -29,6 +32,7 @@ export interface WorkspaceState {
     soulsWonCount: number | null;
     concatenationConfig: ConcatenationConfig;
     amountMappingColumn: string | null;
+    transactionSettings: TransactionSettings;
 }
 
 export interface WorkspaceActions {
@@ -47,6 +51,7 @@ export interface WorkspaceActions {
     setSoulsWonCount: React.Dispatch<React.SetStateAction<number | null>>;
     setConcatenationConfig: React.Dispatch<React.SetStateAction<ConcatenationConfig>>;
     setAmountMappingColumn: (value: string | null) => void;
+    setTransactionSettings: (settings: TransactionSettings) => void;
     clearWorkspace: () => void;
     clearAutoSaveDraft: () => void;
 }
@@ -90,6 +95,9 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     // Amount mapping
     const [amountMappingColumn, setAmountMappingColumn] = useState<string | null>(null);
 
+    // Transaction Type / Payment Source Type for the current list
+    const [transactionSettings, setTransactionSettings] = useState<TransactionSettings>(DEFAULT_TRANSACTION_SETTINGS);
+
     // Auto-save references
     const autoSaveTimerRef = useRef<number | null>(null);
     const draftDataRef = useRef({
@@ -102,6 +110,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         ageRangeMax,
         fileNameToSave,
         amountMappingColumn,
+        transactionSettings,
         uploadedFile,
         originalData,
         processedDataA,
@@ -120,6 +129,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             ageRangeMax,
             fileNameToSave,
             amountMappingColumn,
+            transactionSettings,
             uploadedFile,
             originalData,
             processedDataA,
@@ -135,6 +145,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         ageRangeMax,
         fileNameToSave,
         amountMappingColumn,
+        transactionSettings,
         uploadedFile,
         originalData,
         processedDataA,
@@ -170,6 +181,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             return savedConfig ? JSON.parse(savedConfig) : DEFAULT_CONCAT_CONFIG;
         });
         setAmountMappingColumn(null);
+        setTransactionSettings(DEFAULT_TRANSACTION_SETTINGS);
         clearAutoSaveDraft();
     }, [clearAutoSaveDraft]);
 
@@ -190,6 +202,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                 ageRangeMax,
                 fileNameToSave,
                 amountMappingColumn,
+                transactionSettings,
                 uploadedFile,
                 originalData,
                 processedDataA,
@@ -200,7 +213,8 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
             const draft: AutoSaveDraft = {
                 timestamp: Date.now(),
-                titheListData,
+                // Cell crops are JPEG data URLs and would soon fill localStorage
+                titheListData: stripCellCrops(titheListData),
                 selectedDate: selectedDate.toISOString(),
                 descriptionText,
                 concatenationConfig,
@@ -208,6 +222,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                 ageRangeMax,
                 fileNameToSave,
                 amountMappingColumn,
+                transactionSettings,
                 uploadedFileName: uploadedFile?.name,
                 originalDataRecordCount: originalData.length,
                 processedDataARecordCount: processedDataA.length,
@@ -256,6 +271,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             soulsWonCount,
             concatenationConfig,
             amountMappingColumn,
+            transactionSettings,
             // Actions
             setUploadedFile,
             setOriginalData,
@@ -272,6 +288,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             setSoulsWonCount,
             setConcatenationConfig,
             setAmountMappingColumn,
+            setTransactionSettings,
             clearWorkspace,
             clearAutoSaveDraft,
         }),
@@ -291,6 +308,7 @@ export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             soulsWonCount,
             concatenationConfig,
             amountMappingColumn,
+            transactionSettings,
             clearWorkspace,
             clearAutoSaveDraft,
         ]
@@ -7,7 +7,7 @@
  * Handlers are organized by domain:
  * - titheProcessing: Age filters, date/description changes
  * - download: Excel export with transaction logging
- * - members: Add/delete members and assemblies
+ * - members: Add/delete/merge members and assemblies
  * - favorites: Save/load favorites
  * - save: Preview save operations
  */
@@ -18,19 +18,38 @@ import type {
     TitheRecordB,
     FavoriteConfig,
     ConcatenationConfig,
-    TransactionLogEntry
+    TransactionLogEntry,
+    TransactionSettings
 } from "@/types";
 import { useWorkspaceContext, useDatabaseContext, useToast, useAppConfigContext } from "@/context";
 import { createTitheList, filterMembersByAge } from "@/services/excelProcessor";
 import { exportToExcel } from "@/lib/excelUtils";
 import { formatDateDDMMMYYYY, getMostRecentSunday } from "@/lib/dataTransforms";
+import { sumAmountsInGHS } from "@/lib/currency";
+import { applyTransactionSettings, getTransactionSettings } from "@/lib/transactionTypes";
 import { analyticsService } from "@/services/AnalyticsService";
+import { stripCellCrops } from "@/services/imageProcessor/cellCrops";
+import { buildTransactionLogEntry, upsertTransactionLogEntries } from "@/services/titheList";
 import {
     initializeOrder,
     getOrderedMembers,
     applyNewOrder,
     syncWithMasterList,
+    mergeMemberOrderEntries,
 } from "@/services/memberOrderService";
+import { reassignMemberAliases } from "@/services/nameAliases";
+import { getMemberHistoryKey, recordMemberChanges } from "@/services/memberHistory";
+import { syncManager } from "@/services/SyncManager";
+import { createMemberUpdatePayload } from "@/services/syncTransport";
+import {
+    applyMemberMerge,
+    buildMergedMember,
+    getMergeSyncActions,
+    getMergedAwayIds,
+    rewritePledgeReferences,
+    rewriteTransactionLogReferences,
+    MemberMergePlan,
+} from "@/services/memberDuplicates";
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // TYPE DEFINITIONS
@@ -51,6 +70,7 @@ export interface TitheProcessingHandlers {
     handleDescriptionChange: (newDescription: string) => void;
     handleDateChange: (newDate: Date) => void;
     handleConcatenationConfigChange: (key: keyof ConcatenationConfig) => void;
+    handleTransactionSettingsChange: (settings: TransactionSettings) => void;
 }
 
 export interface DownloadHandlers {
@@ -62,6 +82,8 @@ export interface MemberHandlers {
     handleAddExistingMemberToList: (member: MemberRecordA) => void;
     handleCreateTitheListFromDB: (members: MemberRecordA[], assembly: string) => void;
     handleDeleteAssembly: (assemblyName: string) => void;
+    /** Rejects with the reason when a record in the plan has changed */
+    handleMergeMembers: (plan: MemberMergePlan) => Promise<void>;
     startNewWeek: (assemblyName: string) => Promise<void>;
 }
 
@@ -128,11 +150,13 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
         setConcatenationConfig,
         amountMappingColumn,
         setAmountMappingColumn,
+        transactionSettings,
+        setTransactionSettings,
         clearWorkspace,
     } = useWorkspaceContext();
 
     // Database context
-    const { memberDatabase, setMemberDatabase } = useDatabaseContext();
+    const { memberDatabase, setMemberDatabase, setPledges, deleteAssembly, resetAllData } = useDatabaseContext();
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // TITHE PROCESSING HANDLERS
@@ -152,11 +176,11 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
         setProcessedDataA(filtered);
         setIsAgeFilterActive(true);
         setTitheListData(
-            createTitheList(filtered, concatenationConfig, selectedDate, descriptionText, amountMappingColumn)
+            createTitheList(filtered, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, transactionSettings)
         );
         addToast(`Age filter applied. ${filtered.length} records match.`, "info");
         setHasUnsavedChanges(true);
-    }, [ageRangeMin, ageRangeMax, originalData, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, addToast, setInputErrors, setProcessedDataA, setIsAgeFilterActive, setTitheListData, setHasUnsavedChanges]);
+    }, [ageRangeMin, ageRangeMax, originalData, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, transactionSettings, addToast, setInputErrors, setProcessedDataA, setIsAgeFilterActive, setTitheListData, setHasUnsavedChanges]);
 
     const handleRemoveAgeFilter = useCallback(() => {
         setAgeRangeMin("");
@@ -165,21 +189,21 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
         setProcessedDataA(originalData);
         setIsAgeFilterActive(false);
         setTitheListData(
-            createTitheList(originalData, concatenationConfig, selectedDate, descriptionText, amountMappingColumn)
+            createTitheList(originalData, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, transactionSettings)
         );
         addToast("Age filter removed.", "info");
         setHasUnsavedChanges(true);
-    }, [originalData, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, addToast, setAgeRangeMin, setAgeRangeMax, setInputErrors, setProcessedDataA, setIsAgeFilterActive, setTitheListData, setHasUnsavedChanges]);
+    }, [originalData, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, transactionSettings, addToast, setAgeRangeMin, setAgeRangeMax, setInputErrors, setProcessedDataA, setIsAgeFilterActive, setTitheListData, setHasUnsavedChanges]);
 
     const handleDescriptionChange = useCallback((newDescription: string) => {
         setDescriptionText(newDescription);
         if (originalData.length > 0) {
             setTitheListData(
-                createTitheList(processedDataA, concatenationConfig, selectedDate, newDescription, amountMappingColumn)
+                createTitheList(processedDataA, concatenationConfig, selectedDate, newDescription, amountMappingColumn, transactionSettings)
             );
             setHasUnsavedChanges(true);
         }
-    }, [originalData.length, processedDataA, concatenationConfig, selectedDate, amountMappingColumn, setDescriptionText, setTitheListData, setHasUnsavedChanges]);
+    }, [originalData.length, processedDataA, concatenationConfig, selectedDate, amountMappingColumn, transactionSettings, setDescriptionText, setTitheListData, setHasUnsavedChanges]);
 
     const handleDateChange = useCallback((newDate: Date) => {
         setSelectedDate(newDate);
@@ -193,11 +217,11 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
 
         if (originalData.length > 0) {
             setTitheListData(
-                createTitheList(processedDataA, concatenationConfig, newDate, newDescription, amountMappingColumn)
+                createTitheList(processedDataA, concatenationConfig, newDate, newDescription, amountMappingColumn, transactionSettings)
             );
             setHasUnsavedChanges(true);
         }
-    }, [currentAssembly, originalData.length, processedDataA, concatenationConfig, amountMappingColumn, setSelectedDate, setDescriptionText, setFileNameToSave, setTitheListData, setHasUnsavedChanges]);
+    }, [currentAssembly, originalData.length, processedDataA, concatenationConfig, amountMappingColumn, transactionSettings, setSelectedDate, setDescriptionText, setFileNameToSave, setTitheListData, setHasUnsavedChanges]);
 
     const handleConcatenationConfigChange = useCallback((key: keyof ConcatenationConfig) => {
         setConcatenationConfig((prev) => {
@@ -205,13 +229,21 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
             localStorage.setItem("DEFAULT_CONCAT_CONFIG", JSON.stringify(newConfig));
             if (originalData.length > 0) {
                 setTitheListData(
-                    createTitheList(processedDataA, newConfig, selectedDate, descriptionText, amountMappingColumn)
+                    createTitheList(processedDataA, newConfig, selectedDate, descriptionText, amountMappingColumn, transactionSettings)
                 );
                 setHasUnsavedChanges(true);
             }
             return newConfig;
         });
-    }, [originalData.length, processedDataA, selectedDate, descriptionText, amountMappingColumn, setConcatenationConfig, setTitheListData, setHasUnsavedChanges]);
+    }, [originalData.length, processedDataA, selectedDate, descriptionText, amountMappingColumn, transactionSettings, setConcatenationConfig, setTitheListData, setHasUnsavedChanges]);
+
+    const handleTransactionSettingsChange = useCallback((settings: TransactionSettings) => {
+        setTransactionSettings(settings);
+        if (titheListData.length > 0) {
+            setTitheListData((prev) => applyTransactionSettings(prev, settings));
+            setHasUnsavedChanges(true);
+        }
+    }, [titheListData.length, setTransactionSettings, setTitheListData, setHasUnsavedChanges]);
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // SAVE HANDLERS
@@ -280,7 +312,8 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
                 return !isNaN(amount) && amount > 0;
             })
             .map((record, index) => {
-                const { Confidence: _c, memberDetails, ...rest } = record;
+                // Payment Reference is kept in the log for reconciliation but is not a TACMS column
+                const { Confidence: _c, memberDetails, "Payment Reference": _ref, cellCrops: _crops, ...rest } = record;
 
                 let membershipNumber = record["Membership Number"];
                 if (memberDetails) {
@@ -320,41 +353,21 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
 
         // Log the transaction
         if (currentAssembly && titheListData.length > 0) {
-            const logTithersCount = titheListData.filter(
-                (r) => !isNaN(Number(r["Transaction Amount"])) && Number(r["Transaction Amount"]) > 0
-            ).length;
-            const logTotalAmount = titheListData.reduce((sum, r) => {
-                const amt = Number(r["Transaction Amount"]);
-                return !isNaN(amt) && amt > 0 ? sum + amt : sum;
-            }, 0);
-
-            const newLogEntry: TransactionLogEntry = {
-                id: `${currentAssembly}-${formatDateDDMMMYYYY(selectedDate)}`,
+            const newLogEntry = buildTransactionLogEntry({
                 assemblyName: currentAssembly,
-                timestamp: Date.now(),
-                selectedDate: formatDateDDMMMYYYY(selectedDate),
-                totalTitheAmount: logTotalAmount,
-                soulsWonCount: soulsWonCount ?? 0,
-                titherCount: logTithersCount,
-                recordCount: titheListData.length,
+                date: selectedDate,
                 titheListData,
+                soulsWonCount,
                 concatenationConfig,
                 descriptionText,
                 amountMappingColumn,
-            };
-
-            setTransactionLog((prevLog) => {
-                const existingIndex = prevLog.findIndex((log) => log.id === newLogEntry.id);
-                if (existingIndex > -1) {
-                    const updatedLog = [...prevLog];
-                    updatedLog[existingIndex] = newLogEntry;
-                    return updatedLog;
-                }
-                return [...prevLog, newLogEntry];
+                transactionSettings,
             });
+
+            setTransactionLog((prevLog) => upsertTransactionLogEntries(prevLog, [newLogEntry]));
             addToast("Transaction has been logged for reporting.", "info");
         }
-    }, [fileNameToSave, titheListData, currentAssembly, selectedDate, soulsWonCount, setTransactionLog, addToast, concatenationConfig, descriptionText, amountMappingColumn, setInputErrors]);
+    }, [fileNameToSave, titheListData, currentAssembly, selectedDate, soulsWonCount, setTransactionLog, addToast, concatenationConfig, descriptionText, amountMappingColumn, transactionSettings, setInputErrors]);
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // MEMBER HANDLERS
@@ -363,21 +376,77 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
     const handleDeleteAssembly = useCallback((assemblyName: string) => {
         if (assemblyName === "ALL MEMBERS") {
             if (window.confirm("Are you sure you want to reset the entire database? This action cannot be undone.")) {
-                setMemberDatabase({});
-                addToast("All member data has been reset.", "success");
+                resetAllData();
             }
         } else {
             if (window.confirm(`Are you sure you want to delete the data for ${assemblyName}?`)) {
-                setMemberDatabase((prev) => {
-                    const newState = { ...prev };
-                    delete newState[assemblyName];
-                    return newState;
-                });
-                addToast(`Data for ${assemblyName} has been deleted.`, "success");
+                deleteAssembly(assemblyName);
                 removeAssembly(assemblyName);
             }
         }
-    }, [setMemberDatabase, addToast, removeAssembly]);
+    }, [resetAllData, deleteAssembly, removeAssembly]);
+
+    const handleMergeMembers = useCallback(async (plan: MemberMergePlan) => {
+        const now = Date.now();
+        const update = createMemberUpdatePayload(plan.survivor.assemblyName, buildMergedMember(plan), plan.survivor.member);
+        const merged = update.member;
+        // Validate against the current database first so the caller gets the error
+        applyMemberMerge(memberDatabase, plan, now, merged);
+
+        // Tithe book positions and aliases move first: if either fails the
+        // records stay unmerged and the merge can simply be tried again
+        const mergedAwayIds = getMergedAwayIds(plan);
+        const survivorId = merged["Membership Number"] || merged["Old Membership Number"];
+        if (survivorId) {
+            const displayName = [merged.Title, merged["First Name"], merged.Surname, merged["Other Names"]]
+                .filter(Boolean)
+                .join(" ");
+            const duplicates = plan.duplicates.flatMap(({ assemblyName, member }) => {
+                const memberId = member["Membership Number"] || member["Old Membership Number"];
+                return memberId ? [{ memberId: String(memberId), assemblyName }] : [];
+            });
+            try {
+                await mergeMemberOrderEntries(
+                    { memberId: String(survivorId), assemblyName: plan.survivor.assemblyName, displayName },
+                    duplicates
+                );
+            } catch (err) {
+                console.error("Failed to merge member order:", err);
+                throw new Error("Could not move the tithe book positions, so the records were not merged. Please try again.");
+            }
+        }
+        try {
+            await reassignMemberAliases(mergedAwayIds, merged);
+        } catch (err) {
+            console.error("Failed to reassign aliases:", err);
+            throw new Error("Could not move the learned name aliases, so the records were not merged. Please try again.");
+        }
+
+        setMemberDatabase((prev) => applyMemberMerge(prev, plan, now, merged));
+        setTransactionLog((prev) => rewriteTransactionLogReferences(prev, mergedAwayIds, merged).log);
+        setPledges((prev) => rewritePledgeReferences(prev, mergedAwayIds, merged));
+
+        // Other devices must drop the merged-away records too, or the next
+        // sync brings them back. Queued one by one to keep deletes first.
+        for (const action of getMergeSyncActions(plan, update)) {
+            await syncManager.queueAction(action.type, action.payload).catch((err) =>
+                console.error("Failed to queue merge for sync:", err)
+            );
+        }
+        // The records merged away end their history with a removal, unless
+        // they share the survivor's history
+        const survivorKey = getMemberHistoryKey(merged, plan.survivor.assemblyName);
+        await recordMemberChanges([
+            { assemblyName: plan.survivor.assemblyName, before: plan.survivor.member, after: merged, source: "merge" },
+            ...plan.duplicates
+                .filter(({ assemblyName, member }) => getMemberHistoryKey(member, assemblyName) !== survivorKey)
+                .map(({ assemblyName, member }) => ({ assemblyName, before: member, after: null, source: "merge" as const })),
+        ]).catch((err) => console.error("Failed to record member history:", err));
+
+        const count = plan.duplicates.length;
+        const name = `${merged["First Name"] || ""} ${merged.Surname || ""}`.trim();
+        addToast(`Merged ${count} duplicate record${count === 1 ? "" : "s"} into ${name}.`, "success");
+    }, [memberDatabase, setMemberDatabase, setTransactionLog, setPledges, addToast]);
 
     const handleAddNewMemberToList = useCallback((newMember: MemberRecordA) => {
         if (!currentAssembly) return;
@@ -405,24 +474,27 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
         syncWithMasterList(updatedData, currentAssembly).catch((err) =>
             console.error("Failed to sync new member:", err)
         );
+        recordMemberChanges([{ assemblyName: currentAssembly, before: null, after: enrichedMember, source: "manual" }]).catch(
+            (err) => console.error("Failed to record member history:", err)
+        );
 
         const newTitheRecord = createTitheList(
-            [enrichedMember], concatenationConfig, selectedDate, descriptionText || `Tithe for ${formatDateDDMMMYYYY(selectedDate)}`, null
+            [enrichedMember], concatenationConfig, selectedDate, descriptionText || `Tithe for ${formatDateDDMMMYYYY(selectedDate)}`, null, transactionSettings
         )[0];
 
         setTitheListData((prev) => [...prev, newTitheRecord]);
         setSoulsWonCount((prev) => (prev || 0) + 1);
         addToast(`Added new member: ${newMember["First Name"]} ${newMember.Surname}`, "success");
-    }, [currentAssembly, memberDatabase, concatenationConfig, selectedDate, descriptionText, setMemberDatabase, setTitheListData, setSoulsWonCount, addToast]);
+    }, [currentAssembly, memberDatabase, concatenationConfig, selectedDate, descriptionText, transactionSettings, setMemberDatabase, setTitheListData, setSoulsWonCount, addToast]);
 
     const handleAddExistingMemberToList = useCallback((member: MemberRecordA) => {
         // Use the workspace's selected date, not today's date
         const newTitheRecord = createTitheList(
-            [member], concatenationConfig, selectedDate, descriptionText || `Tithe for ${formatDateDDMMMYYYY(selectedDate)}`, null
+            [member], concatenationConfig, selectedDate, descriptionText || `Tithe for ${formatDateDDMMMYYYY(selectedDate)}`, null, transactionSettings
         )[0];
         setTitheListData((prev) => [...prev, newTitheRecord]);
         addToast(`Added existing member: ${member["First Name"]} ${member.Surname}`, "success");
-    }, [concatenationConfig, selectedDate, descriptionText, setTitheListData, addToast]);
+    }, [concatenationConfig, selectedDate, descriptionText, transactionSettings, setTitheListData, addToast]);
 
     const handleCreateTitheListFromDB = useCallback((members: MemberRecordA[], assembly: string) => {
         clearWorkspace();
@@ -513,10 +585,7 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
             return;
         }
 
-        const totalTitheAmount = titheListData.reduce((sum, r) => {
-            const amt = Number(r["Transaction Amount"]);
-            return !isNaN(amt) && amt > 0 ? sum + amt : sum;
-        }, 0);
+        const totalTitheAmount = sumAmountsInGHS(titheListData);
 
         const newFavorite: FavoriteConfig = {
             id: `${Date.now()}`,
@@ -530,9 +599,10 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
             selectedDate: formatDateDDMMMYYYY(selectedDate),
             descriptionText,
             amountMappingColumn,
+            transactionSettings,
             originalData: originalData.length > 0 ? originalData : undefined,
             processedDataA,
-            titheListData,
+            titheListData: stripCellCrops(titheListData),
             soulsWonCount: soulsWonCount ?? 0,
             processedRecordsCount: processedDataA.length,
             totalTitheAmount,
@@ -540,7 +610,7 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
 
         setFavorites((prev) => [newFavorite, ...prev.filter((f) => f.name !== newFavorite.name)]);
         addToast("Saved to favorites!", "success");
-    }, [currentAssembly, uploadedFile, ageRangeMin, ageRangeMax, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, originalData, processedDataA, titheListData, soulsWonCount, setFavorites, addToast]);
+    }, [currentAssembly, uploadedFile, ageRangeMin, ageRangeMax, concatenationConfig, selectedDate, descriptionText, amountMappingColumn, transactionSettings, originalData, processedDataA, titheListData, soulsWonCount, setFavorites, addToast]);
 
     const loadFavorite = useCallback((favId: string) => {
         const fav = favorites.find((f) => f.id === favId);
@@ -561,6 +631,7 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
         setSelectedDate(getMostRecentSunday(new Date(fav.selectedDate)));
         setDescriptionText(fav.descriptionText);
         setAmountMappingColumn(fav.amountMappingColumn || null);
+        setTransactionSettings(getTransactionSettings(fav.titheListData || [], fav.transactionSettings));
 
         const formattedDate = formatDateDDMMMYYYY(getMostRecentSunday(new Date(fav.selectedDate)));
         setFileNameToSave(`${fav.assemblyName}-TitheList-${formattedDate}`);
@@ -571,7 +642,7 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
 
         addToast(`Loaded favorite: "${fav.name}"`, "success");
         navigate("/processor");
-    }, [favorites, addToast, clearWorkspace, clearAutoSaveDraft, navigate, setOriginalData, setProcessedDataA, setTitheListData, setAgeRangeMin, setAgeRangeMax, setIsAgeFilterActive, setConcatenationConfig, setSelectedDate, setDescriptionText, setAmountMappingColumn, setFileNameToSave, setCurrentAssembly, setSoulsWonCount, setHasUnsavedChanges]);
+    }, [favorites, addToast, clearWorkspace, clearAutoSaveDraft, navigate, setOriginalData, setProcessedDataA, setTitheListData, setAgeRangeMin, setAgeRangeMax, setIsAgeFilterActive, setConcatenationConfig, setSelectedDate, setDescriptionText, setAmountMappingColumn, setTransactionSettings, setFileNameToSave, setCurrentAssembly, setSoulsWonCount, setHasUnsavedChanges]);
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // RETURN
@@ -584,6 +655,7 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
             handleDescriptionChange,
             handleDateChange,
             handleConcatenationConfigChange,
+            handleTransactionSettingsChange,
         },
         download: {
             handleDownloadExcel,
@@ -593,6 +665,7 @@ export function useAppActions(props: UseAppActionsProps): AppActions {
             handleAddExistingMemberToList,
             handleCreateTitheListFromDB,
             handleDeleteAssembly,
+            handleMergeMembers,
             startNewWeek,
         },
         favorites: {
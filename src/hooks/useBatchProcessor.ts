@@ -1,223 +1,328 @@
-import { useState, useCallback } from 'react';
-import { TitheRecordB, MemberDatabase, TransactionLogEntry } from '@/types';
-import { processTitheImageWithValidation } from '@/services/imageProcessor';
+import { useState, useCallback, useRef } from 'react';
+import { TitheRecordB, MemberDatabase, MemberRecordA, TransactionLogEntry } from '@/types';
+import { processTitheImageWithValidation, preprocessTitheImage, recordExtractionQuality } from '@/services/imageProcessor';
 import { validateTitheBookImage, validateExtractedTitheData } from '@/services/imageValidator';
-import { sequencePages, detectDuplicatePages, mergeDuplicateExtractions } from '@/services/pageSequencer';
-import { findMemberByNameSync, getTopFuzzyMatches } from '@/services/reconciliation';
 import { validateAmountWithLearning, buildMemberHistory } from '@/services/amountValidator';
+import { createBatchJob, getBatchJob, markBatchPagesImported, runBatchJob, BatchJob, BatchPage, BatchPageExtraction, BatchRunResult } from '@/services/batchQueue';
+import { getExtractionPool, WorkerCancelledError } from '@/workers';
+import { useAppConfigContext } from '@/context';
+import { useVisionProvider } from './useVisionProvider';
 
 interface UseBatchProcessorProps {
     memberDatabase: MemberDatabase;
     transactionLog: TransactionLogEntry[];
 }
 
+type ProgressCallback = (completed: number, total: number) => void;
+type WarningCallback = (message: string, type: 'info' | 'warning' | 'error') => void;
+
 export const useBatchProcessor = ({ memberDatabase, transactionLog }: UseBatchProcessorProps) => {
     const [isProcessing, setIsProcessing] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+    const visionProvider = useVisionProvider();
+    const { enableImagePreprocessing } = useAppConfigContext();
+
+    /**
+     * Robust assembly member lookup with informative warnings
+     */
+    const getAssemblyMembers = useCallback((assembly: string, onWarning?: WarningCallback): MemberRecordA[] => {
+        const assemblyData = memberDatabase[assembly];
+        if (!assemblyData) {
+            const warningMsg = `Assembly "${assembly}" not found. Available: [${Object.keys(memberDatabase).join(', ') || 'none'}]. Member matching skipped.`;
+            console.warn(`⚠️ ${warningMsg}`);
+            onWarning?.(warningMsg, 'warning');
+        } else if (!assemblyData.data || assemblyData.data.length === 0) {
+            const warningMsg = `Assembly "${assembly}" has no members loaded. Import member data to enable matching.`;
+            console.warn(`⚠️ ${warningMsg}`);
+            onWarning?.(warningMsg, 'warning');
+        }
+        return assemblyData?.data || [];
+    }, [memberDatabase]);
+
+    /**
+     * Extract one page of a job. Throws so the queue marks the page failed
+     * (or paused, for a RateLimitError).
+     */
+    const extractPage = useCallback(async (
+        file: File,
+        job: BatchJob,
+        assemblyMembers: MemberRecordA[]
+    ): Promise<BatchPageExtraction> => {
+        if (!visionProvider) {
+            throw new Error('No vision provider is configured. Check Settings → AI Vision Provider.');
+        }
 
-    const processBatch = useCallback(async (
-        files: File[],
-        assembly: string,
-        month: string,
-        week: string,
-        onProgress?: (completed: number, total: number) => void,
-        onWarning?: (message: string, type: 'info' | 'warning' | 'error') => void
-    ): Promise<TitheRecordB[]> => {
-        setIsProcessing(true);
-        try {
-            const apiKey = import.meta.env.VITE_GEMINI_API_KEY as string;
-            const dateStr = new Date().toDateString();
-
-            // Collect extractions as separate arrays for intelligent merging
-            const pageExtractions: TitheRecordB[][] = [];
-
-            let completed = 0;
-            const total = files.length;
-            // Robust assembly member lookup with informative warnings
-            const assemblyData = memberDatabase[assembly];
-            if (!assemblyData) {
-                const warningMsg = `Assembly "${assembly}" not found. Available: [${Object.keys(memberDatabase).join(', ') || 'none'}]. Member matching skipped.`;
-                console.warn(`⚠️ ${warningMsg}`);
-                onWarning?.(warningMsg, 'warning');
-            } else if (!assemblyData.data || assemblyData.data.length === 0) {
-                const warningMsg = `Assembly "${assembly}" has no members loaded. Import member data to enable matching.`;
-                console.warn(`⚠️ ${warningMsg}`);
-                onWarning?.(warningMsg, 'warning');
-            }
-            const assemblyMembers = assemblyData?.data || [];
-
-            for (const file of files) {
-                try {
-                    // Pre-validate the image file before expensive OCR
-                    const imgValidation = await validateTitheBookImage(file);
-                    if (!imgValidation.isValid) {
-                        console.warn("Skipping invalid image:", imgValidation.errors.join("; "));
-                        continue;
-                    }
+        // Pre-validate the image file before expensive OCR
+        const imgValidation = await validateTitheBookImage(file);
+        if (!imgValidation.isValid) {
+            throw new Error(imgValidation.errors.join('; '));
+        }
 
-                    const extraction = await processTitheImageWithValidation(
-                        file,
-                        apiKey,
-                        month,
-                        week,
-                        dateStr,
-                        transactionLog,
-                        'auto',
-                        assemblyMembers
-                    );
+        const prepared = enableImagePreprocessing
+            ? await preprocessTitheImage(file, { adaptiveThreshold: visionProvider.id === 'offline' })
+            : null;
+
+        const extraction = await processTitheImageWithValidation(
+            prepared?.processed ?? file,
+            visionProvider,
+            job.month,
+            job.week,
+            job.dateString,
+            transactionLog,
+            'auto',
+            assemblyMembers,
+            undefined,
+            undefined,
+            undefined,
+            job.assembly
+        );
+        recordExtractionQuality({
+            preprocessed: !!prepared?.report.applied,
+            entries: extraction.entries.length,
+            lowConfidence: extraction.lowConfidenceCount,
+        });
+
+        // Validate extracted rows structurally
+        const structuralValidation = validateExtractedTitheData(
+            extraction.entries.map(e => ({
+                Name: e["Membership Number"],
+                Amount: e["Transaction Amount"],
+                Confidence: e["Confidence"],
+            }))
+        );
+
+        if (!structuralValidation.isValidFormat) {
+            console.warn("Extracted data failed structural validation");
+        }
 
-                    // Validate extracted rows structurally
-                    const structuralValidation = validateExtractedTitheData(
-                        extraction.entries.map(e => ({
-                            Name: e["Membership Number"],
-                            Amount: e["Transaction Amount"],
-                            Confidence: e["Confidence"],
-                        }))
-                    );
+        return { entries: extraction.entries, totalDiscrepancies: extraction.totalDiscrepancies };
+    }, [transactionLog, visionProvider, enableImagePreprocessing]);
 
-                    if (!structuralValidation.isValidFormat) {
-                        console.warn("Extracted data failed structural validation");
-                    }
+    /**
+     * Merge page extractions and match them against the assembly's members.
+     * Sequencing and fuzzy scoring run in the extraction worker pool.
+     * Amounts the duplicate shots disagree on are returned for review.
+     */
+    const mergeAndMatch = useCallback(async (
+        pageExtractions: TitheRecordB[][],
+        assembly: string,
+        assemblyMembers: MemberRecordA[],
+        signal?: AbortSignal
+    ): Promise<BatchRunResult> => {
+        if (pageExtractions.length === 0) {
+            return { entries: [], discrepancies: [] };
+        }
+        const pool = getExtractionPool();
 
-                    // Store each extraction separately for intelligent merging
-                    if (extraction.entries.length > 0) {
-                        pageExtractions.push(extraction.entries);
-                    }
+        // Detect & merge duplicate shots, then sequence pages in book order
+        const { merged: potentialMerged, gapsDetected, discrepancies } = await pool.run('mergePages', { pages: pageExtractions }, { signal });
+        if (gapsDetected.length > 0) {
+            console.warn(`Gap detected after member numbers: ${gapsDetected.join(", ")}`);
+        }
 
-                    completed += 1;
-                    onProgress?.(completed, total);
-                } catch (err) {
-                    console.warn("Failed to process one image in batch:", err);
+        // Match extracted names against assembly member database
+        if (assemblyMembers.length > 0) {
+            let matchedCount = 0;
+            let unmatchedCount = 0;
+            let anomalyCount = 0;
+
+            // Greedy match (with top 3 suggestions) for records not already matched, e.g. by the notebook extractor
+            const unmatchedIndexes = potentialMerged.flatMap((record, i) => record.memberDetails ? [] : [i]);
+            const memberSuggestions = await pool.run('suggestMembers', {
+                names: unmatchedIndexes.map(i => potentialMerged[i]["Membership Number"]), // OCR-extracted names
+                members: assemblyMembers,
+                limit: 3,
+            }, { signal });
+            const suggestionByRecord = new Map(unmatchedIndexes.map((recordIndex, i) => [recordIndex, memberSuggestions[i]]));
+
+            const matchedResults = await Promise.all(potentialMerged.map(async (record, recordIndex) => {
+                let resultRecord = { ...record };
+                let memberId = "";
+                let memberDetails = record.memberDetails;
+
+                const suggestion = suggestionByRecord.get(recordIndex);
+                if (suggestion) {
+                    const rawName = record["Membership Number"];
+                    // Workers return copies; keep the assembly's own member object
+                    const matchedMember = suggestion.match
+                        ? assemblyMembers[suggestion.matchIndex] ?? suggestion.match.member
+                        : null;
+
+                    if (matchedMember) {
+                        memberDetails = matchedMember;
+                        // Format matched member ID like ImageVerificationModal does
+                        memberId = `${matchedMember.Surname} ${matchedMember["First Name"]} ${matchedMember["Other Names"] || ""} (${matchedMember["Membership Number"]}|${matchedMember["Old Membership Number"] || ""})`.trim();
+                        resultRecord = {
+                            ...resultRecord,
+                            "Membership Number": memberId,
+                            memberDetails: matchedMember
+                        };
+                    } else {
+                        unmatchedCount++;
+                        const suggestions = suggestion.suggestions;
+                        const suggestionsList = suggestions
+                            .map(s => `${s.member.Surname} ${s.member["First Name"]} (${Math.round(s.score * 100)}%)`)
+                            .join("; ");
+
+                        // Keep raw OCR name but mark as unmatched with suggestions
+                        return {
+                            ...resultRecord,
+                            "Membership Number": `[UNMATCHED] ${rawName}`,
+                            "Narration/Description": suggestions.length > 0
+                                ? `[SUGGESTIONS: ${suggestionsList}] ${resultRecord["Narration/Description"] || ''}`
+                                : resultRecord["Narration/Description"] || ''
+                        };
+                    }
+                } else {
+                    matchedCount++;
+                    memberId = record["Membership Number"];
                 }
-            }
-
-            // Use page sequencer to intelligently merge multi-page extractions
-            if (pageExtractions.length === 0) {
-                return [];
-            }
 
+                // Validate amount with learned corrections + anomaly detection (for both pre-matched and greedy-matched)
+                if (memberDetails) {
+                    // Ensure memberId is formatted if pre-matched
+                    if (!memberId) memberId = record["Membership Number"];
 
-
-            // -- REFINED LOGIC --
-            let potentialMerged: TitheRecordB[] = [];
-
-            if (pageExtractions.length === 1) {
-                potentialMerged = pageExtractions[0];
-            } else {
-                // Detect & Merge Duplicates
-                const duplicateInfo = detectDuplicatePages(pageExtractions);
-                let processedExtractions = [...pageExtractions];
-
-                if (duplicateInfo.duplicateGroups.length > 0) {
-                    for (const group of duplicateInfo.duplicateGroups) {
-                        const merged = mergeDuplicateExtractions(pageExtractions, group);
-                        processedExtractions[group[0]] = merged;
+                    const memberHistory = buildMemberHistory(memberId, transactionLog);
+                    const amountValidation = await validateAmountWithLearning(
+                        record["Transaction Amount"],
+                        assembly,
+                        memberHistory || undefined
+                    );
+                    if (amountValidation.reason === 'anomaly' || amountValidation.reason === 'unusual_high' || amountValidation.reason === 'unusual_low') {
+                        anomalyCount++;
+                        // Add anomaly warning to the record
+                        resultRecord = {
+                            ...resultRecord,
+                            "Narration/Description": `[ANOMALY: ${amountValidation.message}] ${resultRecord["Narration/Description"] || ''}`
+                        };
+                    } else if (amountValidation.reason === 'ocr_artifact' && amountValidation.suggestedAmount) {
+                        // Apply learned OCR correction
+                        resultRecord = {
+                            ...resultRecord,
+                            "Transaction Amount": amountValidation.suggestedAmount,
+                            "Narration/Description": `[OCR CORRECTED: ${amountValidation.message}] ${resultRecord["Narration/Description"] || ''}`
+                        };
                     }
-                    processedExtractions = duplicateInfo.unique.map(idx => processedExtractions[idx]);
                 }
 
-                const sequenceResult = sequencePages(processedExtractions);
+                return resultRecord;
+            }));
 
-                if (sequenceResult.gapsDetected.length > 0) {
-                    console.warn(`Gap detected after member numbers: ${sequenceResult.gapsDetected.join(", ")}`);
-                }
+            console.info(
+                `Batch processing: ${matchedCount} matched, ${unmatchedCount} unmatched, ` +
+                `${anomalyCount} anomalies detected out of ${potentialMerged.length}`
+            );
+            return { entries: matchedResults, discrepancies };
+        }
 
-                potentialMerged = sequenceResult.merged;
+        return { entries: potentialMerged, discrepancies };
+    }, [transactionLog]);
+
+    /**
+     * Run (or resume) a stored job and return the entries of pages not yet
+     * imported, with the amounts to check before saving them. Failed pages
+     * stay in the queue for a retry.
+     */
+    const runJob = useCallback(async (
+        jobId: string,
+        onProgress?: ProgressCallback,
+        onWarning?: WarningCallback
+    ): Promise<BatchRunResult> => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsProcessing(true);
+        try {
+            if (!visionProvider) {
+                onWarning?.('No vision provider is configured. Check Settings → AI Vision Provider.', 'error');
+                return { entries: [], discrepancies: [] };
             }
-
-
-            // Match extracted names against assembly member database
-            if (assemblyMembers.length > 0) {
-                let matchedCount = 0;
-                let unmatchedCount = 0;
-                let anomalyCount = 0;
-
-                const matchedResults = await Promise.all(potentialMerged.map(async record => {
-                    let resultRecord = { ...record };
-                    let memberId = "";
-                    let memberDetails = record.memberDetails;
-
-                    // If not already matched (e.g. by notebook extractor), try greedy match
-                    if (!memberDetails) {
-                        const rawName = record["Membership Number"]; // This contains the OCR-extracted name
-                        const match = findMemberByNameSync(rawName, assemblyMembers);
-
-                        if (match) {
-                            memberDetails = match.member;
-                            // Format matched member ID like ImageVerificationModal does
-                            memberId = `${match.member.Surname} ${match.member["First Name"]} ${match.member["Other Names"] || ""} (${match.member["Membership Number"]}|${match.member["Old Membership Number"] || ""})`.trim();
-                            resultRecord = {
-                                ...resultRecord,
-                                "Membership Number": memberId,
-                                memberDetails: match.member
-                            };
-                        } else {
-                            unmatchedCount++;
-                            // Get top 3 fuzzy suggestions for unmatched names
-                            const suggestions = getTopFuzzyMatches(rawName, assemblyMembers, 3);
-                            const suggestionsList = suggestions
-                                .map(s => `${s.member.Surname} ${s.member["First Name"]} (${Math.round(s.score * 100)}%)`)
-                                .join("; ");
-
-                            // Keep raw OCR name but mark as unmatched with suggestions
-                            return {
-                                ...resultRecord,
-                                "Membership Number": `[UNMATCHED] ${rawName}`,
-                                "Narration/Description": suggestions.length > 0
-                                    ? `[SUGGESTIONS: ${suggestionsList}] ${resultRecord["Narration/Description"] || ''}`
-                                    : resultRecord["Narration/Description"] || ''
-                            };
-                        }
-                    } else {
-                        matchedCount++;
-                        memberId = record["Membership Number"];
-                    }
-
-                    // Validate amount with learned corrections + anomaly detection (for both pre-matched and greedy-matched)
-                    if (memberDetails) {
-                        // Ensure memberId is formatted if pre-matched
-                        if (!memberId) memberId = record["Membership Number"];
-
-                        const memberHistory = buildMemberHistory(memberId, transactionLog);
-                        const amountValidation = await validateAmountWithLearning(
-                            record["Transaction Amount"],
-                            assembly,
-                            memberHistory || undefined
-                        );
-                        if (amountValidation.reason === 'anomaly' || amountValidation.reason === 'unusual_high' || amountValidation.reason === 'unusual_low') {
-                            anomalyCount++;
-                            // Add anomaly warning to the record
-                            resultRecord = {
-                                ...resultRecord,
-                                "Narration/Description": `[ANOMALY: ${amountValidation.message}] ${resultRecord["Narration/Description"] || ''}`
-                            };
-                        } else if (amountValidation.reason === 'ocr_artifact' && amountValidation.suggestedAmount) {
-                            // Apply learned OCR correction
-                            resultRecord = {
-                                ...resultRecord,
-                                "Transaction Amount": amountValidation.suggestedAmount,
-                                "Narration/Description": `[OCR CORRECTED: ${amountValidation.message}] ${resultRecord["Narration/Description"] || ''}`
-                            };
-                        }
-                    }
-
-                    return resultRecord;
-                }));
-
-                console.info(
-                    `Batch processing: ${matchedCount} matched, ${unmatchedCount} unmatched, ` +
-                    `${anomalyCount} anomalies detected out of ${potentialMerged.length}`
+            const job = await getBatchJob(jobId);
+            if (!job) {
+                onWarning?.('Batch job not found. It may have been discarded.', 'error');
+                return { entries: [], discrepancies: [] };
+            }
+            const assemblyMembers = getAssemblyMembers(job.assembly, onWarning);
+
+            const pages = await runBatchJob(
+                jobId,
+                (file) => extractPage(file, job, assemblyMembers),
+                {
+                    onUpdate: (_job, current) => {
+                        const done = current.filter(p => p.status === 'extracted' || p.status === 'failed').length;
+                        onProgress?.(done, current.length);
+                    },
+                    onPause: (waitMs) => onWarning?.(
+                        `Rate limit reached. Pausing for ${Math.ceil(waitMs / 1000)}s; the batch resumes automatically.`,
+                        'info'
+                    ),
+                    signal: controller.signal,
+                }
+            );
+            // Cancelled: extracted pages stay in the queue for a later resume
+            if (controller.signal.aborted) return { entries: [], discrepancies: [] };
+
+            const failed = pages.filter(p => p.status === 'failed');
+            if (failed.length > 0) {
+                onWarning?.(
+                    `${failed.length} page(s) could not be read. Retry them from the saved batch jobs.`,
+                    'warning'
                 );
-                return matchedResults;
             }
 
-            return potentialMerged;
+            // Only hand over pages that have not reached the tithe list yet
+            const ready = pages.filter((p): p is BatchPage & { entries: TitheRecordB[] } =>
+                p.status === 'extracted' && !p.imported && !!p.entries
+            );
+            const pageExtractions = ready.map(p => p.entries).filter(entries => entries.length > 0);
+            const { entries, discrepancies } = await mergeAndMatch(pageExtractions, job.assembly, assemblyMembers, controller.signal);
+            await markBatchPagesImported(jobId, ready.map(p => p.index));
+            return {
+                entries,
+                discrepancies: [...ready.flatMap(p => p.totalDiscrepancies ?? []), ...discrepancies],
+            };
+        } catch (error) {
+            if (error instanceof WorkerCancelledError) return { entries: [], discrepancies: [] };
+            throw error;
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setIsProcessing(false);
         }
-    }, [memberDatabase, transactionLog]);
+    }, [visionProvider, getAssemblyMembers, extractPage, mergeAndMatch]);
+
+    const processBatch = useCallback(async (
+        files: File[],
+        assembly: string,
+        month: string,
+        week: string,
+        onProgress?: ProgressCallback,
+        onWarning?: WarningCallback
+    ): Promise<BatchRunResult> => {
+        if (!visionProvider) {
+            onWarning?.('No vision provider is configured. Check Settings → AI Vision Provider.', 'error');
+            return { entries: [], discrepancies: [] };
+        }
+        // Persist the job first so it can be resumed if the tab closes
+        const job = await createBatchJob(files, {
+            assembly,
+            month,
+            week,
+            dateString: new Date().toDateString(),
+        });
+        return runJob(job.id, onProgress, onWarning);
+    }, [visionProvider, runJob]);
+
+    /**
+     * Stop the running batch after the current page; it can be resumed later
+     */
+    const cancelBatch = useCallback(() => {
+        abortRef.current?.abort();
+    }, []);
 
     return {
         processBatch,
+        resumeBatch: runJob,
+        cancelBatch,
         isProcessing
     };
 };
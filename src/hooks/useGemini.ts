@@ -1,18 +1,22 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
 import { MemberRecordA, TitheRecordB, ChatMessage, ChartData, MemberDatabase, TransactionLogEntry } from '@/types';
-import type { TitheImageExtractionResult } from '@/services/imageProcessor';
+import type { MultiWeekExtractionResult, TitheImageExtractionResult } from '@/services/imageProcessor';
 import { GEMINI_MODEL_NAME } from '@/constants';
+import { getAmountInGHS } from '@/lib/currency';
 import { buildDataContext, buildPromptContext } from '@/services/queryTemplates';
 import { generatePredictions } from '@/services/predictiveAnalytics';
 import type { AnalyticsSummary, Prediction } from '@/services/predictiveAnalytics';
 import { chatCache } from '@/services/chatCache';
-import { useToast } from '@/context';
+import { useToast, useAppConfigContext } from '@/context';
+import { useVisionProvider } from './useVisionProvider';
 
 export const useGemini = (apiKey: string) => {
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [validationReportContent, setValidationReportContent] = useState('');
   const addToast = useToast();
+  const visionProvider = useVisionProvider();
+  const { enableImagePreprocessing } = useAppConfigContext();
 
   const generateValidationReport = async (originalData: MemberRecordA[]) => {
     if (!originalData || originalData.length === 0) {
@@ -56,8 +60,8 @@ export const useGemini = (apiKey: string) => {
     }
   };
 
-  const analyzeImage = async (imageFile: File, month?: string, week?: string, dateString?: string, memberDatabase?: MemberRecordA[]): Promise<TitheImageExtractionResult | null> => {
-    if (!apiKey) {
+  const analyzeImage = async (imageFile: File, month?: string, week?: string, dateString?: string, memberDatabase?: MemberRecordA[], transactionLogs?: TransactionLogEntry[], scribeId?: string, assemblyName?: string): Promise<TitheImageExtractionResult | null> => {
+    if (!visionProvider) {
       addToast('AI features are not configured. Please contact support.', 'error');
       return null;
     }
@@ -71,7 +75,12 @@ export const useGemini = (apiKey: string) => {
     setIsGeneratingReport(true);
     try {
       // Use the enhanced processor with validation
-      const { processTitheImageWithValidation, verifyLowConfidenceEntries } = await import('../services/imageProcessor');
+      const {
+        processTitheImageWithValidation,
+        verifyLowConfidenceEntries,
+        preprocessTitheImage,
+        recordExtractionQuality,
+      } = await import('../services/imageProcessor');
       const { validateTitheBookImage: preValidate } = await import('../services/imageValidator');
 
       // Pre-validate the image
@@ -84,17 +93,35 @@ export const useGemini = (apiKey: string) => {
         addToast(preValidation.warnings[0], 'warning');
       }
 
+      // Clean up the photo (page warp, deskew, shadows); the offline reader also wants it black and white
+      const prepared = enableImagePreprocessing
+        ? await preprocessTitheImage(imageFile, { adaptiveThreshold: visionProvider.id === 'offline' })
+        : null;
+      const pageImage = prepared?.processed ?? imageFile;
+
       // Process with enhanced function
       let result = await processTitheImageWithValidation(
-        imageFile,
-        apiKey,
+        pageImage,
+        visionProvider,
         month,
         week,
         dateString,
-        undefined, // transactionLogs
+        transactionLogs, // history anomalies and month TOTAL checks
         'auto',    // forceMode
-        memberDatabase // Pass memberDatabase for optimal matching
+        memberDatabase, // Pass memberDatabase for optimal matching
+        undefined,
+        undefined,
+        scribeId,  // writer of the page, for their learned misreads
+        assemblyName // assembly whose logged weeks count toward month TOTALs
       );
+      recordExtractionQuality({
+        preprocessed: !!prepared?.report.applied,
+        entries: result.entries.length,
+        lowConfidence: result.lowConfidenceCount,
+      });
+      if (prepared?.report.applied) {
+        result = { ...result, preprocessing: prepared };
+      }
 
       // Provide feedback based on validation
       if (!result.isValidTitheBook && !result.isNotebookFormat) {
@@ -119,8 +146,8 @@ export const useGemini = (apiKey: string) => {
 
         // Run multi-pass verification
         const verifiedEntries = await verifyLowConfidenceEntries(
-          imageFile,
-          apiKey,
+          pageImage,
+          visionProvider,
           result.entries,
           month,
           week
@@ -138,6 +165,10 @@ export const useGemini = (apiKey: string) => {
         result = { ...result, entries: verifiedEntries };
       }
 
+      if (result.totalDiscrepancies) {
+        addToast(`${result.totalDiscrepancies.length} row(s) do not add up to their ${month} TOTAL. Check them before confirming.`, 'warning');
+      }
+
       addToast(`Extracted ${result.entries.length} tithe records.`, 'success');
       return result;  // Return full result including isNotebookFormat and notebookMetadata
 
@@ -150,7 +181,61 @@ export const useGemini = (apiKey: string) => {
     }
   };
 
-  return { isGeneratingReport, validationReportContent, generateValidationReport, analyzeImage };
+  /**
+   * Reads every week column of `month` from one tithe book page in a single call
+   */
+  const analyzeImageAllWeeks = async (imageFile: File, month: string, year: number, memberDatabase?: MemberRecordA[], transactionLogs?: TransactionLogEntry[], scribeId?: string, assemblyName?: string): Promise<MultiWeekExtractionResult | null> => {
+    if (!visionProvider) {
+      addToast('AI features are not configured. Please contact support.', 'error');
+      return null;
+    }
+
+    setIsGeneratingReport(true);
+    try {
+      const { processTitheImageAllWeeks, preprocessTitheImage } = await import('../services/imageProcessor');
+      const { validateTitheBookImage: preValidate } = await import('../services/imageValidator');
+
+      const preValidation = await preValidate(imageFile);
+      if (!preValidation.isValid) {
+        addToast(preValidation.errors.join('. '), 'error');
+        return null;
+      }
+
+      const prepared = enableImagePreprocessing
+        ? await preprocessTitheImage(imageFile, { adaptiveThreshold: visionProvider.id === 'offline' })
+        : null;
+
+      const result = await processTitheImageAllWeeks(
+        prepared?.processed ?? imageFile,
+        visionProvider,
+        month,
+        year,
+        { memberDatabase, transactionLogs, scribeId, assemblyName }
+      );
+
+      if (!result.isValidTitheBook) {
+        addToast('Warning: Image may not match expected Tithe Book format.', 'warning');
+      }
+      if (result.weeks.length === 0) {
+        addToast(`No ${month} amounts were found on this page.`, 'warning');
+        return null;
+      }
+      if (result.totalDiscrepancies) {
+        const rows = result.totalDiscrepancies.map((d) => `#${d.memberNo}`).join(', ');
+        addToast(`${result.totalDiscrepancies.length} row(s) do not add up to their ${month} TOTAL: ${rows}.`, 'warning');
+      }
+      return prepared?.report.applied ? { ...result, preprocessing: prepared } : result;
+
+    } catch (error) {
+      console.error('Error analyzing image:', error);
+      addToast(error instanceof Error ? error.message : 'Failed to analyze image. Please try again.', 'error');
+      return null;
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
+
+  return { isGeneratingReport, validationReportContent, generateValidationReport, analyzeImage, analyzeImageAllWeeks };
 };
 
 export const useGeminiChat = (apiKey: string) => {
@@ -329,7 +414,7 @@ I'm ready to dive deeper. Try asking:`
                 },
                 {
                   name: "get_tithe_stats",
-                  description: "Get total tithe statistics for a specific period (month/year) or overall.",
+                  description: "Get total tithe statistics in GHS for a specific period (month/year) or overall.",
                   parameters: {
                     type: SchemaType.OBJECT,
                     properties: {
@@ -340,7 +425,7 @@ I'm ready to dive deeper. Try asking:`
                 },
                 {
                   name: "find_top_tithers",
-                  description: "Find the top contributors for a given period.",
+                  description: "Find the top contributors for a given period, by total given in GHS.",
                   parameters: {
                     type: SchemaType.OBJECT,
                     properties: {
@@ -458,12 +543,8 @@ I'm ready to dive deeper. Try asking:`
               if (year) filtered = filtered.filter(t => String(t["Transaction Date ('DD-MMM-YYYY')"]).includes(year));
               if (month) filtered = filtered.filter(t => String(t["Transaction Date ('DD-MMM-YYYY')"]).toLowerCase().includes(month.toLowerCase()));
 
-              const totalAmount = filtered.reduce((sum, t) => {
-                const val = t["Transaction Amount"];
-                // Handle string numbers like "1,200.00" safely
-                const num = typeof val === 'number' ? val : parseFloat(String(val).replace(/,/g, '')) || 0;
-                return sum + num;
-              }, 0);
+              // Foreign-currency tithes count at their cedi equivalent
+              const totalAmount = filtered.reduce((sum, t) => sum + getAmountInGHS(t), 0);
 
               toolResult = { total_amount: totalAmount, transaction_count: filtered.length, period: `${month || 'All'} ${year || 'All'}` };
             } else if (name === "find_top_tithers") {
@@ -475,9 +556,7 @@ I'm ready to dive deeper. Try asking:`
               const totals: Record<string, number> = {};
               filtered.forEach(t => {
                 const id = String(t["Membership Number"]);
-                const val = t["Transaction Amount"];
-                const num = typeof val === 'number' ? val : parseFloat(String(val).replace(/,/g, '')) || 0;
-                totals[id] = (totals[id] || 0) + num;
+                totals[id] = (totals[id] || 0) + getAmountInGHS(t);
               });
 
               const sorted = Object.entries(totals)
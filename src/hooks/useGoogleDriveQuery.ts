@@ -1,13 +1,18 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 
-const findOrCreateDriveFile = async (fileName: string) => {
+export const findDriveFile = async (fileName: string): Promise<string | null> => {
   const sanitizedFileName = fileName.replace(/'/g, "\\'");
   const res = await window.gapi.client.drive.files.list({
     q: `name='${sanitizedFileName}' and trashed=false`,
     spaces: "drive",
     fields: "files(id, name)",
   });
-  if (res.result.files.length > 0) return res.result.files[0].id;
+  return res.result.files.length > 0 ? res.result.files[0].id : null;
+};
+
+export const findOrCreateDriveFile = async (fileName: string) => {
+  const existingId = await findDriveFile(fileName);
+  if (existingId) return existingId;
   const createRes = await window.gapi.client.drive.files.create({
     resource: { name: fileName, mimeType: "application/json" },
     fields: "id",
@@ -16,7 +21,7 @@ const findOrCreateDriveFile = async (fileName: string) => {
   return createRes.result.id;
 };
 
-const readFromDrive = async <T>(fileId: string): Promise<T[]> => {
+export const readFromDrive = async <T>(fileId: string): Promise<T[]> => {
   try {
     const res = await window.gapi.client.drive.files.get({
       fileId,
@@ -33,10 +38,23 @@ const readFromDrive = async <T>(fileId: string): Promise<T[]> => {
   }
 };
 
-const saveToDrive = (fileId: string, data: any[]) => {
-  const content = new Blob([JSON.stringify(data, null, 2)], {
-    type: "application/json",
+export const readDriveFileText = async (fileId: string): Promise<string> => {
+  const res = await window.gapi.client.drive.files.get({
+    fileId,
+    alt: "media",
   });
+  return res.body || "";
+};
+
+export const saveToDrive = (fileId: string, data: any[]) =>
+  saveTextToDrive(fileId, JSON.stringify(data, null, 2));
+
+export const saveTextToDrive = (
+  fileId: string,
+  text: string,
+  mimeType = "application/json",
+) => {
+  const content = new Blob([text], { type: mimeType });
   const form = new FormData();
   form.append(
     "metadata",
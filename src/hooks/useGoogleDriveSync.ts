@@ -13,7 +13,10 @@ import {
   FAVORITES_DRIVE_FILENAME,
   TRANSACTION_LOG_STORAGE_KEY,
   TRANSACTION_LOG_DRIVE_FILENAME,
+  SYNC_SERVER_URL,
 } from "../constants";
+import { syncManager } from "../services/SyncManager";
+import { GoogleDriveSyncTransport } from "../services/syncTransport";
 import { useFindOrCreateDriveFile, useReadFromDrive, useSaveToDrive } from "./useGoogleDriveQuery";
 import { useDebounce } from "./useDebounce";
 
@@ -160,6 +163,17 @@ export const useGoogleDriveSync = (
     }
   }, [isConfigured, isGapiLoaded, isGsiLoaded, addToast, fetchUserProfile]);
 
+  // Without a sync server, queued offline actions are journaled to Drive
+  useEffect(() => {
+    if (SYNC_SERVER_URL || !isLoggedIn) return;
+    syncManager.setTransport(new GoogleDriveSyncTransport());
+    return () => {
+      if (syncManager.getTransport()?.name === "google-drive") {
+        syncManager.setTransport(null);
+      }
+    };
+  }, [isLoggedIn]);
+
   const syncWithDrive = useCallback(
     async (isLocalChange = false) => {
       if (
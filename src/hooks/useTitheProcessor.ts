@@ -6,6 +6,7 @@ import {
 } from "../types";
 import { createTitheList, filterMembersByAge } from "../services/excelProcessor";
 import { exportToExcel } from "../lib/excelUtils";
+import { getAmountInGHS } from "../lib/currency";
 import { DEFAULT_CONCAT_CONFIG_STORAGE_KEY } from "../constants";
 
 interface TitheProcessorState {
@@ -85,7 +86,7 @@ export function useTitheProcessor(
             const amount = Number(record["Transaction Amount"]);
             if (!isNaN(amount) && amount > 0) {
                 tithers++;
-                return sum + amount;
+                return sum + getAmountInGHS(record);
             }
             return sum;
         }, 0);
@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { useAppConfigContext } from '@/context';
+import { createVisionProvider, type VisionProvider } from '@/services/imageProcessor/visionProvider';
+
+/**
+ * The vision provider chosen in Settings, or null when it is not configured
+ */
+export const useVisionProvider = (): VisionProvider | null => {
+  const { visionProvider } = useAppConfigContext();
+  return useMemo(
+    () => createVisionProvider(visionProvider, import.meta.env.VITE_GEMINI_API_KEY as string | undefined),
+    [visionProvider]
+  );
+};
@@ -11,6 +11,7 @@ import {
     AUTO_SAVE_DEBOUNCE_TIME,
     DEFAULT_CONCAT_CONFIG_STORAGE_KEY,
 } from "../constants";
+import { stripCellCrops } from "@/services/imageProcessor/cellCrops";
 
 export interface WorkspaceState {
     uploadedFile: File | null;
@@ -199,7 +200,8 @@ export function useWorkspace(
 
             const draft: AutoSaveDraft = {
                 timestamp: Date.now(),
-                titheListData,
+                // Cell crops are JPEG data URLs and would soon fill localStorage
+                titheListData: stripCellCrops(titheListData),
                 selectedDate: selectedDate.toISOString(),
                 descriptionText,
                 concatenationConfig,
@@ -0,0 +1,99 @@
+/// <reference types="vitest/globals" />
+/**
+ * currency.test.ts
+ * Tests for GHS-equivalent amounts and the per-date exchange-rate table
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyCurrencyToRecord,
+    ExchangeRateTable,
+    formatRecordAmount,
+    getAmountInGHS,
+    lookupExchangeRate,
+    reapplyExchangeRates,
+    setExchangeRateInTable,
+    sumAmountsInGHS,
+} from './currency';
+import { makeTitheRecord } from '@/test/titheFixtures';
+
+const RATES: ExchangeRateTable = {
+    '02-NOV-2025': { USD: 15, GBP: 19.5 },
+    '16-NOV-2025': { USD: 16 },
+};
+
+describe('getAmountInGHS', () => {
+    it('converts foreign amounts with the record rate', () => {
+        expect(getAmountInGHS(makeTitheRecord())).toBe(100);
+        expect(getAmountInGHS(makeTitheRecord({ Currency: 'USD', 'Exchange Rate': 15, 'Transaction Amount': 20 }))).toBe(300);
+        expect(getAmountInGHS(makeTitheRecord({ 'Transaction Amount': '50.5' }))).toBe(50.5);
+        expect(getAmountInGHS(makeTitheRecord({ 'Transaction Amount': '1,200.00' }))).toBe(1200);
+    });
+
+    it('ignores the rate on GHS records and counts unrated foreign amounts as 0', () => {
+        expect(getAmountInGHS(makeTitheRecord({ 'Exchange Rate': 0 }))).toBe(100);
+        expect(getAmountInGHS(makeTitheRecord({ Currency: 'USD', 'Exchange Rate': 0 }))).toBe(0);
+        expect(getAmountInGHS(makeTitheRecord({ 'Transaction Amount': '' }))).toBe(0);
+    });
+
+    it('sums a mixed-currency list in GHS', () => {
+        const list = [
+            makeTitheRecord(),
+            makeTitheRecord({ Currency: 'USD', 'Exchange Rate': 15, 'Transaction Amount': 20 }),
+            makeTitheRecord({ Currency: 'GBP', 'Exchange Rate': 0, 'Transaction Amount': 10 }),
+        ];
+        expect(sumAmountsInGHS(list)).toBe(400);
+    });
+
+    it('shows the cedi equivalent next to foreign amounts', () => {
+        expect(formatRecordAmount(makeTitheRecord({ Currency: 'USD', 'Exchange Rate': 15, 'Transaction Amount': 20 }))).toBe('USD 20 (GHS 300)');
+        expect(formatRecordAmount(makeTitheRecord({ Currency: 'USD', 'Exchange Rate': 0, 'Transaction Amount': 20 }))).toBe('USD 20 (no rate)');
+    });
+});
+
+describe('lookupExchangeRate', () => {
+    it('uses the exact date, then the latest earlier date', () => {
+        expect(lookupExchangeRate(RATES, '16-NOV-2025', 'USD')).toBe(16);
+        expect(lookupExchangeRate(RATES, '09-NOV-2025', 'USD')).toBe(15);
+        expect(lookupExchangeRate(RATES, '30-NOV-2025', 'GBP')).toBe(19.5);
+    });
+
+    it('returns undefined before the first rate and 1 for GHS', () => {
+        expect(lookupExchangeRate(RATES, '26-OCT-2025', 'USD')).toBeUndefined();
+        expect(lookupExchangeRate(RATES, '09-NOV-2025', 'EUR')).toBeUndefined();
+        expect(lookupExchangeRate(RATES, '26-OCT-2025', 'GHS')).toBe(1);
+    });
+});
+
+describe('setExchangeRateInTable', () => {
+    it('sets and removes rates without mutating the table', () => {
+        const added = setExchangeRateInTable(RATES, '09-NOV-2025', 'EUR', 17.2);
+        expect(added['09-NOV-2025']).toEqual({ EUR: 17.2 });
+        expect(RATES['09-NOV-2025']).toBeUndefined();
+
+        const removed = setExchangeRateInTable(RATES, '16-NOV-2025', 'USD', 0);
+        expect(removed['16-NOV-2025']).toBeUndefined();
+        expect(removed['02-NOV-2025']).toEqual({ USD: 15, GBP: 19.5 });
+    });
+});
+
+describe('applyCurrencyToRecord / reapplyExchangeRates', () => {
+    it('takes the rate for the record date from the table', () => {
+        expect(applyCurrencyToRecord(makeTitheRecord(), 'usd', RATES)).toMatchObject({ Currency: 'USD', 'Exchange Rate': 15 });
+        expect(applyCurrencyToRecord(makeTitheRecord({ Currency: 'USD', 'Exchange Rate': 15 }), 'GHS', RATES)['Exchange Rate']).toBe(1);
+    });
+
+    it('marks the rate missing when the table has none', () => {
+        expect(applyCurrencyToRecord(makeTitheRecord(), 'EUR', RATES)['Exchange Rate']).toBe(0);
+        expect(applyCurrencyToRecord(makeTitheRecord({ Currency: 'EUR', 'Exchange Rate': 17 }), 'EUR', RATES)['Exchange Rate']).toBe(17);
+    });
+
+    it('refreshes foreign records and leaves the list untouched when nothing changes', () => {
+        const list = [makeTitheRecord(), makeTitheRecord({ 'No.': 2, Currency: 'USD', 'Exchange Rate': 0 })];
+        const updated = reapplyExchangeRates(list, RATES);
+
+        expect(updated[0]).toBe(list[0]);
+        expect(updated[1]['Exchange Rate']).toBe(15);
+        expect(reapplyExchangeRates(updated, RATES)).toBe(updated);
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * Currency & exchange-rate helpers
+ * Tithe lists are recorded in the currency each member paid in, but every
+ * total, chart and report is expressed in Ghana cedis. A record carries its
+ * own "Exchange Rate" (GHS per unit of its currency); the rate table below
+ * supplies that rate per transaction date so a week's foreign tithes all use
+ * the same rate.
+ */
+
+import { TitheRecordB } from "../types";
+
+export const BASE_CURRENCY = "GHS";
+
+export const SUPPORTED_CURRENCIES = ["GHS", "USD", "GBP", "EUR"] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+/** Transaction date (DD-MMM-YYYY) → currency → GHS per unit */
+export type ExchangeRateTable = Record<string, Partial<Record<CurrencyCode, number>>>;
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+// ============================================================================
+// AMOUNTS
+// ============================================================================
+
+export const isSupportedCurrency = (currency: string): currency is CurrencyCode =>
+    (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+
+/** True for any record not paid in cedis. A blank currency is treated as GHS. */
+export const isForeignCurrency = (currency: string | undefined): boolean =>
+    !!currency && currency.toUpperCase() !== BASE_CURRENCY;
+
+/**
+ * Amount as entered, in the record's own currency. Thousands separators
+ * ("1,200.00") are allowed; blank or invalid amounts are 0.
+ */
+export const getRecordAmount = (record: Pick<TitheRecordB, "Transaction Amount">): number => {
+    const raw = record["Transaction Amount"];
+    const amount = typeof raw === "number" ? raw : parseFloat(String(raw ?? "").replace(/,/g, ""));
+    return isNaN(amount) ? 0 : amount;
+};
+
+/**
+ * GHS equivalent of a record's amount. Foreign amounts without a usable
+ * exchange rate count as 0 so a missing rate never inflates a total;
+ * validateTitheListForTACMS reports those rows.
+ */
+export const getAmountInGHS = (
+    record: Pick<TitheRecordB, "Transaction Amount" | "Currency" | "Exchange Rate">,
+): number => {
+    const amount = getRecordAmount(record);
+    if (!isForeignCurrency(record.Currency)) return amount;
+
+    const rate = Number(record["Exchange Rate"]);
+    return rate > 0 ? amount * rate : 0;
+};
+
+/** Sum of GHS-equivalent amounts across a list */
+export const sumAmountsInGHS = (records: TitheRecordB[]): number =>
+    records.reduce((sum, record) => {
+        const amount = getAmountInGHS(record);
+        return amount > 0 ? sum + amount : sum;
+    }, 0);
+
+export const formatMoney = (amount: number, currency: string = BASE_CURRENCY): string =>
+    `${currency} ${amount.toLocaleString()}`;
+
+/**
+ * Formats a record's amount for display, showing the cedi equivalent
+ * alongside foreign amounts, e.g. "USD 20 (GHS 300)".
+ */
+export const formatRecordAmount = (record: TitheRecordB): string => {
+    if (!isForeignCurrency(record.Currency)) {
+        return formatMoney(getRecordAmount(record));
+    }
+    const original = formatMoney(getRecordAmount(record), record.Currency);
+    return Number(record["Exchange Rate"]) > 0
+        ? `${original} (${formatMoney(getAmountInGHS(record))})`
+        : `${original} (no rate)`;
+};
+
+// ============================================================================
+// RATE TABLE
+// ============================================================================
+
+/** Parses a DD-MMM-YYYY transaction date key; NaN when malformed */
+export const dateKeyToTime = (dateKey: string): number => {
+    const match = dateKey.match(/^(\d{2})-([A-Z]{3})-(\d{4})$/);
+    if (!match) return NaN;
+    const month = MONTHS.indexOf(match[2]);
+    if (month === -1) return NaN;
+    return new Date(Number(match[3]), month, Number(match[1])).getTime();
+};
+
+/**
+ * Looks up the rate for a currency on a transaction date. Falls back to the
+ * most recent earlier date with a rate, so a rate entered once keeps applying
+ * until it is updated. GHS is always 1.
+ */
+export const lookupExchangeRate = (
+    table: ExchangeRateTable,
+    dateKey: string,
+    currency: string,
+): number | undefined => {
+    if (!isForeignCurrency(currency)) return 1;
+    if (!isSupportedCurrency(currency)) return undefined;
+
+    const exact = table[dateKey]?.[currency];
+    if (exact) return exact;
+
+    const target = dateKeyToTime(dateKey);
+    if (isNaN(target)) return undefined;
+
+    let bestTime = -Infinity;
+    let bestRate: number | undefined;
+    for (const [key, rates] of Object.entries(table)) {
+        const rate = rates[currency];
+        const time = dateKeyToTime(key);
+        if (rate && time <= target && time > bestTime) {
+            bestTime = time;
+            bestRate = rate;
+        }
+    }
+    return bestRate;
+};
+
+/**
+ * Returns a copy of the table with the rate set. A non-positive rate removes
+ * the entry, and dates left with no rates are dropped.
+ */
+export const setExchangeRateInTable = (
+    table: ExchangeRateTable,
+    dateKey: string,
+    currency: CurrencyCode,
+    rate: number,
+): ExchangeRateTable => {
+    const next: ExchangeRateTable = { ...table, [dateKey]: { ...table[dateKey] } };
+    if (rate > 0 && isForeignCurrency(currency)) {
+        next[dateKey][currency] = rate;
+    } else {
+        delete next[dateKey][currency];
+    }
+    if (Object.keys(next[dateKey]).length === 0) {
+        delete next[dateKey];
+    }
+    return next;
+};
+
+/**
+ * Sets a record's currency, taking the rate from the table for its date.
+ * Without a table rate a foreign record keeps its current rate if it was
+ * already in that currency, otherwise the rate is 0 (missing).
+ */
+export const applyCurrencyToRecord = (
+    record: TitheRecordB,
+    currency: string,
+    table: ExchangeRateTable,
+): TitheRecordB => {
+    const code = currency.toUpperCase();
+    const tableRate = lookupExchangeRate(table, record["Transaction Date ('DD-MMM-YYYY')"], code);
+    const keptRate = record.Currency === code ? Number(record["Exchange Rate"]) || 0 : 0;
+    return { ...record, Currency: code, "Exchange Rate": tableRate ?? keptRate };
+};
+
+/**
+ * Refreshes the rate on every foreign record whose date now has a table rate.
+ * Returns the original array when nothing changed.
+ */
+export const reapplyExchangeRates = (
+    records: TitheRecordB[],
+    table: ExchangeRateTable,
+): TitheRecordB[] => {
+    let changed = false;
+    const updated = records.map((record) => {
+        if (!isForeignCurrency(record.Currency)) return record;
+        const rate = lookupExchangeRate(table, record["Transaction Date ('DD-MMM-YYYY')"], record.Currency);
+        if (rate === undefined || rate === record["Exchange Rate"]) return record;
+        changed = true;
+        return { ...record, "Exchange Rate": rate };
+    });
+    return changed ? updated : records;
+};
@@ -0,0 +1,91 @@
+/// <reference types="vitest/globals" />
+/**
+ * launchTargets.test.ts
+ * Tests for share target / file handler classification and web+tactms links
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildProtocolUrl, classifyLaunchFiles, parseProtocolUrl, ProtocolTarget } from './launchTargets';
+
+const makeFile = (name: string, type = '') => new File(['content'], name, { type });
+
+describe('classifyLaunchFiles', () => {
+    it('splits spreadsheets, images and unsupported files', () => {
+        const result = classifyLaunchFiles([
+            makeFile('Central Members.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'),
+            makeFile('page1.jpg', 'image/jpeg'),
+            makeFile('notes.pdf', 'application/pdf'),
+        ]);
+
+        expect(result.spreadsheets.map(f => f.name)).toEqual(['Central Members.xlsx']);
+        expect(result.images.map(f => f.name)).toEqual(['page1.jpg']);
+        expect(result.unsupported.map(f => f.name)).toEqual(['notes.pdf']);
+    });
+
+    it('falls back to the extension when the MIME type is missing', () => {
+        const result = classifyLaunchFiles([
+            makeFile('tithe.XLS', 'application/octet-stream'),
+            makeFile('IMG-20250105-WA0003.jpeg'),
+        ]);
+
+        expect(result.spreadsheets).toHaveLength(1);
+        expect(result.images).toHaveLength(1);
+        // Images get a proper type so image-only inputs accept them
+        expect(result.images[0].type).toBe('image/jpeg');
+        expect(result.images[0].name).toBe('IMG-20250105-WA0003.jpeg');
+    });
+});
+
+describe('parseProtocolUrl', () => {
+    it('parses assembly links', () => {
+        expect(parseProtocolUrl('web+tactms://assembly/Jei%20Krodua')).toEqual({
+            type: 'assembly',
+            assemblyName: 'Jei Krodua',
+        });
+    });
+
+    it('parses favorite links', () => {
+        expect(parseProtocolUrl('web+tactms://favorite/fav-123')).toEqual({
+            type: 'favorite',
+            favoriteId: 'fav-123',
+        });
+    });
+
+    it('parses member links', () => {
+        expect(parseProtocolUrl('web+tactms://member/Central/TAC89JAM131001')).toEqual({
+            type: 'member',
+            assemblyName: 'Central',
+            memberId: 'TAC89JAM131001',
+        });
+    });
+
+    it('accepts links without slashes and ignores query strings', () => {
+        expect(parseProtocolUrl('WEB+TACTMS:assembly/Central?ref=whatsapp')).toEqual({
+            type: 'assembly',
+            assemblyName: 'Central',
+        });
+    });
+
+    it('rejects other schemes, unknown kinds and wrong segment counts', () => {
+        expect(parseProtocolUrl(null)).toBeNull();
+        expect(parseProtocolUrl('https://example.com/assembly/Central')).toBeNull();
+        expect(parseProtocolUrl('web+tactms://report/Central')).toBeNull();
+        expect(parseProtocolUrl('web+tactms://member/Central')).toBeNull();
+        expect(parseProtocolUrl('web+tactms://assembly/Central/extra')).toBeNull();
+        expect(parseProtocolUrl('web+tactms://assembly/%E0%A4%A')).toBeNull();
+    });
+});
+
+describe('buildProtocolUrl', () => {
+    it('round-trips through parseProtocolUrl', () => {
+        const targets: ProtocolTarget[] = [
+            { type: 'assembly', assemblyName: 'Jei Krodua' },
+            { type: 'favorite', favoriteId: 'fav/1' },
+            { type: 'member', assemblyName: 'Central', memberId: 'TAC 001' },
+        ];
+
+        targets.forEach(target => {
+            expect(parseProtocolUrl(buildProtocolUrl(target))).toEqual(target);
+        });
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Launch Targets
+ * Helpers for the ways the installed PWA can be launched with content:
+ * the manifest share_target (files shared from WhatsApp etc.), file_handlers
+ * (opening a file from the file manager) and the web+tactms:// protocol.
+ *
+ * Shared with sw.ts, so this module must not touch the DOM.
+ */
+
+// ============================================================================
+// SHARED FILES (share_target)
+// ============================================================================
+
+export const SHARED_FILES_CACHE = "tactms-shared-files";
+const SHARED_FILES_PATH = "/TACTMS/__shared__/";
+const FILE_NAME_HEADER = "X-Shared-File-Name";
+
+export interface ClassifiedLaunchFiles {
+    spreadsheets: File[];
+    images: File[];
+    unsupported: File[];
+}
+
+const SPREADSHEET_TYPES = [
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+const SPREADSHEET_EXTENSIONS = [".xls", ".xlsx"];
+const IMAGE_TYPES_BY_EXTENSION: Record<string, string> = {
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".png": "image/png",
+    ".webp": "image/webp",
+    ".heic": "image/heic",
+};
+const IMAGE_EXTENSIONS = Object.keys(IMAGE_TYPES_BY_EXTENSION);
+
+const hasExtension = (fileName: string, extensions: string[]) => {
+    const lower = fileName.toLowerCase();
+    return extensions.some((ext) => lower.endsWith(ext));
+};
+
+/**
+ * Split launched/shared files into the flows that can handle them.
+ * Messaging apps often send an empty or generic MIME type, so the file
+ * extension is checked as well.
+ */
+export const classifyLaunchFiles = (files: File[]): ClassifiedLaunchFiles => {
+    const result: ClassifiedLaunchFiles = { spreadsheets: [], images: [], unsupported: [] };
+
+    for (const file of files) {
+        if (SPREADSHEET_TYPES.includes(file.type) || hasExtension(file.name, SPREADSHEET_EXTENSIONS)) {
+            result.spreadsheets.push(file);
+        } else if (file.type.startsWith("image/")) {
+            result.images.push(file);
+        } else if (hasExtension(file.name, IMAGE_EXTENSIONS)) {
+            // Give the image a proper MIME type so image-only inputs accept it
+            const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+            result.images.push(new File([file], file.name, { type: IMAGE_TYPES_BY_EXTENSION[extension], lastModified: file.lastModified }));
+        } else {
+            result.unsupported.push(file);
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Store shared files in the Cache API so the page opened after the
+ * share-target POST can pick them up. Returns the share ID.
+ */
+export const storeSharedFiles = async (files: File[]): Promise<string> => {
+    const shareId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const cache = await caches.open(SHARED_FILES_CACHE);
+
+    await Promise.all(
+        files.map((file, index) =>
+            cache.put(
+                `${SHARED_FILES_PATH}${shareId}/${index}`,
+                new Response(file, {
+                    headers: {
+                        "Content-Type": file.type || "application/octet-stream",
+                        [FILE_NAME_HEADER]: encodeURIComponent(file.name),
+                    },
+                })
+            )
+        )
+    );
+
+    return shareId;
+};
+
+/**
+ * Read the files stored for a share and remove them from the cache.
+ * Files are returned in the order they were shared.
+ */
+export const consumeSharedFiles = async (shareId: string): Promise<File[]> => {
+    const cache = await caches.open(SHARED_FILES_CACHE);
+    const prefix = `${SHARED_FILES_PATH}${shareId}/`;
+    const requests = (await cache.keys()).filter((request) =>
+        new URL(request.url, "http://localhost").pathname.startsWith(prefix)
+    );
+
+    const entries = await Promise.all(
+        requests.map(async (request) => {
+            const response = await cache.match(request);
+            await cache.delete(request);
+            if (!response) return null;
+
+            const index = Number(new URL(request.url, "http://localhost").pathname.slice(prefix.length));
+            const name = decodeURIComponent(response.headers.get(FILE_NAME_HEADER) || `shared-file-${index}`);
+            const blob = await response.blob();
+            return { index, file: new File([blob], name, { type: response.headers.get("Content-Type") || blob.type }) };
+        })
+    );
+
+    return entries
+        .filter((entry): entry is { index: number; file: File } => entry !== null)
+        .sort((a, b) => a.index - b.index)
+        .map((entry) => entry.file);
+};
+
+// ============================================================================
+// PROTOCOL HANDLER (web+tactms://)
+// ============================================================================
+
+export type ProtocolTarget =
+    | { type: "assembly"; assemblyName: string }
+    | { type: "favorite"; favoriteId: string }
+    | { type: "member"; assemblyName: string; memberId: string };
+
+const PROTOCOL_PREFIX = /^web\+tactms:(\/\/)?/i;
+
+/**
+ * Parse a web+tactms link. Supported forms:
+ *   web+tactms://assembly/<assembly name>
+ *   web+tactms://favorite/<favorite id>
+ *   web+tactms://member/<assembly name>/<membership number>
+ * Returns null for anything else.
+ */
+export const parseProtocolUrl = (data: string | null | undefined): ProtocolTarget | null => {
+    if (!data || !PROTOCOL_PREFIX.test(data.trim())) return null;
+
+    let segments: string[];
+    try {
+        segments = data
+            .trim()
+            .replace(PROTOCOL_PREFIX, "")
+            .split(/[?#]/)[0]
+            .split("/")
+            .filter(Boolean)
+            .map((segment) => decodeURIComponent(segment).trim());
+    } catch {
+        return null; // Malformed percent-encoding
+    }
+
+    const [kind, first, second] = segments;
+    switch (kind?.toLowerCase()) {
+        case "assembly":
+            return first && segments.length === 2 ? { type: "assembly", assemblyName: first } : null;
+        case "favorite":
+            return first && segments.length === 2 ? { type: "favorite", favoriteId: first } : null;
+        case "member":
+            return first && second && segments.length === 3
+                ? { type: "member", assemblyName: first, memberId: second }
+                : null;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Build a web+tactms link for a target (inverse of parseProtocolUrl)
+ */
+export const buildProtocolUrl = (target: ProtocolTarget): string => {
+    switch (target.type) {
+        case "assembly":
+            return `web+tactms://assembly/${encodeURIComponent(target.assemblyName)}`;
+        case "favorite":
+            return `web+tactms://favorite/${encodeURIComponent(target.favoriteId)}`;
+        case "member":
+            return `web+tactms://member/${encodeURIComponent(target.assemblyName)}/${encodeURIComponent(target.memberId)}`;
+    }
+};
@@ -0,0 +1,65 @@
+/// <reference types="vitest/globals" />
+/**
+ * paymentMethods.test.ts
+ * Tests for per-record payment methods, references and per-method totals
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getRecordPaymentMethod,
+    hasPaymentReference,
+    isMobileMoneyMethod,
+    setRecordPaymentMethod,
+    sumAmountsByPaymentMethod,
+} from './paymentMethods';
+import { makeTitheRecord } from '@/test/titheFixtures';
+
+describe('getRecordPaymentMethod', () => {
+    it('treats a blank method as cash', () => {
+        expect(getRecordPaymentMethod(makeTitheRecord({ 'Payment Method': '' }))).toBe('Cash');
+        expect(getRecordPaymentMethod(makeTitheRecord({ 'Payment Method': 'MTN MoMo' }))).toBe('MTN MoMo');
+    });
+});
+
+describe('isMobileMoneyMethod / hasPaymentReference', () => {
+    it('distinguishes mobile money, bank and cash', () => {
+        expect(isMobileMoneyMethod('Vodafone Cash')).toBe(true);
+        expect(isMobileMoneyMethod('Bank Transfer')).toBe(false);
+        expect(hasPaymentReference('Bank Transfer')).toBe(true);
+        expect(hasPaymentReference('Cash')).toBe(false);
+    });
+});
+
+describe('setRecordPaymentMethod', () => {
+    it('stores a trimmed reference for mobile money', () => {
+        const record = setRecordPaymentMethod(makeTitheRecord(), 'MTN MoMo', ' 4471920 ');
+
+        expect(record['Payment Method']).toBe('MTN MoMo');
+        expect(record['Payment Reference']).toBe('4471920');
+    });
+
+    it('keeps the existing reference when only the method changes', () => {
+        const momo = makeTitheRecord({ 'Payment Method': 'MTN MoMo', 'Payment Reference': 'ABC' });
+
+        expect(setRecordPaymentMethod(momo, 'Vodafone Cash')['Payment Reference']).toBe('ABC');
+    });
+
+    it('clears the reference when switching back to cash', () => {
+        const momo = makeTitheRecord({ 'Payment Method': 'MTN MoMo', 'Payment Reference': 'ABC' });
+
+        expect(setRecordPaymentMethod(momo, 'Cash')['Payment Reference']).toBe('');
+    });
+});
+
+describe('sumAmountsByPaymentMethod', () => {
+    it('totals GHS equivalents per method', () => {
+        const totals = sumAmountsByPaymentMethod([
+            makeTitheRecord(),
+            makeTitheRecord({ 'Payment Method': 'MTN MoMo', 'Transaction Amount': 50 }),
+            makeTitheRecord({ 'Payment Method': 'MTN MoMo', 'Transaction Amount': '' }),
+            makeTitheRecord({ 'Payment Method': 'Bank Transfer', Currency: 'USD', 'Exchange Rate': 15, 'Transaction Amount': 10 }),
+        ]);
+
+        expect(totals).toEqual({ Cash: 100, 'MTN MoMo': 50, 'Bank Transfer': 150 });
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Payment method helpers
+ * Each record carries how it was paid (cash, mobile money, bank transfer).
+ * Non-cash payments may also carry the transfer reference so weekly totals
+ * can be reconciled against MoMo and bank statements.
+ */
+
+import { TitheRecordB } from "../types";
+import { DEFAULT_PAYMENT_METHOD, MOBILE_MONEY_METHODS } from "../constants";
+import { getAmountInGHS } from "./currency";
+
+export const getRecordPaymentMethod = (record: Pick<TitheRecordB, "Payment Method">): string =>
+    record["Payment Method"] || DEFAULT_PAYMENT_METHOD;
+
+export const isMobileMoneyMethod = (method: string): boolean =>
+    MOBILE_MONEY_METHODS.includes(method);
+
+/** Cash has nothing to reconcile; every other method can carry a reference */
+export const hasPaymentReference = (method: string): boolean =>
+    method !== DEFAULT_PAYMENT_METHOD;
+
+/**
+ * Sets a record's payment method, dropping the reference when switching
+ * back to cash.
+ */
+export const setRecordPaymentMethod = (
+    record: TitheRecordB,
+    method: string,
+    reference?: string,
+): TitheRecordB => ({
+    ...record,
+    "Payment Method": method,
+    "Payment Reference": hasPaymentReference(method)
+        ? (reference ?? record["Payment Reference"] ?? "").trim()
+        : "",
+});
+
+/**
+ * GHS totals keyed by payment method. Adds into `into` when given so
+ * callers can accumulate across several lists.
+ */
+export const sumAmountsByPaymentMethod = (
+    records: TitheRecordB[],
+    into: Record<string, number> = {},
+): Record<string, number> => {
+    for (const record of records) {
+        const amount = getAmountInGHS(record);
+        if (amount <= 0) continue;
+        const method = getRecordPaymentMethod(record);
+        into[method] = (into[method] || 0) + amount;
+    }
+    return into;
+};
@@ -7,6 +7,10 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { TitheRecordB, TransactionLogEntry, MemberDatabase } from '@/types';
 import { calculateAssemblyAnalytics, getMonthlyTitheSummary, MemberTithingPattern } from '@/services/analyticsCalculator';
+import { formatRecordAmount, getAmountInGHS, getRecordAmount, sumAmountsInGHS } from '@/lib/currency';
+import { isTitheRecord } from '@/lib/transactionTypes';
+import { getRecordPaymentMethod, sumAmountsByPaymentMethod } from '@/lib/paymentMethods';
+import { PledgeProgress } from '@/services/pledgeLedger';
 
 // Extend jsPDF with autoTable
 declare module 'jspdf' {
@@ -76,8 +80,8 @@ export const generateWeeklySummaryPDF = (
     addHeader(doc, 'WEEKLY TITHE SUMMARY', `${assemblyName} Assembly | ${date}`);
 
     // Summary stats
-    const totalAmount = titheList.reduce((sum, r) => sum + (Number(r["Transaction Amount"]) || 0), 0);
-    const tithersCount = titheList.filter(r => (Number(r["Transaction Amount"]) || 0) > 0).length;
+    const totalAmount = sumAmountsInGHS(titheList);
+    const tithersCount = titheList.filter(r => getRecordAmount(r) > 0).length;
 
     doc.setFontSize(11);
     doc.setFont('helvetica', 'bold');
@@ -86,27 +90,41 @@ export const generateWeeklySummaryPDF = (
 
     // Tithe list table
     const tableData = titheList
-        .filter(r => (Number(r["Transaction Amount"]) || 0) > 0)
+        .filter(r => getRecordAmount(r) > 0)
         .map((r, i) => [
             i + 1,
             r["Membership Number"].replace(/\s*\([^)]*\)/, ''), // Remove ID part for brevity
-            `GHS ${Number(r["Transaction Amount"]).toLocaleString()}`
+            [getRecordPaymentMethod(r), r["Payment Reference"]].filter(Boolean).join(' / '),
+            formatRecordAmount(r)
         ]);
 
     autoTable(doc, {
         startY: 65,
-        head: [['#', 'Member Name', 'Amount']],
+        head: [['#', 'Member Name', 'Method', 'Amount']],
         body: tableData,
         theme: 'striped',
         headStyles: { fillColor: TAC_GREEN, textColor: [255, 255, 255] },
         columnStyles: {
             0: { cellWidth: 15 },
             1: { cellWidth: 'auto' },
-            2: { cellWidth: 40, halign: 'right' }
+            2: { cellWidth: 45 },
+            3: { cellWidth: 40, halign: 'right' }
         },
         styles: { fontSize: 9 },
     });
 
+    // Payment method totals, for reconciling against MoMo / bank statements
+    const methodTotals = Object.entries(sumAmountsByPaymentMethod(titheList));
+    autoTable(doc, {
+        startY: doc.lastAutoTable.finalY + 10,
+        head: [['Payment Method', 'Total']],
+        body: methodTotals.map(([method, total]) => [method, `GHS ${total.toLocaleString()}`]),
+        theme: 'grid',
+        headStyles: { fillColor: TAC_GREEN },
+        columnStyles: { 1: { halign: 'right' } },
+        tableWidth: 100,
+    });
+
     addFooter(doc);
     return doc;
 };
@@ -137,7 +155,7 @@ export const generateMonthlySummaryPDF = (
     const weeklyTotals = monthLogs.map(log => ({
         date: new Date(log.selectedDate).toLocaleDateString('en-GB', { day: '2-digit', month: 'short' }),
         amount: log.totalTitheAmount,
-        tithers: log.titheListData.filter(r => (Number(r["Transaction Amount"]) || 0) > 0).length
+        tithers: log.titheListData.filter(r => getRecordAmount(r) > 0).length
     }));
 
     // Summary
@@ -191,9 +209,10 @@ export const generateMemberStatementPDF = (
         if (!yearMatch) continue;
 
         for (const record of log.titheListData) {
+            if (!isTitheRecord(record)) continue;
             const recordMemberId = record["Membership Number"];
             if (recordMemberId.includes(memberId)) {
-                const amount = Number(record["Transaction Amount"]) || 0;
+                const amount = getAmountInGHS(record);
                 if (amount > 0) {
                     memberTithes.push({
                         date: record["Transaction Date ('DD-MMM-YYYY')"],
@@ -221,6 +240,70 @@ export const generateMemberStatementPDF = (
     return doc;
 };
 
+/**
+ * Generate Member Pledge Statement PDF
+ * One summary row per pledge, then every payment applied to it.
+ */
+export const generatePledgeStatementPDF = (
+    memberName: string,
+    memberId: string,
+    pledges: PledgeProgress[]
+): jsPDF => {
+    const doc = new jsPDF('p', 'mm', 'a4');
+
+    addHeader(doc, 'MEMBER PLEDGE STATEMENT', `As at ${new Date().toLocaleDateString('en-GB')}`);
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Member: ${memberName}`, 14, 50);
+    doc.text(`Membership No: ${memberId}`, 14, 57);
+
+    const totalPledged = pledges.reduce((sum, p) => sum + p.pledge.amount, 0);
+    const totalPaid = pledges.reduce((sum, p) => sum + p.paid, 0);
+    const totalBalance = pledges.reduce((sum, p) => sum + p.balance, 0);
+    doc.text(
+        `Pledged: GHS ${totalPledged.toLocaleString()}   Paid: GHS ${totalPaid.toLocaleString()}   Balance: GHS ${totalBalance.toLocaleString()}`,
+        14,
+        64
+    );
+
+    autoTable(doc, {
+        startY: 74,
+        head: [['Campaign', 'Deadline', 'Pledged', 'Paid', 'Balance', 'Status']],
+        body: pledges.map(p => [
+            p.pledge.campaign,
+            p.pledge.deadline,
+            `GHS ${p.pledge.amount.toLocaleString()}`,
+            `GHS ${p.paid.toLocaleString()}`,
+            `GHS ${p.balance.toLocaleString()}`,
+            `${p.status.toUpperCase()} (${p.percent}%)`
+        ]),
+        theme: 'grid',
+        headStyles: { fillColor: TAC_GREEN },
+    });
+
+    const payments = pledges.flatMap(p =>
+        p.payments.map(payment => [payment.date, p.pledge.campaign, `GHS ${payment.amount.toLocaleString()}`])
+    );
+
+    if (payments.length > 0) {
+        doc.setFontSize(12);
+        doc.setFont('helvetica', 'bold');
+        doc.text('Payments', 14, doc.lastAutoTable.finalY + 12);
+
+        autoTable(doc, {
+            startY: doc.lastAutoTable.finalY + 16,
+            head: [['Date', 'Campaign', 'Amount']],
+            body: payments,
+            theme: 'striped',
+            headStyles: { fillColor: TAC_GREEN },
+        });
+    }
+
+    addFooter(doc);
+    return doc;
+};
+
 /**
  * Generate Annual Report PDF with charts
  */
@@ -1,6 +1,8 @@
 import { TransactionLogEntry, MemberDatabase, ReportData } from "../types";
 import { DEFAULT_ASSEMBLIES } from "@/context";
 import { escapeCsvField } from "./exportUtils";
+import { formatTransactionType, mergeTotalsByType, sumAmountsByType } from "./transactionTypes";
+import { sumAmountsByPaymentMethod } from "./paymentMethods";
 
 const getWeekOfYear = (date: Date) => {
   const target = new Date(date.valueOf());
@@ -27,12 +29,14 @@ export const processDataForReports = (
     }
   > = {};
 
-  const initAssemblyData = () => DEFAULT_ASSEMBLIES.map((name) => ({
+  const initAssemblyData = (): ReportData[] => DEFAULT_ASSEMBLIES.map((name) => ({
     assemblyName: name,
     totalTithe: 0,
     soulsWon: 0,
     titherCount: 0,
     recordCount: 0,
+    totalsByType: {},
+    totalsByPaymentMethod: {},
   }));
 
   transactionLog.forEach((log) => {
@@ -58,6 +62,9 @@ export const processDataForReports = (
       yearlyData[year].days[month][day] = initAssemblyData();
     }
 
+    const logTotalsByType = sumAmountsByType(log.titheListData || []);
+    const logTotalsByMethod = sumAmountsByPaymentMethod(log.titheListData || []);
+
     const assemblyReportMonth = yearlyData[year].months[month].find(
       (r) => r.assemblyName === log.assemblyName,
     );
@@ -72,16 +79,22 @@ export const processDataForReports = (
       assemblyReportMonth.totalTithe += log.totalTitheAmount;
       assemblyReportMonth.titherCount += log.titherCount;
       assemblyReportMonth.recordCount += log.recordCount;
+      assemblyReportMonth.totalsByType = mergeTotalsByType(assemblyReportMonth.totalsByType, logTotalsByType);
+      assemblyReportMonth.totalsByPaymentMethod = mergeTotalsByType(assemblyReportMonth.totalsByPaymentMethod, logTotalsByMethod);
     }
     if (assemblyReportWeek) {
       assemblyReportWeek.totalTithe += log.totalTitheAmount;
       assemblyReportWeek.titherCount += log.titherCount;
       assemblyReportWeek.recordCount += log.recordCount;
+      assemblyReportWeek.totalsByType = mergeTotalsByType(assemblyReportWeek.totalsByType, logTotalsByType);
+      assemblyReportWeek.totalsByPaymentMethod = mergeTotalsByType(assemblyReportWeek.totalsByPaymentMethod, logTotalsByMethod);
     }
     if (assemblyReportDay) {
       assemblyReportDay.totalTithe += log.totalTitheAmount;
       assemblyReportDay.titherCount += log.titherCount;
       assemblyReportDay.recordCount += log.recordCount;
+      assemblyReportDay.totalsByType = mergeTotalsByType(assemblyReportDay.totalsByType, logTotalsByType);
+      assemblyReportDay.totalsByPaymentMethod = mergeTotalsByType(assemblyReportDay.totalsByPaymentMethod, logTotalsByMethod);
     }
   });
 
@@ -133,6 +146,8 @@ export const aggregateReportData = (
   const summary = {
     totalTithe: 0,
     totalSouls: 0,
+    totalsByType: {} as Record<string, number>,
+    totalsByPaymentMethod: {} as Record<string, number>,
     topPerformingAssembly: { name: "N/A", value: 0 },
     topGrowthAssembly: { name: "N/A", value: 0 },
     performance: [] as any[],
@@ -148,9 +163,12 @@ export const aggregateReportData = (
       Object.keys(data[month]).forEach((day) => {
         let periodTithe = 0;
         let periodSouls = 0;
+        let periodMethods: Record<string, number> = {};
         data[month][day].forEach((report: ReportData) => {
           periodTithe += report.totalTithe;
           periodSouls += report.soulsWon;
+          periodMethods = mergeTotalsByType(periodMethods, report.totalsByPaymentMethod || {});
+          summary.totalsByType = mergeTotalsByType(summary.totalsByType, report.totalsByType || {});
           const current = assemblyTotals.get(report.assemblyName) || {
             totalTithe: 0,
             soulsWon: 0,
@@ -162,10 +180,12 @@ export const aggregateReportData = (
         });
         summary.totalTithe += periodTithe;
         summary.totalSouls += periodSouls;
+        summary.totalsByPaymentMethod = mergeTotalsByType(summary.totalsByPaymentMethod, periodMethods);
         summary.performance.push({
           key: `${month}/${day}`,
           totalTithe: periodTithe,
           soulsWon: periodSouls,
+          totalsByPaymentMethod: periodMethods,
         });
       });
     });
@@ -173,9 +193,12 @@ export const aggregateReportData = (
     Object.keys(data).forEach((key) => {
       let periodTithe = 0;
       let periodSouls = 0;
+      let periodMethods: Record<string, number> = {};
       data[key].forEach((report: ReportData) => {
         periodTithe += report.totalTithe;
         periodSouls += report.soulsWon;
+        periodMethods = mergeTotalsByType(periodMethods, report.totalsByPaymentMethod || {});
+        summary.totalsByType = mergeTotalsByType(summary.totalsByType, report.totalsByType || {});
         const current = assemblyTotals.get(report.assemblyName) || {
           totalTithe: 0,
           soulsWon: 0,
@@ -187,10 +210,12 @@ export const aggregateReportData = (
       });
       summary.totalTithe += periodTithe;
       summary.totalSouls += periodSouls;
+      summary.totalsByPaymentMethod = mergeTotalsByType(summary.totalsByPaymentMethod, periodMethods);
       summary.performance.push({
         key,
         totalTithe: periodTithe,
         soulsWon: periodSouls,
+        totalsByPaymentMethod: periodMethods,
       });
     });
   }
@@ -229,11 +254,25 @@ export const exportToCsv = (summary: any, selectedYear: number, granularity: str
   csvContent += `Top Performing Assembly (Tithe),${escapeCsvField(summary.topPerformingAssembly.name)},${escapeCsvField(summary.topPerformingAssembly.value)}\n`;
   csvContent += `Top Performing Assembly (Growth),${escapeCsvField(summary.topGrowthAssembly.name)},${escapeCsvField(summary.topGrowthAssembly.value)}\n\n`;
 
+  const typeTotals = Object.entries(summary.totalsByType || {}) as [string, number][];
+  if (typeTotals.length > 0) {
+    csvContent += `Totals by Transaction Type\n`;
+    csvContent += `Transaction Type,Total (GHS)\n`;
+    typeTotals.forEach(([type, total]) => {
+      csvContent += `${escapeCsvField(formatTransactionType(type))},${escapeCsvField(total)}\n`;
+    });
+    csvContent += `\n`;
+  }
+
+  // One column per payment method seen this year, for MoMo/bank reconciliation
+  const methods = Object.keys(summary.totalsByPaymentMethod || {});
+
   csvContent += `Performance Data (${granularity})\n`;
-  csvContent += `Period,Total Tithe,Souls Won\n`;
+  csvContent += ["Period", "Total Tithe", "Souls Won", ...methods].map(escapeCsvField).join(",") + `\n`;
 
   summary.performance.forEach((perf: any) => {
-    csvContent += `${escapeCsvField(perf.key)},${escapeCsvField(perf.totalTithe)},${escapeCsvField(perf.soulsWon)}\n`;
+    const methodTotals = methods.map((method) => escapeCsvField(perf.totalsByPaymentMethod?.[method] || 0));
+    csvContent += [escapeCsvField(perf.key), escapeCsvField(perf.totalTithe), escapeCsvField(perf.soulsWon), ...methodTotals].join(",") + `\n`;
   });
 
   return csvContent;
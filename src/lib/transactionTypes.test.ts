@@ -0,0 +1,78 @@
+/// <reference types="vitest/globals" />
+/**
+ * transactionTypes.test.ts
+ * Tests for per-list transaction type settings and per-type totals
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyTransactionSettings,
+    formatTransactionType,
+    getTransactionSettings,
+    isTitheRecord,
+    mergeTotalsByType,
+    sumAmountsByType,
+} from './transactionTypes';
+import { makeTitheRecord } from '@/test/titheFixtures';
+
+describe('formatTransactionType', () => {
+    it('drops the ledger suffix', () => {
+        expect(formatTransactionType('Sunday Offering-[Income]')).toBe('Sunday Offering');
+        expect(formatTransactionType('Custom')).toBe('Custom');
+    });
+});
+
+describe('isTitheRecord', () => {
+    it('treats blank types as tithes', () => {
+        expect(isTitheRecord(makeTitheRecord())).toBe(true);
+        expect(isTitheRecord(makeTitheRecord({ 'Transaction Type': '' }))).toBe(true);
+        expect(isTitheRecord(makeTitheRecord({ 'Transaction Type': 'Welfare Dues-[Income]' }))).toBe(false);
+    });
+});
+
+describe('getTransactionSettings', () => {
+    it('prefers saved settings, then the list, then defaults', () => {
+        const saved = { transactionType: 'Harvest Pledge-[Income]', paymentSourceType: 'Non-Member' };
+        const list = [makeTitheRecord({ 'Transaction Type': 'Welfare Dues-[Income]' })];
+
+        expect(getTransactionSettings(list, saved)).toBe(saved);
+        expect(getTransactionSettings(list)).toEqual({
+            transactionType: 'Welfare Dues-[Income]',
+            paymentSourceType: 'Registered Member',
+        });
+        expect(getTransactionSettings([]).transactionType).toBe('Individual Tithe-[Income]');
+    });
+});
+
+describe('applyTransactionSettings', () => {
+    it('restamps every record without touching amounts', () => {
+        const [record] = applyTransactionSettings([makeTitheRecord()], {
+            transactionType: 'Sunday Offering-[Income]',
+            paymentSourceType: 'Visitor',
+        });
+
+        expect(record['Transaction Type']).toBe('Sunday Offering-[Income]');
+        expect(record['Payment Source Type']).toBe('Visitor');
+        expect(record['Transaction Amount']).toBe(100);
+    });
+});
+
+describe('sumAmountsByType / mergeTotalsByType', () => {
+    it('sums GHS equivalents per type and skips empty amounts', () => {
+        const totals = sumAmountsByType([
+            makeTitheRecord(),
+            makeTitheRecord({ 'Transaction Amount': '' }),
+            makeTitheRecord({ 'Transaction Type': 'Sunday Offering-[Income]', Currency: 'USD', 'Exchange Rate': 15, 'Transaction Amount': 2 }),
+        ]);
+
+        expect(totals).toEqual({ 'Individual Tithe-[Income]': 100, 'Sunday Offering-[Income]': 30 });
+    });
+
+    it('merges without mutating either side', () => {
+        const a = { 'Individual Tithe-[Income]': 100 };
+        const merged = mergeTotalsByType(a, { 'Individual Tithe-[Income]': 50, 'Welfare Dues-[Income]': 10 });
+
+        expect(merged).toEqual({ 'Individual Tithe-[Income]': 150, 'Welfare Dues-[Income]': 10 });
+        expect(a).toEqual({ 'Individual Tithe-[Income]': 100 });
+    });
+});
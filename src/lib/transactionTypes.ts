@@ -0,0 +1,78 @@
+/**
+ * Transaction type helpers
+ * A list carries one Transaction Type and Payment Source Type (tithe, Sunday
+ * offering, welfare dues, ...). Records store both so exports and analytics
+ * can tell the kinds of giving apart.
+ */
+
+import { TitheRecordB, TransactionSettings } from "../types";
+import { DEFAULT_TRANSACTION_SETTINGS } from "../constants";
+import { getAmountInGHS } from "./currency";
+
+/** "Sunday Offering-[Income]" → "Sunday Offering" */
+export const formatTransactionType = (transactionType: string): string =>
+    transactionType.replace(/-\[[^\]]*\]$/, "").trim();
+
+export const getRecordTransactionType = (record: Pick<TitheRecordB, "Transaction Type">): string =>
+    record["Transaction Type"] || DEFAULT_TRANSACTION_SETTINGS.transactionType;
+
+/** Individual tithes are the only records that feed member tithing patterns */
+export const isTitheRecord = (record: Pick<TitheRecordB, "Transaction Type">): boolean =>
+    getRecordTransactionType(record) === DEFAULT_TRANSACTION_SETTINGS.transactionType;
+
+/**
+ * Reads the settings a list was built with, falling back to the defaults
+ * for saved lists without them (favorites and logs from before types were
+ * configurable).
+ */
+export const getTransactionSettings = (
+    list: TitheRecordB[],
+    saved?: TransactionSettings,
+): TransactionSettings => {
+    if (saved) return saved;
+    const first = list[0];
+    if (!first) return DEFAULT_TRANSACTION_SETTINGS;
+    return {
+        transactionType: first["Transaction Type"] || DEFAULT_TRANSACTION_SETTINGS.transactionType,
+        paymentSourceType: first["Payment Source Type"] || DEFAULT_TRANSACTION_SETTINGS.paymentSourceType,
+    };
+};
+
+export const applyTransactionSettings = (
+    records: TitheRecordB[],
+    settings: TransactionSettings,
+): TitheRecordB[] =>
+    records.map((record) => ({
+        ...record,
+        "Transaction Type": settings.transactionType,
+        "Payment Source Type": settings.paymentSourceType,
+    }));
+
+/**
+ * GHS totals keyed by Transaction Type. Adds into `into` when given so
+ * callers can accumulate across several lists.
+ */
+export const sumAmountsByType = (
+    records: TitheRecordB[],
+    into: Record<string, number> = {},
+): Record<string, number> => {
+    for (const record of records) {
+        const amount = getAmountInGHS(record);
+        if (amount <= 0) continue;
+        const type = getRecordTransactionType(record);
+        into[type] = (into[type] || 0) + amount;
+    }
+    return into;
+};
+
+/** Merges per-type totals, returning a new object */
+export const mergeTotalsByType = (
+    a: Record<string, number>,
+    b: Record<string, number>,
+): Record<string, number> => {
+    const merged = { ...a };
+    for (const [type, amount] of Object.entries(b)) {
+        merged[type] = (merged[type] || 0) + amount;
+    }
+    return merged;
+};
@@ -33,6 +33,7 @@ import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import { useOutletContext } from "react-router-dom";
 import DOMPurify from "dompurify";
 import { GEMINI_MODEL_NAME } from "@/constants";
+import { sumAmountsInGHS } from "@/lib/currency";
 
 interface AnalyticsSectionProps {
   titheListData: TitheRecordB[];
@@ -622,7 +623,7 @@ const AnalyticsSection: React.FC = () => {
           assemblyName: currentAssembly || 'General',
           timestamp: Date.now(),
           selectedDate: new Date().toISOString(),
-          totalTitheAmount: titheListData.reduce((sum, t) => sum + (typeof t["Transaction Amount"] === 'number' ? t["Transaction Amount"] : parseFloat(String(t["Transaction Amount"])) || 0), 0),
+          totalTitheAmount: sumAmountsInGHS(titheListData),
           soulsWonCount: 0,
           titherCount: new Set(titheListData.map(t => t["Membership Number"])).size,
           recordCount: titheListData.length,
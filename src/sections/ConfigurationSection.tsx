@@ -21,6 +21,7 @@ import {
   TitheRecordB,
   ConcatenationConfig,
   GoogleUserProfile,
+  TransactionSettings,
 } from "../types";
 import ValidationReportSection from "./ValidationReportSection";
 
@@ -53,6 +54,8 @@ interface ConfigurationSectionProps {
   descriptionText: string;
   onDateChange: (date: Date) => void;
   onDescriptionChange: (description: string) => void;
+  transactionSettings: TransactionSettings;
+  handleTransactionSettingsChange: (settings: TransactionSettings) => void;
   amountMappingColumn: string | null;
   setAmountMappingColumn: (value: string | null) => void;
   handleGenerateValidationReport: () => void;
@@ -148,6 +151,8 @@ const ConfigurationSection: React.FC<ConfigurationSectionProps> = (props) => {
                     descriptionText={props.descriptionText}
                     onDateChange={props.onDateChange}
                     onDescriptionChange={props.onDescriptionChange}
+                    transactionSettings={props.transactionSettings}
+                    onTransactionSettingsChange={props.handleTransactionSettingsChange}
                   />
                   <AgeFilterSection
                     ageRangeMin={props.ageRangeMin}
@@ -21,6 +21,9 @@ import {
   DashboardStatsGrid,
   QuickActionsGrid,
   ScanAssemblyModal,
+  ALL_WEEKS,
+  AUTO_DETECT_SCRIBE,
+  PledgeFulfilmentCard,
 } from "@/components/dashboard";
 import PredictiveInsightsCard from "@/components/dashboard/PredictiveInsightsCard";
 
@@ -31,7 +34,9 @@ interface DashboardSectionProps {
   onStartNewWeek: (assemblyName: string) => void;
   userProfile: GoogleUserProfile | null;
   onUploadFile: (file: File | null, isMasterList: boolean) => void;
-  onScanImage: (file: File, assemblyName?: string, month?: string, week?: string) => void;
+  /** `scribeId` is left out to detect the writer from the handwriting */
+  onScanImage: (file: File, assemblyName?: string, month?: string, week?: string, scribeId?: string) => void;
+  onScanMonth: (file: File, assemblyName: string, month: string, year: number, scribeId?: string) => void;
 }
 
 const DashboardSection: React.FC = () => {
@@ -41,6 +46,7 @@ const DashboardSection: React.FC = () => {
     onStartNewWeek,
     userProfile,
     onScanImage,
+    onScanMonth,
   } = useOutletContext<DashboardSectionProps>();
   const [selectedAssembly, setSelectedAssembly] = useState("");
   const imageInputRef = React.useRef<HTMLInputElement>(null);
@@ -54,6 +60,14 @@ const DashboardSection: React.FC = () => {
   const [scanAssembly, setScanAssembly] = useState("");
   const [scanMonth, setScanMonth] = useState<string>(new Date().toLocaleString('default', { month: 'long' }));
   const [scanWeek, setScanWeek] = useState<string>("Week 1");
+  const [scanYear, setScanYear] = useState<number>(new Date().getFullYear());
+  const [scanScribe, setScanScribe] = useState<string>(AUTO_DETECT_SCRIBE);
+
+  const handleScanAssemblyChange = (assembly: string) => {
+    setScanAssembly(assembly);
+    // Scribes belong to one assembly
+    setScanScribe(AUTO_DETECT_SCRIBE);
+  };
 
 
 
@@ -203,6 +217,7 @@ const DashboardSection: React.FC = () => {
         if (detected.week) {
           setScanWeek(`Week ${detected.week}`);
         }
+        setScanYear(detected.year ?? new Date().getFullYear());
         console.log('[SmartDate] Auto-detected:', detected);
       } catch (e) {
         // Fallback to current month if detection fails
@@ -224,7 +239,12 @@ const DashboardSection: React.FC = () => {
       return;
     }
     scanAssemblyModal.close();
-    onScanImage(pendingScanFile!, scanAssembly, scanMonth, scanWeek);
+    const scribeId = scanScribe === AUTO_DETECT_SCRIBE ? undefined : scanScribe;
+    if (scanWeek === ALL_WEEKS) {
+      onScanMonth(pendingScanFile!, scanAssembly, scanMonth, scanYear, scribeId);
+    } else {
+      onScanImage(pendingScanFile!, scanAssembly, scanMonth, scanWeek, scribeId);
+    }
     setPendingScanFile(null);
   };
 
@@ -310,6 +330,8 @@ const DashboardSection: React.FC = () => {
             <RecentMembersList members={recentlyAddedMembers} />
             <RecentActivityList activities={stats.recentActivities} />
           </div>
+
+          <PledgeFulfilmentCard transactionLog={transactionLog} />
         </motion.div>
 
         {/* AI Predictions Card - Stretches to match left column */}
@@ -346,11 +368,15 @@ const DashboardSection: React.FC = () => {
           setPendingScanFile(null);
         }}
         scanAssembly={scanAssembly}
-        setScanAssembly={setScanAssembly}
+        setScanAssembly={handleScanAssemblyChange}
         scanMonth={scanMonth}
         setScanMonth={setScanMonth}
         scanWeek={scanWeek}
         setScanWeek={setScanWeek}
+        scanYear={scanYear}
+        setScanYear={setScanYear}
+        scanScribe={scanScribe}
+        setScanScribe={setScanScribe}
         assembliesWithData={assembliesWithData}
         onConfirm={handleConfirmScanAssembly}
       />
@@ -0,0 +1,235 @@
+/**
+ * Launch Handler Section
+ * Landing route for PWA launches that carry content: files shared into the
+ * app (share_target), files opened from the file manager (file_handlers)
+ * and web+tactms:// links (protocol_handlers).
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useOutletContext, useSearchParams } from "react-router-dom";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import BatchImageProcessor from "@/components/BatchImageProcessor";
+import { useBatchProcessor } from "@/hooks/useBatchProcessor";
+import { useDatabaseContext, useWorkspaceContext } from "@/context";
+import { calculateSundayDate, formatDateDDMMMYYYY } from "@/lib/dataTransforms";
+import { classifyLaunchFiles, consumeSharedFiles, parseProtocolUrl } from "@/lib/launchTargets";
+import { applyTransactionSettings } from "@/lib/transactionTypes";
+import { FavoriteConfig, MemberDatabase, TransactionLogEntry } from "@/types";
+
+export type LaunchMode = "share" | "file" | "protocol";
+
+interface LaunchHandlerSectionProps {
+  memberDatabase: MemberDatabase;
+  favorites: FavoriteConfig[];
+  transactionLog: TransactionLogEntry[];
+  onUploadFile: (file: File | null, isMasterList: boolean, assemblyName?: string) => void;
+  loadFavorite: (favId: string) => void;
+  addToast: (message: string, type: "info" | "success" | "error" | "warning", duration?: number) => void;
+}
+
+const findAssemblyName = (memberDatabase: MemberDatabase, name: string) =>
+  Object.keys(memberDatabase).find((key) => key.toLowerCase() === name.toLowerCase());
+
+const LaunchHandlerSection: React.FC<{ mode: LaunchMode }> = ({ mode }) => {
+  const {
+    memberDatabase,
+    favorites = [],
+    transactionLog = [],
+    onUploadFile,
+    loadFavorite,
+    addToast,
+  } = useOutletContext<LaunchHandlerSectionProps>();
+  const {
+    currentAssembly,
+    hasUnsavedChanges,
+    setCurrentAssembly,
+    setTitheListData,
+    setHasUnsavedChanges,
+    setSelectedDate,
+    setFileNameToSave,
+    transactionSettings,
+  } = useWorkspaceContext();
+  const { isLoaded } = useDatabaseContext();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [sharedImages, setSharedImages] = useState<File[] | null>(null);
+  // Set once batch results reach the list but the modal stays open for their report
+  const [batchApplied, setBatchApplied] = useState(false);
+  const handledRef = useRef(false);
+
+  const { processBatch, cancelBatch, isProcessing } = useBatchProcessor({ memberDatabase, transactionLog });
+
+  const handleFiles = useCallback(
+    (files: File[]) => {
+      const { spreadsheets, images, unsupported } = classifyLaunchFiles(files);
+
+      if (unsupported.length > 0) {
+        addToast(
+          `Ignored ${unsupported.length} unsupported file(s). Share Excel lists or photos of tithe book pages.`,
+          "warning",
+        );
+      }
+
+      if (images.length > 0) {
+        if (images.length > 4) {
+          addToast("Only the first 4 images can be processed at once.", "info");
+        }
+        setSharedImages(images);
+      } else {
+        navigate("/", { replace: true });
+      }
+
+      // handleFileAccepted detects master vs tithe list from the contents
+      spreadsheets.forEach((file) => onUploadFile(file, false));
+
+      if (files.length === 0) {
+        addToast("No files were received.", "warning");
+      }
+    },
+    [addToast, navigate, onUploadFile],
+  );
+
+  const handleProtocol = useCallback(
+    (data: string | null) => {
+      const target = parseProtocolUrl(data);
+      if (!target) {
+        addToast("That TACTMS link is not recognised.", "error");
+        navigate("/", { replace: true });
+        return;
+      }
+
+      if (target.type === "favorite") {
+        if (!favorites.some((fav) => fav.id === target.favoriteId)) {
+          addToast("Favorite not found.", "error");
+          navigate("/favorites", { replace: true });
+          return;
+        }
+        loadFavorite(target.favoriteId); // Navigates to the processor
+        return;
+      }
+
+      const assemblyName = findAssemblyName(memberDatabase, target.assemblyName);
+      if (!assemblyName) {
+        addToast(`Assembly "${target.assemblyName}" was not found.`, "error");
+        navigate("/database", { replace: true });
+        return;
+      }
+
+      const params = new URLSearchParams({ assembly: assemblyName });
+      if (target.type === "member") params.set("member", target.memberId);
+      navigate(`/database?${params.toString()}`, { replace: true });
+    },
+    [addToast, favorites, loadFavorite, memberDatabase, navigate],
+  );
+
+  useEffect(() => {
+    // Wait for the member database so assembly lookups see real data
+    if (handledRef.current || !isLoaded) return;
+    handledRef.current = true;
+
+    if (mode === "protocol") {
+      handleProtocol(searchParams.get("data"));
+      return;
+    }
+
+    if (mode === "share") {
+      const shareId = searchParams.get("share");
+      if (!shareId || !("caches" in window)) {
+        addToast("The shared files could not be received.", "error");
+        navigate("/", { replace: true });
+        return;
+      }
+      consumeSharedFiles(shareId)
+        .then(handleFiles)
+        .catch((e) => {
+          console.error("Failed to read shared files:", e);
+          addToast("The shared files could not be read.", "error");
+          navigate("/", { replace: true });
+        });
+      return;
+    }
+
+    const launchQueue = window.launchQueue;
+    if (!launchQueue) {
+      navigate("/", { replace: true });
+      return;
+    }
+    launchQueue.setConsumer(async (launchParams) => {
+      if (!launchParams.files || launchParams.files.length === 0) return;
+      const files = await Promise.all(launchParams.files.map((handle) => handle.getFile()));
+      handleFiles(files);
+    });
+    // Launch data is read once, after the database loads
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoaded]);
+
+  const handleImagesProcess = async (
+    files: File[],
+    assembly: string,
+    month: string,
+    week: string,
+    onProgress?: (completed: number, total: number) => void,
+  ) => {
+    if (hasUnsavedChanges && currentAssembly !== assembly) {
+      addToast(
+        "You have unsaved changes. Please save or discard them before loading a new file.",
+        "warning",
+        5000,
+      );
+      return { entries: [], discrepancies: [] };
+    }
+
+    const results = await processBatch(files, assembly, month, week, onProgress, (message, type) =>
+      addToast(message, type, 6000),
+    );
+
+    if (results.entries.length > 0) {
+      const targetDate = calculateSundayDate(month, week, new Date().getFullYear());
+      if (currentAssembly === assembly) {
+        setTitheListData((prev) => [...prev, ...applyTransactionSettings(results.entries, transactionSettings)]);
+      } else {
+        setCurrentAssembly(assembly);
+        setTitheListData(results.entries);
+        setSelectedDate(targetDate);
+        setFileNameToSave(`${assembly.toUpperCase()}-${formatDateDDMMMYYYY(targetDate)}-TITHERS`);
+      }
+      setHasUnsavedChanges(true);
+      if (results.discrepancies.length > 0) {
+        setBatchApplied(true);
+      } else {
+        setSharedImages(null);
+        navigate("/processor", { replace: true });
+      }
+    }
+    return results;
+  };
+
+  const assembliesWithData = Object.keys(memberDatabase).filter(
+    (name) => memberDatabase[name]?.data?.length > 0,
+  );
+
+  return (
+    <div className="flex justify-center items-center h-full py-16">
+      <LoadingSpinner text={sharedImages ? "Waiting for image details..." : "Opening..."} />
+      <BatchImageProcessor
+        isOpen={!!sharedImages}
+        onClose={() => {
+          setSharedImages(null);
+          navigate(batchApplied ? "/processor" : "/", { replace: true });
+        }}
+        onProcess={handleImagesProcess}
+        onCancel={cancelBatch}
+        assemblies={assembliesWithData}
+        defaultAssembly={
+          currentAssembly && assembliesWithData.includes(currentAssembly)
+            ? currentAssembly
+            : undefined
+        }
+        isProcessing={isProcessing}
+        initialFiles={sharedImages || undefined}
+      />
+    </div>
+  );
+};
+
+export default LaunchHandlerSection;
@@ -16,10 +16,11 @@ import {
   UserPlus,
   Eraser,
   ScanLine,
+  Wallet,
 } from "lucide-react";
 import { motion } from "framer-motion";
 import Button from "../components/Button";
-import { TitheRecordB, TransactionLogEntry } from "../types";
+import { MemberRecordA, TitheRecordB, TransactionLogEntry } from "../types";
 import AnimatedNumber from "../components/AnimatedNumber";
 import DonutChart from "../components/DonutChart";
 import InfoTooltip from "../components/InfoTooltip";
@@ -29,11 +30,18 @@ import EmptyState from "../components/EmptyState";
 import DatePicker from "../components/DatePicker";
 import { useOutletContext } from "react-router-dom";
 import BatchImageProcessor from "@/components/BatchImageProcessor";
+import StatementImportModal from "@/components/StatementImportModal";
 import { useBatchProcessor } from "@/hooks/useBatchProcessor";
+import type { BatchRunResult } from "@/services/batchQueue";
 import { useModal } from "@/hooks/useModal";
 import { useWorkspaceContext, useDatabaseContext } from "@/context";
 import { springTransitions } from "@/lib/animations";
 import { showToast } from "@/lib/toast";
+import { getAmountInGHS } from "@/lib/currency";
+import { applyTransactionSettings } from "@/lib/transactionTypes";
+import { formatDateDDMMMYYYY } from "@/lib/dataTransforms";
+import { createTitheList } from "@/services/excelProcessor";
+import { applyStatementMatches, StatementAllocation } from "@/services/statementImport";
 
 interface ListOverviewActionsSectionProps {
   currentAssembly: string | null;
@@ -150,16 +158,33 @@ const ListOverviewActionsSection = React.memo(
     } = useOutletContext<ListOverviewActionsSectionProps>();
 
     // Context for batch processing
-    const { setTitheListData, setHasUnsavedChanges } = useWorkspaceContext();
+    const {
+      setTitheListData,
+      setHasUnsavedChanges,
+      transactionSettings,
+      concatenationConfig,
+      descriptionText,
+    } = useWorkspaceContext();
     const { memberDatabase } = useDatabaseContext();
     const batchProcessorModal = useModal("batchProcessor");
+    const statementImportModal = useModal("statementImport");
 
     // Batch Processor Hook
-    const { processBatch, isProcessing } = useBatchProcessor({
+    const { processBatch, resumeBatch, cancelBatch, isProcessing } = useBatchProcessor({
       memberDatabase,
       transactionLog
     });
 
+    // The modal stays open while it lists amounts to check against the list
+    const applyBatchResults = (results: BatchRunResult) => {
+      if (results.entries.length > 0) {
+        setTitheListData(prev => [...prev, ...applyTransactionSettings(results.entries, transactionSettings)]);
+        setHasUnsavedChanges(true);
+        if (results.discrepancies.length === 0) batchProcessorModal.close();
+      }
+      return results;
+    };
+
     const handleBatchProcess = async (
       files: File[],
       assembly: string,
@@ -173,12 +198,37 @@ const ListOverviewActionsSection = React.memo(
       };
 
       const results = await processBatch(files, assembly, month, week, onProgress, handleWarning);
-      if (results.length > 0) {
-        setTitheListData(prev => [...prev, ...results]);
-        setHasUnsavedChanges(true);
-        batchProcessorModal.close();
-      }
-      return results;
+      return applyBatchResults(results);
+    };
+
+    const handleBatchResume = async (
+      jobId: string,
+      onProgress?: (completed: number, total: number) => void
+    ) => {
+      const results = await resumeBatch(jobId, onProgress, (message, type) => {
+        showToast({ message, type, duration: 6000 });
+      });
+      return applyBatchResults(results);
+    };
+
+    const handleStatementApply = (allocations: StatementAllocation[], paymentMethod: string) => {
+      const buildRecord = (member: MemberRecordA) =>
+        createTitheList(
+          [member],
+          concatenationConfig,
+          selectedDate,
+          descriptionText || `Tithe for ${formatDateDDMMMYYYY(selectedDate)}`,
+          null,
+          transactionSettings,
+        )[0];
+
+      const { list, filled, added } = applyStatementMatches(titheListData, allocations, paymentMethod, buildRecord);
+      setTitheListData(list);
+      setHasUnsavedChanges(true);
+      showToast({
+        message: `Prefilled ${filled + added} member${filled + added === 1 ? "" : "s"} from the statement (${added} added to the list).`,
+        type: "success",
+      });
     };
 
     const fileInputRef = React.useRef<HTMLInputElement>(null);
@@ -187,7 +237,7 @@ const ListOverviewActionsSection = React.memo(
       const tithersWithAmount = titheListData
         .map((r) => ({
           ...r,
-          amount: Number(r["Transaction Amount"]) || 0,
+          amount: getAmountInGHS(r),
         }))
         .filter((r) => r.amount > 0);
 
@@ -380,6 +430,14 @@ const ListOverviewActionsSection = React.memo(
             >
               Scan Image
             </Button>
+            <Button
+              onClick={() => statementImportModal.open()}
+              leftIcon={<Wallet size={16} />}
+              variant="secondary"
+              disabled={!currentAssembly}
+            >
+              Import Statement
+            </Button>
             <Button
               onClick={() => setIsAmountEntryModalOpen(true)}
               leftIcon={<Keyboard size={16} />}
@@ -608,11 +666,19 @@ const ListOverviewActionsSection = React.memo(
           isOpen={batchProcessorModal.isOpen}
           onClose={batchProcessorModal.close}
           onProcess={handleBatchProcess}
+          onResume={handleBatchResume}
+          onCancel={cancelBatch}
           assemblies={currentAssembly ? [currentAssembly] : []}
           defaultAssembly={currentAssembly || undefined}
           lockedAssembly={!!currentAssembly}
           isProcessing={isProcessing}
         />
+        <StatementImportModal
+          isOpen={statementImportModal.isOpen}
+          onClose={statementImportModal.close}
+          members={currentAssembly ? memberDatabase[currentAssembly]?.data || [] : []}
+          onApply={handleStatementApply}
+        />
       </MotionSection >
     );
   }),
@@ -3,8 +3,8 @@ import { MemberRecordA, MemberDatabase } from "../types";
 import Button from "../components/Button";
 import Checkbox from "../components/Checkbox";
 import AddAssemblyModal from "../components/AddAssemblyModal";
-import { PlusCircle, Edit, Search, ArrowUp, ArrowDown, Filter, Hash, GripVertical, Image, Download, History, FileUp } from "lucide-react";
-import { useOutletContext } from "react-router-dom";
+import { PlusCircle, Edit, Search, ArrowUp, ArrowDown, Filter, Hash, GripVertical, Image, Download, History, FileUp, Tags, ArrowRightLeft, Users } from "lucide-react";
+import { useOutletContext, useSearchParams } from "react-router-dom";
 import { filterMembersByAge } from "../services/excelProcessor";
 import { useModal } from "../hooks/useModal";
 import {
@@ -15,6 +15,11 @@ import {
 import MemberReorderModal from "../components/MemberReorderModal";
 import ReorderFromImageModal from "../components/ReorderFromImageModal";
 import OrderHistoryModal from "../components/OrderHistoryModal";
+import NameAliasesModal from "../components/NameAliasesModal";
+import TransferMemberModal from "../components/TransferMemberModal";
+import MemberDuplicatesModal from "../components/MemberDuplicatesModal";
+import { MemberMergePlan } from "../services/memberDuplicates";
+import { useAppConfigContext, useDatabaseContext } from "../context";
 import * as XLSX from "xlsx";
 
 import { computeColumnWidths } from "@/lib/exportUtils";
@@ -38,6 +43,7 @@ interface MemberDatabaseSectionProps {
     type: "success" | "error" | "info" | "warning",
   ) => void;
   onAddAssembly?: (assemblyName: string) => void;
+  onMergeMembers: (plan: MemberMergePlan) => Promise<void>;
 }
 
 const MemberDatabaseSection: React.FC = () => {
@@ -48,6 +54,7 @@ const MemberDatabaseSection: React.FC = () => {
     onEditMember,
     addToast,
     onAddAssembly,
+    onMergeMembers,
   } = useOutletContext<MemberDatabaseSectionProps>();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedAssembly, setSelectedAssembly] = useState<string | null>(
@@ -55,6 +62,28 @@ const MemberDatabaseSection: React.FC = () => {
   );
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedMembers, setSelectedMembers] = useState<MemberRecordA[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Deep links (web+tactms://assembly/... and web+tactms://member/...)
+  useEffect(() => {
+    const assemblyParam = searchParams.get("assembly");
+    if (!assemblyParam || !memberDatabase[assemblyParam]) return;
+
+    setSelectedAssembly(assemblyParam);
+    const memberParam = searchParams.get("member");
+    if (memberParam) {
+      const memberId = memberParam.trim().toLowerCase();
+      const member = memberDatabase[assemblyParam].data.find(
+        (m) =>
+          String(m["Membership Number"] || "").trim().toLowerCase() === memberId ||
+          String(m["Old Membership Number"] || "").trim().toLowerCase() === memberId,
+      );
+      setSearchTerm(memberParam);
+      if (member) onEditMember(member, assemblyParam);
+    }
+    setSearchParams({}, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, memberDatabase]);
 
   // Sorting state
   const [sortConfig, setSortConfig] = useState<{
@@ -89,6 +118,20 @@ const MemberDatabaseSection: React.FC = () => {
   const reorderModal = useModal("memberReorder");
   const reorderFromImageModal = useModal("reorderFromImage");
   const orderHistoryModal = useModal("orderHistory");
+  const nameAliasesModal = useModal("nameAliases");
+  const transferMemberModal = useModal("transferMember");
+  const memberDuplicatesModal = useModal("memberDuplicates");
+  const { transferMember } = useDatabaseContext();
+  const { assemblies } = useAppConfigContext();
+
+  // Configured assemblies plus any that only exist in the database
+  const transferAssemblies = useMemo(
+    () =>
+      Array.from(new Set([...assemblies, ...Object.keys(memberDatabase)]))
+        .filter((name) => name !== "true" && name !== "ALL MEMBERS")
+        .sort(),
+    [assemblies, memberDatabase]
+  );
   const [orderedMembersForModal, setOrderedMembersForModal] = useState<MemberOrderEntry[]>([]);
 
   const handleFileChange = (
@@ -506,6 +549,20 @@ const MemberDatabaseSection: React.FC = () => {
                     >
                       History
                     </Button>
+                    <Button
+                      variant="ghost"
+                      leftIcon={<Tags size={16} />}
+                      onClick={() => nameAliasesModal.open()}
+                    >
+                      Aliases
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      leftIcon={<Users size={16} />}
+                      onClick={() => memberDuplicatesModal.open()}
+                    >
+                      Duplicates
+                    </Button>
                   </>
                 )}
               </div>
@@ -631,6 +688,16 @@ const MemberDatabaseSection: React.FC = () => {
                           >
                             <Edit size={16} />
                           </Button>
+                          {selectedAssembly !== "ALL MEMBERS" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Transfer to another assembly"
+                              onClick={() => transferMemberModal.open({ member })}
+                            >
+                              <ArrowRightLeft size={16} />
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -776,6 +843,37 @@ const MemberDatabaseSection: React.FC = () => {
           }
         }}
       />
+
+      {/* Name Aliases Modal */}
+      <NameAliasesModal
+        isOpen={nameAliasesModal.isOpen}
+        onClose={nameAliasesModal.close}
+        assemblyName={selectedAssembly || ""}
+        masterList={memberDatabase[selectedAssembly || ""]?.data || []}
+        addToast={addToast}
+      />
+
+      {/* Transfer Member Modal */}
+      <TransferMemberModal
+        isOpen={transferMemberModal.isOpen}
+        onClose={transferMemberModal.close}
+        member={transferMemberModal.payload?.member || null}
+        assemblyName={selectedAssembly || ""}
+        assemblies={transferAssemblies}
+        onTransfer={(toAssembly, details) => {
+          const member = transferMemberModal.payload?.member;
+          if (!member || !selectedAssembly) return Promise.reject(new Error("No member selected"));
+          return transferMember(member, selectedAssembly, toAssembly, details);
+        }}
+      />
+
+      {/* Member Duplicates Modal */}
+      <MemberDuplicatesModal
+        isOpen={memberDuplicatesModal.isOpen}
+        onClose={memberDuplicatesModal.close}
+        memberDatabase={memberDatabase}
+        onMerge={onMergeMembers}
+      />
     </div >
   );
 };
@@ -7,6 +7,8 @@ import {
   LineChart,
   Download,
   FileText,
+  Layers,
+  Smartphone,
 } from "lucide-react";
 import {
   Select,
@@ -29,6 +31,8 @@ import {
 import LoadingSpinner from "../components/LoadingSpinner";
 import { LiquidButton } from "../components/LiquidButton";
 import ReportGenerator from "../components/ReportGenerator";
+import { formatTransactionType } from "../lib/transactionTypes";
+import { DEFAULT_PAYMENT_METHOD } from "../constants";
 
 interface ReportsSectionProps {
   transactionLog: TransactionLogEntry[];
@@ -75,7 +79,7 @@ const ReportsSection: React.FC = () => {
 
     const yearData = data[selectedYear];
     if (!yearData) {
-      setSummary({ totalTithe: 0, totalSouls: 0, topPerformingAssembly: { name: "N/A", value: 0 }, topGrowthAssembly: { name: "N/A", value: 0 }, performance: [] });
+      setSummary({ totalTithe: 0, totalSouls: 0, totalsByType: {}, totalsByPaymentMethod: {}, topPerformingAssembly: { name: "N/A", value: 0 }, topGrowthAssembly: { name: "N/A", value: 0 }, performance: [] });
       setIsLoading(false);
       return;
     }
@@ -117,6 +121,12 @@ const ReportsSection: React.FC = () => {
 
   const hasDataForPeriod = summary && (summary.totalTithe > 0 || summary.totalSouls > 0);
 
+  // Only worth a breakdown once something other than cash has been recorded
+  const paymentMethods = useMemo(() => {
+    const methods = Object.keys(summary?.totalsByPaymentMethod || {});
+    return methods.some((m) => m !== DEFAULT_PAYMENT_METHOD) ? methods : [];
+  }, [summary]);
+
   const containerVariants = {
     hidden: { opacity: 0 },
     visible: { opacity: 1, transition: { staggerChildren: 0.07 } },
@@ -249,6 +259,64 @@ const ReportsSection: React.FC = () => {
                 granularity={granularity}
               />
             </motion.section>
+
+            {paymentMethods.length > 0 && (
+              <motion.section variants={itemVariants} className="content-card">
+                <h3 className="section-heading">
+                  <Smartphone size={20} className="mr-3 icon-primary" />
+                  Payment Methods by Period ({selectedYear})
+                </h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs uppercase text-[var(--text-muted)] text-left">
+                        <th className="py-2 pr-4">Period</th>
+                        {paymentMethods.map((method) => (
+                          <th key={method} className="py-2 px-2 text-right">{method}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border-color)]">
+                      {summary.performance
+                        .filter((perf: { totalTithe: number }) => perf.totalTithe > 0)
+                        .map((perf: { key: string; totalsByPaymentMethod?: Record<string, number> }) => (
+                          <tr key={perf.key} className="text-[var(--text-primary)]">
+                            <td className="py-2 pr-4">{perf.key}</td>
+                            {paymentMethods.map((method) => (
+                              <td key={method} className="py-2 px-2 text-right">
+                                {(perf.totalsByPaymentMethod?.[method] || 0).toLocaleString()}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </motion.section>
+            )}
+
+            {Object.keys(summary.totalsByType || {}).length > 1 && (
+              <motion.section variants={itemVariants} className="content-card">
+                <h3 className="section-heading">
+                  <Layers size={20} className="mr-3 icon-primary" />
+                  Totals by Transaction Type ({selectedYear})
+                </h3>
+                <ul className="divide-y divide-[var(--border-color)]">
+                  {(Object.entries(summary.totalsByType) as [string, number][])
+                    .sort(([, a], [, b]) => b - a)
+                    .map(([type, total]) => (
+                      <li key={type} className="flex justify-between py-2 text-sm">
+                        <span className="text-[var(--text-secondary)]">
+                          {formatTransactionType(type)}
+                        </span>
+                        <span className="font-semibold text-[var(--text-primary)]">
+                          GH₵ {total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </span>
+                      </li>
+                    ))}
+                </ul>
+              </motion.section>
+            )}
           </motion.div>
         </AnimatePresence>
       ) : (
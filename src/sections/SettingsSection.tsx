@@ -1,16 +1,299 @@
-import React, { useState } from "react";
-import { MemberDatabase } from "../types";
-import { Trash2, AlertTriangle, Settings2, RotateCcw } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { FavoriteConfig, MemberDatabase, ScribeProfile, TransactionLogEntry, VisionProviderId } from "../types";
+import { Trash2, AlertTriangle, Settings2, RotateCcw, Archive, Download, Upload, CloudUpload, CloudDownload, Coins, Plus, ScanLine, PenLine } from "lucide-react";
 import Button from "../components/Button";
-import { useAppConfigContext, useToast } from "../context";
+import BackupRestoreModal from "../components/BackupRestoreModal";
+import { useAppConfigContext, useDatabaseContext, useToast } from "../context";
 import { resetOrderFromMasterList, repairMemberOrder } from "../services/memberOrderService";
+import { clearExtractionQuality, getPreprocessingImpact } from "../services/imageProcessor";
+import {
+    BACKUP_FILE_EXTENSION,
+    BackupArchiveError,
+    collectBackupPayload,
+    downloadBackupFile,
+    encryptBackup,
+    loadBackupFromDrive,
+    saveBackupToDrive,
+} from "../services/backupArchive";
+import {
+    createScribeProfile,
+    deleteScribeProfile,
+    getScribeErrorRate,
+    getScribesForAssembly,
+    summarizeScribeConfusions,
+} from "../services/scribeProfiles";
+import { getCorrectionsForScribe } from "../services/handwritingLearning";
+import { formatDateDDMMMYYYY } from "../lib/dataTransforms";
+import { BASE_CURRENCY, CurrencyCode, SUPPORTED_CURRENCIES, dateKeyToTime } from "../lib/currency";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface SettingsSectionProps {
     memberDatabase: MemberDatabase;
     onDeleteAssembly: (assemblyName: string) => void;
+    favorites: FavoriteConfig[];
+    setFavorites: (favorites: FavoriteConfig[]) => void;
+    transactionLog: TransactionLogEntry[];
+    setTransactionLog: (log: TransactionLogEntry[]) => void;
+    isLoggedIn: boolean;
 }
 
+type BackupControllerProps = Pick<
+    SettingsSectionProps,
+    "memberDatabase" | "favorites" | "setFavorites" | "transactionLog" | "setTransactionLog" | "isLoggedIn"
+>;
+
+const BackupController: React.FC<BackupControllerProps> = ({
+    memberDatabase,
+    favorites,
+    setFavorites,
+    transactionLog,
+    setTransactionLog,
+    isLoggedIn,
+}) => {
+    const addToast = useToast();
+    const { setMemberDatabase, pledges, setPledges } = useDatabaseContext();
+    const { exchangeRates, replaceExchangeRates } = useAppConfigContext();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [passphrase, setPassphrase] = useState("");
+    const [confirmPassphrase, setConfirmPassphrase] = useState("");
+    const [busyAction, setBusyAction] = useState<"download" | "drive-save" | "drive-load" | null>(null);
+    const [restoreSource, setRestoreSource] = useState<{ text: string; label: string } | null>(null);
+
+    const currentState = { memberDatabase, favorites, transactionLog, pledges, exchangeRates };
+    const passphraseMismatch = confirmPassphrase.length > 0 && passphrase !== confirmPassphrase;
+    const canCreate = passphrase.length > 0 && passphrase === confirmPassphrase;
+
+    const createArchive = async () => encryptBackup(await collectBackupPayload(currentState), passphrase);
+
+    const handleBackup = async (target: "download" | "drive-save") => {
+        setBusyAction(target);
+        try {
+            const archive = await createArchive();
+            if (target === "download") {
+                downloadBackupFile(archive);
+                addToast("Encrypted backup downloaded.", "success");
+            } else {
+                await saveBackupToDrive(archive);
+                addToast("Encrypted backup saved to Google Drive.", "success");
+            }
+            setPassphrase("");
+            setConfirmPassphrase("");
+        } catch (error) {
+            console.error("Backup failed:", error);
+            addToast(
+                error instanceof BackupArchiveError ? error.message : "Backup failed. Please try again.",
+                "error"
+            );
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    const handleRestoreFromFile = async (file: File) => {
+        setRestoreSource({ text: await file.text(), label: file.name });
+    };
+
+    const handleRestoreFromDrive = async () => {
+        setBusyAction("drive-load");
+        try {
+            const text = await loadBackupFromDrive();
+            if (!text) {
+                addToast("No backup found in Google Drive.", "info");
+                return;
+            }
+            setRestoreSource({ text, label: "Google Drive" });
+        } catch (error) {
+            console.error("Failed to load backup from Drive:", error);
+            addToast("Could not download the backup from Google Drive.", "error");
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                    type="password"
+                    placeholder="Backup passphrase (min. 8 characters)"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    className="w-full px-3 py-2 bg-[var(--bg-elevated)] border border-[var(--border-color)] rounded-lg text-[var(--text-primary)]"
+                />
+                <input
+                    type="password"
+                    placeholder="Confirm passphrase"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    className="w-full px-3 py-2 bg-[var(--bg-elevated)] border border-[var(--border-color)] rounded-lg text-[var(--text-primary)]"
+                />
+            </div>
+            {passphraseMismatch && (
+                <p className="text-xs text-[var(--danger-text)]">Passphrases do not match.</p>
+            )}
+            <p className="text-xs text-[var(--text-muted)]">
+                The passphrase cannot be recovered. Without it the backup cannot be opened.
+            </p>
+            <div className="flex flex-wrap gap-3">
+                <Button
+                    variant="primary"
+                    disabled={!canCreate || busyAction !== null}
+                    isLoading={busyAction === "download"}
+                    onClick={() => handleBackup("download")}
+                    leftIcon={<Download size={16} />}
+                >
+                    Download Backup
+                </Button>
+                {isLoggedIn && (
+                    <Button
+                        variant="secondary"
+                        disabled={!canCreate || busyAction !== null}
+                        isLoading={busyAction === "drive-save"}
+                        onClick={() => handleBackup("drive-save")}
+                        leftIcon={<CloudUpload size={16} />}
+                    >
+                        Back Up to Drive
+                    </Button>
+                )}
+            </div>
+
+            <div className="pt-4 border-t border-[var(--border-color)] flex flex-wrap gap-3">
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={BACKUP_FILE_EXTENSION}
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleRestoreFromFile(file);
+                        e.target.value = "";
+                    }}
+                />
+                <Button
+                    variant="outline"
+                    disabled={busyAction !== null}
+                    onClick={() => fileInputRef.current?.click()}
+                    leftIcon={<Upload size={16} />}
+                >
+                    Restore from File
+                </Button>
+                {isLoggedIn && (
+                    <Button
+                        variant="outline"
+                        disabled={busyAction !== null}
+                        isLoading={busyAction === "drive-load"}
+                        onClick={handleRestoreFromDrive}
+                        leftIcon={<CloudDownload size={16} />}
+                    >
+                        Restore from Drive
+                    </Button>
+                )}
+            </div>
+
+            <BackupRestoreModal
+                isOpen={!!restoreSource}
+                onClose={() => setRestoreSource(null)}
+                archiveText={restoreSource?.text || null}
+                sourceLabel={restoreSource?.label || ""}
+                currentState={currentState}
+                setters={{ setMemberDatabase, setFavorites, setTransactionLog, setPledges, setExchangeRates: replaceExchangeRates }}
+                onRestored={() => addToast("Backup restored.", "success")}
+            />
+        </div>
+    );
+};
+
+const ExchangeRateController: React.FC = () => {
+    const addToast = useToast();
+    const { exchangeRates, setExchangeRate } = useAppConfigContext();
+    const [date, setDate] = useState(() => new Date().toISOString().split("T")[0]);
+    const [currency, setCurrency] = useState<CurrencyCode>("USD");
+    const [rate, setRate] = useState("");
+
+    const foreignCurrencies = SUPPORTED_CURRENCIES.filter((code) => code !== BASE_CURRENCY);
+    const entries = Object.entries(exchangeRates)
+        .flatMap(([dateKey, rates]) =>
+            Object.entries(rates).map(([code, value]) => ({ dateKey, code: code as CurrencyCode, value: value as number })),
+        )
+        .sort((a, b) => dateKeyToTime(b.dateKey) - dateKeyToTime(a.dateKey) || a.code.localeCompare(b.code));
+
+    const handleAdd = () => {
+        const parsedRate = parseFloat(rate);
+        const parsedDate = new Date(date); // YYYY-MM-DD from input
+        if (isNaN(parsedRate) || parsedRate <= 0 || isNaN(parsedDate.getTime())) {
+            addToast("Enter a valid date and a rate greater than 0.", "error");
+            return;
+        }
+        const dateKey = formatDateDDMMMYYYY(
+            new Date(parsedDate.getTime() + parsedDate.getTimezoneOffset() * 60000),
+        );
+        setExchangeRate(dateKey, currency, parsedRate);
+        setRate("");
+        addToast(`1 ${currency} = ${parsedRate} ${BASE_CURRENCY} from ${dateKey}`, "success", 2000);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full px-3 py-2 bg-[var(--bg-elevated)] border border-[var(--border-color)] rounded-lg text-[var(--text-primary)]"
+                />
+                <Select value={currency} onValueChange={(v) => setCurrency(v as CurrencyCode)}>
+                    <SelectTrigger className="w-full border-[var(--border-color)] bg-[var(--bg-elevated)]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-[var(--bg-elevated)] border-[var(--border-color)]">
+                        {foreignCurrencies.map((code) => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    placeholder={`${BASE_CURRENCY} per 1 ${currency}`}
+                    value={rate}
+                    onChange={(e) => setRate(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                    className="w-full px-3 py-2 bg-[var(--bg-elevated)] border border-[var(--border-color)] rounded-lg text-[var(--text-primary)]"
+                />
+                <Button variant="primary" onClick={handleAdd} disabled={!rate} leftIcon={<Plus size={16} />}>
+                    Save Rate
+                </Button>
+            </div>
+
+            {entries.length === 0 ? (
+                <div className="text-center py-4 text-[var(--text-muted)] italic">
+                    No exchange rates saved yet.
+                </div>
+            ) : (
+                <div className="max-h-64 overflow-y-auto divide-y divide-[var(--border-color)] rounded-lg border border-[var(--border-color)]">
+                    {entries.map(({ dateKey, code, value }) => (
+                        <div key={`${dateKey}-${code}`} className="flex items-center justify-between px-4 py-2 text-sm">
+                            <span className="text-[var(--text-secondary)] w-32">{dateKey}</span>
+                            <span className="flex-1 text-[var(--text-primary)]">
+                                1 {code} = {value} {BASE_CURRENCY}
+                            </span>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setExchangeRate(dateKey, code, 0)}
+                                title="Remove rate"
+                            >
+                                <Trash2 size={14} className="text-[var(--danger-text)]" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 const RepairOrderController: React.FC<{ memberDatabase: MemberDatabase }> = ({ memberDatabase }) => {
     const addToast = useToast();
     const [selectedAssembly, setSelectedAssembly] = useState<string>("");
@@ -91,9 +374,295 @@ const RepairOrderController: React.FC<{ memberDatabase: MemberDatabase }> = ({ m
     );
 };
 
+const VISION_PROVIDER_OPTIONS: { id: VisionProviderId; label: string }[] = [
+    { id: "gemini", label: "Google Gemini (cloud)" },
+    { id: "openai-compatible", label: "OpenAI-compatible (e.g. local Ollama / LLaVA)" },
+    { id: "offline", label: "On-device (offline, tithe book amounts only)" },
+];
+
+const VisionProviderController: React.FC = () => {
+    const addToast = useToast();
+    const { visionProvider, setVisionProvider } = useAppConfigContext();
+    const [draft, setDraft] = useState(visionProvider);
+
+    const inputClass =
+        "w-full px-3 py-2 bg-[var(--bg-elevated)] border border-[var(--border-color)] rounded-lg text-[var(--text-primary)]";
+    const isOpenAICompatible = draft.provider === "openai-compatible";
+    const canSave = !isOpenAICompatible || (!!draft.baseUrl.trim() && !!draft.model.trim());
+
+    const handleSave = () => {
+        setVisionProvider({
+            ...draft,
+            baseUrl: draft.baseUrl.trim(),
+            model: draft.model.trim(),
+            apiKey: draft.apiKey.trim(),
+        });
+        addToast("Vision provider saved", "success", 2000);
+    };
+
+    return (
+        <div className="space-y-4">
+            <Select
+                value={draft.provider}
+                onValueChange={(v) => setDraft((prev) => ({ ...prev, provider: v as VisionProviderId }))}
+            >
+                <SelectTrigger className="w-full border-[var(--border-color)] bg-[var(--bg-elevated)]">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[var(--bg-elevated)] border-[var(--border-color)]">
+                    {VISION_PROVIDER_OPTIONS.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {isOpenAICompatible && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input
+                        value={draft.baseUrl}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, baseUrl: e.target.value }))}
+                        placeholder="Base URL (http://localhost:11434/v1)"
+                        className={inputClass}
+                    />
+                    <input
+                        value={draft.model}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, model: e.target.value }))}
+                        placeholder="Model (llava)"
+                        className={inputClass}
+                    />
+                    <input
+                        type="password"
+                        value={draft.apiKey}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, apiKey: e.target.value }))}
+                        placeholder="API key (optional)"
+                        className={inputClass}
+                    />
+                </div>
+            )}
+
+            {draft.provider === "offline" && (
+                <p className="text-sm text-[var(--text-secondary)]">
+                    Reads the week column of tithe book pages without internet and fills members
+                    by book position. The digit model is trained on this device the first time it
+                    is used. Notebook pages and name lists still need an AI provider.
+                </p>
+            )}
+
+            <Button variant="primary" onClick={handleSave} disabled={!canSave}>
+                Save Provider
+            </Button>
+        </div>
+    );
+};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const PhotoCleanupController: React.FC = () => {
+    const addToast = useToast();
+    const { enableImagePreprocessing, setEnableImagePreprocessing } = useAppConfigContext();
+    const [impact, setImpact] = useState(getPreprocessingImpact);
+
+    const handleToggle = (enabled: boolean) => {
+        setEnableImagePreprocessing(enabled);
+        addToast(enabled ? "Photo clean-up enabled" : "Photo clean-up disabled", "info", 2000);
+    };
+
+    const handleReset = () => {
+        clearExtractionQuality();
+        setImpact(getPreprocessingImpact());
+    };
+
+    const { withPreprocessing, withoutPreprocessing, improvement } = impact;
+
+    return (
+        <div className="pt-4 mt-4 border-t border-[var(--border-color)] space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <label className="block text-sm font-medium text-[var(--text-primary)]">
+                        Clean up photos before reading
+                    </label>
+                    <p className="text-xs text-[var(--text-secondary)] mt-0.5">
+                        Flattens the page, straightens tilted shots and removes shadows before OCR
+                    </p>
+                </div>
+                <button
+                    onClick={() => handleToggle(!enableImagePreprocessing)}
+                    className={`
+                        relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                        ${enableImagePreprocessing
+                            ? 'bg-[var(--primary-accent-start)]'
+                            : 'bg-[var(--bg-elevated)] border border-[var(--border-color)]'
+                        }
+                    `}
+                >
+                    <span
+                        className={`
+                            inline-block h-4 w-4 transform rounded-full bg-white shadow-md transition-transform
+                            ${enableImagePreprocessing ? 'translate-x-6' : 'translate-x-1'}
+                        `}
+                    />
+                </button>
+            </div>
+
+            {(withPreprocessing.pages > 0 || withoutPreprocessing.pages > 0) && (
+                <div className="flex items-center justify-between gap-4 text-xs text-[var(--text-secondary)]">
+                    <p>
+                        Low-confidence entries: {formatRate(withPreprocessing.lowConfidenceRate)} with clean-up
+                        ({withPreprocessing.pages} pages), {formatRate(withoutPreprocessing.lowConfidenceRate)} without
+                        ({withoutPreprocessing.pages} pages).
+                        {improvement !== null && (
+                            <span className={improvement > 0 ? "text-green-400 ml-1" : "text-amber-400 ml-1"}>
+                                {improvement > 0
+                                    ? `Clean-up lowers it by ${formatRate(improvement)}.`
+                                    : "Clean-up is not helping on these photos."}
+                            </span>
+                        )}
+                    </p>
+                    <Button variant="ghost" size="sm" onClick={handleReset}>
+                        Reset
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+type ScribeConfusion = ReturnType<typeof summarizeScribeConfusions>[number];
+
+const ScribeProfilesController: React.FC = () => {
+    const addToast = useToast();
+    const { assemblies } = useAppConfigContext();
+    const [assembly, setAssembly] = useState<string>("");
+    const [scribes, setScribes] = useState<ScribeProfile[]>([]);
+    const [confusions, setConfusions] = useState<Record<string, ScribeConfusion[]>>({});
+    const [newName, setNewName] = useState("");
+
+    useEffect(() => {
+        const list = assembly ? getScribesForAssembly(assembly) : [];
+        setScribes(list);
+
+        let cancelled = false;
+        Promise.all(list.map(async (s) => [s.id, summarizeScribeConfusions(await getCorrectionsForScribe(s.id))] as const))
+            .then((entries) => {
+                if (!cancelled) setConfusions(Object.fromEntries(entries));
+            })
+            .catch((error) => console.warn("[Scribes] Failed to load corrections:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [assembly]);
+
+    const handleAdd = () => {
+        try {
+            const profile = createScribeProfile(assembly, newName);
+            setScribes(getScribesForAssembly(assembly));
+            setNewName("");
+            addToast(`Added ${profile.name} as a scribe of ${assembly}`, "success", 2000);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : "Failed to add scribe", "error");
+        }
+    };
+
+    const handleDelete = (profile: ScribeProfile) => {
+        if (!window.confirm(`Remove ${profile.name}? Corrections learned from their pages stay with ${assembly}.`)) return;
+        deleteScribeProfile(profile.id);
+        setScribes(getScribesForAssembly(assembly));
+    };
+
+    return (
+        <div className="space-y-4">
+            <Select value={assembly} onValueChange={setAssembly}>
+                <SelectTrigger className="w-full border-[var(--border-color)] bg-[var(--bg-elevated)]">
+                    <SelectValue placeholder="Select assembly..." />
+                </SelectTrigger>
+                <SelectContent className="bg-[var(--bg-elevated)] border-[var(--border-color)]">
+                    {assemblies.map((a) => (
+                        <SelectItem key={a} value={a}>{a}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {assembly && (
+                <>
+                    <div className="flex gap-2">
+                        <input
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                            placeholder="Scribe name"
+                            className="flex-1 px-3 py-2 bg-[var(--bg-elevated)] border border-[var(--border-color)] rounded-lg text-[var(--text-primary)]"
+                        />
+                        <Button variant="primary" onClick={handleAdd} disabled={!newName.trim()} leftIcon={<Plus size={16} />}>
+                            Add
+                        </Button>
+                    </div>
+
+                    {scribes.length === 0 ? (
+                        <p className="text-sm text-[var(--text-secondary)]">No scribes for {assembly} yet.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {scribes.map((scribe) => {
+                                const errorRate = getScribeErrorRate(scribe);
+                                const misreads = confusions[scribe.id] || [];
+                                return (
+                                    <div
+                                        key={scribe.id}
+                                        className="p-3 rounded-lg bg-[var(--bg-elevated)] border border-[var(--border-color)] space-y-2"
+                                    >
+                                        <div className="flex items-center justify-between gap-3">
+                                            <div>
+                                                <p className="text-sm font-medium text-[var(--text-primary)]">{scribe.name}</p>
+                                                <p className="text-xs text-[var(--text-secondary)]">
+                                                    {scribe.reviewedCount} amounts reviewed, {scribe.correctedCount} corrected
+                                                    {scribe.glyphSignature ? " · handwriting learned" : ""}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-sm font-semibold text-[var(--text-primary)]">
+                                                    {errorRate === null ? "–" : formatRate(errorRate)}
+                                                </span>
+                                                <button
+                                                    onClick={() => handleDelete(scribe)}
+                                                    className="p-1.5 rounded-lg text-[var(--text-secondary)] hover:text-red-400"
+                                                    title={`Remove ${scribe.name}`}
+                                                >
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            </div>
+                                        </div>
+                                        {errorRate !== null && (
+                                            <div className="h-1.5 rounded-full bg-[var(--bg-card)] overflow-hidden">
+                                                <div
+                                                    className={errorRate > 0.1 ? "h-full bg-red-400" : "h-full bg-green-400"}
+                                                    style={{ width: `${Math.min(100, errorRate * 100)}%` }}
+                                                />
+                                            </div>
+                                        )}
+                                        {misreads.length > 0 && (
+                                            <p className="text-xs text-[var(--text-secondary)]">
+                                                Often misread:{" "}
+                                                {misreads.map((m) => `"${m.read}" for "${m.meant}" (${m.count}×)`).join(", ")}
+                                            </p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
 const SettingsSection: React.FC<SettingsSectionProps> = ({
     memberDatabase,
     onDeleteAssembly,
+    favorites = [],
+    setFavorites,
+    transactionLog = [],
+    setTransactionLog,
+    isLoggedIn,
 }) => {
     const addToast = useToast();
     const {
@@ -221,6 +790,76 @@ const SettingsSection: React.FC<SettingsSectionProps> = ({
                 </div>
             </div>
 
+            {/* Vision Provider Card */}
+            <div className="content-card">
+                <div className="flex items-center gap-2 mb-4 pb-2 border-b border-[var(--border-color)]">
+                    <ScanLine className="text-[var(--accent-color)]" size={24} />
+                    <h3 className="text-lg font-semibold text-[var(--text-primary)]">
+                        AI Vision Provider
+                    </h3>
+                </div>
+                <p className="text-sm text-[var(--text-secondary)] mb-6">
+                    The model that reads scanned tithe books and notebooks. Use an OpenAI-compatible
+                    server to run a vision model on your own machine.
+                </p>
+                <VisionProviderController />
+                <PhotoCleanupController />
+            </div>
+
+            {/* Scribes Card */}
+            <div className="content-card">
+                <div className="flex items-center gap-2 mb-4 pb-2 border-b border-[var(--border-color)]">
+                    <PenLine className="text-[var(--accent-color)]" size={24} />
+                    <h3 className="text-lg font-semibold text-[var(--text-primary)]">
+                        Scribes
+                    </h3>
+                </div>
+                <p className="text-sm text-[var(--text-secondary)] mb-6">
+                    The people who fill in each assembly&apos;s tithe book. Corrections you make while verifying
+                    a scan are learned for the scribe who wrote the page, so each person&apos;s handwriting is
+                    read better over time.
+                </p>
+                <ScribeProfilesController />
+            </div>
+
+            {/* Exchange Rates Card */}
+            <div className="content-card">
+                <div className="flex items-center gap-2 mb-4 pb-2 border-b border-[var(--border-color)]">
+                    <Coins className="text-[var(--accent-color)]" size={24} />
+                    <h3 className="text-lg font-semibold text-[var(--text-primary)]">
+                        Exchange Rates
+                    </h3>
+                </div>
+                <p className="text-sm text-[var(--text-secondary)] mb-6">
+                    Rates used to convert tithes paid in foreign currency to {BASE_CURRENCY}. A rate applies
+                    from its date until a newer one is saved.
+                </p>
+                <ExchangeRateController />
+            </div>
+
+            {/* Backup & Restore Card */}
+            <div className="content-card">
+                <div className="flex items-center gap-2 mb-4 pb-2 border-b border-[var(--border-color)]">
+                    <Archive className="text-[var(--accent-color)]" size={24} />
+                    <h3 className="text-lg font-semibold text-[var(--text-primary)]">
+                        Backup &amp; Restore
+                    </h3>
+                </div>
+                <p className="text-sm text-[var(--text-secondary)] mb-6">
+                    Save everything on this device (members and their change history, member order, favorites,
+                    transaction log, exchange rates, scribe profiles, handwriting corrections and the OCR model) as
+                    one encrypted {BACKUP_FILE_EXTENSION} file.
+                </p>
+                <BackupController
+                    memberDatabase={memberDatabase}
+                    favorites={favorites}
+                    setFavorites={setFavorites}
+                    transactionLog={transactionLog}
+                    setTransactionLog={setTransactionLog}
+                    isLoggedIn={isLoggedIn}
+                />
+            </div>
+
             {/* Data Management Card */}
             <div className="content-card">
                 <div className="flex items-center gap-2 mb-4 pb-2 border-b border-[var(--border-color)]">
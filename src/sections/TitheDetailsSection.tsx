@@ -2,16 +2,28 @@ import React from "react";
 import { CalendarDays, ArrowLeft, ArrowRight } from "lucide-react";
 import InfoTooltip from "../components/InfoTooltip";
 import Button from "../components/Button";
+import { PAYMENT_SOURCE_TYPES, TRANSACTION_TYPES } from "../constants";
+import { formatTransactionType } from "../lib/transactionTypes";
+import { TransactionSettings } from "../types";
 
 interface TitheDetailsSectionProps {
   selectedDate: Date;
   descriptionText: string;
   onDateChange: (date: Date) => void;
   onDescriptionChange: (description: string) => void;
+  transactionSettings: TransactionSettings;
+  onTransactionSettingsChange: (settings: TransactionSettings) => void;
 }
 
 const TitheDetailsSection: React.FC<TitheDetailsSectionProps> = React.memo(
-  ({ selectedDate, descriptionText, onDateChange, onDescriptionChange }) => {
+  ({
+    selectedDate,
+    descriptionText,
+    onDateChange,
+    onDescriptionChange,
+    transactionSettings,
+    onTransactionSettingsChange,
+  }) => {
     const dateValue = React.useMemo(
       () => selectedDate.toISOString().split("T")[0],
       [selectedDate],
@@ -104,6 +116,44 @@ const TitheDetailsSection: React.FC<TitheDetailsSectionProps> = React.memo(
                 className="mt-2"
               />
             </div>
+            <div>
+              <label htmlFor="transactionType" className="form-label">
+                Transaction Type
+              </label>
+              <select
+                id="transactionType"
+                value={transactionSettings.transactionType}
+                onChange={(e) =>
+                  onTransactionSettingsChange({ ...transactionSettings, transactionType: e.target.value })
+                }
+                className="form-input-light"
+              >
+                {TRANSACTION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {formatTransactionType(type)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="paymentSourceType" className="form-label">
+                Payment Source
+              </label>
+              <select
+                id="paymentSourceType"
+                value={transactionSettings.paymentSourceType}
+                onChange={(e) =>
+                  onTransactionSettingsChange({ ...transactionSettings, paymentSourceType: e.target.value })
+                }
+                className="form-input-light"
+              >
+                {PAYMENT_SOURCE_TYPES.map((source) => (
+                  <option key={source} value={source}>
+                    {source}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
       </div>
@@ -5,7 +5,11 @@
  * Tests queue management, retry logic, and state management
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, MockInstance } from 'vitest';
+import { SyncManager, findFoldableMemberUpdate } from './SyncManager';
+import { createMemberUpdatePayload } from './syncTransport';
+import type { MemberSyncPayload, PendingSyncAction, SyncActionOutcome, SyncTransport } from './syncTransport';
+import type { MemberRecordA } from '@/types';
 
 // Mock the idb module before importing
 vi.mock('idb', () => ({
@@ -16,36 +20,71 @@ vi.mock('idb', () => ({
 // MOCK DATABASE FACTORY
 // ============================================================================
 
+type StoredValue = { id?: IDBValidKey; [field: string]: unknown };
+
+/** Index name -> field it sorts or filters by (mirrors the SyncDB schema) */
+const INDEX_FIELDS: Record<string, string> = {
+    'by-timestamp': 'timestamp',
+    'by-failed-at': 'failedAt',
+    'by-assembly': 'assemblyName',
+};
+
+/**
+ * In-memory stand-in for the idb database: one map per object store,
+ * auto-incrementing keys when a value has no id
+ */
 function createMockDB() {
-    const pendingActions: Map<number, any> = new Map();
+    const stores = new Map<string, Map<IDBValidKey, StoredValue>>();
     let nextId = 1;
 
+    const storeOf = (name: string) => {
+        if (!stores.has(name)) stores.set(name, new Map());
+        return stores.get(name) as Map<IDBValidKey, StoredValue>;
+    };
+    const add = (name: string, value: StoredValue) => {
+        const id = value.id ?? nextId++;
+        storeOf(name).set(id, { ...value, id });
+        return Promise.resolve(id);
+    };
+    const put = (name: string, value: StoredValue) => {
+        storeOf(name).set(value.id as IDBValidKey, value);
+        return Promise.resolve(value.id);
+    };
+    const remove = (name: string, id: IDBValidKey) => {
+        storeOf(name).delete(id);
+        return Promise.resolve();
+    };
+    const get = (name: string, id: IDBValidKey) => Promise.resolve(storeOf(name).get(id));
+    const storeApi = (name: string) => ({
+        add: (value: StoredValue) => add(name, value),
+        put: (value: StoredValue) => put(name, value),
+        delete: (id: IDBValidKey) => remove(name, id),
+        get: (id: IDBValidKey) => get(name, id),
+    });
+
     return {
-        add: vi.fn((_storeName: string, value: any) => {
-            const id = nextId++;
-            pendingActions.set(id, { ...value, id });
-            return Promise.resolve(id);
-        }),
-        delete: vi.fn((_storeName: string, id: number) => {
-            pendingActions.delete(id);
-            return Promise.resolve();
-        }),
-        put: vi.fn((_storeName: string, value: any) => {
-            if (value.id) {
-                pendingActions.set(value.id, value);
-            }
-            return Promise.resolve();
-        }),
-        clear: vi.fn((_storeName: string) => {
-            pendingActions.clear();
+        add: vi.fn(add),
+        put: vi.fn(put),
+        delete: vi.fn(remove),
+        get: vi.fn(get),
+        clear: vi.fn((name: string) => {
+            storeOf(name).clear();
             return Promise.resolve();
         }),
-        getAllFromIndex: vi.fn((_storeName: string, _indexName: string) => {
-            return Promise.resolve(Array.from(pendingActions.values()));
-        }),
-        getAll: vi.fn((_storeName: string) => {
-            return Promise.resolve(Array.from(pendingActions.values()));
+        count: vi.fn((name: string) => Promise.resolve(storeOf(name).size)),
+        getAll: vi.fn((name: string) => Promise.resolve(Array.from(storeOf(name).values()))),
+        getAllFromIndex: vi.fn((name: string, index: string, query?: IDBValidKey) => {
+            const field = INDEX_FIELDS[index];
+            const values = Array.from(storeOf(name).values())
+                .filter((v) => query === undefined || v[field] === query)
+                .sort((a, b) => Number(a[field]) - Number(b[field]));
+            return Promise.resolve(values);
         }),
+        transaction: vi.fn((names: string | string[]) => ({
+            objectStore: storeApi,
+            store: storeApi(Array.isArray(names) ? names[0] : names),
+            done: Promise.resolve(),
+        })),
     };
 }
 
@@ -568,3 +607,298 @@ describe('SyncManager action error tracking', () => {
         expect(updated.lastError).toBe('Unknown error');
     });
 });
+
+// ============================================================================
+// TESTS: SyncManager delivery (real class, in-memory idb)
+// ============================================================================
+
+type FakeOutcome = Omit<SyncActionOutcome, 'actionId' | 'type'>;
+
+/**
+ * Transport that records the action IDs of each batch and answers per action
+ */
+function createFakeTransport(respond: (action: PendingSyncAction) => FakeOutcome) {
+    const batches: number[][] = [];
+    const transport: SyncTransport = {
+        name: 'fake',
+        deliver: vi.fn(async (actions: PendingSyncAction[]) => {
+            batches.push(actions.map((a) => a.id as number));
+            return actions.map((a) => ({ actionId: a.id as number, type: a.type, ...respond(a) }));
+        }),
+    };
+    return { transport, batches };
+}
+
+const queueTithes = async (manager: SyncManager, count: number) => {
+    for (let i = 0; i < count; i++) {
+        await manager.queueAction('UPDATE_TITHE', { memberId: `TAC${i}`, amount: 10 });
+    }
+};
+
+describe('SyncManager.syncWithRetry delivery', () => {
+    let sleep: MockInstance;
+
+    beforeEach(() => {
+        sleep = vi
+            .spyOn(SyncManager.prototype as unknown as { sleep: (ms: number) => Promise<void> }, 'sleep')
+            .mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        sleep.mockRestore();
+    });
+
+    it('delivers the queue in batches of 25', async () => {
+        const manager = new SyncManager();
+        const { transport, batches } = createFakeTransport(() => ({ status: 'synced' }));
+        manager.setTransport(transport);
+        await queueTithes(manager, 30);
+
+        const result = await manager.syncWithRetry();
+
+        expect(batches.map((b) => b.length)).toEqual([25, 5]);
+        expect(result.success).toBe(30);
+        expect(await manager.getPendingActions()).toEqual([]);
+        expect(manager.getState()).toMatchObject({ status: 'idle', pendingCount: 0 });
+    });
+
+    it('holds actions until a transport is set', async () => {
+        const manager = new SyncManager();
+        await queueTithes(manager, 1);
+
+        const result = await manager.syncWithRetry();
+
+        expect(result.success).toBe(0);
+        expect(await manager.getPendingActions()).toHaveLength(1);
+    });
+
+    it('keeps transient failures queued, backing off exponentially until they are dead-lettered', async () => {
+        const manager = new SyncManager();
+        const { transport } = createFakeTransport(() => ({ status: 'retry', error: 'Timeout' }));
+        manager.setTransport(transport);
+        await queueTithes(manager, 2);
+
+        await manager.syncWithRetry();
+        let pending = await manager.getPendingActions();
+        expect(pending.map((a) => a.retryCount)).toEqual([1, 1]);
+        expect(pending[0].lastError).toBe('Timeout');
+        expect(sleep).toHaveBeenLastCalledWith(1000);
+
+        await manager.syncWithRetry();
+        pending = await manager.getPendingActions();
+        expect(pending.map((a) => a.retryCount)).toEqual([2, 2]);
+        expect(sleep).toHaveBeenLastCalledWith(2000);
+
+        const result = await manager.syncWithRetry();
+        expect(result.deadLettered).toBe(2);
+        expect(await manager.getPendingActions()).toEqual([]);
+        const deadLetters = await manager.getDeadLetters();
+        expect(deadLetters.map((a) => a.reason)).toEqual([
+            'Exceeded 3 retries: Timeout',
+            'Exceeded 3 retries: Timeout',
+        ]);
+        expect(manager.getState()).toMatchObject({ status: 'error', deadLetterCount: 2 });
+    });
+
+    it('leaves later batches queued after a transient failure so order is kept', async () => {
+        const manager = new SyncManager();
+        const { transport, batches } = createFakeTransport((a) =>
+            a.id === 1 ? { status: 'retry', error: 'Timeout' } : { status: 'synced' }
+        );
+        manager.setTransport(transport);
+        await queueTithes(manager, 30);
+
+        const result = await manager.syncWithRetry();
+
+        expect(batches).toHaveLength(1);
+        expect(result.success).toBe(24);
+        expect(await manager.getPendingActions()).toHaveLength(6);
+    });
+
+    it('dead-letters rejected actions without retrying them', async () => {
+        const manager = new SyncManager();
+        const { transport } = createFakeTransport(() => ({ status: 'rejected', error: 'Payload is missing memberId' }));
+        manager.setTransport(transport);
+        await queueTithes(manager, 1);
+
+        const result = await manager.syncWithRetry();
+
+        expect(result.deadLettered).toBe(1);
+        expect(sleep).not.toHaveBeenCalled();
+        expect((await manager.getDeadLetters())[0].reason).toBe('Payload is missing memberId');
+
+        await manager.requeueDeadLetter((await manager.getDeadLetters())[0].id);
+        expect((await manager.getPendingActions())[0].retryCount).toBe(0);
+    });
+
+    it('counts a transport that throws as a failed attempt', async () => {
+        const manager = new SyncManager();
+        manager.setTransport({
+            name: 'broken',
+            deliver: vi.fn().mockRejectedValue(new SyntaxError('Unexpected end of JSON input')),
+        });
+        await queueTithes(manager, 1);
+
+        const result = await manager.syncWithRetry();
+
+        expect(result.failed).toBe(1);
+        expect(await manager.getPendingActions()).toMatchObject([
+            { retryCount: 1, lastError: 'Unexpected end of JSON input' },
+        ]);
+    });
+});
+
+// ============================================================================
+// TESTS: Member edits across devices
+// ============================================================================
+
+const BASE_MEMBER: MemberRecordA = {
+    "No.": 1,
+    "Membership Number": 'TAC001',
+    "First Name": 'Kwame',
+    Surname: 'Mensah',
+    "Phone Number": '0244123456',
+    Email: 'kwame@example.com',
+    revision: 1,
+    revisedBy: 'device-x',
+};
+
+/** The same member after another device changed the phone number */
+const REMOTE_MEMBER: MemberRecordA = { ...BASE_MEMBER, "Phone Number": '0200000000', revision: 2, revisedBy: 'device-b' };
+
+const memberPayloads = async (manager: SyncManager) =>
+    (await manager.getPendingActions()).map((a) => a.payload as MemberSyncPayload);
+
+describe('SyncManager member update queueing', () => {
+    it('folds queued edits of a member into one update from the first base', async () => {
+        const manager = new SyncManager();
+        const first = createMemberUpdatePayload('Central', { ...BASE_MEMBER, Email: 'a@example.com' }, BASE_MEMBER);
+        const second = createMemberUpdatePayload('Central', { ...first.member, Surname: 'Mensa' }, first.member);
+
+        await manager.queueAction('UPDATE_MEMBER', first);
+        await manager.queueAction('UPDATE_MEMBER', second);
+
+        const payloads = await memberPayloads(manager);
+        expect(payloads).toHaveLength(1);
+        expect(payloads[0].baseRevision).toBe(1);
+        expect(payloads[0].baseRevisedBy).toBe('device-x');
+        expect(payloads[0].member).toMatchObject({ Email: 'a@example.com', Surname: 'Mensa', revision: 3 });
+    });
+
+    it('does not fold into actions that were sent or are being sent', () => {
+        const payload = createMemberUpdatePayload('Central', BASE_MEMBER, BASE_MEMBER);
+        const queued = (id: number, retryCount = 0): PendingSyncAction =>
+            ({ id, type: 'UPDATE_MEMBER', payload, timestamp: id, retryCount });
+
+        expect(findFoldableMemberUpdate([queued(1)], payload, new Set())?.id).toBe(1);
+        expect(findFoldableMemberUpdate([queued(1)], payload, new Set([1]))).toBeNull();
+        expect(findFoldableMemberUpdate([queued(1, 1)], payload, new Set())).toBeNull();
+        expect(findFoldableMemberUpdate([queued(1)], { ...payload, assemblyName: 'Maranatha' }, new Set())).toBeNull();
+    });
+
+    it('stamps revisions with the device so two devices never share one', () => {
+        const payload = createMemberUpdatePayload('Central', BASE_MEMBER, BASE_MEMBER);
+        expect(payload.member.revision).toBe(2);
+        expect(payload.member.revisedBy).toEqual(expect.any(String));
+        expect(payload.member.revisedBy).not.toBe('device-x');
+    });
+});
+
+describe('SyncManager member conflicts', () => {
+    let sleep: MockInstance;
+
+    beforeEach(() => {
+        sleep = vi
+            .spyOn(SyncManager.prototype as unknown as { sleep: (ms: number) => Promise<void> }, 'sleep')
+            .mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        sleep.mockRestore();
+    });
+
+    it('auto-merges edits to different fields and requeues on top of the remote revision', async () => {
+        const manager = new SyncManager();
+        let calls = 0;
+        const { transport } = createFakeTransport(() =>
+            calls++ === 0 ? { status: 'conflict', remote: REMOTE_MEMBER } : { status: 'synced' }
+        );
+        manager.setTransport(transport);
+        const merged = vi.fn();
+        manager.subscribeMemberMerges(merged);
+        await manager.queueAction(
+            'UPDATE_MEMBER',
+            createMemberUpdatePayload('Central', { ...BASE_MEMBER, Email: 'new@example.com' }, BASE_MEMBER)
+        );
+
+        const result = await manager.syncWithRetry();
+
+        expect(result.autoMerged).toBe(1);
+        const [requeued] = await memberPayloads(manager);
+        expect(requeued).toMatchObject({ baseRevision: 2, baseRevisedBy: 'device-b' });
+        expect(requeued.member).toMatchObject({ Email: 'new@example.com', "Phone Number": '0200000000', revision: 3 });
+        expect(merged).toHaveBeenCalledWith('Central', requeued.member);
+        expect(await manager.getMemberConflicts()).toEqual([]);
+    });
+
+    it('keeps overlapping edits for a manual merge', async () => {
+        const manager = new SyncManager();
+        const { transport } = createFakeTransport(() => ({ status: 'conflict', remote: REMOTE_MEMBER }));
+        manager.setTransport(transport);
+        await manager.queueAction(
+            'UPDATE_MEMBER',
+            createMemberUpdatePayload('Central', { ...BASE_MEMBER, "Phone Number": '0555555555' }, BASE_MEMBER)
+        );
+
+        const result = await manager.syncWithRetry();
+
+        expect(result.conflicts).toBe(1);
+        expect(await manager.getPendingActions()).toEqual([]);
+        const [conflict] = await manager.getMemberConflicts();
+        expect(conflict).toMatchObject({ id: 'Central:TAC001', base: BASE_MEMBER, remote: REMOTE_MEMBER });
+        expect(conflict.conflicts).toEqual([
+            { field: 'Phone Number', baseValue: '0244123456', localValue: '0555555555', remoteValue: '0200000000' },
+        ]);
+        expect(manager.getState()).toMatchObject({ status: 'error', conflictCount: 1 });
+    });
+
+    it('merges a second conflict into the pending one instead of resolving the first edit to the remote value', async () => {
+        const manager = new SyncManager();
+        const { transport } = createFakeTransport(() => ({ status: 'conflict', remote: REMOTE_MEMBER }));
+        manager.setTransport(transport);
+
+        const first = createMemberUpdatePayload('Central', { ...BASE_MEMBER, "Phone Number": '0555555555' }, BASE_MEMBER);
+        await manager.queueAction('UPDATE_MEMBER', first);
+        await manager.syncWithRetry();
+
+        // The local record still holds the first edit; the next edit starts from it
+        const second = createMemberUpdatePayload('Central', { ...first.member, Email: 'new@example.com' }, first.member);
+        await manager.queueAction('UPDATE_MEMBER', second);
+        await manager.syncWithRetry();
+
+        const conflicts = await manager.getMemberConflicts();
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].base).toEqual(BASE_MEMBER);
+        expect(conflicts[0].conflicts.map((c) => c.field)).toEqual(['Phone Number']);
+        expect(conflicts[0].local).toMatchObject({ "Phone Number": '0555555555', Email: 'new@example.com' });
+    });
+
+    it('resolves a conflict by queueing the chosen record on the remote revision', async () => {
+        const manager = new SyncManager();
+        const { transport } = createFakeTransport(() => ({ status: 'conflict', remote: REMOTE_MEMBER }));
+        manager.setTransport(transport);
+        await manager.queueAction(
+            'UPDATE_MEMBER',
+            createMemberUpdatePayload('Central', { ...BASE_MEMBER, "Phone Number": '0555555555' }, BASE_MEMBER)
+        );
+        await manager.syncWithRetry();
+        manager.setTransport(null);
+
+        await manager.resolveMemberConflict('Central:TAC001', { ...REMOTE_MEMBER, "Phone Number": '0555555555' });
+
+        expect(await manager.getMemberConflicts()).toEqual([]);
+        expect(await memberPayloads(manager)).toMatchObject([
+            { baseRevision: 2, baseRevisedBy: 'device-b', member: { "Phone Number": '0555555555', revision: 3 } },
+        ]);
+    });
+});
@@ -1,18 +1,43 @@
 import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { SYNC_SERVER_URL } from "@/constants";
+import { MemberRecordA, MemberSyncConflict } from "@/types";
+import { getMemberSyncId, threeWayMerge } from "./memberMerge";
+import {
+    createMemberUpdatePayload,
+    HttpSyncTransport,
+    MemberSyncPayload,
+    outcomesForBatchError,
+    PendingSyncAction,
+    SyncActionOutcome,
+    SyncActionType,
+    SyncTransport,
+} from "./syncTransport";
+
+/**
+ * Action that failed permanently (rejected by the backend or out of retries)
+ */
+export interface DeadLetterAction extends PendingSyncAction {
+    id: number;
+    failedAt: number;
+    reason: string;
+}
 
 interface SyncDB extends DBSchema {
     "pending-actions": {
         key: number;
-        value: {
-            id?: number;
-            type: "ADD_MEMBER" | "UPDATE_MEMBER" | "DELETE_MEMBER" | "UPDATE_TITHE";
-            payload: any;
-            timestamp: number;
-            retryCount?: number;
-            lastError?: string;
-        };
+        value: PendingSyncAction;
         indexes: { "by-timestamp": number };
     };
+    "dead-letter": {
+        key: number;
+        value: DeadLetterAction;
+        indexes: { "by-failed-at": number };
+    };
+    "member-conflicts": {
+        key: string;
+        value: MemberSyncConflict;
+        indexes: { "by-assembly": string };
+    };
 }
 
 export type SyncStatus = "idle" | "syncing" | "error" | "offline";
@@ -20,34 +45,96 @@ export type SyncStatus = "idle" | "syncing" | "error" | "offline";
 export interface SyncState {
     status: SyncStatus;
     pendingCount: number;
+    deadLetterCount: number;
+    conflictCount: number;
     lastSyncTime: number | null;
     lastError: string | null;
 }
 
+export interface SyncRunResult {
+    success: number;
+    failed: number;
+    deadLettered: number;
+    conflicts: number;
+    autoMerged: number;
+    outcomes: SyncActionOutcome[];
+}
+
+/** Number of actions delivered per transport call */
+const SYNC_BATCH_SIZE = 25;
+
+/**
+ * A queued UPDATE_MEMBER for the same member that a new edit can be folded
+ * into. Only actions that were never sent qualify: one in flight, or one the
+ * backend may already have applied (retried after a lost response), would
+ * drop the folded edit when it is acknowledged.
+ */
+export const findFoldableMemberUpdate = (
+    pending: PendingSyncAction[],
+    payload: MemberSyncPayload,
+    inFlightIds: Set<number>
+): PendingSyncAction | null => {
+    const memberId = getMemberSyncId(payload.member);
+    if (!memberId) return null;
+    return (
+        pending.find((action) => {
+            if (action.type !== "UPDATE_MEMBER" || action.retryCount || inFlightIds.has(action.id!)) return false;
+            const queued = action.payload as MemberSyncPayload;
+            return queued.assemblyName === payload.assemblyName && getMemberSyncId(queued.member) === memberId;
+        }) || null
+    );
+};
+
 type SyncListener = (state: SyncState) => void;
+type MemberMergeListener = (assemblyName: string, member: MemberRecordA) => void;
 
-class SyncManager {
+export class SyncManager {
     private dbPromise: Promise<IDBPDatabase<SyncDB>>;
     private listeners: Set<SyncListener> = new Set();
+    private mergeListeners: Set<MemberMergeListener> = new Set();
     private state: SyncState = {
         status: "idle",
         pendingCount: 0,
+        deadLetterCount: 0,
+        conflictCount: 0,
         lastSyncTime: null,
         lastError: null,
     };
     private isSyncing = false;
+    private inFlightIds = new Set<number>();
+    private transport: SyncTransport | null = null;
 
     constructor() {
-        this.dbPromise = openDB<SyncDB>("tactms-sync-db", 1, {
-            upgrade(db) {
-                const store = db.createObjectStore("pending-actions", {
-                    keyPath: "id",
-                    autoIncrement: true,
-                });
-                store.createIndex("by-timestamp", "timestamp");
+        this.dbPromise = openDB<SyncDB>("tactms-sync-db", 3, {
+            upgrade(db, oldVersion) {
+                // Version 1: Pending action queue
+                if (oldVersion < 1) {
+                    const store = db.createObjectStore("pending-actions", {
+                        keyPath: "id",
+                        autoIncrement: true,
+                    });
+                    store.createIndex("by-timestamp", "timestamp");
+                }
+
+                // Version 2: Dead-letter store for permanently failed actions
+                if (oldVersion < 2) {
+                    const deadLetter = db.createObjectStore("dead-letter", { keyPath: "id" });
+                    deadLetter.createIndex("by-failed-at", "failedAt");
+                }
+
+                // Version 3: Member edit conflicts awaiting a manual merge
+                if (oldVersion < 3) {
+                    const conflicts = db.createObjectStore("member-conflicts", { keyPath: "id" });
+                    conflicts.createIndex("by-assembly", "assemblyName");
+                }
             },
         });
 
+        // Use the configured sync server by default; Drive can be set later on sign-in
+        if (SYNC_SERVER_URL) {
+            this.transport = new HttpSyncTransport(SYNC_SERVER_URL);
+        }
+
         // Update pending count on init
         this.updatePendingCount();
 
@@ -56,6 +143,28 @@ class SyncManager {
             window.addEventListener("online", () => this.handleOnline());
             window.addEventListener("offline", () => this.handleOffline());
         }
+
+        // Background sync fired in the service worker - flush the queue
+        if (typeof navigator !== "undefined" && navigator.serviceWorker) {
+            navigator.serviceWorker.addEventListener("message", (event) => {
+                if (event.data?.type === "SYNC_DATA_AVAILABLE") {
+                    this.syncWithRetry();
+                }
+            });
+        }
+    }
+
+    // Set (or clear) the transport used to deliver queued actions
+    setTransport(transport: SyncTransport | null) {
+        this.transport = transport;
+        console.log(`[SyncManager] Transport set: ${transport?.name ?? "none"}`);
+        if (transport && this.state.pendingCount > 0) {
+            this.syncWithRetry();
+        }
+    }
+
+    getTransport(): SyncTransport | null {
+        return this.transport;
     }
 
     // Subscribe to state changes
@@ -66,6 +175,17 @@ class SyncManager {
         return () => this.listeners.delete(listener);
     }
 
+    // Subscribe to members changed by a merge (auto-merge or resolved conflict).
+    // The local member database should apply these without queueing a new action.
+    subscribeMemberMerges(listener: MemberMergeListener): () => void {
+        this.mergeListeners.add(listener);
+        return () => this.mergeListeners.delete(listener);
+    }
+
+    private notifyMemberMerged(assemblyName: string, member: MemberRecordA) {
+        this.mergeListeners.forEach((listener) => listener(assemblyName, member));
+    }
+
     private notify() {
         this.listeners.forEach((listener) => listener(this.state));
     }
@@ -76,8 +196,13 @@ class SyncManager {
     }
 
     private async updatePendingCount() {
-        const actions = await this.getPendingActions();
-        this.updateState({ pendingCount: actions.length });
+        const db = await this.dbPromise;
+        const [pendingCount, deadLetterCount, conflictCount] = await Promise.all([
+            db.count("pending-actions"),
+            db.count("dead-letter"),
+            db.count("member-conflicts"),
+        ]);
+        this.updateState({ pendingCount, deadLetterCount, conflictCount });
     }
 
     private handleOnline() {
@@ -91,11 +216,24 @@ class SyncManager {
         this.updateState({ status: "offline" });
     }
 
-    async queueAction(
-        type: "ADD_MEMBER" | "UPDATE_MEMBER" | "DELETE_MEMBER" | "UPDATE_TITHE",
-        payload: any
-    ) {
+    async queueAction(type: SyncActionType, payload: unknown) {
         const db = await this.dbPromise;
+
+        // One UPDATE_MEMBER per member: later edits replace the queued record but
+        // keep the base it started from, so the backend sees a single revision step
+        if (type === "UPDATE_MEMBER") {
+            const update = payload as MemberSyncPayload;
+            const queued = findFoldableMemberUpdate(await this.getPendingActions(), update, this.inFlightIds);
+            if (queued) {
+                await db.put("pending-actions", {
+                    ...queued,
+                    payload: { ...(queued.payload as MemberSyncPayload), member: update.member },
+                });
+                console.log(`[SyncManager] Edit folded into queued action ${queued.id}`);
+                return;
+            }
+        }
+
         await db.add("pending-actions", {
             type,
             payload,
@@ -133,70 +271,248 @@ class SyncManager {
         await this.updatePendingCount();
     }
 
+    // Dead-letter store: actions that will not be retried automatically
+    async getDeadLetters(): Promise<DeadLetterAction[]> {
+        const db = await this.dbPromise;
+        return db.getAllFromIndex("dead-letter", "by-failed-at");
+    }
+
+    // Move a dead-lettered action back into the pending queue
+    async requeueDeadLetter(id: number) {
+        const db = await this.dbPromise;
+        const action = await db.get("dead-letter", id);
+        if (!action) return;
+
+        const { failedAt: _failedAt, reason: _reason, id: _id, ...rest } = action;
+        const tx = db.transaction(["pending-actions", "dead-letter"], "readwrite");
+        await tx.objectStore("pending-actions").add({ ...rest, retryCount: 0 });
+        await tx.objectStore("dead-letter").delete(id);
+        await tx.done;
+        await this.updatePendingCount();
+    }
+
+    async clearDeadLetters() {
+        const db = await this.dbPromise;
+        await db.clear("dead-letter");
+        await this.updatePendingCount();
+    }
+
+    private async moveToDeadLetter(action: PendingSyncAction, reason: string) {
+        const db = await this.dbPromise;
+        const tx = db.transaction(["pending-actions", "dead-letter"], "readwrite");
+        await tx.objectStore("dead-letter").put({
+            ...action,
+            id: action.id!,
+            failedAt: Date.now(),
+            reason,
+        });
+        await tx.objectStore("pending-actions").delete(action.id!);
+        await tx.done;
+        console.warn(`[SyncManager] Action ${action.id} moved to dead-letter: ${reason}`);
+    }
+
+    // Conflicting member edits awaiting a manual per-field merge
+    async getMemberConflicts(): Promise<MemberSyncConflict[]> {
+        const db = await this.dbPromise;
+        return db.getAll("member-conflicts");
+    }
+
+    // Queue the merged record on top of the remote revision and update local data
+    async resolveMemberConflict(conflictId: string, resolved: MemberRecordA) {
+        const db = await this.dbPromise;
+        const conflict = await db.get("member-conflicts", conflictId);
+        if (!conflict) return;
+
+        const member = await this.queueMergedMember(conflict.assemblyName, resolved, conflict.remote);
+        await db.delete("member-conflicts", conflictId);
+        await this.updatePendingCount();
+        this.notifyMemberMerged(conflict.assemblyName, member);
+    }
+
+    // Drop the local edit and adopt the remote version as-is
+    async discardMemberConflict(conflictId: string) {
+        const db = await this.dbPromise;
+        const conflict = await db.get("member-conflicts", conflictId);
+        if (!conflict) return;
+
+        await db.delete("member-conflicts", conflictId);
+        await this.updatePendingCount();
+        this.notifyMemberMerged(conflict.assemblyName, conflict.remote);
+    }
+
+    private async queueMergedMember(
+        assemblyName: string,
+        merged: MemberRecordA,
+        remote: MemberRecordA
+    ): Promise<MemberRecordA> {
+        const payload = createMemberUpdatePayload(assemblyName, merged, remote);
+        await this.queueAction("UPDATE_MEMBER", payload);
+        return payload.member;
+    }
+
+    // Three-way merge a conflicting UPDATE_MEMBER; auto-requeue when fields don't overlap
+    private async handleConflict(
+        action: PendingSyncAction,
+        outcome: SyncActionOutcome
+    ): Promise<"auto-merged" | "conflict"> {
+        const payload = action.payload as MemberSyncPayload;
+        const remote = outcome.remote!;
+        const memberId = getMemberSyncId(payload.member);
+        const conflictId = `${payload.assemblyName}:${memberId}`;
+
+        const db = await this.dbPromise;
+        await db.delete("pending-actions", action.id!);
+
+        // A conflict already pending for this member means the local record (and so
+        // this edit's base) contains edits the remote never accepted. Merge from the
+        // original base so those edits stay in conflict instead of taking the remote value.
+        const pending = await db.get("member-conflicts", conflictId);
+        const base = pending?.base || payload.base || remote;
+        const { merged, conflicts, mergedFields } = threeWayMerge(base, payload.member, remote);
+
+        if (conflicts.length === 0) {
+            if (pending) await db.delete("member-conflicts", conflictId);
+            const member = await this.queueMergedMember(payload.assemblyName, merged, remote);
+            this.notifyMemberMerged(payload.assemblyName, member);
+            return "auto-merged";
+        }
+
+        await db.put("member-conflicts", {
+            id: conflictId,
+            assemblyName: payload.assemblyName,
+            memberId,
+            base,
+            local: merged,
+            remote,
+            conflicts,
+            mergedFields,
+            detectedAt: pending?.detectedAt || Date.now(),
+        });
+        console.warn(
+            `[SyncManager] Conflict on ${memberId}: ${conflicts.map((c) => c.field).join(", ")}`
+        );
+        return "conflict";
+    }
+
     // Get current sync state
     getState(): SyncState {
         return this.state;
     }
 
-    // Retry sync with exponential backoff
-    async syncWithRetry(maxRetries = 3): Promise<{ success: number; failed: number }> {
+    // Deliver queued actions through the transport with exponential backoff
+    async syncWithRetry(maxRetries = 3): Promise<SyncRunResult> {
+        const emptyResult: SyncRunResult = {
+            success: 0,
+            failed: 0,
+            deadLettered: 0,
+            conflicts: 0,
+            autoMerged: 0,
+            outcomes: [],
+        };
+
         if (this.isSyncing) {
             console.log("[SyncManager] Sync already in progress");
-            return { success: 0, failed: 0 };
+            return emptyResult;
         }
 
         if (!navigator.onLine) {
             this.updateState({ status: "offline" });
-            return { success: 0, failed: 0 };
+            return emptyResult;
+        }
+
+        if (!this.transport) {
+            console.log("[SyncManager] No transport configured - actions stay queued");
+            return emptyResult;
         }
 
         this.isSyncing = true;
         this.updateState({ status: "syncing" });
 
-        const actions = await this.getPendingActions();
-        let successCount = 0;
-        let failedCount = 0;
-
-        for (const action of actions) {
-            const retryCount = action.retryCount || 0;
-
-            if (retryCount >= maxRetries) {
-                console.warn(`[SyncManager] Action ${action.id} exceeded max retries`);
-                failedCount++;
-                continue;
-            }
-
-            try {
-                // Placeholder for actual sync logic
-                // In a real implementation, this would call your API
-                await this.syncAction(action);
-                await this.removeAction(action.id!);
-                successCount++;
-                console.log(`[SyncManager] Action ${action.id} synced successfully`);
-            } catch (error: any) {
-                console.error(`[SyncManager] Sync failed for action ${action.id}:`, error);
-
-                // Update retry count with exponential backoff
-                const db = await this.dbPromise;
-                await db.put("pending-actions", {
-                    ...action,
-                    retryCount: retryCount + 1,
-                    lastError: error.message || "Unknown error",
-                });
-
-                // Wait with exponential backoff before next attempt
-                const backoffMs = Math.pow(2, retryCount) * 1000;
-                await this.sleep(backoffMs);
-                failedCount++;
+        const result: SyncRunResult = { ...emptyResult, outcomes: [] };
+
+        try {
+            const actions = await this.getPendingActions();
+
+            for (let i = 0; i < actions.length; i += SYNC_BATCH_SIZE) {
+                const batch = actions.slice(i, i + SYNC_BATCH_SIZE);
+                batch.forEach((a) => this.inFlightIds.add(a.id!));
+                let outcomes: SyncActionOutcome[];
+                try {
+                    outcomes = await this.transport.deliver(batch);
+                } catch (error) {
+                    // A transport that throws still counts as an attempt for every action
+                    outcomes = outcomesForBatchError(batch, error);
+                }
+                const actionsById = new Map(batch.map((a) => [a.id!, a]));
+                let maxRetryCount = -1;
+
+                for (const outcome of outcomes) {
+                    const action = actionsById.get(outcome.actionId);
+                    if (!action) continue;
+                    result.outcomes.push(outcome);
+
+                    if (outcome.status === "synced") {
+                        await this.removeAction(action.id!);
+                        result.success++;
+                        continue;
+                    }
+
+                    if (outcome.status === "conflict" && outcome.remote) {
+                        const resolution = await this.handleConflict(action, outcome);
+                        if (resolution === "auto-merged") result.autoMerged++;
+                        else result.conflicts++;
+                        continue;
+                    }
+
+                    result.failed++;
+                    const retryCount = (action.retryCount || 0) + 1;
+
+                    if (outcome.status === "rejected" || retryCount >= maxRetries) {
+                        await this.moveToDeadLetter(
+                            action,
+                            outcome.status === "rejected"
+                                ? outcome.error || "Rejected by sync backend"
+                                : `Exceeded ${maxRetries} retries: ${outcome.error || "Unknown error"}`
+                        );
+                        result.deadLettered++;
+                        continue;
+                    }
+
+                    const db = await this.dbPromise;
+                    await db.put("pending-actions", {
+                        ...action,
+                        retryCount,
+                        lastError: outcome.error || "Unknown error",
+                    });
+                    maxRetryCount = Math.max(maxRetryCount, action.retryCount || 0);
+                }
+
+                // Transient failure: back off and leave the rest of the queue for the
+                // next run so later actions are not applied ahead of earlier ones
+                if (maxRetryCount >= 0) {
+                    await this.sleep(Math.pow(2, maxRetryCount) * 1000);
+                    break;
+                }
             }
+        } catch (error) {
+            console.error("[SyncManager] Sync run failed:", error);
+            result.failed++;
+        } finally {
+            this.isSyncing = false;
+            this.inFlightIds.clear();
+            await this.updatePendingCount();
         }
 
-        this.isSyncing = false;
-
-        if (failedCount > 0) {
+        if (result.failed > 0) {
+            this.updateState({
+                status: "error",
+                lastError: `${result.failed} action(s) failed to sync`,
+                lastSyncTime: Date.now(),
+            });
+        } else if (result.conflicts > 0) {
             this.updateState({
                 status: "error",
-                lastError: `${failedCount} action(s) failed to sync`,
+                lastError: `${result.conflicts} member edit(s) conflict with another device`,
                 lastSyncTime: Date.now(),
             });
         } else {
@@ -207,15 +523,7 @@ class SyncManager {
             });
         }
 
-        return { success: successCount, failed: failedCount };
-    }
-
-    // Placeholder for actual sync implementation
-    private async syncAction(action: SyncDB["pending-actions"]["value"]): Promise<void> {
-        // TODO: Implement actual API sync logic here
-        // For now, simulate success after a short delay
-        await this.sleep(100);
-        console.log(`[SyncManager] Syncing action: ${action.type}`, action.payload);
+        return result;
     }
 
     private sleep(ms: number): Promise<void> {
@@ -261,18 +261,20 @@ export const validateAmount = (
  * Checks handwriting learning database first for known patterns
  * Uses member history to weight suggestions (context-aware)
  * @param enableSnapping - If true, suggest snapping to common values (default: true)
+ * @param scribeId - Writer of the page, whose learned misreads are tried first
  */
 export const validateAmountWithLearning = async (
     amount: number | string,
     assemblyName: string,
     memberHistory?: MemberTitheHistory,
-    enableSnapping: boolean = true
+    enableSnapping: boolean = true,
+    scribeId?: string
 ): Promise<AmountValidation> => {
     const { suggestCorrection } = await import('./handwritingLearning');
 
     // If amount is a string, check learned corrections first
     if (typeof amount === 'string') {
-        const learnedSuggestion = await suggestCorrection(assemblyName, amount);
+        const learnedSuggestion = await suggestCorrection(assemblyName, amount, scribeId);
 
         if (learnedSuggestion && learnedSuggestion.confidence > 0.5) {
             let adjustedConfidence = learnedSuggestion.confidence;
@@ -333,7 +335,7 @@ export const validateAmountWithLearning = async (
     if (typeof amount === 'string') {
         try {
             const { predictEnsemble } = await import('./ensembleOCR');
-            const ensemblePrediction = await predictEnsemble(amount);
+            const ensemblePrediction = await predictEnsemble(amount, scribeId);
 
             if (ensemblePrediction && ensemblePrediction.confidence > 0.6) {
                 const methodNote = ensemblePrediction.agreementScore > 1
@@ -5,10 +5,12 @@
 import { describe, it, expect } from "vitest";
 import {
     calculateMemberPatterns,
+    calculateAssemblyAnalytics,
     identifyIrregularMembers,
     comparePerformance,
     getMonthlyTitheSummary,
     getTopAssemblies,
+    calculateTotalsByType,
     MemberTithingPattern
 } from "./analyticsCalculator";
 import { TransactionLogEntry, TitheRecordB, MemberDatabase } from "../types";
@@ -20,10 +22,11 @@ import { TransactionLogEntry, TitheRecordB, MemberDatabase } from "../types";
 const createTitheRecord = (
     name: string,
     amount: number,
-    date: string
+    date: string,
+    transactionType = "Individual Tithe-[Income]"
 ): TitheRecordB => ({
     "No.": 1,
-    "Transaction Type": "Individual Tithe-[Income]",
+    "Transaction Type": transactionType,
     "Payment Source Type": "Registered Member",
     "Membership Number": name,
     "Transaction Date ('DD-MMM-YYYY')": date,
@@ -129,6 +132,135 @@ describe("calculateMemberPatterns", () => {
         expect(result[0].memberId).toBe("TAC002");
         expect(result[1].memberId).toBe("TAC001");
     });
+
+    it("ignores offerings and other non-tithe records", () => {
+        const logs: TransactionLogEntry[] = [
+            createTransactionLog("Central", "2024-01-07", [
+                createTitheRecord("John Doe (TAC001)", 100, "07-Jan-2024"),
+                createTitheRecord("Jane Doe (TAC002)", 40, "07-Jan-2024", "Sunday Offering-[Income]")
+            ])
+        ];
+
+        const result = calculateMemberPatterns(logs);
+
+        expect(result.map(p => p.memberId)).toEqual(["TAC001"]);
+    });
+});
+
+// ============================================================================
+// CALCULATE ASSEMBLY ANALYTICS TESTS
+// ============================================================================
+
+describe("calculateAssemblyAnalytics", () => {
+    it("leaves offerings out of the weekly tithe amounts", () => {
+        const logs: TransactionLogEntry[] = [
+            createTransactionLog("Central", "2024-01-07", [
+                createTitheRecord("John Doe (TAC001)", 100, "07-Jan-2024"),
+                createTitheRecord("Jane Doe (TAC002)", 40, "07-Jan-2024", "Sunday Offering-[Income]")
+            ])
+        ];
+
+        const result = calculateAssemblyAnalytics(logs, {}, "Central");
+
+        expect(result.totalTitheYTD).toBe(100);
+        expect(result.weeklyData).toEqual([{ date: "2024-01-07", amount: 100, tithersCount: 1 }]);
+        expect(result.totalsByType["Sunday Offering-[Income]"]).toBe(40);
+    });
+});
+
+// ============================================================================
+// TRANSFERRED MEMBERS TESTS
+// ============================================================================
+
+describe("transferred members", () => {
+    // TAC001 moved from Central to North on 21 Jan
+    const memberDatabase: MemberDatabase = {
+        Central: { data: [{ "Membership Number": "TAC002" }], lastUpdated: 0, fileName: "central.xlsx" },
+        North: {
+            data: [{
+                "Membership Number": "TAC001",
+                transferHistory: [{ fromAssembly: "Central", toAssembly: "North", transferDate: "2024-01-21", recordedAt: 0 }],
+            }],
+            lastUpdated: 0,
+            fileName: "north.xlsx",
+        },
+    };
+
+    const logs: TransactionLogEntry[] = [
+        createTransactionLog("Central", "2024-01-07", [
+            createTitheRecord("John Doe (TAC001)", 100, "07-Jan-2024"),
+            createTitheRecord("Jane Doe (TAC002)", 50, "07-Jan-2024")
+        ]),
+        createTransactionLog("Central", "2024-01-14", [
+            createTitheRecord("John Doe (TAC001)", 100, "14-Jan-2024")
+        ]),
+        // Still written in Central's book the week of the transfer
+        createTransactionLog("Central", "2024-01-21", [
+            createTitheRecord("John Doe (TAC001)", 120, "21-Jan-2024")
+        ]),
+        createTransactionLog("North", "2024-01-28", [
+            createTitheRecord("John Doe (TAC001)", 150, "28-Jan-2024")
+        ])
+    ];
+
+    it("counts tithes towards the assembly the member belonged to on each date", () => {
+        const central = calculateAssemblyAnalytics(logs, memberDatabase, "Central");
+        const north = calculateAssemblyAnalytics(logs, memberDatabase, "North");
+
+        expect(central.totalTitheYTD).toBe(250);
+        expect(north.totalTitheYTD).toBe(270);
+        expect(central.weeklyData.map(w => w.amount)).toEqual([150, 100, 0]);
+        expect(north.weeklyData).toEqual([
+            { date: "2024-01-21", amount: 120, tithersCount: 1 },
+            { date: "2024-01-28", amount: 150, tithersCount: 1 },
+        ]);
+    });
+
+    it("measures consistency over the weeks spent in the assembly", () => {
+        const central = calculateAssemblyAnalytics(logs, memberDatabase, "Central");
+        const north = calculateAssemblyAnalytics(logs, memberDatabase, "North");
+
+        expect(central.topTithers.find(p => p.memberId === "TAC001")).toMatchObject({ weeksPaid: 2, weeksInPeriod: 2, consistencyScore: 100 });
+        expect(north.topTithers[0]).toMatchObject({ assemblyName: "North", weeksPaid: 2, consistencyScore: 100 });
+    });
+
+    it("reports the assembly of the latest tithe across all assemblies", () => {
+        const transfers = new Map([["tac001", {
+            currentAssembly: "North",
+            transfers: memberDatabase.North.data[0].transferHistory || [],
+        }]]);
+        const patterns = calculateMemberPatterns(logs, undefined, transfers);
+
+        expect(patterns.find(p => p.memberId === "TAC001")?.assemblyName).toBe("North");
+    });
+});
+
+// ============================================================================
+// TOTALS BY TYPE TESTS
+// ============================================================================
+
+describe("calculateTotalsByType", () => {
+    const logs: TransactionLogEntry[] = [
+        createTransactionLog("Central", "2024-01-07", [
+            createTitheRecord("John Doe (TAC001)", 100, "07-Jan-2024"),
+            createTitheRecord("Jane Doe (TAC002)", 40, "07-Jan-2024", "Sunday Offering-[Income]")
+        ]),
+        createTransactionLog("North", "2024-01-07", [
+            createTitheRecord("Ama Mensah (TAC003)", 60, "07-Jan-2024", "Welfare Dues-[Income]")
+        ])
+    ];
+
+    it("groups totals by transaction type", () => {
+        expect(calculateTotalsByType(logs)).toEqual({
+            "Individual Tithe-[Income]": 100,
+            "Sunday Offering-[Income]": 40,
+            "Welfare Dues-[Income]": 60
+        });
+    });
+
+    it("filters by assembly when specified", () => {
+        expect(calculateTotalsByType(logs, "North")).toEqual({ "Welfare Dues-[Income]": 60 });
+    });
 });
 
 // ============================================================================
@@ -365,6 +497,20 @@ describe("getMonthlyTitheSummary", () => {
         expect(allAssemblies[0].total).toBe(600);
         expect(centralOnly[0].total).toBe(100);
     });
+
+    it("counts only tithe records", () => {
+        const logs: TransactionLogEntry[] = [
+            createTransactionLog("Central", "2024-01-15", [
+                createTitheRecord("John (TAC001)", 100, "15-Jan-2024"),
+                createTitheRecord("Jane (TAC002)", 40, "15-Jan-2024", "Sunday Offering-[Income]")
+            ])
+        ];
+
+        const result = getMonthlyTitheSummary(logs, 2024);
+
+        expect(result[0].total).toBe(100);
+        expect(result[0].tithersCount).toBe(1);
+    });
 });
 
 // ============================================================================
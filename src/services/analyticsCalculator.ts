@@ -4,6 +4,17 @@
  */
 
 import { TransactionLogEntry, MemberDatabase } from '../types';
+import { getAmountInGHS } from '../lib/currency';
+import { isTitheRecord, sumAmountsByType } from '../lib/transactionTypes';
+import {
+    buildTransferLookup,
+    findAssemblyOnDate,
+    getAssemblyOnDate,
+    MemberAssemblyHistory,
+    TransferLookup,
+} from './memberTransfer';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
 /**
  * Individual member tithing pattern
@@ -37,6 +48,7 @@ export interface AssemblyAnalytics {
     topTithers: MemberTithingPattern[];
     irregularMembers: MemberTithingPattern[];
     weeklyData: Array<{ date: string; amount: number; tithersCount: number }>;
+    totalsByType: Record<string, number>;  // GHS totals per Transaction Type, all giving included
 }
 
 /**
@@ -63,12 +75,49 @@ const extractMemberId = (membershipNumber: string): string => {
     return membershipNumber;
 };
 
+/**
+ * GHS total of the Individual Tithe records in a log. A log's
+ * totalTitheAmount covers every transaction type, offerings included.
+ */
+const getLogTitheTotal = (log: TransactionLogEntry): number =>
+    log.titheListData.reduce((sum, record) => sum + (isTitheRecord(record) ? getAmountInGHS(record) : 0), 0);
+
+/**
+ * Assembly a record counts towards: for transferred members the assembly
+ * they belonged to on the log's date, otherwise the assembly of the log
+ */
+const getRecordAssembly = (
+    log: TransactionLogEntry,
+    memberId: string,
+    transfers: TransferLookup
+): string => findAssemblyOnDate(transfers, memberId, log.selectedDate) ?? log.assemblyName;
+
+/**
+ * Weeks of the period a transferred member spent in the assembly
+ */
+const countWeeksInAssembly = (
+    history: MemberAssemblyHistory,
+    assemblyName: string,
+    minDate: Date,
+    maxDate: Date
+): number => {
+    let weeks = 0;
+    for (let time = minDate.getTime(); time <= maxDate.getTime(); time += WEEK_MS) {
+        if (getAssemblyOnDate(history, new Date(time)) === assemblyName) weeks++;
+    }
+    return Math.max(weeks, 1);
+};
+
 /**
  * Calculate individual member tithing patterns
+ * Only Individual Tithe records count; offerings and dues are not tithes.
+ * With transfers (see buildTransferLookup), a transferred member's tithes
+ * count towards the assembly they belonged to on each date.
  */
 export const calculateMemberPatterns = (
     logs: TransactionLogEntry[],
-    assemblyName?: string
+    assemblyName?: string,
+    transfers: TransferLookup = new Map()
 ): MemberTithingPattern[] => {
     // Filter logs by assembly if specified
     const filteredLogs = assemblyName
@@ -77,44 +126,59 @@ export const calculateMemberPatterns = (
 
     if (filteredLogs.length === 0) return [];
 
-    // Get date range
+    // Get date range (widened below by tithes transferred members paid elsewhere)
     const dates = filteredLogs.map(log => new Date(log.selectedDate).getTime());
-    const minDate = new Date(Math.min(...dates));
-    const maxDate = new Date(Math.max(...dates));
-
-    // Calculate weeks in period
-    const weeksInPeriod = Math.ceil((maxDate.getTime() - minDate.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+    let minTime = Math.min(...dates);
+    let maxTime = Math.max(...dates);
 
     // Aggregate data by member
     const memberData = new Map<string, {
         memberId: string;
         memberName: string;
         assemblyName: string;
+        lastLogTime: number;
         tithes: Array<{ date: string; amount: number }>;
     }>();
 
-    for (const log of filteredLogs) {
+    // Transferred members' tithes can sit in another assembly's logs
+    const sourceLogs = assemblyName && transfers.size > 0 ? logs : filteredLogs;
+
+    for (const log of sourceLogs) {
+        const logTime = new Date(log.selectedDate).getTime();
+
         for (const record of log.titheListData) {
-            const amount = Number(record["Transaction Amount"]) || 0;
+            if (!isTitheRecord(record)) continue;
+            const amount = getAmountInGHS(record);
             if (amount <= 0) continue;
 
             const memberName = record["Membership Number"];
             const memberId = extractMemberId(memberName);
             const date = record["Transaction Date ('DD-MMM-YYYY')"];
-
-            if (!memberData.has(memberId)) {
-                memberData.set(memberId, {
-                    memberId,
-                    memberName,
-                    assemblyName: log.assemblyName,
-                    tithes: [],
-                });
+            const recordAssembly = getRecordAssembly(log, memberId, transfers);
+            if (assemblyName && recordAssembly !== assemblyName) continue;
+            minTime = Math.min(minTime, logTime);
+            maxTime = Math.max(maxTime, logTime);
+
+            let data = memberData.get(memberId);
+            if (!data) {
+                data = { memberId, memberName, assemblyName: recordAssembly, lastLogTime: logTime, tithes: [] };
+                memberData.set(memberId, data);
+            }
+            if (logTime >= data.lastLogTime) {
+                data.assemblyName = recordAssembly;
+                data.lastLogTime = logTime;
             }
 
-            memberData.get(memberId)!.tithes.push({ date, amount });
+            data.tithes.push({ date, amount });
         }
     }
 
+    const minDate = new Date(minTime);
+    const maxDate = new Date(maxTime);
+
+    // Calculate weeks in period
+    const weeksInPeriod = Math.ceil((maxTime - minTime) / WEEK_MS) + 1;
+
     // Calculate patterns for each member
     const patterns: MemberTithingPattern[] = [];
 
@@ -122,7 +186,12 @@ export const calculateMemberPatterns = (
         const tithes = data.tithes;
         const totalTitheYTD = tithes.reduce((sum, t) => sum + t.amount, 0);
         const weeksPaid = new Set(tithes.map(t => t.date)).size;
-        const consistencyScore = Math.round((weeksPaid / weeksInPeriod) * 100);
+        // Transferred members are only measured over their weeks in the assembly
+        const history = transfers.get(memberId.split('|')[0].trim().toLowerCase());
+        const memberWeeks = assemblyName && history
+            ? countWeeksInAssembly(history, assemblyName, minDate, maxDate)
+            : weeksInPeriod;
+        const consistencyScore = Math.round((weeksPaid / memberWeeks) * 100);
         const averageTithe = totalTitheYTD / weeksPaid;
 
         // Sort by date to find latest
@@ -161,7 +230,7 @@ export const calculateMemberPatterns = (
             assemblyName: data.assemblyName,
             totalTitheYTD,
             weeksPaid,
-            weeksInPeriod,
+            weeksInPeriod: memberWeeks,
             consistencyScore,
             averageTithe,
             lastTitheDate,
@@ -182,26 +251,34 @@ export const calculateAssemblyAnalytics = (
     memberDatabase: MemberDatabase,
     assemblyName: string
 ): AssemblyAnalytics => {
-    const patterns = calculateMemberPatterns(logs, assemblyName);
+    const transfers = buildTransferLookup(memberDatabase);
+    const patterns = calculateMemberPatterns(logs, assemblyName, transfers);
     const memberCount = memberDatabase[assemblyName]?.data?.length || 0;
 
     const totalTitheYTD = patterns.reduce((sum, p) => sum + p.totalTitheYTD, 0);
 
     // Calculate weekly data
     const weeklyMap = new Map<string, { amount: number; tithers: Set<string> }>();
+    const assemblyLogs = logs.filter(l => l.assemblyName === assemblyName);
 
-    for (const log of logs.filter(l => l.assemblyName === assemblyName)) {
+    for (const log of transfers.size > 0 ? logs : assemblyLogs) {
         const weekKey = log.selectedDate.toString();
-        if (!weeklyMap.has(weekKey)) {
+        if (log.assemblyName === assemblyName && !weeklyMap.has(weekKey)) {
             weeklyMap.set(weekKey, { amount: 0, tithers: new Set() });
         }
 
         for (const record of log.titheListData) {
-            const amount = Number(record["Transaction Amount"]) || 0;
-            if (amount > 0) {
-                weeklyMap.get(weekKey)!.amount += amount;
-                weeklyMap.get(weekKey)!.tithers.add(extractMemberId(record["Membership Number"]));
-            }
+            if (!isTitheRecord(record)) continue;
+            const amount = getAmountInGHS(record);
+            if (amount <= 0) continue;
+
+            const memberId = extractMemberId(record["Membership Number"]);
+            if (getRecordAssembly(log, memberId, transfers) !== assemblyName) continue;
+
+            const week = weeklyMap.get(weekKey) || { amount: 0, tithers: new Set<string>() };
+            week.amount += amount;
+            week.tithers.add(memberId);
+            weeklyMap.set(weekKey, week);
         }
     }
 
@@ -240,9 +317,25 @@ export const calculateAssemblyAnalytics = (
         topTithers,
         irregularMembers,
         weeklyData,
+        totalsByType: calculateTotalsByType(assemblyLogs),
     };
 };
 
+/**
+ * GHS totals per Transaction Type (tithe, offering, welfare, ...)
+ */
+export const calculateTotalsByType = (
+    logs: TransactionLogEntry[],
+    assemblyName?: string
+): Record<string, number> => {
+    const totals: Record<string, number> = {};
+    for (const log of logs) {
+        if (assemblyName && log.assemblyName !== assemblyName) continue;
+        sumAmountsByType(log.titheListData, totals);
+    }
+    return totals;
+};
+
 /**
  * Identify members who need follow-up
  */
@@ -276,14 +369,14 @@ export const comparePerformance = (
             const date = new Date(log.selectedDate);
             return date >= period1Start && date <= period1End;
         })
-        .reduce((sum, log) => sum + log.totalTitheAmount, 0);
+        .reduce((sum, log) => sum + getLogTitheTotal(log), 0);
 
     const period2Total = filteredLogs
         .filter(log => {
             const date = new Date(log.selectedDate);
             return date >= period2Start && date <= period2End;
         })
-        .reduce((sum, log) => sum + log.totalTitheAmount, 0);
+        .reduce((sum, log) => sum + getLogTitheTotal(log), 0);
 
     const percentageChange = period1Total > 0
         ? ((period2Total - period1Total) / period1Total) * 100
@@ -326,12 +419,12 @@ export const getMonthlyTitheSummary = (
             return date.getFullYear() === year && date.getMonth() === index;
         });
 
-        const total = monthLogs.reduce((sum, log) => sum + log.totalTitheAmount, 0);
+        const total = monthLogs.reduce((sum, log) => sum + getLogTitheTotal(log), 0);
         const tithers = new Set<string>();
 
         for (const log of monthLogs) {
             for (const record of log.titheListData) {
-                if ((Number(record["Transaction Amount"]) || 0) > 0) {
+                if (isTitheRecord(record) && (Number(record["Transaction Amount"]) || 0) > 0) {
                     tithers.add(extractMemberId(record["Membership Number"]));
                 }
             }
@@ -359,7 +452,7 @@ export const getTopAssemblies = (
 
     for (const log of logs) {
         const current = assemblyTotals.get(log.assemblyName) || 0;
-        assemblyTotals.set(log.assemblyName, current + log.totalTitheAmount);
+        assemblyTotals.set(log.assemblyName, current + getLogTitheTotal(log));
     }
 
     return Array.from(assemblyTotals.entries())
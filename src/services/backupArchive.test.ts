@@ -0,0 +1,202 @@
+/// <reference types="vitest/globals" />
+/**
+ * backupArchive.test.ts
+ * Tests for the encrypted .tactms backup archive format and restore preview
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    BackupArchiveError,
+    BackupPayload,
+    buildRestorePreview,
+    decryptBackup,
+    encryptBackup,
+    parseBackupArchive,
+    summarizeBackup,
+} from './backupArchive';
+
+// Low iteration count keeps the tests fast; production uses the default
+const ITERATIONS = 1000;
+const PASSPHRASE = 'correct horse battery';
+
+const makePayload = (overrides: Partial<BackupPayload> = {}): BackupPayload => ({
+    version: 1,
+    createdAt: 1_700_000_000_000,
+    memberDatabase: {
+        Central: {
+            data: [
+                { 'No.': 1, 'Membership Number': 'TAC001', 'First Name': 'Kofi' },
+                { 'No.': 2, 'Membership Number': 'TAC002', 'First Name': 'Ama' },
+            ],
+            lastUpdated: 1000,
+            fileName: 'central.xlsx',
+        },
+    },
+    favorites: [],
+    transactionLog: [],
+    pledges: [],
+    memberOrder: { memberOrders: [], assemblyMeta: [], orderHistory: [], orderSnapshots: [] },
+    handwriting: { corrections: [] },
+    nameAliases: [],
+    ocrModel: { trainingData: [{ input: '1OO', output: 100 }], model: null },
+    scribeProfiles: [
+        { id: 'scribe-1', assemblyName: 'Central', name: 'Brother Mensah', createdAt: 1000, reviewedCount: 60, correctedCount: 4 },
+    ],
+    memberHistory: [
+        {
+            id: 'change-1',
+            memberKey: 'tac001',
+            assemblyName: 'Central',
+            memberName: 'Kofi',
+            source: 'manual',
+            actor: null,
+            timestamp: 2000,
+            changes: [{ field: 'First Name', oldValue: 'Kofii', newValue: 'Kofi' }],
+        },
+    ],
+    exchangeRates: { '07-JAN-2024': { USD: 12.5 } },
+    ...overrides,
+});
+
+const expectBackupError = async (promise: Promise<unknown>, code: string) => {
+    await expect(promise).rejects.toBeInstanceOf(BackupArchiveError);
+    await expect(promise).rejects.toMatchObject({ code });
+};
+
+describe('encryptBackup / decryptBackup', () => {
+    it('round-trips a payload', async () => {
+        const payload = makePayload();
+        const archive = await encryptBackup(payload, PASSPHRASE, ITERATIONS);
+
+        expect(await decryptBackup(archive, PASSPHRASE)).toEqual(payload);
+    });
+
+    it('does not leak contents in the archive envelope', async () => {
+        const archive = await encryptBackup(makePayload(), PASSPHRASE, ITERATIONS);
+
+        expect(archive).not.toContain('TAC001');
+        expect(archive).not.toContain('Kofi');
+        expect(parseBackupArchive(archive).kdf.iterations).toBe(ITERATIONS);
+    });
+
+    it('uses a fresh salt and IV for every archive', async () => {
+        const first = parseBackupArchive(await encryptBackup(makePayload(), PASSPHRASE, ITERATIONS));
+        const second = parseBackupArchive(await encryptBackup(makePayload(), PASSPHRASE, ITERATIONS));
+
+        expect(first.kdf.salt).not.toBe(second.kdf.salt);
+        expect(first.cipher.iv).not.toBe(second.cipher.iv);
+    });
+
+    it('rejects a wrong passphrase', async () => {
+        const archive = await encryptBackup(makePayload(), PASSPHRASE, ITERATIONS);
+
+        await expectBackupError(decryptBackup(archive, 'wrong passphrase'), 'wrong-passphrase');
+    });
+
+    it('rejects a tampered archive', async () => {
+        const parsed = parseBackupArchive(await encryptBackup(makePayload(), PASSPHRASE, ITERATIONS));
+        const flipped = (parsed.data[10] === 'A' ? 'B' : 'A');
+        const tampered = JSON.stringify({ ...parsed, data: parsed.data.slice(0, 10) + flipped + parsed.data.slice(11) });
+
+        await expectBackupError(decryptBackup(tampered, PASSPHRASE), 'wrong-passphrase');
+    });
+
+    it('refuses short passphrases', async () => {
+        await expectBackupError(encryptBackup(makePayload(), 'short', ITERATIONS), 'weak-passphrase');
+    });
+
+    it('fills in sections missing from older payloads', async () => {
+        const {
+            memberOrder: _memberOrder,
+            ocrModel: _ocrModel,
+            scribeProfiles: _scribeProfiles,
+            memberHistory: _memberHistory,
+            exchangeRates: _exchangeRates,
+            ...partial
+        } = makePayload();
+        const archive = await encryptBackup(partial as BackupPayload, PASSPHRASE, ITERATIONS);
+        const restored = await decryptBackup(archive, PASSPHRASE);
+
+        expect(restored.memberOrder).toEqual({ memberOrders: [], assemblyMeta: [] });
+        expect(restored.ocrModel).toBeNull();
+        expect(restored.scribeProfiles).toEqual([]);
+        expect(restored.memberHistory).toEqual([]);
+        expect(restored.exchangeRates).toEqual({});
+    });
+
+    it('carries over aliases from backups made before the alias service', async () => {
+        const { nameAliases: _nameAliases, ...partial } = makePayload({
+            handwriting: {
+                corrections: [],
+                nameAliases: [{ id: '1', assemblyName: 'central', extractedName: 'KOFI M', correctMemberId: 'TAC001', correctMemberName: 'Kofi Mensah', timestamp: 1000, source: 'verification' }],
+            },
+        });
+        const archive = await encryptBackup(partial as BackupPayload, PASSPHRASE, ITERATIONS);
+        const restored = await decryptBackup(archive, PASSPHRASE);
+
+        expect(restored.nameAliases.map((a) => [a.id, a.targets.map((t) => t.memberId)])).toEqual([
+            ['alias-central-kofi-m', ['TAC001']],
+        ]);
+    });
+});
+
+describe('parseBackupArchive', () => {
+    it('rejects files that are not backups', () => {
+        expect(() => parseBackupArchive('not json')).toThrow(BackupArchiveError);
+        expect(() => parseBackupArchive(JSON.stringify([{ id: 'fav' }]))).toThrow(/not a TACTMS backup/);
+    });
+
+    it('rejects archives from a newer version', async () => {
+        const parsed = parseBackupArchive(await encryptBackup(makePayload(), PASSPHRASE, ITERATIONS));
+
+        expect(() => parseBackupArchive(JSON.stringify({ ...parsed, version: 99 }))).toThrow(/newer version/);
+    });
+});
+
+describe('summarizeBackup', () => {
+    it('counts every section', () => {
+        const summary = summarizeBackup(makePayload());
+
+        expect(summary.assemblies).toEqual(['Central']);
+        expect(summary.members).toBe(2);
+        expect(summary.ocrTrainingExamples).toBe(1);
+        expect(summary.hasOcrModel).toBe(false);
+        expect(summary.scribeProfiles).toBe(1);
+        expect(summary.memberHistoryEvents).toBe(1);
+        expect(summary.exchangeRateDates).toBe(1);
+    });
+});
+
+describe('buildRestorePreview', () => {
+    it('lists replaced, added and removed assemblies', () => {
+        const current = makePayload({
+            memberDatabase: {
+                Central: { data: [], lastUpdated: 1, fileName: '' },
+                Maranatha: { data: [], lastUpdated: 1, fileName: '' },
+            },
+        });
+        const incoming = makePayload({
+            memberDatabase: {
+                Central: { data: [{ 'No.': 1 }], lastUpdated: 2, fileName: '' },
+                Jerusalem: { data: [], lastUpdated: 2, fileName: '' },
+            },
+        });
+
+        const preview = buildRestorePreview(incoming, current);
+
+        expect(preview.assembliesReplaced).toEqual(['Central']);
+        expect(preview.assembliesAdded).toEqual(['Jerusalem']);
+        expect(preview.assembliesRemoved).toEqual(['Maranatha']);
+        expect(preview.rows.find(row => row.label === 'Members')).toEqual({ label: 'Members', current: 0, incoming: 1 });
+    });
+
+    it('shows what happens to scribe profiles, member history and exchange rates', () => {
+        const preview = buildRestorePreview(makePayload(), makePayload({ scribeProfiles: [], memberHistory: [], exchangeRates: {} }));
+
+        expect(preview.rows.filter(row => row.current !== row.incoming)).toEqual([
+            { label: 'Scribe profiles', current: 0, incoming: 1 },
+            { label: 'Member history entries', current: 0, incoming: 1 },
+            { label: 'Exchange rate dates', current: 0, incoming: 1 },
+        ]);
+    });
+});
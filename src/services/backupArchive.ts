@@ -0,0 +1,412 @@
+/**
+ * Backup Archive Service
+ * Bundles every local store into a single versioned, passphrase-encrypted
+ * `.tactms` archive (AES-GCM, key derived with PBKDF2) and restores it.
+ *
+ * Archive layout (JSON):
+ *   { format, version, createdAt, kdf: { salt, iterations, ... }, cipher: { iv, ... }, data }
+ * `data` is the encrypted BackupPayload; nothing else about the contents is
+ * readable without the passphrase.
+ */
+
+import { FavoriteConfig, MemberDatabase, Pledge, ScribeProfile, TransactionLogEntry } from '@/types';
+import { BACKUP_DRIVE_FILENAME } from '@/constants';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '@/lib/utils';
+import type { ExchangeRateTable } from '@/lib/currency';
+import { exportAllData, replaceAllData, MemberOrderBackup } from './memberOrderService';
+import { exportAllLearningData, replaceAllLearningData, HandwritingBackup } from './handwritingLearning';
+import { exportAllAliases, mergeLegacyAliases, replaceAllAliases, NameAlias } from './nameAliases';
+import { loadScribeProfiles, replaceScribeProfiles } from './scribeProfiles';
+import { exportMemberHistory, replaceMemberHistory, MemberChangeEvent } from './memberHistory';
+import type { OCRModelBackup } from './ocrMLService';
+import {
+    findDriveFile,
+    readDriveFileText,
+    saveTextToDrive,
+} from '@/hooks/useGoogleDriveQuery';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const BACKUP_FORMAT = 'tactms-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = '.tactms';
+
+const PBKDF2_ITERATIONS = 250_000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface BackupPayload {
+    version: number;
+    createdAt: number;
+    memberDatabase: MemberDatabase;
+    favorites: FavoriteConfig[];
+    transactionLog: TransactionLogEntry[];
+    pledges: Pledge[];
+    memberOrder: MemberOrderBackup;
+    handwriting: HandwritingBackup;
+    nameAliases: NameAlias[];
+    ocrModel: OCRModelBackup | null;
+    scribeProfiles: ScribeProfile[];
+    memberHistory: MemberChangeEvent[];
+    exchangeRates: ExchangeRateTable;
+}
+
+export interface BackupArchive {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    data: string;
+}
+
+export interface BackupSummary {
+    assemblies: string[];
+    members: number;
+    favorites: number;
+    transactions: number;
+    pledges: number;
+    memberOrders: number;
+    orderHistory: number;
+    corrections: number;
+    nameAliases: number;
+    ocrTrainingExamples: number;
+    hasOcrModel: boolean;
+    scribeProfiles: number;
+    memberHistoryEvents: number;
+    exchangeRateDates: number;
+}
+
+export interface RestorePreviewRow {
+    label: string;
+    current: number;
+    incoming: number;
+}
+
+export interface RestorePreview {
+    createdAt: number;
+    rows: RestorePreviewRow[];
+    assembliesReplaced: string[];  // In both - local copy is overwritten
+    assembliesAdded: string[];     // Only in the backup
+    assembliesRemoved: string[];   // Only on this device - lost on restore
+}
+
+/** The app state that lives in React (persisted by its own providers) */
+export interface BackupAppState {
+    memberDatabase: MemberDatabase;
+    favorites: FavoriteConfig[];
+    transactionLog: TransactionLogEntry[];
+    pledges: Pledge[];
+    exchangeRates: ExchangeRateTable;
+}
+
+export interface BackupStateSetters {
+    setMemberDatabase: (database: MemberDatabase) => void;
+    setFavorites: (favorites: FavoriteConfig[]) => void;
+    setTransactionLog: (log: TransactionLogEntry[]) => void;
+    setPledges: (pledges: Pledge[]) => void;
+    setExchangeRates: (table: ExchangeRateTable) => void;
+}
+
+export type BackupErrorCode = 'invalid-format' | 'unsupported-version' | 'wrong-passphrase' | 'weak-passphrase';
+
+export class BackupArchiveError extends Error {
+    public code: BackupErrorCode;
+
+    constructor(code: BackupErrorCode, message: string) {
+        super(message);
+        this.name = 'BackupArchiveError';
+        this.code = code;
+    }
+}
+
+// ============================================================================
+// ENCRYPTION
+// ============================================================================
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+/**
+ * Encrypt a payload into archive text
+ */
+export const encryptBackup = async (
+    payload: BackupPayload,
+    passphrase: string,
+    iterations = PBKDF2_ITERATIONS
+): Promise<string> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new BackupArchiveError(
+            'weak-passphrase',
+            `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`
+        );
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt, iterations);
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(JSON.stringify(payload))
+    );
+
+    const archive: BackupArchive = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: payload.createdAt,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: arrayBufferToBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: arrayBufferToBase64(iv) },
+        data: arrayBufferToBase64(ciphertext),
+    };
+    return JSON.stringify(archive);
+};
+
+/**
+ * Parse and validate the unencrypted archive envelope
+ */
+export const parseBackupArchive = (text: string): BackupArchive => {
+    let archive: Partial<BackupArchive>;
+    try {
+        archive = JSON.parse(text);
+    } catch {
+        throw new BackupArchiveError('invalid-format', 'This is not a TACTMS backup file.');
+    }
+
+    if (archive?.format !== BACKUP_FORMAT || !archive.kdf?.salt || !archive.cipher?.iv || !archive.data) {
+        throw new BackupArchiveError('invalid-format', 'This is not a TACTMS backup file.');
+    }
+    if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+        throw new BackupArchiveError(
+            'unsupported-version',
+            'This backup was made by a newer version of TACTMS. Please update the app first.'
+        );
+    }
+    return archive as BackupArchive;
+};
+
+/**
+ * Decrypt archive text back into a payload
+ */
+export const decryptBackup = async (text: string, passphrase: string): Promise<BackupPayload> => {
+    const archive = parseBackupArchive(text);
+    const key = await deriveKey(
+        passphrase,
+        new Uint8Array(base64ToArrayBuffer(archive.kdf.salt)),
+        archive.kdf.iterations
+    );
+
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(archive.cipher.iv)) },
+            key,
+            new Uint8Array(base64ToArrayBuffer(archive.data))
+        );
+    } catch {
+        // AES-GCM authentication fails for a wrong key and for tampered data alike
+        throw new BackupArchiveError('wrong-passphrase', 'Wrong passphrase, or the backup file is damaged.');
+    }
+
+    return normalizePayload(JSON.parse(new TextDecoder().decode(plaintext)));
+};
+
+/**
+ * Fill in sections missing from older or partial payloads
+ */
+const normalizePayload = (raw: Partial<BackupPayload>): BackupPayload => ({
+    version: raw.version ?? BACKUP_VERSION,
+    createdAt: raw.createdAt ?? 0,
+    memberDatabase: raw.memberDatabase ?? {},
+    favorites: raw.favorites ?? [],
+    transactionLog: raw.transactionLog ?? [],
+    pledges: raw.pledges ?? [],
+    memberOrder: raw.memberOrder ?? { memberOrders: [], assemblyMeta: [] },
+    handwriting: raw.handwriting ?? { corrections: [] },
+    // Older backups carry aliases in the two stores they used to live in
+    nameAliases: raw.nameAliases ?? mergeLegacyAliases(raw.handwriting?.nameAliases ?? [], raw.memberOrder?.learnedAliases ?? []),
+    ocrModel: raw.ocrModel ?? null,
+    scribeProfiles: raw.scribeProfiles ?? [],
+    memberHistory: raw.memberHistory ?? [],
+    exchangeRates: raw.exchangeRates ?? {},
+});
+
+// ============================================================================
+// COLLECT / SUMMARIZE
+// ============================================================================
+
+/**
+ * Gather every store into a payload. React-held state is passed in so
+ * unsaved in-memory changes are included.
+ */
+export const collectBackupPayload = async (state: BackupAppState): Promise<BackupPayload> => {
+    // Loaded lazily - TensorFlow.js is a large chunk
+    const { exportModelData } = await import('./ocrMLService');
+    const [memberOrder, handwriting, nameAliases, ocrModel, memberHistory] = await Promise.all([
+        exportAllData(),
+        exportAllLearningData(),
+        exportAllAliases(),
+        exportModelData(),
+        exportMemberHistory(),
+    ]);
+
+    return {
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        memberDatabase: state.memberDatabase,
+        favorites: state.favorites,
+        transactionLog: state.transactionLog,
+        pledges: state.pledges,
+        memberOrder,
+        handwriting,
+        nameAliases,
+        ocrModel,
+        scribeProfiles: loadScribeProfiles(),
+        memberHistory,
+        exchangeRates: state.exchangeRates,
+    };
+};
+
+export const summarizeBackup = (payload: BackupPayload): BackupSummary => {
+    const assemblies = Object.keys(payload.memberDatabase);
+    return {
+        assemblies,
+        members: assemblies.reduce((sum, name) => sum + (payload.memberDatabase[name]?.data?.length || 0), 0),
+        favorites: payload.favorites.length,
+        transactions: payload.transactionLog.length,
+        pledges: payload.pledges.length,
+        memberOrders: payload.memberOrder.memberOrders.length,
+        orderHistory: payload.memberOrder.orderHistory?.length || 0,
+        corrections: payload.handwriting.corrections.length,
+        nameAliases: payload.nameAliases.length,
+        ocrTrainingExamples: payload.ocrModel?.trainingData.length || 0,
+        hasOcrModel: !!payload.ocrModel?.model,
+        scribeProfiles: payload.scribeProfiles.length,
+        memberHistoryEvents: payload.memberHistory.length,
+        exchangeRateDates: Object.keys(payload.exchangeRates).length,
+    };
+};
+
+/**
+ * Compare a backup with what is on this device, so the user can see
+ * what a restore will overwrite.
+ */
+export const buildRestorePreview = (incoming: BackupPayload, current: BackupPayload): RestorePreview => {
+    const next = summarizeBackup(incoming);
+    const now = summarizeBackup(current);
+
+    return {
+        createdAt: incoming.createdAt,
+        rows: [
+            { label: 'Members', current: now.members, incoming: next.members },
+            { label: 'Favorites', current: now.favorites, incoming: next.favorites },
+            { label: 'Transaction log entries', current: now.transactions, incoming: next.transactions },
+            { label: 'Pledges', current: now.pledges, incoming: next.pledges },
+            { label: 'Member order entries', current: now.memberOrders, incoming: next.memberOrders },
+            { label: 'Order history entries', current: now.orderHistory, incoming: next.orderHistory },
+            { label: 'Learned name aliases', current: now.nameAliases, incoming: next.nameAliases },
+            { label: 'Handwriting corrections', current: now.corrections, incoming: next.corrections },
+            { label: 'OCR training examples', current: now.ocrTrainingExamples, incoming: next.ocrTrainingExamples },
+            { label: 'Scribe profiles', current: now.scribeProfiles, incoming: next.scribeProfiles },
+            { label: 'Member history entries', current: now.memberHistoryEvents, incoming: next.memberHistoryEvents },
+            { label: 'Exchange rate dates', current: now.exchangeRateDates, incoming: next.exchangeRateDates },
+        ],
+        assembliesReplaced: next.assemblies.filter((name) => now.assemblies.includes(name)),
+        assembliesAdded: next.assemblies.filter((name) => !now.assemblies.includes(name)),
+        assembliesRemoved: now.assemblies.filter((name) => !next.assemblies.includes(name)),
+    };
+};
+
+// ============================================================================
+// RESTORE
+// ============================================================================
+
+/**
+ * Replace all local data with the backup.
+ * IndexedDB-only stores are written here; React-held state goes through
+ * the setters so the providers persist it as usual.
+ */
+export const restoreBackupPayload = async (
+    payload: BackupPayload,
+    setters: BackupStateSetters
+): Promise<void> => {
+    await replaceAllData(payload.memberOrder);
+    await replaceAllLearningData(payload.handwriting);
+    await replaceAllAliases(payload.nameAliases);
+    await replaceMemberHistory(payload.memberHistory);
+    replaceScribeProfiles(payload.scribeProfiles);
+
+    const { importModelData, resetModel } = await import('./ocrMLService');
+    if (payload.ocrModel) {
+        await importModelData(payload.ocrModel);
+    } else {
+        await resetModel();
+    }
+
+    setters.setMemberDatabase(payload.memberDatabase);
+    setters.setFavorites(payload.favorites);
+    setters.setTransactionLog(payload.transactionLog);
+    setters.setPledges(payload.pledges);
+    setters.setExchangeRates(payload.exchangeRates);
+};
+
+// ============================================================================
+// FILE & DRIVE
+// ============================================================================
+
+export const getBackupFileName = (date = new Date()): string =>
+    `tactms-backup-${date.toISOString().slice(0, 10)}${BACKUP_FILE_EXTENSION}`;
+
+/**
+ * Trigger a browser download of the archive
+ */
+export const downloadBackupFile = (archiveText: string, fileName = getBackupFileName()): void => {
+    const url = URL.createObjectURL(new Blob([archiveText], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Upload the archive to Drive, replacing the previous backup
+ */
+export const saveBackupToDrive = async (archiveText: string): Promise<void> => {
+    let fileId = await findDriveFile(BACKUP_DRIVE_FILENAME);
+    if (!fileId) {
+        const createRes = await window.gapi.client.drive.files.create({
+            resource: { name: BACKUP_DRIVE_FILENAME, mimeType: 'application/octet-stream' },
+            fields: 'id',
+        });
+        fileId = createRes.result.id as string;
+    }
+    await saveTextToDrive(fileId, archiveText, 'application/octet-stream');
+};
+
+/**
+ * Download the archive from Drive. Returns null when there is no backup.
+ */
+export const loadBackupFromDrive = async (): Promise<string | null> => {
+    const fileId = await findDriveFile(BACKUP_DRIVE_FILENAME);
+    if (!fileId) return null;
+    const text = await readDriveFileText(fileId);
+    return text.trim() ? text : null;
+};
@@ -0,0 +1,204 @@
+/// <reference types="vitest/globals" />
+/**
+ * batchQueue.test.ts
+ * Tests for the persistent batch queue: page states, resume after an
+ * interrupted session, rate-limit pauses and retries
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TitheRecordB } from '../types';
+import { RateLimitError } from '../utils/rateLimiter';
+import type { DiscrepancyReport } from './pageSequencer';
+
+// ============================================================================
+// MOCK DATABASE
+// ============================================================================
+
+type StoredValue = Record<string, unknown>;
+
+const stores = {
+    jobs: new Map<string, StoredValue>(),
+    pages: new Map<string, StoredValue>(),
+};
+
+type StoreName = keyof typeof stores;
+
+const byJob = (jobId: string) => Array.from(stores.pages.values()).filter(p => p.jobId === jobId);
+
+const createStore = (name: StoreName) => ({
+    put: vi.fn((value: StoredValue) => {
+        stores[name].set(String(value.id), structuredClone(value));
+        return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+        stores[name].delete(key);
+        return Promise.resolve();
+    }),
+    index: vi.fn(() => ({
+        getAllKeys: vi.fn((jobId: string) => Promise.resolve(byJob(jobId).map(p => String(p.id)))),
+    })),
+});
+
+vi.mock('idb', () => ({
+    openDB: vi.fn(() =>
+        Promise.resolve({
+            get: vi.fn((name: StoreName, key: string) => Promise.resolve(structuredClone(stores[name].get(key)))),
+            getAll: vi.fn((name: StoreName) => Promise.resolve(Array.from(stores[name].values()))),
+            getAllFromIndex: vi.fn((_name: StoreName, _index: string, jobId: string) => Promise.resolve(byJob(jobId))),
+            put: vi.fn((name: StoreName, value: StoredValue) => createStore(name).put(value)),
+            transaction: vi.fn(() => ({
+                objectStore: vi.fn((name: StoreName) => createStore(name)),
+                done: Promise.resolve(),
+            })),
+        })
+    ),
+}));
+
+import {
+    createBatchJob,
+    getBatchJob,
+    getBatchPages,
+    listBatchJobs,
+    markBatchPagesImported,
+    retryBatchPage,
+    runBatchJob,
+} from './batchQueue';
+
+const params = { assembly: 'Central', month: 'January', week: 'Week 1', dateString: 'Sun Jan 05 2025' };
+const files = ['page1.jpg', 'page2.jpg', 'page3.jpg'].map(name => new File(['x'], name, { type: 'image/jpeg' }));
+const entry = (name: string) => ({ 'Membership Number': name, 'Transaction Amount': 10 }) as TitheRecordB;
+const extracted = (name: string) => ({ entries: [entry(name)] });
+
+beforeEach(() => {
+    Object.values(stores).forEach(store => store.clear());
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('runBatchJob', () => {
+    it('extracts every page and completes the job', async () => {
+        const job = await createBatchJob(files, params);
+        const pages = await runBatchJob(job.id, async (file) => extracted(file.name));
+
+        expect(pages.map(p => [p.status, p.attempts])).toEqual([
+            ['extracted', 1],
+            ['extracted', 1],
+            ['extracted', 1],
+        ]);
+        expect(pages[1].entries).toEqual([entry('page2.jpg')]);
+        expect((await getBatchJob(job.id))?.status).toBe('completed');
+    });
+
+    it('fails only the page that throws', async () => {
+        const job = await createBatchJob(files, params);
+        const pages = await runBatchJob(job.id, async (file) => {
+            if (file.name === 'page2.jpg') throw new Error('Image is too blurry');
+            return extracted(file.name);
+        });
+
+        expect(pages.map(p => p.status)).toEqual(['extracted', 'failed', 'extracted']);
+        expect(pages[1].error).toBe('Image is too blurry');
+    });
+
+    it('resumes an interrupted session from where it stopped', async () => {
+        const job = await createBatchJob(files, params);
+        const controller = new AbortController();
+        const extract = vi.fn(async (file: File) => {
+            if (file.name === 'page1.jpg') controller.abort();
+            return extracted(file.name);
+        });
+        await runBatchJob(job.id, extract, { signal: controller.signal });
+        expect((await getBatchPages(job.id)).map(p => p.status)).toEqual(['extracted', 'pending', 'pending']);
+
+        // A page left mid-extraction by a closed tab is read again
+        const [, second] = await getBatchPages(job.id);
+        stores.pages.set(second.id, { ...second, status: 'extracting' });
+
+        const pages = await runBatchJob(job.id, extract);
+        expect(extract).toHaveBeenCalledTimes(3);
+        expect(pages.every(p => p.status === 'extracted')).toBe(true);
+    });
+
+    it('pauses on a rate limit and retries the same page', async () => {
+        const job = await createBatchJob(files, params);
+        const wait = vi.fn(async (_ms: number) => undefined);
+        const onPause = vi.fn();
+        let limited = false;
+
+        const pages = await runBatchJob(
+            job.id,
+            async (file) => {
+                if (file.name === 'page2.jpg' && !limited) {
+                    limited = true;
+                    // Job is persisted as paused before waiting
+                    throw new RateLimitError('Rate limit exceeded', 30000);
+                }
+                return extracted(file.name);
+            },
+            {
+                onPause,
+                wait: async (ms) => {
+                    const paused = await getBatchJob(job.id);
+                    expect(paused?.status).toBe('paused');
+                    expect(paused?.pausedUntil).toBeGreaterThan(Date.now());
+                    await wait(ms);
+                },
+            }
+        );
+
+        expect(onPause).toHaveBeenCalledWith(30000);
+        expect(wait).toHaveBeenCalledWith(30000);
+        expect(pages.map(p => [p.status, p.attempts])).toEqual([
+            ['extracted', 1],
+            ['extracted', 1],
+            ['extracted', 1],
+        ]);
+    });
+
+    it('keeps the month TOTAL discrepancies of each page', async () => {
+        const job = await createBatchJob(files.slice(0, 2), params);
+        const discrepancy: DiscrepancyReport = {
+            memberNo: 3,
+            memberName: 'page1.jpg',
+            amounts: [100, 50],
+            suggestedAmount: 100,
+            confidence: 0.5,
+            message: 'Member #3: TOTAL reads 100 but the weeks add up to 50',
+            source: 'month_total',
+        };
+        const pages = await runBatchJob(job.id, async (file) => ({
+            ...extracted(file.name),
+            totalDiscrepancies: file.name === 'page1.jpg' ? [discrepancy] : undefined,
+        }));
+
+        expect(pages.map(p => p.totalDiscrepancies)).toEqual([[discrepancy], undefined]);
+    });
+});
+
+describe('retry and import', () => {
+    it('re-queues a failed page and removes the job once all pages are imported', async () => {
+        const job = await createBatchJob(files.slice(0, 2), params);
+        await runBatchJob(job.id, async (file) => {
+            if (file.name === 'page2.jpg') throw new Error('Network error');
+            return extracted(file.name);
+        });
+        await markBatchPagesImported(job.id, [0]);
+        expect(await listBatchJobs()).toHaveLength(1);
+
+        await retryBatchPage(job.id, 1);
+        expect((await getBatchPages(job.id))[1].status).toBe('pending');
+        expect((await getBatchJob(job.id))?.status).toBe('running');
+
+        const pages = await runBatchJob(job.id, async (file) => extracted(file.name));
+        expect(pages.map(p => [p.status, p.imported])).toEqual([
+            ['extracted', true],
+            ['extracted', false],
+        ]);
+
+        await markBatchPagesImported(job.id, [1]);
+        expect(await listBatchJobs()).toHaveLength(0);
+        expect(stores.pages.size).toBe(0);
+    });
+});
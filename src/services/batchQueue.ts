@@ -0,0 +1,337 @@
+/**
+ * Batch Queue
+ * Persists batch image jobs in IndexedDB with one record per page, so a
+ * 40-page book survives a closed tab, a sleeping phone or a rate limit.
+ * Pages move pending → extracting → extracted | failed; a page left in
+ * "extracting" by an interrupted session is picked up again on resume.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { TitheRecordB } from '@/types';
+import type { DiscrepancyReport } from '@/services/pageSequencer';
+import { RATE_LIMITS, RateLimitError, getTimeUntilReset } from '@/utils/rateLimiter';
+import { GEMINI_RATE_LIMIT_KEY } from '@/services/imageProcessor/core';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BatchJobStatus = 'running' | 'paused' | 'completed';
+export type BatchPageStatus = 'pending' | 'extracting' | 'extracted' | 'failed';
+
+export interface BatchJob {
+    id: string;
+    assembly: string;
+    month: string;
+    week: string;
+    dateString: string;
+    status: BatchJobStatus;
+    /** Set while paused for a rate limit */
+    pausedUntil?: number;
+    pageCount: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface BatchPage {
+    id: string;              // `${jobId}::${index}`
+    jobId: string;
+    index: number;
+    file: Blob;
+    fileName: string;
+    status: BatchPageStatus;
+    entries?: TitheRecordB[];
+    /** Rows of the page that do not add up to their month TOTAL */
+    totalDiscrepancies?: DiscrepancyReport[];
+    error?: string;
+    attempts: number;
+    /** Entries already handed to the tithe list */
+    imported: boolean;
+    updatedAt: number;
+}
+
+/** What the extractor returns for one page */
+export interface BatchPageExtraction {
+    entries: TitheRecordB[];
+    totalDiscrepancies?: DiscrepancyReport[];
+}
+
+/** Entries of a finished run and the amounts to check before saving them */
+export interface BatchRunResult {
+    entries: TitheRecordB[];
+    /** Month TOTAL mismatches of each page and disagreements between duplicate shots */
+    discrepancies: DiscrepancyReport[];
+}
+
+export interface BatchJobParams {
+    assembly: string;
+    month: string;
+    week: string;
+    dateString: string;
+}
+
+export interface RunBatchJobOptions {
+    /** Called after every page or job state change */
+    onUpdate?: (job: BatchJob, pages: BatchPage[]) => void;
+    /** Called when a rate limit pauses the job */
+    onPause?: (waitMs: number) => void;
+    /** Stops after the current page; remaining pages stay pending */
+    signal?: AbortSignal;
+    /** Waits out a rate limit; replaceable in tests */
+    wait?: (ms: number) => Promise<void>;
+}
+
+interface BatchQueueDB extends DBSchema {
+    jobs: {
+        key: string;
+        value: BatchJob;
+    };
+    pages: {
+        key: string;
+        value: BatchPage;
+        indexes: {
+            'by-job': string;
+        };
+    };
+}
+
+const DB_NAME = 'tactms-batch-queue';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBPDatabase<BatchQueueDB>> | null = null;
+
+const getDB = async (): Promise<IDBPDatabase<BatchQueueDB>> => {
+    if (!dbPromise) {
+        dbPromise = openDB<BatchQueueDB>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion) {
+                // Version 1: Jobs and their pages
+                if (oldVersion < 1) {
+                    db.createObjectStore('jobs', { keyPath: 'id' });
+                    const pageStore = db.createObjectStore('pages', { keyPath: 'id' });
+                    pageStore.createIndex('by-job', 'jobId');
+                }
+            },
+        });
+    }
+    return dbPromise;
+};
+
+// ============================================================================
+// CHANGE NOTIFICATIONS
+// ============================================================================
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to any change in the queue (job list UIs reload on it)
+ */
+export const subscribeToBatchQueue = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// ============================================================================
+// JOBS & PAGES
+// ============================================================================
+
+/**
+ * Store a new job with all of its page images
+ */
+export const createBatchJob = async (files: File[], params: BatchJobParams): Promise<BatchJob> => {
+    const now = Date.now();
+    const job: BatchJob = {
+        ...params,
+        id: `batch-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        status: 'running',
+        pageCount: files.length,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    const db = await getDB();
+    const tx = db.transaction(['jobs', 'pages'], 'readwrite');
+    await tx.objectStore('jobs').put(job);
+    for (const [index, file] of files.entries()) {
+        await tx.objectStore('pages').put({
+            id: `${job.id}::${index}`,
+            jobId: job.id,
+            index,
+            file,
+            fileName: file.name,
+            status: 'pending',
+            attempts: 0,
+            imported: false,
+            updatedAt: now,
+        });
+    }
+    await tx.done;
+
+    notify();
+    return job;
+};
+
+/**
+ * All stored jobs, newest first
+ */
+export const listBatchJobs = async (): Promise<BatchJob[]> => {
+    const db = await getDB();
+    const jobs = await db.getAll('jobs');
+    return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getBatchJob = async (jobId: string): Promise<BatchJob | undefined> => {
+    const db = await getDB();
+    return db.get('jobs', jobId);
+};
+
+/**
+ * Pages of a job in upload order
+ */
+export const getBatchPages = async (jobId: string): Promise<BatchPage[]> => {
+    const db = await getDB();
+    const pages = await db.getAllFromIndex('pages', 'by-job', jobId);
+    return pages.sort((a, b) => a.index - b.index);
+};
+
+const saveJob = async (job: BatchJob): Promise<BatchJob> => {
+    const db = await getDB();
+    const saved = { ...job, updatedAt: Date.now() };
+    await db.put('jobs', saved);
+    notify();
+    return saved;
+};
+
+const savePage = async (page: BatchPage): Promise<BatchPage> => {
+    const db = await getDB();
+    const saved = { ...page, updatedAt: Date.now() };
+    await db.put('pages', saved);
+    notify();
+    return saved;
+};
+
+/**
+ * Put a failed page back in the queue
+ */
+export const retryBatchPage = async (jobId: string, index: number): Promise<void> => {
+    const db = await getDB();
+    const page = await db.get('pages', `${jobId}::${index}`);
+    if (!page || page.status !== 'failed') return;
+    await savePage({ ...page, status: 'pending', error: undefined });
+
+    const job = await db.get('jobs', jobId);
+    if (job?.status === 'completed') await saveJob({ ...job, status: 'running' });
+};
+
+/**
+ * Mark pages as handed to the tithe list; the job is removed once every
+ * page is imported
+ */
+export const markBatchPagesImported = async (jobId: string, indexes: number[]): Promise<void> => {
+    const pages = await getBatchPages(jobId);
+    for (const page of pages) {
+        if (indexes.includes(page.index)) await savePage({ ...page, imported: true });
+    }
+    if (pages.every((page) => page.imported || indexes.includes(page.index))) {
+        await deleteBatchJob(jobId);
+    }
+};
+
+export const deleteBatchJob = async (jobId: string): Promise<void> => {
+    const db = await getDB();
+    const tx = db.transaction(['jobs', 'pages'], 'readwrite');
+    const keys = await tx.objectStore('pages').index('by-job').getAllKeys(jobId);
+    for (const key of keys) {
+        await tx.objectStore('pages').delete(key);
+    }
+    await tx.objectStore('jobs').delete(jobId);
+    await tx.done;
+    notify();
+};
+
+/**
+ * Rebuild the File handed to the extractor
+ */
+export const pageToFile = (page: BatchPage): File =>
+    page.file instanceof File ? page.file : new File([page.file], page.fileName, { type: page.file.type });
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+const defaultWait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * How long to pause for a rate limit; falls back to the limiter's own
+ * reset time when the error carries none
+ */
+export const getRateLimitWait = (error: RateLimitError): number =>
+    Math.max(error.retryAfterMs, getTimeUntilReset(GEMINI_RATE_LIMIT_KEY, RATE_LIMITS.GEMINI), 1000);
+
+/**
+ * Work through the pending pages of a job.
+ *
+ * A RateLimitError pauses the job (persisted with pausedUntil so a reload
+ * waits out the rest) and the same page is retried afterwards. Any other
+ * error fails only that page.
+ */
+export const runBatchJob = async (
+    jobId: string,
+    extract: (file: File, page: BatchPage) => Promise<BatchPageExtraction>,
+    options: RunBatchJobOptions = {}
+): Promise<BatchPage[]> => {
+    const wait = options.wait ?? defaultWait;
+    let job = await getBatchJob(jobId);
+    if (!job) throw new Error('Batch job not found. It may have been discarded.');
+
+    const pages = await getBatchPages(jobId);
+    const report = () => options.onUpdate?.(job!, [...pages]);
+
+    // A paused job from an earlier session waits out what is left
+    if (job.status === 'paused' && job.pausedUntil && job.pausedUntil > Date.now()) {
+        const remaining = job.pausedUntil - Date.now();
+        options.onPause?.(remaining);
+        await wait(remaining);
+    }
+    job = await saveJob({ ...job, status: 'running', pausedUntil: undefined });
+    report();
+
+    for (let i = 0; i < pages.length; i++) {
+        if (options.signal?.aborted) break;
+        // "extracting" means the last session stopped mid-page
+        if (pages[i].status !== 'pending' && pages[i].status !== 'extracting') continue;
+
+        pages[i] = await savePage({ ...pages[i], status: 'extracting', attempts: pages[i].attempts + 1 });
+        report();
+
+        try {
+            const { entries, totalDiscrepancies } = await extract(pageToFile(pages[i]), pages[i]);
+            pages[i] = await savePage({ ...pages[i], status: 'extracted', entries, totalDiscrepancies, error: undefined });
+        } catch (error) {
+            if (error instanceof RateLimitError) {
+                const waitMs = getRateLimitWait(error);
+                pages[i] = await savePage({ ...pages[i], status: 'pending', attempts: pages[i].attempts - 1 });
+                job = await saveJob({ ...job, status: 'paused', pausedUntil: Date.now() + waitMs });
+                report();
+                options.onPause?.(waitMs);
+                await wait(waitMs);
+                job = await saveJob({ ...job, status: 'running', pausedUntil: undefined });
+                i--;
+                continue;
+            }
+            pages[i] = await savePage({
+                ...pages[i],
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+        report();
+    }
+
+    if (pages.every((page) => page.status === 'extracted' || page.status === 'failed')) {
+        job = await saveJob({ ...job, status: 'completed' });
+        report();
+    }
+    return pages;
+};
@@ -2,7 +2,8 @@
  * Character Substitution Engine
  *
  * Learns character-level OCR error patterns (e.g., O→0, I→1, S→5)
- * and applies them to correct new inputs.
+ * and applies them to correct new inputs. Patterns are learned for every
+ * writer and, when the scribe of the page is known, for that scribe too.
  *
  * This is designed to work ALONGSIDE the neural network as an ensemble.
  */
@@ -52,9 +53,15 @@ const BASELINE_SUBSTITUTIONS: Record<string, string> = {
     'h': '4',  // Lowercase h → 4 in some scripts
 };
 
+// A scribe's own patterns outweigh those learned from every writer
+const SCRIBE_PATTERN_WEIGHT = 2;
+
 // Learned substitutions with frequency tracking
 let learnedSubstitutions: Map<string, SubstitutionPattern> = new Map();
 
+const patternKey = (from: string, to: string, scribeId?: string): string =>
+    scribeId ? `${scribeId}:${from}→${to}` : `${from}→${to}`;
+
 /**
  * Load substitutions from localStorage
  */
@@ -63,7 +70,7 @@ export const loadSubstitutions = (): void => {
         const saved = localStorage.getItem(STORAGE_KEY);
         if (saved) {
             const data = JSON.parse(saved) as SubstitutionPattern[];
-            learnedSubstitutions = new Map(data.map(p => [`${p.from}→${p.to}`, p]));
+            learnedSubstitutions = new Map(data.map(p => [patternKey(p.from, p.to, p.scribeId), p]));
         }
     } catch {
         // Start fresh
@@ -90,10 +97,13 @@ const saveSubstitutions = (): void => {
  * Learn substitutions from a correction
  *
  * Example: "1OO" → 100 teaches: O→0 (twice)
+ *
+ * @param scribeId - Writer of the page; the pattern is also learned for them
  */
 export const learnFromCorrection = (
     original: string,
-    corrected: number
+    corrected: number,
+    scribeId?: string
 ): void => {
     const correctedStr = String(corrected);
     const originalUpper = original.toUpperCase();
@@ -110,25 +120,28 @@ export const learnFromCorrection = (
 
         // Only learn if characters are different
         if (fromChar !== toChar) {
-            const key = `${fromChar}→${toChar}`;
-            const existing = learnedSubstitutions.get(key);
-
-            if (existing) {
-                existing.frequency++;
-                if (!existing.contexts.includes(original)) {
-                    existing.contexts.push(original);
-                    // Keep only last 10 contexts
-                    if (existing.contexts.length > 10) {
-                        existing.contexts.shift();
+            for (const scribe of scribeId ? [undefined, scribeId] : [undefined]) {
+                const key = patternKey(fromChar, toChar, scribe);
+                const existing = learnedSubstitutions.get(key);
+
+                if (existing) {
+                    existing.frequency++;
+                    if (!existing.contexts.includes(original)) {
+                        existing.contexts.push(original);
+                        // Keep only last 10 contexts
+                        if (existing.contexts.length > 10) {
+                            existing.contexts.shift();
+                        }
                     }
+                } else {
+                    learnedSubstitutions.set(key, {
+                        from: fromChar,
+                        to: toChar,
+                        frequency: 1,
+                        contexts: [original],
+                        ...(scribe ? { scribeId: scribe } : {})
+                    });
                 }
-            } else {
-                learnedSubstitutions.set(key, {
-                    from: fromChar,
-                    to: toChar,
-                    frequency: 1,
-                    contexts: [original]
-                });
             }
         }
     }
@@ -141,16 +154,22 @@ export const learnFromCorrection = (
 // ============================================================================
 
 /**
- * Get all possible substitutions for a character (sorted by frequency)
+ * Get all possible substitutions for a character (sorted by frequency).
+ * The scribe's own patterns come first, then those of every writer.
  */
-const getSubstitutionsFor = (char: string): { to: string; frequency: number }[] => {
+const getSubstitutionsFor = (char: string, scribeId?: string): { to: string; frequency: number }[] => {
     const results: { to: string; frequency: number }[] = [];
 
     // Check learned substitutions first
     for (const pattern of learnedSubstitutions.values()) {
-        if (pattern.from === char.toUpperCase()) {
-            results.push({ to: pattern.to, frequency: pattern.frequency });
-        }
+        if (pattern.from !== char.toUpperCase() || pattern.scribeId) continue;
+        const scribePattern = scribeId
+            ? learnedSubstitutions.get(patternKey(pattern.from, pattern.to, scribeId))
+            : undefined;
+        results.push({
+            to: pattern.to,
+            frequency: scribePattern ? scribePattern.frequency * SCRIBE_PATTERN_WEIGHT : pattern.frequency
+        });
     }
 
     // Add baseline if not already learned
@@ -164,8 +183,10 @@ const getSubstitutionsFor = (char: string): { to: string; frequency: number }[]
 
 /**
  * Apply learned substitutions to predict correction
+ *
+ * @param scribeId - Writer of the page, whose own patterns are preferred
  */
-export const predictWithSubstitution = (input: string): SubstitutionResult | null => {
+export const predictWithSubstitution = (input: string, scribeId?: string): SubstitutionResult | null => {
     const inputUpper = input.toUpperCase();
     let corrected = '';
     const substitutionsApplied: string[] = [];
@@ -180,7 +201,7 @@ export const predictWithSubstitution = (input: string): SubstitutionResult | nul
         }
 
         // Try to find a substitution
-        const subs = getSubstitutionsFor(char);
+        const subs = getSubstitutionsFor(char, scribeId);
         if (subs.length > 0) {
             corrected += subs[0].to;
             substitutionsApplied.push(`${char}→${subs[0].to}`);
@@ -211,13 +232,13 @@ export const predictWithSubstitution = (input: string): SubstitutionResult | nul
 };
 
 /**
- * Get statistics about learned substitutions
+ * Get statistics about learned substitutions, for every writer or one scribe
  */
-export const getSubstitutionStats = (): {
+export const getSubstitutionStats = (scribeId?: string): {
     totalPatterns: number;
     topSubstitutions: SubstitutionPattern[];
 } => {
-    const patterns = Array.from(learnedSubstitutions.values());
+    const patterns = Array.from(learnedSubstitutions.values()).filter(p => p.scribeId === scribeId);
     return {
         totalPatterns: patterns.length,
         topSubstitutions: patterns
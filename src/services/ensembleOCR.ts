@@ -6,7 +6,8 @@
  * 2. Character substitution (charSubstitutionEngine)
  * 3. Neural network (ocrMLService)
  *
- * Uses weighted voting when multiple methods agree.
+ * Uses weighted voting when multiple methods agree. When the scribe of the
+ * page is known, each method prefers what it learned from that writer.
  */
 
 import { predictWithSubstitution, learnFromCorrection as learnSubstitution } from '@/services/charSubstitutionEngine';
@@ -25,12 +26,13 @@ export type { EnsemblePrediction } from '@/types';
  * Returns the best prediction based on confidence and agreement
  */
 export const predictEnsemble = async (
-    input: string
+    input: string,
+    scribeId?: string
 ): Promise<EnsemblePrediction | null> => {
     const predictions: { value: number; confidence: number; method: string }[] = [];
 
     // Method 1: Character Substitution
-    const charSubResult = predictWithSubstitution(input);
+    const charSubResult = predictWithSubstitution(input, scribeId);
     if (charSubResult) {
         predictions.push({
             value: charSubResult.correctedValue,
@@ -41,7 +43,7 @@ export const predictEnsemble = async (
 
     // Method 2: Neural Network (ML)
     try {
-        const mlResult = await predictML(input);
+        const mlResult = await predictML(input, scribeId);
         if (mlResult && mlResult.confidence > 0.5) {
             predictions.push({
                 value: mlResult.suggestedAmount,
@@ -123,14 +125,15 @@ export const predictEnsemble = async (
  */
 export const trainEnsemble = async (
     original: string,
-    corrected: number
+    corrected: number,
+    scribeId?: string
 ): Promise<void> => {
     // Train character substitution (sync)
-    learnSubstitution(original, corrected);
+    learnSubstitution(original, corrected, scribeId);
 
     // Train ML (async, fire-and-forget)
     try {
-        trainML(original, corrected);
+        trainML(original, corrected, scribeId);
     } catch {
         // ML not available
     }
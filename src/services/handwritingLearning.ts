@@ -4,10 +4,12 @@
  * Stores user corrections to OCR-extracted amounts and learns patterns
  * to suggest corrections automatically in future extractions.
  *
- * Uses IndexedDB for persistent storage per assembly.
+ * Uses IndexedDB for persistent storage per assembly, and per scribe when
+ * the writer of the page is known.
  */
 
-import type { AmountCorrection, CorrectionSuggestion } from '@/types';
+import type { AmountCorrection, CorrectionSuggestion, ScribeProfile } from '@/types';
+import { loadScribeProfiles, replaceScribeProfiles } from './scribeProfiles';
 
 // Re-export for convenience
 export type { AmountCorrection, CorrectionSuggestion } from '@/types';
@@ -20,7 +22,7 @@ export const GLOBAL_ASSEMBLY = '__GLOBAL__';
 // ============================================================================
 
 const DB_NAME = 'tactms-handwriting';
-const DB_VERSION = 2; // Bumped for name alias support
+const DB_VERSION = 3; // Bumped for per-scribe corrections
 const STORE_NAME = 'corrections';
 const ALIAS_STORE_NAME = 'name_aliases';
 
@@ -70,7 +72,15 @@ const openDB = (): Promise<IDBDatabase | null> => {
                     store.createIndex('assembly_original', ['assemblyName', 'originalValue'], { unique: false });
                 }
 
-                // Name aliases store (for member name learning)
+                // Per-scribe lookups (v3); added to existing stores too
+                const upgradeTx = (event.target as IDBOpenDBRequest).transaction;
+                const correctionStore = upgradeTx?.objectStore(STORE_NAME);
+                if (correctionStore && !correctionStore.indexNames.contains('scribe')) {
+                    correctionStore.createIndex('scribe', 'scribeId', { unique: false });
+                    correctionStore.createIndex('scribe_original', ['scribeId', 'originalValue'], { unique: false });
+                }
+
+                // Name aliases store (legacy, migrated to nameAliases)
                 if (!db.objectStoreNames.contains(ALIAS_STORE_NAME)) {
                     const aliasStore = db.createObjectStore(ALIAS_STORE_NAME, { keyPath: 'id' });
                     aliasStore.createIndex('assembly', 'assemblyName', { unique: false });
@@ -97,13 +107,15 @@ const openDB = (): Promise<IDBDatabase | null> => {
  * @param correctedValue - What user entered (number)
  * @param memberId - Optional member ID for member-specific patterns
  * @param source - Where the correction came from
+ * @param scribeId - Optional writer of the page for scribe-specific patterns
  */
 export const saveAmountCorrection = async (
     assemblyName: string,
     originalValue: string,
     correctedValue: number,
     memberId?: string,
-    source: 'tithe_entry' | 'verification' | 'batch' = 'tithe_entry'
+    source: 'tithe_entry' | 'verification' | 'batch' = 'tithe_entry',
+    scribeId?: string
 ): Promise<void> => {
     // Normalize the original value for consistent matching
     const normalizedOriginal = originalValue.trim().toUpperCase();
@@ -120,7 +132,8 @@ export const saveAmountCorrection = async (
         correctedValue,
         memberId: memberId?.toLowerCase(),
         timestamp: Date.now(),
-        source
+        source,
+        ...(scribeId ? { scribeId } : {})
     };
 
     const db = await openDB();
@@ -134,7 +147,7 @@ export const saveAmountCorrection = async (
         request.onsuccess = () => {
             // Train ensemble (char substitution + ML neural network)
             import('./ensembleOCR').then(({ trainEnsemble }) => {
-                trainEnsemble(normalizedOriginal, correctedValue);
+                trainEnsemble(normalizedOriginal, correctedValue, scribeId);
             }).catch(() => {
                 // Ensemble not available
             });
@@ -165,42 +178,69 @@ export const getCorrectionsForAssembly = async (
     });
 };
 
+/**
+ * Get every correction learned from one scribe's pages
+ */
+export const getCorrectionsForScribe = async (
+    scribeId: string
+): Promise<AmountCorrection[]> => {
+    const db = await openDB();
+    if (!db) return [];
+
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        const request = tx.objectStore(STORE_NAME).index('scribe').getAll(scribeId);
+
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+
+        tx.oncomplete = () => db.close();
+    });
+};
+
 /**
  * Suggest a correction based on learned patterns
  *
  * @param assemblyName - The assembly context
  * @param originalValue - The OCR-extracted value to check
+ * @param scribeId - Optional writer of the page, whose corrections are tried first
  * @returns Suggestion if a pattern exists, null otherwise
  */
 export const suggestCorrection = async (
     assemblyName: string,
-    originalValue: string
+    originalValue: string,
+    scribeId?: string
 ): Promise<CorrectionSuggestion | null> => {
     const normalizedOriginal = originalValue.trim().toUpperCase();
 
     const db = await openDB();
     if (!db) return null; // IndexedDB unavailable
 
-    // Helper to query corrections for a specific assembly
-    const getCorrections = (targetAssembly: string): Promise<AmountCorrection[]> => {
+    // Helper to query corrections for a specific assembly (or scribe)
+    const getCorrections = (indexName: string, key: string): Promise<AmountCorrection[]> => {
         return new Promise((resolve, reject) => {
             const tx = db.transaction(STORE_NAME, 'readonly');
             const store = tx.objectStore(STORE_NAME);
-            const index = store.index('assembly_original');
-            const request = index.getAll([targetAssembly.toLowerCase(), normalizedOriginal]);
+            const index = store.index(indexName);
+            const request = index.getAll([key, normalizedOriginal]);
 
             request.onsuccess = () => resolve(request.result || []);
             request.onerror = () => reject(request.error);
         });
     };
 
-    // Priority: Assembly-specific first, then global fallback
-    let corrections = await getCorrections(assemblyName);
+    // Priority: Scribe first, then assembly-specific, then global fallback
+    let corrections = scribeId ? await getCorrections('scribe_original', scribeId) : [];
+    const isScribeMatch = corrections.length > 0;
     let isGlobalMatch = false;
 
+    if (corrections.length === 0) {
+        corrections = await getCorrections('assembly_original', assemblyName.toLowerCase());
+    }
+
     if (corrections.length === 0) {
         // Fallback to global patterns
-        corrections = await getCorrections(GLOBAL_ASSEMBLY);
+        corrections = await getCorrections('assembly_original', GLOBAL_ASSEMBLY.toLowerCase());
         isGlobalMatch = true;
     }
 
@@ -236,7 +276,8 @@ export const suggestCorrection = async (
         confidence,
         occurrences: maxCount,
         isExactMatch: true,
-        isGlobal: isGlobalMatch
+        isGlobal: isGlobalMatch,
+        isScribeMatch
     };
 };
 
@@ -469,7 +510,8 @@ export const importPatterns = async (
             pattern.originalValue,
             pattern.correctedValue,
             pattern.memberId,
-            pattern.source || 'batch'
+            pattern.source || 'batch',
+            pattern.scribeId
         );
         imported++;
     }
@@ -478,10 +520,14 @@ export const importPatterns = async (
 };
 
 // ============================================================================
-// NAME ALIAS LEARNING
+// LEGACY NAME ALIASES
 // ============================================================================
 
-export interface NameAlias {
+/**
+ * Name alias as this store used to keep it, one row per correction.
+ * Aliases now live in nameAliases, which migrates these on first use.
+ */
+export interface LegacyNameAlias {
     id: string;
     assemblyName: string;
     extractedName: string;       // What AI extracted (e.g., "PST ADDO J")
@@ -492,98 +538,39 @@ export interface NameAlias {
 }
 
 /**
- * Save a name alias correction
- * When user links "PST ADDO J" to member "PASTOR JONATHAN ADDO MENSAH",
- * we learn this alias for future matching.
+ * Every alias left in the old store (all assemblies)
  */
-export const saveNameAlias = async (
-    assemblyName: string,
-    extractedName: string,
-    correctMemberId: string,
-    correctMemberName: string,
-    source: 'verification' | 'manual' = 'verification'
-): Promise<void> => {
-    const normalizedExtracted = extractedName.trim().toUpperCase();
+export const readLegacyNameAliases = async (): Promise<LegacyNameAlias[]> => {
+    const db = await openDB();
+    if (!db) return [];
 
-    const alias: NameAlias = {
-        id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
-        assemblyName: assemblyName.toLowerCase(),
-        extractedName: normalizedExtracted,
-        correctMemberId,
-        correctMemberName,
-        timestamp: Date.now(),
-        source
-    };
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(ALIAS_STORE_NAME, 'readonly');
+        const request = tx.objectStore(ALIAS_STORE_NAME).getAll();
 
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+
+        tx.oncomplete = () => db.close();
+    });
+};
+
+export const clearLegacyNameAliases = async (): Promise<void> => {
     const db = await openDB();
     if (!db) return;
 
     return new Promise((resolve, reject) => {
         const tx = db.transaction(ALIAS_STORE_NAME, 'readwrite');
-        const store = tx.objectStore(ALIAS_STORE_NAME);
-        store.add(alias);
+        tx.objectStore(ALIAS_STORE_NAME).clear();
 
         tx.oncomplete = () => {
             db.close();
-            console.log(`[NameAlias] Learned: "${extractedName}" → ${correctMemberName}`);
             resolve();
         };
         tx.onerror = () => reject(tx.error);
     });
 };
 
-/**
- * Get a learned name alias for an extracted name
- * Returns the most frequently corrected member for this alias
- */
-export const getNameAlias = async (
-    assemblyName: string,
-    extractedName: string
-): Promise<{ memberId: string; memberName: string; count: number } | null> => {
-    const normalizedExtracted = extractedName.trim().toUpperCase();
-
-    const db = await openDB();
-    if (!db) return null;
-
-    const aliases: NameAlias[] = await new Promise((resolve, reject) => {
-        const tx = db.transaction(ALIAS_STORE_NAME, 'readonly');
-        const store = tx.objectStore(ALIAS_STORE_NAME);
-        const index = store.index('assembly_extracted');
-        const request = index.getAll([assemblyName.toLowerCase(), normalizedExtracted]);
-
-        request.onsuccess = () => resolve(request.result || []);
-        request.onerror = () => reject(request.error);
-    });
-
-    db.close();
-
-    if (aliases.length === 0) return null;
-
-    // Count occurrences of each member ID
-    const memberCounts = new Map<string, { name: string; count: number }>();
-    for (const alias of aliases) {
-        const existing = memberCounts.get(alias.correctMemberId);
-        if (existing) {
-            existing.count++;
-        } else {
-            memberCounts.set(alias.correctMemberId, {
-                name: alias.correctMemberName,
-                count: 1
-            });
-        }
-    }
-
-    // Return the most common match
-    let bestMatch: { id: string; name: string; count: number } | null = null;
-    for (const [id, data] of memberCounts) {
-        if (!bestMatch || data.count > bestMatch.count) {
-            bestMatch = { id, name: data.name, count: data.count };
-        }
-    }
-
-    return bestMatch ? { memberId: bestMatch.id, memberName: bestMatch.name, count: bestMatch.count } : null;
-};
-
 // ============================================================================
 // AUTO-CORRECT STREAK DETECTION
 // ============================================================================
@@ -624,22 +611,64 @@ export const getCorrectionCount = async (assemblyName: string): Promise<number>
     return corrections.length;
 };
 
+// ============================================================================
+// FULL BACKUP
+// ============================================================================
+
+export interface HandwritingBackup {
+    corrections: AmountCorrection[];
+    /** Only in backups made before aliases moved to nameAliases */
+    nameAliases?: LegacyNameAlias[];
+    /** Absent in backups made before scribe profiles */
+    scribes?: ScribeProfile[];
+}
+
 /**
- * Get all aliases for an assembly (for debugging/display)
+ * Export every correction and scribe profile (all assemblies) for a
+ * backup archive
  */
-export const getAliasesForAssembly = async (assemblyName: string): Promise<NameAlias[]> => {
+export const exportAllLearningData = async (): Promise<HandwritingBackup> => {
+    const scribes = loadScribeProfiles();
     const db = await openDB();
-    if (!db) return [];
+    if (!db) return { corrections: [], scribes };
 
     return new Promise((resolve, reject) => {
-        const tx = db.transaction(ALIAS_STORE_NAME, 'readonly');
-        const store = tx.objectStore(ALIAS_STORE_NAME);
-        const index = store.index('assembly');
-        const request = index.getAll(assemblyName.toLowerCase());
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        const correctionsRequest = tx.objectStore(STORE_NAME).getAll();
 
-        request.onsuccess = () => resolve(request.result || []);
-        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => {
+            db.close();
+            resolve({
+                corrections: correctionsRequest.result || [],
+                scribes,
+            });
+        };
+        tx.onerror = () => reject(tx.error);
+    });
+};
 
-        tx.oncomplete = () => db.close();
+/**
+ * Replace all corrections and scribe profiles with a backup copy. Old
+ * aliases are cleared; the backup's aliases are restored by nameAliases.
+ */
+export const replaceAllLearningData = async (backup: HandwritingBackup): Promise<void> => {
+    replaceScribeProfiles(backup.scribes ?? []);
+    const db = await openDB();
+    if (!db) return;
+
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([STORE_NAME, ALIAS_STORE_NAME], 'readwrite');
+        const correctionStore = tx.objectStore(STORE_NAME);
+        const aliasStore = tx.objectStore(ALIAS_STORE_NAME);
+
+        correctionStore.clear();
+        aliasStore.clear();
+        backup.corrections.forEach((correction) => correctionStore.put(correction));
+
+        tx.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+        tx.onerror = () => reject(tx.error);
     });
 };
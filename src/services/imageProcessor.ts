@@ -14,6 +14,7 @@
  * - matching.ts: Fuzzy name matching algorithms
  * - titheExtractor.ts: processTitheImageWithValidation
  * - nameExtractor.ts: extractNamesFromTitheBook
+ * - visionProvider.ts: VisionProvider implementations (Gemini, OpenAI-compatible, fixture)
  */
 
 // Re-export all public API from the modular structure
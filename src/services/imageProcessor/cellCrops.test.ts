@@ -0,0 +1,111 @@
+/// <reference types="vitest/globals" />
+/**
+ * cellCrops.test.ts
+ * Tests for cell box handling, crop stripping and turning verified amount
+ * crops into digit training samples
+ *
+ * Crops are drawn in memory with digits as solid bars, as in the offline
+ * provider tests, so no canvas or model is needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cellBoxToRect, buildDigitSamplesFromCrops, cropCellImages, normalizeCellBox, stripCellCrops } from './cellCrops';
+import { RasterImage } from './offlineGrid';
+import { TitheRecordB } from '@/types';
+
+/** A white cell with one black bar per digit (bar width = digit + 1) */
+const drawAmountCell = (text: string): RasterImage => {
+    const width = 60;
+    const height = 40;
+    const cell = { width, height, data: new Uint8ClampedArray(width * height * 4).fill(255) };
+    let x = 10;
+    for (const char of text) {
+        const barWidth = Number(char) + 1;
+        for (let y = 10; y < 30; y++) {
+            for (let xx = x; xx < x + barWidth; xx++) cell.data.set([0, 0, 0], (y * width + xx) * 4);
+        }
+        x += barWidth + 3;
+    }
+    return cell;
+};
+
+describe('normalizeCellBox', () => {
+    it('keeps fraction boxes and converts 0-100 and 0-1000 scales', () => {
+        expect(normalizeCellBox({ x: 0.1, y: 0.2, width: 0.3, height: 0.05 })).toEqual({ x: 0.1, y: 0.2, width: 0.3, height: 0.05 });
+        expect(normalizeCellBox({ x: 10, y: 20, width: 30, height: 5 })).toEqual({ x: 0.1, y: 0.2, width: 0.3, height: 0.05 });
+        expect(normalizeCellBox({ x: 100, y: 200, width: 300, height: 50 })).toEqual({ x: 0.1, y: 0.2, width: 0.3, height: 0.05 });
+    });
+
+    it('rejects missing, negative and empty boxes', () => {
+        expect(normalizeCellBox(undefined)).toBeNull();
+        expect(normalizeCellBox({ x: 0.1, y: 0.2, width: 0.3 })).toBeNull();
+        expect(normalizeCellBox({ x: -0.1, y: 0.2, width: 0.3, height: 0.05 })).toBeNull();
+        expect(normalizeCellBox({ x: 0.1, y: 0.2, width: 0, height: 0.05 })).toBeNull();
+    });
+});
+
+describe('cellBoxToRect', () => {
+    it('pads the box and clamps it to the image', () => {
+        expect(cellBoxToRect({ x: 0.5, y: 0.5, width: 0.2, height: 0.1 }, 1000, 500, 0.1)).toEqual({
+            x: 480,
+            y: 245,
+            width: 240,
+            height: 60,
+        });
+        expect(cellBoxToRect({ x: 0, y: 0.5, width: 0.5, height: 0.5 }, 1000, 500, 0.5)).toEqual({
+            x: 0,
+            y: 125,
+            width: 750,
+            height: 375,
+        });
+    });
+});
+
+describe('cropCellImages', () => {
+    it('returns no crops when the extraction has no boxes', async () => {
+        const photo = new Blob([new Uint8Array([1])], { type: 'image/jpeg' });
+        await expect(cropCellImages(photo, [{}, {}])).resolves.toEqual([undefined, undefined]);
+    });
+});
+
+describe('stripCellCrops', () => {
+    it('removes crops and leaves other records untouched', () => {
+        const plain = { 'No.': 1, 'Transaction Amount': 10 } as TitheRecordB;
+        const cropped = { 'No.': 2, 'Transaction Amount': 20, cellCrops: { amount: 'data:image/jpeg;base64,AA' } } as TitheRecordB;
+
+        const [first, second] = stripCellCrops([plain, cropped]);
+        expect(first).toBe(plain);
+        expect(second).toEqual({ 'No.': 2, 'Transaction Amount': 20 });
+    });
+});
+
+describe('buildDigitSamplesFromCrops', () => {
+    it('labels each glyph with the matching digit of the verified amount', async () => {
+        const crops: Record<string, RasterImage> = { fifty: drawAmountCell('50'), hundred: drawAmountCell('100') };
+        const set = await buildDigitSamplesFromCrops(
+            [
+                { crop: 'fifty', amount: 50 },
+                { crop: 'hundred', amount: 100 },
+            ],
+            async (key) => crops[key]
+        );
+
+        expect(set.labels).toEqual([5, 0, 1, 0, 0]);
+        expect(set.inputs).toHaveLength(5);
+    });
+
+    it('skips cells whose glyphs do not line up with the amount', async () => {
+        const set = await buildDigitSamplesFromCrops(
+            [
+                { crop: 'cell', amount: 150 },
+                { crop: 'broken', amount: 20 },
+            ],
+            async (key) => {
+                if (key === 'broken') throw new Error('Corrupt image');
+                return drawAmountCell('50');
+            }
+        );
+
+        expect(set).toEqual({ inputs: [], labels: [] });
+    });
+});
@@ -0,0 +1,193 @@
+/**
+ * Cell Crops
+ * Cuts the handwritten NAME and amount cells out of a tithe book photo so
+ * each extracted record carries the ink it was read from. Reviewers see the
+ * cell next to the value, and corrected amounts become labelled samples for
+ * the on-device digit recognizer.
+ */
+import type { TitheCellCrops, TitheRecordB } from "../../types";
+import type { CellBox } from "./types";
+import { binarizeImage, RasterImage } from "./offlineGrid";
+import { DigitTrainingSet, labelCellGlyphs } from "./offlineDigits";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Crops are scaled to this height; enough to read, small enough to store */
+const CROP_HEIGHT = 48;
+
+/** Name cells are long; keep them from dominating storage */
+const MAX_CROP_WIDTH = 320;
+
+const CROP_QUALITY = 0.7;
+
+/** Margin added around a box, as a fraction of its size, for loose boxes */
+const CROP_PADDING = 0.1;
+
+/** Boxes smaller than this (fraction of the page) are misreads */
+const MIN_BOX_SIZE = 0.002;
+
+// ============================================================================
+// BOX GEOMETRY
+// ============================================================================
+
+/**
+ * Validates a box from the model. Fractions are expected; 0-100 and 0-1000
+ * scales (some models answer in their native box units) are converted.
+ */
+export const normalizeCellBox = (box: Partial<CellBox> | null | undefined): CellBox | null => {
+    if (!box) return null;
+    const { x, y, width, height } = box;
+    if (![x, y, width, height].every((v) => typeof v === 'number' && Number.isFinite(v) && v >= 0)) return null;
+
+    const values = [x, y, width, height] as number[];
+    const max = Math.max(values[0] + values[2], values[1] + values[3]);
+    const scale = max <= 1.05 ? 1 : max <= 105 ? 100 : 1000;
+    const [left, top] = [Math.min(1, values[0] / scale), Math.min(1, values[1] / scale)];
+    const normalized = {
+        x: left,
+        y: top,
+        width: Math.min(1 - left, values[2] / scale),
+        height: Math.min(1 - top, values[3] / scale),
+    };
+    return normalized.width >= MIN_BOX_SIZE && normalized.height >= MIN_BOX_SIZE ? normalized : null;
+};
+
+/**
+ * Pixel rectangle of a box on an image, padded and clamped to its edges
+ */
+export const cellBoxToRect = (
+    box: CellBox,
+    imageWidth: number,
+    imageHeight: number,
+    padding: number = CROP_PADDING
+): { x: number; y: number; width: number; height: number } => {
+    const padX = box.width * padding;
+    const padY = box.height * padding;
+    const x0 = Math.max(0, Math.floor((box.x - padX) * imageWidth));
+    const y0 = Math.max(0, Math.floor((box.y - padY) * imageHeight));
+    const x1 = Math.min(imageWidth, Math.ceil((box.x + box.width + padX) * imageWidth));
+    const y1 = Math.min(imageHeight, Math.ceil((box.y + box.height + padY) * imageHeight));
+    return { x: x0, y: y0, width: Math.max(1, x1 - x0), height: Math.max(1, y1 - y0) };
+};
+
+/**
+ * Box of a grid cell found in pixels (offline reader)
+ */
+export const pixelBandsToCellBox = (
+    column: { start: number; end: number },
+    row: { start: number; end: number },
+    imageWidth: number,
+    imageHeight: number
+): CellBox => ({
+    x: column.start / imageWidth,
+    y: row.start / imageHeight,
+    width: (column.end - column.start) / imageWidth,
+    height: (row.end - row.start) / imageHeight,
+});
+
+// ============================================================================
+// CROPPING
+// ============================================================================
+
+export interface CellBoxes {
+    name?: CellBox;
+    amount?: CellBox;
+}
+
+/**
+ * Cuts the cells of every row out of the photo as JPEG data URLs.
+ * Never throws: rows without usable boxes, or a photo that cannot be
+ * decoded, simply get no crops.
+ */
+export const cropCellImages = async (image: Blob, rows: CellBoxes[]): Promise<Array<TitheCellCrops | undefined>> => {
+    if (!rows.some((row) => row.name || row.amount)) return rows.map(() => undefined);
+
+    let bitmap: ImageBitmap | null = null;
+    try {
+        bitmap = await createImageBitmap(image);
+        const source = bitmap;
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        if (!context) return rows.map(() => undefined);
+
+        const crop = (box: CellBox | undefined): string | undefined => {
+            const valid = normalizeCellBox(box);
+            if (!valid) return undefined;
+            const rect = cellBoxToRect(valid, source.width, source.height);
+            const scale = Math.min(CROP_HEIGHT / rect.height, MAX_CROP_WIDTH / rect.width);
+            canvas.width = Math.max(1, Math.round(rect.width * scale));
+            canvas.height = Math.max(1, Math.round(rect.height * scale));
+            context.fillStyle = '#fff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+            return canvas.toDataURL('image/jpeg', CROP_QUALITY);
+        };
+
+        return rows.map((row) => {
+            const crops: TitheCellCrops = { name: crop(row.name), amount: crop(row.amount) };
+            return crops.name || crops.amount ? crops : undefined;
+        });
+    } catch (error) {
+        console.warn("[CellCrops] Could not crop cells from the photo:", error);
+        return rows.map(() => undefined);
+    } finally {
+        bitmap?.close();
+    }
+};
+
+/**
+ * Drops the crops from records that are kept long-term (transaction log,
+ * auto-save drafts), where they would only take up storage
+ */
+export const stripCellCrops = (records: TitheRecordB[]): TitheRecordB[] =>
+    records.map((record) => {
+        if (!record.cellCrops) return record;
+        const { cellCrops: _crops, ...rest } = record;
+        return rest;
+    });
+
+// ============================================================================
+// TRAINING SAMPLES
+// ============================================================================
+
+/**
+ * Decodes a crop data URL into pixels
+ */
+const decodeCrop = async (dataUrl: string): Promise<RasterImage> => {
+    const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+    try {
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error("Canvas is not available to read the cell");
+        context.drawImage(bitmap, 0, 0);
+        return context.getImageData(0, 0, bitmap.width, bitmap.height);
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Turns verified amount crops into per-digit training samples. Cells whose
+ * glyphs cannot be lined up with the digits of the amount are skipped.
+ */
+export const buildDigitSamplesFromCrops = async (
+    samples: Array<{ crop: string; amount: number }>,
+    decode: (dataUrl: string) => Promise<RasterImage> = decodeCrop
+): Promise<DigitTrainingSet> => {
+    const set: DigitTrainingSet = { inputs: [], labels: [] };
+    for (const { crop, amount } of samples) {
+        try {
+            const labelled = labelCellGlyphs(binarizeImage(await decode(crop)), amount);
+            if (!labelled) continue;
+            set.inputs.push(...labelled.inputs);
+            set.labels.push(...labelled.labels);
+        } catch (error) {
+            console.warn("[CellCrops] Skipping an unreadable cell crop:", error);
+        }
+    }
+    return set;
+};
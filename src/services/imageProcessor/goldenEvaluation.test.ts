@@ -0,0 +1,96 @@
+/// <reference types="vitest/globals" />
+/**
+ * goldenEvaluation.test.ts
+ * OCR accuracy regression gate: replays the golden set through the
+ * extraction pipeline and fails when a metric falls behind the baseline.
+ *
+ * To add a case, record the vision model's reply for an anonymised page
+ * and hand-check the expected records in golden/<id>.case.json. After an
+ * intended change, copy the printed baseline into golden/baseline.json.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    calculateCalibrationError,
+    evaluateGoldenSet,
+    findRegressions,
+    formatEvaluationReport,
+    toBaseline,
+    EvaluationBaseline,
+    EvaluationMetrics,
+    GoldenCase,
+    GoldenRowResult,
+} from './goldenEvaluation';
+import baseline from './golden/baseline.json';
+
+const GOLDEN_CASES = Object.values(
+    import.meta.glob<GoldenCase>('./golden/*.case.json', { eager: true, import: 'default' })
+);
+
+const metrics = (overrides: Partial<EvaluationMetrics> = {}): EvaluationMetrics => ({
+    rows: 10,
+    nameAccuracy: 0.9,
+    amountAccuracy: 0.8,
+    calibrationError: 0.1,
+    validationRecall: 0.5,
+    falseAlarmRate: 0.1,
+    ...overrides,
+});
+
+const row = (confidence: number, correct: boolean): GoldenRowResult => ({
+    no: 1,
+    expected: { 'No.': 1, 'Membership Number': 'A', 'Transaction Amount': 10 },
+    actual: { 'No.': 1, 'Membership Number': 'A', 'Transaction Amount': 10, Confidence: confidence } as GoldenRowResult['actual'],
+    nameCorrect: correct,
+    amountCorrect: correct,
+    flagged: false,
+});
+
+beforeEach(() => {
+    // Learned corrections would make the run depend on this machine
+    localStorage.clear();
+});
+
+describe('golden set', () => {
+    it('does not regress against the baseline', async () => {
+        expect(GOLDEN_CASES.length).toBeGreaterThan(0);
+
+        const report = await evaluateGoldenSet(GOLDEN_CASES);
+        const summary = `${formatEvaluationReport(report)}\n\nBaseline:\n${JSON.stringify(toBaseline(report), null, 2)}`;
+
+        expect(findRegressions(report, baseline as EvaluationBaseline), summary).toEqual([]);
+    });
+});
+
+describe('calculateCalibrationError', () => {
+    it('is 0 when confidence matches accuracy and grows with overconfidence', () => {
+        expect(calculateCalibrationError([row(1, true), row(0, false)])).toBe(0);
+        expect(calculateCalibrationError([row(0.9, true), row(0.9, false)])).toBe(0.4);
+    });
+});
+
+describe('findRegressions', () => {
+    const previous: EvaluationBaseline = { overall: metrics(), cases: { page: metrics() } };
+
+    it('reports metrics that got worse in either direction', () => {
+        const report = {
+            overall: metrics({ amountAccuracy: 0.7, calibrationError: 0.2 }),
+            cases: [{ id: 'page', rows: [], metrics: metrics({ falseAlarmRate: 0.3 }) }],
+        };
+
+        expect(findRegressions(report, previous)).toEqual([
+            'overall: amountAccuracy went from 0.8 to 0.7',
+            'overall: calibrationError went from 0.1 to 0.2',
+            'page: falseAlarmRate went from 0.1 to 0.3',
+        ]);
+    });
+
+    it('accepts improvements and new cases', () => {
+        const report = {
+            overall: metrics({ nameAccuracy: 1, calibrationError: 0.05 }),
+            cases: [{ id: 'new-page', rows: [], metrics: metrics({ nameAccuracy: 0 }) }],
+        };
+
+        expect(findRegressions(report, previous)).toEqual([]);
+    });
+});
@@ -0,0 +1,268 @@
+/**
+ * OCR Golden Evaluation
+ * Replays recorded vision model replies for anonymised tithe book pages
+ * through the full post-processing pipeline (member matching, amount
+ * validation and snapping, page sequencing) and scores the records against
+ * hand-checked ground truth.
+ *
+ * goldenEvaluation.test.ts runs the golden set in golden/ and fails when a
+ * metric falls behind golden/baseline.json, so a prompt or scoring change
+ * shows whether it made extraction better or worse.
+ */
+import type { MemberRecordA, TitheRecordB } from "../../types";
+import { validateAmount } from "../amountValidator";
+import { sequencePages } from "../pageSequencer";
+import { processTitheImageWithValidation } from "./titheExtractor";
+import { createFixtureVisionProvider } from "./visionProvider";
+import type { EnhancedRawExtraction } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The fields of a record that ground truth is given for */
+export type GoldenRecord = Pick<TitheRecordB, "No." | "Membership Number" | "Transaction Amount">;
+
+/** One scan session: the photos taken of a week and what they should give */
+export interface GoldenCase {
+    id: string;
+    description: string;
+    month: string;
+    week: string;
+    /** Target date as DD-MMM-YYYY */
+    date: string;
+    /** Anonymised member list of the assembly */
+    members: MemberRecordA[];
+    /** The vision model's reply for each photo, recorded verbatim, in scan order */
+    pages: EnhancedRawExtraction[];
+    /** Hand-checked records, one per book row */
+    expected: GoldenRecord[];
+}
+
+export interface GoldenRowResult {
+    no: number;
+    expected: GoldenRecord;
+    /** Absent when the pipeline lost the row */
+    actual?: TitheRecordB;
+    nameCorrect: boolean;
+    amountCorrect: boolean;
+    /** Amount validation suggested a different amount */
+    flagged: boolean;
+}
+
+export interface EvaluationMetrics {
+    rows: number;
+    /** Share of rows matched to the right member */
+    nameAccuracy: number;
+    /** Share of rows with the right amount */
+    amountAccuracy: number;
+    /** Expected calibration error of record Confidence against fully correct rows (lower is better) */
+    calibrationError: number;
+    /** Share of wrong amounts that validation flagged */
+    validationRecall: number;
+    /** Share of right amounts that validation flagged anyway (lower is better) */
+    falseAlarmRate: number;
+}
+
+export interface GoldenCaseResult {
+    id: string;
+    rows: GoldenRowResult[];
+    metrics: EvaluationMetrics;
+}
+
+export interface EvaluationReport {
+    cases: GoldenCaseResult[];
+    overall: EvaluationMetrics;
+}
+
+/** Metrics to hold the pipeline to, overall and per case */
+export interface EvaluationBaseline {
+    overall: EvaluationMetrics;
+    cases: Record<string, EvaluationMetrics>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Confidence bins for the calibration error */
+const CALIBRATION_BINS = 5;
+
+/** Metrics where a lower value is better */
+const LOWER_IS_BETTER: ReadonlyArray<keyof EvaluationMetrics> = ["calibrationError", "falseAlarmRate"];
+
+const SCORED_METRICS: ReadonlyArray<keyof EvaluationMetrics> = [
+    "nameAccuracy",
+    "amountAccuracy",
+    "calibrationError",
+    "validationRecall",
+    "falseAlarmRate",
+];
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/** The pipeline never looks at the pixels when the reply is recorded */
+const placeholderImage = () => new File([new Uint8Array([0])], "golden.png", { type: "image/png" });
+
+/**
+ * Runs a case's recorded replies through extraction and page sequencing
+ */
+export const runGoldenCase = async (goldenCase: GoldenCase): Promise<TitheRecordB[]> => {
+    const extractions: TitheRecordB[][] = [];
+    for (const page of goldenCase.pages) {
+        const provider = createFixtureVisionProvider({ titheExtraction: () => page });
+        const result = await processTitheImageWithValidation(
+            placeholderImage(),
+            provider,
+            goldenCase.month,
+            goldenCase.week,
+            goldenCase.date,
+            undefined,
+            "tithe_book",
+            goldenCase.members
+        );
+        extractions.push(result.entries);
+    }
+    return sequencePages(extractions).merged;
+};
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const share = (count: number, total: number) => (total > 0 ? round(count / total) : 1);
+
+/**
+ * Compares the pipeline's records with the expected ones, row by row
+ */
+export const scoreGoldenCase = (goldenCase: GoldenCase, records: TitheRecordB[]): GoldenRowResult[] => {
+    const byRow = new Map(records.map((r) => [Number(r["No."]), r]));
+
+    return goldenCase.expected.map((expected) => {
+        const no = Number(expected["No."]);
+        const actual = byRow.get(no);
+        const amount = Number(actual?.["Transaction Amount"]);
+        return {
+            no,
+            expected,
+            actual,
+            nameCorrect: !!actual && actual["Membership Number"] === expected["Membership Number"],
+            amountCorrect: !!actual && amount === Number(expected["Transaction Amount"]),
+            flagged: !!actual && validateAmount(amount).reason !== "valid",
+        };
+    });
+};
+
+/**
+ * Expected calibration error: rows are binned by Confidence and each bin's
+ * average confidence is compared with the share of its rows that were fully
+ * correct. Lost rows count as confidence 0.
+ */
+export const calculateCalibrationError = (rows: GoldenRowResult[]): number => {
+    if (rows.length === 0) return 0;
+
+    const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ count: 0, confidence: 0, correct: 0 }));
+    for (const row of rows) {
+        const confidence = Math.min(1, Math.max(0, row.actual?.Confidence ?? 0));
+        const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(confidence * CALIBRATION_BINS))];
+        bin.count++;
+        bin.confidence += confidence;
+        if (row.nameCorrect && row.amountCorrect) bin.correct++;
+    }
+
+    const error = bins.reduce(
+        (sum, bin) => (bin.count > 0 ? sum + (bin.count / rows.length) * Math.abs(bin.confidence / bin.count - bin.correct / bin.count) : sum),
+        0
+    );
+    return round(error);
+};
+
+export const summarizeRows = (rows: GoldenRowResult[]): EvaluationMetrics => {
+    const wrongAmounts = rows.filter((r) => r.actual && !r.amountCorrect);
+    const rightAmounts = rows.filter((r) => r.amountCorrect);
+    return {
+        rows: rows.length,
+        nameAccuracy: share(rows.filter((r) => r.nameCorrect).length, rows.length),
+        amountAccuracy: share(rightAmounts.length, rows.length),
+        calibrationError: calculateCalibrationError(rows),
+        validationRecall: share(wrongAmounts.filter((r) => r.flagged).length, wrongAmounts.length),
+        falseAlarmRate: rightAmounts.length > 0 ? share(rightAmounts.filter((r) => r.flagged).length, rightAmounts.length) : 0,
+    };
+};
+
+/**
+ * Runs and scores every case of a golden set
+ */
+export const evaluateGoldenSet = async (cases: GoldenCase[]): Promise<EvaluationReport> => {
+    const results: GoldenCaseResult[] = [];
+    for (const goldenCase of cases) {
+        const rows = scoreGoldenCase(goldenCase, await runGoldenCase(goldenCase));
+        results.push({ id: goldenCase.id, rows, metrics: summarizeRows(rows) });
+    }
+    return {
+        cases: results,
+        overall: summarizeRows(results.flatMap((c) => c.rows)),
+    };
+};
+
+// ============================================================================
+// REGRESSIONS
+// ============================================================================
+
+/**
+ * Metrics that got worse than the baseline by more than `tolerance`.
+ * Cases missing from the baseline are new and not checked.
+ */
+export const findRegressions = (
+    report: EvaluationReport,
+    baseline: EvaluationBaseline,
+    tolerance: number = 0.005
+): string[] => {
+    const compare = (label: string, current: EvaluationMetrics, previous: EvaluationMetrics) =>
+        SCORED_METRICS.flatMap((metric) => {
+            const lowerIsBetter = LOWER_IS_BETTER.includes(metric);
+            const worse = lowerIsBetter
+                ? current[metric] - previous[metric]
+                : previous[metric] - current[metric];
+            return worse > tolerance
+                ? [`${label}: ${metric} went from ${previous[metric]} to ${current[metric]}`]
+                : [];
+        });
+
+    return [
+        ...compare("overall", report.overall, baseline.overall),
+        ...report.cases.flatMap((c) => (baseline.cases[c.id] ? compare(c.id, c.metrics, baseline.cases[c.id]) : [])),
+    ];
+};
+
+/** The report in baseline form, to commit after an intended change */
+export const toBaseline = (report: EvaluationReport): EvaluationBaseline => ({
+    overall: report.overall,
+    cases: Object.fromEntries(report.cases.map((c) => [c.id, c.metrics])),
+});
+
+/**
+ * Readable summary with the rows each case got wrong
+ */
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const line = (label: string, m: EvaluationMetrics) =>
+        `${label}: ${m.rows} rows, names ${percent(m.nameAccuracy)}, amounts ${percent(m.amountAccuracy)}, ` +
+        `calibration error ${m.calibrationError}, validation recall ${percent(m.validationRecall)}, ` +
+        `false alarms ${percent(m.falseAlarmRate)}`;
+
+    const lines = [line("Overall", report.overall)];
+    for (const c of report.cases) {
+        lines.push(line(c.id, c.metrics));
+        for (const row of c.rows.filter((r) => !r.nameCorrect || !r.amountCorrect)) {
+            const got = row.actual
+                ? `${row.actual["Membership Number"]} ${row.actual["Transaction Amount"]}`
+                : "missing";
+            lines.push(`  #${row.no}: expected ${row.expected["Membership Number"]} ${row.expected["Transaction Amount"]}, got ${got}`);
+        }
+    }
+    return lines.join("\n");
+};
@@ -12,6 +12,8 @@
 // Re-export types
 export type {
     TitheImageExtractionResult,
+    MultiWeekExtractionResult,
+    WeekExtraction,
     NameMatchResult,
     NameExtractionResult,
     EnhancedRawExtraction,
@@ -21,7 +23,10 @@ export type {
     NotebookDetectionResult,
     NotebookExtractionResult,
     NotebookDetectionSignals,
-    NotebookRawEntry
+    NotebookRawEntry,
+    ImagePreprocessingReport,
+    ImagePreprocessingPreview,
+    CellBox
 } from './types';
 
 // Re-export constants and utilities from core
@@ -38,19 +43,58 @@ export {
 // Re-export main functions
 export { processTitheImageWithValidation, verifyLowConfidenceEntries, applyNeighborContext } from './titheExtractor';
 export type { ProcessingMode } from './titheExtractor';
+export { processTitheImageAllWeeks, getMonthSundays } from './multiWeekExtractor';
+export { reconcileMonthTotals } from './monthTotals';
+export type { MonthTotalRow } from './monthTotals';
 export { extractNamesFromTitheBook } from './nameExtractor';
 
 // Re-export notebook functions
 export { detectNotebookFormat } from './notebookDetector';
 export { processNotebookImage } from './notebookExtractor';
 
+// Re-export vision providers
+export {
+    createVisionProvider,
+    createGeminiVisionProvider,
+    createOpenAICompatibleVisionProvider,
+    createFixtureVisionProvider,
+    parseVisionJson
+} from './visionProvider';
+export { createOfflineVisionProvider, extractTithePageOffline, extractTitheWeeksOffline } from './offlineVisionProvider';
+export type { OfflineVisionOptions } from './offlineVisionProvider';
+
+// Re-export photo pre-processing
+export {
+    preprocessTitheImage,
+    recordExtractionQuality,
+    getPreprocessingImpact,
+    clearExtractionQuality
+} from './preprocessImage';
+export type { PreprocessingImpact, ExtractionQualitySummary } from './preprocessImage';
+export { preprocessRaster } from './preprocessing';
+export type { PreprocessOptions } from './preprocessing';
+
+// Re-export cell crops
+export { cropCellImages, normalizeCellBox, stripCellCrops } from './cellCrops';
+export type { CellBoxes } from './cellCrops';
+export type {
+    VisionProvider,
+    VisionRequest,
+    VisionRequestContext,
+    VisionTask,
+    VisionFixture,
+    FixtureVisionProvider,
+    OpenAICompatibleOptions
+} from './visionProvider';
+
 // Re-export matching utilities (for advanced use cases)
 export {
     levenshteinDistance,
     calculateSimilarity,
     tokenSimilarity,
     findBestMatch,
-    findOptimalMatches
+    findOptimalMatches,
+    buildMemberPositionIndex
 } from './matching';
 
 export type { ExtractedNameInput, OptimalMatchResult } from './matching';
@@ -8,7 +8,8 @@ import {
     calculateSimilarity,
     tokenSimilarity,
     getPositionBoost,
-    findBestMatch
+    findBestMatch,
+    buildMemberPositionIndex
 } from "./matching";
 import { MemberRecordA } from "../../types";
 
@@ -259,3 +260,28 @@ describe("findBestMatch", () => {
         expect(result.score).toBe(0);
     });
 });
+
+// ============================================================================
+// MEMBER POSITION INDEX TESTS
+// ============================================================================
+
+describe("buildMemberPositionIndex", () => {
+    const members: MemberRecordA[] = [
+        { "No.": 1, "First Name": "Kofi", Surname: "Mensah", "Membership Number": "TAC001" },
+        { "No.": 2, "First Name": "Ama", Surname: "Owusu", "Membership Number": "TAC002" },
+        { "First Name": "Yaw", Surname: "Boateng", "Old Membership Number": "OLD003" },
+    ];
+
+    it("uses the member's No., falling back to list order", () => {
+        const index = buildMemberPositionIndex(members);
+        expect(index.get(1)?.Surname).toBe("Mensah");
+        expect(index.get(3)?.Surname).toBe("Boateng");
+    });
+
+    it("prefers the saved book order", () => {
+        const index = buildMemberPositionIndex(members, new Map([["tac002", 1], ["old003", 2]]));
+        expect(index.get(1)?.Surname).toBe("Owusu");
+        expect(index.get(2)?.Surname).toBe("Boateng");
+        expect(index.size).toBe(2);
+    });
+});
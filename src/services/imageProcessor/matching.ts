@@ -392,6 +392,29 @@ export function findOptimalMatches(
     return results;
 }
 
+/**
+ * Map each tithe book position to its member, for rows read without a name
+ * (the offline reader). Uses the saved book order when there is one,
+ * otherwise the member's No. in the database.
+ */
+export function buildMemberPositionIndex(
+    members: MemberRecordA[],
+    memberOrderMap?: Map<string, number>
+): Map<number, MemberRecordA> {
+    const index = new Map<number, MemberRecordA>();
+    const orderMap = memberOrderMap && memberOrderMap.size > 0 ? memberOrderMap : null;
+
+    members.forEach((member, i) => {
+        const memberId = (member["Membership Number"] || member["Old Membership Number"] || "").toLowerCase();
+        const position = orderMap ? orderMap.get(memberId) : Number(member["No."]) || i + 1;
+        if (position && !index.has(position)) {
+            index.set(position, member);
+        }
+    });
+
+    return index;
+}
+
 /**
  * Compute score for a single extracted name vs member
  * Enhanced with Ghanaian name utilities for better matching
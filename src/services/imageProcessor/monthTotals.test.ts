@@ -0,0 +1,74 @@
+/// <reference types="vitest/globals" />
+/**
+ * monthTotals.test.ts
+ * Tests for checking a row's red-ink month TOTAL against the weeks read
+ * from the page and those already in the transaction log
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLoggedMonthAmounts, reconcileMonthTotals } from './monthTotals';
+import { TitheRecordB, TransactionLogEntry } from '@/types';
+
+const logFor = (
+    selectedDate: string,
+    amounts: Record<string, number>,
+    assemblyName = 'Central',
+    transactionType = 'Individual Tithe-[Income]'
+): TransactionLogEntry =>
+    ({
+        id: `${assemblyName}-${selectedDate}`,
+        assemblyName,
+        selectedDate,
+        titheListData: Object.entries(amounts).map(
+            ([member, amount]) => ({
+                'Membership Number': member,
+                'Transaction Amount': amount,
+                'Transaction Type': transactionType,
+            }) as TitheRecordB
+        ),
+    }) as TransactionLogEntry;
+
+const logs = [
+    logFor('02-MAR-2025', { 'Kofi Mensah (TAC001)': 50, 'Ama Serwaa (TAC002)': 20 }),
+    logFor('09-MAR-2025', { 'Kofi Mensah (TAC001)': 50 }),
+    logFor('23-FEB-2025', { 'Kofi Mensah (TAC001)': 500 }),
+];
+
+describe('getLoggedMonthAmounts', () => {
+    it('takes the other Sundays of the month for the same member', () => {
+        expect(getLoggedMonthAmounts(logs, 'Central', 'Mr Kofi Mensah (TAC001)', ['16-MAR-2025'])).toEqual([50, 50]);
+        expect(getLoggedMonthAmounts(logs, 'Central', 'Kofi Mensah (TAC001)', ['09-MAR-2025'])).toEqual([50]);
+    });
+
+    it('finds nothing for unmatched names', () => {
+        expect(getLoggedMonthAmounts(logs, 'Central', 'KOFI MENSA', ['16-MAR-2025'])).toEqual([]);
+    });
+
+    it('leaves out other assemblies and other transaction types', () => {
+        const mixed = [
+            ...logs,
+            logFor('16-MAR-2025', { 'Kofi Mensah (TAC001)': 70 }, 'North'),
+            logFor('23-MAR-2025', { 'Kofi Mensah (TAC001)': 30 }, 'Central', 'Sunday Offering-[Income]'),
+        ];
+
+        expect(getLoggedMonthAmounts(mixed, 'Central', 'Kofi Mensah (TAC001)', ['30-MAR-2025'])).toEqual([50, 50]);
+    });
+});
+
+describe('reconcileMonthTotals', () => {
+    it('adds logged weeks to the extracted week before comparing', () => {
+        const reports = reconcileMonthTotals(
+            [
+                { memberNo: 1, membershipNumber: 'Kofi Mensah (TAC001)', monthTotal: 150, weekAmounts: [50] },
+                { memberNo: 2, membershipNumber: 'Ama Serwaa (TAC002)', monthTotal: 100, weekAmounts: [30] },
+                { memberNo: 3, membershipNumber: 'Yaw Boateng (TAC003)', weekAmounts: [40] },
+            ],
+            ['16-MAR-2025'],
+            logs,
+            'Central'
+        );
+
+        expect(reports.map((r) => r.memberNo)).toEqual([2]);
+        expect(reports[0].amounts).toEqual([100, 50]);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Month Total Reconciliation
+ * Every month on a tithe book page ends in a red-ink TOTAL column. Reading
+ * it alongside the weeks turns a misread week into a total that does not
+ * add up. Weeks that are not on the current scan are taken from the
+ * transaction log.
+ */
+import type { TransactionLogEntry } from "../../types";
+import { getAmountInGHS } from "../../lib/currency";
+import { isTitheRecord } from "../../lib/transactionTypes";
+import { getRecordMemberIds } from "../pledgeLedger";
+import { detectMonthTotalDiscrepancies, DiscrepancyReport } from "../pageSequencer";
+
+/** A row of the page with its TOTAL and the weeks read from the page */
+export interface MonthTotalRow {
+    memberNo: number;
+    /** "Membership Number" of the extracted record, used to find logged weeks */
+    membershipNumber: string;
+    /** TOTAL read from the page; 0 or absent when blank */
+    monthTotal?: number;
+    /** Amounts read from the page for this row, one per Sunday */
+    weekAmounts: number[];
+}
+
+/** "-MAR-2025" for "09-MAR-2025" */
+const monthOf = (dateString: string): string => dateString.slice(dateString.indexOf('-')).toUpperCase();
+
+/**
+ * Logged tithes of a member of `assemblyName` in the month of `pageDates`,
+ * on Sundays that were not read from the page. The TOTAL column only adds
+ * up the assembly's own tithe book.
+ */
+export const getLoggedMonthAmounts = (
+    transactionLogs: TransactionLogEntry[],
+    assemblyName: string,
+    membershipNumber: string,
+    pageDates: string[]
+): number[] => {
+    const ids = new Set(getRecordMemberIds(membershipNumber));
+    if (ids.size === 0 || pageDates.length === 0) return [];
+
+    const month = monthOf(pageDates[0]);
+    const onPage = new Set(pageDates.map((d) => d.toUpperCase()));
+    const amounts: number[] = [];
+
+    for (const log of transactionLogs) {
+        if (log.assemblyName !== assemblyName) continue;
+        const date = (log.selectedDate || '').toUpperCase();
+        if (monthOf(date) !== month || onPage.has(date)) continue;
+        for (const record of log.titheListData || []) {
+            if (!isTitheRecord(record)) continue;
+            if (getRecordMemberIds(record["Membership Number"] || '').some((id) => ids.has(id))) {
+                amounts.push(getAmountInGHS(record));
+            }
+        }
+    }
+    return amounts;
+};
+
+/**
+ * Cross-checks each row's TOTAL against its weeks: those read from the
+ * page (`pageDates`) plus the rest of the month from the transaction log.
+ * Logged weeks are only taken when the page's assembly is known.
+ */
+export const reconcileMonthTotals = (
+    rows: MonthTotalRow[],
+    pageDates: string[],
+    transactionLogs: TransactionLogEntry[] = [],
+    assemblyName?: string
+): DiscrepancyReport[] =>
+    detectMonthTotalDiscrepancies(
+        rows
+            .filter((row) => (row.monthTotal ?? 0) > 0)
+            .map((row) => ({
+                memberNo: row.memberNo,
+                memberName: row.membershipNumber,
+                monthTotal: row.monthTotal ?? 0,
+                weekAmounts: [
+                    ...row.weekAmounts,
+                    ...(assemblyName
+                        ? getLoggedMonthAmounts(transactionLogs, assemblyName, row.membershipNumber, pageDates)
+                        : []),
+                ],
+            }))
+    );
@@ -0,0 +1,94 @@
+/// <reference types="vitest/globals" />
+/**
+ * multiWeekExtractor.test.ts
+ * Tests for reading every week column of a month from one tithe book page
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getMonthSundays, processTitheImageAllWeeks, splitWeekColumns } from './multiWeekExtractor';
+import { createFixtureVisionProvider } from './visionProvider';
+import type { MultiWeekRawExtraction } from './types';
+
+const makeImage = () => new File([new Uint8Array([1, 2, 3])], 'page.png', { type: 'image/png' });
+
+/** Two members; week 3 has not been filled in yet */
+const rawPage: MultiWeekRawExtraction = {
+    isValidTitheBook: true,
+    detectedYear: '2025',
+    pageNumber: 1,
+    entries: [
+        {
+            'No.': 1,
+            Name: 'KOFI MENSAH',
+            weeks: [
+                { week: 1, Amount: 50, legibility: 5, cellCondition: 'clean' },
+                { week: 2, Amount: 20, legibility: 4, cellCondition: 'clean' },
+                { week: 3, Amount: 0, legibility: 5, cellCondition: 'empty' },
+            ],
+            monthTotal: 80,
+        },
+        {
+            'No.': 2,
+            Name: 'AMA SERWAA',
+            weeks: [{ week: 2, Amount: 100, legibility: 5, cellCondition: 'clean' }],
+            monthTotal: 100,
+        },
+    ],
+};
+
+describe('getMonthSundays', () => {
+    it('lists a fifth Sunday only when the month has one', () => {
+        // March 2025 starts on a Saturday: Sundays 2, 9, 16, 23, 30
+        expect(getMonthSundays('March', 2025).map((s) => s.date.getDate())).toEqual([2, 9, 16, 23, 30]);
+        // February 2025 has four Sundays
+        expect(getMonthSundays('February', 2025).map((s) => s.week)).toEqual(['Week 1', 'Week 2', 'Week 3', 'Week 4']);
+    });
+
+    it('rejects unknown months', () => {
+        expect(() => getMonthSundays('Smarch', 2025)).toThrow('Unknown month "Smarch"');
+    });
+});
+
+describe('splitWeekColumns', () => {
+    it('gives each week its own entries and treats missing cells as empty', () => {
+        const [week1, week2] = splitWeekColumns(rawPage, 'March', ['Week 1', 'Week 2']);
+
+        expect(week1.targetColumnZone?.columnHeader).toBe('1st');
+        expect(week1.entries.map((e) => e.Amount)).toEqual([50, 0]);
+        expect(week1.entries[1].cellCondition).toBe('empty');
+        expect(week2.entries.map((e) => e.Amount)).toEqual([20, 100]);
+        expect(week2.entries[0].Name).toBe('KOFI MENSAH');
+    });
+});
+
+describe('processTitheImageAllWeeks', () => {
+    it('makes one call and dates each filled week with its Sunday', async () => {
+        const provider = createFixtureVisionProvider({ multiWeekExtraction: () => rawPage });
+
+        const result = await processTitheImageAllWeeks(makeImage(), provider, 'March', 2025);
+
+        expect(provider.requests).toHaveLength(1);
+        expect(provider.requests[0].context?.targetWeeks).toEqual(['Week 1', 'Week 2', 'Week 3', 'Week 4', 'Week 5']);
+        expect(result.pageNumber).toBe(1);
+        expect(result.weeks.map((w) => w.dateString)).toEqual(['02-MAR-2025', '09-MAR-2025']);
+
+        const week2 = result.weeks[1].result.entries;
+        expect(week2.map((e) => e['Transaction Amount'])).toEqual([20, 100]);
+        expect(week2.every((e) => e['Narration/Description'] === 'Tithe for 09-MAR-2025')).toBe(true);
+    });
+
+    it('reports rows whose weeks do not add up to the month TOTAL', async () => {
+        const provider = createFixtureVisionProvider({ multiWeekExtraction: () => rawPage });
+
+        const result = await processTitheImageAllWeeks(makeImage(), provider, 'March', 2025);
+
+        expect(result.totalDiscrepancies?.map((d) => [d.memberNo, d.amounts])).toEqual([[1, [80, 70]]]);
+    });
+
+    it('wraps provider failures', async () => {
+        const provider = createFixtureVisionProvider({});
+        await expect(processTitheImageAllWeeks(makeImage(), provider, 'March', 2025)).rejects.toThrow(
+            'Failed to process image with AI'
+        );
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * Multi-Week Tithe Extraction
+ * Reads every week column of the target month from one tithe book page in
+ * a single vision call, then splits the reply into one record list per
+ * Sunday. Each list goes through the same matching, scoring and crop steps
+ * as a single-week extraction, dated with calculateSundayDate.
+ *
+ * Used to catch up on a missed month: one call per page instead of one per
+ * page per week.
+ */
+import { calculateSundayDate, formatDateDDMMMYYYY } from "../../lib/dataTransforms";
+import { getWeekColumnOffset, MONTHS } from "./core";
+import { MULTI_WEEK_EXTRACTION_SCHEMA } from "./schemas";
+import { TITHE_BOOK_HTML_TEMPLATE, TITHE_HANDWRITING_GUIDE } from "./templates";
+import { buildTitheExtractionResult, ExtractionMatchingOptions } from "./titheExtractor";
+import { reconcileMonthTotals } from "./monthTotals";
+import { cleanOCRAmount } from "../../utils/stringUtils";
+import type { VisionProvider } from "./visionProvider";
+import { RateLimitError } from "@/utils/rateLimiter";
+import type {
+    EnhancedRawExtraction,
+    MultiWeekExtractionResult,
+    MultiWeekRawExtraction,
+    WeekExtraction,
+} from "./types";
+
+// ============================================================================
+// SUNDAYS
+// ============================================================================
+
+/** Week column headers as printed in the book */
+const WEEK_HEADERS = ['1st', '2nd', '3rd', '4th', '5th'];
+
+/**
+ * The Sundays of a month as "Week n" with their dates. A 5th week is only
+ * included when the month has a fifth Sunday.
+ */
+export const getMonthSundays = (month: string, year: number): Array<{ week: string; date: Date }> => {
+    const monthIndex = MONTHS.indexOf(month.toUpperCase());
+    if (monthIndex === -1) throw new Error(`Unknown month "${month}"`);
+
+    return WEEK_HEADERS
+        .map((_, i) => {
+            const week = `Week ${i + 1}`;
+            return { week, date: calculateSundayDate(month, week, year) };
+        })
+        .filter(({ date }) => date.getMonth() === monthIndex);
+};
+
+// ============================================================================
+// SPLITTING
+// ============================================================================
+
+/**
+ * One single-week extraction per requested week. Rows without a reading
+ * for a week count as empty cells.
+ */
+export const splitWeekColumns = (
+    raw: MultiWeekRawExtraction,
+    month: string,
+    weeks: string[]
+): EnhancedRawExtraction[] =>
+    weeks.map((week) => {
+        const weekNumber = Number(week.match(/\d+/)?.[0]);
+        return {
+            isValidTitheBook: raw.isValidTitheBook,
+            detectedYear: raw.detectedYear,
+            pageNumber: raw.pageNumber,
+            setInfo: raw.setInfo,
+            targetColumnZone: {
+                columnHeader: WEEK_HEADERS[weekNumber - 1] ?? week,
+                monthHeader: month.toUpperCase(),
+                relativePosition: 'Read with all weeks of the month',
+                columnsFromTotal: getWeekColumnOffset(week),
+            },
+            entries: (raw.entries || []).map((row) => {
+                const cell = row.weeks?.find((c) => Number(c.week) === weekNumber);
+                return {
+                    "No.": row["No."],
+                    "Name": row.Name,
+                    "nameBox": row.nameBox,
+                    "Amount": cell?.Amount ?? 0,
+                    "legibility": cell ? cell.legibility : 5,
+                    "rawAmountText": cell?.rawAmountText,
+                    "inkColor": cell?.inkColor,
+                    "cellCondition": cell ? cell.cellCondition : 'empty',
+                    "amountBox": cell?.amountBox,
+                };
+            }),
+        };
+    });
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Extracts all weeks of `targetMonth` from a tithe book page.
+ * Weeks whose column is blank (not yet filled in, or no 5th Sunday) are
+ * left out of the result. Rows whose red-ink TOTAL does not match their
+ * weeks are reported in `totalDiscrepancies`.
+ */
+export const processTitheImageAllWeeks = async (
+    imageFile: File,
+    provider: VisionProvider,
+    targetMonth: string,
+    year: number,
+    options: ExtractionMatchingOptions = {}
+): Promise<MultiWeekExtractionResult> => {
+    const sundays = getMonthSundays(targetMonth, year);
+    const weeks = sundays.map((s) => s.week);
+    const columnList = weeks.map((_, i) => WEEK_HEADERS[i]).join('", "');
+
+    const prompt = `
+    You are an expert Data Entry Specialist for The Apostolic Church Ghana.
+    Your task is to digitize a page from the "TITHES REGISTER" book.
+
+    ## TITHE BOOK STRUCTURE REFERENCE
+    The physical book structure matches this HTML template:
+\`\`\`html
+    ${TITHE_BOOK_HTML_TEMPLATE}
+\`\`\`
+
+    ## TARGET DATA
+    - **Month**: ${targetMonth.toUpperCase()}
+    - **Week Columns**: ALL of "${columnList}"
+
+    ---
+    ## STEP 1: PAGE NUMBER & SET DETECTION
+
+    Find the **PAGE NUMBER** in the colored box at the bottom of the page.
+    SET = ceil(pageNumber / 2), Members = (SET-1)*31+1 to SET*31.
+
+    ---
+    ## STEP 2: MONTH POSITION VALIDATION
+
+    - **ODD pages (1, 3, 5, 7...)**: Show January → May
+    - **EVEN pages (2, 4, 6, 8...)**: Show June → December
+
+    ---
+    ## STEP 3: COLUMN LANDMARK DETECTION
+
+    Find the **TOTAL column** of ${targetMonth.toUpperCase()} (usually RED INK) and count backwards:
+    TOTAL ← 5th ← 4th ← 3rd ← 2nd ← 1st. Never read the TOTAL column as a week.
+
+    ---
+    ## STEP 4: ROW-BY-ROW EXTRACTION
+
+    For each row (1-31 in this SET):
+    1. Read the **NO.** and **NAME** columns once, with **nameBox** for the NAME cell
+    2. Add one item to \`weeks\` for EVERY target week column, even when the cell is blank:
+       - **week**: 1 for "1st" through 5 for "5th"
+       - **Amount**, **legibility**, **rawAmountText**, **inkColor**, **cellCondition** as for a single week
+       - **amountBox**: the cell, as { x, y, width, height } fractions (0-1) of the image size
+    3. Read the row's **TOTAL** cell for the month as **monthTotal** (0 if blank)
+
+    ---
+${TITHE_HANDWRITING_GUIDE}
+    `;
+
+    let raw: MultiWeekRawExtraction;
+    try {
+        raw = await provider.generateJson<MultiWeekRawExtraction>({
+            task: 'multiWeekExtraction',
+            prompt,
+            image: imageFile,
+            schema: MULTI_WEEK_EXTRACTION_SCHEMA,
+            context: { targetMonth, targetWeek: weeks[0], targetWeeks: weeks },
+        });
+    } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.error(`Error during ${provider.label} multi-week extraction:`, error);
+        throw new Error("Failed to process image with AI. Check the vision provider settings or network connection.");
+    }
+
+    const columns = splitWeekColumns(raw, targetMonth, weeks);
+    const extracted: WeekExtraction[] = [];
+
+    for (const [i, { week, date }] of sundays.entries()) {
+        const column = columns[i];
+        if (!column.entries.some((e) => Number(e.Amount) > 0)) {
+            console.log(`[MultiWeekExtractor] ${targetMonth} ${week} is blank, skipping`);
+            continue;
+        }
+        const dateString = formatDateDDMMMYYYY(date);
+        extracted.push({
+            week,
+            date,
+            dateString,
+            result: await buildTitheExtractionResult(column, imageFile, targetMonth, dateString, options),
+        });
+    }
+
+    // Every Sunday of the month was read from the page, blank ones as 0
+    const reference = extracted[0]?.result.entries;
+    const totalDiscrepancies = reference
+        ? reconcileMonthTotals(
+            (raw.entries || []).map((row, i) => ({
+                memberNo: Number(reference[i]["No."]),
+                membershipNumber: reference[i]["Membership Number"],
+                monthTotal: cleanOCRAmount(row.monthTotal),
+                weekAmounts: extracted.map((w) => Number(w.result.entries[i]["Transaction Amount"]) || 0),
+            })),
+            sundays.map((s) => formatDateDDMMMYYYY(s.date)),
+            options.transactionLogs,
+            options.assemblyName
+        )
+        : [];
+
+    return {
+        isValidTitheBook: raw.isValidTitheBook ?? true,
+        detectedYear: raw.detectedYear || null,
+        pageNumber: raw.pageNumber || null,
+        weeks: extracted,
+        totalDiscrepancies: totalDiscrepancies.length > 0 ? totalDiscrepancies : undefined,
+    };
+};
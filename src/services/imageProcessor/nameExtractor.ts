@@ -3,13 +3,13 @@
  * Extracts names from tithe book NAME column and matches them to member database
  * Uses Hungarian algorithm for optimal 1-to-1 matching (no duplicates)
  */
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { MemberRecordA } from "../../types";
 import { cleanOCRName } from "../imageValidator";
-import { MODEL_NAME, fileToGenerativePart } from "./core";
 import { NAME_EXTRACTION_SCHEMA } from "./schemas";
-import { findOptimalMatches, ExtractedNameInput } from "./matching";
+import { ExtractedNameInput } from "./matching";
+import { getExtractionPool } from "@/workers";
 import { NameExtractionResult, NameMatchResult } from "./types";
+import type { VisionProvider } from "./visionProvider";
 
 /**
  * Extract names from tithe book NAME column image and match to database
@@ -17,17 +17,11 @@ import { NameExtractionResult, NameMatchResult } from "./types";
  */
 export const extractNamesFromTitheBook = async (
     imageFile: File,
-    apiKey: string,
+    provider: VisionProvider,
     memberDatabase: MemberRecordA[],
     memberOrderMap?: Map<string, number>, // Optional: for positional hints
     aliasMap?: Map<string, string>        // Optional: learned name mappings
 ): Promise<NameExtractionResult> => {
-    if (!apiKey) throw new Error("API Key is missing");
-
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-    const imageParts = await fileToGenerativePart(imageFile);
-
     const prompt = `
     You are an expert at reading handwritten documents from The Apostolic Church Ghana.
 
@@ -44,17 +38,13 @@ export const extractNamesFromTitheBook = async (
     `;
 
     try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: prompt }, imageParts] }],
-            generationConfig: {
-                responseMimeType: "application/json",
-                responseSchema: NAME_EXTRACTION_SCHEMA,
-            },
+        const parsed = await provider.generateJson<{ names: Array<{ "No.": number; "Name": string }> }>({
+            task: 'nameExtraction',
+            prompt,
+            image: imageFile,
+            schema: NAME_EXTRACTION_SCHEMA,
         });
 
-        const jsonString = result.response.text().trim();
-        const parsed: { names: Array<{ "No.": number; "Name": string }> } = JSON.parse(jsonString);
-
         // Prepare extracted names for optimal matching
         const extractedNames: ExtractedNameInput[] = parsed.names.map((item, index) => ({
             name: cleanOCRName(item.Name),
@@ -63,12 +53,12 @@ export const extractNamesFromTitheBook = async (
 
         // Use Hungarian algorithm for globally optimal 1-to-1 matching
         // This prevents the same member from being matched to multiple extracted names
-        const optimalResults = findOptimalMatches(
-            extractedNames,
-            memberDatabase,
+        const optimalResults = await getExtractionPool().run('matchNames', {
+            names: extractedNames,
+            members: memberDatabase,
             memberOrderMap,
             aliasMap
-        );
+        });
 
         // Convert to NameMatchResult format
         const matches: NameMatchResult[] = optimalResults.map(result => ({
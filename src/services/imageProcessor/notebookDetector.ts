@@ -15,15 +15,9 @@
  * - Structured grid with month headers
  * - Week columns (1st, 2nd, 3rd, 4th, 5th, TOTAL)
  */
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import {
-    MODEL_NAME,
-    fileToGenerativePart,
-    checkGeminiRateLimit,
-    recordGeminiCall
-} from "./core";
 import { NOTEBOOK_DETECTION_SCHEMA } from "./notebookSchemas";
 import type { NotebookDetectionResult, NotebookDetectionSignals } from "./types";
+import type { VisionProvider } from "./visionProvider";
 
 // ============================================================================
 // DETECTION PROMPT
@@ -71,37 +65,23 @@ Analyze the image and classify it.
  * Detect if an image is a notebook format vs official tithe book
  *
  * @param imageFile - The image file to analyze
- * @param apiKey - Gemini API key
+ * @param provider - Vision provider that reads the image
  * @returns Detection result with confidence and signals
  */
 export async function detectNotebookFormat(
     imageFile: File,
-    apiKey: string
+    provider: VisionProvider
 ): Promise<NotebookDetectionResult> {
-    if (!apiKey) throw new Error("API Key is missing");
-
-    // Check rate limit before making API call
-    checkGeminiRateLimit();
-
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-    const imageParts = await fileToGenerativePart(imageFile);
-
-    // Record API call for rate limiting
-    recordGeminiCall();
-
     try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: DETECTION_PROMPT }, imageParts] }],
-            generationConfig: {
-                responseMimeType: "application/json",
-                responseSchema: NOTEBOOK_DETECTION_SCHEMA,
-            },
+        const detection = await provider.generateJson<
+            Partial<Omit<NotebookDetectionResult, 'signals'>> & { signals?: Partial<NotebookDetectionSignals> }
+        >({
+            task: 'notebookDetection',
+            prompt: DETECTION_PROMPT,
+            image: imageFile,
+            schema: NOTEBOOK_DETECTION_SCHEMA,
         });
 
-        const jsonString = result.response.text().trim();
-        const detection = JSON.parse(jsonString);
-
         // Ensure all signals have boolean values (handle undefined from AI)
         const signals: NotebookDetectionSignals = {
             hasStructuredGrid: detection.signals?.hasStructuredGrid ?? false,
@@ -8,19 +8,14 @@
  * - Handles ".w" → "00" notation
  * - Simple Name-Amount pair extraction
  */
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { TitheRecordB, MemberRecordA } from "../../types";
 import { cleanNotebookAmount } from "@/utils/stringUtils";
 import { cleanOCRName } from "../imageValidator";
-import {
-    MODEL_NAME,
-    fileToGenerativePart,
-    checkGeminiRateLimit,
-    recordGeminiCall
-} from "./core";
 import { NOTEBOOK_EXTRACTION_SCHEMA } from "./notebookSchemas";
 import type { NotebookExtractionResult, NotebookRawEntry } from "./types";
-import { findOptimalMatches, OptimalMatchResult } from "./matching";
+import { OptimalMatchResult } from "./matching";
+import { getExtractionPool } from "@/workers";
+import type { VisionProvider } from "./visionProvider";
 
 // ============================================================================
 // COMMON TITHE AMOUNTS (for confidence calculation)
@@ -112,43 +107,33 @@ function calculateNotebookConfidence(
  * Extract tithe records from a notebook image
  *
  * @param imageFile - The notebook image file
- * @param apiKey - Gemini API key
+ * @param provider - Vision provider that reads the image
  * @param targetDateString - Target date for the tithe records
  * @returns Extraction result with entries
  */
 export async function processNotebookImage(
     imageFile: File,
-    apiKey: string,
+    provider: VisionProvider,
     targetDateString: string,
     memberDatabase?: MemberRecordA[],
     aliasMap?: Map<string, string>,
     memberOrderMap?: Map<string, number>
 ): Promise<NotebookExtractionResult> {
-    if (!apiKey) throw new Error("API Key is missing");
     if (!targetDateString) throw new Error("Target date is required");
 
-    // Check rate limit before making API call
-    checkGeminiRateLimit();
-
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-    const imageParts = await fileToGenerativePart(imageFile);
-
-    // Record API call for rate limiting
-    recordGeminiCall();
-
     try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: EXTRACTION_PROMPT }, imageParts] }],
-            generationConfig: {
-                responseMimeType: "application/json",
-                responseSchema: NOTEBOOK_EXTRACTION_SCHEMA,
-            },
+        const extraction = await provider.generateJson<{
+            isValidNotebook?: boolean;
+            detectedDate?: string;
+            attendance?: number;
+            entries?: NotebookRawEntry[];
+        }>({
+            task: 'notebookExtraction',
+            prompt: EXTRACTION_PROMPT,
+            image: imageFile,
+            schema: NOTEBOOK_EXTRACTION_SCHEMA,
         });
 
-        const jsonString = result.response.text().trim();
-        const extraction = JSON.parse(jsonString);
-
         // Log extraction summary
         console.log(`[NotebookExtractor] Valid: ${extraction.isValidNotebook}, Entries: ${extraction.entries?.length || 0}`);
 
@@ -163,12 +148,12 @@ export async function processNotebookImage(
         let matchedResults: OptimalMatchResult[] = [];
         if (memberDatabase && memberDatabase.length > 0) {
             console.log(`[NotebookExtractor] Running optimal matching against ${memberDatabase.length} members...`);
-            matchedResults = findOptimalMatches(
-                extractedNamesInput,
-                memberDatabase,
+            matchedResults = await getExtractionPool().run('matchNames', {
+                names: extractedNamesInput,
+                members: memberDatabase,
                 memberOrderMap,
                 aliasMap
-            );
+            });
         }
 
         // Store raw entries for debugging
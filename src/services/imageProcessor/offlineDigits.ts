@@ -0,0 +1,219 @@
+/**
+ * Offline Digit Reading
+ * Splits a binarized amount cell into glyphs, scales each to the 28×28
+ * input of the digit recognizer and assembles the recognized amount.
+ * The recognizer itself is injected so this stays pure and testable.
+ */
+import { cropMask, InkMask } from "./offlineGrid";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Glyph {
+    /** Bounding box within the cell */
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    mask: InkMask;
+}
+
+export interface DigitPrediction {
+    digit: number;
+    confidence: number;
+}
+
+/** Classifies 28×28 glyph images (values 0-1, ink = 1), one prediction each */
+export type DigitClassifier = (inputs: Float32Array[]) => Promise<DigitPrediction[]>;
+
+export interface CellReading {
+    /** Recognized characters, e.g. "50" or "12.5" */
+    text: string;
+    amount: number;
+    /** Lowest digit confidence; 1 for an empty cell */
+    confidence: number;
+    isEmpty: boolean;
+}
+
+/** Glyph images with the digit each one shows, for training the recognizer */
+export interface DigitTrainingSet {
+    inputs: Float32Array[];
+    labels: number[];
+}
+
+/** Side of the square recognizer input */
+export const DIGIT_INPUT_SIZE = 28;
+
+/** Digits are scaled into this box and centred, as in MNIST */
+const DIGIT_BOX_SIZE = 20;
+
+/** Share of the cell trimmed from each edge to drop ruling remnants */
+const CELL_INSET = 0.12;
+
+/** Connected ink smaller than this is a speck, not a glyph */
+const MIN_GLYPH_INK = 4;
+
+// ============================================================================
+// SEGMENTATION
+// ============================================================================
+
+/**
+ * Trims the cell edges so ruled lines do not read as a "1"
+ */
+export const trimCell = (cell: InkMask, inset: number = CELL_INSET): InkMask => {
+    const dx = Math.max(1, Math.round(cell.width * inset));
+    const dy = Math.max(1, Math.round(cell.height * inset));
+    return cropMask(cell, dx, dy, cell.width - dx, cell.height - dy);
+};
+
+/**
+ * Glyphs left to right, split on blank pixel columns
+ */
+export const segmentGlyphs = (cell: InkMask): Glyph[] => {
+    const columnInk = new Array<number>(cell.width).fill(0);
+    for (let y = 0; y < cell.height; y++) {
+        for (let x = 0; x < cell.width; x++) {
+            columnInk[x] += cell.data[y * cell.width + x];
+        }
+    }
+
+    const spans: Array<[number, number]> = [];
+    let start = -1;
+    columnInk.forEach((ink, x) => {
+        if (ink > 0 && start === -1) start = x;
+        if (ink === 0 && start !== -1) {
+            spans.push([start, x]);
+            start = -1;
+        }
+    });
+    if (start !== -1) spans.push([start, cell.width]);
+
+    const glyphs: Glyph[] = [];
+    for (const [left, right] of spans) {
+        let top = cell.height;
+        let bottom = -1;
+        let ink = 0;
+        for (let y = 0; y < cell.height; y++) {
+            for (let x = left; x < right; x++) {
+                if (cell.data[y * cell.width + x]) {
+                    ink++;
+                    top = Math.min(top, y);
+                    bottom = Math.max(bottom, y);
+                }
+            }
+        }
+        if (ink < MIN_GLYPH_INK) continue;
+
+        glyphs.push({
+            left,
+            top,
+            width: right - left,
+            height: bottom - top + 1,
+            mask: cropMask(cell, left, top, right, bottom + 1),
+        });
+    }
+    return glyphs;
+};
+
+/**
+ * Scales a glyph into a 20×20 box centred on a 28×28 canvas, averaging
+ * the source pixels that fall under each target pixel
+ */
+export const normalizeGlyph = (glyph: Glyph): Float32Array => {
+    const output = new Float32Array(DIGIT_INPUT_SIZE * DIGIT_INPUT_SIZE);
+    const { mask } = glyph;
+    const scale = DIGIT_BOX_SIZE / Math.max(mask.width, mask.height);
+    const targetWidth = Math.max(1, Math.round(mask.width * scale));
+    const targetHeight = Math.max(1, Math.round(mask.height * scale));
+    const offsetX = Math.floor((DIGIT_INPUT_SIZE - targetWidth) / 2);
+    const offsetY = Math.floor((DIGIT_INPUT_SIZE - targetHeight) / 2);
+
+    for (let ty = 0; ty < targetHeight; ty++) {
+        const sy0 = Math.floor(ty / scale);
+        const sy1 = Math.max(sy0 + 1, Math.min(mask.height, Math.floor((ty + 1) / scale)));
+        for (let tx = 0; tx < targetWidth; tx++) {
+            const sx0 = Math.floor(tx / scale);
+            const sx1 = Math.max(sx0 + 1, Math.min(mask.width, Math.floor((tx + 1) / scale)));
+
+            let ink = 0;
+            for (let sy = sy0; sy < sy1; sy++) {
+                for (let sx = sx0; sx < sx1; sx++) {
+                    ink += mask.data[sy * mask.width + sx];
+                }
+            }
+            output[(offsetY + ty) * DIGIT_INPUT_SIZE + offsetX + tx] = ink / ((sy1 - sy0) * (sx1 - sx0));
+        }
+    }
+    return output;
+};
+
+// ============================================================================
+// CELL READING
+// ============================================================================
+
+/**
+ * A small blob low in the cell, next to full-height digits, is a decimal point
+ */
+const decimalPointTest = (glyphs: Glyph[], cellHeight: number) => {
+    const tallest = Math.max(...glyphs.map((g) => g.height));
+    return (g: Glyph) => g.height * 3 <= tallest && g.width * 3 <= tallest && g.top + g.height > cellHeight * 0.4;
+};
+
+/**
+ * Reads the amount written in one cell. A lone dash (the book's "nothing
+ * paid" mark) reads as empty; a small blob low in the cell is a decimal point.
+ */
+export const readCell = async (cell: InkMask, classify: DigitClassifier): Promise<CellReading> => {
+    const trimmed = trimCell(cell);
+    const glyphs = segmentGlyphs(trimmed);
+    const empty: CellReading = { text: '', amount: 0, confidence: 1, isEmpty: true };
+    if (glyphs.length === 0) return empty;
+
+    if (glyphs.length === 1 && glyphs[0].height * 3 < glyphs[0].width) return empty;
+
+    const isPoint = decimalPointTest(glyphs, trimmed.height);
+    const digitGlyphs = glyphs.filter((g) => !isPoint(g));
+    if (digitGlyphs.length === 0) return empty;
+
+    const predictions = await classify(digitGlyphs.map(normalizeGlyph));
+
+    let text = '';
+    let digitIndex = 0;
+    for (const glyph of glyphs) {
+        if (!isPoint(glyph)) {
+            text += String(predictions[digitIndex++].digit);
+        } else if (text && !text.includes('.')) {
+            text += '.';
+        }
+    }
+    text = text.replace(/\.$/, '');
+
+    return {
+        text,
+        amount: parseFloat(text) || 0,
+        confidence: Math.min(...predictions.map((p) => p.confidence)),
+        isEmpty: false,
+    };
+};
+
+/**
+ * Pairs the glyphs of a verified cell with the digits of its amount, using
+ * the same trimming and segmentation as readCell. Returns null when the
+ * glyph count does not match (touching digits, stray marks), since a
+ * mislabelled sample would teach the recognizer the wrong shape.
+ */
+export const labelCellGlyphs = (cell: InkMask, amount: number): DigitTrainingSet | null => {
+    const digits = String(amount).replace('.', '').split('').map(Number);
+    if (amount <= 0 || digits.some((d) => Number.isNaN(d))) return null;
+
+    const trimmed = trimCell(cell);
+    const glyphs = segmentGlyphs(trimmed);
+    if (glyphs.length === 0) return null;
+
+    const isPoint = decimalPointTest(glyphs, trimmed.height);
+    const digitGlyphs = glyphs.filter((g) => !isPoint(g));
+    if (digitGlyphs.length !== digits.length) return null;
+
+    return { inputs: digitGlyphs.map(normalizeGlyph), labels: digits };
+};
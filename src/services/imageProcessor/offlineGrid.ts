@@ -0,0 +1,271 @@
+/**
+ * Offline Grid Detection
+ * Finds the ruled grid of a tithe book page from raw pixels, without any
+ * model, so the on-device pipeline knows which cells to read.
+ *
+ * Layout (see templates.ts and validateMonthOnPage):
+ * - ODD pages: NO, NAME, then January → May (5 × [1st..5th, TOTAL])
+ * - EVEN pages: June → December (7 × [1st..5th, TOTAL])
+ * - The last 31 rows of the grid are one SET of members
+ *
+ * Columns are counted from the right edge, since the rightmost column is
+ * always a TOTAL column even when the photo cuts off the left margin.
+ */
+import { MONTHS, MEMBERS_PER_SET, getWeekColumnOffset } from "./core";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** RGBA pixels, row-major (same layout as ImageData) */
+export interface RasterImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+/** One byte per pixel, 1 = ink */
+export interface InkMask {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+/** Pixel span between two ruled lines */
+export interface Band {
+    start: number;
+    end: number;
+}
+
+export interface TitheGridLayout {
+    pageSide: 'odd' | 'even';
+    /** The 31 member rows, top to bottom */
+    rows: Band[];
+    /** Column of the target week */
+    amountColumn: Band;
+    /** The NO. column; only on odd pages */
+    numberColumn: Band | null;
+    /** The NAME column, right of NO.; only on odd pages */
+    nameColumn: Band | null;
+}
+
+/** Columns per month: 1st-5th week plus TOTAL */
+const COLUMNS_PER_MONTH = 6;
+
+/** Share of a row/column that must be ink to count as a ruled line */
+const LINE_COVERAGE = 0.5;
+
+/** A run must span this fraction of the page (1/n) to be part of a ruling */
+const RUN_FRACTION = 30;
+
+/** Bands thinner than this are double rulings, not cells */
+const MIN_BAND_SIZE = 4;
+
+// ============================================================================
+// BINARIZATION
+// ============================================================================
+
+/**
+ * Luminance of every pixel (0 = black, 255 = white)
+ */
+export const toGrayscale = (image: RasterImage): Uint8Array => {
+    const gray = new Uint8Array(image.width * image.height);
+    for (let i = 0; i < gray.length; i++) {
+        const o = i * 4;
+        gray[i] = Math.round(0.299 * image.data[o] + 0.587 * image.data[o + 1] + 0.114 * image.data[o + 2]);
+    }
+    return gray;
+};
+
+/**
+ * Otsu's threshold: the gray level that best separates ink from paper
+ */
+export const otsuThreshold = (gray: Uint8Array): number => {
+    const histogram = new Array<number>(256).fill(0);
+    gray.forEach((value) => histogram[value]++);
+
+    const total = gray.length;
+    let sumAll = 0;
+    for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+    let sumBackground = 0;
+    let weightBackground = 0;
+    let bestVariance = -1;
+    let threshold = 127;
+
+    for (let i = 0; i < 256; i++) {
+        weightBackground += histogram[i];
+        if (weightBackground === 0) continue;
+        const weightForeground = total - weightBackground;
+        if (weightForeground === 0) break;
+
+        sumBackground += i * histogram[i];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sumAll - sumBackground) / weightForeground;
+        const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            threshold = i;
+        }
+    }
+    return threshold;
+};
+
+/**
+ * Marks every pixel at or below the Otsu threshold as ink
+ */
+export const binarizeImage = (image: RasterImage): InkMask => {
+    const gray = toGrayscale(image);
+    const threshold = otsuThreshold(gray);
+    const data = new Uint8Array(gray.length);
+    for (let i = 0; i < gray.length; i++) {
+        data[i] = gray[i] <= threshold ? 1 : 0;
+    }
+    return { width: image.width, height: image.height, data };
+};
+
+/**
+ * Copies a rectangle of the mask; coordinates are clamped to the image
+ */
+export const cropMask = (mask: InkMask, x0: number, y0: number, x1: number, y1: number): InkMask => {
+    const left = Math.max(0, Math.min(mask.width, Math.round(x0)));
+    const right = Math.max(left, Math.min(mask.width, Math.round(x1)));
+    const top = Math.max(0, Math.min(mask.height, Math.round(y0)));
+    const bottom = Math.max(top, Math.min(mask.height, Math.round(y1)));
+
+    const width = right - left;
+    const height = bottom - top;
+    const data = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const from = (top + y) * mask.width + left;
+        data.set(mask.data.subarray(from, from + width), y * width);
+    }
+    return { width, height, data };
+};
+
+// ============================================================================
+// LINE DETECTION
+// ============================================================================
+
+/**
+ * Centres of ruled lines in a projection profile. Adjacent lines a pixel
+ * or two apart (thick or slightly skewed rulings) merge into one.
+ */
+export const findRuledLines = (profile: number[], span: number, minCoverage: number = LINE_COVERAGE): number[] => {
+    const lines: number[] = [];
+    const minInk = span * minCoverage;
+    let runStart = -1;
+    let runEnd = -1;
+
+    profile.forEach((ink, i) => {
+        if (ink < minInk) return;
+        if (runStart !== -1 && i - runEnd <= 2) {
+            runEnd = i;
+            return;
+        }
+        if (runStart !== -1) lines.push(Math.round((runStart + runEnd) / 2));
+        runStart = i;
+        runEnd = i;
+    });
+    if (runStart !== -1) lines.push(Math.round((runStart + runEnd) / 2));
+
+    return lines;
+};
+
+/**
+ * Horizontal and vertical ruled lines of the page. Only ink in straight
+ * runs longer than a cell counts, so handwriting stacked down a column
+ * (row numbers, repeated amounts) never looks like a ruling.
+ */
+export const detectGridLines = (mask: InkMask): { horizontal: number[]; vertical: number[] } => {
+    const rowInk = new Array<number>(mask.height).fill(0);
+    const columnInk = new Array<number>(mask.width).fill(0);
+    const minRowRun = Math.max(2, Math.round(mask.width / RUN_FRACTION));
+    const minColumnRun = Math.max(2, Math.round(mask.height / RUN_FRACTION));
+
+    for (let y = 0; y < mask.height; y++) {
+        let run = 0;
+        for (let x = 0; x <= mask.width; x++) {
+            if (x < mask.width && mask.data[y * mask.width + x]) {
+                run++;
+            } else {
+                if (run >= minRowRun) rowInk[y] += run;
+                run = 0;
+            }
+        }
+    }
+
+    for (let x = 0; x < mask.width; x++) {
+        let run = 0;
+        for (let y = 0; y <= mask.height; y++) {
+            if (y < mask.height && mask.data[y * mask.width + x]) {
+                run++;
+            } else {
+                if (run >= minColumnRun) columnInk[x] += run;
+                run = 0;
+            }
+        }
+    }
+
+    return {
+        horizontal: findRuledLines(rowInk, mask.width),
+        vertical: findRuledLines(columnInk, mask.height),
+    };
+};
+
+/**
+ * Spans between consecutive lines, dropping slivers between double rulings
+ */
+export const linesToBands = (lines: number[], minSize: number = MIN_BAND_SIZE): Band[] => {
+    const bands: Band[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        if (lines[i] - lines[i - 1] >= minSize) {
+            bands.push({ start: lines[i - 1], end: lines[i] });
+        }
+    }
+    return bands;
+};
+
+// ============================================================================
+// TITHE BOOK LAYOUT
+// ============================================================================
+
+/**
+ * Locates the member rows and the target week column on a tithe book page
+ *
+ * @throws Error when the grid cannot be found or the week column is not in the photo
+ */
+export const locateTitheGrid = (mask: InkMask, targetMonth: string, targetWeek: string): TitheGridLayout => {
+    const monthIndex = MONTHS.indexOf(targetMonth.toUpperCase());
+    if (monthIndex === -1) throw new Error(`Unknown month "${targetMonth}"`);
+    const weekOffset = getWeekColumnOffset(targetWeek);
+    if (!weekOffset) throw new Error(`Unknown week "${targetWeek}"`);
+
+    const { horizontal, vertical } = detectGridLines(mask);
+    const rowBands = linesToBands(horizontal);
+    const columnBands = linesToBands(vertical);
+
+    if (rowBands.length < MEMBERS_PER_SET || columnBands.length < COLUMNS_PER_MONTH) {
+        throw new Error("Could not find the tithe book grid. Photograph the page flat and fill the frame with it.");
+    }
+
+    const pageSide = monthIndex <= 4 ? 'odd' : 'even';
+    const lastMonthOnPage = pageSide === 'odd' ? 4 : 11;
+    const columnsFromRight = (lastMonthOnPage - monthIndex) * COLUMNS_PER_MONTH + weekOffset;
+    const columnIndex = columnBands.length - 1 - columnsFromRight;
+    if (columnIndex < 0) {
+        throw new Error(`The ${targetMonth} ${targetWeek} column is not in this photo.`);
+    }
+
+    // NO. sits just left of NAME and January on odd pages
+    const numberColumnIndex = columnBands.length - 2 - 5 * COLUMNS_PER_MONTH;
+    const hasNameColumns = pageSide === 'odd' && numberColumnIndex >= 0;
+
+    return {
+        pageSide,
+        rows: rowBands.slice(-MEMBERS_PER_SET),
+        amountColumn: columnBands[columnIndex],
+        numberColumn: hasNameColumns ? columnBands[numberColumnIndex] : null,
+        nameColumn: hasNameColumns ? columnBands[numberColumnIndex + 1] : null,
+    };
+};
@@ -0,0 +1,241 @@
+/// <reference types="vitest/globals" />
+/**
+ * offlineVisionProvider.test.ts
+ * Tests for on-device grid detection, digit reading and the offline provider
+ *
+ * Pages are drawn in memory. "Digits" are solid bars whose width encodes
+ * the digit (width = digit + 1), read back by a fake classifier, so the
+ * pipeline is tested without training the TensorFlow.js model.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { binarizeImage, cropMask, locateTitheGrid, RasterImage } from './offlineGrid';
+import { DIGIT_INPUT_SIZE, DigitClassifier, readCell } from './offlineDigits';
+import { createOfflineVisionProvider, detectInkColor } from './offlineVisionProvider';
+import { processTitheImageWithValidation } from './titheExtractor';
+import { MemberRecordA } from '@/types';
+
+const CELL = 30;
+const MARGIN = 10;
+const HEADER_ROWS = 3;
+const ODD_PAGE_COLUMNS = 32;
+
+type Rgb = [number, number, number];
+
+const createPage = (columns: number, rows: number): RasterImage => {
+    const width = columns * CELL + MARGIN * 2;
+    const height = rows * CELL + MARGIN * 2;
+    const page = { width, height, data: new Uint8ClampedArray(width * height * 4).fill(255) };
+
+    for (let r = 0; r <= rows; r++) fillRect(page, MARGIN, MARGIN + r * CELL, columns * CELL + 1, 1);
+    for (let c = 0; c <= columns; c++) fillRect(page, MARGIN + c * CELL, MARGIN, 1, rows * CELL + 1);
+    return page;
+};
+
+const fillRect = (page: RasterImage, x: number, y: number, w: number, h: number, color: Rgb = [0, 0, 0]) => {
+    for (let yy = y; yy < y + h; yy++) {
+        for (let xx = x; xx < x + w; xx++) {
+            page.data.set(color, (yy * page.width + xx) * 4);
+        }
+    }
+};
+
+/** Writes text into a cell: digits as bars of width digit + 1, "." as a low dot, "-" as a dash */
+const writeCell = (page: RasterImage, column: number, row: number, text: string, color?: Rgb) => {
+    let x = MARGIN + column * CELL + 6;
+    const top = MARGIN + row * CELL + 5;
+    for (const char of text) {
+        if (char === '.') {
+            fillRect(page, x, top + 17, 3, 3, color);
+            x += 6;
+        } else if (char === '-') {
+            fillRect(page, x, top + 10, 14, 2, color);
+            x += 17;
+        } else {
+            fillRect(page, x, top, Number(char) + 1, 20, color);
+            x += Number(char) + 4;
+        }
+    }
+};
+
+/** Reads the bar width back as the digit */
+const barClassifier: DigitClassifier = async (inputs) =>
+    inputs.map((input) => {
+        let columns = 0;
+        for (let x = 0; x < DIGIT_INPUT_SIZE; x++) {
+            for (let y = 0; y < DIGIT_INPUT_SIZE; y++) {
+                if (input[y * DIGIT_INPUT_SIZE + x] > 0.5) {
+                    columns++;
+                    break;
+                }
+            }
+        }
+        return { digit: columns - 1, confidence: 0.95 };
+    });
+
+const cellMask = (page: RasterImage, column: number, row: number) =>
+    cropMask(
+        binarizeImage(page),
+        MARGIN + column * CELL,
+        MARGIN + row * CELL,
+        MARGIN + (column + 1) * CELL,
+        MARGIN + (row + 1) * CELL
+    );
+
+describe('locateTitheGrid', () => {
+    const mask = binarizeImage(createPage(ODD_PAGE_COLUMNS, HEADER_ROWS + 31));
+
+    it('finds the 31 member rows, the week column and NO. on an odd page', () => {
+        const layout = locateTitheGrid(mask, 'January', 'Week 1');
+
+        expect(layout.pageSide).toBe('odd');
+        expect(layout.rows).toHaveLength(31);
+        expect(layout.rows[0].start).toBe(MARGIN + HEADER_ROWS * CELL);
+        expect(layout.amountColumn.start).toBe(MARGIN + 2 * CELL);
+        expect(layout.numberColumn?.start).toBe(MARGIN);
+        expect(layout.nameColumn?.start).toBe(MARGIN + CELL);
+    });
+
+    it('counts week columns back from the TOTAL column', () => {
+        expect(locateTitheGrid(mask, 'MAY', '5th').amountColumn.start).toBe(MARGIN + 30 * CELL);
+        expect(locateTitheGrid(mask, 'March', 'Week 3').amountColumn.start).toBe(MARGIN + 16 * CELL);
+    });
+
+    it('rejects months that are not in the photo and pages without a grid', () => {
+        expect(() => locateTitheGrid(mask, 'June', 'Week 1')).toThrow('not in this photo');
+        expect(() => locateTitheGrid(binarizeImage(createPage(6, 10)), 'May', 'Week 1')).toThrow(
+            'Could not find the tithe book grid'
+        );
+    });
+});
+
+describe('readCell', () => {
+    it('reads digits and a decimal point in order', async () => {
+        const page = createPage(3, 3);
+        writeCell(page, 0, 0, '50');
+        writeCell(page, 1, 0, '2.5');
+
+        await expect(readCell(cellMask(page, 0, 0), barClassifier)).resolves.toMatchObject({
+            text: '50',
+            amount: 50,
+            confidence: 0.95,
+            isEmpty: false,
+        });
+        await expect(readCell(cellMask(page, 1, 0), barClassifier)).resolves.toMatchObject({ text: '2.5', amount: 2.5 });
+    });
+
+    it('treats blank cells and a lone dash as nothing paid', async () => {
+        const page = createPage(3, 3);
+        writeCell(page, 1, 1, '-');
+
+        await expect(readCell(cellMask(page, 0, 1), barClassifier)).resolves.toMatchObject({ isEmpty: true, amount: 0 });
+        await expect(readCell(cellMask(page, 1, 1), barClassifier)).resolves.toMatchObject({ isEmpty: true, amount: 0 });
+    });
+});
+
+/** Ink mask from the green channel, so red ink counts as ink */
+const toInk = (page: RasterImage) => {
+    const data = new Uint8Array(page.width * page.height);
+    for (let i = 0; i < data.length; i++) data[i] = page.data[i * 4 + 1] < 128 ? 1 : 0;
+    return data;
+};
+
+describe('detectInkColor', () => {
+    it('tells red ink from black', () => {
+        const page = createPage(2, 1);
+        writeCell(page, 0, 0, '5', [220, 20, 20]);
+        writeCell(page, 1, 0, '5');
+        const mask = { width: page.width, height: page.height, data: toInk(page) };
+        const row = { start: MARGIN, end: MARGIN + CELL };
+
+        expect(detectInkColor(page, mask, { start: MARGIN, end: MARGIN + CELL }, row)).toBe('red');
+        expect(detectInkColor(page, mask, { start: MARGIN + CELL, end: MARGIN + 2 * CELL }, row)).toBe('black');
+    });
+});
+
+describe('createOfflineVisionProvider', () => {
+    /** Odd page of SET 2 (members 32-62) with amounts for January, 1st week */
+    const drawSetTwoPage = () => {
+        const page = createPage(ODD_PAGE_COLUMNS, HEADER_ROWS + 31);
+        for (let i = 0; i < 31; i++) writeCell(page, 0, HEADER_ROWS + i, String(32 + i));
+        writeCell(page, 2, HEADER_ROWS, '50');
+        writeCell(page, 2, HEADER_ROWS + 2, '100');
+        writeCell(page, 2, HEADER_ROWS + 3, '-');
+        return page;
+    };
+    const image = new File([new Uint8Array([1])], 'page.png', { type: 'image/png' });
+    const provider = createOfflineVisionProvider({
+        classify: barClassifier,
+        decodeImage: async () => drawSetTwoPage(),
+    });
+
+    it('reads the week column and places the page from the NO. column', async () => {
+        const result = await provider.generateJson<{
+            pageNumber?: number;
+            entries: Array<{ 'No.': number; Name: string; Amount: number; cellCondition?: string }>;
+        }>({
+            task: 'titheExtraction',
+            prompt: '',
+            image,
+            context: { targetMonth: 'January', targetWeek: 'Week 1' },
+        });
+
+        expect(result.pageNumber).toBe(3);
+        expect(result.entries).toHaveLength(31);
+        expect(result.entries.slice(0, 4).map((e) => [e['No.'], e.Name, e.Amount, e.cellCondition])).toEqual([
+            [32, '', 50, 'clean'],
+            [33, '', 0, 'empty'],
+            [34, '', 100, 'clean'],
+            [35, '', 0, 'empty'],
+        ]);
+    });
+
+    it('returns the cell boxes of every row for cropping', async () => {
+        const page = drawSetTwoPage();
+        const result = await provider.generateJson<{
+            entries: Array<{ nameBox?: { x: number; y: number }; amountBox?: { x: number; y: number; width: number } }>;
+        }>({
+            task: 'titheExtraction',
+            prompt: '',
+            image,
+            context: { targetMonth: 'January', targetWeek: 'Week 1' },
+        });
+
+        const [first] = result.entries;
+        expect(first.amountBox?.x).toBeCloseTo((MARGIN + 2 * CELL) / page.width, 2);
+        expect(first.amountBox?.y).toBeCloseTo((MARGIN + HEADER_ROWS * CELL) / page.height, 2);
+        expect(first.amountBox?.width).toBeCloseTo(CELL / page.width, 1);
+        expect(first.nameBox?.x).toBeCloseTo((MARGIN + CELL) / page.width, 2);
+    });
+
+    it('answers the tasks it cannot do without a model', async () => {
+        await expect(
+            provider.generateJson({ task: 'notebookDetection', prompt: '', image })
+        ).resolves.toMatchObject({ isNotebook: false, confidence: 0 });
+        await expect(provider.generateJson({ task: 'verification', prompt: '', image })).resolves.toEqual({
+            verifications: [],
+        });
+        await expect(provider.generateJson({ task: 'nameExtraction', prompt: '', image })).rejects.toThrow(
+            'cannot do nameExtraction'
+        );
+    });
+
+    it('fills members by book position in the tithe extractor', async () => {
+        const members: MemberRecordA[] = Array.from({ length: 62 }, (_, i) => ({
+            'No.': i + 1,
+            'First Name': `First${i + 1}`,
+            Surname: `Surname${i + 1}`,
+            'Membership Number': `TAC${String(i + 1).padStart(3, '0')}`,
+        }));
+
+        const result = await processTitheImageWithValidation(
+            image, provider, 'January', 'Week 1', '05-JAN-2025', undefined, 'auto', members
+        );
+
+        expect(result.isNotebookFormat).toBeUndefined();
+        expect(result.setInfo).toEqual({ setNumber: 2, memberRangeStart: 32, memberRangeEnd: 62 });
+        expect(result.entries[0]['Membership Number']).toBe('Surname32 First32 (TAC032)');
+        expect(result.entries[0]['Transaction Amount']).toBe(50);
+        expect(result.entries[2].memberDetails?.['Membership Number']).toBe('TAC034');
+    });
+});
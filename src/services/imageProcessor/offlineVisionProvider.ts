@@ -0,0 +1,207 @@
+/**
+ * Offline Vision Provider
+ * Reads tithe book pages entirely on the device: finds the ruled grid,
+ * crops the target week cell of each of the 31 rows and recognizes the
+ * handwritten digits with the local TensorFlow.js model.
+ *
+ * It cannot read names, so entries come back with a blank Name and the
+ * tithe extractor assigns members by book position instead. Cell boxes
+ * come straight from the grid, so every entry still gets its crops. Notebook
+ * pages and name lists still need a cloud or local model.
+ */
+import { MEMBERS_PER_SET } from "./core";
+import { binarizeImage, cropMask, InkMask, locateTitheGrid, RasterImage, Band } from "./offlineGrid";
+import { DigitClassifier, readCell } from "./offlineDigits";
+import { pixelBandsToCellBox } from "./cellCrops";
+import { decodeImageFile } from "./preprocessImage";
+import { getExtractionPool } from "@/workers";
+import type { EnhancedRawEntry, EnhancedRawExtraction, MultiWeekRawExtraction } from "./types";
+import type { VisionProvider, VisionRequest, VisionRequestContext } from "./visionProvider";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OfflineVisionOptions {
+    /** Digit recognizer; defaults to the on-device TensorFlow.js model in the worker pool */
+    classify?: DigitClassifier;
+    /** Turns the image file into pixels; defaults to a canvas decode */
+    decodeImage?: (file: File) => Promise<RasterImage>;
+}
+
+/** NO. column reads below this confidence are ignored when placing the SET */
+const ROW_NUMBER_CONFIDENCE = 0.8;
+
+// ============================================================================
+// INK COLOUR
+// ============================================================================
+
+/**
+ * Ink colour of a cell from the average colour of its ink pixels
+ */
+export const detectInkColor = (
+    image: RasterImage,
+    mask: InkMask,
+    column: Band,
+    row: Band
+): EnhancedRawEntry["inkColor"] => {
+    const insetX = Math.max(1, Math.round((column.end - column.start) * 0.12));
+    const insetY = Math.max(1, Math.round((row.end - row.start) * 0.12));
+    let r = 0, g = 0, b = 0, count = 0;
+
+    for (let y = row.start + insetY; y < row.end - insetY; y++) {
+        for (let x = column.start + insetX; x < column.end - insetX; x++) {
+            if (!mask.data[y * mask.width + x]) continue;
+            const o = (y * image.width + x) * 4;
+            r += image.data[o];
+            g += image.data[o + 1];
+            b += image.data[o + 2];
+            count++;
+        }
+    }
+    if (count === 0) return 'unknown';
+
+    r /= count; g /= count; b /= count;
+    if (r > g + 40 && r > b + 40) return 'red';
+    if (b > r + 30 && b > g + 10) return 'blue';
+    return 'black';
+};
+
+// ============================================================================
+// PAGE EXTRACTION
+// ============================================================================
+
+/**
+ * Reads the target week column of a tithe book page
+ *
+ * Row numbers come from the NO. column when it is legible: the most common
+ * (number - row) offset that lands on a SET boundary places the whole page,
+ * so a single misread digit cannot shift the rows.
+ */
+export const extractTithePageOffline = async (
+    image: RasterImage,
+    context: VisionRequestContext,
+    classify: DigitClassifier
+): Promise<EnhancedRawExtraction> => {
+    const mask = binarizeImage(image);
+    const layout = locateTitheGrid(mask, context.targetMonth, context.targetWeek);
+    const { amountColumn, numberColumn, nameColumn } = layout;
+
+    const offsetVotes = new Map<number, number>();
+    if (numberColumn) {
+        for (const [index, row] of layout.rows.entries()) {
+            const reading = await readCell(cropMask(mask, numberColumn.start, row.start, numberColumn.end, row.end), classify);
+            if (reading.isEmpty || reading.confidence < ROW_NUMBER_CONFIDENCE) continue;
+            const offset = reading.amount - (index + 1);
+            if (offset >= 0 && offset % MEMBERS_PER_SET === 0) {
+                offsetVotes.set(offset, (offsetVotes.get(offset) ?? 0) + 1);
+            }
+        }
+    }
+    const [rowOffset] = [...offsetVotes.entries()].sort((a, b) => b[1] - a[1])[0] ?? [0];
+
+    const entries: EnhancedRawEntry[] = [];
+    for (const [index, row] of layout.rows.entries()) {
+        const reading = await readCell(cropMask(mask, amountColumn.start, row.start, amountColumn.end, row.end), classify);
+        entries.push({
+            "No.": rowOffset + index + 1,
+            "Name": '',
+            "Amount": reading.amount,
+            "legibility": reading.isEmpty ? 5 : 1 + Math.round(reading.confidence * 4),
+            "rawAmountText": reading.text,
+            "inkColor": reading.isEmpty ? 'unknown' : detectInkColor(image, mask, amountColumn, row),
+            "cellCondition": reading.isEmpty ? 'empty' : 'clean',
+            "nameBox": nameColumn ? pixelBandsToCellBox(nameColumn, row, image.width, image.height) : undefined,
+            "amountBox": pixelBandsToCellBox(amountColumn, row, image.width, image.height),
+        });
+    }
+
+    const setNumber = rowOffset / MEMBERS_PER_SET + 1;
+    return {
+        isValidTitheBook: true,
+        // Only the left page carries NO., so only it can place the SET
+        pageNumber: offsetVotes.size > 0 ? setNumber * 2 - 1 : undefined,
+        targetColumnZone: {
+            columnHeader: context.targetWeek,
+            monthHeader: context.targetMonth.toUpperCase(),
+            relativePosition: 'Located from ruled grid lines',
+        },
+        entries,
+    };
+};
+
+/**
+ * Reads several week columns of the same page, one grid pass per week
+ */
+export const extractTitheWeeksOffline = async (
+    image: RasterImage,
+    targetMonth: string,
+    targetWeeks: string[],
+    classify: DigitClassifier
+): Promise<MultiWeekRawExtraction> => {
+    const columns: Array<{ week: number; page: EnhancedRawExtraction }> = [];
+    for (const targetWeek of targetWeeks) {
+        const week = Number(targetWeek.match(/\d+/)?.[0]);
+        columns.push({ week, page: await extractTithePageOffline(image, { targetMonth, targetWeek }, classify) });
+    }
+    const [first] = columns;
+    if (!first) return { isValidTitheBook: true, entries: [] };
+
+    return {
+        isValidTitheBook: true,
+        pageNumber: first.page.pageNumber,
+        entries: first.page.entries.map((row, index) => ({
+            "No.": row["No."],
+            "Name": row.Name,
+            "nameBox": row.nameBox,
+            "weeks": columns.map(({ week, page }) => {
+                const { Amount, legibility, rawAmountText, inkColor, cellCondition, amountBox } = page.entries[index];
+                return { week, Amount, legibility, rawAmountText, inkColor, cellCondition, amountBox };
+            }),
+        })),
+    };
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * On-device provider. Only tithe book extraction is supported; notebook
+ * detection always answers "tithe book" and verification keeps the first read.
+ */
+export const createOfflineVisionProvider = (options: OfflineVisionOptions = {}): VisionProvider => {
+    const decodeImage = options.decodeImage ?? decodeImageFile;
+    // Inference runs in the extraction worker pool unless a classifier is given
+    const classify: DigitClassifier = options.classify
+        ?? ((inputs) => getExtractionPool().run('classifyDigits', { inputs }));
+
+    return {
+        id: 'offline',
+        label: 'On-device (offline)',
+        async generateJson<T>({ task, image, context }: VisionRequest): Promise<T> {
+            switch (task) {
+                case 'titheExtraction': {
+                    if (!context) throw new Error("The offline reader needs the target month and week");
+                    const pixels = await decodeImage(image);
+                    return await extractTithePageOffline(pixels, context, classify) as T;
+                }
+                case 'multiWeekExtraction': {
+                    if (!context?.targetWeeks) throw new Error("The offline reader needs the target month and weeks");
+                    const pixels = await decodeImage(image);
+                    return await extractTitheWeeksOffline(pixels, context.targetMonth, context.targetWeeks, classify) as T;
+                }
+                case 'notebookDetection':
+                    return {
+                        isNotebook: false,
+                        confidence: 0,
+                        detectionReasons: ['Offline reader only supports the tithe book grid'],
+                    } as T;
+                case 'verification':
+                    return { verifications: [] } as T;
+                default:
+                    throw new Error(`The offline reader cannot do ${task}; switch to an AI vision provider in Settings`);
+            }
+        },
+    };
+};
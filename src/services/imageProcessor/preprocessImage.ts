@@ -0,0 +1,186 @@
+/**
+ * Photo Pre-processing (browser side)
+ * Decodes a photo onto a canvas, runs the pixel pipeline from
+ * preprocessing.ts and encodes the cleaned page back into a File, so every
+ * vision provider receives the improved image through fileToGenerativePart.
+ *
+ * Also keeps a small history of extraction quality with and without the
+ * clean-up, to show whether it actually lowers the low-confidence count.
+ */
+import type { RasterImage } from "./offlineGrid";
+import { preprocessRaster, PreprocessOptions } from "./preprocessing";
+import type { ImagePreprocessingPreview } from "./types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Photos are scaled down to this long side before processing */
+const MAX_IMAGE_SIDE = 2000;
+
+const METRICS_STORAGE_KEY = 'tactms-preprocessing-metrics';
+
+/** Extraction results kept for the impact summary */
+const MAX_METRICS = 200;
+
+// ============================================================================
+// CANVAS HELPERS
+// ============================================================================
+
+/**
+ * Decodes an image file into RGBA pixels, scaled to at most MAX_IMAGE_SIDE
+ */
+export const decodeImageFile = async (file: File): Promise<RasterImage> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas is not available to read the image");
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Encodes pixels as an image File (JPEG for photos, PNG for black and white)
+ */
+export const encodeRasterImage = async (image: RasterImage, name: string, type: string): Promise<File> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas is not available to save the image");
+    context.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.92));
+    if (!blob) throw new Error("Failed to encode the cleaned image");
+    const extension = type === 'image/png' ? 'png' : 'jpg';
+    return new File([blob], `${name.replace(/\.[^.]+$/, '')}-clean.${extension}`, { type });
+};
+
+// ============================================================================
+// PRE-PROCESSING
+// ============================================================================
+
+/**
+ * Cleans up a tithe book photo. Never throws: on failure the original is
+ * returned with `applied: false` and the error, so extraction still runs.
+ */
+export const preprocessTitheImage = async (
+    file: File,
+    options: PreprocessOptions = {}
+): Promise<ImagePreprocessingPreview> => {
+    const started = performance.now();
+    try {
+        const { image, report } = preprocessRaster(await decodeImageFile(file), options);
+        const processed = await encodeRasterImage(image, file.name, options.adaptiveThreshold ? 'image/png' : 'image/jpeg');
+        const durationMs = Math.round(performance.now() - started);
+        console.log(
+            `[Preprocess] ${file.name}: page ${report.pageDetected ? 'found' : 'not found'}, ` +
+            `skew ${report.skewAngle}°, contrast ${report.contrastBefore}→${report.contrastAfter} (${durationMs}ms)`
+        );
+        return { original: file, processed, report: { ...report, applied: true, durationMs } };
+    } catch (error) {
+        console.warn("[Preprocess] Skipped, using the original photo:", error);
+        return {
+            original: file,
+            processed: file,
+            report: {
+                applied: false,
+                pageDetected: false,
+                skewAngle: 0,
+                shadowsRemoved: false,
+                thresholded: false,
+                contrastBefore: 0,
+                contrastAfter: 0,
+                width: 0,
+                height: 0,
+                durationMs: Math.round(performance.now() - started),
+                error: error instanceof Error ? error.message : String(error),
+            },
+        };
+    }
+};
+
+// ============================================================================
+// IMPACT METRICS
+// ============================================================================
+
+export interface ExtractionQualityMetric {
+    timestamp: number;
+    preprocessed: boolean;
+    entries: number;
+    /** lowConfidenceCount of the first pass, before verification */
+    lowConfidence: number;
+}
+
+export interface ExtractionQualitySummary {
+    pages: number;
+    entries: number;
+    lowConfidence: number;
+    /** Share of entries with low confidence (0-1) */
+    lowConfidenceRate: number;
+}
+
+export interface PreprocessingImpact {
+    withPreprocessing: ExtractionQualitySummary;
+    withoutPreprocessing: ExtractionQualitySummary;
+    /** Drop in low-confidence rate (positive = clean-up helps); null until both have data */
+    improvement: number | null;
+}
+
+const loadMetrics = (): ExtractionQualityMetric[] => {
+    try {
+        const saved = localStorage.getItem(METRICS_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Records one extracted page (call after the first extraction pass)
+ */
+export const recordExtractionQuality = (metric: Omit<ExtractionQualityMetric, 'timestamp'>): void => {
+    if (metric.entries === 0) return;
+    const metrics = [...loadMetrics(), { ...metric, timestamp: Date.now() }].slice(-MAX_METRICS);
+    try {
+        localStorage.setItem(METRICS_STORAGE_KEY, JSON.stringify(metrics));
+    } catch {
+        // Storage full or unavailable
+    }
+};
+
+const summarize = (metrics: ExtractionQualityMetric[]): ExtractionQualitySummary => {
+    const entries = metrics.reduce((sum, m) => sum + m.entries, 0);
+    const lowConfidence = metrics.reduce((sum, m) => sum + m.lowConfidence, 0);
+    return {
+        pages: metrics.length,
+        entries,
+        lowConfidence,
+        lowConfidenceRate: entries > 0 ? lowConfidence / entries : 0,
+    };
+};
+
+/**
+ * Low-confidence rates of pages read with and without the clean-up
+ */
+export const getPreprocessingImpact = (): PreprocessingImpact => {
+    const metrics = loadMetrics();
+    const withPreprocessing = summarize(metrics.filter((m) => m.preprocessed));
+    const withoutPreprocessing = summarize(metrics.filter((m) => !m.preprocessed));
+    return {
+        withPreprocessing,
+        withoutPreprocessing,
+        improvement: withPreprocessing.pages > 0 && withoutPreprocessing.pages > 0
+            ? withoutPreprocessing.lowConfidenceRate - withPreprocessing.lowConfidenceRate
+            : null,
+    };
+};
+
+export const clearExtractionQuality = (): void => {
+    localStorage.removeItem(METRICS_STORAGE_KEY);
+};
@@ -0,0 +1,147 @@
+/// <reference types="vitest/globals" />
+/**
+ * preprocessing.test.ts
+ * Tests for photo clean-up: page detection, perspective, deskew,
+ * shadow removal, thresholding and the impact metrics
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RasterImage, toGrayscale } from './offlineGrid';
+import {
+    adaptiveThreshold,
+    applyHomography,
+    computeHomography,
+    deskewImage,
+    estimateSkewAngle,
+    findPageCorners,
+    preprocessRaster,
+    removeShadows,
+    warpPerspective,
+} from './preprocessing';
+import { getPreprocessingImpact, recordExtractionQuality } from './preprocessImage';
+
+const createImage = (width: number, height: number, shade: (x: number, y: number) => number): RasterImage => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const value = shade(x, y);
+            data.set([value, value, value, 255], (y * width + x) * 4);
+        }
+    }
+    return { width, height, data };
+};
+
+const grayAt = (image: RasterImage, x: number, y: number) => toGrayscale(image)[y * image.width + x];
+
+/** Ruled lines every 12px, tilted by `angle` degrees */
+const ruledPage = (angle: number) => {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    return createImage(240, 240, (x, y) => (Math.abs(((y - x * slope) % 12 + 12) % 12) < 1.5 ? 0 : 255));
+};
+
+describe('computeHomography', () => {
+    it('maps each source corner onto its target', () => {
+        const from = [{ x: 0, y: 0 }, { x: 99, y: 0 }, { x: 99, y: 49 }, { x: 0, y: 49 }];
+        const to = [{ x: 10, y: 5 }, { x: 120, y: 15 }, { x: 110, y: 80 }, { x: 5, y: 70 }];
+        const h = computeHomography(from, to);
+
+        from.forEach((point, i) => {
+            const mapped = applyHomography(h, point);
+            expect(mapped.x).toBeCloseTo(to[i].x, 6);
+            expect(mapped.y).toBeCloseTo(to[i].y, 6);
+        });
+    });
+});
+
+describe('page detection and perspective', () => {
+    // A white trapezoid page on a dark table
+    const corners = [{ x: 40, y: 30 }, { x: 200, y: 40 }, { x: 215, y: 170 }, { x: 30, y: 160 }];
+    const inside = (x: number, y: number) =>
+        corners.every((a, i) => {
+            const b = corners[(i + 1) % 4];
+            return (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x) >= 0;
+        });
+    const photo = createImage(256, 200, (x, y) => (inside(x, y) ? 235 : 40));
+
+    it('finds the four page corners', () => {
+        const found = findPageCorners(photo);
+        expect(found).not.toBeNull();
+        found!.forEach((point, i) => {
+            expect(Math.abs(point.x - corners[i].x)).toBeLessThanOrEqual(3);
+            expect(Math.abs(point.y - corners[i].y)).toBeLessThanOrEqual(3);
+        });
+    });
+
+    it('returns null when the page already fills the frame', () => {
+        expect(findPageCorners(createImage(100, 100, () => 240))).toBeNull();
+    });
+
+    it('warps the page to an upright rectangle with no table left', () => {
+        const flat = warpPerspective(photo, corners);
+        expect(flat.width).toBeGreaterThan(180);
+        expect(flat.height).toBeGreaterThan(125);
+        expect(grayAt(flat, 2, 2)).toBeGreaterThan(200);
+        expect(grayAt(flat, flat.width - 3, flat.height - 3)).toBeGreaterThan(200);
+    });
+});
+
+describe('deskew', () => {
+    it('measures the tilt of ruled lines', () => {
+        expect(estimateSkewAngle(ruledPage(3))).toBeCloseTo(3, 0);
+        expect(estimateSkewAngle(ruledPage(-2))).toBeCloseTo(-2, 0);
+        expect(estimateSkewAngle(ruledPage(0))).toBe(0);
+    });
+
+    it('straightens a tilted page', () => {
+        expect(Math.abs(estimateSkewAngle(deskewImage(ruledPage(3), 3)))).toBeLessThanOrEqual(0.5);
+    });
+});
+
+describe('illumination', () => {
+    // Text strokes on paper that darkens from left (240) to right (110)
+    const shadowed = createImage(200, 100, (x, y) => {
+        const paper = 240 - (x / 199) * 130;
+        return y % 20 < 3 && x % 40 < 25 ? paper * 0.3 : paper;
+    });
+
+    it('lifts shadowed paper to white and keeps the ink dark', () => {
+        const clean = removeShadows(shadowed);
+        expect(grayAt(clean, 5, 10)).toBeGreaterThan(240);
+        expect(grayAt(clean, 195, 10)).toBeGreaterThan(240);
+        expect(grayAt(clean, 170, 1)).toBeLessThan(120);
+    });
+
+    it('keeps ink in the shadow with adaptive thresholding', () => {
+        const bw = adaptiveThreshold(shadowed, 15, 10);
+        expect(grayAt(bw, 170, 1)).toBe(0);
+        expect(grayAt(bw, 195, 10)).toBe(255);
+        expect(grayAt(bw, 5, 1)).toBe(0);
+    });
+
+    it('reports what the pipeline did', () => {
+        const { image, report } = preprocessRaster(shadowed, { perspective: false });
+        expect(report.pageDetected).toBe(false);
+        expect(report.shadowsRemoved).toBe(true);
+        expect(report.thresholded).toBe(false);
+        expect(report.contrastAfter).toBeGreaterThan(report.contrastBefore);
+        expect([report.width, report.height]).toEqual([image.width, image.height]);
+    });
+});
+
+describe('getPreprocessingImpact', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('compares low-confidence rates with and without clean-up', () => {
+        recordExtractionQuality({ preprocessed: false, entries: 20, lowConfidence: 8 });
+        expect(getPreprocessingImpact().improvement).toBeNull();
+
+        recordExtractionQuality({ preprocessed: true, entries: 30, lowConfidence: 3 });
+        recordExtractionQuality({ preprocessed: true, entries: 10, lowConfidence: 1 });
+        recordExtractionQuality({ preprocessed: true, entries: 0, lowConfidence: 0 });
+
+        const impact = getPreprocessingImpact();
+        expect(impact.withPreprocessing).toEqual({ pages: 2, entries: 40, lowConfidence: 4, lowConfidenceRate: 0.1 });
+        expect(impact.withoutPreprocessing.lowConfidenceRate).toBe(0.4);
+        expect(impact.improvement).toBeCloseTo(0.3);
+    });
+});
@@ -0,0 +1,508 @@
+/**
+ * Image Pre-processing
+ * Cleans up phone photos of tithe book pages before they are read:
+ * page-edge detection, perspective warp, deskew, shadow removal, contrast
+ * stretch and (for the offline reader) adaptive thresholding.
+ *
+ * Everything here works on plain pixel arrays with no DOM access, so it
+ * runs the same on the main thread, in a worker or under tests. Decoding
+ * and encoding files lives in preprocessImage.ts.
+ */
+import { RasterImage, toGrayscale, otsuThreshold } from "./offlineGrid";
+import type { ImagePreprocessingReport } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface PreprocessOptions {
+    /** Find the page edges and warp the page to a flat rectangle */
+    perspective?: boolean;
+    deskew?: boolean;
+    removeShadows?: boolean;
+    /** Reduce to black and white; only useful for the offline reader */
+    adaptiveThreshold?: boolean;
+}
+
+/** Page detection and skew estimation run on a copy this size (long side) */
+const ANALYSIS_SIDE = 256;
+
+/** The page must cover this share of the photo to be trusted */
+const MIN_PAGE_AREA = 0.2;
+
+/** A page covering more than this already fills the frame; no warp needed */
+const MAX_PAGE_AREA = 0.95;
+
+/** Skew below this (degrees) is left alone */
+const MIN_SKEW = 0.2;
+
+// ============================================================================
+// PIXEL HELPERS
+// ============================================================================
+
+const createRaster = (width: number, height: number): RasterImage => ({
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4).fill(255),
+});
+
+/**
+ * Box-averaged copy of a grayscale image, shrunk by an integer factor
+ */
+const downsampleGray = (
+    gray: Uint8Array,
+    width: number,
+    height: number,
+    factor: number
+): { width: number; height: number; data: Float32Array } => {
+    const w = Math.max(1, Math.floor(width / factor));
+    const h = Math.max(1, Math.floor(height / factor));
+    const data = new Float32Array(w * h);
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            let sum = 0;
+            for (let dy = 0; dy < factor; dy++) {
+                const row = (y * factor + dy) * width;
+                for (let dx = 0; dx < factor; dx++) sum += gray[row + x * factor + dx];
+            }
+            data[y * w + x] = sum / (factor * factor);
+        }
+    }
+    return { width: w, height: h, data };
+};
+
+const analysisFactor = (width: number, height: number): number =>
+    Math.max(1, Math.round(Math.max(width, height) / ANALYSIS_SIDE));
+
+/**
+ * Bilinear sample of one channel at a fractional position; white outside
+ */
+const sample = (image: RasterImage, x: number, y: number, channel: number): number => {
+    if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return 255;
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, image.width - 1);
+    const y1 = Math.min(y0 + 1, image.height - 1);
+    const fx = x - x0;
+    const fy = y - y0;
+    const at = (px: number, py: number) => image.data[(py * image.width + px) * 4 + channel];
+    const top = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+    const bottom = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+    return top * (1 - fy) + bottom * fy;
+};
+
+/**
+ * Builds an image by pulling each output pixel from a source position
+ */
+const remap = (
+    image: RasterImage,
+    width: number,
+    height: number,
+    sourceOf: (x: number, y: number) => Point
+): RasterImage => {
+    const output = createRaster(width, height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const source = sourceOf(x, y);
+            const o = (y * width + x) * 4;
+            output.data[o] = sample(image, source.x, source.y, 0);
+            output.data[o + 1] = sample(image, source.x, source.y, 1);
+            output.data[o + 2] = sample(image, source.x, source.y, 2);
+        }
+    }
+    return output;
+};
+
+/**
+ * Gray levels at the 1st and 99th percentile; their gap is the contrast
+ */
+export const contrastRange = (gray: Uint8Array): { low: number; high: number } => {
+    const histogram = new Array<number>(256).fill(0);
+    gray.forEach((value) => histogram[value]++);
+    const lowCount = gray.length * 0.01;
+    const highCount = gray.length * 0.99;
+
+    let low = 0;
+    let high = 255;
+    let seen = 0;
+    for (let i = 0; i < 256; i++) {
+        const before = seen;
+        seen += histogram[i];
+        if (before <= lowCount && seen > lowCount) low = i;
+        if (before < highCount && seen >= highCount) {
+            high = i;
+            break;
+        }
+    }
+    return { low, high };
+};
+
+// ============================================================================
+// PAGE DETECTION & PERSPECTIVE
+// ============================================================================
+
+/**
+ * Corners (top-left, top-right, bottom-right, bottom-left) of the bright
+ * page against a darker background, or null when no page edge is visible
+ */
+export const findPageCorners = (image: RasterImage): Point[] | null => {
+    const factor = analysisFactor(image.width, image.height);
+    const small = downsampleGray(toGrayscale(image), image.width, image.height, factor);
+    const threshold = otsuThreshold(Uint8Array.from(small.data, Math.round));
+
+    // Largest 4-connected bright region is the page
+    const labels = new Int32Array(small.data.length).fill(-1);
+    let bestLabel = -1;
+    let bestSize = 0;
+    const stack: number[] = [];
+    for (let start = 0; start < small.data.length; start++) {
+        if (labels[start] !== -1 || small.data[start] <= threshold) continue;
+        let size = 0;
+        labels[start] = start;
+        stack.push(start);
+        while (stack.length > 0) {
+            const i = stack.pop() as number;
+            size++;
+            const x = i % small.width;
+            const neighbours = [
+                x > 0 ? i - 1 : -1,
+                x < small.width - 1 ? i + 1 : -1,
+                i - small.width,
+                i + small.width,
+            ];
+            for (const n of neighbours) {
+                if (n < 0 || n >= small.data.length || labels[n] !== -1 || small.data[n] <= threshold) continue;
+                labels[n] = start;
+                stack.push(n);
+            }
+        }
+        if (size > bestSize) {
+            bestSize = size;
+            bestLabel = start;
+        }
+    }
+    if (bestLabel === -1 || bestSize < small.data.length * MIN_PAGE_AREA) return null;
+
+    // Extremes of x+y and x-y are the corners of a roughly upright quad
+    let tl = 0, tr = 0, br = 0, bl = 0;
+    let minSum = Infinity, maxSum = -Infinity, maxDiff = -Infinity, minDiff = Infinity;
+    for (let i = 0; i < labels.length; i++) {
+        if (labels[i] !== bestLabel) continue;
+        const x = i % small.width;
+        const y = Math.floor(i / small.width);
+        if (x + y < minSum) { minSum = x + y; tl = i; }
+        if (x + y > maxSum) { maxSum = x + y; br = i; }
+        if (x - y > maxDiff) { maxDiff = x - y; tr = i; }
+        if (x - y < minDiff) { minDiff = x - y; bl = i; }
+    }
+
+    const toPoint = (i: number): Point => ({
+        x: Math.min(image.width - 1, (i % small.width) * factor + factor / 2),
+        y: Math.min(image.height - 1, Math.floor(i / small.width) * factor + factor / 2),
+    });
+    const corners = [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+
+    // Shoelace area of the quad
+    let area = 0;
+    corners.forEach((p, i) => {
+        const q = corners[(i + 1) % 4];
+        area += p.x * q.y - q.x * p.y;
+    });
+    return Math.abs(area) / 2 > image.width * image.height * MAX_PAGE_AREA ? null : corners;
+};
+
+/**
+ * 3×3 homography (row-major, last entry 1) taking each `from` point to
+ * the matching `to` point, solved by Gaussian elimination
+ */
+export const computeHomography = (from: Point[], to: Point[]): number[] => {
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < 8; r++) {
+            if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+        }
+        if (Math.abs(rows[pivot][col]) < 1e-10) throw new Error("Page corners are degenerate");
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+        for (let r = 0; r < 8; r++) {
+            if (r === col) continue;
+            const factor = rows[r][col] / rows[col][col];
+            for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+        }
+    }
+
+    return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+export const applyHomography = (h: number[], point: Point): Point => {
+    const w = h[6] * point.x + h[7] * point.y + h[8];
+    return {
+        x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+        y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+    };
+};
+
+/**
+ * Warps the quad inside `corners` (TL, TR, BR, BL) to an upright rectangle
+ * sized by its longest edges
+ */
+export const warpPerspective = (image: RasterImage, corners: Point[]): RasterImage => {
+    const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+    const [tl, tr, br, bl] = corners;
+    const width = Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br))));
+    const height = Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br))));
+
+    const rectangle = [
+        { x: 0, y: 0 },
+        { x: width - 1, y: 0 },
+        { x: width - 1, y: height - 1 },
+        { x: 0, y: height - 1 },
+    ];
+    // Map output pixels back into the photo
+    const h = computeHomography(rectangle, corners);
+    return remap(image, width, height, (x, y) => applyHomography(h, { x, y }));
+};
+
+// ============================================================================
+// DESKEW
+// ============================================================================
+
+/**
+ * Angle (degrees, clockwise positive) of the ruled lines and handwriting,
+ * found by the projection that stacks ink into the sharpest rows
+ */
+export const estimateSkewAngle = (image: RasterImage, maxAngle: number = 5, step: number = 0.25): number => {
+    const factor = Math.max(1, Math.round(Math.max(image.width, image.height) / (ANALYSIS_SIDE * 2)));
+    const small = downsampleGray(toGrayscale(image), image.width, image.height, factor);
+    const threshold = otsuThreshold(Uint8Array.from(small.data, Math.round));
+
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let i = 0; i < small.data.length; i++) {
+        if (small.data[i] <= threshold) {
+            xs.push(i % small.width);
+            ys.push(Math.floor(i / small.width));
+        }
+    }
+    if (xs.length === 0) return 0;
+
+    const diagonal = Math.ceil(Math.hypot(small.width, small.height));
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+        const radians = (angle * Math.PI) / 180;
+        const sin = Math.sin(radians);
+        const cos = Math.cos(radians);
+        const rows = new Float64Array(diagonal * 2 + 1);
+        for (let i = 0; i < xs.length; i++) {
+            rows[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+        }
+        let score = 0;
+        for (let r = 0; r < rows.length; r++) score += rows[r] * rows[r];
+        // Prefer the smaller correction on ties
+        if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+            bestScore = score;
+            bestAngle = angle;
+        }
+    }
+    return Math.round(bestAngle * 100) / 100;
+};
+
+/**
+ * Rotates the image about its centre to undo a skew of `angle` degrees
+ */
+export const deskewImage = (image: RasterImage, angle: number): RasterImage => {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const cx = (image.width - 1) / 2;
+    const cy = (image.height - 1) / 2;
+    return remap(image, image.width, image.height, (x, y) => ({
+        x: cx + (x - cx) * cos - (y - cy) * sin,
+        y: cy + (x - cx) * sin + (y - cy) * cos,
+    }));
+};
+
+// ============================================================================
+// ILLUMINATION
+// ============================================================================
+
+/**
+ * Paper brightness at every pixel: a max filter on a shrunken copy erases
+ * the ink, a blur smooths it, and it is scaled back up
+ */
+export const estimateBackground = (gray: Uint8Array, width: number, height: number): Float32Array => {
+    const factor = analysisFactor(width, height);
+    const small = downsampleGray(gray, width, height, factor);
+
+    const pass = (input: Float32Array, radius: number, reduce: (values: number[]) => number): Float32Array => {
+        const output = new Float32Array(input.length);
+        for (let y = 0; y < small.height; y++) {
+            for (let x = 0; x < small.width; x++) {
+                const values: number[] = [];
+                for (let dy = -radius; dy <= radius; dy++) {
+                    const yy = Math.min(small.height - 1, Math.max(0, y + dy));
+                    for (let dx = -radius; dx <= radius; dx++) {
+                        const xx = Math.min(small.width - 1, Math.max(0, x + dx));
+                        values.push(input[yy * small.width + xx]);
+                    }
+                }
+                output[y * small.width + x] = reduce(values);
+            }
+        }
+        return output;
+    };
+
+    const paper = pass(
+        pass(small.data, 3, (values) => Math.max(...values)),
+        2,
+        (values) => values.reduce((a, b) => a + b, 0) / values.length
+    );
+
+    const background = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const sy = Math.min(small.height - 1, Math.max(0, (y + 0.5) / factor - 0.5));
+        const y0 = Math.floor(sy);
+        const y1 = Math.min(y0 + 1, small.height - 1);
+        const fy = sy - y0;
+        for (let x = 0; x < width; x++) {
+            const sx = Math.min(small.width - 1, Math.max(0, (x + 0.5) / factor - 0.5));
+            const x0 = Math.floor(sx);
+            const x1 = Math.min(x0 + 1, small.width - 1);
+            const fx = sx - x0;
+            const top = paper[y0 * small.width + x0] * (1 - fx) + paper[y0 * small.width + x1] * fx;
+            const bottom = paper[y1 * small.width + x0] * (1 - fx) + paper[y1 * small.width + x1] * fx;
+            background[y * width + x] = top * (1 - fy) + bottom * fy;
+        }
+    }
+    return background;
+};
+
+/**
+ * Divides out the paper brightness so shadows and uneven light turn white
+ * while ink keeps its colour (red TOTAL ink stays red)
+ */
+export const removeShadows = (image: RasterImage): RasterImage => {
+    const background = estimateBackground(toGrayscale(image), image.width, image.height);
+    const output = createRaster(image.width, image.height);
+    for (let i = 0; i < background.length; i++) {
+        const gain = 255 / Math.max(background[i], 1);
+        const o = i * 4;
+        output.data[o] = image.data[o] * gain;
+        output.data[o + 1] = image.data[o + 1] * gain;
+        output.data[o + 2] = image.data[o + 2] * gain;
+    }
+    return output;
+};
+
+/**
+ * Stretches the 1st-99th percentile gray range to full black-white
+ */
+export const stretchContrast = (image: RasterImage): RasterImage => {
+    const { low, high } = contrastRange(toGrayscale(image));
+    if (high - low < 1) return image;
+    const scale = 255 / (high - low);
+    const output = createRaster(image.width, image.height);
+    for (let i = 0; i < image.width * image.height; i++) {
+        const o = i * 4;
+        output.data[o] = (image.data[o] - low) * scale;
+        output.data[o + 1] = (image.data[o + 1] - low) * scale;
+        output.data[o + 2] = (image.data[o + 2] - low) * scale;
+    }
+    return output;
+};
+
+/**
+ * Black where a pixel is darker than its neighbourhood mean by `offset`,
+ * white elsewhere. Unlike one global threshold, this survives shadows.
+ */
+export const adaptiveThreshold = (image: RasterImage, windowSize: number = 31, offset: number = 10): RasterImage => {
+    const { width, height } = image;
+    const gray = toGrayscale(image);
+
+    // Summed-area table for constant-time window means
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += gray[y * width + x];
+            integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+        }
+    }
+
+    const half = Math.floor(windowSize / 2);
+    const output = createRaster(width, height);
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - half);
+        const y1 = Math.min(height, y + half + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - half);
+            const x1 = Math.min(width, x + half + 1);
+            const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+                - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+            const mean = sum / ((x1 - x0) * (y1 - y0));
+            const value = gray[y * width + x] < mean - offset ? 0 : 255;
+            const o = (y * width + x) * 4;
+            output.data[o] = value;
+            output.data[o + 1] = value;
+            output.data[o + 2] = value;
+        }
+    }
+    return output;
+};
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/**
+ * Runs the enabled stages in order and reports what each one did
+ */
+export const preprocessRaster = (
+    image: RasterImage,
+    options: PreprocessOptions = {}
+): { image: RasterImage; report: Omit<ImagePreprocessingReport, 'applied' | 'durationMs'> } => {
+    const { perspective = true, deskew = true, removeShadows: shadows = true, adaptiveThreshold: threshold = false } = options;
+    const before = contrastRange(toGrayscale(image));
+    let current = image;
+
+    const corners = perspective ? findPageCorners(current) : null;
+    if (corners) current = warpPerspective(current, corners);
+
+    const skewAngle = deskew ? estimateSkewAngle(current) : 0;
+    const skewCorrected = Math.abs(skewAngle) >= MIN_SKEW;
+    if (skewCorrected) current = deskewImage(current, skewAngle);
+
+    if (shadows) current = removeShadows(current);
+    current = stretchContrast(current);
+    if (threshold) current = adaptiveThreshold(current);
+
+    const after = contrastRange(toGrayscale(current));
+    return {
+        image: current,
+        report: {
+            pageDetected: !!corners,
+            corners: corners ?? undefined,
+            skewAngle: skewCorrected ? skewAngle : 0,
+            shadowsRemoved: shadows,
+            thresholded: threshold,
+            contrastBefore: before.high - before.low,
+            contrastAfter: after.high - after.low,
+            width: current.width,
+            height: current.height,
+        },
+    };
+};
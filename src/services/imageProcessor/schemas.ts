@@ -7,6 +7,7 @@
  * - Legibility scoring
  * - Ink color detection
  * - Cell condition tracking
+ * - Cell bounding boxes
  */
 import { SchemaType, type Schema } from "@google/generative-ai";
 
@@ -14,6 +15,29 @@ import { SchemaType, type Schema } from "@google/generative-ai";
 // TITHE EXTRACTION SCHEMA
 // ============================================================================
 
+/**
+ * A cell's position on the photo as fractions (0-1) of the image size,
+ * used to cut out the handwriting each value was read from
+ */
+const CELL_BOX_SCHEMA: Schema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        x: { type: SchemaType.NUMBER, description: "Left edge, 0-1 of the image width." },
+        y: { type: SchemaType.NUMBER, description: "Top edge, 0-1 of the image height." },
+        width: { type: SchemaType.NUMBER, description: "Width, 0-1 of the image width." },
+        height: { type: SchemaType.NUMBER, description: "Height, 0-1 of the image height." }
+    },
+    required: ["x", "y", "width", "height"]
+};
+
+/**
+ * The red-ink TOTAL cell of the month on a row, read to cross-check the weeks
+ */
+const MONTH_TOTAL_SCHEMA: Schema = {
+    type: SchemaType.NUMBER,
+    description: "The amount in this row's TOTAL column for the target month (usually red ink). Use 0 when blank."
+};
+
 /**
  * Schema for extracting tithe records from book images
  * Enhanced with zone detection, legibility scoring, and visual cues
@@ -64,7 +88,10 @@ export const TITHE_EXTRACTION_SCHEMA: Schema = {
                     "legibility": { type: SchemaType.NUMBER, description: "Legibility score 1-5 (1=illegible, 5=crystal clear)." },
                     "rawAmountText": { type: SchemaType.STRING, description: "The exact characters you see before interpretation (e.g., '1OO', '5O', '-')." },
                     "inkColor": { type: SchemaType.STRING, description: "Ink color: 'red', 'blue', 'black', or 'unknown'. Red ink usually means TOTAL column." },
-                    "cellCondition": { type: SchemaType.STRING, description: "Cell condition: 'clean', 'corrected' (strikethrough with new value), 'smudged', 'empty'." }
+                    "cellCondition": { type: SchemaType.STRING, description: "Cell condition: 'clean', 'corrected' (strikethrough with new value), 'smudged', 'empty'." },
+                    "nameBox": { ...CELL_BOX_SCHEMA, description: "Bounding box of this row's NAME cell." },
+                    "amountBox": { ...CELL_BOX_SCHEMA, description: "Bounding box of this row's cell in the target column." },
+                    "monthTotal": MONTH_TOTAL_SCHEMA
                 },
                 required: ["No.", "Name", "Amount", "legibility"]
             }
@@ -73,6 +100,62 @@ export const TITHE_EXTRACTION_SCHEMA: Schema = {
     required: ["isValidTitheBook", "entries", "pageNumber"]
 };
 
+// ============================================================================
+// MULTI-WEEK EXTRACTION SCHEMA
+// ============================================================================
+
+/**
+ * Schema for reading every week column of the target month in one pass
+ */
+export const MULTI_WEEK_EXTRACTION_SCHEMA: Schema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        isValidTitheBook: {
+            type: SchemaType.BOOLEAN,
+            description: "True if the image matches the expected 'THE APOSTOLIC CHURCH GHANA, TITHES REGISTER' format."
+        },
+        detectedYear: {
+            type: SchemaType.STRING,
+            description: "The year if visible in the header (e.g., '2025') else, use the current year."
+        },
+        pageNumber: {
+            type: SchemaType.NUMBER,
+            description: "The page number visible at the bottom of the page (in colored box)."
+        },
+        entries: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    "No.": { type: SchemaType.NUMBER, description: "The sequential number from the book row." },
+                    "Name": { type: SchemaType.STRING, description: "The full name of the tither. Fix any obvious handwriting errors based on common Ghanaian names." },
+                    "nameBox": { ...CELL_BOX_SCHEMA, description: "Bounding box of this row's NAME cell." },
+                    "weeks": {
+                        type: SchemaType.ARRAY,
+                        description: "One item per week column of the target month, 1st to 5th.",
+                        items: {
+                            type: SchemaType.OBJECT,
+                            properties: {
+                                "week": { type: SchemaType.NUMBER, description: "Week column: 1 for '1st' through 5 for '5th'." },
+                                "Amount": { type: SchemaType.NUMBER, description: "The amount in this week column. Use 0 for blanks, dashes, or crossed-out entries." },
+                                "legibility": { type: SchemaType.NUMBER, description: "Legibility score 1-5 (1=illegible, 5=crystal clear)." },
+                                "rawAmountText": { type: SchemaType.STRING, description: "The exact characters you see before interpretation (e.g., '1OO', '5O', '-')." },
+                                "inkColor": { type: SchemaType.STRING, description: "Ink color: 'red', 'blue', 'black', or 'unknown'." },
+                                "cellCondition": { type: SchemaType.STRING, description: "Cell condition: 'clean', 'corrected' (strikethrough with new value), 'smudged', 'empty'." },
+                                "amountBox": { ...CELL_BOX_SCHEMA, description: "Bounding box of this cell." }
+                            },
+                            required: ["week", "Amount"]
+                        }
+                    },
+                    "monthTotal": MONTH_TOTAL_SCHEMA
+                },
+                required: ["No.", "Name", "weeks"]
+            }
+        }
+    },
+    required: ["isValidTitheBook", "entries", "pageNumber"]
+};
+
 // ============================================================================
 // NAME EXTRACTION SCHEMA
 // ============================================================================
@@ -50,3 +50,53 @@ export const TITHE_BOOK_HTML_TEMPLATE = `
 <tr><td colspan="74"></td></tr>
 </tbody></table>
 `;
+
+/**
+ * How to read handwritten amounts and names in the book; shared by the
+ * single-week and multi-week extraction prompts
+ */
+export const TITHE_HANDWRITING_GUIDE = `
+    ## STEP 5: AMOUNT INTERPRETATION
+
+    Convert what you see to a number:
+    - Empty cell, dash "-", "x", or illegible → **0**
+    - Letter "O" → "0" (zero)
+    - Letter "l" or "I" → "1"
+    - Letter "S" → "5"
+    - Letter "B" → "8"
+    - Letter "Z" → "2"
+    - Letter "w" → "00"
+    - Crossed-out/strikethrough amounts → **0**
+    - RED INK amounts in week columns → Flag as suspicious (might be reading TOTAL column by mistake)
+
+    ---
+    ## GHANAIAN NUMERAL HANDWRITING PATTERNS (CRITICAL!)
+
+    Ghanaian handwriting has distinct characteristics. Look for these patterns:
+
+    ### Common Digit Shapes
+    - **0**: Often written as a tall loop, may look like "O" or "o"
+    - **1**: Elongated vertical stroke, sometimes with serif, may look like "l" or "I"
+    - **2**: May have exaggerated loop at bottom, can look like "Z"
+    - **5**: Long curved top stroke, may look like "S"
+    - **6**: Closed or open loop, distinguish from 0 by the tail
+    - **8**: Two stacked circles, may look like "B"
+
+    ### Common Amount Patterns (MOST LIKELY VALUES)
+    - **Round numbers**: 5, 10, 20, 50, 100, 200, 500 (most common)
+    - **Multiples of 5/10**: 15, 25, 30, 40, 60, 80, 150, 250
+    - **Unlikely amounts**: 37, 83, 94 (rare - likely OCR error if seen)
+    - **If amount doesn't end in 0 or 5, double-check!**
+
+    ### Ink Bleed on Cheap Paper
+    - Digits may appear thicker than written
+    - Adjacent digits may connect
+    - "00" may appear as a single blob → still means "00"
+
+    ---
+    ## HANDWRITING PATTERNS (Ghanaian Names)
+
+    - **Titles**: PASTOR, DEACON, DEACONESS, ELDER, MRS, MADAM (or: PST, DCN, DCNS, ELD, APT)
+    - **Common surnames**: MENSAH, OWUSU, ASANTE, BOATENG, QUARTEY, LAMPTEY, ANKRAH, ADJEI
+    - **Format**: [Title] Surname FirstName [OtherNames]
+`;
@@ -1,6 +1,6 @@
 /**
  * Tithe Image Extraction
- * Processes tithe book images to extract tithe records using Gemini AI
+ * Processes tithe book images to extract tithe records through a VisionProvider
  *
  * Enhanced with:
  * - Zone detection (PAGE → SET → Member Range inference)
@@ -9,25 +9,27 @@
  * - Adaptive confidence calculation
  * - Multi-pass verification for low-confidence entries
  * - Row context validation
+ * - Positional member assignment for rows read without a name (offline reader)
+ * - Cropped NAME and amount cells attached to every entry
  */
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { TitheRecordB, TransactionLogEntry, MemberRecordA } from "../../types";
 import { cleanOCRName } from "../imageValidator";
 import { cleanOCRAmount } from "../../utils/stringUtils";
 import { predictEnsemble } from "../ensembleOCR";
 import { buildMemberHistory } from "../amountValidator";
 import {
-    MODEL_NAME,
-    fileToGenerativePart,
     inferMemberRangeFromPage,
     getWeekColumnOffset,
     MEMBERS_PER_SET,
-    checkGeminiRateLimit,
-    recordGeminiCall
 } from "./core";
-import { findOptimalMatches, ExtractedNameInput, OptimalMatchResult } from "./matching";
+import { buildMemberPositionIndex, ExtractedNameInput, OptimalMatchResult } from "./matching";
+import { getExtractionPool } from "@/workers";
 import { TITHE_EXTRACTION_SCHEMA } from "./schemas";
-import { TITHE_BOOK_HTML_TEMPLATE } from "./templates";
+import { cropCellImages } from "./cellCrops";
+import { reconcileMonthTotals } from "./monthTotals";
+import { TITHE_BOOK_HTML_TEMPLATE, TITHE_HANDWRITING_GUIDE } from "./templates";
+import type { VisionProvider } from "./visionProvider";
+import { RateLimitError } from "@/utils/rateLimiter";
 import { TitheImageExtractionResult, EnhancedRawExtraction, EnhancedRawEntry } from "./types";
 import { detectNotebookFormat } from "./notebookDetector";
 import { processNotebookImage } from "./notebookExtractor";
@@ -181,10 +183,12 @@ export type ProcessingMode = 'auto' | 'tithe_book' | 'notebook';
  *
  * @param transactionLogs - Optional transaction logs for member history anomaly detection
  * @param forceMode - Optional mode override: 'auto' (default), 'tithe_book', or 'notebook'
+ * @param scribeId - Optional writer of the page, for scribe-specific OCR corrections
+ * @param assemblyName - Optional assembly of the page, for the month TOTAL check against logged weeks
  */
 export const processTitheImageWithValidation = async (
     imageFile: File,
-    apiKey: string,
+    provider: VisionProvider,
     targetMonth: string,
     targetWeek: string,
     targetDateString: string,
@@ -192,9 +196,10 @@ export const processTitheImageWithValidation = async (
     forceMode: ProcessingMode = 'auto',
     memberDatabase?: MemberRecordA[],
     aliasMap?: Map<string, string>,
-    memberOrderMap?: Map<string, number>
+    memberOrderMap?: Map<string, number>,
+    scribeId?: string,
+    assemblyName?: string
 ): Promise<TitheImageExtractionResult> => {
-    if (!apiKey) throw new Error("API Key is missing");
     if (!targetMonth || !targetWeek || !targetDateString) {
         throw new Error("Month, Week, and Date are required for extraction.");
     }
@@ -205,7 +210,7 @@ export const processTitheImageWithValidation = async (
     if (forceMode === 'notebook') {
         // Force notebook processing
         console.log('[TitheExtractor] Forced notebook mode');
-        const notebookResult = await processNotebookImage(imageFile, apiKey, targetDateString, memberDatabase, aliasMap, memberOrderMap);
+        const notebookResult = await processNotebookImage(imageFile, provider, targetDateString, memberDatabase, aliasMap, memberOrderMap);
         return {
             isValidTitheBook: false,
             isNotebookFormat: true,
@@ -222,13 +227,13 @@ export const processTitheImageWithValidation = async (
 
     if (forceMode === 'auto') {
         // Auto-detect notebook format
-        const detection = await detectNotebookFormat(imageFile, apiKey);
+        const detection = await detectNotebookFormat(imageFile, provider);
 
         if (detection.isNotebook && detection.confidence >= 0.7) {
             console.log(`[TitheExtractor] Notebook detected (confidence: ${(detection.confidence * 100).toFixed(0)}%)`);
             console.log(`[TitheExtractor] Routing to notebook extractor...`);
 
-            const notebookResult = await processNotebookImage(imageFile, apiKey, targetDateString, memberDatabase, aliasMap, memberOrderMap);
+            const notebookResult = await processNotebookImage(imageFile, provider, targetDateString, memberDatabase, aliasMap, memberOrderMap);
             return {
                 isValidTitheBook: false,
                 isNotebookFormat: true,
@@ -250,16 +255,6 @@ export const processTitheImageWithValidation = async (
     // STANDARD TITHE BOOK PROCESSING
     // ============================================================
 
-    // Check rate limit before making API call
-    checkGeminiRateLimit();
-
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-    const imageParts = await fileToGenerativePart(imageFile);
-
-    // Record API call for rate limiting
-    recordGeminiCall();
-
     const weekColumnOffset = getWeekColumnOffset(targetWeek);
 
     // Advanced Prompt with Zone Detection, SET Inference, and Visual Cues
@@ -318,52 +313,14 @@ export const processTitheImageWithValidation = async (
        - **rawAmountText**: Exact characters BEFORE interpretation (e.g., "1OO", "5O", "-")
        - **inkColor**: "red", "blue", "black", or "unknown"
        - **cellCondition**: "clean", "corrected" (strikethrough), "smudged", or "empty"
+    5. Locate each row's cells on the photo:
+       - **nameBox**: the NAME cell, as { x, y, width, height } fractions (0-1) of the image size
+       - **amountBox**: the TARGET COLUMN cell, in the same format
+    6. Read the row's **TOTAL** cell for ${targetMonth.toUpperCase()} as **monthTotal** (0 if blank).
+       It is only used to cross-check the weeks; never put it in Amount.
 
     ---
-    ## STEP 5: AMOUNT INTERPRETATION
-
-    Convert what you see to a number:
-    - Empty cell, dash "-", "x", or illegible → **0**
-    - Letter "O" → "0" (zero)
-    - Letter "l" or "I" → "1"
-    - Letter "S" → "5"
-    - Letter "B" → "8"
-    - Letter "Z" → "2"
-    - Letter "w" → "00"
-    - Crossed-out/strikethrough amounts → **0**
-    - RED INK amounts in week columns → Flag as suspicious (might be reading TOTAL column by mistake)
-
-    ---
-    ## GHANAIAN NUMERAL HANDWRITING PATTERNS (CRITICAL!)
-
-    Ghanaian handwriting has distinct characteristics. Look for these patterns:
-
-    ### Common Digit Shapes
-    - **0**: Often written as a tall loop, may look like "O" or "o"
-    - **1**: Elongated vertical stroke, sometimes with serif, may look like "l" or "I"
-    - **2**: May have exaggerated loop at bottom, can look like "Z"
-    - **5**: Long curved top stroke, may look like "S"
-    - **6**: Closed or open loop, distinguish from 0 by the tail
-    - **8**: Two stacked circles, may look like "B"
-
-    ### Common Amount Patterns (MOST LIKELY VALUES)
-    - **Round numbers**: 5, 10, 20, 50, 100, 200, 500 (most common)
-    - **Multiples of 5/10**: 15, 25, 30, 40, 60, 80, 150, 250
-    - **Unlikely amounts**: 37, 83, 94 (rare - likely OCR error if seen)
-    - **If amount doesn't end in 0 or 5, double-check!**
-
-    ### Ink Bleed on Cheap Paper
-    - Digits may appear thicker than written
-    - Adjacent digits may connect
-    - "00" may appear as a single blob → still means "00"
-
-    ---
-    ## HANDWRITING PATTERNS (Ghanaian Names)
-
-    - **Titles**: PASTOR, DEACON, DEACONESS, ELDER, MRS, MADAM (or: PST, DCN, DCNS, ELD, APT)
-    - **Common surnames**: MENSAH, OWUSU, ASANTE, BOATENG, QUARTEY, LAMPTEY, ANKRAH, ADJEI
-    - **Format**: [Title] Surname FirstName [OtherNames]
-
+${TITHE_HANDWRITING_GUIDE}
     ---
     ## RESPONSE REQUIREMENTS
 
@@ -374,26 +331,60 @@ export const processTitheImageWithValidation = async (
     4. \`entries\` - Array of extracted tithe records with all fields
     `;
 
-    let result;
+    let rawResult: EnhancedRawExtraction;
     try {
-        result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: enhancedPrompt }, imageParts] }],
-            generationConfig: {
-                responseMimeType: "application/json",
-                responseSchema: TITHE_EXTRACTION_SCHEMA,
-            },
+        rawResult = await provider.generateJson<EnhancedRawExtraction>({
+            task: 'titheExtraction',
+            prompt: enhancedPrompt,
+            image: imageFile,
+            schema: TITHE_EXTRACTION_SCHEMA,
+            context: { targetMonth, targetWeek },
         });
     } catch (error) {
-        console.error("Error during Gemini content generation:", error);
-        throw new Error("Failed to process image with AI. Check the API key or network connection.");
+        if (error instanceof RateLimitError) throw error;
+        console.error(`Error during ${provider.label} content generation:`, error);
+        throw new Error("Failed to process image with AI. Check the vision provider settings or network connection.");
     }
 
-    if (!result) throw new Error("Unexpected error: No result from AI model.");
+    return buildTitheExtractionResult(rawResult, imageFile, targetMonth, targetDateString, {
+        transactionLogs,
+        memberDatabase,
+        aliasMap,
+        memberOrderMap,
+        scribeId,
+        assemblyName,
+    });
+};
 
-    try {
-        const jsonString = result.response.text().trim();
-        const rawResult: EnhancedRawExtraction = JSON.parse(jsonString);
+// ============================================================================
+// RESULT BUILDING
+// ============================================================================
+
+export interface ExtractionMatchingOptions {
+    /** Transaction logs for member history anomaly detection */
+    transactionLogs?: TransactionLogEntry[];
+    memberDatabase?: MemberRecordA[];
+    aliasMap?: Map<string, string>;
+    memberOrderMap?: Map<string, number>;
+    /** Writer of the page, for scribe-specific OCR corrections */
+    scribeId?: string;
+    /** Assembly of the page, whose logged weeks count toward month TOTALs */
+    assemblyName?: string;
+}
 
+/**
+ * Turns one week column read from a page into tithe records: member
+ * matching, confidence scoring, cell crops and anomaly warnings.
+ * Shared by single-week and multi-week extraction.
+ */
+export const buildTitheExtractionResult = async (
+    rawResult: EnhancedRawExtraction,
+    imageFile: File,
+    targetMonth: string,
+    targetDateString: string,
+    { transactionLogs, memberDatabase, aliasMap, memberOrderMap, scribeId, assemblyName }: ExtractionMatchingOptions = {}
+): Promise<TitheImageExtractionResult> => {
+    try {
         // Log zone detection and SET info for debugging
         if (rawResult.pageNumber) {
             const inferredSet = inferMemberRangeFromPage(rawResult.pageNumber);
@@ -429,13 +420,13 @@ export const processTitheImageWithValidation = async (
                     position: item["No."] || index + 1
                 }));
 
-                // Run Hungarian algorithm
-                const optimalMatches = findOptimalMatches(
-                    extractedNamesInput,
-                    memberDatabase,
+                // Run Hungarian algorithm (in the worker pool, off the main thread)
+                const optimalMatches = await getExtractionPool().run('matchNames', {
+                    names: extractedNamesInput,
+                    members: memberDatabase,
                     memberOrderMap,
                     aliasMap
-                );
+                });
 
                 // Create lookup mapByKey: index -> result
                 // Note: findOptimalMatches preserves input order, so optimalMatches[i] corresponds to extractedNamesInput[i]
@@ -449,6 +440,11 @@ export const processTitheImageWithValidation = async (
             }
         }
 
+        // Rows without a name (offline reader) take the member at that book position
+        const positionIndex = memberDatabase && memberDatabase.length > 0 && rawResult.entries?.some(e => !cleanOCRName(e.Name))
+            ? buildMemberPositionIndex(memberDatabase, memberOrderMap)
+            : null;
+
         // Map entries to TitheRecordB format with adaptive confidence
         // Uses async for ensemble OCR integration
         const entries: TitheRecordB[] = await Promise.all(
@@ -464,7 +460,7 @@ export const processTitheImageWithValidation = async (
                 const rawText = item.rawAmountText;
                 if (rawText && /[OoIilLsS]/.test(rawText) && finalAmount !== 0) {
                     try {
-                        const ensemblePrediction = await predictEnsemble(rawText);
+                        const ensemblePrediction = await predictEnsemble(rawText, scribeId);
                         if (ensemblePrediction && ensemblePrediction.confidence >= 0.65) {
                             // Ensemble has a high-confidence correction
                             console.log(
@@ -510,6 +506,12 @@ export const processTitheImageWithValidation = async (
                     if (optimalMatch.confidence > 0.8) {
                         confidence = Math.max(confidence, 0.85);
                     }
+                } else if (!cleanedName && positionIndex) {
+                    const m = positionIndex.get(item["No."] || index + 1);
+                    if (m) {
+                        memberId = `${m.Surname} ${m["First Name"]} (${m["Membership Number"] || m["Old Membership Number"]})`;
+                        memberDetails = m;
+                    }
                 }
 
                 if (confidence < 0.6) {
@@ -538,6 +540,15 @@ export const processTitheImageWithValidation = async (
             })
         );
 
+        // Cut out the handwriting each entry was read from, for review and training
+        const cellCrops = await cropCellImages(
+            imageFile,
+            (rawResult.entries || []).map(item => ({ name: item.nameBox, amount: item.amountBox }))
+        );
+        cellCrops.forEach((crops, i) => {
+            if (crops) entries[i].cellCrops = crops;
+        });
+
         // ============================================================
         // POST-EXTRACTION: Apply neighbor context to boost confidence
         // ============================================================
@@ -610,6 +621,24 @@ export const processTitheImageWithValidation = async (
             }
         }
 
+        // ============================================================
+        // MONTH TOTAL RECONCILIATION: TOTAL vs this week + logged weeks
+        // ============================================================
+        const totalDiscrepancies = reconcileMonthTotals(
+            (rawResult.entries || []).map((item, i) => ({
+                memberNo: Number(entries[i]["No."]),
+                membershipNumber: entries[i]["Membership Number"],
+                monthTotal: cleanOCRAmount(item.monthTotal),
+                weekAmounts: [Number(entries[i]["Transaction Amount"]) || 0],
+            })),
+            [targetDateString],
+            transactionLogs,
+            assemblyName
+        );
+        if (totalDiscrepancies.length > 0) {
+            console.warn(`[TitheExtractor] ${totalDiscrepancies.length} row(s) do not add up to their ${targetMonth} TOTAL`);
+        }
+
         return {
             isValidTitheBook: rawResult.isValidTitheBook ?? true,
             detectedYear: rawResult.detectedYear || null,
@@ -622,7 +651,8 @@ export const processTitheImageWithValidation = async (
                 memberRangeStart: setInfo.startMember,
                 memberRangeEnd: setInfo.endMember
             } : undefined,
-            anomalyWarnings: anomalyWarnings.length > 0 ? anomalyWarnings : undefined
+            anomalyWarnings: anomalyWarnings.length > 0 ? anomalyWarnings : undefined,
+            totalDiscrepancies: totalDiscrepancies.length > 0 ? totalDiscrepancies : undefined
         };
 
     } catch (error) {
@@ -641,7 +671,7 @@ export const processTitheImageWithValidation = async (
  */
 export const verifyLowConfidenceEntries = async (
     imageFile: File,
-    apiKey: string,
+    provider: VisionProvider,
     entries: TitheRecordB[],
     targetMonth: string,
     targetWeek: string,
@@ -656,10 +686,6 @@ export const verifyLowConfidenceEntries = async (
 
     console.log(`[TitheExtractor] Verifying ${lowConfEntries.length} low-confidence entries...`);
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-    const imageParts = await fileToGenerativePart(imageFile);
-
     // Build verification prompt with row context
     const rowsToVerify = lowConfEntries.map(e => {
         // Find surrounding amounts for context
@@ -697,15 +723,14 @@ ${rowsToVerify}
     `;
 
     try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: verificationPrompt }, imageParts] }],
-            generationConfig: {
-                responseMimeType: "application/json",
-            },
+        const verification = await provider.generateJson<{
+            verifications?: Array<{ rowNo: number; verifiedAmount: number; isCorrect: boolean; correction?: string }>;
+        }>({
+            task: 'verification',
+            prompt: verificationPrompt,
+            image: imageFile,
         });
 
-        const verification = JSON.parse(result.response.text().trim());
-
         if (!verification.verifications || !Array.isArray(verification.verifications)) {
             console.warn("[TitheExtractor] Verification response missing verifications array");
             return entries;
@@ -2,24 +2,33 @@
  * Training Helper for Tithe Extraction
  *
  * Automatically trains the ensemble OCR from verified batch corrections.
+ * Corrected records that carry the cropped amount cell also fine-tune the
+ * on-device digit recognizer with the real handwriting. When the writer of
+ * the page is known, the review counts towards their scribe profile.
  * Call this after users verify/correct extracted amounts.
  */
 
 import { trainEnsemble } from '@/services/ensembleOCR';
+import { getExtractionPool } from '@/workers';
 import type { TitheRecordB } from '@/types';
+import { buildDigitSamplesFromCrops } from './cellCrops';
+import { learnScribeHandwriting, recordScribeReview } from '../scribeProfiles';
 
 /**
  * Automatically trains ensemble from verified corrections
  *
  * @param original - The original extracted records (before user corrections)
  * @param corrected - The corrected records (after user verification)
+ * @param scribeId - Optional writer of the page
  * @returns Number of corrections that were used for training
  */
 export const trainFromVerifiedBatch = async (
     original: TitheRecordB[],
-    corrected: TitheRecordB[]
+    corrected: TitheRecordB[],
+    scribeId?: string
 ): Promise<number> => {
     let trainingCount = 0;
+    const cropSamples: Array<{ crop: string; amount: number }> = [];
 
     for (let i = 0; i < Math.min(original.length, corrected.length); i++) {
         const origAmount = original[i]["Transaction Amount"];
@@ -34,11 +43,13 @@ export const trainFromVerifiedBatch = async (
         ) {
             try {
                 // Train the ensemble with the raw string representation
-                await trainEnsemble(String(origAmount), corrAmount);
+                await trainEnsemble(String(origAmount), corrAmount, scribeId);
                 trainingCount++;
                 console.log(
                     `[trainFromVerifiedBatch] Trained: "${origAmount}" → ${corrAmount}`
                 );
+                const crop = corrected[i].cellCrops?.amount;
+                if (crop) cropSamples.push({ crop, amount: corrAmount });
             } catch (error) {
                 console.warn(
                     `[trainFromVerifiedBatch] Failed to train "${origAmount}" → ${corrAmount}:`,
@@ -54,6 +65,27 @@ export const trainFromVerifiedBatch = async (
         );
     }
 
+    if (cropSamples.length > 0) {
+        // Fire-and-forget: fine-tuning runs in the worker pool and must not hold up the import
+        buildDigitSamplesFromCrops(cropSamples)
+            .then((samples) => getExtractionPool().run('learnDigits', samples))
+            .then((learned) => {
+                if (learned > 0) console.log(`[trainFromVerifiedBatch] Digit recognizer learned ${learned} handwritten digits`);
+            })
+            .catch((error) => console.warn('[trainFromVerifiedBatch] Digit recognizer training failed:', error));
+    }
+
+    if (scribeId) {
+        const reviewed = original
+            .slice(0, corrected.length)
+            .filter((r) => Number(r["Transaction Amount"]) > 0).length;
+        recordScribeReview(scribeId, reviewed, trainingCount);
+
+        // Fire-and-forget, like the digit recognizer
+        learnScribeHandwriting(scribeId, corrected)
+            .catch((error) => console.warn('[trainFromVerifiedBatch] Scribe handwriting learning failed:', error));
+    }
+
     return trainingCount;
 };
 
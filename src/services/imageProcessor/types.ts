@@ -3,6 +3,7 @@
  * Extracted from imageProcessor.ts for better modularity
  */
 import { TitheRecordB, MemberRecordA } from "../../types";
+import type { DiscrepancyReport } from "../pageSequencer";
 
 // ============================================================================
 // TITHE IMAGE PROCESSING TYPES
@@ -22,6 +23,33 @@ export interface SetInfo {
     memberRangeEnd: number;
 }
 
+/** What the pre-processing stage did to a photo (see preprocessing.ts) */
+export interface ImagePreprocessingReport {
+    /** False when the stage was skipped or failed and the original was used */
+    applied: boolean;
+    pageDetected: boolean;
+    /** Page corners in the original photo: TL, TR, BR, BL */
+    corners?: Array<{ x: number; y: number }>;
+    /** Skew corrected, in degrees (0 when none was needed) */
+    skewAngle: number;
+    shadowsRemoved: boolean;
+    thresholded: boolean;
+    /** 1st-99th percentile gray range before and after */
+    contrastBefore: number;
+    contrastAfter: number;
+    width: number;
+    height: number;
+    durationMs: number;
+    error?: string;
+}
+
+/** Original and cleaned photo, for the before/after preview */
+export interface ImagePreprocessingPreview {
+    original: File;
+    processed: File;
+    report: ImagePreprocessingReport;
+}
+
 export interface TitheImageExtractionResult {
     isValidTitheBook: boolean;
     detectedYear: string | null;
@@ -45,6 +73,32 @@ export interface TitheImageExtractionResult {
         detectedDate?: string;
         attendance?: number;
     };
+    /** Set when the photo was cleaned up before extraction */
+    preprocessing?: ImagePreprocessingPreview;
+    /** Rows whose month TOTAL does not match the weeks of the month */
+    totalDiscrepancies?: DiscrepancyReport[];
+}
+
+/** The records of one Sunday from a multi-week extraction */
+export interface WeekExtraction {
+    /** e.g. "Week 2" */
+    week: string;
+    date: Date;
+    /** DD-MMM-YYYY, as on the records */
+    dateString: string;
+    result: TitheImageExtractionResult;
+}
+
+export interface MultiWeekExtractionResult {
+    isValidTitheBook: boolean;
+    detectedYear: string | null;
+    pageNumber: number | null;
+    /** Sundays of the month with at least one amount, in order */
+    weeks: WeekExtraction[];
+    /** Rows whose month TOTAL does not match the weeks of the month */
+    totalDiscrepancies?: DiscrepancyReport[];
+    /** Set when the photo was cleaned up before extraction */
+    preprocessing?: ImagePreprocessingPreview;
 }
 
 // ============================================================================
@@ -99,6 +153,49 @@ export interface EnhancedRawEntry {
     "rawAmountText"?: string;
     "inkColor"?: 'red' | 'blue' | 'black' | 'unknown';
     "cellCondition"?: 'clean' | 'corrected' | 'smudged' | 'empty';
+    /** Where the NAME cell of this row is on the page */
+    "nameBox"?: CellBox;
+    /** Where the target amount cell of this row is on the page */
+    "amountBox"?: CellBox;
+    /** The row's red-ink TOTAL for the target month; 0 or absent when blank */
+    "monthTotal"?: number;
+}
+
+/** One week column of a row, read in a multi-week pass */
+export interface MultiWeekRawCell {
+    /** Week of the month, 1-5 */
+    "week": number;
+    "Amount": number;
+    "legibility"?: number;
+    "rawAmountText"?: string;
+    "inkColor"?: EnhancedRawEntry["inkColor"];
+    "cellCondition"?: EnhancedRawEntry["cellCondition"];
+    "amountBox"?: CellBox;
+}
+
+export interface MultiWeekRawEntry {
+    "No.": number;
+    "Name": string;
+    "nameBox"?: CellBox;
+    "weeks": MultiWeekRawCell[];
+    /** The row's red-ink TOTAL for the month; 0 or absent when blank */
+    "monthTotal"?: number;
+}
+
+export interface MultiWeekRawExtraction {
+    isValidTitheBook: boolean;
+    detectedYear?: string;
+    pageNumber?: number;
+    setInfo?: SetInfo;
+    entries: MultiWeekRawEntry[];
+}
+
+/** A cell on the page as fractions (0-1) of the image width and height */
+export interface CellBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
 }
 
 export interface EnhancedRawExtraction {
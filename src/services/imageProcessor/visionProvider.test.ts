@@ -0,0 +1,127 @@
+/// <reference types="vitest/globals" />
+/**
+ * visionProvider.test.ts
+ * Tests for the vision provider implementations and provider selection
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createFixtureVisionProvider,
+    createOpenAICompatibleVisionProvider,
+    createVisionProvider,
+    parseVisionJson,
+} from './visionProvider';
+import { extractNamesFromTitheBook } from './nameExtractor';
+import { DEFAULT_VISION_PROVIDER_SETTINGS } from '@/constants';
+import { MemberRecordA } from '@/types';
+
+const makeImage = () => new File([new Uint8Array([1, 2, 3])], 'page.png', { type: 'image/png' });
+
+describe('parseVisionJson', () => {
+    it('accepts plain and fenced JSON', () => {
+        expect(parseVisionJson('{"a":1}')).toEqual({ a: 1 });
+        expect(parseVisionJson('```json\n{"a":2}\n```')).toEqual({ a: 2 });
+    });
+});
+
+describe('createFixtureVisionProvider', () => {
+    it('replies per task and records requests', async () => {
+        const provider = createFixtureVisionProvider({
+            notebookDetection: { isNotebook: true },
+            nameExtraction: (request) => ({ names: [{ 'No.': 1, Name: request.image.name }] }),
+        });
+
+        await expect(
+            provider.generateJson({ task: 'notebookDetection', prompt: 'p', image: makeImage() })
+        ).resolves.toEqual({ isNotebook: true });
+        await expect(
+            provider.generateJson({ task: 'nameExtraction', prompt: 'p', image: makeImage() })
+        ).resolves.toEqual({ names: [{ 'No.': 1, Name: 'page.png' }] });
+        expect(provider.requests.map((r) => r.task)).toEqual(['notebookDetection', 'nameExtraction']);
+    });
+
+    it('fails for tasks without a fixture', async () => {
+        const provider = createFixtureVisionProvider({});
+        await expect(
+            provider.generateJson({ task: 'titheExtraction', prompt: 'p', image: makeImage() })
+        ).rejects.toThrow('No fixture for vision task "titheExtraction"');
+    });
+
+    it('drives the extractors without a network', async () => {
+        const members: MemberRecordA[] = [
+            { 'No.': 1, 'First Name': 'Kofi', Surname: 'Mensah', 'Membership Number': 'TAC001' },
+        ];
+        const provider = createFixtureVisionProvider({
+            nameExtraction: { names: [{ 'No.': 1, Name: 'MENSAH KOFI' }] },
+        });
+
+        const result = await extractNamesFromTitheBook(makeImage(), provider, members);
+
+        expect(result.totalExtracted).toBe(1);
+        expect(result.matches[0].matchedMember?.['Membership Number']).toBe('TAC001');
+    });
+});
+
+describe('createOpenAICompatibleVisionProvider', () => {
+    it('posts the prompt, schema and image as a chat completion', async () => {
+        const fetchImpl = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ choices: [{ message: { content: '{"names":[]}' } }] }),
+        });
+        const provider = createOpenAICompatibleVisionProvider({
+            baseUrl: 'http://localhost:11434/v1/',
+            model: 'llava',
+            fetchImpl: fetchImpl as unknown as typeof fetch,
+        });
+
+        const reply = await provider.generateJson({
+            task: 'nameExtraction',
+            prompt: 'Read the names',
+            image: makeImage(),
+            schema: { type: 'object' } as never,
+        });
+
+        expect(reply).toEqual({ names: [] });
+        const [url, init] = fetchImpl.mock.calls[0];
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(init.headers).not.toHaveProperty('Authorization');
+        const body = JSON.parse(init.body);
+        expect(body.model).toBe('llava');
+        expect(body.messages[0].content[0].text).toContain('Read the names');
+        expect(body.messages[0].content[0].text).toContain('{"type":"object"}');
+        expect(body.messages[0].content[1].image_url.url).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('surfaces HTTP errors', async () => {
+        const fetchImpl = vi.fn().mockResolvedValue({ ok: false, status: 503 });
+        const provider = createOpenAICompatibleVisionProvider({
+            baseUrl: 'http://localhost:11434/v1',
+            model: 'llava',
+            apiKey: 'secret',
+            fetchImpl: fetchImpl as unknown as typeof fetch,
+        });
+
+        await expect(
+            provider.generateJson({ task: 'verification', prompt: 'p', image: makeImage() })
+        ).rejects.toThrow('Vision provider returned 503');
+        expect(fetchImpl.mock.calls[0][1].headers.Authorization).toBe('Bearer secret');
+    });
+});
+
+describe('createVisionProvider', () => {
+    it('uses Gemini only when a key is available', () => {
+        expect(createVisionProvider(DEFAULT_VISION_PROVIDER_SETTINGS, '')).toBeNull();
+        expect(createVisionProvider(DEFAULT_VISION_PROVIDER_SETTINGS, 'key')?.id).toBe('gemini');
+    });
+
+    it('builds the OpenAI-compatible provider when it has a URL and model', () => {
+        const settings = { ...DEFAULT_VISION_PROVIDER_SETTINGS, provider: 'openai-compatible' as const };
+        expect(createVisionProvider(settings, undefined)?.id).toBe('openai-compatible');
+        expect(createVisionProvider({ ...settings, model: ' ' }, 'key')).toBeNull();
+    });
+
+    it('builds the offline provider without any key', () => {
+        const settings = { ...DEFAULT_VISION_PROVIDER_SETTINGS, provider: 'offline' as const };
+        expect(createVisionProvider(settings, undefined)?.id).toBe('offline');
+    });
+});
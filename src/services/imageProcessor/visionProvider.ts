@@ -0,0 +1,210 @@
+/**
+ * Vision Providers
+ * Every image task (tithe extraction, verification, name extraction, notebook
+ * detection and extraction) builds its prompt and schema, then hands the
+ * image to a VisionProvider for a JSON reply. Gemini is the default; an
+ * OpenAI-compatible provider covers local models (Ollama/LLaVA), the
+ * offline provider reads tithe book pages on the device (offlineVisionProvider.ts)
+ * and a fixture provider returns canned replies for tests.
+ */
+import { GoogleGenerativeAI, type Schema } from "@google/generative-ai";
+import { VisionProviderSettings } from "@/types";
+import { MODEL_NAME, checkGeminiRateLimit, fileToGenerativePart, recordGeminiCall } from "./core";
+import { createOfflineVisionProvider } from "./offlineVisionProvider";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VisionTask =
+    | 'titheExtraction'
+    | 'multiWeekExtraction'
+    | 'verification'
+    | 'nameExtraction'
+    | 'notebookDetection'
+    | 'notebookExtraction';
+
+/** Structured hints for providers that cannot read the prompt */
+export interface VisionRequestContext {
+    targetMonth: string;
+    targetWeek: string;
+    /** Every week column to read (multi-week extraction) */
+    targetWeeks?: string[];
+}
+
+export interface VisionRequest {
+    task: VisionTask;
+    prompt: string;
+    image: File;
+    /** Shape of the expected JSON reply; omitted for free-form JSON */
+    schema?: Schema;
+    context?: VisionRequestContext;
+}
+
+export interface VisionProvider {
+    readonly id: string;
+    readonly label: string;
+    /** Sends the prompt and image, returning the parsed JSON reply */
+    generateJson<T>(request: VisionRequest): Promise<T>;
+}
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    fetchImpl?: typeof fetch;
+}
+
+/** A canned reply, or a function of the request for per-image fixtures */
+export type VisionFixture = Record<string, unknown> | unknown[] | ((request: VisionRequest) => unknown);
+
+export interface FixtureVisionProvider extends VisionProvider {
+    /** Every request received, in order */
+    readonly requests: VisionRequest[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parses a model reply, tolerating a ```json fence around it
+ */
+export const parseVisionJson = <T>(text: string): T => {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+    return JSON.parse(fenced ? fenced[1] : trimmed) as T;
+};
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Gemini with structured output. Calls count towards the shared Gemini
+ * rate limit.
+ */
+export const createGeminiVisionProvider = (apiKey: string): VisionProvider => {
+    if (!apiKey) throw new Error("API Key is missing");
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: MODEL_NAME });
+
+    return {
+        id: 'gemini',
+        label: `Gemini (${MODEL_NAME})`,
+        async generateJson<T>({ prompt, image, schema }: VisionRequest): Promise<T> {
+            checkGeminiRateLimit();
+            const imagePart = await fileToGenerativePart(image);
+            recordGeminiCall();
+
+            const result = await model.generateContent({
+                contents: [{ role: "user", parts: [{ text: prompt }, imagePart] }],
+                generationConfig: {
+                    responseMimeType: "application/json",
+                    ...(schema ? { responseSchema: schema } : {}),
+                },
+            });
+            return parseVisionJson<T>(result.response.text());
+        },
+    };
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API with image input
+ * (OpenAI, Ollama, LM Studio, vLLM). Models without structured output get
+ * the schema appended to the prompt instead.
+ */
+export const createOpenAICompatibleVisionProvider = ({
+    baseUrl,
+    model,
+    apiKey,
+    fetchImpl = fetch,
+}: OpenAICompatibleOptions): VisionProvider => {
+    if (!baseUrl || !model) throw new Error("Vision provider URL and model are required");
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    return {
+        id: 'openai-compatible',
+        label: `${model} (${baseUrl})`,
+        async generateJson<T>({ prompt, image, schema }: VisionRequest): Promise<T> {
+            const { inlineData } = await fileToGenerativePart(image);
+            const text = schema
+                ? `${prompt}\n\nRespond only with JSON matching this schema:\n${JSON.stringify(schema)}`
+                : `${prompt}\n\nRespond only with JSON.`;
+
+            const response = await fetchImpl(endpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    temperature: 0,
+                    response_format: { type: 'json_object' },
+                    messages: [{
+                        role: 'user',
+                        content: [
+                            { type: 'text', text },
+                            { type: 'image_url', image_url: { url: `data:${inlineData.mimeType};base64,${inlineData.data}` } },
+                        ],
+                    }],
+                }),
+            });
+            if (!response.ok) {
+                throw new Error(`Vision provider returned ${response.status}`);
+            }
+
+            const body = await response.json();
+            const content = body?.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') throw new Error("Vision provider returned no content");
+            return parseVisionJson<T>(content);
+        },
+    };
+};
+
+/**
+ * Deterministic provider for tests. Replies come from `fixtures` by task;
+ * a task without a fixture fails like a provider error would.
+ */
+export const createFixtureVisionProvider = (
+    fixtures: Partial<Record<VisionTask, VisionFixture>>
+): FixtureVisionProvider => {
+    const requests: VisionRequest[] = [];
+
+    return {
+        id: 'fixture',
+        label: 'Fixture',
+        requests,
+        async generateJson<T>(request: VisionRequest): Promise<T> {
+            requests.push(request);
+            if (!(request.task in fixtures)) {
+                throw new Error(`No fixture for vision task "${request.task}"`);
+            }
+            const fixture = fixtures[request.task];
+            const reply = typeof fixture === 'function' ? fixture(request) : fixture;
+            // Copy so callers cannot mutate the fixture between calls
+            return JSON.parse(JSON.stringify(reply)) as T;
+        },
+    };
+};
+
+/**
+ * Builds the provider chosen in settings. Returns null when it is not
+ * configured (no Gemini key, or no URL/model for the OpenAI-compatible one).
+ * The offline provider needs no configuration.
+ */
+export const createVisionProvider = (
+    settings: VisionProviderSettings,
+    geminiApiKey: string | undefined
+): VisionProvider | null => {
+    if (settings.provider === 'offline') return createOfflineVisionProvider();
+    if (settings.provider === 'openai-compatible') {
+        if (!settings.baseUrl.trim() || !settings.model.trim()) return null;
+        return createOpenAICompatibleVisionProvider({
+            baseUrl: settings.baseUrl.trim(),
+            model: settings.model.trim(),
+            apiKey: settings.apiKey.trim() || undefined,
+        });
+    }
+    return geminiApiKey ? createGeminiVisionProvider(geminiApiKey) : null;
+};
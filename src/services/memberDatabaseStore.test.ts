@@ -0,0 +1,182 @@
+/// <reference types="vitest/globals" />
+/**
+ * memberDatabaseStore.test.ts
+ * Tests for IndexedDB persistence of the member database
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MemberDatabase } from '../types';
+
+// ============================================================================
+// MOCK DATABASE
+// ============================================================================
+
+type StoredValue = Record<string, unknown>;
+
+const stores = {
+    assemblies: new Map<string, StoredValue>(),
+    members: new Map<string, StoredValue>(),
+    meta: new Map<string, StoredValue>(),
+};
+
+const keyPaths: Record<string, string> = {
+    assemblies: 'assemblyName',
+    members: 'id',
+    meta: 'key',
+};
+
+const writes: string[] = [];
+
+const createStore = (name: keyof typeof stores) => ({
+    put: vi.fn((value: StoredValue) => {
+        const key = String(value[keyPaths[name]]);
+        writes.push(`${name}:put:${key}`);
+        stores[name].set(key, value);
+        return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+        writes.push(`${name}:delete:${key}`);
+        stores[name].delete(key);
+        return Promise.resolve();
+    }),
+    clear: vi.fn(() => {
+        stores[name].clear();
+        return Promise.resolve();
+    }),
+    index: vi.fn(() => ({
+        getAllKeys: vi.fn((assemblyName: string) =>
+            Promise.resolve(
+                Array.from(stores[name].values())
+                    .filter(v => v.assemblyName === assemblyName)
+                    .map(v => v[keyPaths[name]])
+            )
+        ),
+    })),
+});
+
+vi.mock('idb', () => ({
+    openDB: vi.fn(() =>
+        Promise.resolve({
+            getAll: vi.fn((name: keyof typeof stores) => Promise.resolve(Array.from(stores[name].values()))),
+            transaction: vi.fn(() => ({
+                objectStore: vi.fn((name: keyof typeof stores) => createStore(name)),
+                done: Promise.resolve(),
+            })),
+        })
+    ),
+}));
+
+import {
+    buildMemberKeys,
+    importFromLocalStorage,
+    loadMemberDatabase,
+    parseLegacyMemberDatabase,
+    persistMemberDatabaseChanges,
+} from './memberDatabaseStore';
+
+beforeEach(() => {
+    Object.values(stores).forEach(store => store.clear());
+    writes.length = 0;
+    localStorage.clear();
+});
+
+const kofi = { 'No.': 1, 'Membership Number': 'TAC001', 'First Name': 'Kofi' };
+const ama = { 'No.': 2, 'Membership Number': 'TAC002', 'First Name': 'Ama' };
+const yaw = { 'No.': 3, 'First Name': 'Yaw' };
+
+const makeDatabase = (members = [kofi, ama]): MemberDatabase => ({
+    Central: { data: members, lastUpdated: 1000, fileName: 'central.xlsx' },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('buildMemberKeys', () => {
+    it('keys members by membership number, falling back to No.', () => {
+        expect(buildMemberKeys('Central', [kofi, yaw])).toEqual([
+            'Central::tac001',
+            'Central::no-3',
+        ]);
+    });
+
+    it('keeps duplicate IDs distinct', () => {
+        expect(buildMemberKeys('Central', [kofi, { ...kofi }])).toEqual([
+            'Central::tac001',
+            'Central::tac001#1',
+        ]);
+    });
+});
+
+describe('parseLegacyMemberDatabase', () => {
+    it('upgrades the oldest array format to MasterListData', () => {
+        const parsed = parseLegacyMemberDatabase(JSON.stringify({ Central: [kofi] }));
+        expect(parsed.Central.data).toEqual([kofi]);
+        expect(parsed.Central.fileName).toBe('Unknown (migrated data)');
+    });
+});
+
+describe('persistMemberDatabaseChanges', () => {
+    it('round-trips a database through load', async () => {
+        await persistMemberDatabaseChanges({}, makeDatabase());
+        const loaded = await loadMemberDatabase();
+
+        expect(loaded.Central.data).toEqual([kofi, ama]);
+        expect(loaded.Central.fileName).toBe('central.xlsx');
+    });
+
+    it('only rewrites members that changed', async () => {
+        const prev = makeDatabase();
+        await persistMemberDatabaseChanges({}, prev);
+        writes.length = 0;
+
+        const updatedAma = { ...ama, 'First Name': 'Ama Serwaa' };
+        await persistMemberDatabaseChanges(prev, makeDatabase([kofi, updatedAma]));
+
+        expect(writes).toEqual(['members:put:Central::tac002', 'assemblies:put:Central']);
+    });
+
+    it('deletes removed members and assemblies', async () => {
+        const prev = makeDatabase();
+        await persistMemberDatabaseChanges({}, prev);
+
+        await persistMemberDatabaseChanges(prev, makeDatabase([kofi]));
+        expect(stores.members.has('Central::tac002')).toBe(false);
+
+        await persistMemberDatabaseChanges(makeDatabase([kofi]), {});
+        expect(stores.members.size).toBe(0);
+        expect(stores.assemblies.size).toBe(0);
+    });
+
+    it('skips untouched assemblies', async () => {
+        const db = makeDatabase();
+        await persistMemberDatabaseChanges({}, db);
+        writes.length = 0;
+
+        await persistMemberDatabaseChanges(db, { ...db });
+        expect(writes).toEqual([]);
+    });
+});
+
+describe('importFromLocalStorage', () => {
+    it('imports legacy data once and removes the localStorage key', async () => {
+        localStorage.setItem('tactmsMemberDatabase', JSON.stringify(makeDatabase()));
+
+        const result = await importFromLocalStorage();
+
+        expect(result).toEqual({ imported: true, assemblies: 1, members: 2 });
+        expect(localStorage.getItem('tactmsMemberDatabase')).toBeNull();
+        expect((await loadMemberDatabase()).Central.data).toHaveLength(2);
+        expect((await importFromLocalStorage()).imported).toBe(false);
+    });
+
+    it('backs up corrupt data instead of importing it', async () => {
+        localStorage.setItem('tactmsMemberDatabase', '{not json');
+
+        const result = await importFromLocalStorage();
+
+        expect(result.imported).toBe(false);
+        expect(localStorage.getItem('tactmsMemberDatabase')).toBeNull();
+        expect(Object.keys(localStorage).some(k => k.startsWith('tactmsMemberDatabase_backup_'))).toBe(true);
+    });
+});
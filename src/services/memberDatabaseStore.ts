@@ -0,0 +1,274 @@
+/**
+ * Member Database Store
+ * Persists the MemberDatabase in IndexedDB with one record per assembly
+ * and one record per member, so edits only rewrite what changed.
+ * Replaces the single localStorage key used previously.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { MasterListData, MemberDatabase, MemberRecordA } from '@/types';
+import { MEMBER_DATABASE_STORAGE_KEY } from '@/constants';
+
+// Database Schema
+interface MemberDatabaseDB extends DBSchema {
+    assemblies: {
+        key: string;
+        value: AssemblyRecord;
+    };
+    members: {
+        key: string;
+        value: StoredMember;
+        indexes: {
+            'by-assembly': string;
+        };
+    };
+    meta: {
+        key: string;
+        value: { key: string; value: unknown };
+    };
+}
+
+export interface AssemblyRecord {
+    assemblyName: string;
+    lastUpdated: number;
+    fileName: string;
+    sourceFileDate?: number | null;
+    memberCount: number;
+}
+
+export interface StoredMember {
+    id: string;              // `${assemblyName}::${memberKey}`
+    assemblyName: string;
+    position: number;        // Index in MasterListData.data (preserves list order)
+    record: MemberRecordA;
+}
+
+export interface LocalStorageImportResult {
+    imported: boolean;
+    assemblies: number;
+    members: number;
+}
+
+const DB_NAME = 'tactms-member-database';
+const DB_VERSION = 1;
+const LOCAL_STORAGE_IMPORT_META_KEY = 'localStorageImportedAt';
+
+let dbPromise: Promise<IDBPDatabase<MemberDatabaseDB>> | null = null;
+
+/**
+ * Initialize the IndexedDB database
+ */
+const getDB = async (): Promise<IDBPDatabase<MemberDatabaseDB>> => {
+    if (!dbPromise) {
+        dbPromise = openDB<MemberDatabaseDB>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion) {
+                // Version 1: Assemblies, members and migration metadata
+                if (oldVersion < 1) {
+                    db.createObjectStore('assemblies', { keyPath: 'assemblyName' });
+                    const memberStore = db.createObjectStore('members', { keyPath: 'id' });
+                    memberStore.createIndex('by-assembly', 'assemblyName');
+                    db.createObjectStore('meta', { keyPath: 'key' });
+                }
+            },
+        });
+    }
+    return dbPromise;
+};
+
+// ============================================================================
+// KEYS & SERIALIZATION
+// ============================================================================
+
+/**
+ * Build stable per-member keys for an assembly's list.
+ * Uses membership number where available; duplicates get a suffix so
+ * no record is lost.
+ */
+export const buildMemberKeys = (assemblyName: string, members: MemberRecordA[]): string[] => {
+    const seen = new Map<string, number>();
+    return members.map((member, index) => {
+        const memberKey = String(
+            member["Membership Number"] ||
+            member["Old Membership Number"] ||
+            (member["No."] !== undefined && member["No."] !== "" ? `no-${member["No."]}` : `pos-${index}`)
+        ).trim().toLowerCase();
+
+        const count = seen.get(memberKey) || 0;
+        seen.set(memberKey, count + 1);
+        const uniqueKey = count === 0 ? memberKey : `${memberKey}#${count}`;
+        return `${assemblyName}::${uniqueKey}`;
+    });
+};
+
+const toAssemblyRecord = (assemblyName: string, data: MasterListData): AssemblyRecord => ({
+    assemblyName,
+    lastUpdated: data.lastUpdated,
+    fileName: data.fileName,
+    sourceFileDate: data.sourceFileDate,
+    memberCount: data.data.length,
+});
+
+/**
+ * Parse the legacy localStorage value, upgrading the oldest format
+ * (assembly -> MemberRecordA[]) to MasterListData.
+ */
+export const parseLegacyMemberDatabase = (saved: string): MemberDatabase => {
+    const parsed = JSON.parse(saved);
+    Object.keys(parsed).forEach((key) => {
+        if (Array.isArray(parsed[key])) {
+            parsed[key] = {
+                data: parsed[key],
+                lastUpdated: new Date(0).getTime(),
+                fileName: "Unknown (migrated data)",
+            };
+        }
+    });
+    return parsed;
+};
+
+// ============================================================================
+// LOAD / SAVE
+// ============================================================================
+
+/**
+ * Load the whole member database
+ */
+export const loadMemberDatabase = async (): Promise<MemberDatabase> => {
+    const db = await getDB();
+    const [assemblies, members] = await Promise.all([
+        db.getAll('assemblies'),
+        db.getAll('members'),
+    ]);
+
+    const database: MemberDatabase = {};
+    for (const assembly of assemblies) {
+        database[assembly.assemblyName] = {
+            data: [],
+            lastUpdated: assembly.lastUpdated,
+            fileName: assembly.fileName,
+            sourceFileDate: assembly.sourceFileDate,
+        };
+    }
+
+    members
+        .sort((a, b) => a.position - b.position)
+        .forEach((stored) => {
+            database[stored.assemblyName]?.data.push(stored.record);
+        });
+
+    return database;
+};
+
+/**
+ * Persist the difference between two database states.
+ * Only assemblies whose object changed are touched, and within them only
+ * members whose record or position changed are rewritten.
+ */
+export const persistMemberDatabaseChanges = async (
+    prev: MemberDatabase,
+    next: MemberDatabase
+): Promise<void> => {
+    const changedAssemblies = Object.keys(next).filter((name) => next[name] !== prev[name]);
+    const removedAssemblies = Object.keys(prev).filter((name) => !(name in next));
+
+    if (changedAssemblies.length === 0 && removedAssemblies.length === 0) return;
+
+    const db = await getDB();
+    const tx = db.transaction(['assemblies', 'members'], 'readwrite');
+    const assemblyStore = tx.objectStore('assemblies');
+    const memberStore = tx.objectStore('members');
+
+    for (const name of removedAssemblies) {
+        const keys = await memberStore.index('by-assembly').getAllKeys(name);
+        for (const key of keys) {
+            await memberStore.delete(key);
+        }
+        await assemblyStore.delete(name);
+    }
+
+    for (const name of changedAssemblies) {
+        const nextData = next[name];
+        const prevMembers = prev[name]?.data || [];
+        const prevKeys = buildMemberKeys(name, prevMembers);
+        const prevByKey = new Map(prevKeys.map((key, i) => [key, { record: prevMembers[i], position: i }]));
+
+        const nextKeys = buildMemberKeys(name, nextData.data);
+        const nextKeySet = new Set(nextKeys);
+
+        for (let i = 0; i < nextData.data.length; i++) {
+            const previous = prevByKey.get(nextKeys[i]);
+            if (previous && previous.record === nextData.data[i] && previous.position === i) continue;
+            await memberStore.put({
+                id: nextKeys[i],
+                assemblyName: name,
+                position: i,
+                record: nextData.data[i],
+            });
+        }
+
+        for (const key of prevKeys) {
+            if (!nextKeySet.has(key)) await memberStore.delete(key);
+        }
+
+        await assemblyStore.put(toAssemblyRecord(name, nextData));
+    }
+
+    await tx.done;
+};
+
+// ============================================================================
+// LOCALSTORAGE MIGRATION
+// ============================================================================
+
+/**
+ * One-pass import of the legacy localStorage database.
+ * Writes everything in a single transaction, then removes the localStorage
+ * key so the import never runs twice. Corrupt data is backed up and skipped.
+ */
+export const importFromLocalStorage = async (): Promise<LocalStorageImportResult> => {
+    const saved = localStorage.getItem(MEMBER_DATABASE_STORAGE_KEY);
+    if (!saved) return { imported: false, assemblies: 0, members: 0 };
+
+    let legacy: MemberDatabase;
+    try {
+        legacy = parseLegacyMemberDatabase(saved);
+    } catch (e) {
+        console.error("Failed to parse legacy member database, backing it up:", e);
+        localStorage.setItem(`${MEMBER_DATABASE_STORAGE_KEY}_backup_${Date.now()}`, saved);
+        localStorage.removeItem(MEMBER_DATABASE_STORAGE_KEY);
+        return { imported: false, assemblies: 0, members: 0 };
+    }
+
+    const db = await getDB();
+    const existing = await db.getAll('assemblies');
+    const existingNames = new Set(existing.map((a) => a.assemblyName));
+
+    const tx = db.transaction(['assemblies', 'members', 'meta'], 'readwrite');
+    let assemblies = 0;
+    let members = 0;
+
+    for (const [name, data] of Object.entries(legacy)) {
+        // IndexedDB wins if both exist (e.g. import interrupted after commit)
+        if (existingNames.has(name) || !data?.data) continue;
+
+        const keys = buildMemberKeys(name, data.data);
+        for (let i = 0; i < data.data.length; i++) {
+            await tx.objectStore('members').put({
+                id: keys[i],
+                assemblyName: name,
+                position: i,
+                record: data.data[i],
+            });
+        }
+        await tx.objectStore('assemblies').put(toAssemblyRecord(name, data));
+        assemblies++;
+        members += data.data.length;
+    }
+
+    await tx.objectStore('meta').put({ key: LOCAL_STORAGE_IMPORT_META_KEY, value: Date.now() });
+    await tx.done;
+
+    localStorage.removeItem(MEMBER_DATABASE_STORAGE_KEY);
+    console.log(`Imported ${members} members in ${assemblies} assemblies from localStorage`);
+    return { imported: true, assemblies, members };
+};
@@ -0,0 +1,188 @@
+/// <reference types="vitest/globals" />
+/**
+ * memberDuplicates.test.ts
+ * Tests finding the same person recorded twice in the master database
+ * and merging the records with their references
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConcatenationConfig, MemberDatabase, MemberRecordA, Pledge, TransactionLogEntry } from '@/types';
+import {
+    applyMemberMerge,
+    buildMergedMember,
+    findDuplicateMembers,
+    getDuplicatePairKey,
+    getMergeFieldOptions,
+    getMergeSyncActions,
+    getMergedAwayIds,
+    rewritePledgeReferences,
+    rewriteTransactionLogReferences,
+    scoreDuplicatePair,
+    MemberMergePlan,
+} from './memberDuplicates';
+
+const member = (no: number, id: string, firstName: string, surname: string, extra: Partial<MemberRecordA> = {}): MemberRecordA => ({
+    "No.": no,
+    "Membership Number": id,
+    "First Name": firstName,
+    Surname: surname,
+    ...extra,
+});
+
+const createDatabase = (): MemberDatabase => ({
+    Central: {
+        data: [
+            member(1, 'TAC001', 'Kwaku', 'Mensah', { Gender: 'Male', 'Phone Number': '0244123456', firstSeenDate: '2024-05-01' }),
+            member(2, 'TAC002', 'Kweku', 'Mensa', { Gender: 'Male', Email: 'kweku@example.com', firstSeenDate: '2023-01-01' }),
+            member(3, 'TAC003', 'Akua', 'Mensah', { Gender: 'Female' }),
+            member(4, 'TAC004', 'Kofi', 'Boateng'),
+        ],
+        lastUpdated: 0,
+        fileName: 'central.xlsx',
+    },
+    Maranatha: {
+        data: [
+            member(1, 'TAC100', 'Yaw', 'Asante', { 'Phone Number': '+233 24 412 3456' }),
+            member(2, 'TAC004', 'Kofi', 'Boateng'),
+        ],
+        lastUpdated: 0,
+        fileName: 'maranatha.xlsx',
+    },
+});
+
+const CONFIG: ConcatenationConfig = { Title: false, "First Name": true, Surname: true, "Other Names": false, "Membership Number": true };
+
+describe('scoreDuplicatePair', () => {
+    it('matches day-name spelling variants of the same person', () => {
+        const result = scoreDuplicatePair(member(1, 'A', 'Kwaku', 'Mensah'), member(2, 'B', 'Kweku', 'Mensah'));
+        expect(result?.score).toBeGreaterThanOrEqual(0.85);
+        expect(result?.reasons).toEqual(['similar-name', 'day-name']);
+    });
+
+    it('keeps siblings apart', () => {
+        expect(scoreDuplicatePair(member(1, 'A', 'Kwaku', 'Mensah'), member(2, 'B', 'Akua', 'Mensah'))).toBeNull();
+        expect(scoreDuplicatePair(
+            member(1, 'A', 'Kwame', 'Mensah', { 'Phone Number': '0244123456' }),
+            member(2, 'B', 'Kofi', 'Mensah', { 'Phone Number': '0244123456' })
+        )?.score).toBeLessThan(0.85);
+    });
+
+    it('adds phone numbers and dates as evidence', () => {
+        const result = scoreDuplicatePair(
+            member(1, 'A', 'Kwame', 'Mensah Jnr', { 'Phone Number': '024 412 3456', 'Date of Birth': '01-Jan-1990' }),
+            member(2, 'B', 'Kwame', 'Mensah', { 'Whatsapp Number': '233244123456', 'Date of Birth': '01-JAN-1990' })
+        );
+        expect(result?.reasons).toEqual(['similar-name', 'phone', 'date']);
+        expect(result?.score).toBeGreaterThan(0.9);
+    });
+});
+
+describe('findDuplicateMembers', () => {
+    it('clusters likely duplicates within and across assemblies', () => {
+        const clusters = findDuplicateMembers(createDatabase());
+
+        expect(clusters.map((c) => c.id)).toEqual([
+            'central:tac004|maranatha:tac004',
+            'central:tac001|central:tac002',
+        ]);
+        expect(clusters[0].reasons).toContain('same-number');
+    });
+
+    it('skips pairs the user dismissed', () => {
+        const db = createDatabase();
+        const dismissed = new Set([getDuplicatePairKey(
+            { assemblyName: 'Central', member: db.Central.data[0] },
+            { assemblyName: 'Central', member: db.Central.data[1] }
+        )]);
+
+        expect(findDuplicateMembers(db, { dismissedPairs: dismissed }).map((c) => c.id)).toEqual([
+            'central:tac004|maranatha:tac004',
+        ]);
+    });
+});
+
+describe('merging', () => {
+    const db = createDatabase();
+    const plan: MemberMergePlan = {
+        survivor: { assemblyName: 'Central', member: db.Central.data[0] },
+        duplicates: [{ assemblyName: 'Central', member: db.Central.data[1] }],
+        choices: { "First Name": 'Kweku' },
+    };
+
+    it('offers only fields with competing values', () => {
+        expect(getMergeFieldOptions(plan.survivor, plan.duplicates)).toEqual([
+            { field: 'Membership Number', values: ['TAC001', 'TAC002'] },
+            { field: 'First Name', values: ['Kwaku', 'Kweku'] },
+            { field: 'Surname', values: ['Mensah', 'Mensa'] },
+        ]);
+    });
+
+    it('fills gaps from the duplicates and keeps the earliest first-seen date', () => {
+        expect(buildMergedMember(plan)).toMatchObject({
+            "No.": 1,
+            "Membership Number": 'TAC001',
+            "First Name": 'Kweku',
+            Surname: 'Mensah',
+            Email: 'kweku@example.com',
+            firstSeenDate: '2023-01-01',
+            revision: 1,
+        });
+        expect(getMergedAwayIds(plan)).toEqual(['tac002']);
+    });
+
+    it('removes the duplicate and rewrites the survivor in place', () => {
+        const next = applyMemberMerge(db, plan, 1000);
+        expect(next.Central.data.map((m) => m["Membership Number"])).toEqual(['TAC001', 'TAC003', 'TAC004']);
+        expect(next.Central.data[0]["First Name"]).toBe('Kweku');
+        expect(next.Maranatha).toBe(db.Maranatha);
+        expect(() => applyMemberMerge(next, plan)).toThrow('no longer in Central');
+    });
+
+    it('points logged tithes and pledges at the survivor', () => {
+        const merged = buildMergedMember(plan);
+        const entry = {
+            id: 'Central-2024-01-07',
+            assemblyName: 'Central',
+            concatenationConfig: CONFIG,
+            titheListData: [
+                { "No.": 1, "Membership Number": 'Kweku Mensa (TAC002|OLD9)', "Transaction Amount": 50 },
+                { "No.": 2, "Membership Number": 'Akua Mensah (TAC003)', "Transaction Amount": 20 },
+            ],
+        } as unknown as TransactionLogEntry;
+
+        const { log, recordCount } = rewriteTransactionLogReferences([entry], ['tac002'], merged);
+        expect(recordCount).toBe(1);
+        expect(log[0].titheListData.map((r) => r["Membership Number"])).toEqual(['Kweku Mensah (TAC001)', 'Akua Mensah (TAC003)']);
+        expect(rewriteTransactionLogReferences([entry], ['tac009'], merged).log[0]).toBe(entry);
+
+        const pledge = { id: 'p1', memberId: 'TAC002', memberName: 'Kweku Mensa' } as Pledge;
+        expect(rewritePledgeReferences([pledge], ['tac002'], merged)[0]).toMatchObject({ memberId: 'TAC001', memberName: 'Kweku Mensah' });
+    });
+
+    it('deletes the merged-away records on other devices before saving the survivor', () => {
+        const update = { assemblyName: 'Central', member: buildMergedMember(plan), base: plan.survivor.member, baseRevision: 0 };
+        const crossAssembly: MemberMergePlan = {
+            survivor: { assemblyName: 'Central', member: db.Central.data[3] },
+            duplicates: [{ assemblyName: 'Maranatha', member: db.Maranatha.data[1] }],
+            choices: {},
+        };
+
+        expect(getMergeSyncActions(plan, update)).toEqual([
+            { type: 'DELETE_MEMBER', payload: { assemblyName: 'Central', memberId: 'TAC002' } },
+            { type: 'UPDATE_MEMBER', payload: update },
+        ]);
+        expect(getMergeSyncActions(crossAssembly, { ...update, member: db.Central.data[3] })[0]).toEqual(
+            { type: 'DELETE_MEMBER', payload: { assemblyName: 'Maranatha', memberId: 'TAC004' } }
+        );
+    });
+
+    it('adds the survivor under its new number when the merge changed it', () => {
+        const renamed = { ...plan, choices: { "Membership Number": 'TAC002' } };
+        const member = buildMergedMember(renamed);
+
+        expect(getMergeSyncActions(renamed, { assemblyName: 'Central', member, base: plan.survivor.member, baseRevision: 0 })).toEqual([
+            { type: 'DELETE_MEMBER', payload: { assemblyName: 'Central', memberId: 'TAC001' } },
+            { type: 'ADD_MEMBER', payload: { assemblyName: 'Central', member } },
+        ]);
+    });
+});
@@ -0,0 +1,447 @@
+/**
+ * Member Duplicates Service
+ * Finds records in the master database that are probably the same person
+ * (within an assembly or across assemblies) and merges them, rewriting
+ * what pointed at the removed records.
+ *
+ * reconcileMembers only compares a new upload with the master list; this
+ * looks inside the database itself.
+ */
+
+import { MemberDatabase, MemberRecordA, Pledge, TransactionLogEntry } from '@/types';
+import { DAY_NAMES, areDayNameVariants, ghanaianPhonetic, ghanaianTokenSimilarity, normalizeSurname } from '@/lib/ghanaianNames';
+import { getConcatenatedMemberName, parseMemberId } from './titheList';
+import { getMemberSyncId } from './memberMerge';
+import type { MemberDeleteSyncPayload, MemberSyncPayload } from './syncTransport';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DuplicateReason = 'same-number' | 'similar-name' | 'day-name' | 'phone' | 'date';
+
+/** A member record and the assembly it is in */
+export interface DuplicateMemberRef {
+    assemblyName: string;
+    member: MemberRecordA;
+}
+
+export interface DuplicateCluster {
+    id: string;                    // Sorted member keys, stable across scans
+    members: DuplicateMemberRef[];
+    score: number;                 // Best pair score in the cluster, 0-1
+    reasons: DuplicateReason[];
+}
+
+export interface DuplicateScanOptions {
+    minScore?: number;
+    /** Pair keys (see getDuplicatePairKey) the user said are different people */
+    dismissedPairs?: Set<string>;
+}
+
+/** A field whose value differs between the records being merged */
+export interface MergeFieldOption {
+    field: string;
+    values: unknown[];             // Distinct non-empty values, survivor's first
+}
+
+export interface MemberMergePlan {
+    survivor: DuplicateMemberRef;
+    duplicates: DuplicateMemberRef[];
+    /** Field values picked for the surviving record */
+    choices: Record<string, unknown>;
+}
+
+/** A sync action that repeats a merge on other devices */
+export type MemberMergeSyncAction =
+    | { type: 'DELETE_MEMBER'; payload: MemberDeleteSyncPayload }
+    | { type: 'ADD_MEMBER' | 'UPDATE_MEMBER'; payload: MemberSyncPayload };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_DUPLICATE_SCORE = 0.85;
+
+/** Below this the names are too different, whatever else matches */
+const MIN_NAME_SIMILARITY = 0.5;
+const PHONE_BONUS = 0.2;
+const DATE_BONUS = 0.1;
+
+const PHONE_FIELDS = ['Phone Number', 'Whatsapp Number', 'Other Phone Numbers'];
+const DATE_FIELDS = ['Date of Birth', 'Date of Baptism (DD-MMM-YYYY)'];
+
+/** Bookkeeping fields that are never offered as a merge choice */
+const NON_MERGEABLE_FIELDS = new Set<string>([
+    'No.',
+    'revision',
+    'revisedBy',
+    'firstSeenDate',
+    'firstSeenSource',
+    'customOrder',
+    'transferHistory',
+]);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const isEmpty = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const normalizeValue = (value: unknown) => (isEmpty(value) ? '' : String(value).trim().toLowerCase());
+
+/** Membership Number and Old Membership Number, lowercase */
+const getMemberIds = (member: MemberRecordA): string[] =>
+    [member['Membership Number'], member['Old Membership Number']]
+        .map((id) => normalizeValue(id))
+        .filter(Boolean);
+
+const getFullName = (member: MemberRecordA) =>
+    [member['First Name'], member.Surname, member['Other Names']].filter(Boolean).join(' ').trim();
+
+/**
+ * Last 9 digits of every phone number on the record, so 024..., +23324...
+ * and 23324... compare equal
+ */
+const getPhoneNumbers = (member: MemberRecordA): string[] =>
+    PHONE_FIELDS.flatMap((field) => String(member[field] ?? '').split(/[,;/]/))
+        .map((phone) => phone.replace(/\D/g, ''))
+        .filter((digits) => digits.length >= 9)
+        .map((digits) => digits.slice(-9));
+
+/**
+ * Day names of the same day but different sex (Kwaku and Akua) are
+ * siblings more often than spelling variants
+ */
+const areOppositeSexDayNames = (a: string, b: string): boolean => {
+    const n1 = a.toLowerCase().trim();
+    const n2 = b.toLowerCase().trim();
+    if (!areDayNameVariants(n1, n2)) return false;
+    return !Object.values(DAY_NAMES).some(
+        (day) => (day.male.includes(n1) && day.male.includes(n2)) || (day.female.includes(n1) && day.female.includes(n2))
+    );
+};
+
+/**
+ * Stable key of a member record, unique within the database
+ */
+export const getDuplicateMemberKey = ({ assemblyName, member }: DuplicateMemberRef): string =>
+    `${assemblyName}:${getMemberIds(member)[0] || `no-${member['No.']}`}`.toLowerCase();
+
+/**
+ * Key of a pair of records, independent of order
+ */
+export const getDuplicatePairKey = (a: DuplicateMemberRef, b: DuplicateMemberRef): string =>
+    [getDuplicateMemberKey(a), getDuplicateMemberKey(b)].sort().join('|');
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * How likely two records are the same person, and why. Null when the
+ * names are too different or the records contradict each other.
+ */
+export const scoreDuplicatePair = (
+    a: MemberRecordA,
+    b: MemberRecordA
+): { score: number; reasons: DuplicateReason[] } | null => {
+    const reasons: DuplicateReason[] = [];
+
+    const idsB = getMemberIds(b);
+    const sameNumber = getMemberIds(a).some((id) => idsB.includes(id));
+
+    const genderA = normalizeValue(a.Gender);
+    const genderB = normalizeValue(b.Gender);
+    if (!sameNumber && genderA && genderB && genderA[0] !== genderB[0]) return null;
+
+    const firstA = String(a['First Name'] || '');
+    const firstB = String(b['First Name'] || '');
+    if (!sameNumber && areOppositeSexDayNames(firstA, firstB)) return null;
+
+    const nameA = getFullName(a);
+    const nameB = getFullName(b);
+    const nameScore = nameA && nameB ? ghanaianTokenSimilarity(nameA, nameB) : 0;
+    if (!sameNumber && nameScore < MIN_NAME_SIMILARITY) return null;
+
+    if (sameNumber) reasons.push('same-number');
+    if (nameScore >= MIN_NAME_SIMILARITY) reasons.push('similar-name');
+    if (normalizeValue(firstA) !== normalizeValue(firstB) && areDayNameVariants(firstA, firstB)) {
+        reasons.push('day-name');
+    }
+
+    let score = sameNumber ? 1 : nameScore;
+
+    const phonesB = getPhoneNumbers(b);
+    if (getPhoneNumbers(a).some((phone) => phonesB.includes(phone))) {
+        reasons.push('phone');
+        score += PHONE_BONUS;
+    }
+
+    const matchingDates = DATE_FIELDS.filter(
+        (field) => normalizeValue(a[field]) && normalizeValue(a[field]) === normalizeValue(b[field])
+    ).length;
+    if (matchingDates > 0) {
+        reasons.push('date');
+        score += DATE_BONUS * matchingDates;
+    }
+
+    return { score: Math.min(1, Math.round(score * 1000) / 1000), reasons };
+};
+
+/**
+ * Keys that put records worth comparing in the same bucket, so the scan
+ * does not compare every pair in the district
+ */
+const getBlockingKeys = (member: MemberRecordA): string[] => {
+    const keys = getMemberIds(member).map((id) => `id:${id}`);
+    getPhoneNumbers(member).forEach((phone) => keys.push(`phone:${phone}`));
+    const surname = String(member.Surname || '').trim();
+    if (surname) keys.push(`surname:${ghanaianPhonetic(normalizeSurname(surname))}`);
+    return keys;
+};
+
+/**
+ * Group records that are probably the same person. Pairs at or above
+ * minScore are linked, and linked records form one cluster.
+ */
+export const findDuplicateMembers = (
+    memberDatabase: MemberDatabase,
+    options: DuplicateScanOptions = {}
+): DuplicateCluster[] => {
+    const minScore = options.minScore ?? DEFAULT_DUPLICATE_SCORE;
+    const dismissed = options.dismissedPairs ?? new Set<string>();
+
+    const refs: DuplicateMemberRef[] = Object.entries(memberDatabase).flatMap(([assemblyName, listData]) =>
+        (listData?.data || []).map((member) => ({ assemblyName, member }))
+    );
+
+    const buckets = new Map<string, number[]>();
+    refs.forEach((ref, i) => {
+        for (const key of getBlockingKeys(ref.member)) {
+            const bucket = buckets.get(key);
+            if (bucket) bucket.push(i);
+            else buckets.set(key, [i]);
+        }
+    });
+
+    // Union-find over linked pairs
+    const parent = refs.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    const compared = new Set<string>();
+    const links: Array<{ a: number; b: number; score: number; reasons: DuplicateReason[] }> = [];
+
+    for (const bucket of buckets.values()) {
+        for (let x = 0; x < bucket.length; x++) {
+            for (let y = x + 1; y < bucket.length; y++) {
+                const [a, b] = [bucket[x], bucket[y]];
+                const pairId = a < b ? `${a}-${b}` : `${b}-${a}`;
+                if (compared.has(pairId)) continue;
+                compared.add(pairId);
+
+                if (dismissed.has(getDuplicatePairKey(refs[a], refs[b]))) continue;
+
+                const result = scoreDuplicatePair(refs[a].member, refs[b].member);
+                if (!result || result.score < minScore) continue;
+
+                links.push({ a, b, ...result });
+                parent[find(a)] = find(b);
+            }
+        }
+    }
+
+    const clusters = new Map<number, { indices: Set<number>; score: number; reasons: Set<DuplicateReason> }>();
+    for (const link of links) {
+        const root = find(link.a);
+        const cluster = clusters.get(root) || { indices: new Set<number>(), score: 0, reasons: new Set<DuplicateReason>() };
+        cluster.indices.add(link.a);
+        cluster.indices.add(link.b);
+        cluster.score = Math.max(cluster.score, link.score);
+        link.reasons.forEach((r) => cluster.reasons.add(r));
+        clusters.set(root, cluster);
+    }
+
+    return Array.from(clusters.values())
+        .map((cluster) => {
+            const members = Array.from(cluster.indices).sort((a, b) => a - b).map((i) => refs[i]);
+            return {
+                id: members.map(getDuplicateMemberKey).sort().join('|'),
+                members,
+                score: cluster.score,
+                reasons: Array.from(cluster.reasons),
+            };
+        })
+        .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+};
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * Fields the user has to choose between: more than one distinct value
+ */
+export const getMergeFieldOptions = (survivor: DuplicateMemberRef, duplicates: DuplicateMemberRef[]): MergeFieldOption[] => {
+    const records = [survivor.member, ...duplicates.map((d) => d.member)];
+    const fields = new Set(records.flatMap((r) => Object.keys(r)));
+
+    const options: MergeFieldOption[] = [];
+    fields.forEach((field) => {
+        if (NON_MERGEABLE_FIELDS.has(field)) return;
+        const seen = new Set<string>();
+        const values: unknown[] = [];
+        for (const record of records) {
+            const value = record[field];
+            const key = normalizeValue(value);
+            if (!key || seen.has(key) || typeof value === 'object') continue;
+            seen.add(key);
+            values.push(value);
+        }
+        if (values.length > 1) options.push({ field, values });
+    });
+    return options;
+};
+
+/**
+ * The surviving record: its own values, gaps filled from the duplicates,
+ * then the user's choices. Keeps the earliest firstSeenDate.
+ */
+export const buildMergedMember = (plan: MemberMergePlan): MemberRecordA => {
+    const merged: MemberRecordA = { ...plan.survivor.member };
+    for (const { member } of plan.duplicates) {
+        for (const [field, value] of Object.entries(member)) {
+            if (NON_MERGEABLE_FIELDS.has(field) || isEmpty(value) || !isEmpty(merged[field])) continue;
+            merged[field] = value;
+        }
+    }
+    Object.assign(merged, plan.choices);
+
+    const firstSeen = [plan.survivor.member, ...plan.duplicates.map((d) => d.member)]
+        .map((m) => m.firstSeenDate)
+        .filter((d): d is string => !!d)
+        .sort()[0];
+    if (firstSeen) merged.firstSeenDate = firstSeen;
+
+    merged['No.'] = plan.survivor.member['No.'];
+    merged.revision = (plan.survivor.member.revision || 0) + 1;
+    return merged;
+};
+
+/**
+ * Membership numbers that only the removed records had. References to
+ * these are rewritten to the survivor.
+ */
+export const getMergedAwayIds = (plan: MemberMergePlan): string[] => {
+    const kept = new Set(getMemberIds(buildMergedMember(plan)));
+    return Array.from(new Set(plan.duplicates.flatMap((d) => getMemberIds(d.member)))).filter((id) => !kept.has(id));
+};
+
+/**
+ * Remove the duplicates and store the merged record in the survivor's place
+ *
+ * @throws Error when a record is no longer in the database
+ */
+export const applyMemberMerge = (
+    memberDatabase: MemberDatabase,
+    plan: MemberMergePlan,
+    now: number = Date.now(),
+    merged: MemberRecordA = buildMergedMember(plan)
+): MemberDatabase => {
+    const locate = ({ assemblyName, member }: DuplicateMemberRef) => {
+        const record = memberDatabase[assemblyName]?.data.find((m) => m['No.'] === member['No.']);
+        if (!record) throw new Error(`${getFullName(member) || 'A member'} is no longer in ${assemblyName}`);
+        return record;
+    };
+
+    const survivorRecord = locate(plan.survivor);
+    const removed = new Set(plan.duplicates.map(locate));
+
+    const next: MemberDatabase = { ...memberDatabase };
+    const affected = new Set([plan.survivor.assemblyName, ...plan.duplicates.map((d) => d.assemblyName)]);
+    affected.forEach((assemblyName) => {
+        next[assemblyName] = {
+            ...memberDatabase[assemblyName],
+            data: memberDatabase[assemblyName].data
+                .filter((m) => !removed.has(m))
+                .map((m) => (m === survivorRecord ? merged : m)),
+            lastUpdated: now,
+        };
+    });
+    return next;
+};
+
+/**
+ * Sync actions for a merge: the backend copies of the merged records are
+ * deleted, then the survivor is saved. `update` is the survivor's
+ * UPDATE_MEMBER payload; when the merge changed its membership number it
+ * is added under the new number instead, as the backend has no revision
+ * of that record to check against.
+ */
+export const getMergeSyncActions = (plan: MemberMergePlan, update: MemberSyncPayload): MemberMergeSyncAction[] => {
+    const survivorId = getMemberSyncId(update.member);
+    const deletes = new Map<string, MemberDeleteSyncPayload>();
+    for (const { assemblyName, member } of [plan.survivor, ...plan.duplicates]) {
+        const memberId = getMemberSyncId(member);
+        if (!memberId || (assemblyName === update.assemblyName && memberId === survivorId)) continue;
+        deletes.set(`${assemblyName}:${memberId}`, { assemblyName, memberId });
+    }
+
+    const actions: MemberMergeSyncAction[] = Array.from(deletes.values(), (payload) => ({
+        type: 'DELETE_MEMBER' as const,
+        payload,
+    }));
+    if (!survivorId) return actions;
+    if (survivorId === getMemberSyncId(plan.survivor.member)) {
+        actions.push({ type: 'UPDATE_MEMBER', payload: update });
+    } else {
+        actions.push({ type: 'ADD_MEMBER', payload: { assemblyName: update.assemblyName, member: update.member } });
+    }
+    return actions;
+};
+
+/**
+ * Point tithe records of the removed records at the merged member,
+ * written the way each logged list was concatenated
+ */
+export const rewriteTransactionLogReferences = (
+    log: TransactionLogEntry[],
+    mergedAwayIds: string[],
+    merged: MemberRecordA
+): { log: TransactionLogEntry[]; recordCount: number } => {
+    const ids = new Set(mergedAwayIds.map((id) => id.toLowerCase()));
+    let recordCount = 0;
+    if (ids.size === 0) return { log, recordCount };
+
+    const rewritten = log.map((entry) => {
+        let changed = false;
+        const titheListData = entry.titheListData.map((record) => {
+            const recordIds = parseMemberId(String(record['Membership Number'] || '')).split('|').map((id) => id.trim().toLowerCase());
+            if (!recordIds.some((id) => ids.has(id))) return record;
+            changed = true;
+            recordCount++;
+            return {
+                ...record,
+                'Membership Number': getConcatenatedMemberName(merged, entry.concatenationConfig),
+                ...(record.memberDetails ? { memberDetails: merged } : {}),
+            };
+        });
+        return changed ? { ...entry, titheListData } : entry;
+    });
+    return { log: rewritten, recordCount };
+};
+
+/**
+ * Point pledges of the removed records at the merged member
+ */
+export const rewritePledgeReferences = (pledges: Pledge[], mergedAwayIds: string[], merged: MemberRecordA): Pledge[] => {
+    const ids = new Set(mergedAwayIds.map((id) => id.toLowerCase()));
+    const memberId = String(merged['Membership Number'] || merged['Old Membership Number'] || '');
+    if (ids.size === 0 || !memberId) return pledges;
+
+    return pledges.map((pledge) =>
+        ids.has(pledge.memberId.trim().toLowerCase())
+            ? { ...pledge, memberId, memberName: [merged['First Name'], merged.Surname].filter(Boolean).join(' ') || pledge.memberName }
+            : pledge
+    );
+};
@@ -0,0 +1,140 @@
+/// <reference types="vitest/globals" />
+/**
+ * memberHistory.test.ts
+ * Tests the field-level diffs and events recorded for member changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MemberRecordA } from '@/types';
+import {
+    canRevertChange,
+    createMemberChangeEvent,
+    diffMemberRecords,
+    getMemberHistoryKey,
+    getMemberListChanges,
+    getRevertedMember,
+    ASSEMBLY_FIELD,
+} from './memberHistory';
+
+const member = (extra: Partial<MemberRecordA> = {}): MemberRecordA => ({
+    "No.": 4,
+    "Membership Number": 'TAC001',
+    "First Name": 'Kwame',
+    Surname: 'Mensah',
+    ...extra,
+});
+
+describe('diffMemberRecords', () => {
+    it('lists changed, added and removed fields', () => {
+        const before = member({ 'Phone Number': '0244123456', Email: 'kwame@example.com' });
+        const after = member({ 'Phone Number': '0201234567', 'Date of Birth': '01-Jan-1990' });
+
+        expect(diffMemberRecords(before, after)).toEqual([
+            { field: 'Phone Number', oldValue: '0244123456', newValue: '0201234567' },
+            { field: 'Email', oldValue: 'kwame@example.com', newValue: undefined },
+            { field: 'Date of Birth', oldValue: undefined, newValue: '01-Jan-1990' },
+        ]);
+    });
+
+    it('ignores bookkeeping fields and whitespace-only differences', () => {
+        const after = member({ "No.": 9, revision: 3, customOrder: 2, Surname: 'Mensah ' });
+        expect(diffMemberRecords(member(), after)).toEqual([]);
+    });
+
+    it('treats every field of a new member as added', () => {
+        expect(diffMemberRecords(null, member()).map((c) => c.field)).toEqual([
+            'Membership Number',
+            'First Name',
+            'Surname',
+        ]);
+    });
+
+    it('treats every field of a removed member as removed', () => {
+        expect(diffMemberRecords(member(), null).map((c) => c.newValue)).toEqual([undefined, undefined, undefined]);
+    });
+});
+
+describe('createMemberChangeEvent', () => {
+    const actor = { id: 'g-1', name: 'Ama Owusu', email: 'ama@example.com' };
+
+    it('records who, when, where from and what changed', () => {
+        const event = createMemberChangeEvent(
+            { assemblyName: 'Central', before: member(), after: member({ Surname: 'Mensa' }), source: 'manual' },
+            actor,
+            1000
+        );
+
+        expect(event).toMatchObject({
+            memberKey: 'tac001',
+            assemblyName: 'Central',
+            memberName: 'Kwame Mensa',
+            source: 'manual',
+            actor,
+            timestamp: 1000,
+            changes: [{ field: 'Surname', oldValue: 'Mensah', newValue: 'Mensa' }],
+        });
+    });
+
+    it('skips saves that changed nothing and keeps explicit changes', () => {
+        expect(createMemberChangeEvent({ assemblyName: 'Central', before: member(), after: member(), source: 'sync' }, null)).toBeNull();
+
+        const transfer = createMemberChangeEvent({
+            assemblyName: 'Maranatha',
+            before: member(),
+            after: member(),
+            source: 'transfer',
+            changes: [{ field: ASSEMBLY_FIELD, oldValue: 'Central', newValue: 'Maranatha' }],
+        }, null);
+        expect(transfer?.changes.map(canRevertChange)).toEqual([false]);
+    });
+});
+
+describe('removed members', () => {
+    it('records the removal under the removed member', () => {
+        const event = createMemberChangeEvent({ assemblyName: 'Central', before: member(), after: null, source: 'delete' }, null);
+
+        expect(event).toMatchObject({ memberKey: 'tac001', memberName: 'Kwame Mensah', source: 'delete' });
+        expect(event?.changes).toContainEqual({ field: 'Surname', oldValue: 'Mensah', newValue: undefined });
+    });
+});
+
+describe('getMemberListChanges', () => {
+    it('matches members by number when a list is replaced', () => {
+        const kept = member();
+        const dropped = member({ "No.": 5, "Membership Number": 'TAC002', "First Name": 'Ama' });
+        const added = member({ "No.": 6, "Membership Number": 'TAC003', "First Name": 'Yaw' });
+        const edited = member({ "No.": 1, Surname: 'Mensa' });
+
+        expect(getMemberListChanges('Central', [kept, dropped], [edited, added], 'excel-upload')).toEqual([
+            { assemblyName: 'Central', before: kept, after: edited, source: 'excel-upload' },
+            { assemblyName: 'Central', before: null, after: added, source: 'excel-upload' },
+            { assemblyName: 'Central', before: dropped, after: null, source: 'excel-upload' },
+        ]);
+    });
+
+    it('removes every member when an assembly is deleted', () => {
+        expect(getMemberListChanges('Central', [member()], [], 'delete')).toEqual([
+            { assemblyName: 'Central', before: member(), after: null, source: 'delete' },
+        ]);
+    });
+});
+
+describe('getMemberHistoryKey', () => {
+    it('follows the membership number across assemblies', () => {
+        expect(getMemberHistoryKey(member(), 'Central')).toBe(getMemberHistoryKey(member(), 'Maranatha'));
+        expect(getMemberHistoryKey(member({ "Membership Number": '' }), 'Central')).toBe('central:no-4');
+    });
+});
+
+describe('getRevertedMember', () => {
+    it('puts one field back and removes fields that were added', () => {
+        const current = member({ Surname: 'Mensa', Email: 'new@example.com' });
+
+        expect(getRevertedMember(current, { field: 'Surname', oldValue: 'Mensah', newValue: 'Mensa' })).toEqual(
+            member({ Email: 'new@example.com' })
+        );
+        expect(getRevertedMember(current, { field: 'Email', oldValue: undefined, newValue: 'new@example.com' })).toEqual(
+            member({ Surname: 'Mensa' })
+        );
+    });
+});
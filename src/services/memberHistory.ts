@@ -0,0 +1,304 @@
+/**
+ * Member History
+ *
+ * An append-only audit trail of member record changes. Every mutation of a
+ * member (manual edit, Excel upload, reconciliation, sync, transfer, merge,
+ * deletion) is written as an event with who made it, when, where it came from and
+ * the field-level diff. Events are never updated or deleted; reverting a
+ * field is itself a new event.
+ *
+ * Events are keyed by membership number so a member's history follows them
+ * across transfers; members without a number fall back to their position
+ * in the assembly.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { GoogleUserProfile, MemberRecordA } from '@/types';
+import { getMemberSyncId } from './memberMerge';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MemberChangeSource =
+    | 'manual'
+    | 'excel-upload'
+    | 'reconciliation'
+    | 'sync'
+    | 'transfer'
+    | 'merge'
+    | 'delete'
+    | 'revert';
+
+export interface MemberFieldChange {
+    field: string;
+    oldValue: unknown;             // undefined when the field was added
+    newValue: unknown;             // undefined when the field was removed
+}
+
+/** The signed-in Google account that made a change */
+export interface MemberChangeActor {
+    id: string;
+    name: string;
+    email: string;
+}
+
+export interface MemberChangeEvent {
+    id: string;
+    memberKey: string;             // See getMemberHistoryKey
+    assemblyName: string;          // Assembly the member was in after the change
+    memberName: string;
+    source: MemberChangeSource;
+    actor: MemberChangeActor | null;
+    timestamp: number;
+    changes: MemberFieldChange[];
+}
+
+export interface MemberChangeInput {
+    assemblyName: string;
+    before: MemberRecordA | null;  // null for a new member
+    after: MemberRecordA | null;   // null for a removed member
+    source: MemberChangeSource;
+    /** Recorded instead of the diff of before and after */
+    changes?: MemberFieldChange[];
+}
+
+interface MemberHistoryDB extends DBSchema {
+    events: {
+        key: string;
+        value: MemberChangeEvent;
+        indexes: {
+            'by-member': string;
+        };
+    };
+}
+
+type MemberHistoryListener = (events: MemberChangeEvent[]) => void;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DB_NAME = 'tactms-member-history';
+const DB_VERSION = 1;
+
+/** Pseudo-field recorded when a member moves between assemblies */
+export const ASSEMBLY_FIELD = 'Assembly';
+
+/** Bookkeeping fields that change without the member's details changing */
+const IGNORED_FIELDS = new Set(['No.', 'revision', 'revisedBy', 'customOrder', 'transferHistory']);
+
+export const MEMBER_CHANGE_SOURCE_LABELS: Record<MemberChangeSource, string> = {
+    manual: 'Manual edit',
+    'excel-upload': 'Excel upload',
+    reconciliation: 'Reconciliation',
+    sync: 'Synced from another device',
+    transfer: 'Transfer',
+    merge: 'Duplicates merged',
+    delete: 'Member deleted',
+    revert: 'Field reverted',
+};
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let dbPromise: Promise<IDBPDatabase<MemberHistoryDB>> | null = null;
+let currentActor: MemberChangeActor | null = null;
+const listeners = new Set<MemberHistoryListener>();
+
+const getDB = async (): Promise<IDBPDatabase<MemberHistoryDB>> => {
+    if (!dbPromise) {
+        dbPromise = openDB<MemberHistoryDB>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion) {
+                // Version 1: Append-only change events
+                if (oldVersion < 1) {
+                    const store = db.createObjectStore('events', { keyPath: 'id' });
+                    store.createIndex('by-member', 'memberKey');
+                }
+            },
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Attribute later changes to the signed-in Google account (null when signed out)
+ */
+export const setMemberHistoryActor = (profile: GoogleUserProfile | null): void => {
+    currentActor = profile ? { id: profile.id, name: profile.name, email: profile.email } : null;
+};
+
+/**
+ * Called with the new events after each write
+ */
+export const subscribeMemberHistory = (listener: MemberHistoryListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// ============================================================================
+// DIFFS & EVENTS
+// ============================================================================
+
+const normalizeValue = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value).trim();
+};
+
+/**
+ * Key a member's history is stored under
+ */
+export const getMemberHistoryKey = (member: MemberRecordA, assemblyName: string): string => {
+    const id = getMemberSyncId(member);
+    return id ? id.toLowerCase() : `${assemblyName.toLowerCase()}:no-${member["No."]}`;
+};
+
+/**
+ * Fields whose value differs between two versions of a member
+ */
+export const diffMemberRecords = (before: MemberRecordA | null, after: MemberRecordA | null): MemberFieldChange[] => {
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    const changes: MemberFieldChange[] = [];
+
+    fields.forEach((field) => {
+        if (IGNORED_FIELDS.has(field)) return;
+        const oldValue = before?.[field];
+        const newValue = after?.[field];
+        if (normalizeValue(oldValue) !== normalizeValue(newValue)) {
+            changes.push({ field, oldValue, newValue });
+        }
+    });
+    return changes;
+};
+
+/**
+ * The event for a change, or null when nothing the user sees changed
+ */
+export const createMemberChangeEvent = (
+    input: MemberChangeInput,
+    actor: MemberChangeActor | null,
+    now: number = Date.now()
+): MemberChangeEvent | null => {
+    const member = input.after || input.before;
+    const changes = input.changes || diffMemberRecords(input.before, input.after);
+    if (!member || changes.length === 0) return null;
+
+    return {
+        id: `change-${now}-${Math.random().toString(36).slice(2, 10)}`,
+        memberKey: getMemberHistoryKey(member, input.assemblyName),
+        assemblyName: input.assemblyName,
+        memberName: [member["First Name"], member.Surname].filter(Boolean).join(' '),
+        source: input.source,
+        actor,
+        timestamp: now,
+        changes,
+    };
+};
+
+/**
+ * Changes for replacing an assembly's member list: members are matched
+ * by history key, so unmatched old members are removed and unmatched new
+ * ones added
+ */
+export const getMemberListChanges = (
+    assemblyName: string,
+    before: MemberRecordA[],
+    after: MemberRecordA[],
+    source: MemberChangeSource
+): MemberChangeInput[] => {
+    const remaining = new Map<string, MemberRecordA[]>();
+    before.forEach((member) => {
+        const key = getMemberHistoryKey(member, assemblyName);
+        remaining.set(key, [...(remaining.get(key) || []), member]);
+    });
+
+    const inputs: MemberChangeInput[] = after.map((member) => ({
+        assemblyName,
+        before: remaining.get(getMemberHistoryKey(member, assemblyName))?.shift() || null,
+        after: member,
+        source,
+    }));
+    remaining.forEach((members) =>
+        members.forEach((member) => inputs.push({ assemblyName, before: member, after: null, source }))
+    );
+    return inputs;
+};
+
+/**
+ * Whether a change can be undone on the member record
+ */
+export const canRevertChange = (change: MemberFieldChange): boolean =>
+    change.field !== ASSEMBLY_FIELD && !IGNORED_FIELDS.has(change.field);
+
+/**
+ * The member with one field put back to its value before a change
+ */
+export const getRevertedMember = (member: MemberRecordA, change: MemberFieldChange): MemberRecordA => {
+    const reverted: MemberRecordA = { ...member };
+    if (change.oldValue === undefined) {
+        delete reverted[change.field];
+    } else {
+        reverted[change.field] = change.oldValue;
+    }
+    return reverted;
+};
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Append the events for a batch of changes, skipping ones with no diff
+ */
+export const recordMemberChanges = async (
+    inputs: MemberChangeInput[],
+    now: number = Date.now()
+): Promise<MemberChangeEvent[]> => {
+    const events = inputs
+        .map((input) => createMemberChangeEvent(input, currentActor, now))
+        .filter((e): e is MemberChangeEvent => e !== null);
+    if (events.length === 0) return [];
+
+    const db = await getDB();
+    const tx = db.transaction('events', 'readwrite');
+    // add() rather than put(): an existing event is never overwritten
+    for (const event of events) await tx.store.add(event);
+    await tx.done;
+
+    listeners.forEach((listener) => listener(events));
+    return events;
+};
+
+/**
+ * A member's change events, newest first
+ */
+export const getMemberHistory = async (member: MemberRecordA, assemblyName: string): Promise<MemberChangeEvent[]> => {
+    const db = await getDB();
+    const events = await db.getAllFromIndex('events', 'by-member', getMemberHistoryKey(member, assemblyName));
+    return events.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Every recorded event (backup)
+ */
+export const exportMemberHistory = async (): Promise<MemberChangeEvent[]> => {
+    const db = await getDB();
+    return db.getAll('events');
+};
+
+/**
+ * Replace the whole trail with a backup's events (backup restore)
+ */
+export const replaceMemberHistory = async (events: MemberChangeEvent[]): Promise<void> => {
+    const db = await getDB();
+    const tx = db.transaction('events', 'readwrite');
+    await tx.store.clear();
+    for (const event of events) await tx.store.put(event);
+    await tx.done;
+
+    listeners.forEach((listener) => listener(events));
+};
@@ -0,0 +1,100 @@
+/// <reference types="vitest/globals" />
+/**
+ * memberMerge.test.ts
+ * Tests for three-way merging of offline member edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyConflictChoices, getMemberSyncId, threeWayMerge } from './memberMerge';
+import { MemberRecordA } from '../types';
+
+const base: MemberRecordA = {
+    'No.': 1,
+    'Membership Number': 'TAC001',
+    'First Name': 'Kwame',
+    Surname: 'Mensah',
+    'Phone Number': '0241111111',
+    Email: 'kwame@example.com',
+    revision: 3,
+};
+
+describe('threeWayMerge', () => {
+    it('returns no conflicts when only one side changed', () => {
+        const local = { ...base, 'Phone Number': '0242222222', revision: 4 };
+        const result = threeWayMerge(base, local, base);
+
+        expect(result.conflicts).toHaveLength(0);
+        expect(result.merged['Phone Number']).toBe('0242222222');
+    });
+
+    it('takes remote changes to fields the local edit did not touch', () => {
+        const local = { ...base, 'Phone Number': '0242222222', revision: 4 };
+        const remote = { ...base, Email: 'k.mensah@example.com', revision: 4 };
+        const result = threeWayMerge(base, local, remote);
+
+        expect(result.conflicts).toHaveLength(0);
+        expect(result.merged['Phone Number']).toBe('0242222222');
+        expect(result.merged.Email).toBe('k.mensah@example.com');
+        expect(result.mergedFields).toEqual(['Email']);
+    });
+
+    it('flags fields both sides changed to different values', () => {
+        const local = { ...base, Surname: 'Mensa', revision: 4 };
+        const remote = { ...base, Surname: 'Mensah-Boateng', revision: 4 };
+        const result = threeWayMerge(base, local, remote);
+
+        expect(result.conflicts).toEqual([
+            {
+                field: 'Surname',
+                baseValue: 'Mensah',
+                localValue: 'Mensa',
+                remoteValue: 'Mensah-Boateng',
+            },
+        ]);
+        // Local value is kept until the conflict is resolved
+        expect(result.merged.Surname).toBe('Mensa');
+    });
+
+    it('does not flag identical edits on both sides', () => {
+        const local = { ...base, Surname: 'Mensa', revision: 4 };
+        const remote = { ...base, Surname: 'Mensa ', revision: 4 };
+
+        expect(threeWayMerge(base, local, remote).conflicts).toHaveLength(0);
+    });
+
+    it('ignores bookkeeping fields', () => {
+        const local = { ...base, 'No.': 7, customOrder: 2, revision: 4 };
+        const remote = { ...base, 'No.': 9, customOrder: 5, revision: 6 };
+
+        expect(threeWayMerge(base, local, remote).conflicts).toHaveLength(0);
+    });
+
+    it('treats a field added on the remote side as a remote change', () => {
+        const remote = { ...base, Hometown: 'Kumasi', revision: 4 };
+        const result = threeWayMerge(base, base, remote);
+
+        expect(result.merged.Hometown).toBe('Kumasi');
+        expect(result.conflicts).toHaveLength(0);
+    });
+});
+
+describe('applyConflictChoices', () => {
+    it('applies per-field choices and defaults to the local value', () => {
+        const local = { ...base, Surname: 'Mensa', Email: 'local@example.com' };
+        const remote = { ...base, Surname: 'Boateng', Email: 'remote@example.com' };
+        const { merged, conflicts } = threeWayMerge(base, local, remote);
+
+        const resolved = applyConflictChoices(merged, conflicts, { Surname: 'remote' });
+
+        expect(resolved.Surname).toBe('Boateng');
+        expect(resolved.Email).toBe('local@example.com');
+    });
+});
+
+describe('getMemberSyncId', () => {
+    it('prefers the membership number and falls back to the old number', () => {
+        expect(getMemberSyncId(base)).toBe('TAC001');
+        expect(getMemberSyncId({ 'Old Membership Number': ' 651101008 ' })).toBe('651101008');
+        expect(getMemberSyncId({})).toBe('');
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Member Merge Service
+ * Three-way merge of member records edited offline on different devices.
+ * The base is the record both edits started from (tracked via `revision`).
+ */
+
+import { MemberFieldConflict, MemberRecordA } from "../types";
+
+/**
+ * Bookkeeping fields that are never merged or shown as conflicts
+ */
+const NON_MERGEABLE_FIELDS = new Set<string>([
+    "No.",
+    "revision",
+    "revisedBy",
+    "firstSeenDate",
+    "firstSeenSource",
+    "customOrder",
+    "transferHistory",
+]);
+
+export interface ThreeWayMergeResult {
+    merged: MemberRecordA;
+    conflicts: MemberFieldConflict[];
+    /** Fields changed only on the remote side, taken automatically */
+    mergedFields: string[];
+}
+
+/**
+ * Stable identity used to match a member across devices
+ */
+export const getMemberSyncId = (member: MemberRecordA): string =>
+    String(member["Membership Number"] || member["Old Membership Number"] || "").trim();
+
+const normalizeValue = (value: unknown): string =>
+    value === undefined || value === null ? "" : String(value).trim();
+
+/**
+ * Merge local and remote edits of the same member against their common base.
+ *
+ * Per field:
+ * - both sides agree -> keep
+ * - only remote changed -> take remote
+ * - only local changed -> keep local
+ * - both changed differently -> conflict (merged keeps local until resolved)
+ */
+export const threeWayMerge = (
+    base: MemberRecordA,
+    local: MemberRecordA,
+    remote: MemberRecordA
+): ThreeWayMergeResult => {
+    const merged: MemberRecordA = { ...local };
+    const conflicts: MemberFieldConflict[] = [];
+    const mergedFields: string[] = [];
+
+    const fields = new Set([
+        ...Object.keys(base),
+        ...Object.keys(local),
+        ...Object.keys(remote),
+    ]);
+
+    fields.forEach((field) => {
+        if (NON_MERGEABLE_FIELDS.has(field)) return;
+
+        const baseVal = normalizeValue(base[field]);
+        const localVal = normalizeValue(local[field]);
+        const remoteVal = normalizeValue(remote[field]);
+
+        if (localVal === remoteVal) return;
+
+        if (localVal === baseVal) {
+            merged[field] = remote[field];
+            mergedFields.push(field);
+            return;
+        }
+
+        if (remoteVal === baseVal) return;
+
+        conflicts.push({
+            field,
+            baseValue: base[field],
+            localValue: local[field],
+            remoteValue: remote[field],
+        });
+    });
+
+    return { merged, conflicts, mergedFields };
+};
+
+/**
+ * Apply per-field choices from the merge UI on top of a merge result
+ */
+export const applyConflictChoices = (
+    merged: MemberRecordA,
+    conflicts: MemberFieldConflict[],
+    choices: Record<string, "local" | "remote">
+): MemberRecordA => {
+    const resolved: MemberRecordA = { ...merged };
+    conflicts.forEach((conflict) => {
+        resolved[conflict.field] = choices[conflict.field] === "remote"
+            ? conflict.remoteValue
+            : conflict.localValue;
+    });
+    return resolved;
+};
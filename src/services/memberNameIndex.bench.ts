@@ -0,0 +1,47 @@
+/**
+ * memberNameIndex.bench.ts
+ * Name lookups against a 600-member assembly, with and without the member
+ * name index. Run with `npm run bench`.
+ */
+
+import { bench, describe } from 'vitest';
+import { buildMemberNameIndex, getMemberNameIndex } from './memberNameIndex';
+import { findMemberByNameSync, getTopFuzzyMatches } from './reconciliation';
+import { createRandom, damageName, generateMembers } from '@/test/memberFixtures';
+
+const MEMBERS = generateMembers(600, 21);
+
+/** One tithe book page worth of extracted names */
+const NAMES = (() => {
+    const random = createRandom(7);
+    return Array.from({ length: 30 }, () => damageName(MEMBERS[Math.floor(random() * MEMBERS.length)], random));
+})();
+
+// Built outside the timed runs, as it is once per master list in the app
+getMemberNameIndex(MEMBERS);
+
+describe('findMemberByNameSync, one page of names', () => {
+    bench('indexed', () => {
+        NAMES.forEach((name) => findMemberByNameSync(name, MEMBERS));
+    });
+
+    bench('full scan', () => {
+        NAMES.forEach((name) => findMemberByNameSync(name, MEMBERS, undefined, false));
+    }, { iterations: 3 });
+});
+
+describe('getTopFuzzyMatches, one page of names', () => {
+    bench('indexed', () => {
+        NAMES.forEach((name) => getTopFuzzyMatches(name, MEMBERS));
+    });
+
+    bench('full scan', () => {
+        NAMES.forEach((name) => getTopFuzzyMatches(name, MEMBERS, 3, 0.3, false));
+    }, { iterations: 3 });
+});
+
+describe('index build', () => {
+    bench('buildMemberNameIndex, 600 members', () => {
+        buildMemberNameIndex(MEMBERS);
+    });
+});
@@ -0,0 +1,114 @@
+/// <reference types="vitest/globals" />
+/**
+ * memberNameIndex.test.ts
+ * Tests that indexed name lookups give the same results as scoring every
+ * member, on a generated assembly and OCR-damaged names
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemberRecordA } from '@/types';
+import {
+    buildMemberNameIndex,
+    clearMemberNameIndexes,
+    findCandidateMembers,
+    getMemberNameIndex,
+} from './memberNameIndex';
+import { findMemberByName, findMemberByNameSync, getTopFuzzyMatches } from './reconciliation';
+import { preprocessName, stripTitles } from '@/lib/ghanaianNames';
+import { createRandom, damageName, generateMembers } from '@/test/memberFixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const MEMBERS = generateMembers(200, 21);
+
+const QUERIES = (() => {
+    const random = createRandom(7);
+    const names = Array.from({ length: 80 }, () => damageName(MEMBERS[Math.floor(random() * MEMBERS.length)], random));
+    // Names that are not in the assembly at all
+    return [...names, 'JOHN DOE', 'ABDUL RAHMAN', 'NANA YAW', 'X', 'PRISCILLA OWUSU-ANSAH', 'AKWASI BOATENG'];
+})();
+
+const summarize = (match: { member: MemberRecordA; score: number; matchedName: string } | null) =>
+    match && { id: match.member['Membership Number'], score: match.score, matchedName: match.matchedName };
+
+/** Every query is also scored against the whole assembly */
+const SCAN_TIMEOUT = 30000;
+
+beforeEach(() => {
+    clearMemberNameIndexes();
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('memberNameIndex', () => {
+    it('finds the same best match as scoring every member', () => {
+        for (const query of QUERIES) {
+            expect(summarize(findMemberByNameSync(query, MEMBERS)), query).toEqual(
+                summarize(findMemberByNameSync(query, MEMBERS, undefined, false))
+            );
+        }
+    }, SCAN_TIMEOUT);
+
+    it('keeps the title combinations of the async lookup', async () => {
+        for (const query of QUERIES.slice(0, 20)) {
+            const indexed = await findMemberByName(query, MEMBERS);
+            const scanned = await findMemberByName(query, MEMBERS, undefined, undefined, undefined, false);
+            expect(summarize(indexed), query).toEqual(summarize(scanned));
+        }
+    }, SCAN_TIMEOUT);
+
+    it('ranks suggestions the same as scoring every member', () => {
+        for (const query of QUERIES) {
+            expect(getTopFuzzyMatches(query, MEMBERS).map(summarize), query).toEqual(
+                getTopFuzzyMatches(query, MEMBERS, 3, 0.3, false).map(summarize)
+            );
+        }
+    }, SCAN_TIMEOUT);
+
+    it('scores only a small share of the assembly', () => {
+        const index = buildMemberNameIndex(MEMBERS);
+        const total = QUERIES.reduce(
+            (sum, query) => sum + findCandidateMembers(index, stripTitles(preprocessName(query))).length,
+            0
+        );
+        expect(total / QUERIES.length).toBeLessThan(MEMBERS.length * 0.15);
+    });
+
+    it('returns candidates in master list order', () => {
+        const index = buildMemberNameIndex(MEMBERS);
+        const positions = findCandidateMembers(index, 'KWAME MENSAH').map((m) => MEMBERS.indexOf(m));
+        expect(positions.length).toBeGreaterThan(0);
+        expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+});
+
+describe('getMemberNameIndex', () => {
+    it('reuses the index for the same list, even as a new array', () => {
+        const index = getMemberNameIndex(MEMBERS);
+        expect(getMemberNameIndex(MEMBERS)).toBe(index);
+
+        // e.g. the list structured-cloned into the extraction worker
+        const copy = MEMBERS.map((m) => ({ ...m }));
+        const copyIndex = getMemberNameIndex(copy);
+        expect(copyIndex.trigrams).toBe(index.trigrams);
+        expect(copyIndex.members).toBe(copy);
+    });
+
+    it('rebuilds when a name changes or the list is reordered', () => {
+        const index = getMemberNameIndex(MEMBERS);
+
+        const renamed = MEMBERS.map((m, i) => (i === 0 ? { ...m, Surname: 'Quartey' } : m));
+        const renamedIndex = getMemberNameIndex(renamed);
+        expect(renamedIndex.hash).not.toBe(index.hash);
+        expect(findCandidateMembers(renamedIndex, 'QUARTEY')).toContain(renamed[0]);
+
+        const reversed = [...MEMBERS].reverse();
+        const reversedIndex = getMemberNameIndex(reversed);
+        expect(reversedIndex.hash).toBe(index.hash);
+        expect(reversedIndex.trigrams).not.toBe(index.trigrams);
+    });
+});
@@ -0,0 +1,344 @@
+/**
+ * Member Name Index
+ *
+ * Fuzzy name matching in reconciliation.ts scores every member of an
+ * assembly against several name permutations. This index narrows a lookup
+ * down to the few members that can score at all, so only those get the full
+ * scoring:
+ * - Phonetic keys (ghanaianPhonetic), 4-letter prefixes and Akan day names
+ *   of every name token: everything ghanaianTokenSimilarity can match
+ * - A BK-tree of OCR-normalized name tokens: every token within the edit
+ *   distance getTokenSimilarity accepts (70% similar)
+ * - Trigram postings of the normalized full names: OCR misreads that
+ *   merge or split words
+ * - Canonical surnames, for the surname variant boost
+ *
+ * A member none of these find can only score on whole-name OCR similarity,
+ * which is bounded by the letters the names have in common, so
+ * addMembersInReach can widen the candidates until the ranking is exactly
+ * that of scoring everyone.
+ *
+ * One index is built per master list and kept until the list's hash (the
+ * lastMasterListHash of memberOrderService) changes.
+ */
+
+import { MemberRecordA } from '@/types';
+import { normalizeOCRText } from '@/utils/stringUtils';
+import { DAY_NAMES, ghanaianPhonetic, normalizeSurname, stripTitles, tokenizeGhanaianName } from '@/lib/ghanaianNames';
+import { generateMemberHash } from './memberOrderService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Letter counts of a normalized name (A-Z, then space) */
+interface NameLetters {
+    length: number;
+    counts: Uint8Array;
+}
+
+interface BKNode {
+    term: string;
+    /** Positions in the master list of members with this token */
+    positions: number[];
+    children: Map<number, BKNode>;
+}
+
+export interface MemberNameIndex {
+    /** Master list hash the index was built for */
+    hash: string;
+    members: MemberRecordA[];
+    /** Phonetic, prefix, day-name and surname keys → member positions */
+    keys: Map<string, number[]>;
+    /** Trigram → member positions */
+    trigrams: Map<string, number[]>;
+    tokenTree: BKNode | null;
+    /** Letter counts of each member's name permutations */
+    nameLetters: NameLetters[][];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Token similarity getTokenSimilarity needs to count a token as matched */
+const TOKEN_MATCH_SIMILARITY = 0.7;
+
+/** Share of a name's trigrams another name must have to be a candidate */
+const TRIGRAM_OVERLAP = 0.5;
+
+/** Indexes kept for master lists seen recently (one per assembly in practice) */
+const MAX_CACHED_INDEXES = 8;
+
+const dayOfName = new Map<string, string>();
+for (const [day, variants] of Object.entries(DAY_NAMES)) {
+    for (const name of [...variants.male, ...variants.female]) dayOfName.set(name, day);
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * The name permutations reconciliation compares against, titles stripped
+ */
+const getNameVariants = (member: MemberRecordA): string[] => {
+    const firstName = (member["First Name"] || "").trim();
+    const surname = (member.Surname || "").trim();
+    const otherNames = (member["Other Names"] || "").trim();
+    return [
+        `${firstName} ${surname}`,
+        `${firstName} ${otherNames} ${surname}`,
+        member.Title ? `${member.Title} ${firstName} ${surname}` : "",
+    ]
+        .filter(Boolean)
+        .map(stripTitles);
+};
+
+/** Keys under which ghanaianTokenSimilarity can pair two tokens */
+const getTokenKeys = (token: string): string[] => {
+    const keys = [`p:${ghanaianPhonetic(token).slice(0, 4)}`];
+    if (token.length >= 4) keys.push(`x:${token.slice(0, 4)}`);
+    const day = dayOfName.get(token);
+    if (day) keys.push(`d:${day}`);
+    return keys;
+};
+
+const getGhanaianTokens = (name: string): string[] => tokenizeGhanaianName(name).filter((t) => t.length > 1);
+
+const getOCRTokens = (name: string): string[] => normalizeOCRText(name).split(' ').filter((t) => t.length > 1);
+
+const getTrigrams = (name: string): Set<string> => {
+    const normalized = normalizeOCRText(name);
+    const trigrams = new Set<string>();
+    for (let i = 0; i + 3 <= normalized.length; i++) trigrams.add(normalized.slice(i, i + 3));
+    return trigrams;
+};
+
+const countLetters = (name: string): NameLetters => {
+    const normalized = normalizeOCRText(name);
+    const counts = new Uint8Array(27);
+    for (let i = 0; i < normalized.length; i++) {
+        const code = normalized.charCodeAt(i) - 65;
+        counts[code >= 0 && code < 26 ? code : 26]++;
+    }
+    return { length: normalized.length, counts };
+};
+
+const addPosting = (postings: Map<string, number[]>, key: string, position: number) => {
+    const list = postings.get(key);
+    if (!list) postings.set(key, [position]);
+    else if (list[list.length - 1] !== position) list.push(position);
+};
+
+// ============================================================================
+// BK-TREE
+// ============================================================================
+
+/**
+ * Edit distance with an early exit once it exceeds `limit`
+ */
+const boundedLevenshtein = (a: string, b: string, limit: number): number => {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > limit) return limit + 1;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const insertToken = (root: BKNode | null, term: string, position: number): BKNode => {
+    if (!root) return { term, positions: [position], children: new Map() };
+
+    let node = root;
+    for (; ;) {
+        const distance = boundedLevenshtein(term, node.term, Infinity);
+        if (distance === 0) {
+            if (node.positions[node.positions.length - 1] !== position) node.positions.push(position);
+            return root;
+        }
+        const child = node.children.get(distance);
+        if (!child) {
+            node.children.set(distance, { term, positions: [position], children: new Map() });
+            return root;
+        }
+        node = child;
+    }
+};
+
+const searchTokens = (root: BKNode | null, term: string, radius: number, found: Set<number>) => {
+    const stack = root ? [root] : [];
+    while (stack.length > 0) {
+        const node = stack.pop() as BKNode;
+        const distance = boundedLevenshtein(term, node.term, Infinity);
+        if (distance <= radius) node.positions.forEach((p) => found.add(p));
+        for (const [edge, child] of node.children) {
+            if (edge >= distance - radius && edge <= distance + radius) stack.push(child);
+        }
+    }
+};
+
+/**
+ * Largest edit distance at which two tokens can still be 70% similar,
+ * given the length of one of them
+ */
+const getTokenRadius = (length: number): number =>
+    Math.floor((length * (1 - TOKEN_MATCH_SIMILARITY)) / TOKEN_MATCH_SIMILARITY + 1e-9);
+
+// ============================================================================
+// BUILD & LOOKUP
+// ============================================================================
+
+/**
+ * Builds the index for a master list
+ */
+export const buildMemberNameIndex = (
+    members: MemberRecordA[],
+    hash: string = generateMemberHash(members)
+): MemberNameIndex => {
+    const keys = new Map<string, number[]>();
+    const trigrams = new Map<string, number[]>();
+    let tokenTree: BKNode | null = null;
+    const nameLetters: NameLetters[][] = [];
+
+    members.forEach((member, position) => {
+        const variants = getNameVariants(member);
+        nameLetters.push(variants.map(countLetters));
+        const ghanaianTokens = new Set(variants.flatMap(getGhanaianTokens));
+        const ocrTokens = new Set(variants.flatMap(getOCRTokens));
+        const memberTrigrams = new Set(variants.flatMap((v) => Array.from(getTrigrams(v))));
+
+        ghanaianTokens.forEach((token) => getTokenKeys(token).forEach((key) => addPosting(keys, key, position)));
+        addPosting(keys, `s:${normalizeSurname(member.Surname || "")}`, position);
+        ocrTokens.forEach((token) => {
+            tokenTree = insertToken(tokenTree, token, position);
+        });
+        memberTrigrams.forEach((trigram) => addPosting(trigrams, trigram, position));
+    });
+
+    return { hash, members, keys, trigrams, tokenTree, nameLetters };
+};
+
+/**
+ * Members that can match a raw name, in master list order. `cleanedName`
+ * is the raw name as reconciliation scores it (preprocessed, titles
+ * stripped).
+ */
+export const findCandidateMembers = (index: MemberNameIndex, cleanedName: string): MemberRecordA[] => {
+    const found = new Set<number>();
+
+    for (const token of getGhanaianTokens(cleanedName)) {
+        for (const key of getTokenKeys(token)) index.keys.get(key)?.forEach((p) => found.add(p));
+    }
+    index.keys.get(`s:${normalizeSurname(cleanedName)}`)?.forEach((p) => found.add(p));
+
+    for (const token of getOCRTokens(cleanedName)) {
+        searchTokens(index.tokenTree, token, getTokenRadius(token.length), found);
+    }
+
+    const queryTrigrams = getTrigrams(cleanedName);
+    if (queryTrigrams.size > 0) {
+        const shared = new Map<number, number>();
+        queryTrigrams.forEach((trigram) =>
+            index.trigrams.get(trigram)?.forEach((p) => shared.set(p, (shared.get(p) || 0) + 1))
+        );
+        const needed = Math.ceil(queryTrigrams.size * TRIGRAM_OVERLAP);
+        shared.forEach((count, p) => {
+            if (count >= needed) found.add(p);
+        });
+    }
+
+    return Array.from(found)
+        .sort((a, b) => a - b)
+        .map((p) => index.members[p]);
+};
+
+/**
+ * Highest whole-name OCR similarity two names can have, as
+ * getOCRAwareSimilarity scores it (1 - distance / longer length). Every
+ * position the edit distance leaves unchanged is a letter they share.
+ */
+const getSimilarityBound = (query: NameLetters, name: NameLetters): number => {
+    const longer = Math.max(query.length, name.length);
+    if (query.length === 0 || name.length === 0) return 0;
+    let shared = 0;
+    for (let i = 0; i < query.counts.length; i++) shared += Math.min(query.counts[i], name.counts[i]);
+    return shared / longer;
+};
+
+/**
+ * The candidates plus every other member sharing enough letters with the
+ * name to reach `minSimilarity`, in master list order. Scoring these
+ * gives the same result as scoring the whole list for anything at or
+ * above `minSimilarity`.
+ */
+export const addMembersInReach = (
+    index: MemberNameIndex,
+    cleanedName: string,
+    candidates: MemberRecordA[],
+    minSimilarity: number
+): MemberRecordA[] => {
+    const query = countLetters(cleanedName);
+    const isCandidate = new Set(candidates);
+    return index.members.filter(
+        (member, position) =>
+            isCandidate.has(member) ||
+            index.nameLetters[position].some((name) => getSimilarityBound(query, name) >= minSimilarity)
+    );
+};
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+let indexByList = new WeakMap<MemberRecordA[], MemberNameIndex>();
+const indexByHash = new Map<string, MemberNameIndex>();
+
+const memberKey = (m: MemberRecordA) => `${m["Membership Number"] || ""}|${m["First Name"] || ""}|${m.Surname || ""}`;
+
+/** The hash ignores order, but candidate positions depend on it */
+const hasSameOrder = (a: MemberRecordA[], b: MemberRecordA[]): boolean =>
+    a.length === b.length && a.every((m, i) => memberKey(m) === memberKey(b[i]));
+
+/**
+ * The index for a master list, built on first use. Lists arriving as new
+ * arrays (e.g. copied into a worker) reuse the index while their hash is
+ * unchanged.
+ */
+export const getMemberNameIndex = (members: MemberRecordA[]): MemberNameIndex => {
+    const known = indexByList.get(members);
+    if (known) return known;
+
+    const hash = generateMemberHash(members);
+    let index = indexByHash.get(hash);
+    if (!index || !hasSameOrder(index.members, members)) {
+        index = buildMemberNameIndex(members, hash);
+        indexByHash.delete(hash);
+        if (indexByHash.size >= MAX_CACHED_INDEXES) {
+            const oldest = indexByHash.keys().next().value;
+            if (oldest !== undefined) indexByHash.delete(oldest);
+        }
+        indexByHash.set(hash, index);
+    } else if (index.members !== members) {
+        // Same list in a new array: hand back the caller's records
+        index = { ...index, members };
+    }
+    indexByList.set(members, index);
+    return index;
+};
+
+/**
+ * Drop every cached index (tests, or after a backup restore)
+ */
+export const clearMemberNameIndexes = (): void => {
+    indexByList = new WeakMap();
+    indexByHash.clear();
+};
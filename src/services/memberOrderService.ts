@@ -94,7 +94,7 @@ export interface OrderExport {
 export interface OrderHistoryEntry {
     id: string;
     assemblyName: string;
-    action: 'reorder' | 'import' | 'reset' | 'ai_reorder' | 'manual';
+    action: 'reorder' | 'import' | 'reset' | 'ai_reorder' | 'manual' | 'transfer' | 'merge';
     timestamp: number;
     description: string;
     affectedCount: number;
@@ -135,6 +135,9 @@ export interface OrderSnapshot {
     }>;
 }
 
+/**
+ * Name alias as the learnedAliases store used to keep it (see nameAliases)
+ */
 export interface LearnedAlias {
     id: string;                    // normalized extractedName + assemblyName
     assemblyName: string;
@@ -232,10 +235,14 @@ const normalizeToRawId = (memberId: string): string => {
 };
 
 /**
- * Generate a simple hash of member data to detect changes
+ * Simple hash of a master list's members and their names, regardless of order.
+ * Stored as lastMasterListHash; the member name index is rebuilt when it changes.
  */
-const generateMemberHash = (members: MemberRecordA[]): string => {
-    const ids = members.map(m => m["Membership Number"] || '').sort().join(',');
+export const generateMemberHash = (members: MemberRecordA[]): string => {
+    const ids = members
+        .map(m => [m["Membership Number"], m.Title, m["First Name"], m.Surname, m["Other Names"]].map(v => v || '').join('|'))
+        .sort()
+        .join(',');
     // Simple hash
     let hash = 0;
     for (let i = 0; i < ids.length; i++) {
@@ -688,27 +695,34 @@ export const deleteAssemblyData = async (assemblyName: string): Promise<void> =>
     await tx.done;
 };
 
+export interface MemberOrderBackup {
+    memberOrders: MemberOrderEntry[];
+    assemblyMeta: AssemblyMetadata[];
+    orderHistory?: OrderHistoryEntry[];
+    orderSnapshots?: OrderSnapshot[];
+    /** Only in backups made before aliases moved to nameAliases */
+    learnedAliases?: LearnedAlias[];
+}
+
+const BACKUP_STORES = ['memberOrders', 'assemblyMeta', 'orderHistory', 'orderSnapshots'] as const;
+
 /**
  * Export all member order data for backup
  */
-export const exportAllData = async (): Promise<{
-    memberOrders: MemberOrderEntry[];
-    assemblyMeta: AssemblyMetadata[];
-}> => {
+export const exportAllData = async (): Promise<Required<Omit<MemberOrderBackup, 'learnedAliases'>>> => {
     const db = await getDB();
     return {
         memberOrders: await db.getAll('memberOrders'),
         assemblyMeta: await db.getAll('assemblyMeta'),
+        orderHistory: await db.getAll('orderHistory'),
+        orderSnapshots: await db.getAll('orderSnapshots'),
     };
 };
 
 /**
  * Import member order data from backup
  */
-export const importData = async (data: {
-    memberOrders: MemberOrderEntry[];
-    assemblyMeta: AssemblyMetadata[];
-}): Promise<void> => {
+export const importData = async (data: MemberOrderBackup): Promise<void> => {
     const db = await getDB();
 
     const tx = db.transaction(['memberOrders', 'assemblyMeta'], 'readwrite');
@@ -724,6 +738,26 @@ export const importData = async (data: {
     await tx.done;
 };
 
+/**
+ * Replace every store with the contents of a backup (full restore).
+ * Stores missing from older backups are left empty. Old aliases are
+ * cleared; the backup's aliases are restored by nameAliases.
+ */
+export const replaceAllData = async (data: MemberOrderBackup): Promise<void> => {
+    const db = await getDB();
+    const tx = db.transaction([...BACKUP_STORES, 'learnedAliases'], 'readwrite');
+
+    for (const storeName of [...BACKUP_STORES, 'learnedAliases'] as const) {
+        await tx.objectStore(storeName).clear();
+    }
+    for (const order of data.memberOrders) await tx.objectStore('memberOrders').put(order);
+    for (const meta of data.assemblyMeta) await tx.objectStore('assemblyMeta').put(meta);
+    for (const entry of data.orderHistory || []) await tx.objectStore('orderHistory').put(entry);
+    for (const snapshot of data.orderSnapshots || []) await tx.objectStore('orderSnapshots').put(snapshot);
+
+    await tx.done;
+};
+
 // ============================================================================
 // ASSEMBLY-SPECIFIC EXPORT/IMPORT
 // ============================================================================
@@ -844,6 +878,150 @@ export const getOrderHistory = async (
         .slice(0, limit);
 };
 
+// ============================================================================
+// TRANSFERS & MERGES
+// ============================================================================
+
+/**
+ * Move a member's order entry to another assembly (see memberTransfer).
+ * The old entry stays, inactive, with its tithe book position. The member
+ * joins the end of the new assembly's book, or gets their old position
+ * back if they return to an assembly and it is still free. firstSeenDate
+ * carries over so a transfer is not counted as a won soul.
+ */
+export const transferMemberOrder = async (
+    memberId: string,
+    fromAssembly: string,
+    toAssembly: string,
+    displayName?: string
+): Promise<MemberOrderEntry> => {
+    const db = await getDB();
+    const now = Date.now();
+    const normalizedId = normalizeToRawId(memberId);
+
+    const sourceEntries = await db.getAllFromIndex('memberOrders', 'by-assembly', fromAssembly);
+    const targetEntries = await db.getAllFromIndex('memberOrders', 'by-assembly', toAssembly);
+    const source = sourceEntries.find(e => normalizeToRawId(e.memberId) === normalizedId);
+    const returning = targetEntries.find(e => normalizeToRawId(e.memberId) === normalizedId);
+
+    const maxIndex = targetEntries.length > 0
+        ? Math.max(...targetEntries.map(e => e.titheBookIndex))
+        : 0;
+    const positionTaken = (index: number) =>
+        targetEntries.some(e => e.isActive && e.titheBookIndex === index && e !== returning);
+
+    const firstSeenDate = [source?.firstSeenDate, returning?.firstSeenDate]
+        .filter((d): d is string => !!d)
+        .sort()[0] || new Date().toISOString();
+
+    const entry: MemberOrderEntry = {
+        id: returning?.id || generateId(memberId, toAssembly),
+        memberId: returning?.memberId || memberId,
+        displayName: displayName || source?.displayName || returning?.displayName || memberId,
+        titheBookIndex: returning && !positionTaken(returning.titheBookIndex)
+            ? returning.titheBookIndex
+            : maxIndex + 1,
+        assemblyName: toAssembly,
+        firstSeenDate,
+        firstSeenMonth: firstSeenDate.slice(0, 7),
+        lastUpdated: now,
+        isActive: true,
+    };
+
+    const tx = db.transaction('memberOrders', 'readwrite');
+    if (source) {
+        await tx.store.put({ ...source, isActive: false, lastUpdated: now });
+    }
+    await tx.store.put(entry);
+    await tx.done;
+
+    await logOrderChange({
+        assemblyName: fromAssembly,
+        action: 'transfer',
+        timestamp: now,
+        description: `${entry.displayName} transferred to ${toAssembly}`,
+        affectedCount: 1,
+    });
+    await logOrderChange({
+        assemblyName: toAssembly,
+        action: 'transfer',
+        timestamp: now,
+        description: `${entry.displayName} transferred from ${fromAssembly} (position ${entry.titheBookIndex})`,
+        affectedCount: 1,
+    });
+
+    return entry;
+};
+
+/**
+ * Fold the order entries of duplicate records into the surviving member
+ * (see memberDuplicates). Duplicate entries are kept, inactive. The
+ * survivor keeps its tithe book position, or takes a duplicate's in the
+ * same assembly if it had none, and the earliest firstSeenDate.
+ */
+export const mergeMemberOrderEntries = async (
+    survivor: { memberId: string; assemblyName: string; displayName?: string },
+    duplicates: Array<{ memberId: string; assemblyName: string }>
+): Promise<void> => {
+    const db = await getDB();
+    const now = Date.now();
+    const survivorId = normalizeToRawId(survivor.memberId);
+
+    const findEntry = async (memberId: string, assemblyName: string) => {
+        const normalizedId = normalizeToRawId(memberId);
+        const entries = await db.getAllFromIndex('memberOrders', 'by-assembly', assemblyName);
+        return entries.find(e => normalizeToRawId(e.memberId) === normalizedId);
+    };
+
+    const survivorEntry = await findEntry(survivor.memberId, survivor.assemblyName);
+    const duplicateEntries: MemberOrderEntry[] = [];
+    for (const duplicate of duplicates) {
+        if (normalizeToRawId(duplicate.memberId) === survivorId && duplicate.assemblyName === survivor.assemblyName) continue;
+        const entry = await findEntry(duplicate.memberId, duplicate.assemblyName);
+        if (entry && entry !== survivorEntry) duplicateEntries.push(entry);
+    }
+    if (duplicateEntries.length === 0) return;
+
+    const firstSeenDate = [survivorEntry, ...duplicateEntries]
+        .map(e => e?.firstSeenDate)
+        .filter((d): d is string => !!d)
+        .sort()[0];
+    const sameAssembly = duplicateEntries
+        .filter(e => e.assemblyName === survivor.assemblyName && e.isActive)
+        .sort((a, b) => a.titheBookIndex - b.titheBookIndex)[0];
+
+    const tx = db.transaction('memberOrders', 'readwrite');
+    for (const entry of duplicateEntries) {
+        await tx.store.put({ ...entry, isActive: false, lastUpdated: now });
+    }
+    if (survivorEntry || sameAssembly) {
+        const base = survivorEntry || sameAssembly;
+        await tx.store.put({
+            ...base,
+            id: survivorEntry?.id || generateId(survivor.memberId, survivor.assemblyName),
+            memberId: survivorEntry?.memberId || survivor.memberId,
+            displayName: survivor.displayName || base.displayName,
+            assemblyName: survivor.assemblyName,
+            firstSeenDate,
+            firstSeenMonth: firstSeenDate.slice(0, 7),
+            lastUpdated: now,
+            isActive: true,
+        });
+    }
+    await tx.done;
+
+    const affected = new Set([survivor.assemblyName, ...duplicateEntries.map(e => e.assemblyName)]);
+    for (const assemblyName of affected) {
+        await logOrderChange({
+            assemblyName,
+            action: 'merge',
+            timestamp: now,
+            description: `Merged duplicate records into ${survivor.displayName || survivor.memberId}`,
+            affectedCount: duplicateEntries.filter(e => e.assemblyName === assemblyName).length + (assemblyName === survivor.assemblyName ? 1 : 0),
+        });
+    }
+};
+
 // ============================================================================
 // BULK RESET
 // ============================================================================
@@ -1259,123 +1437,19 @@ export const getLatestSnapshot = async (
 };
 
 // ============================================================================
-// LEARNED ALIASES (NAME LEARNING)
+// LEGACY LEARNED ALIASES
 // ============================================================================
 
 /**
- * Generate ID for a learned alias
+ * Every alias left in the old learnedAliases store (all assemblies).
+ * Aliases now live in nameAliases, which migrates these on first use.
  */
-const generateAliasId = (extractedName: string, assemblyName: string): string => {
-    const normalized = extractedName.toLowerCase().trim().replace(/\s+/g, '-');
-    return `alias-${assemblyName.toLowerCase()}-${normalized}`;
-};
-
-/**
- * Save a learned alias when user manually resolves a name
- */
-export const saveLearnedAlias = async (
-    assemblyName: string,
-    extractedName: string,
-    member: MemberRecordA
-): Promise<void> => {
-    // Guard: don't save empty aliases
-    if (!extractedName || !extractedName.trim()) {
-        console.warn('saveLearnedAlias: extractedName is empty, skipping');
-        return;
-    }
-
+export const readLegacyLearnedAliases = async (): Promise<LearnedAlias[]> => {
     const db = await getDB();
-    const now = Date.now();
-
-    const memberId = member["Membership Number"] || member["Old Membership Number"] || "";
-    const displayName = [
-        member.Title,
-        member["First Name"],
-        member.Surname,
-        member["Other Names"]
-    ].filter(Boolean).join(' ');
-
-    const id = generateAliasId(extractedName, assemblyName);
-
-    // Check if alias already exists
-    const existing = await db.get('learnedAliases', id);
-
-    const alias: LearnedAlias = {
-        id,
-        assemblyName,
-        extractedName: extractedName.toLowerCase().trim(),
-        memberId: memberId.toLowerCase(),
-        memberDisplayName: displayName || memberId,
-        createdAt: existing?.createdAt || now,
-        usageCount: existing ? existing.usageCount + 1 : 1,  // First use = 1, not 0
-        lastUsed: now,
-    };
-
-    await db.put('learnedAliases', alias);
-    console.log(`Saved alias: "${extractedName}" → "${displayName}" for ${assemblyName}`);
+    return db.getAll('learnedAliases');
 };
 
-/**
- * Get all learned aliases for an assembly
- */
-export const getLearnedAliases = async (
-    assemblyName: string
-): Promise<LearnedAlias[]> => {
-    const db = await getDB();
-    return db.getAllFromIndex('learnedAliases', 'by-assembly', assemblyName);
-};
-
-/**
- * Find a learned alias match for an extracted name
- */
-export const findAliasMatch = async (
-    assemblyName: string,
-    extractedName: string
-): Promise<LearnedAlias | null> => {
-    const db = await getDB();
-    const normalized = extractedName.toLowerCase().trim();
-
-    // Try exact match first
-    const id = generateAliasId(extractedName, assemblyName);
-    const exact = await db.get('learnedAliases', id);
-    if (exact) return exact;
-
-    // Fallback: get all and do manual check (for slightly different normalization)
-    const all = await db.getAllFromIndex('learnedAliases', 'by-assembly', assemblyName);
-    return all.find(a => a.extractedName === normalized) || null;
-};
-
-/**
- * Increment usage count when an alias is auto-applied
- */
-export const incrementAliasUsage = async (aliasId: string): Promise<void> => {
-    const db = await getDB();
-    const alias = await db.get('learnedAliases', aliasId);
-    if (alias) {
-        alias.usageCount++;
-        alias.lastUsed = Date.now();
-        await db.put('learnedAliases', alias);
-    }
-};
-
-/**
- * Delete a learned alias
- */
-export const deleteLearnedAlias = async (aliasId: string): Promise<void> => {
+export const clearLegacyLearnedAliases = async (): Promise<void> => {
     const db = await getDB();
-    await db.delete('learnedAliases', aliasId);
-};
-
-/**
- * Get aliases as a Map for quick lookup (used in AI matching)
- */
-export const getAliasMap = async (
-    assemblyName: string
-): Promise<Map<string, string>> => {
-    const aliases = await getLearnedAliases(assemblyName);
-    const map = new Map<string, string>();
-    for (const alias of aliases) {
-        map.set(alias.extractedName, alias.memberId);
-    }
-    return map;
+    await db.clear('learnedAliases');
 };
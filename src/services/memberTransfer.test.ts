@@ -0,0 +1,105 @@
+/// <reference types="vitest/globals" />
+/**
+ * memberTransfer.test.ts
+ * Tests moving members between assemblies and finding the assembly a
+ * transferred member belonged to on a date
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MemberDatabase, MemberRecordA } from '@/types';
+import {
+    buildTransferLookup,
+    findAssemblyOnDate,
+    getAssemblyOnDate,
+    transferMemberRecord,
+} from './memberTransfer';
+
+const member = (no: number, id: string, firstName: string): MemberRecordA => ({
+    "No.": no,
+    "Membership Number": id,
+    "First Name": firstName,
+    Surname: 'Mensah',
+    firstSeenDate: '2023-02-05T00:00:00.000Z',
+});
+
+const createDatabase = (): MemberDatabase => ({
+    Central: { data: [member(1, 'TAC001', 'Kwame'), member(2, 'TAC002', 'Ama')], lastUpdated: 0, fileName: 'central.xlsx' },
+    Maranatha: { data: [member(1, 'TAC100', 'Kofi')], lastUpdated: 0, fileName: 'maranatha.xlsx' },
+});
+
+describe('transferMemberRecord', () => {
+    it('moves the record with its history to the end of the new assembly', () => {
+        const db = createDatabase();
+        const result = transferMemberRecord(db, db.Central.data[0], 'Central', 'Maranatha', {
+            transferDate: '2024-03-03',
+            reason: ' Relocation ',
+        }, 1000);
+
+        expect(result.Central.data.map((m) => m["Membership Number"])).toEqual(['TAC002']);
+        const moved = result.Maranatha.data[1];
+        expect(moved).toMatchObject({ "No.": 2, "Membership Number": 'TAC001', firstSeenDate: '2023-02-05T00:00:00.000Z' });
+        expect(moved.transferHistory).toEqual([
+            { fromAssembly: 'Central', toAssembly: 'Maranatha', transferDate: '2024-03-03', reason: 'Relocation', recordedAt: 1000 },
+        ]);
+        expect(result.Maranatha.fileName).toBe('maranatha.xlsx');
+        expect(db.Central.data).toHaveLength(2);
+    });
+
+    it('creates the target assembly when it has no list yet', () => {
+        const db = createDatabase();
+        const result = transferMemberRecord(db, db.Central.data[1], 'Central', 'Bethel', { transferDate: '2024-03-03' });
+        expect(result.Bethel.data.map((m) => m["Membership Number"])).toEqual(['TAC002']);
+        expect(result.Bethel.data[0].transferHistory?.[0]).not.toHaveProperty('reason');
+    });
+
+    it('refuses transfers that would lose or duplicate a member', () => {
+        const db = createDatabase();
+        db.Maranatha.data.push(member(2, 'TAC001', 'Kwame'));
+
+        expect(() => transferMemberRecord(db, db.Central.data[0], 'Central', 'Central', { transferDate: '2024-03-03' }))
+            .toThrow('different assembly');
+        expect(() => transferMemberRecord(db, member(9, 'TAC009', 'Yaw'), 'Central', 'Bethel', { transferDate: '2024-03-03' }))
+            .toThrow('not found');
+        expect(() => transferMemberRecord(db, db.Central.data[0], 'Central', 'Maranatha', { transferDate: '2024-03-03' }))
+            .toThrow('already has a member');
+        expect(() => transferMemberRecord(db, db.Central.data[1], 'Central', 'Bethel', { transferDate: '03-Mar-2024' }))
+            .toThrow('valid transfer date');
+    });
+
+    it('keeps transfers in date order', () => {
+        const db = createDatabase();
+        const first = transferMemberRecord(db, db.Central.data[0], 'Central', 'Bethel', { transferDate: '2024-03-03' });
+        expect(() => transferMemberRecord(first, first.Bethel.data[0], 'Bethel', 'Central', { transferDate: '2024-01-07' }))
+            .toThrow('before the last transfer');
+    });
+});
+
+describe('getAssemblyOnDate', () => {
+    const history = {
+        currentAssembly: 'Central',
+        transfers: [
+            { fromAssembly: 'Central', toAssembly: 'Maranatha', transferDate: '2024-03-03', recordedAt: 1 },
+            { fromAssembly: 'Maranatha', toAssembly: 'Central', transferDate: '2024-09-01', recordedAt: 2 },
+        ],
+    };
+
+    it('follows the transfers in date order, from the transfer date on', () => {
+        expect(getAssemblyOnDate(history, '2024-01-07T00:00:00.000Z')).toBe('Central');
+        expect(getAssemblyOnDate(history, '2024-03-03')).toBe('Maranatha');
+        expect(getAssemblyOnDate(history, new Date('2024-06-02'))).toBe('Maranatha');
+        expect(getAssemblyOnDate(history, '2024-09-08')).toBe('Central');
+    });
+});
+
+describe('buildTransferLookup', () => {
+    it('only holds transferred members and accepts tithe list ids', () => {
+        const db = createDatabase();
+        const moved = transferMemberRecord(db, db.Central.data[0], 'Central', 'Maranatha', { transferDate: '2024-03-03' });
+        const lookup = buildTransferLookup(moved);
+
+        expect([...lookup.keys()]).toEqual(['tac001']);
+        expect(findAssemblyOnDate(lookup, 'TAC001|651101008', '2024-02-25')).toBe('Central');
+        expect(findAssemblyOnDate(lookup, 'TAC001', '2024-03-10')).toBe('Maranatha');
+        expect(findAssemblyOnDate(lookup, 'TAC002', '2024-03-10')).toBeNull();
+    });
+});
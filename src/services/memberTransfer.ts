@@ -0,0 +1,174 @@
+/**
+ * Member Transfer Service
+ * Moves members between assemblies in the district. The member record
+ * carries its transfers with it, so analytics can tell which assembly
+ * the member belonged to on any date.
+ */
+
+import { MemberDatabase, MemberRecordA, MemberTransfer } from '@/types';
+
+export interface TransferDetails {
+    transferDate: string;    // YYYY-MM-DD
+    reason?: string;
+}
+
+/**
+ * Where a transferred member is now and how they got there
+ */
+export interface MemberAssemblyHistory {
+    currentAssembly: string;
+    transfers: MemberTransfer[];   // Oldest first
+}
+
+/** Transferred members keyed by lowercase membership number */
+export type TransferLookup = Map<string, MemberAssemblyHistory>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const getMemberKey = (member: MemberRecordA): string =>
+    String(member["Membership Number"] || member["Old Membership Number"] || '').trim().toLowerCase();
+
+/**
+ * YYYY-MM-DD part of an ISO string or date, for comparing against transfer dates
+ */
+const toDateKey = (date: string | Date): string =>
+    typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+
+const sortTransfers = (transfers: MemberTransfer[]): MemberTransfer[] =>
+    [...transfers].sort((a, b) =>
+        a.transferDate.localeCompare(b.transferDate) || a.recordedAt - b.recordedAt
+    );
+
+/**
+ * Next free numeric "No." in an assembly list
+ */
+const getNextRowNumber = (members: MemberRecordA[]): number =>
+    members.reduce((max, m) => Math.max(max, Number(m["No."]) || 0), 0) + 1;
+
+// ============================================================================
+// TRANSFERS
+// ============================================================================
+
+/**
+ * Move a member to another assembly and record the transfer on the member.
+ * The rest of the record (firstSeenDate, revision, ...) moves unchanged.
+ *
+ * @throws Error when the transfer is not possible (same assembly, member
+ *         missing, membership number already used in the target, bad date)
+ */
+export const transferMemberRecord = (
+    memberDatabase: MemberDatabase,
+    member: MemberRecordA,
+    fromAssembly: string,
+    toAssembly: string,
+    details: TransferDetails,
+    now: number = Date.now()
+): MemberDatabase => {
+    const target = toAssembly.trim();
+    if (!target || target === fromAssembly) {
+        throw new Error('Choose a different assembly to transfer to');
+    }
+    if (!DATE_PATTERN.test(details.transferDate) || isNaN(new Date(details.transferDate).getTime())) {
+        throw new Error('Enter a valid transfer date');
+    }
+
+    const sourceData = memberDatabase[fromAssembly]?.data || [];
+    const record = sourceData.find((m) => m["No."] === member["No."]);
+    if (!record) {
+        throw new Error(`Member not found in ${fromAssembly}`);
+    }
+
+    const targetData = memberDatabase[target]?.data || [];
+    const memberKey = getMemberKey(record);
+    if (memberKey && targetData.some((m) => getMemberKey(m) === memberKey)) {
+        throw new Error(`${target} already has a member with number ${record["Membership Number"] || record["Old Membership Number"]}`);
+    }
+
+    const history = sortTransfers(record.transferHistory || []);
+    const lastTransfer = history[history.length - 1];
+    if (lastTransfer && details.transferDate < lastTransfer.transferDate) {
+        throw new Error(`Transfer date is before the last transfer on ${lastTransfer.transferDate}`);
+    }
+
+    const reason = details.reason?.trim();
+    const transfer: MemberTransfer = {
+        fromAssembly,
+        toAssembly: target,
+        transferDate: details.transferDate,
+        ...(reason ? { reason } : {}),
+        recordedAt: now,
+    };
+
+    const moved: MemberRecordA = {
+        ...record,
+        "No.": getNextRowNumber(targetData),
+        transferHistory: [...history, transfer],
+    };
+
+    return {
+        ...memberDatabase,
+        [fromAssembly]: {
+            ...memberDatabase[fromAssembly],
+            data: sourceData.filter((m) => m !== record),
+            lastUpdated: now,
+        },
+        [target]: {
+            ...(memberDatabase[target] || { fileName: 'Mixed Source' }),
+            data: [...targetData, moved],
+            lastUpdated: now,
+        },
+    };
+};
+
+// ============================================================================
+// ATTRIBUTION
+// ============================================================================
+
+/**
+ * Collect every member with transfers, for attributing past records
+ */
+export const buildTransferLookup = (memberDatabase: MemberDatabase): TransferLookup => {
+    const lookup: TransferLookup = new Map();
+    for (const [assemblyName, listData] of Object.entries(memberDatabase)) {
+        for (const member of listData?.data || []) {
+            const memberKey = getMemberKey(member);
+            if (!memberKey || !member.transferHistory?.length) continue;
+            lookup.set(memberKey, {
+                currentAssembly: assemblyName,
+                transfers: sortTransfers(member.transferHistory),
+            });
+        }
+    }
+    return lookup;
+};
+
+/**
+ * Assembly the member belonged to on a date. A transfer takes effect
+ * on its transfer date; before the first one the member was at its
+ * fromAssembly.
+ */
+export const getAssemblyOnDate = (history: MemberAssemblyHistory, date: string | Date): string => {
+    const { transfers } = history;
+    if (transfers.length === 0) return history.currentAssembly;
+
+    const day = toDateKey(date);
+    let assembly = transfers[0].fromAssembly;
+    for (const transfer of transfers) {
+        if (transfer.transferDate > day) break;
+        assembly = transfer.toAssembly;
+    }
+    return assembly;
+};
+
+/**
+ * Look up a member's assembly on a date, or null for members never transferred.
+ * Accepts the "ID|OLD_ID" form used in tithe list membership numbers.
+ */
+export const findAssemblyOnDate = (
+    lookup: TransferLookup,
+    memberId: string,
+    date: string | Date
+): string | null => {
+    const history = lookup.get(memberId.split('|')[0].trim().toLowerCase());
+    return history ? getAssemblyOnDate(history, date) : null;
+};
@@ -0,0 +1,133 @@
+/// <reference types="vitest/globals" />
+/**
+ * nameAliases.test.ts
+ * Tests for alias resolution (confidence decay, conflicts) and the merge
+ * of the two old alias stores
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    addAliasConfirmation,
+    getAliasId,
+    mergeAliasTargets,
+    mergeLegacyAliases,
+    resolveAlias,
+    AUTO_APPLY_CONFIDENCE,
+    NameAlias,
+} from './nameAliases';
+import type { LegacyNameAlias } from './handwritingLearning';
+import type { LearnedAlias } from './memberOrderService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_750_000_000_000;
+
+const makeAlias = (overrides: Partial<NameAlias> = {}): NameAlias => ({
+    id: 'alias-central-kofi-m',
+    assemblyName: 'central',
+    extractedName: 'KOFI M',
+    targets: [],
+    source: 'verification',
+    createdAt: NOW,
+    usageCount: 0,
+    ...overrides,
+});
+
+const KOFI = { memberId: 'TAC001', memberName: 'Kofi Mensah' };
+const KWAKU = { memberId: 'TAC002', memberName: 'Kwaku Mensah' };
+
+describe('getAliasId', () => {
+    it('ignores case and spacing of the written name', () => {
+        expect(getAliasId('Central', '  Kofi   M ')).toBe('alias-central-kofi-m');
+        expect(getAliasId('central', 'KOFI M')).toBe('alias-central-kofi-m');
+    });
+});
+
+describe('resolveAlias', () => {
+    it('needs two recent confirmations to apply automatically', () => {
+        const once = addAliasConfirmation(makeAlias(), KOFI, 1, NOW);
+        const twice = addAliasConfirmation(once, KOFI, 1, NOW);
+
+        expect(resolveAlias(once, NOW)?.confidence).toBeLessThan(AUTO_APPLY_CONFIDENCE);
+        expect(resolveAlias(twice, NOW)).toEqual({ ...KOFI, confidence: 0.75, conflict: false });
+    });
+
+    it('decays while unused and recovers when applied', () => {
+        const alias = addAliasConfirmation(makeAlias(), KOFI, 2, NOW - 365 * DAY);
+
+        expect(resolveAlias(alias, NOW)?.confidence).toBe(0.375);
+        expect(resolveAlias({ ...alias, lastUsed: NOW }, NOW)?.confidence).toBe(0.75);
+    });
+
+    it('reports a conflict when two members are confirmed about as often', () => {
+        const contested = addAliasConfirmation(addAliasConfirmation(makeAlias(), KOFI, 3, NOW), KWAKU, 2, NOW);
+        const settled = addAliasConfirmation(addAliasConfirmation(makeAlias(), KOFI, 5, NOW), KWAKU, 1, NOW);
+
+        expect(resolveAlias(contested, NOW)).toMatchObject({ memberId: 'TAC001', conflict: true });
+        expect(resolveAlias(settled, NOW)).toMatchObject({ memberId: 'TAC001', conflict: false });
+    });
+
+    it('prefers recent confirmations over old ones', () => {
+        const alias = addAliasConfirmation(addAliasConfirmation(makeAlias(), KOFI, 3, NOW - 3 * 365 * DAY), KWAKU, 2, NOW);
+
+        expect(resolveAlias(alias, NOW)).toMatchObject({ memberId: 'TAC002', conflict: false });
+    });
+});
+
+describe('mergeLegacyAliases', () => {
+    const handwritingRow = (id: string, memberId: string, timestamp: number): LegacyNameAlias => ({
+        id,
+        assemblyName: 'central',
+        extractedName: 'KOFI M',
+        correctMemberId: memberId,
+        correctMemberName: 'Kofi Mensah',
+        timestamp,
+        source: 'verification',
+    });
+
+    const learned: LearnedAlias = {
+        id: 'alias-Central-kofi-m',
+        assemblyName: 'Central',
+        extractedName: 'kofi m',
+        memberId: 'tac001',
+        memberDisplayName: 'Kofi Mensah',
+        createdAt: 500,
+        usageCount: 2,
+        lastUsed: 3000,
+    };
+
+    it('combines both stores into one alias per assembly and written name', () => {
+        const [alias, ...rest] = mergeLegacyAliases(
+            [handwritingRow('1', 'TAC001', 1000), handwritingRow('2', 'TAC001', 2000)],
+            [learned]
+        );
+
+        expect(rest).toEqual([]);
+        expect(alias).toMatchObject({ id: 'alias-central-kofi-m', extractedName: 'KOFI M', createdAt: 500 });
+        expect(alias.targets).toEqual([{ memberId: 'TAC001', memberName: 'Kofi Mensah', confirmations: 4, lastConfirmed: 3000 }]);
+    });
+
+    it('keeps every member an old name was linked to', () => {
+        const [alias] = mergeLegacyAliases([handwritingRow('1', 'TAC001', 1000), handwritingRow('2', 'TAC002', 2000)], []);
+
+        expect(alias.targets.map((t) => t.memberId)).toEqual(['TAC001', 'TAC002']);
+        expect(resolveAlias(alias, 2000)?.conflict).toBe(true);
+    });
+
+    it('adds to aliases that already exist', () => {
+        const existing = addAliasConfirmation(makeAlias({ createdAt: 100 }), KOFI, 1, 100);
+        const [alias] = mergeLegacyAliases([handwritingRow('1', 'TAC001', 1000)], [], [existing]);
+
+        expect(alias.targets[0].confirmations).toBe(2);
+        expect(alias.createdAt).toBe(100);
+    });
+});
+
+describe('mergeAliasTargets', () => {
+    it('moves confirmations of merged records onto the survivor', () => {
+        const alias = addAliasConfirmation(addAliasConfirmation(makeAlias(), KOFI, 2, 100), KWAKU, 1, 300);
+        const merged = mergeAliasTargets(alias, ['tac002'], KOFI);
+
+        expect(merged?.targets).toEqual([{ ...KOFI, confirmations: 3, lastConfirmed: 300 }]);
+        expect(mergeAliasTargets(alias, ['TAC009'], KOFI)).toBeNull();
+    });
+});
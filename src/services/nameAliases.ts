@@ -0,0 +1,473 @@
+/**
+ * Name Aliases
+ *
+ * When a user links an extracted name ("PST ADDO J") to a member, the link
+ * is learned as an alias of that assembly and applied to later pages before
+ * any fuzzy matching. One alias is kept per assembly and written name; it
+ * records every member the name has been linked to, so a name that two
+ * members share shows up as a conflict instead of silently flipping.
+ *
+ * Confidence grows with confirmations and decays while an alias goes
+ * unused, so aliases for members who left stop applying on their own.
+ *
+ * Replaces the two stores aliases used to live in (handwritingLearning's
+ * name_aliases and memberOrderService's learnedAliases); both are merged in
+ * here the first time the database is opened.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { MemberRecordA } from '@/types';
+import { clearLegacyNameAliases, readLegacyNameAliases, LegacyNameAlias } from './handwritingLearning';
+import { clearLegacyLearnedAliases, readLegacyLearnedAliases, LearnedAlias } from './memberOrderService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NameAliasSource = 'verification' | 'manual' | 'reorder';
+
+/** A member a written name has been linked to */
+export interface NameAliasTarget {
+    memberId: string;
+    memberName: string;
+    /** Times a user linked the name to this member */
+    confirmations: number;
+    lastConfirmed: number;
+}
+
+export interface NameAlias {
+    id: string;                    // alias-<assembly>-<written-name>
+    assemblyName: string;          // Lowercase
+    extractedName: string;         // Uppercase, single-spaced
+    targets: NameAliasTarget[];
+    source: NameAliasSource;       // Where the alias was first learned
+    createdAt: number;
+    usageCount: number;            // Times applied automatically
+    lastUsed?: number;
+}
+
+export interface AliasResolution {
+    memberId: string;
+    memberName: string;
+    /** 0-1, from confirmations and time since the alias was last seen */
+    confidence: number;
+    /** Another member has been confirmed for the name nearly as often */
+    conflict: boolean;
+}
+
+interface NameAliasDB extends DBSchema {
+    aliases: {
+        key: string;
+        value: NameAlias;
+        indexes: {
+            'by-assembly': string;
+        };
+    };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DB_NAME = 'tactms-name-aliases';
+const DB_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** An alias left unused this long counts half as much */
+const ALIAS_HALF_LIFE_DAYS = 365;
+
+/** Confidence needed to match a name without review (two recent confirmations) */
+export const AUTO_APPLY_CONFIDENCE = 0.7;
+
+/** Confidence needed to offer an alias as a hint (one recent confirmation) */
+export const MIN_ALIAS_CONFIDENCE = 0.4;
+
+/** Runner-up weight, relative to the leader, at which an alias is in conflict */
+const CONFLICT_RATIO = 0.5;
+
+// ============================================================================
+// KEYS & SCORING
+// ============================================================================
+
+/**
+ * Written names are compared uppercase with single spaces
+ */
+export const normalizeAliasName = (name: string): string => name.trim().replace(/\s+/g, ' ').toUpperCase();
+
+export const getAliasId = (assemblyName: string, extractedName: string): string =>
+    `alias-${assemblyName.toLowerCase()}-${normalizeAliasName(extractedName).toLowerCase().replace(/ /g, '-')}`;
+
+const getMemberId = (member: MemberRecordA): string =>
+    String(member["Membership Number"] || member["Old Membership Number"] || "");
+
+const getMemberName = (member: MemberRecordA): string =>
+    [member.Title, member["First Name"], member.Surname, member["Other Names"]].filter(Boolean).join(' ');
+
+const sameMember = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const decay = (since: number, now: number) => Math.pow(0.5, Math.max(0, now - since) / DAY_MS / ALIAS_HALF_LIFE_DAYS);
+
+/** Confirmations weighted by how recently they happened */
+const getTargetWeight = (target: NameAliasTarget, now: number) => target.confirmations * decay(target.lastConfirmed, now);
+
+/**
+ * The member an alias points to: the target with the most recent
+ * confirmations. Null for an alias without targets.
+ */
+export const resolveAlias = (alias: NameAlias, now: number = Date.now()): AliasResolution | null => {
+    const ranked = [...alias.targets].sort((a, b) => getTargetWeight(b, now) - getTargetWeight(a, now));
+    const [leader, runnerUp] = ranked;
+    if (!leader) return null;
+
+    // Using the alias keeps it fresh; only confirmations make it stronger
+    const lastSeen = Math.max(leader.lastConfirmed, alias.lastUsed ?? 0);
+    const confidence = (1 - Math.pow(0.5, leader.confirmations)) * decay(lastSeen, now);
+
+    return {
+        memberId: leader.memberId,
+        memberName: leader.memberName,
+        confidence: Math.round(confidence * 1000) / 1000,
+        conflict: !!runnerUp && getTargetWeight(runnerUp, now) >= getTargetWeight(leader, now) * CONFLICT_RATIO,
+    };
+};
+
+/**
+ * Count one more confirmation of a name for a member
+ */
+export const addAliasConfirmation = (
+    alias: NameAlias,
+    target: Pick<NameAliasTarget, 'memberId' | 'memberName'>,
+    confirmations: number = 1,
+    at: number = Date.now()
+): NameAlias => {
+    const existing = alias.targets.find((t) => sameMember(t.memberId, target.memberId));
+    const targets = existing
+        ? alias.targets.map((t) =>
+            t === existing
+                ? { ...t, memberName: target.memberName || t.memberName, confirmations: t.confirmations + confirmations, lastConfirmed: Math.max(t.lastConfirmed, at) }
+                : t
+        )
+        : [...alias.targets, { ...target, confirmations, lastConfirmed: at }];
+    return { ...alias, targets };
+};
+
+const createAlias = (assemblyName: string, extractedName: string, source: NameAliasSource, now: number): NameAlias => ({
+    id: getAliasId(assemblyName, extractedName),
+    assemblyName: assemblyName.toLowerCase(),
+    extractedName: normalizeAliasName(extractedName),
+    targets: [],
+    source,
+    createdAt: now,
+    usageCount: 0,
+});
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * Fold aliases from the two old stores into the current schema, on top of
+ * `existing`. Each old handwritingLearning row is one confirmation; an old
+ * learnedAliases row counted a confirmation on every save.
+ */
+export const mergeLegacyAliases = (
+    nameAliases: LegacyNameAlias[],
+    learnedAliases: LearnedAlias[],
+    existing: NameAlias[] = []
+): NameAlias[] => {
+    const byId = new Map(existing.map((a) => [a.id, a]));
+    const merge = (
+        assemblyName: string,
+        extractedName: string,
+        source: NameAliasSource,
+        createdAt: number,
+        target: Pick<NameAliasTarget, 'memberId' | 'memberName'>,
+        confirmations: number,
+        at: number
+    ) => {
+        if (!extractedName.trim() || !target.memberId) return;
+        const id = getAliasId(assemblyName, extractedName);
+        const alias = byId.get(id) || createAlias(assemblyName, extractedName, source, createdAt);
+        const merged = addAliasConfirmation(alias, target, confirmations, at);
+        byId.set(id, { ...merged, createdAt: Math.min(merged.createdAt, createdAt) });
+    };
+
+    for (const old of nameAliases) {
+        merge(old.assemblyName, old.extractedName, old.source, old.timestamp,
+            { memberId: old.correctMemberId, memberName: old.correctMemberName }, 1, old.timestamp);
+    }
+    for (const old of learnedAliases) {
+        merge(old.assemblyName, old.extractedName, 'reorder', old.createdAt,
+            { memberId: old.memberId, memberName: old.memberDisplayName }, Math.max(1, old.usageCount), old.lastUsed);
+    }
+    return Array.from(byId.values());
+};
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+let dbPromise: Promise<IDBPDatabase<NameAliasDB>> | null = null;
+
+/**
+ * Move aliases from the old stores into this one. The old stores are only
+ * cleared once their aliases are saved here.
+ */
+const migrateLegacyAliases = async (db: IDBPDatabase<NameAliasDB>): Promise<void> => {
+    const [nameAliases, learnedAliases] = await Promise.all([readLegacyNameAliases(), readLegacyLearnedAliases()]);
+    if (nameAliases.length === 0 && learnedAliases.length === 0) return;
+
+    const merged = mergeLegacyAliases(nameAliases, learnedAliases, await db.getAll('aliases'));
+    const tx = db.transaction('aliases', 'readwrite');
+    for (const alias of merged) await tx.store.put(alias);
+    await tx.done;
+
+    await Promise.all([clearLegacyNameAliases(), clearLegacyLearnedAliases()]);
+    console.log(`[NameAliases] Migrated ${nameAliases.length + learnedAliases.length} aliases from the old stores`);
+};
+
+const getDB = async (): Promise<IDBPDatabase<NameAliasDB>> => {
+    if (!dbPromise) {
+        dbPromise = openDB<NameAliasDB>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion) {
+                // Version 1: One alias per assembly and written name
+                if (oldVersion < 1) {
+                    const store = db.createObjectStore('aliases', { keyPath: 'id' });
+                    store.createIndex('by-assembly', 'assemblyName');
+                }
+            },
+        }).then(async (db) => {
+            try {
+                await migrateLegacyAliases(db);
+            } catch (error) {
+                // The old aliases stay where they are and are retried next session
+                console.warn('[NameAliases] Migration failed:', error);
+            }
+            return db;
+        });
+    }
+    return dbPromise;
+};
+
+// ============================================================================
+// LEARNING & LOOKUP
+// ============================================================================
+
+/**
+ * Learn that a written name means a member, when a user links them
+ */
+export const learnNameAlias = async (
+    assemblyName: string,
+    extractedName: string,
+    member: MemberRecordA,
+    source: NameAliasSource = 'verification'
+): Promise<NameAlias | null> => {
+    const memberId = getMemberId(member);
+    if (!extractedName.trim() || !memberId) return null;
+
+    const db = await getDB();
+    const now = Date.now();
+    const id = getAliasId(assemblyName, extractedName);
+    const existing = await db.get('aliases', id);
+    const alias = addAliasConfirmation(
+        existing || createAlias(assemblyName, extractedName, source, now),
+        { memberId, memberName: getMemberName(member) || memberId },
+        1,
+        now
+    );
+    await db.put('aliases', alias);
+
+    const resolution = resolveAlias(alias, now);
+    if (resolution?.conflict) {
+        console.warn(`[NameAliases] "${alias.extractedName}" is linked to more than one member in ${assemblyName}`);
+    }
+    return alias;
+};
+
+/**
+ * All aliases of an assembly, by written name
+ */
+export const getAliasesForAssembly = async (assemblyName: string): Promise<NameAlias[]> => {
+    const db = await getDB();
+    const aliases = await db.getAllFromIndex('aliases', 'by-assembly', assemblyName.toLowerCase());
+    return aliases.sort((a, b) => a.extractedName.localeCompare(b.extractedName));
+};
+
+/**
+ * The member a written name is an alias for, when the alias is confident
+ * enough and not in conflict
+ */
+export const findAliasMember = async (
+    assemblyName: string,
+    extractedName: string,
+    members: MemberRecordA[],
+    minConfidence: number = AUTO_APPLY_CONFIDENCE
+): Promise<{ member: MemberRecordA; alias: NameAlias; resolution: AliasResolution } | null> => {
+    if (!extractedName.trim()) return null;
+
+    const db = await getDB();
+    const alias = await db.get('aliases', getAliasId(assemblyName, extractedName));
+    const resolution = alias && resolveAlias(alias);
+    if (!alias || !resolution || resolution.conflict || resolution.confidence < minConfidence) return null;
+
+    const member = members.find((m) =>
+        sameMember(String(m["Membership Number"] || ""), resolution.memberId) ||
+        sameMember(String(m["Old Membership Number"] || ""), resolution.memberId)
+    );
+    return member ? { member, alias, resolution } : null;
+};
+
+/**
+ * Count an alias as applied; keeps it from decaying
+ */
+export const recordAliasUse = async (aliasId: string): Promise<void> => {
+    const db = await getDB();
+    const alias = await db.get('aliases', aliasId);
+    if (alias) {
+        await db.put('aliases', { ...alias, usageCount: alias.usageCount + 1, lastUsed: Date.now() });
+    }
+};
+
+/**
+ * Written name (lowercase) → member ID (lowercase) for every alias worth
+ * offering as a hint, for the name matcher of AI reorder
+ */
+export const getAliasMap = async (
+    assemblyName: string,
+    minConfidence: number = MIN_ALIAS_CONFIDENCE
+): Promise<Map<string, string>> => {
+    const now = Date.now();
+    const map = new Map<string, string>();
+    for (const alias of await getAliasesForAssembly(assemblyName)) {
+        const resolution = resolveAlias(alias, now);
+        if (resolution && !resolution.conflict && resolution.confidence >= minConfidence) {
+            map.set(alias.extractedName.toLowerCase(), resolution.memberId.toLowerCase());
+        }
+    }
+    return map;
+};
+
+// ============================================================================
+// MANAGEMENT
+// ============================================================================
+
+/**
+ * Change the written name of an alias. Merges into the alias for the new
+ * name if there already is one.
+ */
+export const renameAlias = async (aliasId: string, extractedName: string): Promise<NameAlias> => {
+    if (!extractedName.trim()) throw new Error('Enter the name as it is written in the book.');
+
+    const db = await getDB();
+    const alias = await db.get('aliases', aliasId);
+    if (!alias) throw new Error('This alias no longer exists.');
+
+    const id = getAliasId(alias.assemblyName, extractedName);
+    if (id === aliasId) {
+        const renamed = { ...alias, extractedName: normalizeAliasName(extractedName) };
+        await db.put('aliases', renamed);
+        return renamed;
+    }
+
+    const other = await db.get('aliases', id);
+    const renamed = alias.targets.reduce(
+        (merged, t) => addAliasConfirmation(merged, t, t.confirmations, t.lastConfirmed),
+        other || { ...alias, id, extractedName: normalizeAliasName(extractedName), targets: [] }
+    );
+    const tx = db.transaction('aliases', 'readwrite');
+    await tx.store.put({ ...renamed, usageCount: (other?.usageCount ?? 0) + alias.usageCount });
+    await tx.store.delete(aliasId);
+    await tx.done;
+    return renamed;
+};
+
+/**
+ * Point an alias at one member only, settling a conflict. Earlier
+ * confirmations count for the chosen member.
+ */
+export const reassignAlias = async (aliasId: string, member: MemberRecordA): Promise<NameAlias> => {
+    const db = await getDB();
+    const alias = await db.get('aliases', aliasId);
+    if (!alias) throw new Error('This alias no longer exists.');
+
+    const now = Date.now();
+    const confirmations = Math.max(1, ...alias.targets.map((t) => t.confirmations));
+    const memberId = getMemberId(member);
+    const reassigned: NameAlias = {
+        ...alias,
+        targets: [{ memberId, memberName: getMemberName(member) || memberId, confirmations, lastConfirmed: now }],
+        source: 'manual',
+    };
+    await db.put('aliases', reassigned);
+    return reassigned;
+};
+
+export const deleteAlias = async (aliasId: string): Promise<void> => {
+    const db = await getDB();
+    await db.delete('aliases', aliasId);
+};
+
+/**
+ * Move an alias's confirmations for merged-away member IDs onto the
+ * surviving member. Null when the alias does not point at any of them.
+ */
+export const mergeAliasTargets = (
+    alias: NameAlias,
+    memberIds: string[],
+    survivor: Pick<NameAliasTarget, 'memberId' | 'memberName'>
+): NameAlias | null => {
+    const isMerged = (t: NameAliasTarget) =>
+        !sameMember(t.memberId, survivor.memberId) && memberIds.some((id) => sameMember(t.memberId, id));
+    const moved = alias.targets.filter(isMerged);
+    if (moved.length === 0) return null;
+
+    return moved.reduce(
+        (merged, t) => addAliasConfirmation(merged, survivor, t.confirmations, t.lastConfirmed),
+        { ...alias, targets: alias.targets.filter((t) => !isMerged(t)) }
+    );
+};
+
+/**
+ * Point every alias of merged duplicate records at the surviving member
+ * @returns Number of aliases changed
+ */
+export const reassignMemberAliases = async (memberIds: string[], member: MemberRecordA): Promise<number> => {
+    const db = await getDB();
+    const survivor = { memberId: getMemberId(member), memberName: getMemberName(member) };
+    if (!survivor.memberId) return 0;
+
+    const tx = db.transaction('aliases', 'readwrite');
+    let changed = 0;
+    for (const alias of await tx.store.getAll()) {
+        const merged = mergeAliasTargets(alias, memberIds, survivor);
+        if (!merged) continue;
+        await tx.store.put(merged);
+        changed++;
+    }
+    await tx.done;
+    return changed;
+};
+
+// ============================================================================
+// BACKUP
+// ============================================================================
+
+/**
+ * Every alias of every assembly, for a backup archive
+ */
+export const exportAllAliases = async (): Promise<NameAlias[]> => {
+    const db = await getDB();
+    return db.getAll('aliases');
+};
+
+/**
+ * Replace every alias with a backup copy
+ */
+export const replaceAllAliases = async (aliases: NameAlias[]): Promise<void> => {
+    const db = await getDB();
+    const tx = db.transaction('aliases', 'readwrite');
+    await tx.store.clear();
+    for (const alias of aliases) await tx.store.put(alias);
+    await tx.done;
+};
@@ -12,6 +12,7 @@
 
 import * as tf from '@tensorflow/tfjs';
 import { MAX_OCR_TRAINING_EXAMPLES } from '@/constants';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '@/lib/utils';
 
 // ============================================================================
 // TYPES
@@ -20,6 +21,19 @@ import { MAX_OCR_TRAINING_EXAMPLES } from '@/constants';
 interface TrainingExample {
     input: string;      // OCR-extracted: "1OO"
     output: number;     // User-corrected: 100
+    scribeId?: string;  // Writer of the page, when known
+}
+
+/**
+ * Serializable copy of the model and its training data (for backups)
+ */
+export interface OCRModelBackup {
+    trainingData: TrainingExample[];
+    model: {
+        modelTopology: tf.io.ModelArtifacts['modelTopology'];
+        weightSpecs: tf.io.WeightsManifestEntry[];
+        weightData: string; // base64
+    } | null;
 }
 
 interface PredictionResult {
@@ -167,6 +181,62 @@ export const loadModel = async (): Promise<boolean> => {
     }
 };
 
+/**
+ * Export the saved model and training data for a backup archive
+ */
+export const exportModelData = async (): Promise<OCRModelBackup> => {
+    const savedData = localStorage.getItem(TRAINING_DATA_KEY);
+    const backup: OCRModelBackup = {
+        trainingData: savedData ? JSON.parse(savedData) : [],
+        model: null,
+    };
+
+    try {
+        const saved = await tf.loadLayersModel(`indexeddb://${MODEL_SAVE_KEY}`);
+        await saved.save(tf.io.withSaveHandler(async (artifacts) => {
+            if (artifacts.weightSpecs && artifacts.weightData) {
+                const weightData = Array.isArray(artifacts.weightData)
+                    ? tf.io.concatenateArrayBuffers(artifacts.weightData)
+                    : artifacts.weightData;
+                backup.model = {
+                    modelTopology: artifacts.modelTopology,
+                    weightSpecs: artifacts.weightSpecs,
+                    weightData: arrayBufferToBase64(weightData),
+                };
+            }
+            return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+        }));
+        saved.dispose();
+    } catch {
+        // No saved model yet - training data alone is still worth keeping
+    }
+
+    return backup;
+};
+
+/**
+ * Replace the saved model and training data with a backup copy
+ */
+export const importModelData = async (backup: OCRModelBackup): Promise<void> => {
+    await resetModel();
+    trainingData = backup.trainingData.slice(-MAX_TRAINING_EXAMPLES);
+    localStorage.setItem(TRAINING_DATA_KEY, JSON.stringify(trainingData));
+
+    if (backup.model) {
+        model = await tf.loadLayersModel(tf.io.fromMemory({
+            modelTopology: backup.model.modelTopology,
+            weightSpecs: backup.model.weightSpecs,
+            weightData: base64ToArrayBuffer(backup.model.weightData),
+        }));
+        model.compile({
+            optimizer: tf.train.adam(0.001),
+            loss: 'meanSquaredError',
+            metrics: ['mae']
+        });
+        await model.save(`indexeddb://${MODEL_SAVE_KEY}`);
+    }
+};
+
 // ============================================================================
 // TRAINING
 // ============================================================================
@@ -177,7 +247,8 @@ export const loadModel = async (): Promise<boolean> => {
  */
 export const addTrainingExample = (
     ocrInput: string,
-    correctedAmount: number
+    correctedAmount: number,
+    scribeId?: string
 ): void => {
     // Don't add if they're the same (no correction made)
     const parsed = parseFloat(ocrInput);
@@ -187,7 +258,8 @@ export const addTrainingExample = (
 
     trainingData.push({
         input: ocrInput.toUpperCase(),
-        output: correctedAmount
+        output: correctedAmount,
+        ...(scribeId ? { scribeId } : {})
     });
 
     // Cap training data to prevent unbounded growth
@@ -252,9 +324,12 @@ export const trainModel = async (): Promise<{ loss: number; accuracy: number } |
 
 /**
  * Predict a correction for an OCR input
+ *
+ * @param scribeId - Writer of the page; their own examples add more confidence
  */
 export const predictCorrection = async (
-    ocrInput: string
+    ocrInput: string,
+    scribeId?: string
 ): Promise<PredictionResult | null> => {
     // Try to load model if not in memory
     if (!model) {
@@ -283,7 +358,8 @@ export const predictCorrection = async (
         const similarExamples = trainingData.filter(ex =>
             ex.input.replace(/[0-9]/g, '') === ocrInput.toUpperCase().replace(/[0-9]/g, '')
         );
-        const confidence = Math.min(0.9, 0.5 + (similarExamples.length * 0.1));
+        const scribeExamples = scribeId ? similarExamples.filter(ex => ex.scribeId === scribeId).length : 0;
+        const confidence = Math.min(0.9, 0.5 + ((similarExamples.length + scribeExamples) * 0.1));
 
         return {
             suggestedAmount,
@@ -297,14 +373,15 @@ export const predictCorrection = async (
 
 /**
  * Get model status for debugging/UI
+ * @param scribeId - Optional: count only this scribe's training examples
  */
-export const getModelStatus = (): {
+export const getModelStatus = (scribeId?: string): {
     trainingExamples: number;
     isModelLoaded: boolean;
     lastTrainedAt?: number;
 } => {
     return {
-        trainingExamples: trainingData.length,
+        trainingExamples: scribeId ? trainingData.filter(ex => ex.scribeId === scribeId).length : trainingData.length,
         isModelLoaded: model !== null
     };
 };
@@ -12,6 +12,8 @@ import {
     getSetNumber,
     getSetRange,
     detectAmountDiscrepancies,
+    detectMonthTotalDiscrepancies,
+    mergePageExtractions,
 } from "./pageSequencer";
 import { TitheRecordB } from "../types";
 
@@ -521,3 +523,50 @@ describe("detectAmountDiscrepancies", () => {
         expect(result[0].message).toContain("200");
     });
 });
+
+describe("detectMonthTotalDiscrepancies", () => {
+    it("ignores rows that add up or have a blank total", () => {
+        const result = detectMonthTotalDiscrepancies([
+            { memberNo: 1, memberName: "Member 1", monthTotal: 150, weekAmounts: [50, 50, 50] },
+            { memberNo: 2, memberName: "Member 2", monthTotal: 0, weekAmounts: [20, 0] },
+        ]);
+
+        expect(result).toEqual([]);
+    });
+
+    it("flags rows whose weeks do not add up to the total", () => {
+        const result = detectMonthTotalDiscrepancies([
+            { memberNo: 3, memberName: "Member 3", monthTotal: 150, weekAmounts: [50, 5, 50] },
+        ]);
+
+        expect(result).toHaveLength(1);
+        expect(result[0].source).toBe("month_total");
+        expect(result[0].amounts).toEqual([150, 105]);
+        expect(result[0].suggestedAmount).toBe(150);
+        expect(result[0].message).toBe("Member #3: TOTAL reads 150 but the weeks add up to 105 (50 + 5 + 50)");
+    });
+
+    it("tolerates rounding within the tolerance", () => {
+        const checks = [{ memberNo: 4, memberName: "Member 4", monthTotal: 30, weekAmounts: [10.2, 20] }];
+
+        expect(detectMonthTotalDiscrepancies(checks)).toEqual([]);
+        expect(detectMonthTotalDiscrepancies(checks, 0.1)).toHaveLength(1);
+    });
+});
+
+describe("mergePageExtractions", () => {
+    it("reports amounts the duplicate shots disagree on", () => {
+        const page1 = createMockPage(1, 10, "Member");
+        const page1Dup = createMockPage(1, 10, "Member").map(e =>
+            e["No."] === 4 ? { ...e, "Transaction Amount": 400 } : e
+        );
+        const page2 = createMockPage(11, 10, "Member");
+
+        const result = mergePageExtractions([page1, page1Dup, page2]);
+
+        expect(result.merged).toHaveLength(20);
+        expect(result.discrepancies).toHaveLength(1);
+        expect(result.discrepancies[0].memberNo).toBe(4);
+        expect(result.discrepancies[0].source).toBe("duplicate_pages");
+    });
+});
@@ -388,6 +388,8 @@ export interface DiscrepancyReport {
     confidence: number;
     /** Human-readable description of the discrepancy */
     message: string;
+    /** What disagreed: duplicate shots of a page, or a row's weeks and its month TOTAL */
+    source: 'duplicate_pages' | 'month_total';
 }
 
 /**
@@ -477,10 +479,100 @@ export const detectAmountDiscrepancies = (
                 amounts: uniqueAmounts,
                 suggestedAmount,
                 confidence,
-                message: `Member #${memberNo}: Found different amounts (${uniqueAmounts.join(', ')}). Suggested: ${suggestedAmount}`
+                message: `Member #${memberNo}: Found different amounts (${uniqueAmounts.join(', ')}). Suggested: ${suggestedAmount}`,
+                source: 'duplicate_pages'
             });
         }
     }
 
     return discrepancies;
 };
+
+// ============================================================================
+// CROSS-VALIDATION: MONTH TOTAL RECONCILIATION
+// ============================================================================
+
+/**
+ * A row's red-ink month TOTAL and the weekly amounts it should add up to
+ */
+export interface MonthTotalCheck {
+    /** Member's row number in the tithe book */
+    memberNo: number;
+    /** Member's name/ID */
+    memberName: string;
+    /** TOTAL read from the page; 0 when the cell is blank */
+    monthTotal: number;
+    /** Amounts for each Sunday of the month, extracted or logged */
+    weekAmounts: number[];
+}
+
+/**
+ * Flag rows whose month TOTAL does not equal the sum of their weeks.
+ * The total is written by the treasurer at month end, so a mismatch almost
+ * always means a week was misread. Rows with a blank total are skipped.
+ *
+ * @param checks - One entry per row with a total and its weekly amounts
+ * @param tolerance - Largest difference (GHS) still treated as a match
+ * @returns Array of discrepancy reports for manual review
+ */
+export const detectMonthTotalDiscrepancies = (
+    checks: MonthTotalCheck[],
+    tolerance: number = 0.5
+): DiscrepancyReport[] => {
+    const discrepancies: DiscrepancyReport[] = [];
+
+    for (const { memberNo, memberName, monthTotal, weekAmounts } of checks) {
+        if (!(monthTotal > 0)) continue;
+
+        const weekSum = weekAmounts.reduce((sum, amount) => sum + amount, 0);
+        if (Math.abs(weekSum - monthTotal) <= tolerance) continue;
+
+        const weeks = weekAmounts.filter(a => a > 0);
+        discrepancies.push({
+            memberNo,
+            memberName,
+            amounts: [monthTotal, weekSum],
+            // The handwritten total is the treasurer's own check of the weeks
+            suggestedAmount: monthTotal,
+            confidence: 0.5,
+            message: `Member #${memberNo}: TOTAL reads ${monthTotal} but the weeks add up to ${weekSum}` +
+                (weeks.length > 1 ? ` (${weeks.join(' + ')})` : ''),
+            source: 'month_total'
+        });
+    }
+
+    return discrepancies;
+};
+
+// ============================================================================
+// BATCH MERGE
+// ============================================================================
+
+/**
+ * Merge the extractions of a batch: duplicate shots of the same page are
+ * combined first, then pages are put in book order. Amounts the duplicate
+ * shots disagree on are returned in `discrepancies`.
+ */
+export const mergePageExtractions = (
+    extractions: TitheRecordB[][]
+): { merged: TitheRecordB[]; gapsDetected: number[]; discrepancies: DiscrepancyReport[] } => {
+    if (extractions.length <= 1) {
+        return { merged: extractions[0] ?? [], gapsDetected: [], discrepancies: [] };
+    }
+
+    const duplicateInfo = detectDuplicatePages(extractions);
+    let processedExtractions = [...extractions];
+    const discrepancies = duplicateInfo.duplicateGroups.flatMap(group =>
+        detectAmountDiscrepancies(extractions, group)
+    );
+
+    if (duplicateInfo.duplicateGroups.length > 0) {
+        for (const group of duplicateInfo.duplicateGroups) {
+            processedExtractions[group[0]] = mergeDuplicateExtractions(extractions, group);
+        }
+        processedExtractions = duplicateInfo.unique.map(idx => processedExtractions[idx]);
+    }
+
+    const { merged, gapsDetected } = sequencePages(processedExtractions);
+    return { merged, gapsDetected, discrepancies };
+};
@@ -0,0 +1,171 @@
+/// <reference types="vitest/globals" />
+/**
+ * pledgeLedger.test.ts
+ * Tests for pledge payment allocation and campaign fulfilment summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    allocatePledgePayments,
+    createPledge,
+    getMemberPledgeProgress,
+    getRecordMemberIds,
+    summarizeCampaigns,
+} from './pledgeLedger';
+import { Pledge, TitheRecordB, TransactionLogEntry } from '../types';
+import { makeTitheRecord } from '@/test/titheFixtures';
+
+const HARVEST = 'Harvest Pledge-[Income]';
+const TODAY = new Date(2025, 5, 1);
+
+const makePledge = (overrides: Partial<Pledge> = {}): Pledge => ({
+    id: 'p1',
+    assemblyName: 'Central',
+    memberId: 'TAC001',
+    memberName: 'Kofi Mensah',
+    campaign: 'Harvest 2025',
+    transactionType: HARVEST,
+    amount: 500,
+    deadline: '2025-12-31',
+    createdAt: 1,
+    ...overrides,
+});
+
+const makeRecord = (memberNumber: string, amount: number, date: string, type = HARVEST): TitheRecordB =>
+    makeTitheRecord({
+        'Transaction Type': type,
+        'Membership Number': memberNumber,
+        "Transaction Date ('DD-MMM-YYYY')": date,
+        'Transaction Amount': amount,
+        'Narration/Description': 'Harvest',
+    });
+
+const makeLog = (id: string, records: TitheRecordB[], assemblyName = 'Central'): TransactionLogEntry => ({
+    id,
+    assemblyName,
+    timestamp: 0,
+    selectedDate: records[0]?.["Transaction Date ('DD-MMM-YYYY')"] || '',
+    totalTitheAmount: 0,
+    soulsWonCount: 0,
+    titherCount: records.length,
+    recordCount: records.length,
+    titheListData: records,
+    concatenationConfig: { Title: true, 'First Name': true, Surname: true, 'Other Names': true, 'Membership Number': true },
+    descriptionText: '',
+    amountMappingColumn: null,
+});
+
+describe('createPledge', () => {
+    it('assigns an id and timestamp', () => {
+        const { id: _id, createdAt: _createdAt, ...input } = makePledge({ memberId: ' TAC001 ' });
+        const pledge = createPledge(input, 42);
+
+        expect(pledge.id).toMatch(/^pledge-42-/);
+        expect(pledge.createdAt).toBe(42);
+        expect(pledge.memberId).toBe('TAC001');
+    });
+});
+
+describe('getRecordMemberIds', () => {
+    it('reads both new and old membership numbers', () => {
+        expect(getRecordMemberIds('Kofi Mensah (TAC001|651101)')).toEqual(['TAC001', '651101']);
+        expect(getRecordMemberIds('tac002')).toEqual(['TAC002']);
+    });
+});
+
+describe('allocatePledgePayments', () => {
+    it('applies only matching member, type and assembly', () => {
+        const logs = [
+            makeLog('Central-01', [
+                makeRecord('Kofi Mensah (TAC001)', 200, '01-MAR-2025'),
+                makeRecord('Kofi Mensah (TAC001)', 100, '01-MAR-2025', 'Individual Tithe-[Income]'),
+                makeRecord('Ama Owusu (TAC002)', 300, '01-MAR-2025'),
+            ]),
+            makeLog('North-01', [makeRecord('Kofi Mensah (TAC001)', 50, '01-MAR-2025')], 'North'),
+        ];
+
+        const [progress] = allocatePledgePayments([makePledge()], logs, TODAY);
+
+        expect(progress.paid).toBe(200);
+        expect(progress.balance).toBe(300);
+        expect(progress.percent).toBe(40);
+        expect(progress.status).toBe('open');
+        expect(progress.payments).toEqual([{ logId: 'Central-01', date: '01-MAR-2025', amount: 200 }]);
+    });
+
+    it('pays the earliest deadline first and credits overpayments to the last pledge', () => {
+        const pledges = [
+            makePledge({ id: 'late', deadline: '2025-12-31', amount: 100 }),
+            makePledge({ id: 'early', deadline: '2025-06-30', amount: 100 }),
+        ];
+        const logs = [
+            makeLog('w1', [makeRecord('TAC001', 150, '02-MAR-2025')]),
+            makeLog('w2', [makeRecord('TAC001', 100, '09-MAR-2025')]),
+        ];
+
+        const [late, early] = allocatePledgePayments(pledges, logs, TODAY);
+
+        expect(early.paid).toBe(100);
+        expect(early.status).toBe('fulfilled');
+        expect(late.paid).toBe(150);
+        expect(late.payments.map((p) => p.amount)).toEqual([50, 100]);
+        expect(late.percent).toBe(100);
+        expect(late.balance).toBe(0);
+    });
+
+    it('only counts payments made within the pledge window', () => {
+        const pledges = [
+            makePledge({ id: 'made', createdAt: new Date(2025, 2, 5).getTime(), deadline: '2025-04-30' }),
+            makePledge({ id: 'started', startDate: '2025-03-01', deadline: '2025-03-31', amount: 100 }),
+        ];
+        const logs = [
+            makeLog('w1', [makeRecord('TAC001', 80, '02-MAR-2025')]),
+            makeLog('w2', [makeRecord('TAC001', 120, '09-MAR-2025')]),
+            makeLog('w3', [makeRecord('TAC001', 300, '04-MAY-2025')]),
+        ];
+
+        const [made, started] = allocatePledgePayments(pledges, logs, TODAY);
+
+        expect(started.payments).toEqual([
+            { logId: 'w1', date: '02-MAR-2025', amount: 80 },
+            { logId: 'w2', date: '09-MAR-2025', amount: 20 },
+        ]);
+        expect(made.payments).toEqual([{ logId: 'w2', date: '09-MAR-2025', amount: 100 }]);
+        expect(made.paid).toBe(100);
+    });
+
+    it('marks unpaid pledges past their deadline as overdue', () => {
+        const [progress] = allocatePledgePayments([makePledge({ deadline: '2025-01-31' })], [], TODAY);
+
+        expect(progress.status).toBe('overdue');
+        expect(progress.paid).toBe(0);
+    });
+});
+
+describe('summarizeCampaigns / getMemberPledgeProgress', () => {
+    const pledges = [
+        makePledge({ id: 'a', amount: 100 }),
+        makePledge({ id: 'b', memberId: 'TAC002', amount: 300, deadline: '2025-01-01' }),
+        makePledge({ id: 'c', campaign: 'Building Fund', transactionType: 'Building Fund Pledge-[Income]', amount: 1000 }),
+    ];
+    const logs = [makeLog('w1', [makeRecord('TAC001', 250, '02-MAR-2025')])];
+    const progress = allocatePledgePayments(pledges, logs, TODAY);
+
+    it('totals each campaign without counting overpayments', () => {
+        const summaries = summarizeCampaigns(progress);
+
+        expect(summaries.map((s) => s.campaign)).toEqual(['Building Fund', 'Harvest 2025']);
+        expect(summaries[1]).toEqual({
+            campaign: 'Harvest 2025',
+            pledged: 400,
+            paid: 100,
+            pledgeCount: 2,
+            fulfilledCount: 1,
+            overdueCount: 1,
+        });
+    });
+
+    it('filters a member regardless of case', () => {
+        expect(getMemberPledgeProgress(progress, 'tac001').map((p) => p.pledge.id)).toEqual(['a', 'c']);
+    });
+});
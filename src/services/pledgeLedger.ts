@@ -0,0 +1,230 @@
+/**
+ * Pledge Ledger
+ * Tracks harvest and building-fund pledges and works out how much of each
+ * has been paid from the transaction log. Payments are never entered by
+ * hand: every logged record whose Transaction Type matches a member's pledge
+ * and falls within the pledge's window is applied to that member's pledges,
+ * earliest deadline first.
+ */
+
+import { Pledge, TransactionLogEntry } from '../types';
+import { dateKeyToTime, getAmountInGHS } from '../lib/currency';
+import { getRecordTransactionType } from '../lib/transactionTypes';
+import { parseMemberId } from './titheList';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PledgeStatus = 'open' | 'fulfilled' | 'overdue';
+
+export interface PledgePayment {
+    logId: string;
+    date: string;    // DD-MMM-YYYY, as recorded on the tithe list
+    amount: number;  // GHS applied to this pledge
+}
+
+export interface PledgeProgress {
+    pledge: Pledge;
+    paid: number;
+    balance: number;
+    percent: number;  // 0-100
+    status: PledgeStatus;
+    payments: PledgePayment[];
+}
+
+export interface CampaignSummary {
+    campaign: string;
+    pledged: number;
+    paid: number;
+    pledgeCount: number;
+    fulfilledCount: number;
+    overdueCount: number;
+}
+
+interface DatedPayment {
+    logId: string;
+    date: string;
+    day: string;     // YYYY-MM-DD, for comparing against pledge windows
+    time: number;
+    amount: number;
+}
+
+// ============================================================================
+// PLEDGES
+// ============================================================================
+
+export const createPledge = (
+    input: Omit<Pledge, 'id' | 'createdAt'>,
+    now: number = Date.now()
+): Pledge => ({
+    ...input,
+    memberId: input.memberId.trim(),
+    campaign: input.campaign.trim(),
+    id: `pledge-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+});
+
+/**
+ * IDs a tithe record refers to. "Kofi Mensah (TAC001|651101)" yields both
+ * the new and old membership numbers.
+ */
+export const getRecordMemberIds = (membershipNumber: string): string[] =>
+    parseMemberId(membershipNumber)
+        .split('|')
+        .map((id) => id.trim().toUpperCase())
+        .filter(Boolean);
+
+const ledgerKey = (assemblyName: string, memberId: string, transactionType: string): string =>
+    `${assemblyName}|${memberId.trim().toUpperCase()}|${transactionType}`;
+
+const toISODate = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * First day whose payments count toward a pledge: its start date, or the
+ * day it was made
+ */
+const getPledgeStartDate = (pledge: Pledge): string =>
+    pledge.startDate || toISODate(new Date(pledge.createdAt));
+
+const isInPledgeWindow = (pledge: Pledge, day: string): boolean =>
+    day >= getPledgeStartDate(pledge) && day <= pledge.deadline;
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Works out the progress of every pledge from the transaction log.
+ * A payment only counts toward pledges whose window (start date or the day
+ * the pledge was made, through the deadline) contains its date. A member
+ * with several pledges of the same type pays off the one with the earliest
+ * deadline first. Anything paid beyond the last open pledge is credited to
+ * it, so overpayments still show on the member's statement.
+ * Results are returned in the same order as `pledges`.
+ */
+export const allocatePledgePayments = (
+    pledges: Pledge[],
+    logs: TransactionLogEntry[],
+    today: Date = new Date()
+): PledgeProgress[] => {
+    const groups = new Map<string, { pledges: Pledge[]; payments: DatedPayment[] }>();
+    for (const pledge of pledges) {
+        const key = ledgerKey(pledge.assemblyName, pledge.memberId, pledge.transactionType);
+        const group = groups.get(key) || { pledges: [], payments: [] };
+        group.pledges.push(pledge);
+        groups.set(key, group);
+    }
+
+    // Collect matching payments from the log
+    for (const log of logs) {
+        for (const record of log.titheListData) {
+            const amount = getAmountInGHS(record);
+            if (amount <= 0) continue;
+
+            const type = getRecordTransactionType(record);
+            const group = getRecordMemberIds(record['Membership Number'])
+                .map((id) => groups.get(ledgerKey(log.assemblyName, id, type)))
+                .find(Boolean);
+            if (!group) continue;
+
+            const date = record["Transaction Date ('DD-MMM-YYYY')"] || log.selectedDate;
+            const parsed = dateKeyToTime(date.toUpperCase());
+            const time = isNaN(parsed) ? log.timestamp : parsed;
+            group.payments.push({
+                logId: log.id,
+                date,
+                day: toISODate(new Date(time)),
+                time,
+                amount,
+            });
+        }
+    }
+
+    const paymentsByPledge = new Map<string, PledgePayment[]>();
+    for (const group of groups.values()) {
+        const ordered = [...group.pledges].sort(
+            (a, b) => a.deadline.localeCompare(b.deadline) || a.createdAt - b.createdAt
+        );
+        const paid = new Map(ordered.map((p) => [p.id, 0]));
+        for (const p of ordered) paymentsByPledge.set(p.id, []);
+
+        const payments = [...group.payments].sort((a, b) => a.time - b.time);
+        for (const payment of payments) {
+            const eligible = ordered.filter((p) => isInPledgeWindow(p, payment.day));
+            let remaining = payment.amount;
+            for (let i = 0; i < eligible.length && remaining > 0; i++) {
+                const pledge = eligible[i];
+                const isLast = i === eligible.length - 1;
+                const room = pledge.amount - (paid.get(pledge.id) || 0);
+                const applied = isLast ? remaining : Math.min(remaining, Math.max(room, 0));
+                if (applied <= 0) continue;
+
+                paid.set(pledge.id, (paid.get(pledge.id) || 0) + applied);
+                paymentsByPledge.get(pledge.id)!.push({ logId: payment.logId, date: payment.date, amount: applied });
+                remaining -= applied;
+            }
+        }
+    }
+
+    const todayISO = toISODate(today);
+    return pledges.map((pledge) => {
+        const payments = paymentsByPledge.get(pledge.id) || [];
+        const paid = payments.reduce((sum, p) => sum + p.amount, 0);
+        const status: PledgeStatus = paid >= pledge.amount
+            ? 'fulfilled'
+            : pledge.deadline < todayISO ? 'overdue' : 'open';
+
+        return {
+            pledge,
+            paid,
+            balance: Math.max(pledge.amount - paid, 0),
+            percent: pledge.amount > 0 ? Math.min(Math.round((paid / pledge.amount) * 100), 100) : 100,
+            status,
+            payments,
+        };
+    });
+};
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+/**
+ * Fulfilment per campaign, largest pledged total first
+ */
+export const summarizeCampaigns = (progress: PledgeProgress[]): CampaignSummary[] => {
+    const campaigns = new Map<string, CampaignSummary>();
+
+    for (const item of progress) {
+        const name = item.pledge.campaign;
+        const summary = campaigns.get(name) || {
+            campaign: name,
+            pledged: 0,
+            paid: 0,
+            pledgeCount: 0,
+            fulfilledCount: 0,
+            overdueCount: 0,
+        };
+        summary.pledged += item.pledge.amount;
+        summary.paid += Math.min(item.paid, item.pledge.amount);
+        summary.pledgeCount += 1;
+        if (item.status === 'fulfilled') summary.fulfilledCount += 1;
+        if (item.status === 'overdue') summary.overdueCount += 1;
+        campaigns.set(name, summary);
+    }
+
+    return [...campaigns.values()].sort((a, b) => b.pledged - a.pledged);
+};
+
+/**
+ * A member's pledges across assemblies, for statements
+ */
+export const getMemberPledgeProgress = (
+    progress: PledgeProgress[],
+    memberId: string
+): PledgeProgress[] => {
+    const id = memberId.trim().toUpperCase();
+    return progress.filter((item) => item.pledge.memberId.toUpperCase() === id);
+};
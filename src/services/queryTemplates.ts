@@ -4,6 +4,7 @@
  */
 
 import { TitheRecordB, TransactionLogEntry, MemberDatabase } from "../types";
+import { getAmountInGHS } from "../lib/currency";
 
 export interface QuerySuggestion {
     id: string;
@@ -121,9 +122,7 @@ export const buildDataContext = (
     // Current tithe list analysis
     titheListData.forEach(record => {
         const name = String(record["Membership Number"]).split("(")[0].trim();
-        const amount = typeof record["Transaction Amount"] === 'number'
-            ? record["Transaction Amount"]
-            : parseFloat(String(record["Transaction Amount"])) || 0;
+        const amount = getAmountInGHS(record);
 
         titherAmounts.set(name, (titherAmounts.get(name) || 0) + amount);
     });
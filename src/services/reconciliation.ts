@@ -221,6 +221,92 @@ import {
   areSurnameVariants,
   preprocessName
 } from "@/lib/ghanaianNames";
+import { addMembersInReach, findCandidateMembers, getMemberNameIndex } from "./memberNameIndex";
+
+const getConfidenceTier = (score: number): FuzzyMatchResult['confidenceTier'] =>
+  score >= OCR_CONFIDENCE_TIERS.HIGH ? 'high'
+    : score >= OCR_CONFIDENCE_TIERS.MEDIUM ? 'medium' : 'low';
+
+/**
+ * Best name combination of a member for a cleaned raw name:
+ * max of OCR-aware Levenshtein, token and Ghanaian matching, plus a
+ * surname variant boost
+ */
+const scoreMemberName = (
+  cleanedRaw: string,
+  member: MemberRecordA,
+  withTitle: boolean
+): { score: number; matchedName: string } => {
+  const firstName = (member["First Name"] || "").trim();
+  const surname = (member.Surname || "").trim();
+  const otherNames = (member["Other Names"] || "").trim();
+
+  // Generate name combinations to compare against
+  const combinations = [
+    `${firstName} ${surname}`,
+    `${surname} ${firstName}`,
+    `${firstName} ${otherNames} ${surname}`,
+    `${surname} ${firstName} ${otherNames}`,
+    `${firstName} ${surname} ${otherNames}`,
+    // Also try with title if present
+    withTitle && member.Title ? `${member.Title} ${firstName} ${surname}` : null,
+  ].filter(Boolean) as string[];
+
+  // Surname variant boost
+  const surnameBoost = areSurnameVariants(cleanedRaw, surname) ? 0.1 : 0;
+
+  let best = { score: 0, matchedName: "" };
+  for (const nameCombo of combinations) {
+    const cleanedCombo = stripTitles(nameCombo);
+
+    // Strategy 1: OCR-normalized Levenshtein
+    const ocrResult = getOCRAwareSimilarity(cleanedRaw, cleanedCombo);
+
+    // Strategy 2: Token-based matching
+    const tokenScore = getTokenSimilarity(cleanedRaw, cleanedCombo);
+
+    // Strategy 3: Ghanaian-specific matching
+    const ghanaianScore = ghanaianTokenSimilarity(cleanedRaw, cleanedCombo);
+
+    // Combined score: max of all methods + surname boost
+    const score = Math.min(1.0, Math.max(ocrResult.score, tokenScore, ghanaianScore) + surnameBoost);
+    if (score > best.score) best = { score, matchedName: nameCombo };
+  }
+  return best;
+};
+
+/**
+ * Highest-scoring member at or above the threshold; the first in list
+ * order wins a tie. With `useIndex`, only the members the name index
+ * finds for the name are scored, plus any other member whose name length
+ * still allows it to score as high.
+ */
+const findBestMatch = (
+  cleanedRaw: string,
+  masterData: MemberRecordA[],
+  threshold: number,
+  withTitle: boolean,
+  useIndex: boolean
+): FuzzyMatchResult | null => {
+  const scan = (members: MemberRecordA[]) => {
+    let bestMatch: FuzzyMatchResult | null = null;
+    for (const member of members) {
+      const { score, matchedName } = scoreMemberName(cleanedRaw, member, withTitle);
+      if (score >= threshold && (!bestMatch || score > bestMatch.score)) {
+        bestMatch = { member, score, matchedName, confidenceTier: getConfidenceTier(score) };
+      }
+    }
+    return bestMatch;
+  };
+
+  if (!useIndex) return scan(masterData);
+
+  const index = getMemberNameIndex(masterData);
+  const candidates = findCandidateMembers(index, cleanedRaw);
+  const match = scan(candidates);
+  const inReach = addMembersInReach(index, cleanedRaw, candidates, match ? match.score : threshold);
+  return inReach.length === candidates.length ? match : scan(inReach);
+};
 
 /**
  * AI-powered semantic matching for difficult names
@@ -330,31 +416,27 @@ export const findMemberByName = async (
   masterData: MemberRecordA[],
   threshold: number = OCR_CONFIDENCE_TIERS.MEDIUM,
   apiKey?: string, // Optional API key for AI fallback
-  assemblyName?: string // Optional assembly name for alias lookup
+  assemblyName?: string, // Optional assembly name for alias lookup
+  useIndex: boolean = true // Narrow the search with the member name index
 ): Promise<FuzzyMatchResult | null> => {
   if (!rawName || !masterData.length) return null;
 
   // Strategy 0: Check learned name aliases first
   if (assemblyName) {
     try {
-      const { getNameAlias } = await import("./handwritingLearning");
-      const alias = await getNameAlias(assemblyName, rawName);
-      if (alias && alias.count >= 2) {
-        // Found a learned alias with 2+ occurrences
-        const member = masterData.find(m =>
-          String(m["Membership Number"]) === alias.memberId ||
-          String(m["Old Membership Number"]) === alias.memberId
-        );
-        if (member) {
-          console.log(`[Reconciliation] Using learned alias: "${rawName}" → ${alias.memberName} (seen ${alias.count}x)`);
-          return {
-            member,
-            score: 0.95,
-            matchedName: alias.memberName,
-            confidenceTier: 'high',
-            matchSource: 'fuzzy' // Could add 'alias' type in future
-          };
-        }
+      const { findAliasMember, recordAliasUse } = await import("./nameAliases");
+      const aliasMatch = await findAliasMember(assemblyName, rawName, masterData);
+      if (aliasMatch) {
+        const { member, alias, resolution } = aliasMatch;
+        console.log(`[Reconciliation] Using learned alias: "${rawName}" → ${resolution.memberName} (confidence ${resolution.confidence})`);
+        recordAliasUse(alias.id).catch(console.warn);
+        return {
+          member,
+          score: 0.95,
+          matchedName: resolution.memberName,
+          confidenceTier: 'high',
+          matchSource: 'fuzzy' // Could add 'alias' type in future
+        };
       }
     } catch {
       // Alias lookup failed, continue with other strategies
@@ -365,58 +447,8 @@ export const findMemberByName = async (
   const cleanedRaw = stripTitles(preprocessName(rawName));
 
   // Strategy 1, 2, 3: Combined OCR-aware, token, and Ghanaian matching
-  let bestMatch: FuzzyMatchResult | null = null;
-
-  for (const member of masterData) {
-    const firstName = (member["First Name"] || "").trim();
-    const surname = (member.Surname || "").trim();
-    const otherNames = (member["Other Names"] || "").trim();
-
-    // Generate name combinations to compare against
-    const combinations = [
-      `${firstName} ${surname}`,
-      `${surname} ${firstName}`,
-      `${firstName} ${otherNames} ${surname}`,
-      `${surname} ${firstName} ${otherNames}`,
-      `${firstName} ${surname} ${otherNames}`,
-      // Also try with title if present
-      member.Title ? `${member.Title} ${firstName} ${surname}` : null,
-    ].filter(Boolean) as string[];
-
-    for (const nameCombo of combinations) {
-      const cleanedCombo = stripTitles(nameCombo);
-
-      // Strategy 1: OCR-normalized Levenshtein
-      const ocrResult = getOCRAwareSimilarity(cleanedRaw, cleanedCombo);
-
-      // Strategy 2: Token-based matching
-      const tokenScore = getTokenSimilarity(cleanedRaw, cleanedCombo);
-
-      // Strategy 3: Ghanaian-specific matching
-      const ghanaianScore = ghanaianTokenSimilarity(cleanedRaw, cleanedCombo);
-
-      // Surname variant boost
-      const surnameBoost = areSurnameVariants(cleanedRaw, surname) ? 0.1 : 0;
-
-      // Combined score: max of all methods + surname boost
-      const score = Math.min(1.0, Math.max(ocrResult.score, tokenScore, ghanaianScore) + surnameBoost);
-
-      if (score >= threshold) {
-        if (!bestMatch || score > bestMatch.score) {
-          const confidenceTier = score >= OCR_CONFIDENCE_TIERS.HIGH ? 'high'
-            : score >= OCR_CONFIDENCE_TIERS.MEDIUM ? 'medium' : 'low';
-
-          bestMatch = {
-            member,
-            score,
-            matchedName: nameCombo,
-            confidenceTier,
-            matchSource: 'fuzzy'
-          };
-        }
-      }
-    }
-  }
+  const bestMatch = findBestMatch(cleanedRaw, masterData, threshold, true, useIndex);
+  if (bestMatch) bestMatch.matchSource = 'fuzzy';
 
   // Strategy 3: AI Semantic Matching (The Neural Link)
   // If no match or low confidence match, and we have an API key, try AI
@@ -443,61 +475,15 @@ export const findMemberByName = async (
 export const findMemberByNameSync = (
   rawName: string,
   masterData: MemberRecordA[],
-  threshold: number = OCR_CONFIDENCE_TIERS.MEDIUM
+  threshold: number = OCR_CONFIDENCE_TIERS.MEDIUM,
+  useIndex: boolean = true
 ): FuzzyMatchResult | null => {
   if (!rawName || !masterData.length) return null;
 
   // Preprocess and strip titles from raw name
   const cleanedRaw = stripTitles(preprocessName(rawName));
 
-  let bestMatch: FuzzyMatchResult | null = null;
-
-  for (const member of masterData) {
-    const firstName = (member["First Name"] || "").trim();
-    const surname = (member.Surname || "").trim();
-    const otherNames = (member["Other Names"] || "").trim();
-
-    const combinations = [
-      `${firstName} ${surname}`,
-      `${surname} ${firstName}`,
-      `${firstName} ${otherNames} ${surname}`,
-      `${surname} ${firstName} ${otherNames}`,
-      `${firstName} ${surname} ${otherNames}`,
-    ];
-
-    for (const nameCombo of combinations) {
-      const cleanedCombo = stripTitles(nameCombo);
-
-      // Original scoring
-      const ocrResult = getOCRAwareSimilarity(cleanedRaw, cleanedCombo);
-      const tokenScore = getTokenSimilarity(cleanedRaw, cleanedCombo);
-
-      // Ghanaian-specific scoring
-      const ghanaianScore = ghanaianTokenSimilarity(cleanedRaw, cleanedCombo);
-
-      // Surname variant boost
-      const surnameBoost = areSurnameVariants(cleanedRaw, surname) ? 0.1 : 0;
-
-      // Combined score: max of all methods + surname boost
-      const score = Math.min(1.0, Math.max(ocrResult.score, tokenScore, ghanaianScore) + surnameBoost);
-
-      if (score >= threshold) {
-        if (!bestMatch || score > bestMatch.score) {
-          const confidenceTier = score >= OCR_CONFIDENCE_TIERS.HIGH ? 'high'
-            : score >= OCR_CONFIDENCE_TIERS.MEDIUM ? 'medium' : 'low';
-
-          bestMatch = {
-            member,
-            score,
-            matchedName: nameCombo,
-            confidenceTier,
-          };
-        }
-      }
-    }
-  }
-
-  return bestMatch;
+  return findBestMatch(cleanedRaw, masterData, threshold, false, useIndex);
 };
 
 /**
@@ -508,60 +494,37 @@ export const getTopFuzzyMatches = (
   rawName: string,
   masterData: MemberRecordA[],
   topN: number = 3,
-  minScore: number = 0.3 // Lower threshold for suggestions
+  minScore: number = 0.3, // Lower threshold for suggestions
+  useIndex: boolean = true
 ): FuzzyMatchResult[] => {
   if (!rawName || !masterData.length) return [];
 
   // Preprocess and strip titles from raw name
   const cleanedRaw = stripTitles(preprocessName(rawName));
 
-  const allMatches: FuzzyMatchResult[] = [];
-
-  for (const member of masterData) {
-    const firstName = (member["First Name"] || "").trim();
-    const surname = (member.Surname || "").trim();
-    const otherNames = (member["Other Names"] || "").trim();
-
-    const combinations = [
-      `${firstName} ${surname}`,
-      `${surname} ${firstName}`,
-      `${firstName} ${otherNames} ${surname}`,
-      `${surname} ${firstName} ${otherNames}`,
-      `${firstName} ${surname} ${otherNames}`,
-    ];
-
-    let bestScoreForMember = 0;
-    let bestCombo = "";
-
-    for (const nameCombo of combinations) {
-      const cleanedCombo = stripTitles(nameCombo);
-      const ocrResult = getOCRAwareSimilarity(cleanedRaw, cleanedCombo);
-      const tokenScore = getTokenSimilarity(cleanedRaw, cleanedCombo);
-      const ghanaianScore = ghanaianTokenSimilarity(cleanedRaw, cleanedCombo);
-      const surnameBoost = areSurnameVariants(cleanedRaw, surname) ? 0.1 : 0;
-      const score = Math.min(1.0, Math.max(ocrResult.score, tokenScore, ghanaianScore) + surnameBoost);
-
-      if (score > bestScoreForMember) {
-        bestScoreForMember = score;
-        bestCombo = nameCombo;
+  const rankMatches = (members: MemberRecordA[]) => {
+    const allMatches: FuzzyMatchResult[] = [];
+
+    for (const member of members) {
+      const { score, matchedName } = scoreMemberName(cleanedRaw, member, false);
+      if (score >= minScore) {
+        allMatches.push({ member, score, matchedName, confidenceTier: getConfidenceTier(score) });
       }
     }
 
-    if (bestScoreForMember >= minScore) {
-      const confidenceTier = bestScoreForMember >= OCR_CONFIDENCE_TIERS.HIGH ? 'high'
-        : bestScoreForMember >= OCR_CONFIDENCE_TIERS.MEDIUM ? 'medium' : 'low';
+    // Sort by score descending and take top N
+    return allMatches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topN);
+  };
 
-      allMatches.push({
-        member,
-        score: bestScoreForMember,
-        matchedName: bestCombo,
-        confidenceTier,
-      });
-    }
-  }
+  if (!useIndex) return rankMatches(masterData);
 
-  // Sort by score descending and take top N
-  return allMatches
-    .sort((a, b) => b.score - a.score)
-    .slice(0, topN);
+  const index = getMemberNameIndex(masterData);
+  const candidates = findCandidateMembers(index, cleanedRaw);
+  const matches = rankMatches(candidates);
+  // Others can only push out the weakest suggestion, or fill a short list
+  const cutoff = matches.length === topN ? matches[topN - 1].score : minScore;
+  const inReach = addMembersInReach(index, cleanedRaw, candidates, cutoff);
+  return inReach.length === candidates.length ? matches : rankMatches(inReach);
 };
@@ -6,6 +6,7 @@
 import { TransactionLogEntry } from "../types";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { GEMINI_MODEL_NAME } from "@/constants";
+import { getAmountInGHS } from "@/lib/currency";
 
 export type ReportType = 'weekly_summary' | 'monthly_pdf' | 'year_end' | 'custom';
 
@@ -375,9 +376,7 @@ const getTopTithers = (logs: TransactionLogEntry[], limit: number = 5): Array<{
     logs.forEach(log => {
         log.titheListData.forEach(record => {
             const name = String(record["Membership Number"]).split("(")[0].trim();
-            const amount = typeof record["Transaction Amount"] === 'number'
-                ? record["Transaction Amount"]
-                : parseFloat(String(record["Transaction Amount"])) || 0;
+            const amount = getAmountInGHS(record);
             tithers.set(name, (tithers.get(name) || 0) + amount);
         });
     });
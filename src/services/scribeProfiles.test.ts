@@ -0,0 +1,139 @@
+/// <reference types="vitest/globals" />
+/**
+ * scribeProfiles.test.ts
+ * Tests for scribe profiles: creation, error rates, misread summaries and
+ * recognising the writer of a page from the digit shapes in its amount cells
+ *
+ * Amount cells are drawn in memory with digits as bars, as in the cell crop
+ * tests. The two scribes differ in whether they put a cap on their bars.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    createScribeProfile,
+    detectScribe,
+    getScribeErrorRate,
+    getScribeProfile,
+    getScribesForAssembly,
+    learnScribeHandwriting,
+    recordScribeReview,
+    summarizeScribeConfusions,
+} from './scribeProfiles';
+import type { RasterImage } from './imageProcessor/offlineGrid';
+import type { AmountCorrection, TitheRecordB } from '@/types';
+
+/** A white cell with one black bar per digit (bar width = digit + 1), optionally capped like a "T" */
+const drawAmountCell = (text: string, capped: boolean): RasterImage => {
+    const width = 90;
+    const height = 40;
+    const cell = { width, height, data: new Uint8ClampedArray(width * height * 4).fill(255) };
+    const paint = (x: number, y: number) => cell.data.set([0, 0, 0], (y * width + x) * 4);
+    let x = 10;
+    for (const char of text) {
+        const barWidth = Number(char) + 1;
+        for (let y = 10; y < 30; y++) {
+            for (let xx = x; xx < x + barWidth; xx++) paint(xx, y);
+        }
+        if (capped) {
+            for (let y = 10; y < 13; y++) {
+                for (let xx = x - 2; xx < x + barWidth + 2; xx++) paint(xx, y);
+            }
+        }
+        x += barWidth + 8;
+    }
+    return cell;
+};
+
+const cells: Record<string, RasterImage> = {};
+const record = (amount: number, capped: boolean): TitheRecordB => {
+    const key = `${amount}-${capped ? 'capped' : 'plain'}`;
+    cells[key] = drawAmountCell(String(amount), capped);
+    return { 'No.': 1, 'Transaction Amount': amount, cellCrops: { amount: key } } as TitheRecordB;
+};
+const decode = async (key: string) => cells[key];
+
+const correction = (originalValue: string, correctedValue: number): AmountCorrection => ({
+    id: `${originalValue}-${correctedValue}`,
+    assemblyName: 'central',
+    originalValue,
+    correctedValue,
+    timestamp: 0,
+    source: 'verification',
+});
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+describe('createScribeProfile', () => {
+    it('adds scribes per assembly and rejects duplicate names', () => {
+        createScribeProfile('Central', 'Ama', 1);
+        createScribeProfile('Central', 'Kofi', 2);
+        createScribeProfile('Kasoa', 'Ama', 3);
+
+        expect(getScribesForAssembly('central').map((s) => s.name)).toEqual(['Ama', 'Kofi']);
+        expect(() => createScribeProfile('Central', ' ama ')).toThrow('Ama is already a scribe of Central.');
+        expect(() => createScribeProfile('Central', '  ')).toThrow("Enter the scribe's name.");
+    });
+});
+
+describe('recordScribeReview', () => {
+    it('accumulates reviewed and corrected amounts into an error rate', () => {
+        const scribe = createScribeProfile('Central', 'Ama', 1);
+        expect(getScribeErrorRate(scribe)).toBeNull();
+
+        recordScribeReview(scribe.id, 20, 1, 10);
+        recordScribeReview(scribe.id, 20, 4, 20);
+
+        const updated = getScribeProfile(scribe.id);
+        expect(updated?.lastUsedAt).toBe(20);
+        expect(updated && getScribeErrorRate(updated)).toBe(0.125);
+    });
+});
+
+describe('summarizeScribeConfusions', () => {
+    it('counts digit misreads and whole-value misreads, most frequent first', () => {
+        const summary = summarizeScribeConfusions([
+            correction('10', 70),
+            correction('15', 75),
+            correction('100', 10),
+            correction('500', 300),
+        ]);
+
+        expect(summary).toEqual([
+            { read: '1', meant: '7', count: 2 },
+            { read: '100', meant: '10', count: 1 },
+            { read: '5', meant: '3', count: 1 },
+        ]);
+    });
+});
+
+describe('detectScribe', () => {
+    it('recognises the scribe whose digit shapes match the page', async () => {
+        const plain = createScribeProfile('Central', 'Ama', 1);
+        const capped = createScribeProfile('Central', 'Kofi', 2);
+        await learnScribeHandwriting(plain.id, [record(50, false), record(100, false), record(20, false)], decode);
+        await learnScribeHandwriting(capped.id, [record(50, true), record(100, true), record(20, true)], decode);
+
+        const page = [record(150, true), record(200, true)];
+        const detection = await detectScribe(page, getScribesForAssembly('Central'), decode);
+
+        expect(detection?.scribeId).toBe(capped.id);
+        expect(detection?.method).toBe('handwriting');
+    });
+
+    it('falls back to the only scribe, then the most recent one', async () => {
+        const ama = createScribeProfile('Central', 'Ama', 1);
+        expect(await detectScribe([], [ama])).toEqual({ scribeId: ama.id, confidence: 0.5, method: 'only_scribe' });
+
+        const kofi = createScribeProfile('Central', 'Kofi', 2);
+        expect(await detectScribe([], getScribesForAssembly('Central'))).toBeNull();
+
+        recordScribeReview(kofi.id, 10, 0, 50);
+        expect(await detectScribe([], getScribesForAssembly('Central'))).toEqual({
+            scribeId: kofi.id,
+            confidence: 0.3,
+            method: 'last_used',
+        });
+    });
+});
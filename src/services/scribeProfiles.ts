@@ -0,0 +1,315 @@
+/**
+ * Scribe Profiles
+ *
+ * Each assembly's tithe book is usually filled in by one or two people, and
+ * their digit shapes are what trip up the OCR. A scribe profile keys the
+ * learned corrections (handwritingLearning, charSubstitutionEngine,
+ * ocrMLService) by writer, keeps review counts for error rates, and stores
+ * the average shape of each digit the scribe writes so the writer of a new
+ * page can be recognised.
+ *
+ * Profiles are small and kept in localStorage.
+ */
+
+import type { AmountCorrection, ScribeDetection, ScribeGlyphSignature, ScribeProfile, TitheRecordB } from '@/types';
+import { buildDigitSamplesFromCrops } from './imageProcessor/cellCrops';
+import { DIGIT_INPUT_SIZE, DigitTrainingSet } from './imageProcessor/offlineDigits';
+import type { RasterImage } from './imageProcessor/offlineGrid';
+
+// Re-export for convenience
+export type { ScribeDetection, ScribeGlyphSignature, ScribeProfile } from '@/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'tactms-scribe-profiles';
+
+/** Glyphs are averaged down from 28×28 to keep profiles small */
+const SIGNATURE_SIZE = 14;
+
+/** Cells decoded per page when detecting the writer */
+const MAX_DETECTION_CELLS = 20;
+
+/** Fewer glyphs than this say too little about the handwriting */
+const MIN_DETECTION_GLYPHS = 3;
+
+/** Lead the best scribe needs over the runner-up to count as recognised */
+const DETECTION_MARGIN = 0.03;
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * All scribe profiles on this device
+ */
+export const loadScribeProfiles = (): ScribeProfile[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? (JSON.parse(saved) as ScribeProfile[]) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Replace every profile (backup restore)
+ */
+export const replaceScribeProfiles = (profiles: ScribeProfile[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    } catch {
+        // Storage full or unavailable
+    }
+};
+
+const updateScribeProfile = (scribeId: string, update: (profile: ScribeProfile) => ScribeProfile): void => {
+    replaceScribeProfiles(loadScribeProfiles().map((p) => (p.id === scribeId ? update(p) : p)));
+};
+
+export const getScribeProfile = (scribeId: string): ScribeProfile | undefined =>
+    loadScribeProfiles().find((p) => p.id === scribeId);
+
+/**
+ * The scribes of an assembly, by name
+ */
+export const getScribesForAssembly = (assemblyName: string): ScribeProfile[] =>
+    loadScribeProfiles()
+        .filter((p) => p.assemblyName === assemblyName.toLowerCase())
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Add a scribe to an assembly. Names must be unique within the assembly.
+ */
+export const createScribeProfile = (
+    assemblyName: string,
+    name: string,
+    now: number = Date.now()
+): ScribeProfile => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Enter the scribe\'s name.');
+    const existing = getScribesForAssembly(assemblyName).find((p) => p.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) throw new Error(`${existing.name} is already a scribe of ${assemblyName}.`);
+
+    const profile: ScribeProfile = {
+        id: `scribe-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        assemblyName: assemblyName.toLowerCase(),
+        name: trimmed,
+        createdAt: now,
+        reviewedCount: 0,
+        correctedCount: 0,
+    };
+    replaceScribeProfiles([...loadScribeProfiles(), profile]);
+    return profile;
+};
+
+/**
+ * Remove a scribe. Corrections already learned from their pages keep
+ * applying at assembly level.
+ */
+export const deleteScribeProfile = (scribeId: string): void => {
+    replaceScribeProfiles(loadScribeProfiles().filter((p) => p.id !== scribeId));
+};
+
+// ============================================================================
+// REVIEWS & ERROR RATES
+// ============================================================================
+
+/**
+ * Count a reviewed page: `reviewed` amounts were checked and `corrected`
+ * of them had been misread
+ */
+export const recordScribeReview = (
+    scribeId: string,
+    reviewed: number,
+    corrected: number,
+    now: number = Date.now()
+): void => {
+    updateScribeProfile(scribeId, (p) => ({
+        ...p,
+        reviewedCount: p.reviewedCount + reviewed,
+        correctedCount: p.correctedCount + corrected,
+        lastUsedAt: now,
+    }));
+};
+
+/**
+ * Share of a scribe's amounts that had to be corrected, or null before any review
+ */
+export const getScribeErrorRate = (profile: ScribeProfile): number | null =>
+    profile.reviewedCount > 0 ? profile.correctedCount / profile.reviewedCount : null;
+
+/**
+ * Most frequent misreads in a scribe's corrections. Values of the same
+ * length are compared digit by digit ("7" read as "1"); others as a whole.
+ */
+export const summarizeScribeConfusions = (
+    corrections: AmountCorrection[],
+    limit: number = 3
+): Array<{ read: string; meant: string; count: number }> => {
+    const counts = new Map<string, { read: string; meant: string; count: number }>();
+    const add = (read: string, meant: string) => {
+        const key = `${read}→${meant}`;
+        const entry = counts.get(key) || { read, meant, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+    };
+
+    for (const { originalValue, correctedValue } of corrections) {
+        const meant = String(correctedValue);
+        if (originalValue.length === meant.length) {
+            for (let i = 0; i < meant.length; i++) {
+                if (originalValue[i] !== meant[i]) add(originalValue[i], meant[i]);
+            }
+        } else {
+            add(originalValue, meant);
+        }
+    }
+
+    return Array.from(counts.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit);
+};
+
+// ============================================================================
+// HANDWRITING SIGNATURE
+// ============================================================================
+
+/**
+ * Average a normalized 28×28 glyph down to the signature grid
+ */
+const downsampleGlyph = (input: Float32Array): number[] => {
+    const factor = DIGIT_INPUT_SIZE / SIGNATURE_SIZE;
+    const output = new Array<number>(SIGNATURE_SIZE * SIGNATURE_SIZE).fill(0);
+    for (let y = 0; y < DIGIT_INPUT_SIZE; y++) {
+        for (let x = 0; x < DIGIT_INPUT_SIZE; x++) {
+            output[Math.floor(y / factor) * SIGNATURE_SIZE + Math.floor(x / factor)] += input[y * DIGIT_INPUT_SIZE + x];
+        }
+    }
+    return output.map((v) => v / (factor * factor));
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Fold labelled glyphs into a signature's running per-digit means
+ */
+export const addGlyphsToSignature = (
+    signature: ScribeGlyphSignature | undefined,
+    samples: DigitTrainingSet
+): ScribeGlyphSignature => {
+    const cells = SIGNATURE_SIZE * SIGNATURE_SIZE;
+    const next: ScribeGlyphSignature = signature
+        ? { size: signature.size, means: signature.means.map((m) => [...m]), counts: [...signature.counts] }
+        : { size: SIGNATURE_SIZE, means: Array.from({ length: 10 }, () => new Array<number>(cells).fill(0)), counts: new Array<number>(10).fill(0) };
+
+    samples.inputs.forEach((input, i) => {
+        const digit = samples.labels[i];
+        const glyph = downsampleGlyph(input);
+        const count = next.counts[digit] + 1;
+        next.means[digit] = next.means[digit].map((mean, j) => mean + (glyph[j] - mean) / count);
+        next.counts[digit] = count;
+    });
+
+    // Two decimals are plenty and keep the profile small in storage
+    next.means = next.means.map((m) => m.map((v) => Math.round(v * 100) / 100));
+    return next;
+};
+
+/**
+ * How closely labelled glyphs match a signature (mean cosine similarity),
+ * or null when the signature has none of their digits
+ */
+export const scoreGlyphsAgainstSignature = (
+    samples: DigitTrainingSet,
+    signature: ScribeGlyphSignature
+): { score: number; glyphs: number } | null => {
+    let total = 0;
+    let glyphs = 0;
+    samples.inputs.forEach((input, i) => {
+        const digit = samples.labels[i];
+        if (!signature.counts[digit]) return;
+        total += cosineSimilarity(downsampleGlyph(input), signature.means[digit]);
+        glyphs++;
+    });
+    return glyphs > 0 ? { score: total / glyphs, glyphs } : null;
+};
+
+/**
+ * Labelled glyphs from the amount cells of records
+ */
+const collectGlyphs = (
+    records: TitheRecordB[],
+    decode?: (dataUrl: string) => Promise<RasterImage>
+): Promise<DigitTrainingSet> => {
+    const cells = records
+        .map((r) => ({ crop: r.cellCrops?.amount, amount: Number(r["Transaction Amount"]) }))
+        .filter((c): c is { crop: string; amount: number } => !!c.crop && c.amount > 0);
+    return buildDigitSamplesFromCrops(cells.slice(0, MAX_DETECTION_CELLS), decode);
+};
+
+/**
+ * Learn a scribe's digit shapes from verified records with amount crops.
+ * Returns the number of glyphs learned.
+ */
+export const learnScribeHandwriting = async (
+    scribeId: string,
+    records: TitheRecordB[],
+    decode?: (dataUrl: string) => Promise<RasterImage>
+): Promise<number> => {
+    const samples = await collectGlyphs(records, decode);
+    if (samples.inputs.length === 0) return 0;
+
+    updateScribeProfile(scribeId, (p) => ({ ...p, glyphSignature: addGlyphsToSignature(p.glyphSignature, samples) }));
+    return samples.inputs.length;
+};
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Work out who wrote an extracted page. Digit shapes in the amount cells
+ * are compared with each scribe's signature; without a clear winner the
+ * assembly's only scribe, or else its most recent one, is assumed.
+ */
+export const detectScribe = async (
+    records: TitheRecordB[],
+    scribes: ScribeProfile[],
+    decode?: (dataUrl: string) => Promise<RasterImage>
+): Promise<ScribeDetection | null> => {
+    if (scribes.length === 0) return null;
+
+    const withSignature = scribes.filter((s) => s.glyphSignature);
+    if (withSignature.length > 0) {
+        const samples = await collectGlyphs(records, decode);
+        const ranked = withSignature
+            .map((scribe) => ({ scribe, match: scoreGlyphsAgainstSignature(samples, scribe.glyphSignature as ScribeGlyphSignature) }))
+            .filter((r) => r.match && r.match.glyphs >= MIN_DETECTION_GLYPHS)
+            .sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0));
+
+        const [best, runnerUp] = ranked;
+        if (best?.match && (!runnerUp?.match || best.match.score - runnerUp.match.score >= DETECTION_MARGIN)) {
+            return { scribeId: best.scribe.id, confidence: Math.round(best.match.score * 100) / 100, method: 'handwriting' };
+        }
+    }
+
+    if (scribes.length === 1) {
+        return { scribeId: scribes[0].id, confidence: 0.5, method: 'only_scribe' };
+    }
+    const recent = [...scribes]
+        .filter((s) => s.lastUsedAt)
+        .sort((a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0))[0];
+    return recent ? { scribeId: recent.id, confidence: 0.3, method: 'last_used' } : null;
+};
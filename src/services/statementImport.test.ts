@@ -0,0 +1,195 @@
+/// <reference types="vitest/globals" />
+/**
+ * statementImport.test.ts
+ * Tests for MoMo/bank statement parsing, member matching and list prefill
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyStatementMatches,
+    getMemberPhones,
+    matchStatementTransactions,
+    normalizeGhanaPhone,
+    parseStatementRows,
+    StatementTransaction,
+} from './statementImport';
+import { MemberRecordA, TitheRecordB } from '../types';
+import { makeTitheRecord } from '@/test/titheFixtures';
+
+const makeMember = (overrides: Partial<MemberRecordA> = {}): MemberRecordA => ({
+    'No.': 1,
+    Title: 'Mr',
+    'First Name': 'Kofi',
+    Surname: 'Mensah',
+    'Membership Number': 'TAC001',
+    ...overrides,
+});
+
+const makeRecord = (member: MemberRecordA, amount: number | string = ''): TitheRecordB =>
+    makeTitheRecord({
+        'No.': member['No.'] ?? 1,
+        'Membership Number': `${member['First Name']} ${member.Surname} (${member['Membership Number']})`,
+        "Transaction Date ('DD-MMM-YYYY')": '02-MAR-2025',
+        'Payment Reference': '',
+        'Transaction Amount': amount,
+    });
+
+const makeTransaction = (overrides: Partial<StatementTransaction> = {}): StatementTransaction => ({
+    id: 'stmt-1',
+    date: '02-Mar-2025',
+    senderName: 'KOFI MENSAH',
+    phone: '',
+    amount: 100,
+    reference: 'TX1',
+    ...overrides,
+});
+
+const kofi = makeMember({ 'Phone Number': '0241234567' });
+const ama = makeMember({
+    'No.': 2,
+    Title: 'Mrs',
+    'First Name': 'Ama',
+    Surname: 'Owusu',
+    'Membership Number': 'TAC002',
+    'Whatsapp Number': 233201112222,
+});
+const yaw = makeMember({
+    'No.': 3,
+    'First Name': 'Yaw',
+    Surname: 'Boateng',
+    'Membership Number': 'TAC003',
+    'Other Phone Numbers': '0551000000, 0241234567',
+});
+
+describe('normalizeGhanaPhone', () => {
+    it('reduces local and international formats to the same digits', () => {
+        expect(normalizeGhanaPhone('0241234567')).toBe('241234567');
+        expect(normalizeGhanaPhone('+233 24 123 4567')).toBe('241234567');
+        expect(normalizeGhanaPhone(233241234567)).toBe('241234567');
+        expect(normalizeGhanaPhone('1234')).toBe('');
+    });
+
+    it('collects every number on a member', () => {
+        expect(getMemberPhones(yaw)).toEqual(['551000000', '241234567']);
+    });
+});
+
+describe('parseStatementRows', () => {
+    it('finds the header below account details and keeps only credits', () => {
+        const rows = [
+            ['MTN MoMo Statement'],
+            ['Account', 'Church Wallet'],
+            ['Date', 'Transaction ID', 'From Name', 'From Number', 'Credit', 'Debit'],
+            ['02-Mar-2025', 'TX1', 'KOFI MENSAH', '233241234567', '100.00', ''],
+            ['02-Mar-2025', 'TX2', 'Shop', '233200000000', '', '50.00'],
+            ['03-Mar-2025', 'TX3', 'AMA OWUSU', '', 'GHS 1,250.50', ''],
+        ];
+
+        expect(parseStatementRows(rows)).toEqual([
+            { id: 'stmt-3', date: '02-Mar-2025', senderName: 'KOFI MENSAH', phone: '241234567', amount: 100, reference: 'TX1' },
+            { id: 'stmt-5', date: '03-Mar-2025', senderName: 'AMA OWUSU', phone: '', amount: 1250.5, reference: 'TX3' },
+        ]);
+    });
+
+    it('reads the sender from a bank narration and skips outgoing rows', () => {
+        const rows = [
+            ['Value Date', 'Narration', 'Type', 'Amount', 'Reference'],
+            ['02-Mar-2025', 'TRF FROM YAW BOATENG 0551000000', 'Credit', '200', 'FT001'],
+            ['02-Mar-2025', 'ATM WITHDRAWAL', 'Debit', '80', 'FT002'],
+        ];
+
+        const [transaction, ...rest] = parseStatementRows(rows);
+        expect(rest).toHaveLength(0);
+        expect(transaction.senderName).toBe('YAW BOATENG');
+        expect(transaction.phone).toBe('551000000');
+    });
+
+    it('returns nothing when no statement table is found', () => {
+        expect(parseStatementRows([['Name', 'Notes'], ['Kofi', 'hello']])).toEqual([]);
+    });
+});
+
+describe('matchStatementTransactions', () => {
+    const members = [kofi, ama, yaw];
+
+    it('matches a unique phone number before the name', () => {
+        const [match] = matchStatementTransactions(
+            [makeTransaction({ senderName: 'Someone Else', phone: '201112222' })],
+            members
+        );
+        expect(match.status).toBe('matched');
+        expect(match.source).toBe('phone');
+        expect(match.member).toBe(ama);
+    });
+
+    it('flags a phone number shared by several members as ambiguous', () => {
+        const [match] = matchStatementTransactions([makeTransaction({ phone: '241234567' })], members);
+        expect(match.status).toBe('ambiguous');
+        expect(match.candidates.map((c) => c.member)).toEqual([kofi, yaw]);
+    });
+
+    it('falls back to the sender name', () => {
+        const [match] = matchStatementTransactions([makeTransaction({ senderName: 'MENSAH KOFI' })], members);
+        expect(match.status).toBe('matched');
+        expect(match.source).toBe('name');
+        expect(match.member).toBe(kofi);
+    });
+
+    it('flags near-identical names as ambiguous', () => {
+        const twin = makeMember({ 'No.': 4, 'Membership Number': 'TAC004' });
+        const [match] = matchStatementTransactions([makeTransaction()], [kofi, twin]);
+        expect(match.status).toBe('ambiguous');
+        expect(match.member).toBeNull();
+    });
+
+    it('leaves unknown senders unmatched', () => {
+        const [match] = matchStatementTransactions([makeTransaction({ senderName: 'XYZ Ventures Ltd' })], members);
+        expect(match.status).toBe('unmatched');
+        expect(match.member).toBeNull();
+    });
+});
+
+describe('applyStatementMatches', () => {
+    const buildRecord = (member: MemberRecordA) => makeRecord(member);
+
+    it('fills empty rows and sums several transfers from one member', () => {
+        const list = [makeRecord(kofi), makeRecord(ama)];
+        const { list: updated, filled, added } = applyStatementMatches(
+            list,
+            [
+                { transaction: makeTransaction({ amount: 100, reference: 'TX1' }), member: kofi },
+                { transaction: makeTransaction({ amount: 50, reference: 'TX2' }), member: kofi },
+            ],
+            'MTN MoMo',
+            buildRecord
+        );
+
+        expect(filled).toBe(1);
+        expect(added).toBe(0);
+        expect(updated[0]['Transaction Amount']).toBe(150);
+        expect(updated[0]['Payment Method']).toBe('MTN MoMo');
+        expect(updated[0]['Payment Reference']).toBe('TX1, TX2');
+        expect(updated[1]).toBe(list[1]);
+    });
+
+    it('adds a row when the member already has an amount or is not on the list', () => {
+        const list = [makeRecord(kofi, 40)];
+        const { list: updated, filled, added } = applyStatementMatches(
+            list,
+            [
+                { transaction: makeTransaction({ amount: 100 }), member: kofi },
+                { transaction: makeTransaction({ amount: 20, reference: '' }), member: yaw },
+            ],
+            'Bank Transfer',
+            buildRecord
+        );
+
+        expect(filled).toBe(0);
+        expect(added).toBe(2);
+        expect(updated[0]['Transaction Amount']).toBe(40);
+        expect(updated.slice(1).map((r) => [r['No.'], r['Transaction Amount'], r['Payment Method']])).toEqual([
+            [2, 100, 'Bank Transfer'],
+            [3, 20, 'Bank Transfer'],
+        ]);
+    });
+});
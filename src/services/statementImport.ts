@@ -0,0 +1,348 @@
+/**
+ * Statement Import
+ * Reads a MoMo or bank statement export (CSV/XLSX), keeps the incoming
+ * transfers and matches each one to a member: by phone number first, then
+ * by sender name using the Ghanaian-aware fuzzy matcher. Matched amounts are
+ * then written into the current tithe list.
+ */
+
+import * as XLSX from 'xlsx';
+import { MemberRecordA, TitheRecordB } from '../types';
+import { BASE_CURRENCY, getRecordAmount } from '../lib/currency';
+import { setRecordPaymentMethod } from '../lib/paymentMethods';
+import { findMemberByNameSync, getTopFuzzyMatches } from './reconciliation';
+import { getRecordMemberIds } from './pledgeLedger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StatementTransaction {
+    id: string;
+    date: string;
+    senderName: string;
+    phone: string;      // normalized, see normalizeGhanaPhone
+    amount: number;
+    reference: string;
+}
+
+export type StatementMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+export interface StatementMatchCandidate {
+    member: MemberRecordA;
+    score: number;
+}
+
+export interface StatementMatch {
+    transaction: StatementTransaction;
+    status: StatementMatchStatus;
+    source: 'phone' | 'name' | null;
+    member: MemberRecordA | null;
+    candidates: StatementMatchCandidate[];
+}
+
+export interface StatementAllocation {
+    transaction: StatementTransaction;
+    member: MemberRecordA;
+}
+
+export interface ApplyStatementResult {
+    list: TitheRecordB[];
+    filled: number;  // empty rows given an amount
+    added: number;   // new rows for members without an empty row
+}
+
+type StatementColumn =
+    | 'date' | 'sender' | 'narration' | 'phone' | 'amount' | 'credit' | 'debit' | 'reference' | 'direction';
+
+/**
+ * Header keywords per column, checked in order. Providers name their columns
+ * differently ("From Name", "Sender", "Payer"; "Credit", "Amount (GHS)").
+ */
+const COLUMN_KEYWORDS: [StatementColumn, RegExp][] = [
+    ['credit', /\b(credit|deposit|money in|cr)\b/],
+    ['debit', /\b(debit|withdrawal|money out|dr)\b/],
+    ['amount', /\bamount\b/],
+    ['phone', /\b(msisdn|phone|mobile|wallet|from number|sender number)\b/],
+    ['sender', /\b(sender|from name|from|payer|name|counterparty)\b/],
+    ['narration', /\b(narration|description|details|remarks)\b/],
+    ['reference', /\b(transaction id|trans id|txn id|financial transaction id|reference|ref)\b/],
+    ['date', /\b(date|time)\b/],
+    ['direction', /\b(type|direction)\b/],
+];
+
+/** Banking boilerplate around the sender in a narration ("TRF FROM ...") */
+const NARRATION_PREFIX = /^(?:(?:trf|transfer|momo|mobile money|payment|deposit|cr)\s+)*(?:from|frm|by)\s+/i;
+
+const OUTGOING_PATTERN = /\b(debit|withdraw|cash ?out|sent|transfer to|payment to|dr)\b/i;
+
+/** Two name candidates this close are treated as a tie */
+const AMBIGUOUS_SCORE_GAP = 0.05;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Reduces a Ghanaian number to its 9 national digits so "+233 24 123 4567",
+ * "233241234567" and "0241234567" compare equal. Returns "" for anything
+ * too short to be a phone number.
+ */
+export const normalizeGhanaPhone = (value: unknown): string => {
+    const digits = String(value ?? '').replace(/\D/g, '');
+    if (digits.length < 9) return '';
+    return digits.slice(-9);
+};
+
+const parseStatementAmount = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    const text = String(value ?? '').replace(/[^\d.-]/g, '');
+    const amount = parseFloat(text);
+    return isNaN(amount) ? 0 : amount;
+};
+
+const detectColumns = (headers: string[]): Partial<Record<StatementColumn, number>> => {
+    const columns: Partial<Record<StatementColumn, number>> = {};
+    headers.forEach((header, index) => {
+        const text = header.toLowerCase().replace(/[_/]+/g, ' ').trim();
+        if (!text) return;
+        const found = COLUMN_KEYWORDS.find(([column, pattern]) => columns[column] === undefined && pattern.test(text));
+        if (found) columns[found[0]] = index;
+    });
+    return columns;
+};
+
+/**
+ * Turns statement rows (first row or an early row holding the headers) into
+ * incoming transfers. Outgoing rows, zero amounts and rows without a sender
+ * name or phone are dropped.
+ */
+export const parseStatementRows = (rows: unknown[][]): StatementTransaction[] => {
+    // Statements often open with a few lines of account details before the table
+    const headerIndex = rows.slice(0, 15).findIndex((row) => {
+        const columns = detectColumns(row.map((cell) => String(cell ?? '')));
+        return (columns.amount !== undefined || columns.credit !== undefined) &&
+            (columns.sender !== undefined || columns.narration !== undefined || columns.phone !== undefined);
+    });
+    if (headerIndex === -1) return [];
+
+    const columns = detectColumns(rows[headerIndex].map((cell) => String(cell ?? '')));
+    const cell = (row: unknown[], column: StatementColumn): string => {
+        const index = columns[column];
+        return index === undefined ? '' : String(row[index] ?? '').trim();
+    };
+
+    const transactions: StatementTransaction[] = [];
+    rows.slice(headerIndex + 1).forEach((row, i) => {
+        const amount = columns.credit !== undefined
+            ? parseStatementAmount(cell(row, 'credit'))
+            : parseStatementAmount(cell(row, 'amount'));
+        if (amount <= 0) return;
+        if (columns.credit === undefined && OUTGOING_PATTERN.test(cell(row, 'direction'))) return;
+
+        // Bank statements often only name the sender inside the narration
+        const senderName = cell(row, 'sender') || cell(row, 'narration');
+        const phone = normalizeGhanaPhone(cell(row, 'phone')) ||
+            normalizeGhanaPhone(senderName.match(/\+?\d[\d\s]{8,}/)?.[0]);
+        const name = senderName
+            .replace(/\+?\d[\d\s-]{5,}/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim()
+            .replace(NARRATION_PREFIX, '');
+        if (!name && !phone) return;
+
+        transactions.push({
+            id: `stmt-${headerIndex + 1 + i}`,
+            date: cell(row, 'date'),
+            senderName: name,
+            phone,
+            amount: Math.round(amount * 100) / 100,
+            reference: cell(row, 'reference'),
+        });
+    });
+    return transactions;
+};
+
+/**
+ * Reads the first sheet of a CSV or XLSX statement export
+ */
+export const parseStatementFile = (file: File): Promise<StatementTransaction[]> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            try {
+                const data = event.target?.result;
+                if (!data) {
+                    reject(new Error('File data is null'));
+                    return;
+                }
+                const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+                const sheetName = workbook.SheetNames[0];
+                if (!sheetName) {
+                    reject(new Error('No sheets found in the statement file.'));
+                    return;
+                }
+                const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+                    header: 1,
+                    raw: false,
+                    dateNF: 'dd-mmm-yyyy',
+                });
+                resolve(parseStatementRows(rows));
+            } catch (e) {
+                reject(e);
+            }
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(file);
+    });
+};
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/** Every phone number recorded for a member, normalized */
+export const getMemberPhones = (member: MemberRecordA): string[] =>
+    [
+        member['Phone Number'],
+        member['Whatsapp Number'],
+        ...String(member['Other Phone Numbers'] || '').split(/[,;/]/),
+    ]
+        .map(normalizeGhanaPhone)
+        .filter(Boolean);
+
+const getMemberKey = (member: MemberRecordA): string =>
+    String(member['Membership Number'] || member['Old Membership Number'] || '').trim().toUpperCase();
+
+/**
+ * Matches each transfer to a member.
+ * - A phone number shared by exactly one member is a match; shared by
+ *   several it is ambiguous between them.
+ * - Otherwise the sender name is fuzzy-matched. When the runner-up member
+ *   scores within AMBIGUOUS_SCORE_GAP of the best, the transfer is ambiguous.
+ */
+export const matchStatementTransactions = (
+    transactions: StatementTransaction[],
+    members: MemberRecordA[]
+): StatementMatch[] => {
+    const byPhone = new Map<string, MemberRecordA[]>();
+    for (const member of members) {
+        for (const phone of new Set(getMemberPhones(member))) {
+            byPhone.set(phone, [...(byPhone.get(phone) || []), member]);
+        }
+    }
+
+    return transactions.map((transaction): StatementMatch => {
+        const phoneMatches = transaction.phone ? byPhone.get(transaction.phone) || [] : [];
+        if (phoneMatches.length === 1) {
+            return {
+                transaction,
+                status: 'matched',
+                source: 'phone',
+                member: phoneMatches[0],
+                candidates: [{ member: phoneMatches[0], score: 1 }],
+            };
+        }
+        if (phoneMatches.length > 1) {
+            return {
+                transaction,
+                status: 'ambiguous',
+                source: 'phone',
+                member: null,
+                candidates: phoneMatches.map((member) => ({ member, score: 1 })),
+            };
+        }
+
+        const best = findMemberByNameSync(transaction.senderName, members);
+        const candidates = getTopFuzzyMatches(transaction.senderName, members, 3)
+            .map(({ member, score }) => ({ member, score }));
+        if (!best) {
+            return { transaction, status: 'unmatched', source: null, member: null, candidates };
+        }
+
+        // Compare like with like: candidate scores come from the same scorer
+        const bestKey = getMemberKey(best.member);
+        const isBest = (c: StatementMatchCandidate) => c.member === best.member || getMemberKey(c.member) === bestKey;
+        const bestScore = candidates.find(isBest)?.score ?? best.score;
+        const rival = candidates.find((c) => !isBest(c));
+        const isAmbiguous = !!rival && bestScore - rival.score < AMBIGUOUS_SCORE_GAP;
+        return {
+            transaction,
+            status: isAmbiguous ? 'ambiguous' : 'matched',
+            source: 'name',
+            member: isAmbiguous ? null : best.member,
+            candidates,
+        };
+    });
+};
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+const recordBelongsTo = (record: TitheRecordB, memberIds: string[]): boolean => {
+    const recordIds = record.memberDetails
+        ? [record.memberDetails['Membership Number'], record.memberDetails['Old Membership Number']]
+            .map((id) => String(id || '').trim().toUpperCase())
+            .filter(Boolean)
+        : getRecordMemberIds(record['Membership Number']);
+    return recordIds.some((id) => memberIds.includes(id));
+};
+
+/**
+ * Writes confirmed transfers into a tithe list. Several transfers from one
+ * member are summed into a single amount. The member's row is filled in when
+ * it has no amount yet; otherwise (or when the member is not on the list) a
+ * new row from `buildRecord` is appended so existing cash entries are kept.
+ */
+export const applyStatementMatches = (
+    titheList: TitheRecordB[],
+    allocations: StatementAllocation[],
+    paymentMethod: string,
+    buildRecord: (member: MemberRecordA) => TitheRecordB
+): ApplyStatementResult => {
+    const groups = new Map<string, { member: MemberRecordA; amount: number; references: string[] }>();
+    for (const { transaction, member } of allocations) {
+        const key = getMemberKey(member) || `${member['First Name']} ${member.Surname}`;
+        const group = groups.get(key) || { member, amount: 0, references: [] };
+        group.amount += transaction.amount;
+        if (transaction.reference) group.references.push(transaction.reference);
+        groups.set(key, group);
+    }
+
+    const list = [...titheList];
+    let nextNo = list.reduce((max, r) => Math.max(max, Number(r['No.']) || 0), 0) + 1;
+    let filled = 0;
+    let added = 0;
+
+    for (const { member, amount, references } of groups.values()) {
+        const memberIds = [member['Membership Number'], member['Old Membership Number']]
+            .map((id) => String(id || '').trim().toUpperCase())
+            .filter(Boolean);
+        const emptyIndex = list.findIndex(
+            (record) => recordBelongsTo(record, memberIds) && getRecordAmount(record) <= 0
+        );
+        const base = emptyIndex >= 0 ? list[emptyIndex] : { ...buildRecord(member), 'No.': nextNo };
+        const record = setRecordPaymentMethod(
+            {
+                ...base,
+                Currency: BASE_CURRENCY,
+                'Exchange Rate': 1,
+                'Transaction Amount': Math.round(amount * 100) / 100,
+            },
+            paymentMethod,
+            references.join(', ')
+        );
+
+        if (emptyIndex >= 0) {
+            list[emptyIndex] = record;
+            filled += 1;
+        } else {
+            list.push(record);
+            nextNo += 1;
+            added += 1;
+        }
+    }
+
+    return { list, filled, added };
+};
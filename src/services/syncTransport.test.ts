@@ -0,0 +1,144 @@
+/// <reference types="vitest/globals" />
+/**
+ * syncTransport.test.ts
+ * Tests for sync transports and per-action outcome classification
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    HttpSyncTransport,
+    PendingSyncAction,
+    SyncTransportError,
+    isPermanentHttpStatus,
+    outcomesForBatchError,
+} from './syncTransport';
+
+const makeActions = (): PendingSyncAction[] => [
+    { id: 1, type: 'ADD_MEMBER', payload: { assemblyName: 'Central' }, timestamp: 1000 },
+    { id: 2, type: 'UPDATE_TITHE', payload: { memberId: 'TAC123', amount: 50 }, timestamp: 2000 },
+];
+
+const jsonResponse = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+
+describe('isPermanentHttpStatus', () => {
+    it('treats client errors as permanent', () => {
+        expect(isPermanentHttpStatus(400)).toBe(true);
+        expect(isPermanentHttpStatus(422)).toBe(true);
+    });
+
+    it('treats timeouts, rate limits and server errors as transient', () => {
+        expect(isPermanentHttpStatus(408)).toBe(false);
+        expect(isPermanentHttpStatus(429)).toBe(false);
+        expect(isPermanentHttpStatus(500)).toBe(false);
+        expect(isPermanentHttpStatus(503)).toBe(false);
+    });
+});
+
+describe('outcomesForBatchError', () => {
+    it('marks every action for retry on a transient error', () => {
+        const outcomes = outcomesForBatchError(makeActions(), new Error('Network down'));
+        expect(outcomes.map(o => o.status)).toEqual(['retry', 'retry']);
+        expect(outcomes[0].error).toBe('Network down');
+    });
+
+    it('rejects every action on a permanent transport error', () => {
+        const outcomes = outcomesForBatchError(
+            makeActions(),
+            new SyncTransportError('Bad request', true, 400)
+        );
+        expect(outcomes.map(o => o.status)).toEqual(['rejected', 'rejected']);
+    });
+});
+
+describe('HttpSyncTransport', () => {
+    it('posts actions with a client ID to /sync/actions', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(
+            jsonResponse(200, { results: [{ id: 1, status: 'ok' }, { id: 2, status: 'ok' }] })
+        );
+        const transport = new HttpSyncTransport('http://localhost:8787/', fetchMock);
+
+        await transport.deliver(makeActions());
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('http://localhost:8787/sync/actions');
+        const body = JSON.parse(init.body);
+        expect(typeof body.clientId).toBe('string');
+        expect(body.actions.map((a: { id: number }) => a.id)).toEqual([1, 2]);
+    });
+
+    it('maps server results to per-action outcomes', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(
+            jsonResponse(200, {
+                results: [
+                    { id: 1, status: 'ok' },
+                    { id: 2, status: 'rejected', error: 'Payload is missing memberId' },
+                ],
+            })
+        );
+        const transport = new HttpSyncTransport('http://localhost:8787', fetchMock);
+
+        const outcomes = await transport.deliver(makeActions());
+
+        expect(outcomes).toEqual([
+            { actionId: 1, type: 'ADD_MEMBER', status: 'synced', error: undefined },
+            { actionId: 2, type: 'UPDATE_TITHE', status: 'rejected', error: 'Payload is missing memberId' },
+        ]);
+    });
+
+    it('retries actions the server did not report on', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(
+            jsonResponse(200, { results: [{ id: 1, status: 'ok' }] })
+        );
+        const transport = new HttpSyncTransport('http://localhost:8787', fetchMock);
+
+        const outcomes = await transport.deliver(makeActions());
+
+        expect(outcomes[1].status).toBe('retry');
+    });
+
+    it('retries the whole batch on network failure', async () => {
+        const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+        const transport = new HttpSyncTransport('http://localhost:8787', fetchMock);
+
+        const outcomes = await transport.deliver(makeActions());
+
+        expect(outcomes.every(o => o.status === 'retry')).toBe(true);
+    });
+
+    it('retries on 5xx and rejects on 4xx', async () => {
+        const serverError = new HttpSyncTransport(
+            'http://localhost:8787',
+            vi.fn().mockResolvedValue(jsonResponse(503, {}))
+        );
+        const clientError = new HttpSyncTransport(
+            'http://localhost:8787',
+            vi.fn().mockResolvedValue(jsonResponse(400, {}))
+        );
+
+        expect((await serverError.deliver(makeActions()))[0].status).toBe('retry');
+        expect((await clientError.deliver(makeActions()))[0].status).toBe('rejected');
+    });
+
+    it('retries the batch when the response body is not valid JSON', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(new Response('<html>Bad gateway</html>', { status: 200 }));
+        const transport = new HttpSyncTransport('http://localhost:8787', fetchMock);
+
+        const outcomes = await transport.deliver(makeActions());
+
+        expect(outcomes.map(o => o.status)).toEqual(['retry', 'retry']);
+        expect(outcomes[0].error).toBe('Sync server returned a malformed response');
+    });
+
+    it('does not call the server for an empty batch', async () => {
+        const fetchMock = vi.fn();
+        const transport = new HttpSyncTransport('http://localhost:8787', fetchMock);
+
+        expect(await transport.deliver([])).toEqual([]);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
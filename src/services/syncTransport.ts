@@ -0,0 +1,331 @@
+/**
+ * Sync Transport
+ * Delivers queued SyncManager actions to a remote backend.
+ * Implementations: HTTP REST (see server/sync-server.js) and Google Drive journal.
+ */
+
+import {
+    findOrCreateDriveFile,
+    readFromDrive,
+    saveToDrive,
+} from "@/hooks/useGoogleDriveQuery";
+import { SYNC_CLIENT_ID_STORAGE_KEY, SYNC_JOURNAL_DRIVE_FILENAME } from "@/constants";
+import { MemberRecordA } from "@/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SyncActionType = "ADD_MEMBER" | "UPDATE_MEMBER" | "DELETE_MEMBER" | "UPDATE_TITHE";
+
+export interface PendingSyncAction {
+    id?: number;
+    type: SyncActionType;
+    payload: unknown;
+    timestamp: number;
+    retryCount?: number;
+    lastError?: string;
+}
+
+/**
+ * Payload of ADD_MEMBER / UPDATE_MEMBER actions.
+ * `base`, `baseRevision` and `baseRevisedBy` describe the record the edit
+ * started from, so the backend can detect concurrent edits. Devices count
+ * revisions on their own, so a revision is only the same one when the
+ * device that made it is too.
+ */
+export interface MemberSyncPayload {
+    assemblyName: string;
+    member: MemberRecordA;
+    base?: MemberRecordA;
+    baseRevision?: number;
+    baseRevisedBy?: string;
+}
+
+/**
+ * Payload of DELETE_MEMBER actions. `memberId` is the membership number
+ * the backend keys members by.
+ */
+export interface MemberDeleteSyncPayload {
+    assemblyName: string;
+    memberId: string;
+}
+
+/**
+ * Outcome of delivering a single action:
+ * - synced: accepted by the backend, remove from queue
+ * - retry: transient failure (network, 5xx, rate limit), keep in queue
+ * - rejected: permanent failure (validation, 4xx), move to dead-letter store
+ * - conflict: backend has a newer revision of the member, needs a merge
+ */
+export type SyncOutcomeStatus = "synced" | "retry" | "rejected" | "conflict";
+
+export interface SyncActionOutcome {
+    actionId: number;
+    type: SyncActionType;
+    status: SyncOutcomeStatus;
+    error?: string;
+    /** Current backend version of the member (conflict outcomes only) */
+    remote?: MemberRecordA;
+}
+
+export interface SyncTransport {
+    /** Human-readable name for logs and UI */
+    readonly name: string;
+    /** Deliver a batch of actions and report one outcome per action */
+    deliver(actions: PendingSyncAction[]): Promise<SyncActionOutcome[]>;
+}
+
+/**
+ * Error thrown by a transport when a whole batch could not be delivered
+ */
+export class SyncTransportError extends Error {
+    constructor(
+        message: string,
+        public readonly permanent: boolean,
+        public readonly status?: number
+    ) {
+        super(message);
+        this.name = "SyncTransportError";
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * 4xx responses are permanent, except timeouts and rate limiting
+ */
+export const isPermanentHttpStatus = (status: number): boolean =>
+    status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+/**
+ * Stable per-device ID so the backend can de-duplicate redelivered actions
+ */
+export const getSyncClientId = (): string => {
+    let clientId = localStorage.getItem(SYNC_CLIENT_ID_STORAGE_KEY);
+    if (!clientId) {
+        clientId = typeof crypto !== "undefined" && "randomUUID" in crypto
+            ? crypto.randomUUID()
+            : `client-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+        localStorage.setItem(SYNC_CLIENT_ID_STORAGE_KEY, clientId);
+    }
+    return clientId;
+};
+
+/**
+ * UPDATE_MEMBER payload for an edit of `base`, stamping the next revision
+ * with this device's client ID
+ */
+export const createMemberUpdatePayload = (
+    assemblyName: string,
+    member: MemberRecordA,
+    base?: MemberRecordA
+): MemberSyncPayload => ({
+    assemblyName,
+    member: { ...member, revision: (base?.revision || 0) + 1, revisedBy: getSyncClientId() },
+    base,
+    baseRevision: base?.revision || 0,
+    baseRevisedBy: base?.revisedBy,
+});
+
+/**
+ * Expand a batch-level failure into one outcome per action
+ */
+export const outcomesForBatchError = (
+    actions: PendingSyncAction[],
+    error: unknown
+): SyncActionOutcome[] => {
+    const permanent = error instanceof SyncTransportError && error.permanent;
+    const message = error instanceof Error ? error.message : String(error);
+    return actions.map((action) => ({
+        actionId: action.id!,
+        type: action.type,
+        status: permanent ? "rejected" : "retry",
+        error: message,
+    }));
+};
+
+// ============================================================================
+// HTTP TRANSPORT
+// ============================================================================
+
+interface HttpSyncResponse {
+    results: Array<{
+        id: number;
+        status: "ok" | "rejected" | "conflict";
+        error?: string;
+        current?: MemberRecordA;
+    }>;
+}
+
+/**
+ * Posts batches to `${baseUrl}/sync/actions`.
+ * The server replies with a result per action ID; missing results are retried.
+ */
+export class HttpSyncTransport implements SyncTransport {
+    readonly name = "http";
+
+    constructor(
+        private readonly baseUrl: string,
+        private readonly fetchImpl: typeof fetch = (...args) => fetch(...args)
+    ) { }
+
+    async deliver(actions: PendingSyncAction[]): Promise<SyncActionOutcome[]> {
+        if (actions.length === 0) return [];
+
+        let response: Response;
+        try {
+            response = await this.fetchImpl(`${this.baseUrl.replace(/\/+$/, "")}/sync/actions`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    clientId: getSyncClientId(),
+                    actions: actions.map(({ id, type, payload, timestamp }) => ({
+                        id,
+                        type,
+                        payload,
+                        timestamp,
+                    })),
+                }),
+            });
+        } catch (error) {
+            // Network failure - always transient
+            return outcomesForBatchError(actions, error);
+        }
+
+        if (!response.ok) {
+            return outcomesForBatchError(
+                actions,
+                new SyncTransportError(
+                    `Sync server responded with HTTP ${response.status}`,
+                    isPermanentHttpStatus(response.status),
+                    response.status
+                )
+            );
+        }
+
+        let body: HttpSyncResponse;
+        try {
+            body = (await response.json()) as HttpSyncResponse;
+        } catch {
+            // A truncated or non-JSON body says nothing about the actions - try again
+            return outcomesForBatchError(actions, new Error("Sync server returned a malformed response"));
+        }
+        const results = Array.isArray(body?.results) ? body.results : [];
+        const resultsById = new Map(results.map((r) => [r.id, r]));
+
+        return actions.map((action) => {
+            const result = resultsById.get(action.id!);
+            if (!result) {
+                return {
+                    actionId: action.id!,
+                    type: action.type,
+                    status: "retry",
+                    error: "No result returned for action",
+                };
+            }
+            if (result.status === "conflict") {
+                return {
+                    actionId: action.id!,
+                    type: action.type,
+                    status: "conflict",
+                    error: result.error,
+                    remote: result.current,
+                };
+            }
+            return {
+                actionId: action.id!,
+                type: action.type,
+                status: result.status === "ok" ? "synced" : "rejected",
+                error: result.error,
+            };
+        });
+    }
+}
+
+// ============================================================================
+// GOOGLE DRIVE TRANSPORT
+// ============================================================================
+
+export interface SyncJournalEntry {
+    key: string; // `${clientId}:${actionId}` for idempotent re-delivery
+    clientId: string;
+    actionId: number;
+    type: SyncActionType;
+    payload: PendingSyncAction["payload"];
+    timestamp: number;
+    receivedAt: number;
+}
+
+/**
+ * Appends actions to a JSON journal file in the user's Google Drive.
+ * Requires gapi to be loaded and the user to be signed in.
+ * The journal is append-only, so it never reports member conflicts.
+ */
+export class GoogleDriveSyncTransport implements SyncTransport {
+    readonly name = "google-drive";
+    private fileId: string | null = null;
+
+    async deliver(actions: PendingSyncAction[]): Promise<SyncActionOutcome[]> {
+        if (actions.length === 0) return [];
+
+        try {
+            if (!window.gapi?.client?.drive) {
+                throw new SyncTransportError("Google Drive is not available", false);
+            }
+
+            if (!this.fileId) {
+                this.fileId = await findOrCreateDriveFile(SYNC_JOURNAL_DRIVE_FILENAME);
+            }
+
+            const clientId = getSyncClientId();
+            const journal = await readFromDrive<SyncJournalEntry>(this.fileId!);
+            const existingKeys = new Set(journal.map((e) => e.key));
+            const now = Date.now();
+
+            for (const action of actions) {
+                const key = `${clientId}:${action.id}`;
+                if (existingKeys.has(key)) continue;
+                journal.push({
+                    key,
+                    clientId,
+                    actionId: action.id!,
+                    type: action.type,
+                    payload: action.payload,
+                    timestamp: action.timestamp,
+                    receivedAt: now,
+                });
+            }
+
+            await saveToDrive(this.fileId!, journal);
+        } catch (caught) {
+            const error = caught as {
+                message?: string;
+                status?: number;
+                result?: { error?: { code?: number; message?: string } };
+            };
+            const status = error?.result?.error?.code ?? error?.status;
+            if (status === 404) {
+                // Journal file was deleted remotely - recreate on next attempt
+                this.fileId = null;
+            }
+            const wrapped = caught instanceof SyncTransportError
+                ? caught
+                : new SyncTransportError(
+                    error?.result?.error?.message || error?.message || "Drive sync failed",
+                    // Expired tokens (401) and a missing journal (404) recover on retry
+                    status !== undefined && status !== 401 && status !== 404 && isPermanentHttpStatus(status),
+                    status
+                );
+            return outcomesForBatchError(actions, wrapped);
+        }
+
+        return actions.map((action) => ({
+            actionId: action.id!,
+            type: action.type,
+            status: "synced",
+        }));
+    }
+}
@@ -1,7 +1,14 @@
 /// <reference types="vitest/globals" />
 import { describe, it, expect } from 'vitest';
-import { createTitheList, parseMemberId } from './titheList';
-import { ConcatenationConfig, MemberRecordA } from '@/types';
+import {
+  buildTransactionLogEntry,
+  createTitheList,
+  parseMemberId,
+  upsertTransactionLogEntries,
+  validateTitheListForTACMS,
+} from './titheList';
+import { ConcatenationConfig, MemberRecordA, TitheRecordB } from '@/types';
+import { makeTitheRecord } from '@/test/titheFixtures';
 
 const fullConfig: ConcatenationConfig = {
   Title: true,
@@ -81,6 +88,22 @@ describe('titheList.createTitheList', () => {
     const result = createTitheList(members, fullConfig, new Date('2025-02-03'), 'Tithe for {DD-MMM-YYYY}');
     expect(result[0]['Narration/Description']).toBe('Tithe for 03-FEB-2025');
   });
+
+  it('uses the list transaction settings', () => {
+    const members: MemberRecordA[] = [
+      { 'No.': 1, 'First Name': 'A', Surname: 'B', 'Membership Number': 'ID1' },
+    ];
+    const defaults = createTitheList(members, fullConfig, new Date('2025-02-03'), 'Desc');
+    const offering = createTitheList(members, fullConfig, new Date('2025-02-03'), 'Desc', null, {
+      transactionType: 'Sunday Offering-[Income]',
+      paymentSourceType: 'Visitor',
+    });
+
+    expect(defaults[0]['Transaction Type']).toBe('Individual Tithe-[Income]');
+    expect(defaults[0]['Payment Source Type']).toBe('Registered Member');
+    expect(offering[0]['Transaction Type']).toBe('Sunday Offering-[Income]');
+    expect(offering[0]['Payment Source Type']).toBe('Visitor');
+  });
 });
 
 describe('titheList.parseMemberId', () => {
@@ -92,3 +115,78 @@ describe('titheList.parseMemberId', () => {
     expect(parseMemberId(' TAC123 ')).toBe('TAC123');
   });
 });
+
+describe('titheList.validateTitheListForTACMS', () => {
+  it('accepts foreign currency records that have a rate', () => {
+    const result = validateTitheListForTACMS([makeTitheRecord({ Currency: 'USD', 'Exchange Rate': 15.5 })]);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('rejects foreign currency records without a rate', () => {
+    const result = validateTitheListForTACMS([makeTitheRecord({ Currency: 'GBP', 'Exchange Rate': 0 })]);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/Missing exchange rate for GBP on 02-NOV-2025/);
+  });
+
+  it('accepts configured transaction types and warns on unknown ones', () => {
+    const welfare = validateTitheListForTACMS([makeTitheRecord({ 'Transaction Type': 'Welfare Dues-[Income]' })]);
+    const unknown = validateTitheListForTACMS([makeTitheRecord({ 'Transaction Type': 'Building Fund-[Income]' })]);
+
+    expect(welfare.warnings).toEqual([]);
+    expect(unknown.warnings[0]).toMatch(/Unexpected Transaction Type 'Building Fund-\[Income\]'/);
+  });
+
+  it('accepts mobile money and warns on unknown payment methods', () => {
+    const momo = validateTitheListForTACMS([makeTitheRecord({ 'Payment Method': 'MTN MoMo', 'Payment Reference': '123' })]);
+    const unknown = validateTitheListForTACMS([makeTitheRecord({ 'Payment Method': 'Crypto' })]);
+
+    expect(momo.warnings).toEqual([]);
+    expect(unknown.warnings[0]).toMatch(/Unexpected Payment Method 'Crypto'/);
+  });
+
+  it('warns on unsupported currencies', () => {
+    const result = validateTitheListForTACMS([makeTitheRecord({ Currency: 'NGN' })]);
+    expect(result.warnings[0]).toMatch(/Unsupported Currency 'NGN'/);
+  });
+});
+
+describe('titheList transaction log entries', () => {
+  const record = (amount: number, extra: Partial<TitheRecordB> = {}) =>
+    ({ 'No.': 1, 'Membership Number': 'KOFI (TAC001)', 'Transaction Amount': amount, ...extra }) as TitheRecordB;
+
+  const logEntry = (date: Date, titheListData: TitheRecordB[]) =>
+    buildTransactionLogEntry({
+      assemblyName: 'Central',
+      date,
+      titheListData,
+      concatenationConfig: fullConfig,
+      descriptionText: 'Tithe',
+      amountMappingColumn: null,
+    });
+
+  it('totals the list, counts tithers and drops cell crops', () => {
+    const entry = logEntry(new Date(2025, 2, 9), [
+      record(50, { cellCrops: { amount: 'data:image/jpeg;base64,AA' } }),
+      record(0),
+    ]);
+
+    expect(entry.id).toBe('Central-09-MAR-2025');
+    expect(entry.selectedDate).toBe('09-MAR-2025');
+    expect(entry.totalTitheAmount).toBe(50);
+    expect(entry.titherCount).toBe(1);
+    expect(entry.recordCount).toBe(2);
+    expect(entry.soulsWonCount).toBe(0);
+    expect(entry.titheListData[0]).not.toHaveProperty('cellCrops');
+  });
+
+  it('replaces entries for the same Sunday and appends new ones', () => {
+    const first = logEntry(new Date(2025, 2, 2), [record(10)]);
+    const redo = logEntry(new Date(2025, 2, 2), [record(30)]);
+    const next = logEntry(new Date(2025, 2, 9), [record(20)]);
+
+    const log = upsertTransactionLogEntries([first], [redo, next]);
+    expect(log.map((e) => e.id)).toEqual(['Central-02-MAR-2025', 'Central-09-MAR-2025']);
+    expect(log[0].totalTitheAmount).toBe(30);
+  });
+});
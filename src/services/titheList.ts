@@ -1,5 +1,54 @@
-import { MemberRecordA, TitheRecordB, ConcatenationConfig } from "../types";
+import { MemberRecordA, TitheRecordB, ConcatenationConfig, TransactionSettings, TransactionLogEntry } from "../types";
 import { formatDateDDMMMYYYY } from "../lib/dataTransforms";
+import {
+  DEFAULT_PAYMENT_METHOD,
+  DEFAULT_TRANSACTION_SETTINGS,
+  PAYMENT_METHODS,
+  PAYMENT_SOURCE_TYPES,
+  TRANSACTION_TYPES,
+} from "../constants";
+import { BASE_CURRENCY, isForeignCurrency, isSupportedCurrency, sumAmountsInGHS } from "../lib/currency";
+import { stripCellCrops } from "./imageProcessor/cellCrops";
+
+/**
+ * "Membership Number" cell of a tithe record: the name parts and
+ * "(ID|OLD_ID)" that the config asks for
+ */
+export const getConcatenatedMemberName = (member: MemberRecordA, config: ConcatenationConfig): string => {
+  const isProcessingRawData = !!(member["First Name"] || member["Surname"]);
+  let namePart = "";
+  if (config.Title && member.Title) namePart += `${member.Title} `;
+  if (config["First Name"] && member["First Name"]) namePart += `${member["First Name"]} `;
+  if (config.Surname && member.Surname) namePart += `${member.Surname} `;
+  if (config["Other Names"] && member["Other Names"]) namePart += `${member["Other Names"]} `;
+  namePart = namePart.trim();
+
+  let numberPart = "";
+  if (config["Membership Number"]) {
+    const mainMemberNum = member["Membership Number"]?.trim() || "";
+    const oldMemberNum = member["Old Membership Number"]?.trim() || "";
+
+    if (mainMemberNum && oldMemberNum) {
+      numberPart = `(${mainMemberNum}|${oldMemberNum})`;
+    } else if (mainMemberNum) {
+      numberPart = isProcessingRawData ? `(${mainMemberNum})` : mainMemberNum;
+    } else if (oldMemberNum) {
+      numberPart = `(${oldMemberNum})`;
+    }
+  }
+
+  let concatenatedName = namePart;
+  if (numberPart) {
+    concatenatedName = namePart ? `${namePart} ${numberPart}` : numberPart;
+  }
+  concatenatedName = concatenatedName.trim();
+
+  if (concatenatedName === "()" && !namePart && !member["Membership Number"] && !member["Old Membership Number"]) {
+    concatenatedName = "";
+  }
+
+  return concatenatedName;
+};
 
 export const createTitheList = (
   members: MemberRecordA[],
@@ -7,46 +56,11 @@ export const createTitheList = (
   selectedDate: Date,
   descriptionTemplate: string,
   amountMappingColumn?: string | null,
+  transactionSettings: TransactionSettings = DEFAULT_TRANSACTION_SETTINGS,
 ): TitheRecordB[] => {
   const formattedDate = formatDateDDMMMYYYY(selectedDate);
   const description = descriptionTemplate.replace(/\{DD-MMM-YYYY\}/gi, formattedDate);
 
-  const getConcatenatedMemberName = (member: MemberRecordA, config: ConcatenationConfig): string => {
-    const isProcessingRawData = !!(member["First Name"] || member["Surname"]);
-    let namePart = "";
-    if (config.Title && member.Title) namePart += `${member.Title} `;
-    if (config["First Name"] && member["First Name"]) namePart += `${member["First Name"]} `;
-    if (config.Surname && member.Surname) namePart += `${member.Surname} `;
-    if (config["Other Names"] && member["Other Names"]) namePart += `${member["Other Names"]} `;
-    namePart = namePart.trim();
-
-    let numberPart = "";
-    if (config["Membership Number"]) {
-      const mainMemberNum = member["Membership Number"]?.trim() || "";
-      const oldMemberNum = member["Old Membership Number"]?.trim() || "";
-
-      if (mainMemberNum && oldMemberNum) {
-        numberPart = `(${mainMemberNum}|${oldMemberNum})`;
-      } else if (mainMemberNum) {
-        numberPart = isProcessingRawData ? `(${mainMemberNum})` : mainMemberNum;
-      } else if (oldMemberNum) {
-        numberPart = `(${oldMemberNum})`;
-      }
-    }
-
-    let concatenatedName = namePart;
-    if (numberPart) {
-      concatenatedName = namePart ? `${namePart} ${numberPart}` : numberPart;
-    }
-    concatenatedName = concatenatedName.trim();
-
-    if (concatenatedName === "()" && !namePart && !member["Membership Number"] && !member["Old Membership Number"]) {
-      concatenatedName = "";
-    }
-
-    return concatenatedName;
-  };
-
   const getTransactionAmount = (member: MemberRecordA, amountMappingColumn?: string | null): number | string => {
     let transactionAmount: number | string = "";
     if (amountMappingColumn && member[amountMappingColumn] !== undefined && member[amountMappingColumn] !== null) {
@@ -68,13 +82,14 @@ export const createTitheList = (
 
     return {
       "No.": member["No."] || index + 1,
-      "Transaction Type": "Individual Tithe-[Income]",
-      "Payment Source Type": "Registered Member",
+      "Transaction Type": transactionSettings.transactionType,
+      "Payment Source Type": transactionSettings.paymentSourceType,
       "Membership Number": concatenatedName,
       "Transaction Date ('DD-MMM-YYYY')": formattedDate,
-      Currency: "GHS",
+      Currency: BASE_CURRENCY,
       "Exchange Rate": 1,
-      "Payment Method": "Cash",
+      "Payment Method": DEFAULT_PAYMENT_METHOD,
+      "Payment Reference": "",
       "Transaction Amount": transactionAmount,
       "Narration/Description": description,
       memberDetails: member,
@@ -92,6 +107,68 @@ export const parseMemberId = (rawId: string): string => {
   return trimmed;
 };
 
+/**
+ * Everything needed to snapshot a tithe list into the transaction log
+ */
+export interface TransactionLogEntryInput {
+  assemblyName: string;
+  date: Date;
+  titheListData: TitheRecordB[];
+  soulsWonCount?: number | null;
+  concatenationConfig: ConcatenationConfig;
+  descriptionText: string;
+  amountMappingColumn: string | null;
+  transactionSettings?: TransactionSettings;
+}
+
+/**
+ * Builds the transaction log entry for one assembly and Sunday.
+ * The id is `${assembly}-${DD-MMM-YYYY}`, so logging the same Sunday again replaces it.
+ */
+export const buildTransactionLogEntry = (input: TransactionLogEntryInput): TransactionLogEntry => {
+  const { assemblyName, date, titheListData } = input;
+  const dateString = formatDateDDMMMYYYY(date);
+  const titherCount = titheListData.filter(
+    (r) => !isNaN(Number(r["Transaction Amount"])) && Number(r["Transaction Amount"]) > 0,
+  ).length;
+
+  return {
+    id: `${assemblyName}-${dateString}`,
+    assemblyName,
+    timestamp: Date.now(),
+    selectedDate: dateString,
+    totalTitheAmount: sumAmountsInGHS(titheListData),
+    soulsWonCount: input.soulsWonCount ?? 0,
+    titherCount,
+    recordCount: titheListData.length,
+    // Cell crops are only needed while reviewing an extraction
+    titheListData: stripCellCrops(titheListData),
+    concatenationConfig: input.concatenationConfig,
+    descriptionText: input.descriptionText,
+    amountMappingColumn: input.amountMappingColumn,
+    transactionSettings: input.transactionSettings,
+  };
+};
+
+/**
+ * Adds entries to the log, replacing any with the same id
+ */
+export const upsertTransactionLogEntries = (
+  log: TransactionLogEntry[],
+  entries: TransactionLogEntry[],
+): TransactionLogEntry[] => {
+  const updated = [...log];
+  for (const entry of entries) {
+    const existingIndex = updated.findIndex((e) => e.id === entry.id);
+    if (existingIndex > -1) {
+      updated[existingIndex] = entry;
+    } else {
+      updated.push(entry);
+    }
+  }
+  return updated;
+};
+
 /**
  * Validation result for TACMS export compliance
  */
@@ -147,11 +224,20 @@ export const validateTitheListForTACMS = (list: TitheRecordB[]): TACMSValidation
     }
 
     // Check required fixed fields
-    if (record["Transaction Type"] !== "Individual Tithe-[Income]") {
+    if (!TRANSACTION_TYPES.includes(record["Transaction Type"])) {
       warnings.push(`Row ${rowNum}: Unexpected Transaction Type '${record["Transaction Type"]}'`);
     }
-    if (record.Currency !== "GHS") {
-      warnings.push(`Row ${rowNum}: Currency is '${record.Currency}', expected 'GHS'`);
+    if (!PAYMENT_SOURCE_TYPES.includes(record["Payment Source Type"])) {
+      warnings.push(`Row ${rowNum}: Unexpected Payment Source Type '${record["Payment Source Type"]}'`);
+    }
+    if (!PAYMENT_METHODS.includes(record["Payment Method"])) {
+      warnings.push(`Row ${rowNum}: Unexpected Payment Method '${record["Payment Method"]}'`);
+    }
+    // Foreign currencies are allowed but need a rate to convert to GHS
+    if (!isSupportedCurrency(record.Currency)) {
+      warnings.push(`Row ${rowNum}: Unsupported Currency '${record.Currency}'`);
+    } else if (isForeignCurrency(record.Currency) && !(Number(record["Exchange Rate"]) > 0)) {
+      errors.push(`Row ${rowNum}: Missing exchange rate for ${record.Currency} on ${dateVal}`);
     }
   });
 
@@ -9,6 +9,7 @@ import {
 import { CacheableResponsePlugin } from "workbox-cacheable-response";
 import { ExpirationPlugin } from "workbox-expiration";
 import { Queue } from 'workbox-background-sync';
+import { SHARED_FILES_CACHE, storeSharedFiles } from "./lib/launchTargets";
 
 // Serve offline.html for navigation requests when offline
 const offlineHandler = createHandlerBoundToURL("offline.html");
@@ -84,6 +85,27 @@ registerRoute(
   }),
 );
 
+// 4. Share Target (manifest share_target)
+// The OS POSTs shared files here. Stash them in the Cache API and redirect to
+// the app route, which picks them up by share ID.
+registerRoute(
+  ({ url }) => url.pathname === "/TACTMS/share-target",
+  async ({ request }) => {
+    try {
+      const formData = await request.formData();
+      const files = formData
+        .getAll("files")
+        .filter((entry): entry is File => entry instanceof File);
+      const shareId = await storeSharedFiles(files);
+      return Response.redirect(`/TACTMS/share-target?share=${shareId}`, 303);
+    } catch (error) {
+      console.error("[SW] Failed to receive shared files:", error);
+      return Response.redirect("/TACTMS/share-target?error=1", 303);
+    }
+  },
+  "POST",
+);
+
 interface SyncEvent extends Event {
   readonly tag: string;
   readonly lastChance: boolean;
@@ -178,6 +200,7 @@ self.addEventListener("activate", (event) => {
         "api-cache",
         "image-cache",
         "analytics-queue", // Workbox queue cache
+        SHARED_FILES_CACHE,
       ];
 
       return Promise.all(
@@ -0,0 +1,70 @@
+/**
+ * Generated members and OCR-damaged names for the member name index tests
+ * and benchmarks
+ */
+
+import { MemberRecordA } from '@/types';
+
+const FIRST_NAMES = [
+    'Kwasi', 'Akosua', 'Kojo', 'Adwoa', 'Kwabena', 'Abena', 'Kwaku', 'Akua', 'Yaw', 'Yaa',
+    'Kofi', 'Afua', 'Kwame', 'Ama', 'Emmanuel', 'Grace', 'Samuel', 'Comfort', 'Daniel', 'Mercy',
+    'Isaac', 'Patience', 'Joseph', 'Felicia', 'Stephen', 'Gifty', 'Benjamin', 'Esther', 'Michael', 'Ruth',
+];
+
+const SURNAMES = [
+    'Mensah', 'Owusu', 'Aryeetey', 'Lamptey', 'Addai', 'Boateng', 'Asante', 'Adjei', 'Amoah', 'Ansah',
+    'Appiah', 'Tetteh', 'Twumasi', 'Asare', 'Osei', 'Agyeman', 'Danquah', 'Frimpong', 'Gyamfi', 'Nkansah',
+    'Ofori', 'Quaye', 'Sarpong', 'Yeboah', 'Darko', 'Acheampong', 'Badu', 'Kyei', 'Opoku', 'Wiredu',
+];
+
+const TITLES = ['', '', '', 'Mr.', 'Mrs.', 'Elder', 'Deacon', 'Pastor'];
+
+/** Deterministic pseudo-random numbers (mulberry32) */
+export const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const generateMembers = (count: number, seed: number): MemberRecordA[] => {
+    const random = createRandom(seed);
+    const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+    return Array.from({ length: count }, (_, i) => ({
+        'No.': i + 1,
+        'Membership Number': `TAC${String(1000 + i)}`,
+        Title: pick(TITLES),
+        'First Name': pick(FIRST_NAMES),
+        Surname: pick(SURNAMES),
+        'Other Names': random() < 0.4 ? pick(FIRST_NAMES) : '',
+    }));
+};
+
+const OCR_MISREADS: Record<string, string> = { O: '0', I: '1', S: '5', E: '3', A: '4', B: '8', G: '6', T: '7' };
+
+/** Names as a scribe writes them and the OCR reads them back */
+export const damageName = (member: MemberRecordA, random: () => number): string => {
+    const first = member['First Name'] || '';
+    const surname = member.Surname || '';
+    const variant = Math.floor(random() * 6);
+    let name = [
+        `${first} ${surname}`,
+        `${surname} ${first}`,
+        `${member.Title || 'Bro.'} ${first} ${surname}`,
+        `${first} ${member['Other Names'] || ''} ${surname}`,
+        surname,
+        `${first}${surname}`,
+    ][variant].toUpperCase();
+
+    const edits = Math.floor(random() * 3);
+    for (let e = 0; e < edits; e++) {
+        const i = Math.floor(random() * name.length);
+        const char = name[i];
+        if (OCR_MISREADS[char] && random() < 0.6) {
+            name = name.slice(0, i) + OCR_MISREADS[char] + name.slice(i + 1);
+        } else if (char !== ' ') {
+            name = name.slice(0, i) + name.slice(i + 1);
+        }
+    }
+    return name;
+};
@@ -0,0 +1,21 @@
+/**
+ * Tithe list records for the currency, transaction type, payment method,
+ * pledge and statement tests
+ */
+
+import { TitheRecordB } from '@/types';
+
+/** A GHS 100 cash tithe from Kofi Mensah (TAC001) on 02-NOV-2025 */
+export const makeTitheRecord = (overrides: Partial<TitheRecordB> = {}): TitheRecordB => ({
+    'No.': 1,
+    'Transaction Type': 'Individual Tithe-[Income]',
+    'Payment Source Type': 'Registered Member',
+    'Membership Number': 'Kofi Mensah (TAC001)',
+    "Transaction Date ('DD-MMM-YYYY')": '02-NOV-2025',
+    Currency: 'GHS',
+    'Exchange Rate': 1,
+    'Payment Method': 'Cash',
+    'Transaction Amount': 100,
+    'Narration/Description': 'Tithe',
+    ...overrides,
+});
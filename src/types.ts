@@ -45,6 +45,18 @@ export interface MemberRecordA {
   firstSeenDate?: string; // ISO string
   firstSeenSource?: string; // e.g., filename or 'manual_add'
   customOrder?: number;
+  revision?: number; // Incremented on every local edit; base for sync conflict detection
+  revisedBy?: string; // Sync client ID of the device that made `revision`
+  transferHistory?: MemberTransfer[]; // Moves between assemblies, oldest first
+}
+
+// A member's move from one assembly to another (see services/memberTransfer)
+export interface MemberTransfer {
+  fromAssembly: string;
+  toAssembly: string;
+  transferDate: string; // YYYY-MM-DD the member started at toAssembly
+  reason?: string;
+  recordedAt: number;
 }
 
 export interface TitheRecordB {
@@ -56,10 +68,35 @@ export interface TitheRecordB {
   Currency: string;
   "Exchange Rate": number;
   "Payment Method": string;
+  "Payment Reference"?: string; // MoMo / bank transaction ID; not part of the TACMS export
   "Transaction Amount": number | string; // Allow string for initial empty state
   "Narration/Description": string;
   Confidence?: number; // 0 to 1 score from AI
   memberDetails?: MemberRecordA; // Linked member record for accurate export formatting
+  cellCrops?: TitheCellCrops; // Handwritten cells this record was read from; not part of the TACMS export
+}
+
+// Small JPEG data URLs cut from the tithe book photo around each read cell
+export interface TitheCellCrops {
+  name?: string;
+  amount?: string;
+}
+
+// Transaction Type / Payment Source Type applied to every record in a list
+export interface TransactionSettings {
+  transactionType: string;
+  paymentSourceType: string;
+}
+
+// Which vision model reads tithe book images (Settings → AI Vision Provider)
+export type VisionProviderId = "gemini" | "openai-compatible" | "offline";
+
+export interface VisionProviderSettings {
+  provider: VisionProviderId;
+  // OpenAI-compatible endpoint, e.g. a local Ollama server running LLaVA
+  baseUrl: string;
+  model: string;
+  apiKey: string;
 }
 
 export interface ConcatenationConfig {
@@ -82,6 +119,7 @@ export interface FavoriteConfig {
   selectedDate: string; // Store as ISO string or DD-MMM-YYYY
   descriptionText: string;
   amountMappingColumn?: string | null;
+  transactionSettings?: TransactionSettings; // Absent on favorites saved before types were configurable
 
   originalData?: MemberRecordA[]; // Store full original data
   processedDataA?: MemberRecordA[]; // Store full processed (e.g. filtered) data
@@ -102,6 +140,7 @@ export interface AutoSaveDraft {
   ageRangeMax: string;
   fileNameToSave: string;
   amountMappingColumn: string | null;
+  transactionSettings?: TransactionSettings;
   uploadedFileName?: string;
   originalDataRecordCount: number;
   processedDataARecordCount: number;
@@ -136,6 +175,26 @@ export interface ConflictingMemberDetail {
   similarityScore?: number;
 }
 
+// Types for offline sync conflict resolution (three-way merge)
+export interface MemberFieldConflict {
+  field: string;
+  baseValue: unknown;
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+export interface MemberSyncConflict {
+  id: string; // `${assemblyName}:${memberId}`
+  assemblyName: string;
+  memberId: string;
+  base: MemberRecordA; // Record both sides started from
+  local: MemberRecordA; // This device's edit
+  remote: MemberRecordA; // Version already on the sync backend
+  conflicts: MemberFieldConflict[];
+  mergedFields: string[]; // Non-conflicting fields taken from the remote side
+  detectedAt: number;
+}
+
 export interface MembershipReconciliationReport {
   newMembers: MemberRecordA[];
   changedMembers: ChangedMemberDetail[];
@@ -180,6 +239,24 @@ export interface TransactionLogEntry {
   concatenationConfig: ConcatenationConfig;
   descriptionText: string;
   amountMappingColumn: string | null;
+  transactionSettings?: TransactionSettings;
+}
+
+// Pledge ledger: a member's promise toward a campaign (harvest, building fund).
+// Payments are not stored on the pledge; they are matched from logged tithe
+// lists whose Transaction Type equals the pledge's transactionType.
+export interface Pledge {
+  id: string;
+  assemblyName: string;
+  memberId: string; // Membership Number (or Old Membership Number) of the MemberRecordA
+  memberName: string;
+  campaign: string; // e.g. "Harvest 2025", "Building Fund"
+  transactionType: string; // Payments of this type count toward the pledge
+  amount: number; // GHS
+  deadline: string; // YYYY-MM-DD
+  startDate?: string; // YYYY-MM-DD, first day payments count; defaults to the day the pledge was made
+  createdAt: number;
+  notes?: string;
 }
 
 // New type for Reports Section
@@ -189,6 +266,8 @@ export interface ReportData {
   soulsWon: number;
   titherCount: number;
   recordCount: number;
+  totalsByType: Record<string, number>; // GHS totals keyed by Transaction Type
+  totalsByPaymentMethod: Record<string, number>; // GHS totals keyed by Payment Method
 }
 
 // New type for AI Outreach Assistant
@@ -246,6 +325,7 @@ export interface AmountCorrection {
   timestamp: number;
   source: 'tithe_entry' | 'verification' | 'batch';
   isGlobal?: boolean;         // True = applies to all assemblies
+  scribeId?: string;          // Who wrote the page, when known
 }
 
 /**
@@ -257,6 +337,7 @@ export interface CorrectionSuggestion {
   occurrences: number;       // How many times this correction was made
   isExactMatch: boolean;     // True if originalValue matches exactly
   isGlobal?: boolean;        // True if from global patterns
+  isScribeMatch?: boolean;   // True if learned from the same scribe's pages
 }
 
 /**
@@ -267,6 +348,41 @@ export interface SubstitutionPattern {
   to: string;     // What it should be: "0"
   frequency: number;
   contexts: string[];  // Examples where this was learned
+  scribeId?: string;   // Learned from one scribe's pages; absent = any writer
+}
+
+/**
+ * A person who fills in an assembly's tithe book. Corrections are learned
+ * per scribe because each writer's digit shapes fool the OCR differently.
+ */
+export interface ScribeProfile {
+  id: string;
+  assemblyName: string;
+  name: string;
+  createdAt: number;
+  lastUsedAt?: number;
+  reviewedCount: number;     // Amounts checked on this scribe's pages
+  correctedCount: number;    // Of those, amounts the reviewer had to fix
+  glyphSignature?: ScribeGlyphSignature;
+}
+
+/**
+ * Average shape of each digit 0-9 in a scribe's verified cells, used to
+ * recognise who wrote a page
+ */
+export interface ScribeGlyphSignature {
+  size: number;              // Glyphs are stored as size × size grids
+  means: number[][];         // Per digit, row-major ink darkness 0-1
+  counts: number[];          // Glyphs averaged into each digit
+}
+
+/**
+ * The scribe chosen for a page and how
+ */
+export interface ScribeDetection {
+  scribeId: string;
+  confidence: number;
+  method: 'selected' | 'handwriting' | 'only_scribe' | 'last_used';
 }
 
 /**
@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: string;
   readonly VITE_GOOGLE_CLIENT_ID: string;
   readonly VITE_VAPID_PUBLIC_KEY: string;
+  readonly VITE_SYNC_SERVER_URL?: string;
 }
 
 interface ImportMeta {
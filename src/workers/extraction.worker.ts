@@ -0,0 +1,8 @@
+/**
+ * Extraction Worker
+ * Entry point of the worker threads in the extraction pool.
+ */
+import { exposeWorkerApi, WorkerEndpoint } from './workerRpc';
+import { extractionApi } from './extractionApi';
+
+exposeWorkerApi(extractionApi, self as unknown as WorkerEndpoint);
@@ -0,0 +1,100 @@
+/**
+ * Extraction Worker API
+ * The heavy post-processing steps of image extraction, exposed to the
+ * worker pool: Hungarian name matching, fuzzy member suggestions, page
+ * sequencing and on-device digit recognition and learning.
+ *
+ * Payloads and results must be structured-cloneable, so members come back
+ * as copies; callers that need the original objects map them by index.
+ */
+
+import { FuzzyMatchResult, MemberRecordA, TitheRecordB } from '@/types';
+import { findOptimalMatches, ExtractedNameInput, OptimalMatchResult } from '@/services/imageProcessor/matching';
+import { findMemberByNameSync, getTopFuzzyMatches } from '@/services/reconciliation';
+import { mergePageExtractions } from '@/services/pageSequencer';
+import type { DigitPrediction, DigitTrainingSet } from '@/services/imageProcessor/offlineDigits';
+import type { TaskContext } from './workerRpc';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MatchNamesPayload {
+    names: ExtractedNameInput[];
+    members: MemberRecordA[];
+    memberOrderMap?: Map<string, number>;
+    aliasMap?: Map<string, string>;
+}
+
+export interface SuggestMembersPayload {
+    names: string[];
+    members: MemberRecordA[];
+    /** Suggestions returned for names without a match */
+    limit?: number;
+}
+
+export interface MemberSuggestion {
+    /** Index into `members` of the best match, or -1 */
+    matchIndex: number;
+    match: FuzzyMatchResult | null;
+    suggestions: FuzzyMatchResult[];
+}
+
+/** Names are scored in chunks between progress events */
+const PROGRESS_INTERVAL = 10;
+
+// ============================================================================
+// API
+// ============================================================================
+
+export const extractionApi = {
+    /**
+     * Global 1-to-1 assignment of extracted names to members
+     */
+    matchNames: ({ names, members, memberOrderMap, aliasMap }: MatchNamesPayload): OptimalMatchResult[] =>
+        findOptimalMatches(names, members, memberOrderMap, aliasMap),
+
+    /**
+     * Best fuzzy match per name, with top suggestions when none is close enough
+     */
+    suggestMembers: ({ names, members, limit = 3 }: SuggestMembersPayload, context: TaskContext): MemberSuggestion[] => {
+        const indexOf = new Map(members.map((member, index) => [member, index]));
+        const results: MemberSuggestion[] = [];
+
+        names.forEach((name, i) => {
+            const match = findMemberByNameSync(name, members);
+            results.push({
+                matchIndex: match ? indexOf.get(match.member) ?? -1 : -1,
+                match,
+                suggestions: match ? [] : getTopFuzzyMatches(name, members, limit),
+            });
+            if ((i + 1) % PROGRESS_INTERVAL === 0 || i === names.length - 1) {
+                context.reportProgress({ completed: i + 1, total: names.length });
+            }
+        });
+        return results;
+    },
+
+    /**
+     * Combine duplicate shots and put pages in book order
+     */
+    mergePages: ({ pages }: { pages: TitheRecordB[][] }) => mergePageExtractions(pages),
+
+    /**
+     * Run the on-device digit recognizer on normalized glyphs
+     */
+    classifyDigits: async ({ inputs }: { inputs: Float32Array[] }): Promise<DigitPrediction[]> => {
+        const { classifyDigits } = await import('@/services/imageProcessor/digitRecognizer');
+        return classifyDigits(inputs);
+    },
+
+    /**
+     * Fine-tune the digit recognizer on glyphs from verified cells
+     */
+    learnDigits: async (samples: DigitTrainingSet): Promise<number> => {
+        const { fineTuneDigitRecognizer } = await import('@/services/imageProcessor/digitRecognizer');
+        return fineTuneDigitRecognizer(samples);
+    },
+};
+
+export type ExtractionApi = typeof extractionApi;
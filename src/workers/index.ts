@@ -0,0 +1,33 @@
+/**
+ * Workers
+ * Shared pool for moving extraction post-processing off the main thread.
+ */
+import { createWorkerPool, WorkerPool } from './workerPool';
+import { createLocalWorker, WorkerLike } from './workerRpc';
+import { extractionApi, ExtractionApi } from './extractionApi';
+
+export { createWorkerPool, defaultPoolSize } from './workerPool';
+export type { RunTaskOptions, WorkerPool } from './workerPool';
+export { WorkerCancelledError, exposeWorkerApi, createLocalWorker } from './workerRpc';
+export type { TaskProgress, TaskContext, WorkerApi } from './workerRpc';
+export type { ExtractionApi, MemberSuggestion } from './extractionApi';
+
+let extractionPool: WorkerPool<ExtractionApi> | null = null;
+
+const spawnExtractionWorker = (): WorkerLike =>
+    new Worker(new URL('./extraction.worker.ts', import.meta.url), { type: 'module', name: 'tactms-extraction' });
+
+/**
+ * The app-wide extraction pool. Falls back to running on the main thread
+ * (same API, still async) where Worker is unavailable.
+ */
+export const getExtractionPool = (): WorkerPool<ExtractionApi> => {
+    if (!extractionPool) {
+        if (typeof Worker !== 'undefined') {
+            extractionPool = createWorkerPool<ExtractionApi>(spawnExtractionWorker);
+        } else {
+            extractionPool = createWorkerPool<ExtractionApi>(() => createLocalWorker(extractionApi), 1);
+        }
+    }
+    return extractionPool;
+};
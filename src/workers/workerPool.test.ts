@@ -0,0 +1,161 @@
+/// <reference types="vitest/globals" />
+/**
+ * workerPool.test.ts
+ * Tests for the typed worker pool: RPC results and errors, progress events,
+ * queueing, cancellation and the extraction API it serves
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createWorkerPool } from './workerPool';
+import { createLocalWorker, TaskContext, WorkerCancelledError, WorkerLike } from './workerRpc';
+import { extractionApi } from './extractionApi';
+import { MemberRecordA } from '@/types';
+
+const testApi = {
+    double: ({ value }: { value: number }) => value * 2,
+    count: async ({ to }: { to: number }, context: TaskContext) => {
+        for (let i = 1; i <= to; i++) context.reportProgress({ completed: i, total: to });
+        return to;
+    },
+    fail: ({ message }: { message: string }) => {
+        throw new RangeError(message);
+    },
+    /** Never finishes, like a long solve */
+    hang: (_payload: Record<string, never>) => new Promise<number>(() => undefined),
+};
+
+/** A worker that crashes on its first message */
+const createCrashingWorker = (): WorkerLike => {
+    const onError = new Set<(event: Event) => void>();
+    return {
+        postMessage: () => setTimeout(() => onError.forEach((listener) => listener(new Event('error'))), 0),
+        addEventListener: (type: string, listener: (event: MessageEvent) => void) => {
+            if (type === 'error') onError.add(listener as (event: Event) => void);
+        },
+        terminate: vi.fn(),
+    };
+};
+
+const createPool = (size = 1) => {
+    const spawn = vi.fn(() => createLocalWorker(testApi));
+    return { pool: createWorkerPool<typeof testApi>(spawn, size), spawn };
+};
+
+describe('createWorkerPool', () => {
+    it('calls a worker method and resolves with its result', async () => {
+        const { pool } = createPool();
+        await expect(pool.run('double', { value: 21 })).resolves.toBe(42);
+    });
+
+    it('streams progress events before the result', async () => {
+        const { pool } = createPool();
+        const onProgress = vi.fn();
+
+        await expect(pool.run('count', { to: 3 }, { onProgress })).resolves.toBe(3);
+        expect(onProgress.mock.calls.map(([p]) => p.completed)).toEqual([1, 2, 3]);
+    });
+
+    it('rejects with the worker error name and message', async () => {
+        const { pool } = createPool();
+        await expect(pool.run('fail', { message: 'Out of range' })).rejects.toMatchObject({
+            name: 'RangeError',
+            message: 'Out of range',
+        });
+        // The worker is free again afterwards
+        await expect(pool.run('double', { value: 1 })).resolves.toBe(2);
+    });
+
+    it('queues tasks beyond the pool size and spawns workers lazily', async () => {
+        const { pool, spawn } = createPool(2);
+        expect(spawn).not.toHaveBeenCalled();
+
+        const results = Promise.all([1, 2, 3, 4].map(value => pool.run('double', { value })));
+        expect(spawn).toHaveBeenCalledTimes(2);
+        expect(pool.pending).toBe(2);
+        await expect(results).resolves.toEqual([2, 4, 6, 8]);
+    });
+
+    it('cancels a queued task without running it', async () => {
+        const { pool } = createPool();
+        const controller = new AbortController();
+        const first = pool.run('double', { value: 1 });
+        const second = pool.run('double', { value: 2 }, { signal: controller.signal });
+
+        controller.abort();
+        await expect(second).rejects.toBeInstanceOf(WorkerCancelledError);
+        await expect(first).resolves.toBe(2);
+    });
+
+    it('replaces the worker of a cancelled running task', async () => {
+        const { pool, spawn } = createPool();
+        const controller = new AbortController();
+        const hung = pool.run('hang', {}, { signal: controller.signal });
+
+        controller.abort();
+        await expect(hung).rejects.toBeInstanceOf(WorkerCancelledError);
+        expect(spawn).toHaveBeenCalledTimes(2);
+        await expect(pool.run('double', { value: 5 })).resolves.toBe(10);
+    });
+
+    it('fails the task of a crashed worker and runs the queue on a new one', async () => {
+        const crashing = createCrashingWorker();
+        const spawn = vi.fn<() => WorkerLike>(() => createLocalWorker(testApi)).mockReturnValueOnce(crashing);
+        const pool = createWorkerPool<typeof testApi>(spawn, 1);
+
+        const lost = pool.run('double', { value: 1 });
+        const next = pool.run('double', { value: 2 });
+
+        await expect(lost).rejects.toThrow('stopped unexpectedly');
+        await expect(next).resolves.toBe(4);
+        expect(crashing.terminate).toHaveBeenCalled();
+        expect(spawn).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects a task whose payload cannot be posted and frees the worker', async () => {
+        const spawn = vi.fn((): WorkerLike => {
+            const worker = createLocalWorker(testApi);
+            return {
+                ...worker,
+                postMessage: (message) => worker.postMessage(structuredClone(message)),
+            };
+        });
+        const pool = createWorkerPool<typeof testApi>(spawn, 1);
+
+        const uncloneable = { value: (() => 1) as unknown as number };
+        await expect(pool.run('double', uncloneable)).rejects.toThrow();
+        await expect(pool.run('double', { value: 3 })).resolves.toBe(6);
+    });
+
+    it('rejects everything once terminated', async () => {
+        const { pool } = createPool();
+        const running = pool.run('hang', {});
+        pool.terminate();
+
+        await expect(running).rejects.toBeInstanceOf(WorkerCancelledError);
+        await expect(pool.run('double', { value: 1 })).rejects.toThrow('shut down');
+    });
+});
+
+describe('extractionApi', () => {
+    const members: MemberRecordA[] = [
+        { 'No.': 1, 'First Name': 'Kwame', Surname: 'Mensah', 'Membership Number': 'TAC001' },
+        { 'No.': 2, 'First Name': 'Abena', Surname: 'Owusu', 'Membership Number': 'TAC002' },
+    ];
+
+    it('returns the index of each matched member and suggestions for the rest', async () => {
+        const pool = createWorkerPool<typeof extractionApi>(() => createLocalWorker(extractionApi), 1);
+        const onProgress = vi.fn();
+
+        const [kwame, stranger] = await pool.run(
+            'suggestMembers',
+            { names: ['Kwame Mensah', 'Zzyzx Qwerty'], members },
+            { onProgress }
+        );
+
+        expect(kwame.matchIndex).toBe(0);
+        expect(kwame.suggestions).toEqual([]);
+        expect(stranger.matchIndex).toBe(-1);
+        expect(stranger.match).toBeNull();
+        expect(onProgress).toHaveBeenLastCalledWith({ completed: 2, total: 2 });
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * Worker Pool
+ * Queues typed RPC calls over a few workers so heavy post-processing runs
+ * off the main thread. Workers are spawned on first use. Cancelling a
+ * running task terminates its worker and starts a fresh one, since a busy
+ * synchronous solver cannot be interrupted any other way. A worker that
+ * crashes is replaced the same way after failing its task.
+ */
+
+import {
+    PayloadOf,
+    ResultOf,
+    TaskProgress,
+    WorkerApi,
+    WorkerCancelledError,
+    WorkerLike,
+    WorkerResponse,
+} from './workerRpc';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RunTaskOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: TaskProgress) => void;
+}
+
+export interface WorkerPool<Api extends WorkerApi> {
+    run<K extends keyof Api & string>(
+        method: K,
+        payload: PayloadOf<Api, K>,
+        options?: RunTaskOptions
+    ): Promise<ResultOf<Api, K>>;
+    /** Tasks waiting for a free worker */
+    readonly pending: number;
+    terminate(): void;
+}
+
+interface Task {
+    id: number;
+    method: string;
+    payload: unknown;
+    options: RunTaskOptions;
+    resolve: (value: never) => void;
+    reject: (error: Error) => void;
+    onAbort?: () => void;
+}
+
+interface Slot {
+    worker: WorkerLike;
+    task: Task | null;
+}
+
+/**
+ * One worker per spare core, at most two (phones have little memory)
+ */
+export const defaultPoolSize = (): number => {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.max(1, Math.min(2, cores - 1));
+};
+
+// ============================================================================
+// POOL
+// ============================================================================
+
+export const createWorkerPool = <Api extends WorkerApi>(
+    spawn: () => WorkerLike,
+    size: number = defaultPoolSize()
+): WorkerPool<Api> => {
+    const queue: Task[] = [];
+    const slots: Slot[] = [];
+    let nextId = 1;
+    let terminated = false;
+
+    const listen = (slot: Slot) => {
+        const worker = slot.worker;
+        worker.addEventListener('message', (event) => {
+            // Ignore late messages from a worker replaced after a cancel
+            if (slot.worker === worker) handleResponse(slot, event.data as WorkerResponse);
+        });
+        const onFailure = (event: Event) => {
+            if (slot.worker === worker) handleFailure(slot, event);
+        };
+        worker.addEventListener('error', onFailure);
+        worker.addEventListener('messageerror', onFailure);
+    };
+
+    const replaceWorker = (slot: Slot) => {
+        slot.worker.terminate();
+        slot.worker = spawn();
+        listen(slot);
+    };
+
+    const createSlot = (): Slot => {
+        const slot: Slot = { worker: spawn(), task: null };
+        listen(slot);
+        return slot;
+    };
+
+    const settle = (slot: Slot): Task | null => {
+        const task = slot.task;
+        slot.task = null;
+        if (task?.onAbort) task.options.signal?.removeEventListener('abort', task.onAbort);
+        return task;
+    };
+
+    const handleResponse = (slot: Slot, response: WorkerResponse) => {
+        const task = slot.task;
+        if (!task || task.id !== response.id) return;
+
+        switch (response.type) {
+            case 'progress':
+                task.options.onProgress?.(response.progress);
+                return;
+            case 'result':
+                settle(slot)?.resolve(response.value as never);
+                break;
+            case 'error': {
+                const error = new Error(response.message);
+                error.name = response.name;
+                settle(slot)?.reject(error);
+                break;
+            }
+        }
+        dispatch();
+    };
+
+    /**
+     * The running task will never get an answer: fail it and carry on
+     * with a fresh worker
+     */
+    const handleFailure = (slot: Slot, event: Event) => {
+        const task = settle(slot);
+        replaceWorker(slot);
+        const message = event.type === 'messageerror'
+            ? 'Could not read the worker response'
+            : (event as ErrorEvent).message || 'The worker stopped unexpectedly';
+        task?.reject(new Error(message));
+        dispatch();
+    };
+
+    const dispatch = () => {
+        while (queue.length > 0) {
+            let slot = slots.find((s) => !s.task);
+            if (!slot && slots.length < size) {
+                slot = createSlot();
+                slots.push(slot);
+            }
+            const task = slot && queue.shift();
+            if (!slot || !task) return;
+
+            slot.task = task;
+            try {
+                slot.worker.postMessage({ id: task.id, method: task.method, payload: task.payload });
+            } catch (error) {
+                // e.g. DataCloneError for a payload the worker cannot receive
+                settle(slot);
+                task.reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    };
+
+    const cancel = (task: Task) => {
+        const queued = queue.indexOf(task);
+        if (queued >= 0) {
+            queue.splice(queued, 1);
+        } else {
+            const slot = slots.find((s) => s.task === task);
+            if (!slot) return;
+            settle(slot);
+            replaceWorker(slot);
+        }
+        task.reject(new WorkerCancelledError());
+        dispatch();
+    };
+
+    return {
+        run(method, payload, options = {}) {
+            if (terminated) return Promise.reject(new Error('The worker pool has been shut down'));
+            if (options.signal?.aborted) return Promise.reject(new WorkerCancelledError());
+
+            return new Promise((resolve, reject) => {
+                const task: Task = {
+                    id: nextId++,
+                    method,
+                    payload,
+                    options,
+                    resolve: resolve as (value: never) => void,
+                    reject,
+                };
+                if (options.signal) {
+                    task.onAbort = () => cancel(task);
+                    options.signal.addEventListener('abort', task.onAbort, { once: true });
+                }
+                queue.push(task);
+                dispatch();
+            });
+        },
+        get pending() {
+            return queue.length;
+        },
+        terminate() {
+            terminated = true;
+            for (const task of queue.splice(0)) task.reject(new WorkerCancelledError('The worker pool has been shut down'));
+            for (const slot of slots) {
+                settle(slot)?.reject(new WorkerCancelledError('The worker pool has been shut down'));
+                slot.worker.terminate();
+            }
+            slots.length = 0;
+        },
+    };
+};
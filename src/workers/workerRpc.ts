@@ -0,0 +1,120 @@
+/**
+ * Worker RPC
+ * A small typed request/response protocol between the page and a worker.
+ * The worker exposes an object of handlers; the pool calls them by name and
+ * gets back a promise, with progress events streamed while the task runs.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaskProgress {
+    completed: number;
+    total: number;
+}
+
+export interface TaskContext {
+    /** Streams a progress event back to the caller */
+    reportProgress: (progress: TaskProgress) => void;
+}
+
+/** Handlers take one structured-cloneable payload */
+export type WorkerApi = Record<string, (payload: never, context: TaskContext) => unknown>;
+
+export type PayloadOf<Api extends WorkerApi, K extends keyof Api> = Parameters<Api[K]>[0];
+export type ResultOf<Api extends WorkerApi, K extends keyof Api> = Awaited<ReturnType<Api[K]>>;
+
+export interface WorkerRequest {
+    id: number;
+    method: string;
+    payload: unknown;
+}
+
+export type WorkerResponse =
+    | { type: 'progress'; id: number; progress: TaskProgress }
+    | { type: 'result'; id: number; value: unknown }
+    | { type: 'error'; id: number; name: string; message: string };
+
+/** The part of Worker / DedicatedWorkerGlobalScope the protocol uses */
+export interface WorkerEndpoint {
+    postMessage(message: unknown): void;
+    addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+export interface WorkerLike extends WorkerEndpoint {
+    addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+    /** The worker crashed (error) or sent a response that could not be read (messageerror) */
+    addEventListener(type: 'error' | 'messageerror', listener: (event: Event) => void): void;
+    terminate(): void;
+}
+
+/**
+ * Thrown when a task is cancelled through its AbortSignal
+ */
+export class WorkerCancelledError extends Error {
+    constructor(message = 'The task was cancelled') {
+        super(message);
+        this.name = 'WorkerCancelledError';
+    }
+}
+
+// ============================================================================
+// WORKER SIDE
+// ============================================================================
+
+/**
+ * Serves the handlers of `api` on a worker endpoint (call from the worker)
+ */
+export const exposeWorkerApi = (api: WorkerApi, endpoint: WorkerEndpoint): void => {
+    endpoint.addEventListener('message', async (event) => {
+        const { id, method, payload } = event.data as WorkerRequest;
+        try {
+            const handler = api[method];
+            if (!handler) throw new Error(`Unknown worker method: ${method}`);
+
+            const value = await handler(payload as never, {
+                reportProgress: (progress) => endpoint.postMessage({ type: 'progress', id, progress }),
+            });
+            endpoint.postMessage({ type: 'result', id, value });
+        } catch (error) {
+            endpoint.postMessage({
+                type: 'error',
+                id,
+                name: error instanceof Error ? error.name : 'Error',
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+    });
+};
+
+/**
+ * Runs `api` on the current thread behind the same message protocol.
+ * Used where Worker is unavailable (tests, very old browsers).
+ */
+export const createLocalWorker = (api: WorkerApi): WorkerLike => {
+    const toWorker = new Set<(event: MessageEvent) => void>();
+    const toPage = new Set<(event: MessageEvent) => void>();
+    let terminated = false;
+
+    // Deliver on a later tick, like a real message port
+    const deliver = (listeners: Set<(event: MessageEvent) => void>, data: unknown) =>
+        setTimeout(() => {
+            if (!terminated) listeners.forEach((listener) => listener({ data } as MessageEvent));
+        }, 0);
+
+    exposeWorkerApi(api, {
+        postMessage: (message) => deliver(toPage, message),
+        addEventListener: (_type, listener) => toWorker.add(listener),
+    });
+
+    return {
+        postMessage: (message) => deliver(toWorker, message),
+        addEventListener: (type: string, listener: (event: MessageEvent) => void) => {
+            if (type === 'message') toPage.add(listener);
+        },
+        terminate: () => {
+            terminated = true;
+        },
+    };
+};
@@ -66,7 +66,9 @@ export default defineConfig(({ mode }) => {
                 "application/vnd.ms-excel": [".xls"],
                 "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
                   ".xlsx"
-                ]
+                ],
+                "image/jpeg": [".jpg", ".jpeg"],
+                "image/png": [".png"]
               },
 
             }
@@ -86,7 +88,11 @@ export default defineConfig(({ mode }) => {
                     "application/vnd.ms-excel",
                     "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
                     ".xls",
-                    ".xlsx"
+                    ".xlsx",
+                    "image/*",
+                    ".jpg",
+                    ".jpeg",
+                    ".png"
                   ]
                 }
               ]
@@ -818,5 +824,9 @@ export default defineConfig(({ mode }) => {
         "@": path.resolve(__dirname, "./src"),
       },
     },
+    // The extraction worker lazy-loads the digit recognizer, so it needs ES module output
+    worker: {
+      format: "es",
+    },
   };
 });